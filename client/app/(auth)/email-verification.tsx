@@ -14,7 +14,7 @@ import { useLanguage } from "@/src/i18n/context/LanguageContext";
 import { useTheme } from "@/src/context/ThemeContext";
 import { useDispatch } from "react-redux";
 import { AppDispatch } from "@/src/store";
-import { api } from "@/src/services/api";
+import { api, authAPI } from "@/src/services/api";
 import { Mail, ArrowLeft, Shield, RefreshCw, Check } from "lucide-react-native";
 
 export default function EmailVerificationScreen() {
@@ -103,16 +103,9 @@ export default function EmailVerificationScreen() {
       console.log("✅ Verification response:", response);
 
       if (response.data.success && response.data.user && response.data.token) {
-        // Store token in SecureStore for mobile
-        const { Platform } = require("react-native");
-        if (Platform.OS !== "web") {
-          const SecureStore = require("expo-secure-store");
-          await SecureStore.setItemAsync(
-            "auth_token_secure",
-            response.data.token
-          );
-          console.log("✅ Token stored in SecureStore for mobile");
-        }
+        // Keep the access and refresh tokens for later requests
+        await authAPI.storeSession(response.data);
+        console.log("✅ Tokens stored");
 
         // Store auth data in Redux
         dispatch({
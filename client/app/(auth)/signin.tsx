@@ -12,17 +12,20 @@ import { Link, router } from "expo-router";
 import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
 import { useDispatch, useSelector } from "react-redux";
-import { signIn } from "@/src/store/authSlice";
+import { cancelMfa, signIn, verifyMfa } from "@/src/store/authSlice";
 import { RootState, AppDispatch } from "@/src/store";
 
 export default function SignInScreen() {
   const { t } = useTranslation();
   const { isRTL } = useLanguage();
   const dispatch = useDispatch<AppDispatch>();
-  const { isLoading, error } = useSelector((state: RootState) => state.auth);
+  const { isLoading, error, mfaToken } = useSelector(
+    (state: RootState) => state.auth
+  );
 
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [mfaCode, setMfaCode] = useState("");
 
   const handleSignIn = async () => {
     if (!email || !password) {
@@ -32,7 +35,8 @@ export default function SignInScreen() {
 
     try {
       const result = await dispatch(signIn({ email, password })).unwrap();
-      if (result.success) {
+      // With MFA on, the code form takes over instead
+      if (result.success && !result.mfa_required) {
         router.replace("/(tabs)");
       }
     } catch (error: any) {
@@ -40,86 +44,165 @@ export default function SignInScreen() {
     }
   };
 
+  const handleVerifyMfa = async () => {
+    if (!mfaCode.trim()) {
+      Alert.alert(t("common.error"), "Please enter your code");
+      return;
+    }
+
+    try {
+      await dispatch(verifyMfa(mfaCode.trim())).unwrap();
+      setMfaCode("");
+      router.replace("/(tabs)");
+    } catch (error: any) {
+      Alert.alert(t("common.error"), error || "Invalid code");
+    }
+  };
+
+  const handleCancelMfa = () => {
+    setMfaCode("");
+    setPassword("");
+    dispatch(cancelMfa());
+  };
+
+  // Replaces the sign-in form once the password is accepted
+  const mfaContent = (
+    <View style={styles.content}>
+      <View style={styles.header}>
+        <Text style={[styles.title, isRTL && styles.titleRTL]}>
+          {t("auth.mfa_title")}
+        </Text>
+        <Text style={[styles.subtitle, isRTL && styles.subtitleRTL]}>
+          {t("auth.mfa_subtitle")}
+        </Text>
+      </View>
+
+      <View style={styles.form}>
+        <View style={styles.inputContainer}>
+          <TextInput
+            style={[styles.input, isRTL && styles.inputRTL]}
+            placeholder={t("auth.mfa_code")}
+            placeholderTextColor="#10B981"
+            value={mfaCode}
+            onChangeText={setMfaCode}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            autoComplete="one-time-code"
+            textContentType="oneTimeCode"
+            textAlign={isRTL ? "right" : "left"}
+            editable={!isLoading}
+          />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.signInButton, isLoading && styles.buttonDisabled]}
+          onPress={handleVerifyMfa}
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <ActivityIndicator size="small" color="#ffffff" />
+          ) : (
+            <Text style={styles.signInButtonText}>{t("auth.verify")}</Text>
+          )}
+        </TouchableOpacity>
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <View style={[styles.footer, isRTL && styles.footerRTL]}>
+          <TouchableOpacity onPress={handleCancelMfa} disabled={isLoading}>
+            <Text style={styles.linkText}>
+              {t("auth.use_another_account")}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+
   return (
     <View style={[styles.container, isRTL && styles.containerRTL]}>
       <View style={styles.backgroundAccent} />
 
-      <View style={styles.content}>
-        <View style={styles.header}>
-          <Text style={[styles.title, isRTL && styles.titleRTL]}>
-            {t("auth.welcome_back")}
-          </Text>
-          <Text style={[styles.subtitle, isRTL && styles.subtitleRTL]}>
-            {t("auth.sign_in")}
-          </Text>
-        </View>
-
-        <View style={styles.form}>
-          <View style={styles.inputContainer}>
-            <TextInput
-              style={[styles.input, isRTL && styles.inputRTL]}
-              placeholder={t("auth.email")}
-              placeholderTextColor="#10B981"
-              value={email}
-              onChangeText={setEmail}
-              keyboardType="email-address"
-              autoCapitalize="none"
-              textAlign={isRTL ? "right" : "left"}
-              editable={!isLoading}
-            />
+      {mfaToken ? (
+        mfaContent
+      ) : (
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={[styles.title, isRTL && styles.titleRTL]}>
+              {t("auth.welcome_back")}
+            </Text>
+            <Text style={[styles.subtitle, isRTL && styles.subtitleRTL]}>
+              {t("auth.sign_in")}
+            </Text>
           </View>
 
-          <View style={styles.inputContainer}>
-            <TextInput
-              style={[styles.input, isRTL && styles.inputRTL]}
-              placeholder={t("auth.password")}
-              placeholderTextColor="#10B981"
-              value={password}
-              onChangeText={setPassword}
-              secureTextEntry
-              textAlign={isRTL ? "right" : "left"}
-              editable={!isLoading}
-            />
-          </View>
+          <View style={styles.form}>
+            <View style={styles.inputContainer}>
+              <TextInput
+                style={[styles.input, isRTL && styles.inputRTL]}
+                placeholder={t("auth.email")}
+                placeholderTextColor="#10B981"
+                value={email}
+                onChangeText={setEmail}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                textAlign={isRTL ? "right" : "left"}
+                editable={!isLoading}
+              />
+            </View>
 
-          <TouchableOpacity
-            onPress={() => router.push("/forgotPassword")}
-            style={styles.forgotPassword}
-          >
-            <Text
-              style={[
-                styles.forgotPasswordText,
-                isRTL && styles.forgotPasswordTextRTL,
-              ]}
+            <View style={styles.inputContainer}>
+              <TextInput
+                style={[styles.input, isRTL && styles.inputRTL]}
+                placeholder={t("auth.password")}
+                placeholderTextColor="#10B981"
+                value={password}
+                onChangeText={setPassword}
+                secureTextEntry
+                textAlign={isRTL ? "right" : "left"}
+                editable={!isLoading}
+              />
+            </View>
+
+            <TouchableOpacity
+              onPress={() => router.push("/forgotPassword")}
+              style={styles.forgotPassword}
             >
-              {t("auth.forgot_password")}
-            </Text>
-          </TouchableOpacity>
+              <Text
+                style={[
+                  styles.forgotPasswordText,
+                  isRTL && styles.forgotPasswordTextRTL,
+                ]}
+              >
+                {t("auth.forgot_password")}
+              </Text>
+            </TouchableOpacity>
 
-          <TouchableOpacity
-            style={[styles.signInButton, isLoading && styles.buttonDisabled]}
-            onPress={handleSignIn}
-            disabled={isLoading}
-          >
-            {isLoading ? (
-              <ActivityIndicator size="small" color="#ffffff" />
-            ) : (
-              <Text style={styles.signInButtonText}>{t("auth.sign_in")}</Text>
-            )}
-          </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.signInButton, isLoading && styles.buttonDisabled]}
+              onPress={handleSignIn}
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.signInButtonText}>{t("auth.sign_in")}</Text>
+              )}
+            </TouchableOpacity>
 
-          {error && <Text style={styles.errorText}>{error}</Text>}
+            {error && <Text style={styles.errorText}>{error}</Text>}
 
-          <View style={[styles.footer, isRTL && styles.footerRTL]}>
-            <Text style={styles.footerText}>{t("auth.no_account")} </Text>
-            <Link href="/signup" asChild>
-              <TouchableOpacity>
-                <Text style={styles.linkText}>{t("auth.sign_up")}</Text>
-              </TouchableOpacity>
-            </Link>
+            <View style={[styles.footer, isRTL && styles.footerRTL]}>
+              <Text style={styles.footerText}>{t("auth.no_account")} </Text>
+              <Link href="/signup" asChild>
+                <TouchableOpacity>
+                  <Text style={styles.linkText}>{t("auth.sign_up")}</Text>
+                </TouchableOpacity>
+              </Link>
+            </View>
           </View>
         </View>
-      </View>
+      )}
     </View>
   );
 }
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import {
   View,
   Text,
@@ -27,12 +27,18 @@ import {
   Trash2,
   RotateCcw,
   Info,
+  Square,
 } from "lucide-react-native";
 import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
-import { chatAPI, questionnaireAPI } from "@/src/services/api";
+import {
+  ChatAction,
+  chatAPI,
+  questionnaireAPI,
+} from "@/src/services/api";
 import i18n from "@/src/i18n";
 import LoadingScreen from "@/components/LoadingScreen";
+import ChatActionCard from "@/components/ChatActionCard";
 
 const { width } = Dimensions.get("window");
 
@@ -44,6 +50,9 @@ interface Message {
   hasWarning?: boolean;
   allergenWarning?: string[];
   suggestions?: string[];
+  isStreaming?: boolean;
+  interrupted?: boolean;
+  actions?: ChatAction[];
 }
 
 interface UserProfile {
@@ -67,7 +76,9 @@ export default function AIChatScreen() {
   });
   const [isLoading, setIsLoading] = useState(true);
   const scrollViewRef = useRef<ScrollView>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const streamRef = useRef<{ abort: () => void; messageId: string } | null>(
+    null
+  );
   const messageTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isRTL = i18n.language === "he";
   const texts = {
@@ -106,9 +117,7 @@ export default function AIChatScreen() {
     
     // Cleanup function
     return () => {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
+      streamRef.current?.abort();
       if (messageTimeoutRef.current) {
         clearTimeout(messageTimeoutRef.current);
       }
@@ -202,6 +211,8 @@ export default function AIChatScreen() {
               timestamp: new Date(msg.created_at),
               hasWarning: checkForAllergens(msg.ai_response).length > 0,
               allergenWarning: checkForAllergens(msg.ai_response),
+              interrupted: msg.interrupted,
+              actions: msg.actions,
             },
           ])
           .flat();
@@ -320,15 +331,52 @@ export default function AIChatScreen() {
     return foundAllergens;
   };
 
-  const sendMessage = async () => {
-    if (!inputText.trim()) return;
-
-    // Cancel previous request if still pending
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
+  const endStream = () => {
+    if (messageTimeoutRef.current) {
+      clearTimeout(messageTimeoutRef.current);
+      messageTimeoutRef.current = null;
     }
+    streamRef.current = null;
+    setIsTyping(false);
+  };
+
+  // Stops generation but keeps whatever text already arrived; the server
+  // saves the same partial reply
+  const stopStreaming = (timedOut: boolean = false) => {
+    const stream = streamRef.current;
+    if (!stream) return;
+
+    stream.abort();
+    endStream();
+
+    setMessages((prev) => {
+      const updated = prev.flatMap((message) =>
+        message.id !== stream.messageId
+          ? [message]
+          : message.content
+          ? [{ ...message, isStreaming: false, interrupted: true }]
+          : []
+      );
+
+      if (!timedOut) return updated;
+      return [
+        ...updated,
+        {
+          id: `timeout-${Date.now()}`,
+          type: "bot",
+          content:
+            language === "he"
+              ? "הבקשה לקחה יותר מדי זמן. אנא נסה שוב."
+              : "Request timed out. Please try again.",
+          timestamp: new Date(),
+          hasWarning: true,
+        },
+      ];
+    });
+  };
 
-    abortControllerRef.current = new AbortController();
+  const sendMessage = () => {
+    if (!inputText.trim() || streamRef.current) return;
 
     const userMessage: Message = {
       id: `user-${Date.now()}`,
@@ -342,112 +390,108 @@ export default function AIChatScreen() {
     setInputText("");
     setIsTyping(true);
 
-    // Set timeout for message processing
-    messageTimeoutRef.current = setTimeout(() => {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
-      setIsTyping(false);
-      
-      const errorMessage: Message = {
-        id: `timeout-${Date.now()}`,
-        type: "bot",
-        content: language === "he"
-          ? "הבקשה לקחה יותר מדי זמן. אנא נסה שוב."
-          : "Request timed out. Please try again.",
-        timestamp: new Date(),
-        hasWarning: true,
-      };
-      setMessages((prev) => [...prev, errorMessage]);
-    }, 30000); // 30 second timeout
-
-    try {
-      console.log("💬 Sending message to AI:", currentMessage);
-
-      const response = await chatAPI.sendMessage(
-        currentMessage,
-        language === "he" ? "hebrew" : "english",
-        {
-          signal: abortControllerRef.current.signal,
-        }
+    // The reply bubble is added with the first chunk of text, so the typing
+    // indicator shows until then
+    const botMessageId = `bot-${Date.now()}`;
+    const updateBotMessage = (update: (message: Message) => Message) =>
+      setMessages((prev) =>
+        prev.map((message) =>
+          message.id === botMessageId ? update(message) : message
+        )
       );
 
-      console.log("🔍 Full API response structure:", response);
-
-      // Handle both direct response format and nested response format
-      let aiResponseContent = "";
-      let responseData = null;
-
-      if (response.success && response.response) {
-        // Handle nested response format
-        responseData = response.response;
-        aiResponseContent = response.response.response || response.response;
-      } else if (response.response && response.response.response) {
-        // Handle direct response format from server
-        responseData = response.response;
-        aiResponseContent = response.response.response;
-      } else if (response.response && typeof response.response === "string") {
-        // Handle simple string response
-        aiResponseContent = response.response;
-      } else if (typeof response === "string") {
-        // Handle direct string response
-        aiResponseContent = response;
-      } else {
-        console.error("🚨 Unexpected response format:", response);
-        throw new Error("Invalid response format from server");
+    // Give up if no text arrives for 30 seconds
+    const resetIdleTimeout = () => {
+      if (messageTimeoutRef.current) {
+        clearTimeout(messageTimeoutRef.current);
       }
+      messageTimeoutRef.current = setTimeout(() => stopStreaming(true), 30000);
+    };
+    resetIdleTimeout();
 
-      if (!aiResponseContent || aiResponseContent.trim() === "") {
-        throw new Error("Empty response from AI");
-      }
+    console.log("💬 Streaming message to AI:", currentMessage);
 
-      console.log("✅ Extracted AI response content:", aiResponseContent);
+    const stream = chatAPI.streamMessage(
+      currentMessage,
+      language === "he" ? "hebrew" : "english",
+      {
+        onDelta: (text) => {
+          resetIdleTimeout();
+          setMessages((prev) =>
+            prev.some((message) => message.id === botMessageId)
+              ? prev.map((message) =>
+                  message.id === botMessageId
+                    ? { ...message, content: message.content + text }
+                    : message
+                )
+              : [
+                  ...prev,
+                  {
+                    id: botMessageId,
+                    type: "bot",
+                    content: text,
+                    timestamp: new Date(),
+                    isStreaming: true,
+                  },
+                ]
+          );
+        },
+        onDone: (result) => {
+          endStream();
+          const allergens = checkForAllergens(result.response);
+
+          updateBotMessage((message) => ({
+            ...message,
+            content: result.response || message.content,
+            isStreaming: false,
+            interrupted: result.interrupted,
+            actions: result.actions,
+            hasWarning: allergens.length > 0,
+            allergenWarning: allergens.length > 0 ? allergens : undefined,
+            suggestions:
+              Math.random() > 0.7
+                ? texts.commonQuestions.slice(0, 3)
+                : undefined,
+          }));
+          console.log("✅ AI response streamed successfully");
+        },
+        onError: (error) => {
+          endStream();
+          console.error("💥 Error streaming message:", error);
 
-      const allergens = checkForAllergens(aiResponseContent);
+          const errorMessage: Message = {
+            id: `error-${Date.now()}`,
+            type: "bot",
+            content:
+              error.status === 429
+                ? error.message
+                : language === "he"
+                ? "מצטער, אירעה שגיאה בתקשורת עם השרת. אנא נסה שוב."
+                : "Sorry, there was an error communicating with the server. Please try again.",
+            timestamp: new Date(),
+            hasWarning: true,
+          };
 
-      const aiMessage: Message = {
-        id: `bot-${Date.now()}`,
-        type: "bot",
-        content: aiResponseContent,
-        timestamp: new Date(),
-        hasWarning: allergens.length > 0,
-        allergenWarning: allergens.length > 0 ? allergens : undefined,
-        suggestions:
-          Math.random() > 0.7 ? texts.commonQuestions.slice(0, 3) : undefined,
-      };
+          // Keep any partial reply that made it through before the failure
+          setMessages((prev) => [
+            ...prev.map((message) =>
+              message.id === botMessageId
+                ? { ...message, isStreaming: false, interrupted: true }
+                : message
+            ),
+            errorMessage,
+          ]);
 
-      setMessages((prev) => [...prev, aiMessage]);
-      console.log("✅ AI response received and displayed successfully");
-    } catch (error: any) {
-      if (error.name === 'AbortError') {
-        console.log('Message request aborted');
-        return;
-      }
-      console.error("💥 Error sending message:", error);
-
-      // Add error message
-      const errorMessage: Message = {
-        id: `error-${Date.now()}`,
-        type: "bot",
-        content:
-          language === "he"
-            ? "מצטער, אירעה שגיאה בתקשורת עם השרת. אנא נסה שוב."
-            : "Sorry, there was an error communicating with the server. Please try again.",
-        timestamp: new Date(),
-        hasWarning: true,
-      };
-
-      setMessages((prev) => [...prev, errorMessage]);
-
-      Alert.alert(texts.error, texts.networkError);
-    } finally {
-      if (messageTimeoutRef.current) {
-        clearTimeout(messageTimeoutRef.current);
-        messageTimeoutRef.current = null;
+          // A 401 here means the session couldn't be refreshed and the app
+          // is already signing out, so there's no network problem to report
+          if (error.status !== 429 && error.status !== 401) {
+            Alert.alert(texts.error, texts.networkError);
+          }
+        },
       }
-      abortControllerRef.current = null;
-      setIsTyping(false);
-    }
+    );
+
+    streamRef.current = { abort: stream.abort, messageId: botMessageId };
   };
 
   const clearChat = () => {
@@ -507,6 +551,24 @@ export default function AIChatScreen() {
     });
   }, [language]);
 
+  const updateAction = useCallback(
+    (messageId: string, updated: ChatAction) => {
+      setMessages((prev) =>
+        prev.map((message) =>
+          message.id === messageId
+            ? {
+                ...message,
+                actions: message.actions?.map((action) =>
+                  action.action_id === updated.action_id ? updated : action
+                ),
+              }
+            : message
+        )
+      );
+    },
+    []
+  );
+
   const renderMessage = useCallback((message: Message) => {
     const isUser = message.type === "user";
 
@@ -538,13 +600,28 @@ export default function AIChatScreen() {
 
               <Text style={[styles.messageText, isUser && styles.userText]}>
                 {message.content}
+                {message.isStreaming && " ▍"}
               </Text>
 
+              {message.interrupted && (
+                <Text style={styles.interruptedText}>
+                  {language === "he" ? "התשובה נעצרה" : "Response stopped"}
+                </Text>
+              )}
+
               <Text style={[styles.timestamp, isUser && styles.userTimestamp]}>
                 {formatTime(message.timestamp)}
               </Text>
             </View>
 
+            {message.actions?.map((action) => (
+              <ChatActionCard
+                key={action.action_id}
+                action={action}
+                onChange={(updated) => updateAction(message.id, updated)}
+              />
+            ))}
+
             {message.suggestions && (
               <View style={styles.suggestionsContainer}>
                 <Text style={styles.suggestionsLabel}>{texts.tryThese}</Text>
@@ -573,7 +650,9 @@ export default function AIChatScreen() {
         </View>
       </View>
     );
-  }, [texts, formatTime, selectSuggestion]);
+  }, [texts, formatTime, selectSuggestion, updateAction, language]);
+
+  const isReplyStreaming = messages.some((message) => message.isStreaming);
 
   if (isLoading) {
     return (
@@ -647,7 +726,7 @@ export default function AIChatScreen() {
         )}
         {messages.map(renderMessage)}
 
-        {isTyping && (
+        {isTyping && !isReplyStreaming && (
           <View style={styles.typingIndicator}>
             <View style={styles.typingRow}>
               <View style={styles.botIconContainer}>
@@ -678,25 +757,39 @@ export default function AIChatScreen() {
             maxLength={500}
             textAlign={language === "he" ? "right" : "left"}
           />
-          <TouchableOpacity
-            style={[
-              styles.sendButton,
-              (!inputText.trim() || isTyping) && styles.sendButtonDisabled,
-            ]}
-            onPress={sendMessage}
-            disabled={!inputText.trim() || isTyping}
-          >
-            <LinearGradient
-              colors={
-                !inputText.trim() || isTyping
-                  ? ["#BDC3C7", "#95A5A6"]
-                  : ["#16A085", "#1ABC9C"]
-              }
-              style={styles.sendGradient}
+          {isTyping ? (
+            <TouchableOpacity
+              style={styles.sendButton}
+              onPress={() => stopStreaming()}
             >
-              <Send size={20} color="#FFFFFF" />
-            </LinearGradient>
-          </TouchableOpacity>
+              <LinearGradient
+                colors={["#E74C3C", "#C0392B"]}
+                style={styles.sendGradient}
+              >
+                <Square size={18} color="#FFFFFF" fill="#FFFFFF" />
+              </LinearGradient>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={[
+                styles.sendButton,
+                !inputText.trim() && styles.sendButtonDisabled,
+              ]}
+              onPress={sendMessage}
+              disabled={!inputText.trim()}
+            >
+              <LinearGradient
+                colors={
+                  !inputText.trim()
+                    ? ["#BDC3C7", "#95A5A6"]
+                    : ["#16A085", "#1ABC9C"]
+                }
+                style={styles.sendGradient}
+              >
+                <Send size={20} color="#FFFFFF" />
+              </LinearGradient>
+            </TouchableOpacity>
+          )}
         </View>
       </KeyboardAvoidingView>
     </SafeAreaView>
@@ -916,6 +1009,12 @@ const styles = StyleSheet.create({
     color: "#95A5A6",
     marginTop: 6,
   },
+  interruptedText: {
+    fontSize: 11,
+    fontStyle: "italic",
+    color: "#95A5A6",
+    marginTop: 4,
+  },
   userTimestamp: {
     color: "rgba(255,255,255,0.8)",
     textAlign: "right",
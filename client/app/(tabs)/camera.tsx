@@ -22,12 +22,16 @@ import { useDispatch, useSelector } from "react-redux";
 import { RootState, AppDispatch } from "@/src/store";
 import {
   analyzeMeal,
+  analyzeMealText,
   updateMeal,
   postMeal,
   clearPendingMeal,
   clearError,
   processImage,
+  MealTimingChoice,
 } from "@/src/store/mealSlice";
+import { MealType } from "@/src/types";
+import { getLocalDateKey } from "@/src/utils/date";
 import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
 import { router } from "expo-router";
@@ -60,13 +64,24 @@ import {
   Eye,
   ChevronDown,
   ChevronUp,
+  FileText,
+  Mic,
 } from "lucide-react-native";
 import { useMealDataRefresh } from "@/hooks/useMealDataRefresh";
+import { useFoodSearch } from "@/hooks/useQueries";
+import { FoodItem } from "@/src/services/api";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { useTheme } from "@/src/context/ThemeContext";
 
 const { width: screenWidth } = Dimensions.get("window");
 
+const MEAL_TYPE_OPTIONS: { value: MealType; label: string }[] = [
+  { value: "BREAKFAST", label: "Breakfast" },
+  { value: "LUNCH", label: "Lunch" },
+  { value: "DINNER", label: "Dinner" },
+  { value: "SNACK", label: "Snack" },
+];
+
 interface Ingredient {
   name: string;
   calories: number;
@@ -84,6 +99,10 @@ interface Ingredient {
   sodium_mg?: number;
   sodium?: number;
   estimated_portion_g?: number;
+  serving_size_g?: number;
+  // Where the numbers came from: the bundled food database or the AI
+  source?: "database" | "ai";
+  food_id?: string;
 }
 
 interface AnalysisData {
@@ -120,6 +139,7 @@ interface AnalysisData {
   confidence?: number;
   servingSize?: string;
   healthNotes?: string;
+  meal_type?: MealType;
 }
 
 export default function CameraScreen() {
@@ -135,6 +155,13 @@ export default function CameraScreen() {
 
   // Local state
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  // Text mode logs a meal from a description instead of a photo
+  const [isTextMode, setIsTextMode] = useState(false);
+  const [mealDescription, setMealDescription] = useState("");
+  const [isVoiceTranscript, setIsVoiceTranscript] = useState(false);
+  // Back-dating picked on the review screen; null keeps the server's guess
+  const [mealType, setMealType] = useState<MealType | null>(null);
+  const [eatenYesterday, setEatenYesterday] = useState(false);
   const [userComment, setUserComment] = useState("");
   const [editedIngredients, setEditedIngredients] = useState<Ingredient[]>([]);
   const [showEditModal, setShowEditModal] = useState(false);
@@ -142,6 +169,8 @@ export default function CameraScreen() {
     null
   );
   const [editingIndex, setEditingIndex] = useState<number>(-1);
+  // Set when the ingredient being edited was picked from the food database
+  const [pickedFoodId, setPickedFoodId] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [analysisData, setAnalysisData] = useState<AnalysisData | null>(null);
   const [hasBeenAnalyzed, setHasBeenAnalyzed] = useState(false);
@@ -150,6 +179,10 @@ export default function CameraScreen() {
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [showResults, setShowResults] = useState(false); // Added for modal visibility
 
+  const { data: foodSuggestions } = useFoodSearch(
+    showEditModal && !pickedFoodId ? editingIngredient?.name || "" : ""
+  );
+
   // Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(50)).current;
@@ -186,7 +219,10 @@ export default function CameraScreen() {
       setHasBeenAnalyzed(true);
       setShowResults(true); // Show the results/modal
 
-      if (pendingMeal.image_base_64) {
+      if (pendingMeal.description) {
+        setIsTextMode(true);
+        setMealDescription(pendingMeal.description);
+      } else if (pendingMeal.image_base_64) {
         const imageUri = pendingMeal.image_base_64.startsWith("data:")
           ? pendingMeal.image_base_64
           : `data:image/jpeg;base64,${pendingMeal.image_base_64}`;
@@ -350,6 +386,11 @@ export default function CameraScreen() {
     setHasBeenAnalyzed(false);
     setShowNutritionDetails(true);
     setShowAdvancedNutrition(false);
+    setIsTextMode(false);
+    setMealDescription("");
+    setIsVoiceTranscript(false);
+    setMealType(null);
+    setEatenYesterday(false);
     dispatch(clearPendingMeal());
     dispatch(clearError());
 
@@ -419,9 +460,39 @@ export default function CameraScreen() {
     }
   };
 
+  // Analysis from a typed or dictated description
+  const handleAnalyzeText = async () => {
+    if (mealDescription.trim().length < 3) {
+      Alert.alert(
+        t("common.error"),
+        isRTL ? "תאר את הארוחה בכמה מילים" : "Describe the meal in a few words"
+      );
+      return;
+    }
+
+    const result = await dispatch(
+      analyzeMealText({
+        description: mealDescription,
+        source: isVoiceTranscript ? "voice" : "text",
+        language: isRTL ? "hebrew" : "english",
+      })
+    );
+
+    if (analyzeMealText.fulfilled.match(result)) {
+      scrollViewRef.current?.scrollTo({ y: 0, animated: true });
+    } else {
+      Alert.alert(
+        t("camera.analysis_failed"),
+        typeof result.payload === "string"
+          ? result.payload
+          : "Failed to analyze meal. Please try again."
+      );
+    }
+  };
+
   // Re-analysis after edits
   const handleReAnalyze = async () => {
-    if (!selectedImage || !hasBeenAnalyzed) {
+    if ((!selectedImage && !isTextMode) || !hasBeenAnalyzed) {
       Alert.alert(t("common.error") || "Error", "No meal to re-analyze");
       return;
     }
@@ -429,7 +500,31 @@ export default function CameraScreen() {
     try {
       console.log("🔄 Starting re-analysis with edits...");
 
-      const base64Image = await processImage(selectedImage);
+      if (isTextMode) {
+        const result = await dispatch(
+          analyzeMealText({
+            description: mealDescription,
+            source: isVoiceTranscript ? "voice" : "text",
+            language: isRTL ? "hebrew" : "english",
+            updateText: userComment.trim() || undefined,
+            editedIngredients,
+          })
+        );
+
+        if (analyzeMealText.fulfilled.match(result)) {
+          scrollViewRef.current?.scrollTo({ y: 0, animated: true });
+        } else {
+          Alert.alert(
+            "Re-analysis Failed",
+            typeof result.payload === "string"
+              ? result.payload
+              : "Failed to re-analyze meal. Please try again."
+          );
+        }
+        return;
+      }
+
+      const base64Image = await processImage(selectedImage!);
       if (!base64Image) {
         Alert.alert(
           t("common.error") || "Error",
@@ -499,7 +594,21 @@ export default function CameraScreen() {
     try {
       console.log("💾 Saving meal to database...");
 
-      const result = await dispatch(postMeal());
+      let timing: MealTimingChoice | undefined;
+      if (eatenYesterday) {
+        const yesterday = new Date();
+        yesterday.setDate(yesterday.getDate() - 1);
+        // Drops the analysis-time eaten_at so the day and type decide it
+        timing = {
+          date: getLocalDateKey(yesterday),
+          eaten_at: undefined,
+          meal_type: mealType ?? undefined,
+        };
+      } else if (mealType) {
+        timing = { meal_type: mealType };
+      }
+
+      const result = await dispatch(postMeal(timing));
 
       if (postMeal.fulfilled.match(result)) {
         console.log("✅ Meal saved successfully");
@@ -552,6 +661,7 @@ export default function CameraScreen() {
   const handleEditIngredient = (ingredient: Ingredient, index: number) => {
     setEditingIngredient({ ...ingredient });
     setEditingIndex(index);
+    setPickedFoodId(null);
     setShowEditModal(true);
   };
 
@@ -568,9 +678,35 @@ export default function CameraScreen() {
     };
     setEditingIngredient(newIngredient);
     setEditingIndex(-1); // -1 indicates adding a new ingredient
+    setPickedFoodId(null);
     setShowEditModal(true);
   };
 
+  // Fills the ingredient from a food database entry, keeping its portion size
+  const handlePickFood = (food: FoodItem) => {
+    setEditingIngredient((prev) => {
+      if (!prev) return null;
+      const grams = prev.serving_size_g || food.serving_g;
+      const factor = grams / 100;
+      const n = food.per_100g;
+      return {
+        ...prev,
+        name: isRTL ? food.name_he : food.name,
+        serving_size_g: grams,
+        calories: Math.round(n.calories * factor),
+        protein: Math.round(n.protein_g * factor * 10) / 10,
+        carbs: Math.round(n.carbs_g * factor * 10) / 10,
+        fat: Math.round(n.fats_g * factor * 10) / 10,
+        fiber: Math.round(n.fiber_g * factor * 10) / 10,
+        sugar: Math.round(n.sugar_g * factor * 10) / 10,
+        sodium_mg: Math.round(n.sodium_mg * factor),
+        source: "database",
+        food_id: food.id,
+      };
+    });
+    setPickedFoodId(food.id);
+  };
+
   const handleRemoveIngredient = (index: number) => {
     const updatedIngredients = editedIngredients.filter((_, i) => i !== index);
     setEditedIngredients(updatedIngredients);
@@ -584,12 +720,18 @@ export default function CameraScreen() {
 
     const updatedIngredients = [...editedIngredients];
 
+    // Hand-edited numbers no longer come from the food database or the AI
+    const savedIngredient =
+      pickedFoodId && editingIngredient.food_id === pickedFoodId
+        ? editingIngredient
+        : { ...editingIngredient, source: undefined, food_id: undefined };
+
     if (editingIndex >= 0) {
       // Update existing ingredient
-      updatedIngredients[editingIndex] = editingIngredient;
+      updatedIngredients[editingIndex] = savedIngredient;
     } else {
       // Add new ingredient
-      updatedIngredients.push(editingIngredient);
+      updatedIngredients.push(savedIngredient);
     }
 
     setEditedIngredients(updatedIngredients);
@@ -797,6 +939,21 @@ export default function CameraScreen() {
               <Text style={styles.imageButtonText}>Choose from Gallery</Text>
             </LinearGradient>
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.imageSelectionButton}
+            onPress={() => setIsTextMode(true)}
+          >
+            <LinearGradient
+              colors={[colors.emerald700, colors.primary]}
+              style={styles.imageButtonGradient}
+            >
+              <FileText size={24} color="#ffffff" />
+              <Text style={styles.imageButtonText}>
+                {isRTL ? "תיאור במילים" : "Describe Meal"}
+              </Text>
+            </LinearGradient>
+          </TouchableOpacity>
         </View>
 
         <View
@@ -1191,6 +1348,144 @@ export default function CameraScreen() {
     </View>
   );
 
+  const renderIngredientSource = (ingredient: Ingredient) => {
+    if (!ingredient.source) return null;
+
+    const label =
+      ingredient.source === "database"
+        ? isRTL
+          ? "מאגר המזון"
+          : "Food database"
+        : isRTL
+        ? "הערכת AI"
+        : "AI estimate";
+    const grams = ingredient.serving_size_g
+      ? `${Math.round(ingredient.serving_size_g)} g · `
+      : "";
+
+    return (
+      <Text
+        style={[
+          styles.ingredientPortion,
+          isRTL && styles.rtlText,
+          ingredient.source === "database" && { color: colors.primary },
+        ]}
+      >
+        {grams}
+        {label}
+      </Text>
+    );
+  };
+
+  const renderTextEntry = () => (
+    <View style={styles.selectedImageContainer}>
+      <View style={[styles.descriptionHeader, isRTL && styles.rowReverse]}>
+        <Text
+          style={[
+            styles.commentLabel,
+            styles.descriptionTitle,
+            isRTL && styles.rtlText,
+          ]}
+        >
+          {isRTL ? "מה אכלת?" : "What did you eat?"}
+        </Text>
+        <TouchableOpacity
+          style={[styles.overlayButton, styles.deleteOverlayButton]}
+          onPress={() => {
+            resetAnalysisState();
+            setShowResults(false);
+          }}
+        >
+          <X size={18} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+
+      <TextInput
+        style={[
+          styles.commentInput,
+          isRTL && styles.rtlTextInput,
+          {
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            color: colors.text,
+          },
+        ]}
+        placeholder={
+          isRTL
+            ? "למשל: 200 גרם חזה עוף, כוס אורז וסלט"
+            : "e.g. 200g chicken breast, a cup of rice, salad"
+        }
+        placeholderTextColor={colors.textSecondary}
+        value={mealDescription}
+        onChangeText={setMealDescription}
+        editable={!hasBeenAnalyzed && !isAnalyzing}
+        multiline
+        numberOfLines={4}
+        maxLength={1000}
+        textAlign={isRTL ? "right" : "left"}
+      />
+
+      {!hasBeenAnalyzed && (
+        <>
+          <TouchableOpacity
+            style={[
+              styles.transcriptToggle,
+              isRTL && styles.rowReverse,
+              {
+                borderColor: isVoiceTranscript ? colors.primary : colors.border,
+              },
+            ]}
+            onPress={() => setIsVoiceTranscript(!isVoiceTranscript)}
+          >
+            <Mic
+              size={16}
+              color={isVoiceTranscript ? colors.primary : colors.textSecondary}
+            />
+            <Text
+              style={[
+                styles.transcriptToggleText,
+                isRTL && styles.rtlText,
+                {
+                  color: isVoiceTranscript
+                    ? colors.primary
+                    : colors.textSecondary,
+                },
+              ]}
+            >
+              {isRTL
+                ? "הוכתב בקול (מיקרופון המקלדת)"
+                : "Dictated with the keyboard microphone"}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.analyzeButton, isAnalyzing && styles.buttonDisabled]}
+            onPress={handleAnalyzeText}
+            disabled={isAnalyzing}
+          >
+            <LinearGradient
+              colors={
+                isAnalyzing
+                  ? [colors.border, colors.textSecondary]
+                  : [colors.primary, colors.emerald700]
+              }
+              style={styles.analyzeButtonGradient}
+            >
+              {isAnalyzing ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Send size={20} color="#ffffff" />
+              )}
+              <Text style={styles.analyzeButtonText}>
+                {isAnalyzing ? "Analyzing Meal..." : "Analyze My Meal"}
+              </Text>
+            </LinearGradient>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+
   const renderAnalysisResults = () => {
     if (!analysisData) return null;
 
@@ -1294,6 +1589,7 @@ export default function CameraScreen() {
                     </Text>
                   )}
                 </View>
+                {renderIngredientSource(ingredient)}
               </View>
             ))
           ) : analysisData.ingredients &&
@@ -1428,6 +1724,8 @@ export default function CameraScreen() {
           </View>
         )}
 
+        {renderMealTiming()}
+
         {/* Action Buttons */}
         <View style={styles.actionButtons}>
           <TouchableOpacity
@@ -1488,6 +1786,60 @@ export default function CameraScreen() {
     );
   };
 
+  const renderTimingChip = (
+    label: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={label}
+      style={[
+        styles.timingChip,
+        { borderColor: selected ? colors.primary : colors.border },
+        selected && { backgroundColor: colors.primary },
+      ]}
+      onPress={onPress}
+    >
+      <Text
+        style={[
+          styles.timingChipText,
+          { color: selected ? "#ffffff" : colors.text },
+        ]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  // When the meal was eaten, so last night's dinner logged this morning
+  // counts toward yesterday
+  const renderMealTiming = () => {
+    const selectedType = mealType ?? analysisData?.meal_type;
+
+    return (
+      <View style={styles.timingSection}>
+        <Text style={[styles.sectionTitle, isRTL && styles.rtlText]}>
+          When did you eat this?
+        </Text>
+        <View style={[styles.timingChips, isRTL && styles.rowReverse]}>
+          {renderTimingChip("Today", !eatenYesterday, () =>
+            setEatenYesterday(false)
+          )}
+          {renderTimingChip("Yesterday", eatenYesterday, () =>
+            setEatenYesterday(true)
+          )}
+        </View>
+        <View style={[styles.timingChips, isRTL && styles.rowReverse]}>
+          {MEAL_TYPE_OPTIONS.map(({ value, label }) =>
+            renderTimingChip(label, selectedType === value, () =>
+              setMealType(value)
+            )
+          )}
+        </View>
+      </View>
+    );
+  };
+
   const renderEditModal = () => (
     <Modal
       visible={showEditModal}
@@ -1534,15 +1886,45 @@ export default function CameraScreen() {
                   },
                 ]}
                 value={editingIngredient?.name || ""}
-                onChangeText={(text) =>
+                onChangeText={(text) => {
+                  setPickedFoodId(null);
                   setEditingIngredient((prev) =>
                     prev ? { ...prev, name: text } : null
-                  )
-                }
+                  );
+                }}
                 placeholder="Enter ingredient name"
                 placeholderTextColor={colors.textSecondary}
                 textAlign={isRTL ? "right" : "left"}
               />
+              {!pickedFoodId &&
+                foodSuggestions?.map((food) => (
+                  <TouchableOpacity
+                    key={food.id}
+                    style={[
+                      styles.foodSuggestion,
+                      { borderBottomColor: colors.border },
+                    ]}
+                    onPress={() => handlePickFood(food)}
+                  >
+                    <Text
+                      style={[
+                        styles.foodSuggestionName,
+                        isRTL && styles.rtlText,
+                        { color: colors.text },
+                      ]}
+                    >
+                      {isRTL ? food.name_he : food.name}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.foodSuggestionMeta,
+                        { color: colors.textSecondary },
+                      ]}
+                    >
+                      {food.per_100g.calories} kcal / 100 g
+                    </Text>
+                  </TouchableOpacity>
+                ))}
             </View>
 
             <View style={styles.inputRow}>
@@ -1886,6 +2268,9 @@ export default function CameraScreen() {
       rtlTextInput: {
         textAlign: "right",
       },
+      rowReverse: {
+        flexDirection: "row-reverse",
+      },
 
       // Error styles
       errorContainer: {
@@ -2061,6 +2446,31 @@ export default function CameraScreen() {
       commentContainer: {
         marginTop: 20,
       },
+      descriptionHeader: {
+        flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "space-between",
+        marginBottom: 12,
+      },
+      descriptionTitle: {
+        flex: 1,
+        marginBottom: 0,
+      },
+      transcriptToggle: {
+        flexDirection: "row",
+        alignItems: "center",
+        alignSelf: "flex-start",
+        gap: 8,
+        marginTop: 12,
+        paddingVertical: 8,
+        paddingHorizontal: 12,
+        borderWidth: 1,
+        borderRadius: 16,
+      },
+      transcriptToggleText: {
+        fontSize: 13,
+        fontWeight: "500",
+      },
       commentLabel: {
         fontSize: 16,
         fontWeight: "600",
@@ -2379,6 +2789,22 @@ export default function CameraScreen() {
         color: colors.textSecondary,
         marginRight: 5,
       },
+      foodSuggestion: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        paddingVertical: 10,
+        paddingHorizontal: 4,
+        borderBottomWidth: 1,
+        gap: 8,
+      },
+      foodSuggestionName: {
+        flex: 1,
+        fontSize: 15,
+      },
+      foodSuggestionMeta: {
+        fontSize: 12,
+      },
       ingredientPortion: {
         fontSize: 12,
         color: colors.textSecondary,
@@ -2400,6 +2826,32 @@ export default function CameraScreen() {
       },
 
       // Recommendations styles
+      timingSection: {
+        backgroundColor: colors.card,
+        borderRadius: 20,
+        padding: 24,
+        elevation: 4,
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: isDark ? 0.2 : 0.08,
+        shadowRadius: 12,
+      },
+      timingChips: {
+        flexDirection: "row",
+        flexWrap: "wrap",
+        gap: 8,
+        marginTop: 12,
+      },
+      timingChip: {
+        paddingVertical: 8,
+        paddingHorizontal: 14,
+        borderRadius: 16,
+        borderWidth: 1,
+      },
+      timingChipText: {
+        fontSize: 13,
+        fontWeight: "600",
+      },
       recommendationsSection: {
         backgroundColor: colors.card,
         borderRadius: 20,
@@ -2762,11 +3214,11 @@ export default function CameraScreen() {
           {renderError()}
 
           {/* Main Content */}
-          {!selectedImage ? (
+          {!selectedImage && !isTextMode ? (
             renderImageSelection()
           ) : (
             <>
-              {renderSelectedImage()}
+              {isTextMode ? renderTextEntry() : renderSelectedImage()}
               {/* Conditionally render analysis results based on showResults state */}
               {showResults && renderAnalysisResults()}
             </>
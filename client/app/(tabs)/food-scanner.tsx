@@ -70,8 +70,22 @@ interface ProductData {
   labels: string[];
   health_score?: number;
   image_url?: string;
+  source?: ProductSource;
 }
 
+type ProductSource = "OPEN_FOOD_FACTS" | "AI_IMAGE_SCAN" | "USER_SUBMISSION";
+
+// Where the product's nutrition values came from
+const PRODUCT_SOURCE_LABELS: Record<ProductSource, { en: string; he: string }> =
+  {
+    OPEN_FOOD_FACTS: { en: "Source: OpenFoodFacts", he: "מקור: OpenFoodFacts" },
+    AI_IMAGE_SCAN: { en: "Source: label photo", he: "מקור: צילום תווית" },
+    USER_SUBMISSION: {
+      en: "Source: checked by users",
+      he: "מקור: נבדק על ידי משתמשים",
+    },
+  };
+
 interface UserAnalysis {
   compatibility_score: number;
   daily_contribution: {
@@ -904,6 +918,15 @@ export default function FoodScannerScreen() {
                         {texts.barcode}: {scanResult.product.barcode}
                       </Text>
                     )}
+                    {scanResult.product.source && (
+                      <Text style={styles.productSource}>
+                        {
+                          PRODUCT_SOURCE_LABELS[scanResult.product.source][
+                            language === "he" ? "he" : "en"
+                          ]
+                        }
+                      </Text>
+                    )}
                   </View>
                   <View style={styles.productStats}>
                     <View style={styles.calorieHighlight}>
@@ -1741,6 +1764,11 @@ const styles = StyleSheet.create({
     marginTop: 4,
     fontFamily: "monospace",
   },
+  productSource: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 4,
+  },
   compatibilityContainer: {
     borderRadius: 16,
     overflow: "hidden",
@@ -26,6 +26,8 @@ import {
   toggleMealFavorite,
   duplicateMeal,
   removeMeal,
+  editSavedMeal,
+  SavedMealEdit,
 } from "@/src/store/mealSlice";
 import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
@@ -61,6 +63,8 @@ import {
 import LoadingScreen from "@/components/LoadingScreen";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import Swipeable from "react-native-gesture-handler/Swipeable";
+import { getLocalDateKey } from "@/src/utils/date";
+import { recipesAPI } from "@/src/services/api";
 
 const { width } = Dimensions.get("window");
 
@@ -98,6 +102,25 @@ const NUTRITION_ICONS = {
   sodium: { icon: Beaker, name: "Sodium", color: "#6b7280", unit: "mg" },
 };
 
+const MEAL_TYPE_LABELS: Record<string, string> = {
+  BREAKFAST: "Breakfast",
+  MORNING_SNACK: "Snack",
+  LUNCH: "Lunch",
+  AFTERNOON_SNACK: "Snack",
+  DINNER: "Dinner",
+  SNACK: "Snack",
+};
+
+// Portion corrections offered on a saved meal or one of its ingredients
+const PORTION_MULTIPLIERS = [
+  { label: "½", multiplier: 0.5 },
+  { label: "1.5×", multiplier: 1.5 },
+  { label: "2×", multiplier: 2 },
+];
+
+// How many servings the meal made, when saving it as a recipe
+const RECIPE_SERVING_OPTIONS = [1, 2, 4];
+
 // Enhanced Swipeable Meal Card Component
 const SwipeableMealCard = ({
   meal,
@@ -110,6 +133,11 @@ const SwipeableMealCard = ({
   const dispatch = useDispatch<AppDispatch>();
   const [isExpanded, setIsExpanded] = useState(false);
   const [savingRatings, setSavingRatings] = useState(false);
+  const [selectedIngredient, setSelectedIngredient] = useState<number | null>(
+    null
+  );
+  const [isEditingPortion, setIsEditingPortion] = useState(false);
+  const [savingRecipe, setSavingRecipe] = useState(false);
   const [ratings, setRatings] = useState({
     taste_rating: meal.taste_rating || 0,
     satiety_rating: meal.satiety_rating || 0,
@@ -184,6 +212,84 @@ const SwipeableMealCard = ({
     }
   };
 
+  const handleEditPortion = async (edit: SavedMealEdit) => {
+    const mealId = meal.id || meal.meal_id?.toString();
+    if (!mealId) return;
+
+    try {
+      setIsEditingPortion(true);
+      await dispatch(editSavedMeal({ mealId, edit })).unwrap();
+      setSelectedIngredient(null);
+    } catch (error) {
+      console.error("Failed to edit meal:", error);
+      Alert.alert(
+        "Error",
+        typeof error === "string" ? error : "Failed to update meal."
+      );
+    } finally {
+      setIsEditingPortion(false);
+    }
+  };
+
+  const handleSaveAsRecipe = async (servings: number) => {
+    const mealId = meal.meal_id || meal.id;
+    if (!mealId) return;
+
+    try {
+      setSavingRecipe(true);
+      const recipe = await recipesAPI.createRecipeFromMeal(mealId, {
+        servings,
+      });
+      Alert.alert(
+        "Recipe saved",
+        `${recipe.name} is saved with ${recipe.servings} serving${
+          recipe.servings === 1 ? "" : "s"
+        } (${recipe.per_serving.calories} kcal each).`
+      );
+    } catch (error) {
+      console.error("Failed to save recipe:", error);
+      Alert.alert("Error", "Failed to save recipe. Please try again.");
+    } finally {
+      setSavingRecipe(false);
+    }
+  };
+
+  const handleRemoveIngredient = (index: number, name: string) => {
+    Alert.alert("Remove ingredient", `Remove ${name} from this meal?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: () => handleEditPortion({ type: "removeIngredient", index }),
+      },
+    ]);
+  };
+
+  const renderPortionButtons = (
+    onPick: (multiplier: number) => void,
+    extra?: React.ReactNode
+  ) => (
+    <View style={[styles.portionActions, isRTL && styles.rtlContainer]}>
+      {PORTION_MULTIPLIERS.map(({ label, multiplier }) => (
+        <TouchableOpacity
+          key={label}
+          style={[styles.portionButton, { borderColor: colors.primary }]}
+          onPress={() => onPick(multiplier)}
+          disabled={isEditingPortion}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.portionButtonText, { color: colors.primary }]}>
+            {label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+      {extra}
+      {isEditingPortion && (
+        <ActivityIndicator size="small" color={colors.primary} />
+      )}
+    </View>
+  );
+
   const renderLeftActions = () => (
     <View style={styles.swipeActionContainer}>
       <TouchableOpacity
@@ -294,7 +400,7 @@ const SwipeableMealCard = ({
             <View style={styles.imageContainer}>
               {meal.image_url ? (
                 <Image
-                  source={{ uri: meal.image_url }}
+                  source={{ uri: meal.thumbnail_url || meal.image_url }}
                   style={styles.mealImageEnhanced}
                 />
               ) : (
@@ -336,11 +442,14 @@ const SwipeableMealCard = ({
                     ]}
                   >
                     {new Date(
-                      meal.created_at || meal.upload_time
+                      meal.eaten_at || meal.created_at || meal.upload_time
                     ).toLocaleDateString("en-US", {
                       month: "short",
                       day: "numeric",
                     })}
+                    {meal.meal_type
+                      ? ` · ${MEAL_TYPE_LABELS[meal.meal_type] || meal.meal_type}`
+                      : ""}
                   </Text>
                 </View>
 
@@ -512,15 +621,24 @@ const SwipeableMealCard = ({
                             ingredient.carbs > 0);
 
                         return (
-                          <View
+                          <TouchableOpacity
                             key={`ingredient-${index}`}
                             style={[
                               styles.ingredientChipEnhanced,
                               {
                                 backgroundColor: colors.primary + "10",
-                                borderColor: colors.primary + "20",
+                                borderColor:
+                                  selectedIngredient === index
+                                    ? colors.primary
+                                    : colors.primary + "20",
                               },
                             ]}
+                            onPress={() =>
+                              setSelectedIngredient(
+                                selectedIngredient === index ? null : index
+                              )
+                            }
+                            activeOpacity={0.8}
                           >
                             <Text
                               style={[
@@ -538,13 +656,94 @@ const SwipeableMealCard = ({
                                 </Text>
                               </View>
                             )}
-                          </View>
+                          </TouchableOpacity>
                         );
                       })}
                     </ScrollView>
+
+                    {/* Portion fix for the tapped ingredient */}
+                    {selectedIngredient !== null &&
+                      ingredients[selectedIngredient] &&
+                      renderPortionButtons(
+                        (multiplier) =>
+                          handleEditPortion({
+                            type: "scaleIngredient",
+                            index: selectedIngredient,
+                            multiplier,
+                          }),
+                        <TouchableOpacity
+                          style={[
+                            styles.portionButton,
+                            { borderColor: "#ef4444" },
+                          ]}
+                          onPress={() =>
+                            handleRemoveIngredient(
+                              selectedIngredient,
+                              ingredients[selectedIngredient].name ||
+                                "this ingredient"
+                            )
+                          }
+                          disabled={isEditingPortion}
+                          activeOpacity={0.7}
+                        >
+                          <Text
+                            style={[
+                              styles.portionButtonText,
+                              { color: "#ef4444" },
+                            ]}
+                          >
+                            Remove
+                          </Text>
+                        </TouchableOpacity>
+                      )}
                   </View>
                 )}
 
+                {/* Whole-meal portion */}
+                <View style={styles.ingredientsSection}>
+                  <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                    Portion Eaten
+                  </Text>
+                  {renderPortionButtons((multiplier) =>
+                    handleEditPortion({ type: "scaleMeal", multiplier })
+                  )}
+                </View>
+
+                {/* Save as a recipe, to log it by the serving later */}
+                <View style={styles.ingredientsSection}>
+                  <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                    Save as Recipe
+                  </Text>
+                  <View
+                    style={[styles.portionActions, isRTL && styles.rtlContainer]}
+                  >
+                    {RECIPE_SERVING_OPTIONS.map((servings) => (
+                      <TouchableOpacity
+                        key={servings}
+                        style={[
+                          styles.portionButton,
+                          { borderColor: colors.primary },
+                        ]}
+                        onPress={() => handleSaveAsRecipe(servings)}
+                        disabled={savingRecipe}
+                        activeOpacity={0.7}
+                      >
+                        <Text
+                          style={[
+                            styles.portionButtonText,
+                            { color: colors.primary },
+                          ]}
+                        >
+                          Makes {servings}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                    {savingRecipe && (
+                      <ActivityIndicator size="small" color={colors.primary} />
+                    )}
+                  </View>
+                </View>
+
                 {/* Enhanced Rating Section */}
                 <View style={styles.ratingSection}>
                   <Text style={[styles.sectionTitle, { color: colors.text }]}>
@@ -801,7 +1000,7 @@ export default function HistoryScreen() {
         await dispatch(
           duplicateMeal({
             mealId,
-            newDate: new Date().toISOString().split("T")[0],
+            newDate: getLocalDateKey(),
           })
         ).unwrap();
         Alert.alert("Success", "Meal duplicated successfully!");
@@ -905,7 +1104,9 @@ export default function HistoryScreen() {
 
       // Date range filter
       if (filters.dateRange !== "all") {
-        const mealDate = new Date(meal.created_at || meal.upload_time);
+        const mealDate = new Date(
+          meal.eaten_at || meal.created_at || meal.upload_time
+        );
         const now = new Date();
 
         switch (filters.dateRange) {
@@ -1922,6 +2123,26 @@ const styles = StyleSheet.create({
     fontWeight: "600",
   },
 
+  portionActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 10,
+  },
+
+  portionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+
+  portionButtonText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+
   // Ratings
   ratingSection: {
     marginBottom: 20,
@@ -45,6 +45,8 @@ import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
 import LoadingScreen from "@/components/LoadingScreen";
 import XPNotification from "@/components/XPNotification";
+import { getLocalDateKey } from "@/src/utils/date";
+import { useDailyGoals, useGoalHistory } from "@/hooks/useQueries";
 
 // Enable RTL support
 I18nManager.allowRTL(true);
@@ -168,6 +170,8 @@ const HomeScreen = React.memo(() => {
 
   const { t } = useTranslation();
   const { isRTL } = useLanguage();
+  const { data: serverGoals } = useDailyGoals();
+  const { data: goalHistory } = useGoalHistory(1);
 
   const toggleLanguage = () => {
     setLanguage((prev) => (prev === "he" ? "en" : "he"));
@@ -200,14 +204,17 @@ const HomeScreen = React.memo(() => {
       };
     }
 
+    // Back-dated meals count on the day they were eaten, not logged
+    const eatenAt = (meal: (typeof meals)[number]) =>
+      new Date(meal.eaten_at || meal.created_at);
+
     const sortedMeals = [...meals].sort(
-      (a, b) =>
-        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+      (a, b) => eatenAt(b).getTime() - eatenAt(a).getTime()
     );
 
-    const today = new Date().toISOString().split("T")[0];
-    const todayMeals = meals.filter((meal) =>
-      meal.created_at.startsWith(today)
+    const today = getLocalDateKey();
+    const todayMeals = meals.filter(
+      (meal) => getLocalDateKey(eatenAt(meal)) === today
     );
 
     const dailyTotals = todayMeals.reduce(
@@ -235,6 +242,26 @@ const HomeScreen = React.memo(() => {
     }));
   }, [processedMealsData.dailyTotals]);
 
+  // Targets come from the server and adapt over time
+  useEffect(() => {
+    if (!serverGoals) return;
+    setDailyGoals((prev) => ({
+      ...prev,
+      targetCalories: Math.round(serverGoals.calories),
+      targetProtein: Math.round(serverGoals.protein_g),
+      targetCarbs: Math.round(serverGoals.carbs_g),
+      targetFat: Math.round(serverGoals.fats_g),
+    }));
+  }, [serverGoals]);
+
+  // Explain a target change for the first week after it happens
+  const recentAdjustment = useMemo(() => {
+    const latest = goalHistory?.[0];
+    if (!latest) return null;
+    const age = Date.now() - new Date(latest.created_at).getTime();
+    return age < 7 * 24 * 60 * 60 * 1000 ? latest : null;
+  }, [goalHistory]);
+
   // Optimized user stats loading with caching and abort controller
   const loadUserStats = useCallback(async () => {
     if (!user?.user_id) return;
@@ -354,7 +381,7 @@ const HomeScreen = React.memo(() => {
     const timeoutId = setTimeout(() => controller.abort(), 5000);
 
     try {
-      const today = new Date().toISOString().split("T")[0];
+      const today = getLocalDateKey();
       const response = await api.get(`/nutrition/water-intake/${today}`, {
         signal: controller.signal,
       });
@@ -383,7 +410,7 @@ const HomeScreen = React.memo(() => {
     const timeoutId = setTimeout(() => controller.abort(), 8000);
 
     try {
-      const today = new Date().toISOString().split("T")[0];
+      const today = getLocalDateKey();
       const response = await api.post(
         "/nutrition/water-intake",
         {
@@ -782,6 +809,23 @@ const HomeScreen = React.memo(() => {
               </View>
             </LinearGradient>
           </View>
+          {recentAdjustment && (
+            <View
+              style={[
+                styles.adjustmentNote,
+                isRTL && { flexDirection: "row-reverse" },
+              ]}
+            >
+              <TrendingUp size={16} color={COLORS.emerald[600]} />
+              <Text
+                style={[styles.adjustmentNoteText, isRTL && styles.rtlText]}
+              >
+                {isRTL
+                  ? recentAdjustment.explanation_he
+                  : recentAdjustment.explanation}
+              </Text>
+            </View>
+          )}
         </View>
 
         {/* Goal Gauges */}
@@ -1034,7 +1078,7 @@ const HomeScreen = React.memo(() => {
                   <View style={styles.mealImageContainer}>
                     {meal.image_url ? (
                       <Image
-                        source={{ uri: meal.image_url }}
+                        source={{ uri: meal.thumbnail_url || meal.image_url }}
                         style={styles.mealImage}
                         resizeMode="cover"
                       />
@@ -1049,9 +1093,9 @@ const HomeScreen = React.memo(() => {
                       <Text style={styles.mealName} numberOfLines={2}>
                         {meal.name || t("meals.unknown_meal")}
                       </Text>
-                      {meal.created_at && (
+                      {(meal.eaten_at || meal.created_at) && (
                         <Text style={styles.mealTime}>
-                          {formatTime(meal.created_at)}
+                          {formatTime(meal.eaten_at || meal.created_at)}
                         </Text>
                       )}
                     </View>
@@ -1250,6 +1294,24 @@ const styles = StyleSheet.create({
   mainGoalRemaining: {
     alignItems: "center",
   },
+  adjustmentNote: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 8,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.emerald[50],
+  },
+  adjustmentNoteText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    color: COLORS.emerald[800],
+  },
+  rtlText: {
+    textAlign: "right",
+  },
   mainGoalRemainingText: {
     fontSize: 16,
     fontWeight: "500",
@@ -36,7 +36,7 @@ import { useDispatch, useSelector } from "react-redux";
 import { AppDispatch, RootState } from "@/src/store";
 import { signOut } from "@/src/store/authSlice";
 import { router } from "expo-router";
-import { userAPI } from "@/src/services/api";
+import { billingAPI } from "@/src/services/api";
 
 // Define the interface for menu items
 interface MenuItem {
@@ -103,7 +103,7 @@ export default function ProfileScreen() {
   const handleExitPlan = () => {
     Alert.alert(
       "Exit Current Plan",
-      "Are you sure you want to exit your current plan and downgrade to the Free plan? You will lose access to premium features.",
+      "Are you sure you want to exit your current plan? It won't renew, and you'll move to the Free plan when the current billing period ends.",
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -111,14 +111,27 @@ export default function ProfileScreen() {
           style: "destructive",
           onPress: async () => {
             try {
-              await userAPI.updateSubscription("FREE");
-              dispatch({
-                type: "auth/updateSubscription",
-                payload: { subscription_type: "FREE" },
-              });
+              const response = await billingAPI.cancelSubscription();
+              if (!response.success) {
+                throw new Error(response.error);
+              }
+
+              // Legacy plans without a billing period end immediately
+              if (response.data.plan === "FREE") {
+                dispatch({
+                  type: "auth/updateSubscription",
+                  payload: { subscription_type: "FREE" },
+                });
+              }
+
+              const periodEnd = response.data.currentPeriodEnd;
               Alert.alert(
                 "Success",
-                "You have been downgraded to the Free plan."
+                periodEnd && response.data.plan !== "FREE"
+                  ? `Your plan will not renew. You keep its features until ${new Date(
+                      periodEnd
+                    ).toLocaleDateString()}.`
+                  : "You have been downgraded to the Free plan."
               );
             } catch (error: any) {
               Alert.alert("Error", error.message || "Failed to update plan");
@@ -60,6 +60,9 @@ import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
 import { api } from "@/src/services/api";
 import LoadingScreen from "@/components/LoadingScreen";
+import BodyMetricsSection from "@/components/BodyMetricsSection";
+import WellbeingSection from "@/components/WellbeingSection";
+import { getLocalDateKey } from "@/src/utils/date";
 
 const { width } = Dimensions.get("window");
 
@@ -149,6 +152,7 @@ interface StatisticsData {
   successfulDays: number;
   averageCompletion: number;
   bestStreak: number;
+  checkInDays: number;
   happyDays: number;
   highEnergyDays: number;
   satisfiedDays: number;
@@ -720,7 +724,7 @@ export default function StatisticsScreen() {
     if (!userQuestionnaire) return false;
 
     const weeklyData = generateWeeklyData();
-    const today = new Date().toISOString().split("T")[0];
+    const today = getLocalDateKey();
     const todayData = weeklyData.find((day) => day.date === today);
 
     return todayData ? todayData.mealsCount >= todayData.requiredMeals : false;
@@ -1024,7 +1028,7 @@ export default function StatisticsScreen() {
   // Meal completion status component
   const renderMealCompletionStatus = () => {
     const weeklyData = generateWeeklyData();
-    const today = new Date().toISOString().split("T")[0];
+    const today = getLocalDateKey();
     const todayData = weeklyData.find((day) => day.date === today);
 
     if (!todayData || !userQuestionnaire) return null;
@@ -1545,6 +1549,12 @@ export default function StatisticsScreen() {
           </>
         )}
 
+        {/* How the user feels, and how that tracks what they eat */}
+        <WellbeingSection />
+
+        {/* Weight and body measurements, logged independently of meals */}
+        <BodyMetricsSection />
+
         {/* Achievements Modal */}
         <Modal
           visible={showAchievements}
@@ -12,9 +12,9 @@ import {
   Dimensions,
 } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import { useDispatch, useSelector } from "react-redux";
-import { AppDispatch, RootState } from "@/src/store";
-import { userAPI } from "@/src/services/api";
+import { useSelector } from "react-redux";
+import { RootState } from "@/src/store";
+import { billingAPI } from "@/src/services/api";
 import { Ionicons } from "@expo/vector-icons";
 import {
   CreditCard,
@@ -111,7 +111,6 @@ export default function PaymentPlan() {
   });
   const [cardType, setCardType] = useState("");
   const router = useRouter();
-  const dispatch = useDispatch<AppDispatch>();
   const { user } = useSelector((state: RootState) => state.auth);
   const { mode, currentPlan } = useLocalSearchParams();
 
@@ -233,29 +232,29 @@ export default function PaymentPlan() {
         throw new Error("User not authenticated");
       }
 
-      console.log("🔄 Updating subscription to:", planId);
-      const response = await userAPI.updateSubscription(planId);
-      console.log("✅ Subscription update response:", response);
-
-      if (!response.success) {
-        throw new Error(response.error || "Failed to update subscription");
+      // Paid plans are only granted once the payment screen's charge clears
+      if (planId !== "FREE") {
+        await handlePayment(planId);
+        return;
       }
 
-      // Update Redux state
-      dispatch({
-        type: "auth/updateSubscription",
-        payload: { subscription_type: planId },
-      });
+      // Leaving a paid plan cancels renewal; it stays active until the
+      // period the user already paid for ends
+      if (user.subscription_type && user.subscription_type !== "FREE") {
+        console.log("🔄 Canceling subscription renewal");
+        const response = await billingAPI.cancelSubscription();
 
-      // Add small delay to prevent re-render conflicts
-      await new Promise((resolve) => setTimeout(resolve, 200));
+        if (!response.success) {
+          throw new Error(response.error || "Failed to cancel subscription");
+        }
 
-      // Navigate based on plan type
-      if (planId === "FREE") {
-        router.replace("/(tabs)");
-      } else {
-        router.replace("/questionnaire");
+        Alert.alert(
+          "המנוי בוטל",
+          "התוכנית הנוכחית תישאר פעילה עד סוף תקופת החיוב."
+        );
       }
+
+      router.replace("/(tabs)");
     } catch (error: any) {
       console.error("Plan selection error:", error);
       Alert.alert("שגיאה", error.message || "נכשל בעדכון התוכנית");
@@ -15,7 +15,7 @@ import { useRouter, useLocalSearchParams } from "expo-router";
 import { LinearGradient } from "expo-linear-gradient";
 import { useDispatch, useSelector } from "react-redux";
 import { AppDispatch, RootState } from "@/src/store";
-import { userAPI } from "@/src/services/api";
+import { billingAPI } from "@/src/services/api";
 import {
   CreditCard,
   Lock,
@@ -23,10 +23,31 @@ import {
   ArrowLeft,
   Calendar,
   Shield,
+  Receipt,
 } from "lucide-react-native";
 
 const { width } = Dimensions.get("window");
 
+const PAYMENT_POLL_INTERVAL_MS = 1500;
+const PAYMENT_POLL_ATTEMPTS = 20;
+
+interface Invoice {
+  payment_id: number;
+  invoice_number: string | null;
+  plan_type: string;
+  amount: number;
+  currency: string;
+  kind: string;
+  payment_date: string;
+}
+
+interface PlanQuote {
+  action: "charge" | "scheduled" | "none";
+  amount: number;
+  currency: string;
+  prorationCredit: number;
+}
+
 // Card detection utilities
 const detectCardType = (cardNumber: string) => {
   const number = cardNumber.replace(/\s/g, "");
@@ -103,6 +124,8 @@ export default function PaymentScreen() {
   const [isLoading, setIsLoading] = useState(false);
   const [isCardValid, setIsCardValid] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [quote, setQuote] = useState<PlanQuote | null>(null);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
 
   // Animation values
   const [cardFlipAnimation] = useState(new Animated.Value(0));
@@ -139,6 +162,25 @@ export default function PaymentScreen() {
     }
   }, [paymentData.cardNumber]);
 
+  useEffect(() => {
+    const loadBilling = async () => {
+      try {
+        const [quoteResponse, invoicesResponse] = await Promise.all([
+          planType ? billingAPI.getQuote(planType as string) : null,
+          billingAPI.getInvoices(),
+        ]);
+        if (quoteResponse?.success) setQuote(quoteResponse.data);
+        if (invoicesResponse?.success) {
+          setInvoices(invoicesResponse.data.invoices);
+        }
+      } catch (error) {
+        console.error("Failed to load billing details:", error);
+      }
+    };
+
+    loadBilling();
+  }, [planType]);
+
   const handleCardNumberChange = (text: string) => {
     const formatted = formatCardNumber(text);
     setPaymentData((prev) => ({ ...prev, cardNumber: formatted }));
@@ -222,11 +264,48 @@ export default function PaymentScreen() {
     try {
       setIsLoading(true);
 
-      // Simulate payment processing (always successful for now)
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+      // Stand-in for the payment provider's SDK, which tokenizes the card on
+      // the device; only the token and display details reach our server
+      const digits = paymentData.cardNumber.replace(/\s/g, "");
+      const last4 = digits.slice(-4);
+      const checkout = await billingAPI.checkout(planType as string, {
+        token: `tok_${Date.now()}_${last4}`,
+        brand: cardType || undefined,
+        last4,
+      });
+
+      if (!checkout.success) {
+        throw new Error(checkout.error || "Checkout failed");
+      }
 
-      // Update user subscription
-      await userAPI.updateSubscription(planType as string);
+      if (checkout.data.status === "pending") {
+        const payment = await waitForPayment(checkout.data.payment.payment_id);
+
+        if (payment?.status === "FAILED") {
+          Alert.alert(
+            "Payment Failed",
+            payment.failure_reason === "card_declined"
+              ? "Your card was declined. Please try another card."
+              : "There was an error processing your payment. Please try again."
+          );
+          return;
+        }
+
+        if (payment?.status !== "SUCCEEDED") {
+          Alert.alert(
+            "Payment Processing",
+            "Your payment is still being processed. Your plan will update as soon as it is confirmed."
+          );
+          return;
+        }
+      } else if (checkout.data.status === "scheduled") {
+        Alert.alert(
+          "Plan Change Scheduled",
+          `You'll move to ${planName} at the end of your current billing period.`,
+          [{ text: "OK", onPress: () => router.replace("/(tabs)/profile") }]
+        );
+        return;
+      }
 
       // Update Redux state
       dispatch({
@@ -267,13 +346,34 @@ export default function PaymentScreen() {
       console.error("Payment error:", error);
       Alert.alert(
         "Payment Failed",
-        "There was an error processing your payment. Please try again."
+        error.response?.data?.error ||
+          "There was an error processing your payment. Please try again."
       );
     } finally {
       setIsLoading(false);
     }
   };
 
+  // The charge is confirmed by the provider asynchronously, so poll until
+  // the payment settles
+  const waitForPayment = async (paymentId: number) => {
+    for (let attempt = 0; attempt < PAYMENT_POLL_ATTEMPTS; attempt++) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, PAYMENT_POLL_INTERVAL_MS)
+      );
+      const response = await billingAPI.getPayment(paymentId);
+      if (response.success && response.data.status !== "PENDING") {
+        return response.data;
+      }
+    }
+    return null;
+  };
+
+  const payLabel =
+    quote?.action === "charge"
+      ? `${quote.amount.toFixed(2)} ${quote.currency}`
+      : planPrice;
+
   const handleCvvFocus = () => {
     // Flip card animation
     Animated.timing(cardFlipAnimation, {
@@ -530,6 +630,13 @@ export default function PaymentScreen() {
             )}
           </View>
 
+          {quote?.action === "charge" && quote.prorationCredit > 0 && (
+            <Text style={styles.prorationText}>
+              Includes a credit of {quote.prorationCredit.toFixed(2)}{" "}
+              {quote.currency} for the unused part of your current plan
+            </Text>
+          )}
+
           {/* Security Notice */}
           <View style={styles.securityNotice}>
             <Lock size={16} color="#047857" />
@@ -556,12 +663,38 @@ export default function PaymentScreen() {
               ) : (
                 <>
                   <Lock size={20} color="white" />
-                  <Text style={styles.payButtonText}>Pay {planPrice}</Text>
+                  <Text style={styles.payButtonText}>Pay {payLabel}</Text>
                 </>
               )}
             </LinearGradient>
           </TouchableOpacity>
         </View>
+
+        {/* Billing History */}
+        {invoices.length > 0 && (
+          <View style={styles.invoicesSection}>
+            <View style={styles.invoicesHeader}>
+              <Receipt size={20} color="#047857" />
+              <Text style={styles.invoicesTitle}>Billing History</Text>
+            </View>
+            {invoices.map((invoice) => (
+              <View key={invoice.payment_id} style={styles.invoiceRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.invoiceNumber}>
+                    {invoice.invoice_number}
+                  </Text>
+                  <Text style={styles.invoiceDetails}>
+                    {invoice.plan_type} ·{" "}
+                    {new Date(invoice.payment_date).toLocaleDateString()}
+                  </Text>
+                </View>
+                <Text style={styles.invoiceAmount}>
+                  {invoice.amount.toFixed(2)} {invoice.currency}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
       </View>
 
       {/* Success Animation Overlay */}
@@ -822,6 +955,11 @@ const styles = StyleSheet.create({
     marginTop: 4,
     fontWeight: "500",
   },
+  prorationText: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginBottom: 12,
+  },
   securityNotice: {
     flexDirection: "row",
     alignItems: "center",
@@ -865,6 +1003,47 @@ const styles = StyleSheet.create({
     color: "white",
     marginLeft: 8,
   },
+  invoicesSection: {
+    backgroundColor: "white",
+    borderRadius: 20,
+    padding: 20,
+    marginTop: 20,
+    borderWidth: 1,
+    borderColor: "#d1fae5",
+  },
+  invoicesHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  invoicesTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#374151",
+    marginLeft: 8,
+  },
+  invoiceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#f3f4f6",
+  },
+  invoiceNumber: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#374151",
+  },
+  invoiceDetails: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  invoiceAmount: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#047857",
+  },
   successOverlay: {
     position: "absolute",
     top: 0,
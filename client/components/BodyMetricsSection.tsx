@@ -0,0 +1,597 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  ActivityIndicator,
+  Dimensions,
+} from "react-native";
+import { LineChart } from "react-native-chart-kit";
+import { Scale, Plus, Trash2, X } from "lucide-react-native";
+import { useLanguage } from "@/src/i18n/context/LanguageContext";
+import {
+  useBodyMeasurements,
+  useWeightTrend,
+  useRecordMeasurement,
+  useDeleteMeasurement,
+} from "@/hooks/useQueries";
+import { BodyMeasurement, BodyMeasurementFields } from "@/src/services/api";
+import { getLocalDateKey } from "@/src/utils/date";
+
+const { width } = Dimensions.get("window");
+// Section padding (20 each side) plus card padding (24 each side)
+const CHART_WIDTH = width - 88;
+const CHART_LABELS = 5;
+
+type MetricField = Exclude<keyof BodyMeasurementFields, "notes">;
+
+interface MetricFieldInfo {
+  key: MetricField;
+  en: string;
+  he: string;
+  unit: string;
+}
+
+const FIELDS: MetricFieldInfo[] = [
+  { key: "weight_kg", en: "Weight", he: "משקל", unit: "kg" },
+  { key: "body_fat_percentage", en: "Body fat", he: "אחוז שומן", unit: "%" },
+  { key: "waist_cm", en: "Waist", he: "מותניים", unit: "cm" },
+  { key: "hips_cm", en: "Hips", he: "אגן", unit: "cm" },
+  { key: "chest_cm", en: "Chest", he: "חזה", unit: "cm" },
+  { key: "neck_cm", en: "Neck", he: "צוואר", unit: "cm" },
+  { key: "arm_cm", en: "Arm", he: "זרוע", unit: "cm" },
+  { key: "thigh_cm", en: "Thigh", he: "ירך", unit: "cm" },
+];
+
+const chartConfig = {
+  backgroundGradientFrom: "#FFFFFF",
+  backgroundGradientTo: "#FFFFFF",
+  decimalPlaces: 1,
+  color: (opacity = 1) => `rgba(22, 160, 133, ${opacity})`,
+  labelColor: () => "#64748B",
+  propsForBackgroundLines: { stroke: "#F1F5F9" },
+};
+
+// Only a handful of evenly spaced dates fit under the chart
+function sparseLabels(dates: string[], format: (date: string) => string) {
+  const step = Math.max(1, Math.ceil(dates.length / CHART_LABELS));
+  return dates.map((date, i) => (i % step === 0 ? format(date) : ""));
+}
+
+export default function BodyMetricsSection() {
+  const { language } = useLanguage();
+  const isRTL = language === "he";
+
+  const { data: trend } = useWeightTrend(90);
+  const { data: measurements = [] } = useBodyMeasurements();
+  const recordMeasurement = useRecordMeasurement();
+  const deleteMeasurement = useDeleteMeasurement();
+
+  const [formVisible, setFormVisible] = useState(false);
+  const [values, setValues] = useState<Partial<Record<MetricField, string>>>(
+    {}
+  );
+  const [formError, setFormError] = useState<string | null>(null);
+  const [chartField, setChartField] = useState<MetricField>("waist_cm");
+
+  const texts = {
+    title: isRTL ? "משקל ומדידות" : "Weight & Measurements",
+    log: isRTL ? "הוספת מדידה" : "Log",
+    trend: isRTL ? "משקל מגמה" : "Trend weight",
+    weekly: isRTL ? "שינוי שבועי" : "Per week",
+    target: isRTL ? "יעד" : "Target",
+    goalDate: isRTL ? "הגעה ליעד" : "Goal date",
+    noWeights: isRTL
+      ? "רשמו את המשקל שלכם כדי לראות את המגמה"
+      : "Log your weight to see your trend",
+    measurements: isRTL ? "היקפים" : "Measurements",
+    recent: isRTL ? "מדידות אחרונות" : "Recent entries",
+    save: isRTL ? "שמירה" : "Save",
+    today: isRTL ? "מדידות להיום" : "Today's measurements",
+    enterOne: isRTL ? "יש להזין לפחות מדידה אחת" : "Enter at least one value",
+    deleteTitle: isRTL ? "מחיקת מדידה" : "Delete entry",
+    deleteMessage: isRTL
+      ? "למחוק את המדידות של יום זה?"
+      : "Delete the measurements for this day?",
+    cancel: isRTL ? "ביטול" : "Cancel",
+    delete: isRTL ? "מחיקה" : "Delete",
+    error: isRTL ? "השמירה נכשלה" : "Couldn't save",
+  };
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(
+      isRTL ? "he-IL" : "en-US",
+      { day: "numeric", month: "short" }
+    );
+
+  const chartableFields = useMemo(
+    () =>
+      FIELDS.filter(
+        (field) =>
+          field.key !== "weight_kg" &&
+          measurements.filter((m) => m[field.key] != null).length >= 2
+      ),
+    [measurements]
+  );
+  const activeChartField =
+    chartableFields.find((field) => field.key === chartField) ??
+    chartableFields[0];
+
+  const measurementSeries = useMemo(() => {
+    if (!activeChartField) return [];
+    return measurements
+      .filter((m) => m[activeChartField.key] != null)
+      .map((m) => ({ date: m.date, value: m[activeChartField.key] as number }))
+      .reverse();
+  }, [measurements, activeChartField]);
+
+  const openForm = () => {
+    setValues({});
+    setFormError(null);
+    setFormVisible(true);
+  };
+
+  const handleSave = async () => {
+    const input: BodyMeasurementFields = {};
+    for (const field of FIELDS) {
+      const raw = values[field.key]?.trim().replace(",", ".");
+      if (!raw) continue;
+      const value = Number(raw);
+      if (isNaN(value)) {
+        setFormError(`${isRTL ? field.he : field.en}: ${raw}`);
+        return;
+      }
+      input[field.key] = value;
+    }
+
+    if (Object.keys(input).length === 0) {
+      setFormError(texts.enterOne);
+      return;
+    }
+
+    try {
+      await recordMeasurement.mutateAsync({ date: getLocalDateKey(), ...input });
+      setFormVisible(false);
+    } catch (error: any) {
+      console.error("💥 Body measurement save error:", error);
+      setFormError(error?.response?.data?.error || texts.error);
+    }
+  };
+
+  const confirmDelete = (measurement: BodyMeasurement) => {
+    Alert.alert(texts.deleteTitle, texts.deleteMessage, [
+      { text: texts.cancel, style: "cancel" },
+      {
+        text: texts.delete,
+        style: "destructive",
+        onPress: () => deleteMeasurement.mutate(measurement.measurement_id),
+      },
+    ]);
+  };
+
+  const describeMeasurement = (measurement: BodyMeasurement) =>
+    FIELDS.filter((field) => measurement[field.key] != null)
+      .map(
+        (field) =>
+          `${isRTL ? field.he : field.en} ${measurement[field.key]}${
+            field.unit === "%" ? "%" : ` ${field.unit}`
+          }`
+      )
+      .join(" · ");
+
+  const weeklyChange = trend?.weekly_change_kg;
+  const points = trend?.points ?? [];
+
+  return (
+    <View style={styles.section}>
+      <View style={[styles.header, isRTL && styles.rowReverse]}>
+        <Text style={styles.sectionTitle}>{texts.title}</Text>
+        <TouchableOpacity
+          style={styles.logButton}
+          onPress={openForm}
+          accessibilityRole="button"
+        >
+          <Plus size={16} color="#FFFFFF" strokeWidth={2.5} />
+          <Text style={styles.logButtonText}>{texts.log}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        <View style={[styles.statsRow, isRTL && styles.rowReverse]}>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>
+              {trend?.trend_weight_kg != null
+                ? `${trend.trend_weight_kg} kg`
+                : "-"}
+            </Text>
+            <Text style={styles.statLabel}>{texts.trend}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>
+              {weeklyChange != null
+                ? `${weeklyChange > 0 ? "+" : ""}${weeklyChange} kg`
+                : "-"}
+            </Text>
+            <Text style={styles.statLabel}>{texts.weekly}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>
+              {trend?.target_weight_kg != null
+                ? `${trend.target_weight_kg} kg`
+                : "-"}
+            </Text>
+            <Text style={styles.statLabel}>{texts.target}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>
+              {trend?.projected_goal_date
+                ? formatDate(trend.projected_goal_date)
+                : "-"}
+            </Text>
+            <Text style={styles.statLabel}>{texts.goalDate}</Text>
+          </View>
+        </View>
+
+        {points.length >= 2 ? (
+          <LineChart
+            data={{
+              labels: sparseLabels(
+                points.map((p) => p.date),
+                formatDate
+              ),
+              datasets: [
+                {
+                  data: points.map((p) => p.weight_kg),
+                  color: () => "rgba(148, 163, 184, 0.7)",
+                  strokeWidth: 1,
+                },
+                {
+                  data: points.map((p) => p.trend_kg),
+                  color: (opacity = 1) => `rgba(22, 160, 133, ${opacity})`,
+                  strokeWidth: 3,
+                },
+              ],
+            }}
+            width={CHART_WIDTH}
+            height={200}
+            chartConfig={chartConfig}
+            withDots={points.length <= 31}
+            withShadow={false}
+            bezier
+            style={styles.chart}
+          />
+        ) : (
+          <View style={styles.empty}>
+            <Scale size={32} color="#BDC3C7" />
+            <Text style={styles.emptyText}>{texts.noWeights}</Text>
+          </View>
+        )}
+      </View>
+
+      {activeChartField && (
+        <View style={styles.card}>
+          <Text style={[styles.cardTitle, isRTL && styles.rtlText]}>
+            {texts.measurements}
+          </Text>
+          <View style={[styles.chips, isRTL && styles.rowReverse]}>
+            {chartableFields.map((field) => (
+              <TouchableOpacity
+                key={field.key}
+                style={[
+                  styles.chip,
+                  field.key === activeChartField.key && styles.chipActive,
+                ]}
+                onPress={() => setChartField(field.key)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    field.key === activeChartField.key && styles.chipTextActive,
+                  ]}
+                >
+                  {isRTL ? field.he : field.en}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <LineChart
+            data={{
+              labels: sparseLabels(
+                measurementSeries.map((m) => m.date),
+                formatDate
+              ),
+              datasets: [{ data: measurementSeries.map((m) => m.value) }],
+            }}
+            width={CHART_WIDTH}
+            height={180}
+            yAxisSuffix={activeChartField.unit === "%" ? "%" : ""}
+            chartConfig={chartConfig}
+            withShadow={false}
+            style={styles.chart}
+          />
+        </View>
+      )}
+
+      {measurements.length > 0 && (
+        <View style={styles.card}>
+          <Text style={[styles.cardTitle, isRTL && styles.rtlText]}>
+            {texts.recent}
+          </Text>
+          {measurements.slice(0, 5).map((measurement) => (
+            <View
+              key={measurement.measurement_id}
+              style={[styles.entry, isRTL && styles.rowReverse]}
+            >
+              <View style={styles.entryInfo}>
+                <Text style={[styles.entryDate, isRTL && styles.rtlText]}>
+                  {formatDate(measurement.date)}
+                </Text>
+                <Text style={[styles.entryValues, isRTL && styles.rtlText]}>
+                  {describeMeasurement(measurement)}
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => confirmDelete(measurement)}
+                accessibilityRole="button"
+                accessibilityLabel={texts.delete}
+              >
+                <Trash2 size={18} color="#94A3B8" />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <Modal
+        visible={formVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setFormVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={[styles.header, isRTL && styles.rowReverse]}>
+              <Text style={styles.modalTitle}>{texts.today}</Text>
+              <TouchableOpacity onPress={() => setFormVisible(false)}>
+                <X size={22} color="#64748B" />
+              </TouchableOpacity>
+            </View>
+
+            <View style={[styles.fieldGrid, isRTL && styles.rowReverse]}>
+              {FIELDS.map((field) => (
+                <View key={field.key} style={styles.field}>
+                  <Text style={[styles.fieldLabel, isRTL && styles.rtlText]}>
+                    {isRTL ? field.he : field.en} ({field.unit})
+                  </Text>
+                  <TextInput
+                    style={[styles.input, isRTL && styles.rtlText]}
+                    keyboardType="decimal-pad"
+                    value={values[field.key] ?? ""}
+                    onChangeText={(text) =>
+                      setValues((prev) => ({ ...prev, [field.key]: text }))
+                    }
+                    placeholder="-"
+                    placeholderTextColor="#CBD5E1"
+                  />
+                </View>
+              ))}
+            </View>
+
+            {formError && (
+              <Text style={[styles.formError, isRTL && styles.rtlText]}>
+                {formError}
+              </Text>
+            )}
+
+            <TouchableOpacity
+              style={styles.saveButton}
+              onPress={handleSave}
+              disabled={recordMeasurement.isPending}
+            >
+              {recordMeasurement.isPending ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>{texts.save}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: 20,
+    marginBottom: 32,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 24,
+    fontWeight: "700",
+    color: "#0F172A",
+    letterSpacing: -0.3,
+  },
+  logButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#16A085",
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+  },
+  logButtonText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  card: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 24,
+    padding: 24,
+    marginBottom: 16,
+    shadowColor: "#1E293B",
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.08,
+    shadowRadius: 20,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#0F172A",
+    marginBottom: 12,
+  },
+  statsRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  stat: {
+    alignItems: "center",
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: "800",
+    color: "#0F172A",
+    marginBottom: 4,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: "#64748B",
+    textAlign: "center",
+    fontWeight: "600",
+  },
+  chart: {
+    marginLeft: -16,
+    borderRadius: 16,
+  },
+  empty: {
+    alignItems: "center",
+    paddingVertical: 24,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#64748B",
+    textAlign: "center",
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: "#F1F5F9",
+  },
+  chipActive: {
+    backgroundColor: "#16A085",
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  chipTextActive: {
+    color: "#FFFFFF",
+  },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#F1F5F9",
+    gap: 12,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryDate: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#0F172A",
+    marginBottom: 2,
+  },
+  entryValues: {
+    fontSize: 13,
+    color: "#64748B",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(15, 23, 42, 0.5)",
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    backgroundColor: "#FFFFFF",
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#0F172A",
+  },
+  fieldGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "space-between",
+  },
+  field: {
+    width: "48%",
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#475569",
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#E2E8F0",
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    color: "#0F172A",
+  },
+  formError: {
+    color: "#E74C3C",
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  saveButton: {
+    backgroundColor: "#16A085",
+    borderRadius: 14,
+    paddingVertical: 14,
+    alignItems: "center",
+    marginTop: 4,
+  },
+  saveButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  rowReverse: {
+    flexDirection: "row-reverse",
+  },
+  rtlText: {
+    textAlign: "right",
+  },
+});
@@ -0,0 +1,187 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { Check, X, Wand2 } from "lucide-react-native";
+import { useTheme } from "@/src/context/ThemeContext";
+import { useLanguage } from "@/src/i18n/context/LanguageContext";
+import { ChatAction, chatAPI } from "@/src/services/api";
+
+interface ChatActionCardProps {
+  action: ChatAction;
+  onChange: (action: ChatAction) => void;
+}
+
+const statusLabels: Record<
+  Exclude<ChatAction["status"], "PENDING">,
+  { en: string; he: string }
+> = {
+  CONFIRMED: { en: "Done", he: "בוצע" },
+  REJECTED: { en: "Cancelled", he: "בוטל" },
+  FAILED: { en: "Couldn't complete this", he: "לא הצלחנו לבצע" },
+  EXPIRED: { en: "This suggestion expired", he: "ההצעה פגה" },
+};
+
+// Confirmation prompt for an action the assistant proposed. Nothing is
+// changed until the user taps Confirm.
+export default function ChatActionCard({
+  action,
+  onChange,
+}: ChatActionCardProps) {
+  const { colors } = useTheme();
+  const { isRTL } = useLanguage();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resolve = async (confirm: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = confirm
+        ? await chatAPI.confirmAction(action.action_id)
+        : await chatAPI.rejectAction(action.action_id);
+      onChange(response.data);
+    } catch (err: any) {
+      const status = err?.response?.status;
+      console.error("💥 Chat action error:", err);
+
+      if (status === 410) {
+        onChange({ ...action, status: "EXPIRED" });
+      } else if (status === 500) {
+        onChange({ ...action, status: "FAILED" });
+      } else {
+        setError(
+          err?.response?.data?.error ||
+            (isRTL ? "אירעה שגיאה. נסה שוב." : "Something went wrong.")
+        );
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const statusLabel =
+    action.status === "PENDING" ? null : statusLabels[action.status];
+  const statusColor =
+    action.status === "CONFIRMED"
+      ? colors.success
+      : action.status === "FAILED"
+      ? colors.error
+      : colors.textSecondary;
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: colors.card, borderColor: colors.border },
+      ]}
+    >
+      <View style={[styles.header, isRTL && styles.rowReverse]}>
+        <Wand2 size={16} color={colors.emerald600} strokeWidth={2} />
+        <Text
+          style={[
+            styles.summary,
+            { color: colors.text },
+            isRTL && styles.rtlText,
+          ]}
+        >
+          {action.summary}
+        </Text>
+      </View>
+
+      {statusLabel ? (
+        <Text
+          style={[styles.status, { color: statusColor }, isRTL && styles.rtlText]}
+        >
+          {statusLabel[isRTL ? "he" : "en"]}
+        </Text>
+      ) : busy ? (
+        <ActivityIndicator size="small" color={colors.emerald600} />
+      ) : (
+        <View style={[styles.buttons, isRTL && styles.rowReverse]}>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.emerald600 }]}
+            onPress={() => resolve(true)}
+            accessibilityRole="button"
+          >
+            <Check size={16} color="#FFFFFF" strokeWidth={2.5} />
+            <Text style={[styles.buttonText, { color: "#FFFFFF" }]}>
+              {isRTL ? "אישור" : "Confirm"}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, { borderColor: colors.border }, styles.outline]}
+            onPress={() => resolve(false)}
+            accessibilityRole="button"
+          >
+            <X size={16} color={colors.textSecondary} strokeWidth={2.5} />
+            <Text style={[styles.buttonText, { color: colors.textSecondary }]}>
+              {isRTL ? "ביטול" : "Cancel"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {error && (
+        <Text
+          style={[styles.status, { color: colors.error }, isRTL && styles.rtlText]}
+        >
+          {error}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 10,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  summary: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  button: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+  },
+  outline: {
+    borderWidth: 1,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  status: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  rowReverse: {
+    flexDirection: "row-reverse",
+  },
+  rtlText: {
+    textAlign: "right",
+  },
+});
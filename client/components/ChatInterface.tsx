@@ -30,6 +30,8 @@ import {
 import { useTheme } from "@/src/context/ThemeContext";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
 import { useTranslation } from "react-i18next";
+import { ChatAction, chatAPI } from "@/src/services/api";
+import ChatActionCard from "./ChatActionCard";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
@@ -39,6 +41,8 @@ interface Message {
   isUser: boolean;
   timestamp: Date;
   suggestions?: string[];
+  isStreaming?: boolean;
+  actions?: ChatAction[];
 }
 
 interface ChatInterfaceProps {
@@ -69,6 +73,7 @@ export default function ChatInterface({ children }: ChatInterfaceProps) {
   ]);
   const [inputText, setInputText] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  const streamRef = useRef<{ abort: () => void } | null>(null);
 
   const translateX = useRef(new Animated.Value(screenWidth)).current;
   const swipeProgress = useRef(new Animated.Value(0)).current;
@@ -98,6 +103,9 @@ export default function ChatInterface({ children }: ChatInterfaceProps) {
     return () => clearTimeout(timer);
   }, []);
 
+  // Stop a reply that is still streaming when the chat unmounts
+  useEffect(() => () => streamRef.current?.abort(), []);
+
   // Enhanced pan responder with RTL support
   const panResponder = useRef(
     PanResponder.create({
@@ -166,8 +174,8 @@ export default function ChatInterface({ children }: ChatInterfaceProps) {
     });
   };
 
-  const sendMessage = async (text: string) => {
-    if (!text.trim()) return;
+  const sendMessage = (text: string) => {
+    if (!text.trim() || streamRef.current) return;
 
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -184,53 +192,101 @@ export default function ChatInterface({ children }: ChatInterfaceProps) {
       scrollViewRef.current?.scrollToEnd({ animated: true });
     }, 100);
 
-    // Enhanced AI responses with RTL support
-    setTimeout(() => {
-      const responses = [
-        {
-          text: isRTL
-            ? "זה נשמע מעולה! בהתבסס על מה שאמרת, אני ממליץ על סלט קינואה עם ירקות צבעוניים וחלבון לבחירתך. זה מזין, טעים ומתאים לדיאטה בריאה."
-            : "That sounds great! Based on what you said, I recommend a quinoa salad with colorful vegetables and your choice of protein. It's nutritious, delicious and suitable for a healthy diet.",
-          suggestions: isRTL
-            ? ["איך מכינים קינואה?", "אפשרויות חלבון", "עוד רעיונות לסלטים"]
-            : ["How to prepare quinoa?", "Protein options", "More salad ideas"],
-        },
-        {
-          text: isRTL
-            ? "לארוחת בוקר אני ממליץ על שייק חלבון עם בננה, שיבולת שועל ושקדים. זה נותן אנרגיה לכל הבוקר ומכיל חלבון איכותי."
-            : "For breakfast I recommend a protein shake with banana, oats and almonds. It provides energy for the whole morning and contains quality protein.",
-          suggestions: isRTL
-            ? ["מתכון לשייק", "חלופות לבננה", "עוד רעיונות לבוקר"]
-            : ["Shake recipe", "Banana alternatives", "More breakfast ideas"],
-        },
-        {
-          text: isRTL
-            ? "עבור ארוחה מהירה, אני מציע טוסט אבוקדו עם ביצה, או סלט טונה מהיר. שתי האפשרויות לוקחות פחות מ-10 דקות להכנה."
-            : "For a quick meal, I suggest avocado toast with egg, or a quick tuna salad. Both options take less than 10 minutes to prepare.",
-          suggestions: isRTL
-            ? ["מתכון טוסט אבוקדו", "רעיונות לסלט טונה", "עוד ארוחות מהירות"]
-            : ["Avocado toast recipe", "Tuna salad ideas", "More quick meals"],
-        },
-      ];
-
-      const randomResponse =
-        responses[Math.floor(Math.random() * responses.length)];
-
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        text: randomResponse.text,
-        isUser: false,
-        timestamp: new Date(),
-        suggestions: randomResponse.suggestions,
-      };
+    // Render the reply as it streams in; the bubble appears with the
+    // first chunk, so the typing indicator covers the wait before it
+    const botMessageId = (Date.now() + 1).toString();
+    const scrollToEnd = () =>
+      scrollViewRef.current?.scrollToEnd({ animated: true });
 
-      setMessages((prev) => [...prev, botMessage]);
+    // A failed stream keeps any partial reply instead of the error text
+    const finishReply = (
+      text: string,
+      replacePartial: boolean,
+      actions: ChatAction[] = []
+    ) => {
+      streamRef.current = null;
       setIsTyping(false);
+      setMessages((prev) =>
+        prev.some((message) => message.id === botMessageId)
+          ? prev.map((message) =>
+              message.id === botMessageId
+                ? {
+                    ...message,
+                    text: replacePartial && text ? text : message.text,
+                    isStreaming: false,
+                    actions,
+                  }
+                : message
+            )
+          : [
+              ...prev,
+              {
+                id: botMessageId,
+                text,
+                isUser: false,
+                timestamp: new Date(),
+                actions,
+              },
+            ]
+      );
+      setTimeout(scrollToEnd, 100);
+    };
 
-      setTimeout(() => {
-        scrollViewRef.current?.scrollToEnd({ animated: true });
-      }, 100);
-    }, 2000);
+    streamRef.current = chatAPI.streamMessage(
+      text.trim(),
+      isRTL ? "hebrew" : "english",
+      {
+        onDelta: (delta) => {
+          setMessages((prev) =>
+            prev.some((message) => message.id === botMessageId)
+              ? prev.map((message) =>
+                  message.id === botMessageId
+                    ? { ...message, text: message.text + delta }
+                    : message
+                )
+              : [
+                  ...prev,
+                  {
+                    id: botMessageId,
+                    text: delta,
+                    isUser: false,
+                    timestamp: new Date(),
+                    isStreaming: true,
+                  },
+                ]
+          );
+          scrollToEnd();
+        },
+        onDone: (result) =>
+          finishReply(result.response, true, result.actions),
+        onError: (error) => {
+          console.error("💥 Chat stream error:", error);
+          finishReply(
+            error.status === 429
+              ? error.message
+              : isRTL
+              ? "מצטער, אירעה שגיאה. אנא נסה שוב."
+              : "Sorry, something went wrong. Please try again.",
+            false
+          );
+        },
+      }
+    );
+  };
+
+  const updateAction = (messageId: string, updated: ChatAction) => {
+    setMessages((prev) =>
+      prev.map((message) =>
+        message.id === messageId
+          ? {
+              ...message,
+              actions: message.actions?.map((action) =>
+                action.action_id === updated.action_id ? updated : action
+              ),
+            }
+          : message
+      )
+    );
   };
 
   const handleSuggestionPress = (suggestion: string) => {
@@ -434,6 +490,7 @@ export default function ChatInterface({ children }: ChatInterfaceProps) {
                         ]}
                       >
                         {message.text}
+                        {message.isStreaming && " ▍"}
                       </Text>
                       <Text
                         style={[
@@ -454,6 +511,16 @@ export default function ChatInterface({ children }: ChatInterfaceProps) {
                       </Text>
                     </View>
 
+                    {message.actions?.map((action) => (
+                      <ChatActionCard
+                        key={action.action_id}
+                        action={action}
+                        onChange={(updated) =>
+                          updateAction(message.id, updated)
+                        }
+                      />
+                    ))}
+
                     {/* Enhanced Suggestions */}
                     {message.suggestions && (
                       <View
@@ -491,7 +558,7 @@ export default function ChatInterface({ children }: ChatInterfaceProps) {
                 ))}
 
                 {/* Enhanced typing indicator */}
-                {isTyping && (
+                {isTyping && !messages.some((m) => m.isStreaming) && (
                   <View
                     style={[
                       dynamicStyles.typingContainer,
@@ -4,7 +4,7 @@ import { useRouter } from "expo-router";
 import { RootState, AppDispatch } from "@/src/store";
 import { View, ActivityIndicator, Text } from "react-native";
 import { useTokenValidation } from "@/hooks/useTokenValidation";
-import { signOut } from "@/src/store/authSlice";
+import { setToken, signOut } from "@/src/store/authSlice";
 import { authAPI } from "@/src/services/api";
 
 interface ProtectedRouteProps {
@@ -42,16 +42,20 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
         // Validate stored token
         const storedToken = await authAPI.getStoredToken();
         if (!storedToken) {
-          console.log("🔒 No stored token found, logging out");
-          dispatch(signOut());
-          router.replace("/(auth)/signin");
+          try {
+            // Reruns this effect with the refreshed token
+            dispatch(setToken(await authAPI.refreshSession()));
+          } catch {
+            console.log("🔒 No stored token found, logging out");
+            dispatch(signOut());
+            router.replace("/(auth)/signin");
+          }
           return;
         }
 
+        // A background refresh rotated the token; adopt the stored one
         if (storedToken !== token) {
-          console.log("🔒 Token mismatch detected, logging out");
-          dispatch(signOut());
-          router.replace("/(auth)/signin");
+          dispatch(setToken(storedToken));
           return;
         }
 
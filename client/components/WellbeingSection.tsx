@@ -0,0 +1,496 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from "react-native";
+import { Smile, Check } from "lucide-react-native";
+import { useLanguage } from "@/src/i18n/context/LanguageContext";
+import {
+  useCheckIns,
+  useRecordCheckIn,
+  useWellbeingInsights,
+} from "@/hooks/useQueries";
+import { CheckInPeriod, CheckInRatings } from "@/src/services/api";
+import { getLocalDateKey } from "@/src/utils/date";
+
+type RatingField = "mood" | "energy" | "hunger" | "digestion" | "sleep_quality";
+
+interface Label {
+  en: string;
+  he: string;
+}
+
+interface RatingFieldInfo extends Label {
+  key: RatingField;
+  // What 1 and 5 mean
+  low: Label;
+  high: Label;
+}
+
+const RATING_FIELDS: RatingFieldInfo[] = [
+  {
+    key: "mood",
+    en: "Mood",
+    he: "מצב רוח",
+    low: { en: "Low", he: "ירוד" },
+    high: { en: "Great", he: "מצוין" },
+  },
+  {
+    key: "energy",
+    en: "Energy",
+    he: "אנרגיה",
+    low: { en: "Drained", he: "מותש" },
+    high: { en: "Energized", he: "מלא אנרגיה" },
+  },
+  {
+    key: "hunger",
+    en: "Hunger",
+    he: "רעב",
+    low: { en: "Not hungry", he: "לא רעב" },
+    high: { en: "Starving", he: "רעב מאוד" },
+  },
+  {
+    key: "digestion",
+    en: "Digestion (optional)",
+    he: "עיכול (לא חובה)",
+    low: { en: "Uncomfortable", he: "לא נוח" },
+    high: { en: "Comfortable", he: "נוח" },
+  },
+  {
+    key: "sleep_quality",
+    en: "Last night's sleep (optional)",
+    he: "איכות השינה (לא חובה)",
+    low: { en: "Poor", he: "גרועה" },
+    high: { en: "Great", he: "מצוינת" },
+  },
+];
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+// Matches the server's split of the day
+function currentPeriod(date: Date = new Date()): CheckInPeriod {
+  const hour = date.getHours();
+  if (hour >= 18) return "EVENING";
+  if (hour >= 12) return "AFTERNOON";
+  return "MORNING";
+}
+
+export default function WellbeingSection() {
+  const { language } = useLanguage();
+  const isRTL = language === "he";
+
+  const { data: checkIns = [] } = useCheckIns();
+  const { data: insights } = useWellbeingInsights(60);
+  const recordCheckIn = useRecordCheckIn();
+
+  const period = currentPeriod();
+  const today = getLocalDateKey();
+  const existing = checkIns.find(
+    (checkIn) => checkIn.date === today && checkIn.period === period
+  );
+
+  const [values, setValues] = useState<Partial<Record<RatingField, number>>>(
+    {}
+  );
+  const [note, setNote] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const texts = {
+    title: isRTL ? "איך אתם מרגישים?" : "How are you feeling?",
+    period: {
+      MORNING: isRTL ? "בוקר" : "This morning",
+      AFTERNOON: isRTL ? "אחר הצהריים" : "This afternoon",
+      EVENING: isRTL ? "ערב" : "This evening",
+    }[period],
+    alreadyChecked: isRTL
+      ? "כבר עשיתם צ'ק-אין, שמירה תעדכן אותו"
+      : "Already checked in; saving updates it",
+    notePlaceholder: isRTL ? "הערה (לא חובה)" : "Note (optional)",
+    save: isRTL ? "שמירה" : "Check in",
+    saved: isRTL ? "נשמר" : "Saved",
+    required: isRTL
+      ? "יש לדרג מצב רוח, אנרגיה ורעב"
+      : "Rate mood, energy and hunger",
+    error: isRTL ? "השמירה נכשלה" : "Couldn't save",
+    insightsTitle: isRTL ? "מה משפיע עליכם" : "What moves how you feel",
+    notEnough: isRTL
+      ? "עשו צ'ק-אין במשך שבוע לפחות כדי לראות קשרים לתזונה ולפעילות"
+      : "Check in for at least a week to see links with food and activity",
+    checkInDays: isRTL ? "ימי צ'ק-אין" : "Days checked in",
+    happyDays: isRTL ? "ימים שמחים" : "Happy days",
+    energyDays: isRTL ? "ימי אנרגיה" : "High energy days",
+    breakfast: (threshold: number, high: number, lower: number) =>
+      isRTL
+        ? `אנרגיה אחר הצהריים: ${high}/5 אחרי ארוחת בוקר עם ${threshold} גרם חלבון ומעלה, ${lower}/5 בשאר הימים`
+        : `Afternoon energy: ${high}/5 after a breakfast with ${threshold}g+ protein, ${lower}/5 otherwise`,
+    moves: (factor: string, outcome: string, positive: boolean) =>
+      isRTL
+        ? `${outcome} ${positive ? "עולה" : "יורד"} כש${factor} עולה`
+        : `${outcome} tends to ${positive ? "rise" : "fall"} with ${factor.toLowerCase()}`,
+    previousDay: isRTL ? "(יום קודם)" : "(previous day)",
+    caveat: isRTL
+      ? "קשר סטטיסטי בלבד, לא בהכרח סיבה ותוצאה"
+      : "Patterns only; they don't prove cause and effect",
+  };
+
+  const fields = RATING_FIELDS.filter(
+    (field) => field.key !== "sleep_quality" || period === "MORNING"
+  );
+
+  const notableLinks = useMemo(
+    () =>
+      (insights?.correlations ?? [])
+        .filter((link) => link.strength !== "weak")
+        .slice(0, 3),
+    [insights]
+  );
+
+  const setRating = (field: RatingField, rating: number) => {
+    setSaved(false);
+    setFormError(null);
+    setValues((prev) => ({ ...prev, [field]: rating }));
+  };
+
+  const handleSave = async () => {
+    const { mood, energy, hunger, digestion, sleep_quality } = values;
+    if (!mood || !energy || !hunger) {
+      setFormError(texts.required);
+      return;
+    }
+
+    const input: CheckInRatings = {
+      mood,
+      energy,
+      hunger,
+      digestion: digestion ?? null,
+      sleep_quality: sleep_quality ?? null,
+      note: note.trim() || null,
+    };
+
+    try {
+      await recordCheckIn.mutateAsync(input);
+      setSaved(true);
+      setValues({});
+      setNote("");
+    } catch (error: any) {
+      console.error("💥 Check-in save error:", error);
+      setFormError(error?.response?.data?.error || texts.error);
+    }
+  };
+
+  const breakfast = insights?.high_protein_breakfast;
+
+  return (
+    <View style={styles.section}>
+      <View style={[styles.header, isRTL && styles.rowReverse]}>
+        <Text style={styles.sectionTitle}>{texts.title}</Text>
+        <Text style={styles.periodLabel}>{texts.period}</Text>
+      </View>
+
+      <View style={styles.card}>
+        {existing && !saved && (
+          <Text style={[styles.hint, isRTL && styles.rtlText]}>
+            {texts.alreadyChecked}
+          </Text>
+        )}
+
+        {fields.map((field) => (
+          <View key={field.key} style={styles.ratingRow}>
+            <Text style={[styles.ratingLabel, isRTL && styles.rtlText]}>
+              {isRTL ? field.he : field.en}
+            </Text>
+            <View style={[styles.ratingButtons, isRTL && styles.rowReverse]}>
+              {RATINGS.map((rating) => (
+                <TouchableOpacity
+                  key={rating}
+                  style={[
+                    styles.ratingButton,
+                    values[field.key] === rating && styles.ratingButtonActive,
+                  ]}
+                  onPress={() => setRating(field.key, rating)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${isRTL ? field.he : field.en} ${rating}`}
+                >
+                  <Text
+                    style={[
+                      styles.ratingText,
+                      values[field.key] === rating && styles.ratingTextActive,
+                    ]}
+                  >
+                    {rating}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={[styles.scaleLabels, isRTL && styles.rowReverse]}>
+              <Text style={styles.scaleText}>
+                {isRTL ? field.low.he : field.low.en}
+              </Text>
+              <Text style={styles.scaleText}>
+                {isRTL ? field.high.he : field.high.en}
+              </Text>
+            </View>
+          </View>
+        ))}
+
+        <TextInput
+          style={[styles.input, isRTL && styles.rtlText]}
+          value={note}
+          onChangeText={setNote}
+          placeholder={texts.notePlaceholder}
+          placeholderTextColor="#CBD5E1"
+          maxLength={500}
+        />
+
+        {formError && (
+          <Text style={[styles.formError, isRTL && styles.rtlText]}>
+            {formError}
+          </Text>
+        )}
+
+        <TouchableOpacity
+          style={styles.saveButton}
+          onPress={handleSave}
+          disabled={recordCheckIn.isPending}
+        >
+          {recordCheckIn.isPending ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : saved ? (
+            <View style={[styles.savedRow, isRTL && styles.rowReverse]}>
+              <Check size={18} color="#FFFFFF" strokeWidth={2.5} />
+              <Text style={styles.saveButtonText}>{texts.saved}</Text>
+            </View>
+          ) : (
+            <Text style={styles.saveButtonText}>{texts.save}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={[styles.cardTitle, isRTL && styles.rtlText]}>
+          {texts.insightsTitle}
+        </Text>
+
+        <View style={[styles.statsRow, isRTL && styles.rowReverse]}>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{insights?.check_in_days ?? 0}</Text>
+            <Text style={styles.statLabel}>{texts.checkInDays}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{insights?.happyDays ?? 0}</Text>
+            <Text style={styles.statLabel}>{texts.happyDays}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>
+              {insights?.highEnergyDays ?? 0}
+            </Text>
+            <Text style={styles.statLabel}>{texts.energyDays}</Text>
+          </View>
+        </View>
+
+        {breakfast?.difference != null && (
+          <Text style={[styles.insight, isRTL && styles.rtlText]}>
+            {texts.breakfast(
+              breakfast.threshold_g,
+              breakfast.high_protein.average_afternoon_energy ?? 0,
+              breakfast.lower_protein.average_afternoon_energy ?? 0
+            )}
+          </Text>
+        )}
+
+        {notableLinks.map((link) => (
+          <Text
+            key={`${link.outcome}-${link.factor}`}
+            style={[styles.insight, isRTL && styles.rtlText]}
+          >
+            {texts.moves(link.factor_label, link.outcome_label, link.r > 0)}{" "}
+            {link.previous_day ? `${texts.previousDay} ` : ""}· r = {link.r}
+          </Text>
+        ))}
+
+        {notableLinks.length === 0 && breakfast?.difference == null ? (
+          <View style={styles.empty}>
+            <Smile size={32} color="#BDC3C7" />
+            <Text style={styles.emptyText}>{texts.notEnough}</Text>
+          </View>
+        ) : (
+          <Text style={[styles.caveat, isRTL && styles.rtlText]}>
+            {texts.caveat}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: 20,
+    marginBottom: 32,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 24,
+    fontWeight: "700",
+    color: "#0F172A",
+    letterSpacing: -0.3,
+  },
+  periodLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#16A085",
+  },
+  card: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 24,
+    padding: 24,
+    marginBottom: 16,
+    shadowColor: "#1E293B",
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.08,
+    shadowRadius: 20,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#0F172A",
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 13,
+    color: "#64748B",
+    marginBottom: 12,
+  },
+  ratingRow: {
+    marginBottom: 16,
+  },
+  ratingLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#475569",
+    marginBottom: 8,
+  },
+  ratingButtons: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  ratingButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: "#F1F5F9",
+    alignItems: "center",
+  },
+  ratingButtonActive: {
+    backgroundColor: "#16A085",
+  },
+  ratingText: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#475569",
+  },
+  ratingTextActive: {
+    color: "#FFFFFF",
+  },
+  scaleLabels: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 4,
+  },
+  scaleText: {
+    fontSize: 11,
+    color: "#94A3B8",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#E2E8F0",
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    color: "#0F172A",
+    marginBottom: 12,
+  },
+  formError: {
+    color: "#E74C3C",
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  saveButton: {
+    backgroundColor: "#16A085",
+    borderRadius: 14,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  savedRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  statsRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  stat: {
+    alignItems: "center",
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: "800",
+    color: "#0F172A",
+    marginBottom: 4,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: "#64748B",
+    textAlign: "center",
+    fontWeight: "600",
+  },
+  insight: {
+    fontSize: 14,
+    color: "#334155",
+    lineHeight: 20,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#F1F5F9",
+  },
+  caveat: {
+    fontSize: 12,
+    color: "#94A3B8",
+    marginTop: 8,
+  },
+  empty: {
+    alignItems: "center",
+    paddingVertical: 24,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#64748B",
+    textAlign: "center",
+  },
+  rowReverse: {
+    flexDirection: "row-reverse",
+  },
+  rtlText: {
+    textAlign: "right",
+  },
+});
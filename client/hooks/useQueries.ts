@@ -9,7 +9,13 @@ import {
   authAPI,
   calendarAPI,
   userAPI,
-  api,
+  dailyGoalsAPI,
+  bodyMetricsAPI,
+  checkInsAPI,
+  foodsAPI,
+  BodyMeasurementFields,
+  CheckInPeriod,
+  CheckInRatings,
 } from "@/src/services/api";
 import { MealAnalysisData, Meal } from "@/src/types";
 import AsyncStorage from "@react-native-async-storage/async-storage";
@@ -28,6 +34,13 @@ export const queryKeys = {
   tooltips: ["tooltips"] as const,
   statistics: (timeRange: string, start?: string, end?: string) =>
     ["statistics", timeRange, start, end] as const,
+  dailyGoals: ["dailyGoals"] as const,
+  goalHistory: ["goalHistory"] as const,
+  bodyMeasurements: ["bodyMeasurements"] as const,
+  weightTrend: (days: number) => ["weightTrend", days] as const,
+  checkIns: ["checkIns"] as const,
+  wellbeingInsights: (days: number) => ["wellbeingInsights", days] as const,
+  foodSearch: (query: string) => ["foodSearch", query] as const,
 } as const;
 
 // Tooltip hooks
@@ -462,9 +475,105 @@ export const useUserProfile = () => {
 
 export const useDailyGoals = () => {
   return useQuery({
-    queryKey: ["dailyGoals"],
-    queryFn: () => api.get("/daily-goals"),
+    queryKey: queryKeys.dailyGoals,
+    queryFn: () => dailyGoalsAPI.getGoals(),
     staleTime: 10 * 60 * 1000, // 10 minutes
     gcTime: 30 * 60 * 1000, // 30 minutes
   });
 };
+
+export const useGoalHistory = (limit: number = 20) => {
+  return useQuery({
+    queryKey: [...queryKeys.goalHistory, limit],
+    queryFn: () => dailyGoalsAPI.getHistory(limit),
+    staleTime: 30 * 60 * 1000, // 30 minutes
+  });
+};
+
+// Body metrics hooks
+export const useBodyMeasurements = () => {
+  return useQuery({
+    queryKey: queryKeys.bodyMeasurements,
+    queryFn: () => bodyMetricsAPI.getMeasurements(),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const useWeightTrend = (days: number = 90) => {
+  return useQuery({
+    queryKey: queryKeys.weightTrend(days),
+    queryFn: () => bodyMetricsAPI.getTrend(days),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+function useInvalidateBodyMetrics() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.bodyMeasurements });
+    queryClient.invalidateQueries({ queryKey: ["weightTrend"] });
+  };
+}
+
+export function useRecordMeasurement() {
+  const invalidate = useInvalidateBodyMetrics();
+
+  return useMutation({
+    mutationFn: (input: BodyMeasurementFields & { date: string }) =>
+      bodyMetricsAPI.recordMeasurement(input),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteMeasurement() {
+  const invalidate = useInvalidateBodyMetrics();
+
+  return useMutation({
+    mutationFn: (measurementId: string) =>
+      bodyMetricsAPI.deleteMeasurement(measurementId),
+    onSuccess: invalidate,
+  });
+}
+
+export const useCheckIns = () => {
+  return useQuery({
+    queryKey: queryKeys.checkIns,
+    queryFn: () => checkInsAPI.getCheckIns(),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const useWellbeingInsights = (days: number = 60) => {
+  return useQuery({
+    queryKey: queryKeys.wellbeingInsights(days),
+    queryFn: () => checkInsAPI.getInsights(days),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+// Check-ins feed the wellbeing counts on the statistics screen too
+export function useRecordCheckIn() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (
+      input: CheckInRatings & { date?: string; period?: CheckInPeriod }
+    ) => checkInsAPI.recordCheckIn(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.checkIns });
+      queryClient.invalidateQueries({ queryKey: ["wellbeingInsights"] });
+      queryClient.invalidateQueries({ queryKey: ["statistics"] });
+    },
+  });
+}
+
+// The food table is static, so results can be kept for the whole session
+export const useFoodSearch = (query: string) => {
+  const trimmed = query.trim();
+  return useQuery({
+    queryKey: queryKeys.foodSearch(trimmed.toLowerCase()),
+    queryFn: () => foodsAPI.search(trimmed),
+    enabled: trimmed.length >= 2,
+    staleTime: Infinity,
+  });
+};
@@ -2,7 +2,7 @@ import { useEffect, useCallback, useRef } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { useRouter } from 'expo-router';
 import { RootState, AppDispatch } from '@/src/store';
-import { signOut } from '@/src/store/authSlice';
+import { setToken, signOut } from '@/src/store/authSlice';
 import { authAPI } from '@/src/services/api';
 
 export const useTokenValidation = () => {
@@ -67,12 +67,19 @@ export const useTokenValidation = () => {
         const storedToken = await authAPI.getStoredToken();
         
         if (!storedToken) {
-          await performLogout('Token missing from storage');
+          // The access token is gone but the session may still be alive
+          try {
+            const refreshedToken = await authAPI.refreshSession();
+            dispatch(setToken(refreshedToken));
+          } catch {
+            await performLogout('Token missing from storage');
+          }
           return;
         }
         
+        // A background refresh rotated the token; storage has the current one
         if (storedToken !== token) {
-          await performLogout('Token mismatch detected');
+          dispatch(setToken(storedToken));
           return;
         }
 
@@ -97,7 +104,7 @@ export const useTokenValidation = () => {
       console.error('🔒 Token validation error:', error);
       await performLogout('Token validation failed');
     }
-  }, [token, isAuthenticated, performLogout, router]);
+  }, [token, isAuthenticated, performLogout, router, dispatch]);
 
   useEffect(() => {
     // Initial validation
@@ -2,6 +2,7 @@ import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
 import { Platform } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as SecureStore from "expo-secure-store";
+import type { MealType } from "../types";
 
 // Enhanced API configuration with better timeout and retry logic
 const API_CONFIG = {
@@ -48,6 +49,7 @@ const retryRequest = async (
       error.response?.status === 401 ||
       error.response?.status === 403 ||
       error.response?.status === 422 ||
+      error.response?.status === 429 ||
       error.name === "AbortError"
     ) {
       throw error;
@@ -66,29 +68,186 @@ const retryRequest = async (
   }
 };
 
+// The server buckets meals, water and goals into days in this zone
+const getDeviceTimeZone = (): string | undefined => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const getAuthToken = async (): Promise<string | null> => {
+  // Get token based on platform
+  if (Platform.OS === "web") {
+    return localStorage.getItem("auth_token");
+  }
+
+  try {
+    return await SecureStore.getItemAsync("auth_token_secure");
+  } catch (error) {
+    console.warn("Failed to get token from SecureStore:", error);
+    // Fallback to AsyncStorage
+    return AsyncStorage.getItem("auth_token");
+  }
+};
+
+const getRefreshToken = async (): Promise<string | null> => {
+  // Web keeps its refresh token in an httpOnly cookie the server reads
+  if (Platform.OS === "web") {
+    return null;
+  }
+
+  try {
+    return await SecureStore.getItemAsync("refresh_token_secure");
+  } catch (error) {
+    console.warn("Failed to get refresh token from SecureStore:", error);
+    return null;
+  }
+};
+
+export const storeAuthTokens = async (token: string, refreshToken?: string) => {
+  if (Platform.OS === "web") {
+    localStorage.setItem("auth_token", token);
+    return;
+  }
+
+  try {
+    await SecureStore.setItemAsync("auth_token_secure", token);
+    if (refreshToken) {
+      await SecureStore.setItemAsync("refresh_token_secure", refreshToken);
+    }
+  } catch (error) {
+    // The refresh token stays out of AsyncStorage; without SecureStore the
+    // user signs in again once the access token expires
+    console.warn("Failed to store tokens in SecureStore:", error);
+    await AsyncStorage.setItem("auth_token", token);
+  }
+};
+
+export const clearAuthTokens = async () => {
+  try {
+    if (Platform.OS === "web") {
+      localStorage.removeItem("auth_token");
+    } else {
+      await SecureStore.deleteItemAsync("auth_token_secure");
+      await SecureStore.deleteItemAsync("refresh_token_secure");
+      await AsyncStorage.removeItem("auth_token");
+    }
+  } catch (clearError) {
+    console.warn("Failed to clear auth tokens:", clearError);
+  }
+};
+
+// The store subscribes so its copy of the token follows refreshes, and so it
+// signs out (null) once the session can't be refreshed any more
+type AuthTokenListener = (token: string | null) => void;
+const authTokenListeners = new Set<AuthTokenListener>();
+
+export const onAuthTokenChange = (listener: AuthTokenListener) => {
+  authTokenListeners.add(listener);
+  return () => {
+    authTokenListeners.delete(listener);
+  };
+};
+
+const notifyAuthTokenChange = (token: string | null) => {
+  authTokenListeners.forEach((listener) => listener(token));
+};
+
+// Requests that get a 401 while a refresh is in flight wait here, then are
+// replayed with the new token (or fail with the refresh error)
+let isRefreshing = false;
+let refreshQueue: {
+  resolve: (token: string) => void;
+  reject: (error: unknown) => void;
+}[] = [];
+
+const processRefreshQueue = (error: unknown, token: string | null) => {
+  refreshQueue.forEach(({ resolve, reject }) =>
+    token ? resolve(token) : reject(error)
+  );
+  refreshQueue = [];
+};
+
+const requestTokenRefresh = async (): Promise<string> => {
+  const refreshToken = await getRefreshToken();
+  if (Platform.OS !== "web" && !refreshToken) {
+    throw new Error("No refresh token stored");
+  }
+
+  // Plain axios so the refresh call never goes through the interceptors below
+  const response = await axios.post(
+    `${getApiBaseUrl()}/auth/refresh`,
+    refreshToken ? { refresh_token: refreshToken } : {},
+    { timeout: 10000, withCredentials: Platform.OS === "web" }
+  );
+
+  await AuthAPI.storeSession(response.data);
+  notifyAuthTokenChange(response.data.token);
+  return response.data.token;
+};
+
+// Rotates the token pair; concurrent callers share one refresh
+const refreshSession = (): Promise<string> => {
+  if (isRefreshing) {
+    return new Promise((resolve, reject) => {
+      refreshQueue.push({ resolve, reject });
+    });
+  }
+
+  isRefreshing = true;
+  return requestTokenRefresh()
+    .then(
+      (token) => {
+        processRefreshQueue(null, token);
+        return token;
+      },
+      (error) => {
+        processRefreshQueue(error, null);
+        throw error;
+      }
+    )
+    .finally(() => {
+      isRefreshing = false;
+    });
+};
+
+// Only a refused refresh ends the session; being offline or a server
+// hiccup shouldn't sign anyone out halfway through logging a meal
+const isRefreshRefused = (refreshError: any) =>
+  refreshError.response?.status === 401 || !refreshError.request;
+
+const endSession = async () => {
+  console.log("🔒 Session could not be refreshed, clearing auth data");
+  await clearAuthTokens();
+  notifyAuthTokenChange(null);
+
+  // Redirect to login if we have access to router
+  if (Platform.OS === "web" && typeof window !== "undefined") {
+    window.location.href = "/signin";
+  }
+};
+
+// These answer 401 for bad credentials, not for an expired access token
+const AUTH_ENDPOINTS_WITHOUT_REFRESH =
+  /\/auth\/(signin|signup|refresh|mfa\/verify|verify-email)/;
+
 // Enhanced request interceptor with better token handling
 api.interceptors.request.use(
   async (config) => {
     try {
-      let token: string | null = null;
-
-      // Get token based on platform
-      if (Platform.OS === "web") {
-        token = localStorage.getItem("auth_token");
-      } else {
-        try {
-          token = await SecureStore.getItemAsync("auth_token_secure");
-        } catch (error) {
-          console.warn("Failed to get token from SecureStore:", error);
-          // Fallback to AsyncStorage
-          token = await AsyncStorage.getItem("auth_token");
-        }
-      }
+      const token = await getAuthToken();
 
       if (token) {
         config.headers.Authorization = `Bearer ${token}`;
       }
 
+      const timeZone = getDeviceTimeZone();
+      if (timeZone) {
+        config.headers["X-Time-Zone"] = timeZone;
+      }
+
       // Add request timestamp for debugging
       config.metadata = { startTime: Date.now() };
       
@@ -116,24 +275,25 @@ api.interceptors.response.use(
     const duration = Date.now() - (error.config?.metadata?.startTime || 0);
     console.error(`❌ API Error: ${error.config?.url} (${duration}ms)`, error.response?.status);
 
-    // Handle token expiration
-    if (error.response?.status === 401) {
-      console.log("🔒 Token expired, clearing auth data");
-      
+    // Handle token expiration: refresh once, then replay the request
+    const originalRequest = error.config;
+    if (
+      error.response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retry &&
+      !AUTH_ENDPOINTS_WITHOUT_REFRESH.test(originalRequest.url || "")
+    ) {
+      originalRequest._retry = true;
+
       try {
-        if (Platform.OS === "web") {
-          localStorage.removeItem("auth_token");
-        } else {
-          await SecureStore.deleteItemAsync("auth_token_secure");
-          await AsyncStorage.removeItem("auth_token");
+        console.log("🔄 Access token expired, refreshing session");
+        const token = await refreshSession();
+        originalRequest.headers.Authorization = `Bearer ${token}`;
+        return api(originalRequest);
+      } catch (refreshError) {
+        if (isRefreshRefused(refreshError)) {
+          await endSession();
         }
-      } catch (clearError) {
-        console.warn("Failed to clear auth tokens:", clearError);
-      }
-
-      // Redirect to login if we have access to router
-      if (typeof window !== "undefined" && window.location) {
-        window.location.href = "/signin";
       }
     }
 
@@ -141,6 +301,29 @@ api.interceptors.response.use(
   }
 );
 
+export interface AuthSession {
+  session_id: string;
+  device: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expiresAt: string;
+  // The session making the request
+  current: boolean;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  recovery_codes_remaining: number;
+}
+
+export interface MfaSetup {
+  secret: string;
+  // Encode as a QR code for the authenticator app
+  otpauth_url: string;
+}
+
 // Enhanced API service classes with better error handling and caching
 export class AuthAPI {
   private static tokenCache: string | null = null;
@@ -153,18 +336,101 @@ export class AuthAPI {
 
   static async signIn(data: any) {
     const response = await retryRequest(() => api.post("/auth/signin", data));
-    
-    // Cache token for faster subsequent requests
-    if (response.data.token) {
-      this.tokenCache = response.data.token;
-      this.tokenCacheTime = Date.now();
-    }
-    
+    await this.storeSession(response.data);
+    return response;
+  }
+
+  // Keeps both tokens from a sign-in or refresh, and caches the access token
+  static async storeSession(data: {
+    token?: string;
+    refresh_token?: string;
+  }) {
+    if (!data.token) return;
+
+    await storeAuthTokens(data.token, data.refresh_token);
+    this.tokenCache = data.token;
+    this.tokenCacheTime = Date.now();
+  }
+
+  // Exchanges the refresh token for a new pair; resolves to the access token
+  static async refreshSession(): Promise<string> {
+    return refreshSession();
+  }
+
+  // Second step of signIn when it answers with mfa_required
+  static async verifyMfa(mfaToken: string, code: string) {
+    const response = await api.post("/auth/mfa/verify", {
+      mfa_token: mfaToken,
+      code,
+    });
+    await this.storeSession(response.data);
     return response;
   }
 
   static async verifyEmail(email: string, code: string) {
-    return retryRequest(() => api.post("/auth/verify-email", { email, code }));
+    const response = await retryRequest(() =>
+      api.post("/auth/verify-email", { email, code })
+    );
+    await this.storeSession(response.data);
+    return response;
+  }
+
+  static async getMfaStatus(): Promise<MfaStatus> {
+    const response = await retryRequest(() =>
+      api.get("/auth/mfa", { timeout: 10000 })
+    );
+    return response.data.data;
+  }
+
+  static async setupMfa(): Promise<MfaSetup> {
+    const response = await api.post("/auth/mfa/setup");
+    return response.data.data;
+  }
+
+  static async enableMfa(code: string): Promise<{ recovery_codes: string[] }> {
+    const response = await api.post("/auth/mfa/enable", { code });
+    return response.data.data;
+  }
+
+  static async disableMfa(password: string, code: string) {
+    const response = await api.post("/auth/mfa/disable", { password, code });
+    return response.data;
+  }
+
+  static async regenerateRecoveryCodes(
+    code: string
+  ): Promise<{ recovery_codes: string[] }> {
+    const response = await api.post("/auth/mfa/recovery-codes", { code });
+    return response.data.data;
+  }
+
+  static async getSessions(): Promise<AuthSession[]> {
+    const response = await retryRequest(() =>
+      api.get("/auth/sessions", { timeout: 10000 })
+    );
+    return response.data.data;
+  }
+
+  static async revokeSession(
+    sessionId: string
+  ): Promise<{ current: boolean }> {
+    const response = await retryRequest(() =>
+      api.delete(`/auth/sessions/${sessionId}`, { timeout: 10000 })
+    );
+    return response.data.data;
+  }
+
+  // Signs out every other device; includeCurrent signs out this one too
+  static async revokeSessions(
+    includeCurrent: boolean = false
+  ): Promise<{ revoked: number }> {
+    const response = await retryRequest(() =>
+      api.delete("/auth/sessions", {
+        params: { include_current: includeCurrent },
+        timeout: 10000,
+      })
+    );
+    return response.data.data;
   }
 
   static async signOut() {
@@ -176,17 +442,7 @@ export class AuthAPI {
       // Clear cache regardless of API response
       this.tokenCache = null;
       this.tokenCacheTime = 0;
-      
-      if (Platform.OS === "web") {
-        localStorage.removeItem("auth_token");
-      } else {
-        try {
-          await SecureStore.deleteItemAsync("auth_token_secure");
-        } catch (error) {
-          console.warn("Failed to clear SecureStore:", error);
-        }
-        await AsyncStorage.removeItem("auth_token");
-      }
+      await clearAuthTokens();
     }
   }
 
@@ -227,6 +483,20 @@ export class AuthAPI {
   }
 }
 
+// A food database pick (food_id) or a named item with the user's numbers
+export interface MealIngredientInput {
+  name?: string;
+  food_id?: string;
+  serving_size_g?: number;
+  calories?: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
+  sugar?: number;
+  sodium_mg?: number;
+}
+
 export class NutritionAPI {
   private static requestQueue: Map<string, Promise<any>> = new Map();
 
@@ -276,6 +546,34 @@ export class NutritionAPI {
     }
   }
 
+  // Analyze a meal from a typed description or a voice transcript
+  static async analyzeMealText(
+    description: string,
+    updateText?: string,
+    editedIngredients: any[] = [],
+    language: string = "english",
+    source: "text" | "voice" = "text",
+    options: AxiosRequestConfig = {}
+  ) {
+    const response = await retryRequest(() =>
+      api.post(
+        "/nutrition/analyze-text",
+        {
+          description,
+          updateText,
+          editedIngredients,
+          language,
+          source,
+        },
+        {
+          timeout: 45000,
+          ...options,
+        }
+      )
+    );
+    return response.data;
+  }
+
   static async saveMeal(mealData: any, imageBase64?: string) {
     return retryRequest(() =>
       api.post("/nutrition/save", { mealData, imageBase64 }, {
@@ -335,6 +633,20 @@ export class NutritionAPI {
     );
   }
 
+  static async getFavoriteMeals(
+    page = 1,
+    limit = 20,
+    sortBy: "recent" | "taste" | "satiety" | "energy" | "heaviness" = "recent"
+  ) {
+    const response = await retryRequest(() =>
+      api.get("/nutrition/meals/favorites", {
+        params: { page, limit, sortBy },
+        timeout: 15000,
+      })
+    );
+    return response.data;
+  }
+
   static async duplicateMeal(mealId: string, newDate?: string) {
     return retryRequest(() =>
       api.post(`/nutrition/meals/${mealId}/duplicate`, { newDate }, {
@@ -350,8 +662,91 @@ export class NutritionAPI {
       })
     );
   }
+
+  // Ingredient-level edits of a saved meal; each returns the updated meal
+  // with recomputed totals
+  static async addMealIngredient(mealId: string, ingredient: MealIngredientInput) {
+    const response = await retryRequest(() =>
+      api.post(`/nutrition/meals/${mealId}/ingredients`, ingredient, {
+        timeout: 10000,
+      })
+    );
+    return response.data;
+  }
+
+  static async updateMealIngredient(
+    mealId: string,
+    index: number,
+    changes: MealIngredientInput & { portion_multiplier?: number }
+  ) {
+    const response = await retryRequest(() =>
+      api.put(`/nutrition/meals/${mealId}/ingredients/${index}`, changes, {
+        timeout: 10000,
+      })
+    );
+    return response.data;
+  }
+
+  static async removeMealIngredient(mealId: string, index: number) {
+    const response = await retryRequest(() =>
+      api.delete(`/nutrition/meals/${mealId}/ingredients/${index}`, {
+        timeout: 10000,
+      })
+    );
+    return response.data;
+  }
+
+  static async scaleMeal(mealId: string, multiplier: number) {
+    const response = await retryRequest(() =>
+      api.post(`/nutrition/meals/${mealId}/scale`, { multiplier }, {
+        timeout: 10000,
+      })
+    );
+    return response.data;
+  }
+}
+
+// Something the assistant offered to do (log a meal, add water...) that
+// only runs after the user confirms it
+export interface ChatAction {
+  action_id: string;
+  tool: string;
+  summary: string;
+  status: "PENDING" | "CONFIRMED" | "REJECTED" | "FAILED" | "EXPIRED";
+  result?: any;
+  error?: string | null;
+}
+
+export interface ChatStreamHandlers {
+  onDelta: (text: string) => void;
+  onDone: (result: {
+    messageId: string;
+    response: string;
+    interrupted: boolean;
+    actions: ChatAction[];
+  }) => void;
+  onError: (error: Error & { status?: number }) => void;
 }
 
+// Splits a Server-Sent Events buffer into complete events, returning the
+// unfinished tail so it can be prepended to the next chunk
+const parseServerSentEvents = (buffer: string) => {
+  const blocks = buffer.split("\n\n");
+  const rest = blocks.pop() ?? "";
+
+  const events = blocks.map((block) => {
+    let event = "message";
+    let data = "";
+    block.split("\n").forEach((line) => {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data += line.slice(5).trim();
+    });
+    return { event, data };
+  });
+
+  return { events, rest };
+};
+
 export class ChatAPI {
   private static messageCache: Map<string, any> = new Map();
   private static readonly CACHE_DURATION = 2 * 60 * 1000; // 2 minutes
@@ -382,8 +777,12 @@ export class ChatAPI {
       )
     );
 
-    // Cache successful responses
-    if (response.data.success) {
+    // Cache successful responses; proposed actions are one-off, so replies
+    // carrying them are not reused
+    if (
+      response.data.success &&
+      !response.data.response?.actions?.length
+    ) {
       this.messageCache.set(cacheKey, {
         response: response.data,
         timestamp: Date.now(),
@@ -399,6 +798,137 @@ export class ChatAPI {
     return response.data;
   }
 
+  /**
+   * Sends a message to the streaming chat endpoint and reports the reply as
+   * it is generated. Uses XMLHttpRequest because React Native's fetch can't
+   * read a response body incrementally, so it also refreshes an expired
+   * access token itself, once, the way the axios interceptor does. Call the
+   * returned abort() to stop generation; the server keeps the partial reply.
+   */
+  static streamMessage(
+    message: string,
+    language: string = "english",
+    handlers: ChatStreamHandlers
+  ) {
+    const xhr = new XMLHttpRequest();
+    let received = 0;
+    let buffer = "";
+    let finished = false;
+    let retried = false;
+
+    const finish = (callback: () => void) => {
+      if (finished) return;
+      finished = true;
+      callback();
+    };
+
+    const consume = () => {
+      if (xhr.status !== 200) return;
+
+      buffer += xhr.responseText.slice(received);
+      received = xhr.responseText.length;
+
+      const { events, rest } = parseServerSentEvents(buffer);
+      buffer = rest;
+
+      events.forEach(({ event, data }) => {
+        const payload = data ? JSON.parse(data) : {};
+        if (event === "delta") {
+          handlers.onDelta(payload.text);
+        } else if (event === "done") {
+          finish(() => handlers.onDone(payload));
+        } else if (event === "error") {
+          finish(() => handlers.onError(new Error(payload.error)));
+        }
+      });
+    };
+
+    xhr.onprogress = consume;
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState < XMLHttpRequest.LOADING) return;
+      consume();
+
+      if (xhr.readyState === XMLHttpRequest.DONE && xhr.status !== 0) {
+        let errorMessage = "Chat stream ended unexpectedly";
+        if (xhr.status !== 200) {
+          try {
+            errorMessage = JSON.parse(xhr.responseText).error || errorMessage;
+          } catch {
+            errorMessage = "Failed to process message";
+          }
+        }
+        const error: Error & { status?: number } = new Error(errorMessage);
+        error.status = xhr.status;
+
+        // The access token ran out while the chat sat idle; nothing was
+        // streamed yet, so send the message again with a fresh one
+        if (xhr.status === 401 && !retried && !finished) {
+          retried = true;
+          console.log("🔄 Access token expired, refreshing session");
+          refreshSession()
+            .then(send)
+            .catch(async (refreshError) => {
+              if (isRefreshRefused(refreshError)) await endSession();
+              finish(() => handlers.onError(error));
+            });
+          return;
+        }
+
+        finish(() => handlers.onError(error));
+      }
+    };
+    xhr.onerror = () =>
+      finish(() => handlers.onError(new Error("Network error")));
+
+    const send = (token: string | null) => {
+      if (finished) return;
+
+      xhr.open("POST", `${getApiBaseUrl()}/chat/message/stream`);
+      xhr.withCredentials = Platform.OS === "web";
+      xhr.setRequestHeader("Content-Type", "application/json");
+      xhr.setRequestHeader("Accept", "text/event-stream");
+      if (token) xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+      const timeZone = getDeviceTimeZone();
+      if (timeZone) xhr.setRequestHeader("X-Time-Zone", timeZone);
+      xhr.send(JSON.stringify({ message, language }));
+    };
+
+    getAuthToken()
+      .then(send)
+      .catch((error) => {
+        console.error("Failed to start chat stream:", error);
+        finish(() =>
+          handlers.onError(
+            error instanceof Error ? error : new Error("Network error")
+          )
+        );
+      });
+
+    return {
+      abort: () => {
+        finished = true;
+        xhr.abort();
+      },
+    };
+  }
+
+  // Not retried: confirming runs the action, which mustn't happen twice
+  static async confirmAction(actionId: string) {
+    const response = await api.post(
+      `/chat/actions/${actionId}/confirm`,
+      {},
+      { timeout: 35000 }
+    );
+    return response.data;
+  }
+
+  static async rejectAction(actionId: string) {
+    const response = await retryRequest(() =>
+      api.post(`/chat/actions/${actionId}/reject`, {}, { timeout: 10000 })
+    );
+    return response.data;
+  }
+
   static async getChatHistory(limit: number = 20, options: AxiosRequestConfig = {}) {
     return retryRequest(() =>
       api.get(`/chat/history?limit=${limit}`, {
@@ -451,17 +981,18 @@ export class UserAPI {
     );
   }
 
-  static async updateSubscription(subscriptionType: string) {
+  static async getUserProfile() {
     return retryRequest(() =>
-      api.put("/user/subscription", { subscription_type: subscriptionType }, {
-        timeout: 15000,
+      api.get("/user/profile", {
+        timeout: 10000,
       })
     );
   }
 
-  static async getUserProfile() {
+  static async getAiUsage(days: number = 30) {
     return retryRequest(() =>
-      api.get("/user/profile", {
+      api.get("/user/usage", {
+        params: { days },
         timeout: 10000,
       })
     );
@@ -547,6 +1078,760 @@ export class CalendarAPI {
   }
 }
 
+export interface CheckoutPaymentMethod {
+  // Provider token from the payment SDK; card details never leave it
+  token: string;
+  brand?: string;
+  last4?: string;
+}
+
+export class BillingAPI {
+  static async getPlans() {
+    const response = await retryRequest(() =>
+      api.get("/billing/plans", { timeout: 10000 })
+    );
+    return response.data;
+  }
+
+  static async getSubscription() {
+    const response = await retryRequest(() =>
+      api.get("/billing/subscription", { timeout: 10000 })
+    );
+    return response.data;
+  }
+
+  static async getQuote(plan: string) {
+    const response = await retryRequest(() =>
+      api.get("/billing/quote", { params: { plan }, timeout: 10000 })
+    );
+    return response.data;
+  }
+
+  // Not retried: a repeated checkout could charge twice
+  static async checkout(plan: string, paymentMethod?: CheckoutPaymentMethod) {
+    const response = await api.post(
+      "/billing/checkout",
+      { plan, paymentMethod },
+      { timeout: 30000 }
+    );
+    return response.data;
+  }
+
+  static async getPayment(paymentId: number) {
+    const response = await retryRequest(() =>
+      api.get(`/billing/payments/${paymentId}`, { timeout: 10000 })
+    );
+    return response.data;
+  }
+
+  static async cancelSubscription() {
+    const response = await retryRequest(() =>
+      api.post("/billing/cancel", {}, { timeout: 15000 })
+    );
+    return response.data;
+  }
+
+  static async getInvoices(page: number = 1, limit: number = 20) {
+    const response = await retryRequest(() =>
+      api.get("/billing/invoices", { params: { page, limit }, timeout: 10000 })
+    );
+    return response.data;
+  }
+}
+
+export interface DailyGoal {
+  id: string;
+  date: string;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  water_ml: number;
+  sodium_mg: number;
+  sugar_g: number;
+}
+
+// A change to the user's targets, with the reason shown to them
+export interface GoalAdjustment {
+  adjustment_id: string;
+  effective_date: string;
+  reason: "QUESTIONNAIRE" | "WEEKLY_REVIEW";
+  previous_calories: number | null;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  estimated_tdee: number;
+  avg_intake_calories: number | null;
+  weight_trend_kg_week: number | null;
+  explanation: string;
+  explanation_he: string;
+  created_at: string;
+}
+
+export class DailyGoalsAPI {
+  static async getGoals(): Promise<DailyGoal> {
+    const response = await retryRequest(() =>
+      api.get("/daily-goals", { timeout: 10000 })
+    );
+    return response.data.data;
+  }
+
+  static async getHistory(limit: number = 20): Promise<GoalAdjustment[]> {
+    const response = await retryRequest(() =>
+      api.get("/daily-goals/history", { params: { limit }, timeout: 10000 })
+    );
+    return response.data.data;
+  }
+}
+
+export interface BodyMeasurementFields {
+  weight_kg?: number | null;
+  body_fat_percentage?: number | null;
+  waist_cm?: number | null;
+  hips_cm?: number | null;
+  chest_cm?: number | null;
+  neck_cm?: number | null;
+  arm_cm?: number | null;
+  thigh_cm?: number | null;
+  notes?: string | null;
+}
+
+export interface BodyMeasurement extends BodyMeasurementFields {
+  measurement_id: string;
+  date: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WeightTrend {
+  points: { date: string; weight_kg: number; trend_kg: number }[];
+  latest_weight_kg: number | null;
+  trend_weight_kg: number | null;
+  weekly_change_kg: number | null;
+  target_weight_kg: number | null;
+  projected_goal_date: string | null;
+}
+
+export class BodyMetricsAPI {
+  static async getMeasurements(
+    from?: string,
+    to?: string
+  ): Promise<BodyMeasurement[]> {
+    const response = await retryRequest(() =>
+      api.get("/body-metrics", { params: { from, to }, timeout: 10000 })
+    );
+    return response.data.data;
+  }
+
+  static async getTrend(days: number = 90): Promise<WeightTrend> {
+    const response = await retryRequest(() =>
+      api.get("/body-metrics/trend", { params: { days }, timeout: 10000 })
+    );
+    return response.data.data;
+  }
+
+  static async recordMeasurement(
+    input: BodyMeasurementFields & { date: string }
+  ): Promise<BodyMeasurement> {
+    const response = await api.post("/body-metrics", input, {
+      timeout: 10000,
+    });
+    return response.data.data;
+  }
+
+  static async updateMeasurement(
+    measurementId: string,
+    input: BodyMeasurementFields & { date?: string }
+  ): Promise<BodyMeasurement> {
+    const response = await api.put(`/body-metrics/${measurementId}`, input, {
+      timeout: 10000,
+    });
+    return response.data.data;
+  }
+
+  static async deleteMeasurement(measurementId: string) {
+    const response = await retryRequest(() =>
+      api.delete(`/body-metrics/${measurementId}`, { timeout: 10000 })
+    );
+    return response.data;
+  }
+}
+
+export type CheckInPeriod = "MORNING" | "AFTERNOON" | "EVENING";
+
+// Ratings run 1-5; for hunger 1 is not hungry at all and 5 is starving
+export interface CheckInRatings {
+  mood: number;
+  energy: number;
+  hunger: number;
+  digestion?: number | null;
+  sleep_quality?: number | null;
+  note?: string | null;
+}
+
+export interface CheckIn extends CheckInRatings {
+  checkin_id: string;
+  date: string;
+  period: CheckInPeriod;
+  checked_in_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WellbeingCorrelation {
+  outcome: string;
+  outcome_label: string;
+  factor: string;
+  factor_label: string;
+  r: number;
+  // Chance of a link this strong with none there, before the
+  // multiple-comparison filter the server already applied
+  p_value: number;
+  strength: "weak" | "moderate" | "strong";
+  days: number;
+  // Compared with the previous day's factor, as for sleep quality
+  previous_day: boolean;
+}
+
+export interface WellbeingInsights {
+  start_date: string;
+  end_date: string;
+  check_in_days: number;
+  happyDays: number;
+  highEnergyDays: number;
+  satisfiedDays: number;
+  correlations: WellbeingCorrelation[];
+  high_protein_breakfast: {
+    threshold_g: number;
+    high_protein: { days: number; average_afternoon_energy: number | null };
+    lower_protein: { days: number; average_afternoon_energy: number | null };
+    difference: number | null;
+  };
+}
+
+export class CheckInsAPI {
+  static async getCheckIns(from?: string, to?: string): Promise<CheckIn[]> {
+    const response = await retryRequest(() =>
+      api.get("/check-ins", { params: { from, to }, timeout: 10000 })
+    );
+    return response.data.data;
+  }
+
+  static async getInsights(days: number = 60): Promise<WellbeingInsights> {
+    const response = await retryRequest(() =>
+      api.get("/check-ins/insights", { params: { days }, timeout: 10000 })
+    );
+    return response.data.data;
+  }
+
+  static async recordCheckIn(
+    input: CheckInRatings & { date?: string; period?: CheckInPeriod }
+  ): Promise<CheckIn> {
+    const response = await api.post("/check-ins", input, { timeout: 10000 });
+    return response.data.data;
+  }
+
+  static async updateCheckIn(
+    checkInId: string,
+    input: Partial<CheckInRatings>
+  ): Promise<CheckIn> {
+    const response = await api.put(`/check-ins/${checkInId}`, input, {
+      timeout: 10000,
+    });
+    return response.data.data;
+  }
+
+  static async deleteCheckIn(checkInId: string) {
+    const response = await retryRequest(() =>
+      api.delete(`/check-ins/${checkInId}`, { timeout: 10000 })
+    );
+    return response.data;
+  }
+}
+
+export interface FoodItem {
+  id: string;
+  name: string;
+  name_he: string;
+  category: string;
+  aliases: string[];
+  per_100g: {
+    calories: number;
+    protein_g: number;
+    carbs_g: number;
+    fats_g: number;
+    fiber_g: number;
+    sugar_g: number;
+    sodium_mg: number;
+  };
+  serving_g: number;
+  units?: Partial<Record<"cup" | "tbsp" | "tsp" | "slice" | "piece", number>>;
+  match_score?: number;
+}
+
+export class FoodsAPI {
+  static async search(query: string, limit: number = 8): Promise<FoodItem[]> {
+    const response = await retryRequest(() =>
+      api.get("/foods/search", { params: { q: query, limit }, timeout: 10000 })
+    );
+    return response.data.data;
+  }
+}
+
+export interface RecipeNutrition {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  sugar_g: number;
+  sodium_mg: number;
+}
+
+// Nutrition columns are for the whole batch; per_serving divides them by
+// servings
+export interface Recipe extends RecipeNutrition {
+  recipe_id: string;
+  name: string;
+  description: string | null;
+  servings: number;
+  ingredients: any[];
+  total_weight_g: number | null;
+  source_meal_id?: number | null;
+  share_token?: string | null;
+  per_serving: RecipeNutrition & { weight_g: number | null };
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecipeInput {
+  name: string;
+  description?: string | null;
+  servings: number;
+  ingredients: MealIngredientInput[];
+}
+
+export interface RecipeLogInput {
+  servings: number;
+  meal_type?: MealType;
+  date?: string;
+  eaten_at?: string;
+}
+
+export class RecipesAPI {
+  static async getRecipes(): Promise<Recipe[]> {
+    const response = await retryRequest(() =>
+      api.get("/recipes", { timeout: 10000 })
+    );
+    return response.data.data;
+  }
+
+  static async getRecipe(recipeId: string): Promise<Recipe> {
+    const response = await retryRequest(() =>
+      api.get(`/recipes/${recipeId}`, { timeout: 10000 })
+    );
+    return response.data.data;
+  }
+
+  static async createRecipe(input: RecipeInput): Promise<Recipe> {
+    const response = await api.post("/recipes", input, { timeout: 10000 });
+    return response.data.data;
+  }
+
+  static async createRecipeFromMeal(
+    mealId: number | string,
+    input: { name?: string; description?: string; servings?: number } = {}
+  ): Promise<Recipe> {
+    const response = await api.post(`/recipes/from-meal/${mealId}`, input, {
+      timeout: 10000,
+    });
+    return response.data.data;
+  }
+
+  static async updateRecipe(
+    recipeId: string,
+    input: Partial<RecipeInput>
+  ): Promise<Recipe> {
+    const response = await api.put(`/recipes/${recipeId}`, input, {
+      timeout: 10000,
+    });
+    return response.data.data;
+  }
+
+  static async deleteRecipe(recipeId: string) {
+    const response = await retryRequest(() =>
+      api.delete(`/recipes/${recipeId}`, { timeout: 10000 })
+    );
+    return response.data;
+  }
+
+  // Logs servings of the recipe as a meal and returns the saved meal
+  static async logRecipe(recipeId: string, input: RecipeLogInput) {
+    const response = await api.post(`/recipes/${recipeId}/log`, input, {
+      timeout: 20000,
+    });
+    return response.data.data;
+  }
+
+  static async shareRecipe(recipeId: string): Promise<{ share_token: string }> {
+    const response = await api.post(`/recipes/${recipeId}/share`, undefined, {
+      timeout: 10000,
+    });
+    return response.data.data;
+  }
+
+  static async unshareRecipe(recipeId: string) {
+    const response = await retryRequest(() =>
+      api.delete(`/recipes/${recipeId}/share`, { timeout: 10000 })
+    );
+    return response.data;
+  }
+
+  static async getSharedRecipe(shareToken: string): Promise<Recipe> {
+    const response = await retryRequest(() =>
+      api.get(`/recipes/shared/${shareToken}`, { timeout: 10000 })
+    );
+    return response.data.data;
+  }
+
+  static async saveSharedRecipe(shareToken: string): Promise<Recipe> {
+    const response = await api.post(`/recipes/shared/${shareToken}`, undefined, {
+      timeout: 10000,
+    });
+    return response.data.data;
+  }
+}
+
+export type ProductSource =
+  | "OPEN_FOOD_FACTS"
+  | "AI_IMAGE_SCAN"
+  | "USER_SUBMISSION";
+
+// Label values per 100g; sodium and minerals in mg
+export interface ProductNutrition {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber?: number;
+  sugar?: number;
+  sodium?: number;
+  saturated_fat?: number;
+}
+
+export interface CatalogProduct {
+  barcode: string;
+  name: string;
+  brand?: string;
+  category: string;
+  nutrition_per_100g: ProductNutrition;
+  ingredients: string[];
+  allergens: string[];
+  labels: string[];
+  source: ProductSource;
+  nutrition_version: number;
+  pending_corrections?: number;
+}
+
+export interface ProductCorrection {
+  correction_id: string;
+  nutrition_per_100g: ProductNutrition;
+  product_name: string | null;
+  brand: string | null;
+  note: string | null;
+  base_version: number;
+  status: "PENDING" | "ACCEPTED" | "REJECTED" | "WITHDRAWN" | "SUPERSEDED";
+  approvals: number;
+  rejections: number;
+  is_mine?: boolean;
+  my_vote?: boolean | null;
+  created_at: string;
+}
+
+export class ProductCatalogAPI {
+  static async getProduct(barcode: string): Promise<CatalogProduct> {
+    const response = await retryRequest(() =>
+      api.get(`/food-scanner/products/${barcode}`, { timeout: 10000 })
+    );
+    return response.data.data;
+  }
+
+  static async submitProduct(input: {
+    barcode: string;
+    name: string;
+    brand?: string;
+    category?: string;
+    nutrition_per_100g: ProductNutrition;
+  }): Promise<CatalogProduct> {
+    const response = await api.post("/food-scanner/products", input, {
+      timeout: 10000,
+    });
+    return response.data.data;
+  }
+
+  static async getCorrections(
+    barcode: string,
+    status: ProductCorrection["status"] = "PENDING"
+  ): Promise<ProductCorrection[]> {
+    const response = await retryRequest(() =>
+      api.get(`/food-scanner/products/${barcode}/corrections`, {
+        params: { status },
+        timeout: 10000,
+      })
+    );
+    return response.data.data;
+  }
+
+  static async submitCorrection(
+    barcode: string,
+    input: {
+      nutrition_per_100g: ProductNutrition;
+      product_name?: string;
+      brand?: string;
+      note?: string;
+    }
+  ): Promise<ProductCorrection> {
+    const response = await api.post(
+      `/food-scanner/products/${barcode}/corrections`,
+      input,
+      { timeout: 10000 }
+    );
+    return response.data.data;
+  }
+
+  static async voteOnCorrection(
+    correctionId: string,
+    approve: boolean
+  ): Promise<ProductCorrection> {
+    const response = await api.post(
+      `/food-scanner/corrections/${correctionId}/vote`,
+      { approve },
+      { timeout: 10000 }
+    );
+    return response.data.data;
+  }
+
+  static async withdrawCorrection(correctionId: string) {
+    const response = await retryRequest(() =>
+      api.delete(`/food-scanner/corrections/${correctionId}`, {
+        timeout: 10000,
+      })
+    );
+    return response.data;
+  }
+}
+
+export interface ShoppingListItem {
+  item_id: string;
+  key: string;
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  category: string;
+  checked: boolean;
+  source: "plan" | "menu" | "manual";
+  // What the pantry already covered, taken off quantity
+  in_pantry?: { quantity: number | null; unit: string };
+  estimated_cost?: number;
+}
+
+export interface ShoppingList {
+  list_id: string;
+  user_id: string;
+  name: string;
+  plan_id: string | null;
+  menu_id: string | null;
+  week_start_date: string | null;
+  items: ShoppingListItem[];
+  total_estimated_cost: number | null;
+  is_completed: boolean;
+  is_owner: boolean;
+  owner: { name: string | null; email: string };
+  members: { user_id: string; name: string | null; email: string }[];
+  updated_at: string;
+}
+
+export interface PantryItem {
+  item_id: string;
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  category: string | null;
+}
+
+export interface ShoppingItemInput {
+  name: string;
+  quantity?: number | null;
+  unit?: string | null;
+  category?: string;
+}
+
+export class ShoppingListsAPI {
+  static async getLists(): Promise<ShoppingList[]> {
+    const response = await retryRequest(() =>
+      api.get("/shopping-lists", { timeout: 10000 })
+    );
+    return response.data.data;
+  }
+
+  static async getList(listId: string): Promise<ShoppingList> {
+    const response = await retryRequest(() =>
+      api.get(`/shopping-lists/${listId}`, { timeout: 10000 })
+    );
+    return response.data.data;
+  }
+
+  static async generateFromPlan(
+    planId: string,
+    weekStartDate: string
+  ): Promise<ShoppingList> {
+    const response = await api.post(
+      `/meal-plans/${planId}/shopping-list`,
+      { week_start_date: weekStartDate },
+      { timeout: 20000 }
+    );
+    return response.data.data;
+  }
+
+  static async generateFromMenu(menuId: string): Promise<ShoppingList> {
+    const response = await api.post(
+      `/shopping-lists/from-menu/${menuId}`,
+      {},
+      { timeout: 20000 }
+    );
+    return response.data.data;
+  }
+
+  static async renameList(listId: string, name: string): Promise<ShoppingList> {
+    const response = await api.put(`/shopping-lists/${listId}`, { name });
+    return response.data.data;
+  }
+
+  static async deleteList(listId: string) {
+    const response = await retryRequest(() =>
+      api.delete(`/shopping-lists/${listId}`, { timeout: 10000 })
+    );
+    return response.data;
+  }
+
+  static async completeList(listId: string): Promise<ShoppingList> {
+    const response = await api.post(`/shopping-lists/${listId}/complete`);
+    return response.data.data;
+  }
+
+  static async addItem(
+    listId: string,
+    item: ShoppingItemInput
+  ): Promise<ShoppingList> {
+    const response = await api.post(`/shopping-lists/${listId}/items`, item);
+    return response.data.data;
+  }
+
+  static async updateItem(
+    listId: string,
+    itemId: string,
+    update: Partial<ShoppingItemInput> & { checked?: boolean }
+  ): Promise<ShoppingList> {
+    const response = await api.put(
+      `/shopping-lists/${listId}/items/${itemId}`,
+      update
+    );
+    return response.data.data;
+  }
+
+  static async removeItem(
+    listId: string,
+    itemId: string
+  ): Promise<ShoppingList> {
+    const response = await retryRequest(() =>
+      api.delete(`/shopping-lists/${listId}/items/${itemId}`, {
+        timeout: 10000,
+      })
+    );
+    return response.data.data;
+  }
+
+  static async addMember(listId: string, email: string): Promise<ShoppingList> {
+    const response = await api.post(`/shopping-lists/${listId}/members`, {
+      email,
+    });
+    return response.data.data;
+  }
+
+  static async removeMember(listId: string, userId: string) {
+    const response = await retryRequest(() =>
+      api.delete(`/shopping-lists/${listId}/members/${userId}`, {
+        timeout: 10000,
+      })
+    );
+    return response.data;
+  }
+
+  static async getPantry(): Promise<PantryItem[]> {
+    const response = await retryRequest(() =>
+      api.get("/shopping-lists/pantry", { timeout: 10000 })
+    );
+    return response.data.data;
+  }
+
+  static async savePantryItem(item: ShoppingItemInput): Promise<PantryItem> {
+    const response = await api.put("/shopping-lists/pantry", item);
+    return response.data.data;
+  }
+
+  static async removePantryItem(itemId: string) {
+    const response = await retryRequest(() =>
+      api.delete(`/shopping-lists/pantry/${itemId}`, { timeout: 10000 })
+    );
+    return response.data;
+  }
+}
+
+export type FoodSafetySource =
+  | "RECOMMENDED_MENU"
+  | "MENU_MEAL_REPLACEMENT"
+  | "MEAL_PLAN"
+  | "PLAN_MEAL_REPLACEMENT"
+  | "PRODUCT_SCAN";
+
+// BLOCK rules keep food off the plate; WARN ones are shown but kept
+export interface FoodSafetyViolation {
+  rule: "ALLERGY" | "DIET" | "KOSHER" | "DISLIKED";
+  severity: "BLOCK" | "WARN";
+  group: string | null;
+  term: string;
+  found_in: string;
+  reason: string;
+}
+
+// Why a generated meal or scanned product was swapped, dropped or flagged
+export interface FoodSafetyFlag {
+  flag_id: string;
+  source: FoodSafetySource;
+  reference_id: string | null;
+  item_name: string;
+  action: "REGENERATED" | "REMOVED" | "FLAGGED";
+  violations: FoodSafetyViolation[];
+  created_at: string;
+}
+
+export class FoodSafetyAPI {
+  static async getFlags(
+    source?: FoodSafetySource,
+    limit: number = 50
+  ): Promise<FoodSafetyFlag[]> {
+    const response = await retryRequest(() =>
+      api.get("/food-safety/flags", {
+        params: { source, limit },
+        timeout: 10000,
+      })
+    );
+    return response.data.data;
+  }
+}
+
 // Export individual APIs
 export const authAPI = AuthAPI;
 export const nutritionAPI = NutritionAPI;
@@ -554,6 +1839,15 @@ export const chatAPI = ChatAPI;
 export const questionnaireAPI = QuestionnaireAPI;
 export const userAPI = UserAPI;
 export const calendarAPI = CalendarAPI;
+export const billingAPI = BillingAPI;
+export const dailyGoalsAPI = DailyGoalsAPI;
+export const bodyMetricsAPI = BodyMetricsAPI;
+export const checkInsAPI = CheckInsAPI;
+export const foodsAPI = FoodsAPI;
+export const recipesAPI = RecipesAPI;
+export const productCatalogAPI = ProductCatalogAPI;
+export const shoppingListsAPI = ShoppingListsAPI;
+export const foodSafetyAPI = FoodSafetyAPI;
 
 // Export default api instance
 export default api;
\ No newline at end of file
@@ -1,8 +1,9 @@
 import { healthKitService, HealthData } from "./healthKit";
 import { deviceConnectionService } from "./deviceConnections";
-import { nutritionAPI } from "./api";
+import { api, nutritionAPI } from "./api";
 import axios from "axios";
 import { Platform } from "react-native";
+import { getLocalDateKey } from "../utils/date";
 
 export interface ConnectedDevice {
   id: string;
@@ -26,6 +27,16 @@ export interface DailyBalance {
   balance: number;
   balanceStatus: "balanced" | "slight_imbalance" | "significant_imbalance";
 }
+// Providers whose tokens are held and synced by the server
+const SERVER_SYNCED_DEVICES: ConnectedDevice["type"][] = [
+  "GOOGLE_FIT",
+  "FITBIT",
+  "WHOOP",
+  "POLAR",
+];
+
+const APPLE_HEALTH_BACKFILL_DAYS = 7;
+
 const API_URL = process.env.EXPO_PUBLIC_API_URL;
 // Get the correct API URL based on platform
 const getApiBaseUrl = () => {
@@ -107,6 +118,12 @@ class DeviceAPIService {
       // For other devices, use OAuth flow
       const result = await deviceConnectionService.connectDevice(deviceType);
 
+      // Server-managed providers are registered by the OAuth callback
+      if (result.success && !result.accessToken) {
+        console.log("✅ Device connected successfully:", deviceType);
+        return true;
+      }
+
       if (result.success && result.accessToken) {
         // Register with server
         try {
@@ -138,32 +155,49 @@ class DeviceAPIService {
       console.log("🔄 Syncing device:", deviceId);
 
       if (deviceId === "apple_health") {
-        // Get today's health data
-        const today = new Date().toISOString().split("T")[0];
-        const healthData = await healthKitService.getHealthDataForDate(today);
+        // Send the last week so days the app wasn't opened aren't lost;
+        // the server stores each day on its own row
+        const records = [];
+        for (let daysAgo = APPLE_HEALTH_BACKFILL_DAYS - 1; daysAgo >= 0; daysAgo--) {
+          const day = new Date();
+          day.setDate(day.getDate() - daysAgo);
+          const date = getLocalDateKey(day);
+          const healthData = await healthKitService.getHealthDataForDate(date);
+
+          records.push({
+            date,
+            steps: healthData.steps,
+            caloriesBurned: healthData.caloriesBurned,
+            activeMinutes: healthData.activeMinutes,
+            bmr: 1800, // Default BMR estimate
+            heartRate: healthData.heartRate,
+            weight: healthData.weight,
+            distance: healthData.distance,
+          });
+        }
 
         // Send to server
         try {
-          await deviceAxios.post(`/devices/${deviceId}/sync`, {
-            activityData: {
-              steps: healthData.steps,
-              caloriesBurned: healthData.caloriesBurned,
-              activeMinutes: healthData.activeMinutes,
-              bmr: 1800, // Default BMR estimate
-              heartRate: healthData.heartRate,
-              weight: healthData.weight,
-              distance: healthData.distance,
-            },
+          const response = await deviceAxios.post(`/devices/${deviceId}/sync`, {
+            records,
           });
+          if (response.data.data?.conflictCount) {
+            console.log(
+              "⚠️ Activity conflicts between devices:",
+              response.data.data.days
+                .filter((day: any) => day.conflicts.length > 0)
+                .map((day: any) => day.date)
+            );
+          }
         } catch (serverError) {
           console.warn("⚠️ Failed to sync with server:", serverError);
         }
 
-        console.log("📊 Synced Apple Health data:", healthData);
+        console.log("📊 Synced Apple Health data for", records.length, "days");
         return true;
       }
 
-      // For other devices, fetch data using their APIs
+      // Other devices are synced by the server
       const devices = await this.getConnectedDevices();
       const device = devices.find((d) => d.id === deviceId);
 
@@ -172,76 +206,14 @@ class DeviceAPIService {
         return false;
       }
 
-      const today = new Date().toISOString().split("T")[0];
-      let activityData = null;
-
-      // Get stored tokens
-      const tokens = await deviceConnectionService.getDeviceTokens(device.type);
-
-      if (!tokens.accessToken) {
-        console.error("❌ No access token found for device:", device.type);
-        return false;
-      }
-
-      // Fetch data based on device type
-      switch (device.type) {
-        case "GOOGLE_FIT":
-          activityData = await deviceConnectionService.fetchGoogleFitData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "FITBIT":
-          activityData = await deviceConnectionService.fetchFitbitData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "WHOOP":
-          activityData = await deviceConnectionService.fetchWhoopData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "POLAR":
-          activityData = await deviceConnectionService.fetchPolarData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "GARMIN":
-          activityData = await deviceConnectionService.fetchGarminData(
-            tokens.accessToken,
-            tokens.refreshToken || "",
-            today
-          );
-          break;
-        default:
-          console.error("❌ Unsupported device type:", device.type);
-          return false;
-      }
-
-      if (activityData) {
-        // Send to server
-        try {
-          await deviceAxios.post(`/devices/${deviceId}/sync`, {
-            activityData: {
-              steps: activityData.steps || 0,
-              caloriesBurned: activityData.caloriesBurned || 0,
-              activeMinutes: activityData.activeMinutes || 0,
-              bmr: 1800, // Default BMR estimate
-              distance: activityData.distance,
-              heartRate: activityData.heartRate,
-            },
-          });
-        } catch (serverError) {
-          console.warn("⚠️ Failed to sync with server:", serverError);
-        }
-
-        console.log("📊 Synced device data:", activityData);
-        return true;
+      if (SERVER_SYNCED_DEVICES.includes(device.type)) {
+        // The server fetches from the provider with the tokens it holds
+        const response = await api.post(`/devices/${deviceId}/sync`);
+        console.log("📊 Server sync result:", response.data.data);
+        return !!response.data.success;
       }
 
+      console.error("❌ Unsupported device type:", device.type);
       return false;
     } catch (error) {
       console.error("💥 Error syncing device:", error);
@@ -284,35 +256,6 @@ class DeviceAPIService {
       if (connectedDevice) {
         if (connectedDevice.type === "APPLE_HEALTH") {
           return await healthKitService.getHealthDataForDate(date);
-        } else {
-          // Try to get data from other connected devices
-          const tokens = await deviceConnectionService.getDeviceTokens(
-            connectedDevice.type
-          );
-          if (tokens.accessToken) {
-            switch (connectedDevice.type) {
-              case "GOOGLE_FIT":
-                return await deviceConnectionService.fetchGoogleFitData(
-                  tokens.accessToken,
-                  date
-                );
-              case "FITBIT":
-                return await deviceConnectionService.fetchFitbitData(
-                  tokens.accessToken,
-                  date
-                );
-              case "WHOOP":
-                return await deviceConnectionService.fetchWhoopData(
-                  tokens.accessToken,
-                  date
-                );
-              case "POLAR":
-                return await deviceConnectionService.fetchPolarData(
-                  tokens.accessToken,
-                  date
-                );
-            }
-          }
         }
       }
 
@@ -2,11 +2,15 @@ import { Platform, Linking, Alert } from "react-native";
 import * as WebBrowser from "expo-web-browser";
 import * as AuthSession from "expo-auth-session";
 import * as SecureStore from "expo-secure-store";
+import * as ExpoLinking from "expo-linking";
+import { api } from "./api";
 
 // Configure WebBrowser for better OAuth handling
 WebBrowser.maybeCompleteAuthSession();
 
-// Device API configurations with REAL endpoints
+// Device API configurations with REAL endpoints. Google Fit, Fitbit, Whoop and
+// Polar are authorized and synced by the server, so their credentials live
+// there.
 const DEVICE_CONFIGS = {
   GARMIN: {
     name: "Garmin Connect",
@@ -22,59 +26,6 @@ const DEVICE_CONFIGS = {
     apiUrl: "https://apis.garmin.com/wellness-api/rest",
     scopes: ["wellness:read"],
   },
-  GOOGLE_FIT: {
-    name: "Google Fit",
-    clientId:
-      "68705076317-s2vqnmlnpu7r2qlr95bhkh4f2lbfqhg1.apps.googleusercontent.com",
-    clientSecret: process.env.EXPO_PUBLIC_GOOGLE_FIT_CLIENT_SECRET || "",
-    authUrl: "https://accounts.google.com/o/oauth2/v2/auth",
-    tokenUrl: "https://oauth2.googleapis.com/token",
-    apiUrl: "https://www.googleapis.com/fitness/v1",
-    scopes: [
-      "https://www.googleapis.com/auth/fitness.activity.read",
-      "https://www.googleapis.com/auth/fitness.body.read",
-      "https://www.googleapis.com/auth/fitness.heart_rate.read",
-      "https://www.googleapis.com/auth/fitness.location.read",
-    ],
-  },
-  FITBIT: {
-    name: "Fitbit",
-    clientId:
-      process.env.EXPO_PUBLIC_FITBIT_CLIENT_ID || "your-fitbit-client-id",
-    clientSecret:
-      process.env.EXPO_PUBLIC_FITBIT_CLIENT_SECRET || "your-fitbit-secret",
-    authUrl: "https://www.fitbit.com/oauth2/authorize",
-    tokenUrl: "https://api.fitbit.com/oauth2/token",
-    apiUrl: "https://api.fitbit.com/1",
-    scopes: [
-      "activity",
-      "heartrate",
-      "nutrition",
-      "profile",
-      "sleep",
-      "weight",
-    ],
-  },
-  WHOOP: {
-    name: "Whoop",
-    clientId: process.env.EXPO_PUBLIC_WHOOP_CLIENT_ID || "your-whoop-client-id",
-    clientSecret:
-      process.env.EXPO_PUBLIC_WHOOP_CLIENT_SECRET || "your-whoop-secret",
-    authUrl: "https://api.prod.whoop.com/oauth/oauth2/auth",
-    tokenUrl: "https://api.prod.whoop.com/oauth/oauth2/token",
-    apiUrl: "https://api.prod.whoop.com/developer/v1",
-    scopes: ["read:recovery", "read:cycles", "read:workout", "read:sleep"],
-  },
-  POLAR: {
-    name: "Polar",
-    clientId: process.env.EXPO_PUBLIC_POLAR_CLIENT_ID || "your-polar-client-id",
-    clientSecret:
-      process.env.EXPO_PUBLIC_POLAR_CLIENT_SECRET || "your-polar-secret",
-    authUrl: "https://flow.polar.com/oauth2/authorization",
-    tokenUrl: "https://polarremote.com/v2/oauth2/token",
-    apiUrl: "https://www.polaraccesslink.com/v3",
-    scopes: ["accesslink.read_all"],
-  },
   SAMSUNG_HEALTH: {
     name: "Samsung Health",
     packageName: "com.sec.android.app.shealth",
@@ -163,588 +114,56 @@ class DeviceConnectionService {
     return DEVICE_CONFIGS[deviceType as keyof typeof DEVICE_CONFIGS];
   }
 
-  // GOOGLE FIT INTEGRATION
-  async connectGoogleFit(): Promise<DeviceConnectionResult> {
+  // SERVER-MANAGED OAUTH (Google Fit, Fitbit, Whoop, Polar)
+  // The server runs the code exchange and keeps the tokens, so data keeps
+  // syncing even when the app isn't opened
+  private async connectViaServer(
+    deviceType: string
+  ): Promise<DeviceConnectionResult> {
     try {
-      console.log("🔗 Connecting to Google Fit...");
-
-      const config = DEVICE_CONFIGS.GOOGLE_FIT;
-
-      // Check if client secret is configured
-      if (!config.clientSecret) {
-        console.error("❌ Google Fit client secret not configured");
-        return {
-          success: false,
-          error:
-            "Google Fit client secret is not configured. Please add EXPO_PUBLIC_GOOGLE_FIT_CLIENT_SECRET to your environment variables.",
-        };
-      }
-
-      // Create redirect URI that works with your OAuth setup
-      const redirectUri = AuthSession.makeRedirectUri({
-        scheme: __DEV__ ? undefined : "com.yourapp.app", // Replace with your app scheme
-        useProxy: true,
-      });
-
-      console.log("🔄 Using redirect URI:", redirectUri);
-
-      // Build authorization URL with proper parameters
-      const authUrlParams = new URLSearchParams({
-        client_id: config.clientId,
-        redirect_uri: redirectUri,
-        response_type: "code",
-        scope: config.scopes.join(" "),
-        access_type: "offline",
-        prompt: "consent",
-        include_granted_scopes: "true",
-      });
-
-      const authUrl = `${config.authUrl}?${authUrlParams.toString()}`;
-
-      console.log("🔄 Starting auth session with URL:", authUrl);
-
-      // Start the authentication session
-      const result = await AuthSession.startAsync({
-        authUrl,
-        returnUrl: redirectUri,
-      });
-
-      console.log("🔄 Auth session result:", result);
-
-      if (result.type === "success" && result.params.code) {
-        console.log("✅ Got authorization code, exchanging for token...");
-
-        const tokenResponse = await this.exchangeGoogleFitCode(
-          result.params.code,
-          redirectUri
-        );
-
-        console.log("🔄 Token exchange response received");
-
-        if (tokenResponse.access_token) {
-          await this.storeDeviceTokens(
-            "GOOGLE_FIT",
-            tokenResponse.access_token,
-            tokenResponse.refresh_token
-          );
-
-          console.log("✅ Google Fit connected successfully!");
-
-          return {
-            success: true,
-            accessToken: tokenResponse.access_token,
-            refreshToken: tokenResponse.refresh_token,
-            expiresIn: tokenResponse.expires_in,
-            deviceData: { displayName: config.name },
-          };
-        } else {
-          console.error("❌ No access token received:", tokenResponse);
-          return {
-            success: false,
-            error:
-              tokenResponse.error_description ||
-              tokenResponse.error ||
-              "Failed to get access token",
-          };
-        }
-      } else if (result.type === "cancel") {
-        console.log("❌ User cancelled Google Fit authorization");
-        return { success: false, error: "Authorization was cancelled by user" };
-      } else {
-        console.log("❌ Google Fit authorization failed:", result);
-        return {
-          success: false,
-          error: `Authorization failed: ${result.type}`,
-        };
-      }
-    } catch (error) {
-      console.error("💥 Google Fit connection error:", error);
-      return {
-        success: false,
-        error: `Failed to connect to Google Fit: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-      };
-    }
-  }
-
-  private async exchangeGoogleFitCode(code: string, redirectUri: string) {
-    try {
-      const config = DEVICE_CONFIGS.GOOGLE_FIT;
-
-      const body = new URLSearchParams({
-        client_id: config.clientId,
-        client_secret: config.clientSecret,
-        code,
-        grant_type: "authorization_code",
-        redirect_uri: redirectUri,
-      });
-
-      console.log("🔄 Exchanging code for token...");
-
-      const response = await fetch(config.tokenUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-          Accept: "application/json",
-        },
-        body: body.toString(),
-      });
-
-      const responseText = await response.text();
-      console.log("🔄 Token exchange response status:", response.status);
-
-      if (!response.ok) {
-        console.error("❌ Token exchange failed:", responseText);
-        throw new Error(
-          `Token exchange failed: ${response.status} ${responseText}`
-        );
-      }
-
-      const tokenData = JSON.parse(responseText);
-
-      if (tokenData.error) {
-        console.error("❌ Token exchange error:", tokenData);
-        throw new Error(tokenData.error_description || tokenData.error);
-      }
-
-      return tokenData;
-    } catch (error) {
-      console.error("💥 Error exchanging Google Fit code:", error);
-      throw error;
-    }
-  }
+      console.log("🔗 Requesting authorization URL for", deviceType);
 
-  async fetchGoogleFitData(
-    accessToken: string,
-    date: string
-  ): Promise<HealthData | null> {
-    try {
-      const config = DEVICE_CONFIGS.GOOGLE_FIT;
-      const startTime = new Date(date).getTime() * 1000000; // nanoseconds
-      const endTime = startTime + 24 * 60 * 60 * 1000 * 1000000; // 24 hours
-
-      // Fetch steps
-      const stepsResponse = await fetch(
-        `${config.apiUrl}/users/me/dataSources/derived:com.google.step_count.delta:com.google.android.gms:estimated_steps/datasets/${startTime}-${endTime}`,
-        {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            Accept: "application/json",
-          },
-        }
+      const returnUrl = AuthSession.makeRedirectUri({ path: "devices/oauth" });
+      const response = await api.get(
+        `/devices/oauth/${deviceType.toLowerCase()}/authorize`,
+        { params: { returnUrl } }
       );
 
-      if (!stepsResponse.ok) {
-        console.error("❌ Failed to fetch steps data:", stepsResponse.status);
-        return null;
+      if (!response.data.success) {
+        return { success: false, error: response.data.error };
       }
 
-      const stepsData = await stepsResponse.json();
-      const steps =
-        stepsData.point?.reduce(
-          (sum: number, point: any) => sum + (point.value?.[0]?.intVal || 0),
-          0
-        ) || 0;
-
-      // Fetch calories
-      const caloriesResponse = await fetch(
-        `${config.apiUrl}/users/me/dataSources/derived:com.google.calories.expended:com.google.android.gms:merge_calories_expended/datasets/${startTime}-${endTime}`,
-        {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            Accept: "application/json",
-          },
-        }
+      const result = await WebBrowser.openAuthSessionAsync(
+        response.data.data.authorizationUrl,
+        returnUrl
       );
 
-      let calories = 0;
-      if (caloriesResponse.ok) {
-        const caloriesData = await caloriesResponse.json();
-        calories =
-          caloriesData.point?.reduce(
-            (sum: number, point: any) => sum + (point.value?.[0]?.fpVal || 0),
-            0
-          ) || 0;
+      if (result.type !== "success") {
+        console.log("❌ Authorization not completed:", result.type);
+        return { success: false, error: "Authorization was cancelled by user" };
       }
 
-      return {
-        steps,
-        caloriesBurned: Math.round(calories),
-        activeMinutes: Math.round(steps / 100), // Rough estimate
-        date,
-      };
-    } catch (error) {
-      console.error("💥 Error fetching Google Fit data:", error);
-      return null;
-    }
-  }
-
-  // FITBIT INTEGRATION
-  async connectFitbit(): Promise<DeviceConnectionResult> {
-    try {
-      console.log("🔗 Connecting to Fitbit...");
-
-      const config = DEVICE_CONFIGS.FITBIT;
-
-      if (!config.clientSecret) {
+      const { queryParams } = ExpoLinking.parse(result.url);
+      if (queryParams?.status !== "success") {
         return {
           success: false,
-          error:
-            "Fitbit client secret is not configured. Please add EXPO_PUBLIC_FITBIT_CLIENT_SECRET to your environment variables.",
+          error: String(queryParams?.error || "Authorization failed"),
         };
       }
 
-      const redirectUri = AuthSession.makeRedirectUri({ useProxy: true });
-
-      const authUrl =
-        `${config.authUrl}?` +
-        `client_id=${config.clientId}&` +
-        `redirect_uri=${encodeURIComponent(redirectUri)}&` +
-        `response_type=code&` +
-        `scope=${encodeURIComponent(config.scopes.join(" "))}&` +
-        `expires_in=604800`; // 1 week
-
-      const result = await AuthSession.startAsync({
-        authUrl,
-        returnUrl: redirectUri,
-      });
-
-      if (result.type === "success" && result.params.code) {
-        const tokenResponse = await this.exchangeFitbitCode(
-          result.params.code,
-          redirectUri
-        );
-
-        if (tokenResponse.access_token) {
-          await this.storeDeviceTokens(
-            "FITBIT",
-            tokenResponse.access_token,
-            tokenResponse.refresh_token
-          );
-
-          return {
-            success: true,
-            accessToken: tokenResponse.access_token,
-            refreshToken: tokenResponse.refresh_token,
-            expiresIn: tokenResponse.expires_in,
-            deviceData: { displayName: config.name },
-          };
-        }
-      }
-
-      return { success: false, error: "Fitbit authorization failed" };
-    } catch (error) {
-      console.error("💥 Fitbit connection error:", error);
-      return { success: false, error: "Failed to connect to Fitbit" };
-    }
-  }
-
-  private async exchangeFitbitCode(code: string, redirectUri: string) {
-    const config = DEVICE_CONFIGS.FITBIT;
-    const credentials = btoa(`${config.clientId}:${config.clientSecret}`);
-
-    const response = await fetch(config.tokenUrl, {
-      method: "POST",
-      headers: {
-        Authorization: `Basic ${credentials}`,
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        client_id: config.clientId,
-        code,
-        grant_type: "authorization_code",
-        redirect_uri: redirectUri,
-      }),
-    });
-
-    return await response.json();
-  }
-
-  async fetchFitbitData(
-    accessToken: string,
-    date: string
-  ): Promise<HealthData | null> {
-    try {
-      const config = DEVICE_CONFIGS.FITBIT;
-
-      const response = await fetch(
-        `${config.apiUrl}/user/-/activities/date/${date}.json`,
-        {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        }
-      );
-
-      if (!response.ok) {
-        console.error("❌ Failed to fetch Fitbit data:", response.status);
-        return null;
-      }
-
-      const data = await response.json();
-      const summary = data.summary;
-
+      console.log("✅", deviceType, "connected via server");
       return {
-        steps: summary.steps || 0,
-        caloriesBurned: summary.caloriesOut || 0,
-        activeMinutes:
-          (summary.veryActiveMinutes || 0) + (summary.fairlyActiveMinutes || 0),
-        distance: summary.distances?.[0]?.distance || 0,
-        date,
+        success: true,
+        deviceData: { deviceId: queryParams.deviceId },
       };
     } catch (error) {
-      console.error("💥 Error fetching Fitbit data:", error);
-      return null;
-    }
-  }
-
-  // WHOOP INTEGRATION
-  async connectWhoop(): Promise<DeviceConnectionResult> {
-    try {
-      console.log("🔗 Connecting to Whoop...");
-
-      const config = DEVICE_CONFIGS.WHOOP;
-
-      if (!config.clientSecret) {
-        return {
-          success: false,
-          error:
-            "Whoop client secret is not configured. Please add EXPO_PUBLIC_WHOOP_CLIENT_SECRET to your environment variables.",
-        };
-      }
-
-      const redirectUri = AuthSession.makeRedirectUri({ useProxy: true });
-
-      const authUrl =
-        `${config.authUrl}?` +
-        `client_id=${config.clientId}&` +
-        `redirect_uri=${encodeURIComponent(redirectUri)}&` +
-        `response_type=code&` +
-        `scope=${encodeURIComponent(config.scopes.join(" "))}`;
-
-      const result = await AuthSession.startAsync({
-        authUrl,
-        returnUrl: redirectUri,
-      });
-
-      if (result.type === "success" && result.params.code) {
-        const tokenResponse = await this.exchangeWhoopCode(
-          result.params.code,
-          redirectUri
-        );
-
-        if (tokenResponse.access_token) {
-          await this.storeDeviceTokens(
-            "WHOOP",
-            tokenResponse.access_token,
-            tokenResponse.refresh_token
-          );
-
-          return {
-            success: true,
-            accessToken: tokenResponse.access_token,
-            refreshToken: tokenResponse.refresh_token,
-            expiresIn: tokenResponse.expires_in,
-            deviceData: { displayName: config.name },
-          };
-        }
-      }
-
-      return { success: false, error: "Whoop authorization failed" };
-    } catch (error) {
-      console.error("💥 Whoop connection error:", error);
-      return { success: false, error: "Failed to connect to Whoop" };
-    }
-  }
-
-  private async exchangeWhoopCode(code: string, redirectUri: string) {
-    const config = DEVICE_CONFIGS.WHOOP;
-
-    const response = await fetch(config.tokenUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        client_id: config.clientId,
-        client_secret: config.clientSecret,
-        code,
-        grant_type: "authorization_code",
-        redirect_uri: redirectUri,
-      }),
-    });
-
-    return await response.json();
-  }
-
-  async fetchWhoopData(
-    accessToken: string,
-    date: string
-  ): Promise<HealthData | null> {
-    try {
-      const config = DEVICE_CONFIGS.WHOOP;
-      const startDate = new Date(date).toISOString();
-      const endDate = new Date(
-        new Date(date).getTime() + 24 * 60 * 60 * 1000
-      ).toISOString();
-
-      const response = await fetch(
-        `${config.apiUrl}/cycle?start=${startDate}&end=${endDate}`,
-        {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        }
-      );
-
-      if (!response.ok) {
-        console.error("❌ Failed to fetch Whoop data:", response.status);
-        return null;
-      }
-
-      const data = await response.json();
-      const cycle = data.records?.[0];
-
-      if (cycle) {
-        return {
-          steps: 0, // Whoop doesn't track steps
-          caloriesBurned: cycle.strain?.kilojoule || 0,
-          activeMinutes: cycle.strain?.workouts_duration_milli
-            ? Math.round(cycle.strain.workouts_duration_milli / 60000)
-            : 0,
-          heartRate: cycle.recovery?.heart_rate_variability_rmssd || 0,
-          date,
-        };
-      }
-
-      return null;
-    } catch (error) {
-      console.error("💥 Error fetching Whoop data:", error);
-      return null;
-    }
-  }
-
-  // POLAR INTEGRATION
-  async connectPolar(): Promise<DeviceConnectionResult> {
-    try {
-      console.log("🔗 Connecting to Polar...");
-
-      const config = DEVICE_CONFIGS.POLAR;
-
-      if (!config.clientSecret) {
-        return {
-          success: false,
-          error:
-            "Polar client secret is not configured. Please add EXPO_PUBLIC_POLAR_CLIENT_SECRET to your environment variables.",
-        };
-      }
-
-      const redirectUri = AuthSession.makeRedirectUri({ useProxy: true });
-
-      const authUrl =
-        `${config.authUrl}?` +
-        `client_id=${config.clientId}&` +
-        `redirect_uri=${encodeURIComponent(redirectUri)}&` +
-        `response_type=code&` +
-        `scope=${encodeURIComponent(config.scopes.join(" "))}`;
-
-      const result = await AuthSession.startAsync({
-        authUrl,
-        returnUrl: redirectUri,
-      });
-
-      if (result.type === "success" && result.params.code) {
-        const tokenResponse = await this.exchangePolarCode(
-          result.params.code,
-          redirectUri
-        );
-
-        if (tokenResponse.access_token) {
-          await this.storeDeviceTokens(
-            "POLAR",
-            tokenResponse.access_token,
-            tokenResponse.refresh_token
-          );
-
-          return {
-            success: true,
-            accessToken: tokenResponse.access_token,
-            refreshToken: tokenResponse.refresh_token,
-            expiresIn: tokenResponse.expires_in,
-            deviceData: { displayName: config.name },
-          };
-        }
-      }
-
-      return { success: false, error: "Polar authorization failed" };
-    } catch (error) {
-      console.error("💥 Polar connection error:", error);
-      return { success: false, error: "Failed to connect to Polar" };
-    }
-  }
-
-  private async exchangePolarCode(code: string, redirectUri: string) {
-    const config = DEVICE_CONFIGS.POLAR;
-
-    const response = await fetch(config.tokenUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-        Authorization: `Basic ${btoa(
-          `${config.clientId}:${config.clientSecret}`
-        )}`,
-      },
-      body: new URLSearchParams({
-        code,
-        grant_type: "authorization_code",
-        redirect_uri: redirectUri,
-      }),
-    });
-
-    return await response.json();
-  }
-
-  async fetchPolarData(
-    accessToken: string,
-    date: string
-  ): Promise<HealthData | null> {
-    try {
-      const config = DEVICE_CONFIGS.POLAR;
-
-      const response = await fetch(
-        `${config.apiUrl}/users/daily-activity?date=${date}`,
-        {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        }
-      );
-
-      if (!response.ok) {
-        console.error("❌ Failed to fetch Polar data:", response.status);
-        return null;
-      }
-
-      const data = await response.json();
-      const activity = data.data?.[0];
-
-      if (activity) {
-        return {
-          steps: activity.steps || 0,
-          caloriesBurned: activity.calories || 0,
-          activeMinutes: activity.active_time_seconds
-            ? Math.round(activity.active_time_seconds / 60)
-            : 0,
-          heartRate: activity.heart_rate_avg || 0,
-          date,
-        };
-      }
-
-      return null;
-    } catch (error) {
-      console.error("💥 Error fetching Polar data:", error);
-      return null;
+      console.error("💥 Server OAuth connection error:", error);
+      return {
+        success: false,
+        error: `Failed to connect device: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      };
     }
   }
 
@@ -828,77 +247,6 @@ class DeviceConnectionService {
     }
   }
 
-  // TOKEN REFRESH METHODS
-  async refreshGoogleFitToken(refreshToken: string): Promise<string | null> {
-    try {
-      const config = DEVICE_CONFIGS.GOOGLE_FIT;
-
-      const response = await fetch(config.tokenUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-        body: new URLSearchParams({
-          client_id: config.clientId,
-          client_secret: config.clientSecret,
-          refresh_token: refreshToken,
-          grant_type: "refresh_token",
-        }),
-      });
-
-      const data = await response.json();
-
-      if (data.access_token) {
-        await this.storeDeviceTokens(
-          "GOOGLE_FIT",
-          data.access_token,
-          refreshToken
-        );
-        return data.access_token;
-      }
-
-      return null;
-    } catch (error) {
-      console.error("💥 Error refreshing Google Fit token:", error);
-      return null;
-    }
-  }
-
-  async refreshFitbitToken(refreshToken: string): Promise<string | null> {
-    try {
-      const config = DEVICE_CONFIGS.FITBIT;
-      const credentials = btoa(`${config.clientId}:${config.clientSecret}`);
-
-      const response = await fetch(config.tokenUrl, {
-        method: "POST",
-        headers: {
-          Authorization: `Basic ${credentials}`,
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-        body: new URLSearchParams({
-          grant_type: "refresh_token",
-          refresh_token: refreshToken,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (data.access_token) {
-        await this.storeDeviceTokens(
-          "FITBIT",
-          data.access_token,
-          data.refresh_token
-        );
-        return data.access_token;
-      }
-
-      return null;
-    } catch (error) {
-      console.error("💥 Error refreshing Fitbit token:", error);
-      return null;
-    }
-  }
-
   // MAIN CONNECTION METHOD
   async connectDevice(deviceType: string): Promise<DeviceConnectionResult> {
     console.log("🔗 Connecting to device:", deviceType);
@@ -908,13 +256,10 @@ class DeviceConnectionService {
         case "GARMIN":
           return await this.connectGarmin();
         case "GOOGLE_FIT":
-          return await this.connectGoogleFit();
         case "FITBIT":
-          return await this.connectFitbit();
         case "WHOOP":
-          return await this.connectWhoop();
         case "POLAR":
-          return await this.connectPolar();
+          return await this.connectViaServer(deviceType);
         case "SAMSUNG_HEALTH":
           return await this.connectSamsungHealth();
         default:
@@ -13,6 +13,8 @@ interface AuthState {
   isLoading: boolean;
   error: string | null;
   isAuthenticated: boolean;
+  // Set while signIn waits for an authenticator or recovery code
+  mfaToken: string | null;
 }
 
 const initialState: AuthState = {
@@ -21,6 +23,7 @@ const initialState: AuthState = {
   isLoading: false,
   error: null,
   isAuthenticated: false,
+  mfaToken: null,
 };
 
 export const signUp = createAsyncThunk(
@@ -57,7 +60,12 @@ export const signIn = createAsyncThunk(
   async (data: SignInData, { rejectWithValue }) => {
     try {
       console.log("🔄 Starting sign in process...");
-      const response = await authAPI.signIn(data);
+      const { data: response } = await authAPI.signIn(data);
+
+      if (response.success && response.mfa_required && response.mfa_token) {
+        console.log("🔐 Sign in needs an MFA code");
+        return response;
+      }
 
       if (response.success && response.token && response.user) {
         console.log("✅ Sign in successful");
@@ -81,6 +89,41 @@ export const signIn = createAsyncThunk(
   }
 );
 
+// Second step of signIn; takes an authenticator or a recovery code
+export const verifyMfa = createAsyncThunk(
+  "auth/verifyMfa",
+  async (code: string, { getState, rejectWithValue }) => {
+    try {
+      const { mfaToken } = (getState() as { auth: AuthState }).auth;
+      if (!mfaToken) {
+        return rejectWithValue("Please sign in again");
+      }
+
+      console.log("🔄 Verifying MFA code...");
+      const { data: response } = await authAPI.verifyMfa(mfaToken, code);
+
+      if (response.success && response.token && response.user) {
+        console.log("✅ MFA verification successful");
+        return response;
+      }
+
+      return rejectWithValue(response.error || "Invalid code");
+    } catch (error: any) {
+      console.error("💥 MFA verification error:", error);
+
+      // Extract meaningful error message
+      let errorMessage = "Invalid code";
+      if (error.response?.data?.error) {
+        errorMessage = error.response.data.error;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
+
+      return rejectWithValue(errorMessage);
+    }
+  }
+);
+
 export const verifyEmail = createAsyncThunk(
   "auth/verifyEmail",
   async (data: { email: string; code: string }, { rejectWithValue }) => {
@@ -172,6 +215,11 @@ const authSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+    // Drops a pending MFA challenge, e.g. to sign in as someone else
+    cancelMfa: (state) => {
+      state.mfaToken = null;
+      state.error = null;
+    },
     // Add manual signout reducer as fallback
     forceSignOut: (state) => {
       console.log("🔄 Force sign out");
@@ -266,10 +314,17 @@ const authSlice = createSlice({
       })
       .addCase(signIn.fulfilled, (state, action) => {
         state.isLoading = false;
+        state.error = null;
+        if (action.payload.mfa_required) {
+          state.mfaToken = action.payload.mfa_token;
+          state.isAuthenticated = false;
+          console.log("🔐 Sign in awaiting MFA code");
+          return;
+        }
         state.user = action.payload.user || null;
         state.token = action.payload.token || null;
+        state.mfaToken = null;
         state.isAuthenticated = true;
-        state.error = null;
         console.log("✅ Sign in state updated");
       })
       .addCase(signIn.rejected, (state, action) => {
@@ -278,6 +333,25 @@ const authSlice = createSlice({
         state.isAuthenticated = false;
         console.log("❌ Sign in failed:", action.payload);
       })
+      .addCase(verifyMfa.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(verifyMfa.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.user = action.payload.user || null;
+        state.token = action.payload.token || null;
+        state.mfaToken = null;
+        state.isAuthenticated = true;
+        state.error = null;
+        console.log("✅ MFA sign in state updated");
+      })
+      .addCase(verifyMfa.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+        state.isAuthenticated = false;
+        console.log("❌ MFA verification failed:", action.payload);
+      })
       .addCase(signOut.pending, (state) => {
         state.isLoading = true;
       })
@@ -364,6 +438,7 @@ const authSlice = createSlice({
 
 export const {
   clearError,
+  cancelMfa,
   forceSignOut,
   updateUserSubscription,
   setQuestionnaireCompleted,
@@ -4,10 +4,11 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as SecureStore from "expo-secure-store";
 import { Platform } from "react-native";
 
-import authSlice from "./authSlice";
+import authSlice, { forceSignOut, setToken } from "./authSlice";
 import mealSlice from "./mealSlice";
 import calendarSlice from "./calendarSlice";
 import questionnaireSlice from "./questionnaireSlice";
+import { onAuthTokenChange } from "../services/api";
 
 // Cross-platform storage adapter for redux-persist
 const createCrossPlatformStorage = () => {
@@ -91,5 +92,11 @@ export const store = configureStore({
 
 export const persistor = persistStore(store);
 
+// Follow the API client's token refreshes, and sign out once the session
+// can't be refreshed any more
+onAuthTokenChange((token) => {
+  store.dispatch(token ? setToken(token) : forceSignOut());
+});
+
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
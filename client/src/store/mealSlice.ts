@@ -4,6 +4,7 @@ import {
   MealAnalysisData,
   PendingMeal,
   MealAnalysisSchema,
+  MealType,
 } from "../types";
 import { nutritionAPI, mealAPI } from "../services/api";
 import AsyncStorage from "@react-native-async-storage/async-storage";
@@ -212,6 +213,49 @@ export const processImage = async (imageUri: string): Promise<string> => {
   }
 };
 
+// Normalizes an analysis response into the pending meal shown for review and
+// keeps it in storage so it survives an app restart
+const storePendingMeal = async (
+  analysis: any,
+  source: { image_base_64: string; description?: string }
+): Promise<PendingMeal> => {
+  // Ensure ingredients array is properly formatted
+  if (analysis.ingredients && Array.isArray(analysis.ingredients)) {
+    analysis.ingredients = analysis.ingredients.map((ingredient: any) => ({
+      name: ingredient.name || "Unknown ingredient",
+      calories: Number(ingredient.calories) || 0,
+      protein: Number(ingredient.protein || ingredient.protein_g) || 0,
+      carbs: Number(ingredient.carbs || ingredient.carbs_g) || 0,
+      fat: Number(ingredient.fat || ingredient.fats_g) || 0,
+      fiber: Number(ingredient.fiber || ingredient.fiber_g) || 0,
+      sugar: Number(ingredient.sugar || ingredient.sugar_g) || 0,
+      sodium_mg: Number(ingredient.sodium_mg || ingredient.sodium) || 0,
+      serving_size_g: Number(ingredient.serving_size_g) || undefined,
+      source: ingredient.source,
+      food_id: ingredient.food_id,
+    }));
+  }
+
+  const pendingMeal: PendingMeal = {
+    ...source,
+    analysis,
+    timestamp: Date.now(),
+  };
+  console.log("Pending meal created:", pendingMeal);
+
+  // Save to storage with error handling
+  try {
+    const serializedMeal = JSON.stringify(pendingMeal);
+    await AsyncStorage.setItem(PENDING_MEAL_KEY, serializedMeal);
+    console.log("Pending meal saved to storage successfully");
+  } catch (storageError) {
+    console.warn("Failed to save pending meal to storage:", storageError);
+    // Don't fail the analysis if storage fails
+  }
+
+  return pendingMeal;
+};
+
 export const analyzeMeal = createAsyncThunk(
   "meal/analyzeMeal",
   async (
@@ -265,41 +309,9 @@ export const analyzeMeal = createAsyncThunk(
           // Continue anyway, but log the issue
         }
 
-        // Ensure ingredients array is properly formatted
-        if (
-          response.data.ingredients &&
-          Array.isArray(response.data.ingredients)
-        ) {
-          response.data.ingredients = response.data.ingredients.map(
-            (ingredient: any) => ({
-              name: ingredient.name || "Unknown ingredient",
-              calories: Number(ingredient.calories) || 0,
-              protein: Number(ingredient.protein || ingredient.protein_g) || 0,
-              carbs: Number(ingredient.carbs || ingredient.carbs_g) || 0,
-              fat: Number(ingredient.fat || ingredient.fats_g) || 0,
-              fiber: Number(ingredient.fiber || ingredient.fiber_g) || 0,
-              sugar: Number(ingredient.sugar || ingredient.sugar_g) || 0,
-              sodium_mg: Number(ingredient.sodium_mg || ingredient.sodium) || 0,
-            })
-          );
-        }
-
-        const pendingMeal: PendingMeal = {
+        const pendingMeal = await storePendingMeal(response.data, {
           image_base_64: cleanBase64, // Store clean base64 without data URL prefix
-          analysis: response.data,
-          timestamp: Date.now(),
-        };
-        console.log("Pending meal created:", pendingMeal);
-
-        // Save to storage with error handling
-        try {
-          const serializedMeal = JSON.stringify(pendingMeal);
-          await AsyncStorage.setItem(PENDING_MEAL_KEY, serializedMeal);
-          console.log("Pending meal saved to storage successfully");
-        } catch (storageError) {
-          console.warn("Failed to save pending meal to storage:", storageError);
-          // Don't fail the analysis if storage fails
-        }
+        });
 
         console.log("Analysis completed successfully");
         return pendingMeal;
@@ -354,6 +366,60 @@ export const analyzeMeal = createAsyncThunk(
   }
 );
 
+export const analyzeMealText = createAsyncThunk(
+  "meal/analyzeMealText",
+  async (
+    params: {
+      description: string;
+      source?: "text" | "voice";
+      updateText?: string;
+      language?: string;
+      editedIngredients?: any[];
+    },
+    { rejectWithValue, signal }
+  ) => {
+    try {
+      const description = params.description.trim();
+      if (!description) {
+        throw new Error("Describe the meal first");
+      }
+
+      const response = await nutritionAPI.analyzeMealText(
+        description,
+        params.updateText,
+        params.editedIngredients || [],
+        params.language || "english",
+        params.source || "text",
+        { signal }
+      );
+
+      if (response && response.success && response.data) {
+        return await storePendingMeal(response.data, {
+          image_base_64: "",
+          description,
+        });
+      }
+
+      return rejectWithValue(
+        response?.error || "Analysis failed - no data returned from server"
+      );
+    } catch (error: any) {
+      if (error.name === "AbortError") {
+        return rejectWithValue("Analysis was cancelled");
+      }
+      console.error("Text analysis error:", error);
+
+      const serverMessage = error?.response?.data?.error;
+      if (serverMessage) {
+        return rejectWithValue(serverMessage);
+      }
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Analysis failed"
+      );
+    }
+  }
+);
+
 export const validateAndFixBase64Image = (
   base64String: string
 ): string | null => {
@@ -411,9 +477,17 @@ export const updateMeal = createAsyncThunk(
   }
 );
 
+// Back-dating picked on the review screen. `date` without eaten_at lets the
+// server place the meal at the usual time for its type on that day
+export interface MealTimingChoice {
+  meal_type?: MealType;
+  date?: string;
+  eaten_at?: string;
+}
+
 export const postMeal = createAsyncThunk(
   "meal/postMeal",
-  async (_, { getState, rejectWithValue }) => {
+  async (timing: MealTimingChoice | undefined, { getState, rejectWithValue }) => {
     try {
       const state = getState() as { meal: MealState };
       const { pendingMeal } = state.meal;
@@ -428,7 +502,7 @@ export const postMeal = createAsyncThunk(
 
       console.log("Posting meal with analysis:", pendingMeal.analysis);
       const response = await nutritionAPI.saveMeal(
-        pendingMeal.analysis,
+        { ...pendingMeal.analysis, ...timing },
         pendingMeal.image_base_64
       );
 
@@ -551,6 +625,42 @@ export const duplicateMeal = createAsyncThunk(
   }
 );
 
+// Portion corrections on a saved meal ("half the rice", "skip the bread").
+// The server recomputes the meal totals, so no new analysis is needed
+export type SavedMealEdit =
+  | { type: "scaleIngredient"; index: number; multiplier: number }
+  | { type: "removeIngredient"; index: number }
+  | { type: "scaleMeal"; multiplier: number };
+
+export const editSavedMeal = createAsyncThunk(
+  "meal/editSavedMeal",
+  async (
+    { mealId, edit }: { mealId: string; edit: SavedMealEdit },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response =
+        edit.type === "scaleIngredient"
+          ? await nutritionAPI.updateMealIngredient(mealId, edit.index, {
+              portion_multiplier: edit.multiplier,
+            })
+          : edit.type === "removeIngredient"
+          ? await nutritionAPI.removeMealIngredient(mealId, edit.index)
+          : await nutritionAPI.scaleMeal(mealId, edit.multiplier);
+
+      if (response.success && response.data) {
+        return response.data;
+      }
+      return rejectWithValue(response.error || "Failed to update meal");
+    } catch (error: any) {
+      console.error("💥 Edit meal error:", error);
+      return rejectWithValue(
+        error.response?.data?.error || "Failed to update meal"
+      );
+    }
+  }
+);
+
 export const removeMeal = createAsyncThunk(
   "meal/removeMeal",
   async (mealId: string, { rejectWithValue }) => {
@@ -660,6 +770,19 @@ const mealSlice = createSlice({
         state.error = action.payload as string;
         console.log("Analysis failed:", action.payload);
       })
+      .addCase(analyzeMealText.pending, (state) => {
+        state.isAnalyzing = true;
+        state.error = null;
+      })
+      .addCase(analyzeMealText.fulfilled, (state, action) => {
+        state.isAnalyzing = false;
+        state.pendingMeal = action.payload;
+        state.error = null;
+      })
+      .addCase(analyzeMealText.rejected, (state, action) => {
+        state.isAnalyzing = false;
+        state.error = action.payload as string;
+      })
 
       // Update meal cases
       .addCase(updateMeal.pending, (state) => {
@@ -688,6 +811,25 @@ const mealSlice = createSlice({
         console.log("Update failed:", action.payload);
       })
 
+      // Saved meal edit cases
+      .addCase(editSavedMeal.pending, (state) => {
+        state.isUpdating = true;
+        state.error = null;
+      })
+      .addCase(editSavedMeal.fulfilled, (state, action) => {
+        state.isUpdating = false;
+        const index = state.meals.findIndex(
+          (meal) => meal.id === action.payload.id
+        );
+        if (index !== -1) {
+          state.meals[index] = action.payload;
+        }
+      })
+      .addCase(editSavedMeal.rejected, (state, action) => {
+        state.isUpdating = false;
+        state.error = action.payload as string;
+      })
+
       // Post meal cases
       .addCase(postMeal.pending, (state) => {
         state.isPosting = true;
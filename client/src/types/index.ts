@@ -17,6 +17,16 @@ export const SignInSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+export const MEAL_TYPES = [
+  "BREAKFAST",
+  "LUNCH",
+  "DINNER",
+  "SNACK",
+  "MORNING_SNACK",
+  "AFTERNOON_SNACK",
+] as const;
+export type MealType = (typeof MEAL_TYPES)[number];
+
 export const MealAnalysisSchema = z.object({
   meal_name: z.string(),
   description: z.string().optional(),
@@ -53,6 +63,9 @@ export const MealAnalysisSchema = z.object({
     .optional(),
   recommendations: z.string().optional(),
   health_risk_notes: z.string().optional(),
+  // When the meal was eaten; the server fills these in at analysis time
+  eaten_at: z.string().optional(),
+  meal_type: z.enum(MEAL_TYPES).optional(),
 });
 
 //
@@ -100,7 +113,11 @@ export interface Meal {
   meal_id: number;
   user_id: string;
   image_url?: string;
+  thumbnail_url?: string | null;
   upload_time: string;
+  // When the meal was eaten, which can be earlier than upload_time
+  eaten_at?: string;
+  meal_type?: MealType | null;
   analysis_status: "PENDING" | "COMPLETED";
   meal_name: string | null;
   calories: number | null;
@@ -184,6 +201,7 @@ export interface AIResponse {
 export interface PendingMeal {
   image_base_64: string;
   image_uri?: string;
+  description?: string; // Set for meals analyzed from text instead of a photo
   analysis: MealAnalysisData | null;
   timestamp: number;
   meal_id?: string; // For updates
@@ -0,0 +1,12 @@
+/**
+ * The device's calendar day as "YYYY-MM-DD". The server buckets meals,
+ * water and goals into days in the same time zone (sent as X-Time-Zone),
+ * so this is the key to ask it for "today". toISOString() gives the UTC
+ * day instead, which is a day off late at night or early in the morning.
+ */
+export const getLocalDateKey = (date: Date = new Date()): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "public"."Meal" ADD COLUMN     "is_favorite" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "favorited_at" TIMESTAMP(3),
+ADD COLUMN     "taste_rating" INTEGER,
+ADD COLUMN     "satiety_rating" INTEGER,
+ADD COLUMN     "energy_rating" INTEGER,
+ADD COLUMN     "heaviness_rating" INTEGER,
+ADD COLUMN     "feedback_updated_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Meal_user_id_is_favorite_idx" ON "public"."Meal"("user_id", "is_favorite");
+
+-- Lift favorites and ratings that were stashed in additives_json into the new columns
+UPDATE "public"."Meal"
+SET
+  "is_favorite" = COALESCE(("additives_json"->>'isFavorite')::boolean, false),
+  "favorited_at" = CASE
+    WHEN ("additives_json"->>'isFavorite')::boolean
+      THEN COALESCE(("additives_json"->>'favoriteUpdatedAt')::timestamp(3), "created_at")
+  END
+WHERE jsonb_typeof("additives_json" -> 'isFavorite') = 'boolean';
+
+UPDATE "public"."Meal"
+SET
+  "taste_rating" = CASE
+    WHEN "additives_json"->'feedback'->>'tasteRating' ~ '^[0-9]+(\.[0-9]+)?$'
+      THEN ROUND(("additives_json"->'feedback'->>'tasteRating')::numeric)::integer
+  END,
+  "satiety_rating" = CASE
+    WHEN "additives_json"->'feedback'->>'satietyRating' ~ '^[0-9]+(\.[0-9]+)?$'
+      THEN ROUND(("additives_json"->'feedback'->>'satietyRating')::numeric)::integer
+  END,
+  "energy_rating" = CASE
+    WHEN "additives_json"->'feedback'->>'energyRating' ~ '^[0-9]+(\.[0-9]+)?$'
+      THEN ROUND(("additives_json"->'feedback'->>'energyRating')::numeric)::integer
+  END,
+  "heaviness_rating" = CASE
+    WHEN "additives_json"->'feedback'->>'heavinessRating' ~ '^[0-9]+(\.[0-9]+)?$'
+      THEN ROUND(("additives_json"->'feedback'->>'heavinessRating')::numeric)::integer
+  END,
+  "feedback_updated_at" = COALESCE(
+    ("additives_json"->'feedback'->>'updatedAt')::timestamp(3),
+    "updated_at",
+    "created_at"
+  )
+WHERE jsonb_typeof("additives_json" -> 'feedback') = 'object';
+
+-- additives_json goes back to holding only AI additive data
+UPDATE "public"."Meal"
+SET "additives_json" = "additives_json" - 'isFavorite' - 'favoriteUpdatedAt' - 'feedback'
+WHERE "additives_json" ?| ARRAY['isFavorite', 'favoriteUpdatedAt', 'feedback'];
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "public"."AiFeature" AS ENUM ('MEAL_ANALYSIS', 'CHAT', 'MENU_GENERATION', 'MEAL_REPLACEMENT', 'PRODUCT_SCAN');
+
+-- CreateEnum
+CREATE TYPE "public"."AiUsageStatus" AS ENUM ('RESERVED', 'COMPLETED', 'REFUNDED');
+
+-- CreateTable
+CREATE TABLE "public"."ai_usage_events" (
+    "usage_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "feature" "public"."AiFeature" NOT NULL,
+    "status" "public"."AiUsageStatus" NOT NULL DEFAULT 'RESERVED',
+    "endpoint" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "ai_usage_events_pkey" PRIMARY KEY ("usage_id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_usage_events_user_id_created_at_idx" ON "public"."ai_usage_events"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."ai_usage_events" ADD CONSTRAINT "ai_usage_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
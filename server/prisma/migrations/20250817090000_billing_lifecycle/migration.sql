@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "public"."PaymentStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED', 'REFUNDED');
+
+-- CreateEnum
+CREATE TYPE "public"."PaymentKind" AS ENUM ('NEW_SUBSCRIPTION', 'RENEWAL', 'UPGRADE');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "subscription_auto_renew" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "subscription_pending_type" "public"."SubscriptionType",
+ADD COLUMN     "billing_payment_method" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."SubscriptionPayment" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'ILS',
+ADD COLUMN     "status" "public"."PaymentStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "kind" "public"."PaymentKind" NOT NULL DEFAULT 'NEW_SUBSCRIPTION',
+ADD COLUMN     "provider" TEXT NOT NULL DEFAULT 'manual',
+ADD COLUMN     "provider_payment_id" TEXT,
+ADD COLUMN     "invoice_number" TEXT,
+ADD COLUMN     "period_start" TIMESTAMP(3),
+ADD COLUMN     "period_end" TIMESTAMP(3),
+ADD COLUMN     "proration_credit" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "failure_reason" TEXT,
+ADD COLUMN     "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Payments recorded before the billing lifecycle existed were settled manually
+UPDATE "public"."SubscriptionPayment" SET "status" = 'SUCCEEDED';
+
+-- CreateTable
+CREATE TABLE "public"."billing_webhook_events" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "billing_webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubscriptionPayment_provider_payment_id_key" ON "public"."SubscriptionPayment"("provider_payment_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubscriptionPayment_invoice_number_key" ON "public"."SubscriptionPayment"("invoice_number");
+
+-- CreateIndex
+CREATE INDEX "SubscriptionPayment_user_id_created_at_idx" ON "public"."SubscriptionPayment"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "SubscriptionPayment_status_created_at_idx" ON "public"."SubscriptionPayment"("status", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "billing_webhook_events_provider_event_id_key" ON "public"."billing_webhook_events"("provider", "event_id");
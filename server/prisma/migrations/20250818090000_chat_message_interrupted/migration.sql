@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."ChatMessage" ADD COLUMN     "interrupted" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "public"."ChatActionStatus" AS ENUM ('PENDING', 'CONFIRMED', 'REJECTED', 'FAILED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "public"."chat_actions" (
+    "action_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "message_id" INTEGER,
+    "tool" TEXT NOT NULL,
+    "arguments" JSONB NOT NULL,
+    "summary" TEXT NOT NULL,
+    "status" "public"."ChatActionStatus" NOT NULL DEFAULT 'PENDING',
+    "result" JSONB,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolved_at" TIMESTAMP(3),
+
+    CONSTRAINT "chat_actions_pkey" PRIMARY KEY ("action_id")
+);
+
+-- CreateIndex
+CREATE INDEX "chat_actions_user_id_status_idx" ON "public"."chat_actions"("user_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."chat_actions" ADD CONSTRAINT "chat_actions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."chat_actions" ADD CONSTRAINT "chat_actions_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "public"."ChatMessage"("message_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'Asia/Jerusalem';
+
+-- AlterTable
+-- Rows were keyed by the server's local midnight; rounding to the nearest
+-- UTC midnight recovers the intended day for any server offset within 12h
+ALTER TABLE "public"."WaterIntake" ALTER COLUMN "date" SET DATA TYPE DATE USING (date_trunc('day', "date" + interval '12 hours'))::date;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "public"."GoalAdjustmentReason" AS ENUM ('QUESTIONNAIRE', 'WEEKLY_REVIEW');
+
+-- CreateTable
+CREATE TABLE "public"."goal_adjustments" (
+    "adjustment_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "effective_date" DATE NOT NULL,
+    "reason" "public"."GoalAdjustmentReason" NOT NULL,
+    "previous_calories" DOUBLE PRECISION,
+    "calories" DOUBLE PRECISION NOT NULL,
+    "protein_g" DOUBLE PRECISION NOT NULL,
+    "carbs_g" DOUBLE PRECISION NOT NULL,
+    "fats_g" DOUBLE PRECISION NOT NULL,
+    "estimated_tdee" DOUBLE PRECISION NOT NULL,
+    "avg_intake_calories" DOUBLE PRECISION,
+    "weight_trend_kg_week" DOUBLE PRECISION,
+    "explanation" TEXT NOT NULL,
+    "explanation_he" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "goal_adjustments_pkey" PRIMARY KEY ("adjustment_id")
+);
+
+-- CreateIndex
+CREATE INDEX "goal_adjustments_user_id_effective_date_idx" ON "public"."goal_adjustments"("user_id", "effective_date");
+
+-- AddForeignKey
+ALTER TABLE "public"."goal_adjustments" ADD CONSTRAINT "goal_adjustments_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."body_measurements" (
+    "measurement_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "weight_kg" DOUBLE PRECISION,
+    "body_fat_percentage" DOUBLE PRECISION,
+    "waist_cm" DOUBLE PRECISION,
+    "hips_cm" DOUBLE PRECISION,
+    "chest_cm" DOUBLE PRECISION,
+    "neck_cm" DOUBLE PRECISION,
+    "arm_cm" DOUBLE PRECISION,
+    "thigh_cm" DOUBLE PRECISION,
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "body_measurements_pkey" PRIMARY KEY ("measurement_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "body_measurements_user_id_date_key" ON "public"."body_measurements"("user_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."body_measurements" ADD CONSTRAINT "body_measurements_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."Meal" ADD COLUMN     "eaten_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "meal_type" "public"."MealTiming";
+
+-- Existing meals were counted on the day they were logged
+UPDATE "public"."Meal" SET "eaten_at" = "created_at";
+
+-- CreateIndex
+CREATE INDEX "Meal_user_id_eaten_at_idx" ON "public"."Meal"("user_id", "eaten_at");
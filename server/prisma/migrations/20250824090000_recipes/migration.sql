@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "public"."recipes" (
+    "recipe_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "servings" DOUBLE PRECISION NOT NULL,
+    "ingredients" JSONB NOT NULL DEFAULT '[]',
+    "total_weight_g" DOUBLE PRECISION,
+    "calories" DOUBLE PRECISION NOT NULL,
+    "protein_g" DOUBLE PRECISION NOT NULL,
+    "carbs_g" DOUBLE PRECISION NOT NULL,
+    "fats_g" DOUBLE PRECISION NOT NULL,
+    "fiber_g" DOUBLE PRECISION NOT NULL,
+    "sugar_g" DOUBLE PRECISION NOT NULL,
+    "sodium_mg" DOUBLE PRECISION NOT NULL,
+    "source_meal_id" INTEGER,
+    "share_token" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recipes_pkey" PRIMARY KEY ("recipe_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recipes_share_token_key" ON "public"."recipes"("share_token");
+
+-- CreateIndex
+CREATE INDEX "recipes_user_id_idx" ON "public"."recipes"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."recipes" ADD CONSTRAINT "recipes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,118 @@
+-- CreateEnum
+CREATE TYPE "public"."ProductSource" AS ENUM ('OPEN_FOOD_FACTS', 'AI_IMAGE_SCAN', 'USER_SUBMISSION');
+
+-- CreateEnum
+CREATE TYPE "public"."CorrectionStatus" AS ENUM ('PENDING', 'ACCEPTED', 'REJECTED', 'WITHDRAWN');
+
+-- DropForeignKey
+ALTER TABLE "public"."FoodProduct" DROP CONSTRAINT "FoodProduct_user_id_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."FoodProduct" ALTER COLUMN "user_id" DROP NOT NULL,
+ADD COLUMN     "source" "public"."ProductSource" NOT NULL DEFAULT 'OPEN_FOOD_FACTS',
+ADD COLUMN     "nutrition_version" INTEGER NOT NULL DEFAULT 1;
+
+-- Products saved from image scans were given made-up img_ barcodes
+UPDATE "public"."FoodProduct" SET "source" = 'AI_IMAGE_SCAN' WHERE "barcode" LIKE 'img\_%';
+
+-- CreateTable
+CREATE TABLE "public"."food_product_versions" (
+    "version_id" TEXT NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "nutrition_per_100g" JSONB NOT NULL,
+    "source" "public"."ProductSource" NOT NULL,
+    "correction_id" TEXT,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "food_product_versions_pkey" PRIMARY KEY ("version_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."product_corrections" (
+    "correction_id" TEXT NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "nutrition_per_100g" JSONB NOT NULL,
+    "product_name" TEXT,
+    "brand" TEXT,
+    "note" TEXT,
+    "base_version" INTEGER NOT NULL,
+    "status" "public"."CorrectionStatus" NOT NULL DEFAULT 'PENDING',
+    "approvals" INTEGER NOT NULL DEFAULT 0,
+    "rejections" INTEGER NOT NULL DEFAULT 0,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_corrections_pkey" PRIMARY KEY ("correction_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."product_correction_votes" (
+    "vote_id" TEXT NOT NULL,
+    "correction_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "approve" BOOLEAN NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_correction_votes_pkey" PRIMARY KEY ("vote_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."product_scans" (
+    "scan_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "scanned_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_scans_pkey" PRIMARY KEY ("scan_id")
+);
+
+-- Existing products start their history at version 1, and their first
+-- scanners keep them in their scan history
+INSERT INTO "public"."food_product_versions" ("version_id", "product_id", "version", "nutrition_per_100g", "source", "created_by", "created_at")
+SELECT 'initial_' || "product_id", "product_id", 1, "nutrition_per_100g", "source", "user_id", "created_at" FROM "public"."FoodProduct";
+
+INSERT INTO "public"."product_scans" ("scan_id", "user_id", "product_id", "scanned_at")
+SELECT 'initial_' || "product_id", "user_id", "product_id", "created_at" FROM "public"."FoodProduct";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "food_product_versions_product_id_version_key" ON "public"."food_product_versions"("product_id", "version");
+
+-- CreateIndex
+CREATE INDEX "product_corrections_product_id_status_idx" ON "public"."product_corrections"("product_id", "status");
+
+-- CreateIndex
+CREATE INDEX "product_corrections_user_id_idx" ON "public"."product_corrections"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_correction_votes_correction_id_user_id_key" ON "public"."product_correction_votes"("correction_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "product_scans_user_id_scanned_at_idx" ON "public"."product_scans"("user_id", "scanned_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."FoodProduct" ADD CONSTRAINT "FoodProduct_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."food_product_versions" ADD CONSTRAINT "food_product_versions_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."FoodProduct"("product_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_corrections" ADD CONSTRAINT "product_corrections_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."FoodProduct"("product_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_corrections" ADD CONSTRAINT "product_corrections_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_correction_votes" ADD CONSTRAINT "product_correction_votes_correction_id_fkey" FOREIGN KEY ("correction_id") REFERENCES "public"."product_corrections"("correction_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_correction_votes" ADD CONSTRAINT "product_correction_votes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_scans" ADD CONSTRAINT "product_scans_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_scans" ADD CONSTRAINT "product_scans_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."FoodProduct"("product_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "public"."shopping_lists" ADD COLUMN     "menu_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."shopping_list_members" (
+    "member_id" TEXT NOT NULL,
+    "list_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shopping_list_members_pkey" PRIMARY KEY ("member_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."pantry_items" (
+    "item_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "name_key" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION,
+    "unit" TEXT,
+    "category" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pantry_items_pkey" PRIMARY KEY ("item_id")
+);
+
+-- CreateIndex
+CREATE INDEX "shopping_list_members_user_id_idx" ON "public"."shopping_list_members"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shopping_list_members_list_id_user_id_key" ON "public"."shopping_list_members"("list_id", "user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pantry_items_user_id_name_key_key" ON "public"."pantry_items"("user_id", "name_key");
+
+-- AddForeignKey
+ALTER TABLE "public"."shopping_lists" ADD CONSTRAINT "shopping_lists_menu_id_fkey" FOREIGN KEY ("menu_id") REFERENCES "public"."recommended_menus"("menu_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."shopping_list_members" ADD CONSTRAINT "shopping_list_members_list_id_fkey" FOREIGN KEY ("list_id") REFERENCES "public"."shopping_lists"("list_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."shopping_list_members" ADD CONSTRAINT "shopping_list_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."pantry_items" ADD CONSTRAINT "pantry_items_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
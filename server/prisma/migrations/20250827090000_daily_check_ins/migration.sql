@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "public"."CheckInPeriod" AS ENUM ('MORNING', 'AFTERNOON', 'EVENING');
+
+-- CreateTable
+CREATE TABLE "public"."daily_check_ins" (
+    "checkin_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "period" "public"."CheckInPeriod" NOT NULL,
+    "checked_in_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "mood" INTEGER NOT NULL,
+    "energy" INTEGER NOT NULL,
+    "hunger" INTEGER NOT NULL,
+    "digestion" INTEGER,
+    "sleep_quality" INTEGER,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "daily_check_ins_pkey" PRIMARY KEY ("checkin_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "daily_check_ins_user_id_date_period_key" ON "public"."daily_check_ins"("user_id", "date", "period");
+
+-- AddForeignKey
+ALTER TABLE "public"."daily_check_ins" ADD CONSTRAINT "daily_check_ins_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
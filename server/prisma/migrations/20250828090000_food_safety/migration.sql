@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."FoodSafetySource" AS ENUM ('RECOMMENDED_MENU', 'MENU_MEAL_REPLACEMENT', 'MEAL_PLAN', 'PLAN_MEAL_REPLACEMENT', 'PRODUCT_SCAN');
+
+-- CreateEnum
+CREATE TYPE "public"."FoodSafetyAction" AS ENUM ('REGENERATED', 'REMOVED', 'FLAGGED');
+
+-- AlterTable
+ALTER TABLE "public"."meal_templates" ADD COLUMN     "safety_flags" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."recommended_meals" ADD COLUMN     "safety_flags" JSONB;
+
+-- CreateTable
+CREATE TABLE "public"."food_safety_flags" (
+    "flag_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "source" "public"."FoodSafetySource" NOT NULL,
+    "reference_id" TEXT,
+    "item_name" TEXT NOT NULL,
+    "action" "public"."FoodSafetyAction" NOT NULL,
+    "violations" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "food_safety_flags_pkey" PRIMARY KEY ("flag_id")
+);
+
+-- CreateIndex
+CREATE INDEX "food_safety_flags_user_id_created_at_idx" ON "public"."food_safety_flags"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."food_safety_flags" ADD CONSTRAINT "food_safety_flags_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
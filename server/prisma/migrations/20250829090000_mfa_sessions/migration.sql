@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "mfa_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "mfa_last_used_step" INTEGER,
+ADD COLUMN     "mfa_secret" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."sessions" ADD COLUMN     "device" TEXT,
+ADD COLUMN     "ip_address" TEXT,
+ADD COLUMN     "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "user_agent" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."mfa_recovery_codes" (
+    "code_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "code_hash" TEXT NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mfa_recovery_codes_pkey" PRIMARY KEY ("code_id")
+);
+
+-- CreateIndex
+CREATE INDEX "sessions_user_id_idx" ON "public"."sessions"("user_id");
+
+-- CreateIndex
+CREATE INDEX "mfa_recovery_codes_user_id_idx" ON "public"."mfa_recovery_codes"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."mfa_recovery_codes" ADD CONSTRAINT "mfa_recovery_codes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
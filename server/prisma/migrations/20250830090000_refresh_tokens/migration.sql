@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."sessions" ADD COLUMN     "refresh_token_hash" TEXT,
+ADD COLUMN     "refreshed_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sessions_refresh_token_hash_key" ON "public"."sessions"("refresh_token_hash");
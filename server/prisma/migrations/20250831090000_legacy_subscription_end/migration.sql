@@ -0,0 +1,21 @@
+-- Paid plans from before the billing lifecycle have no period end, so
+-- renewals never picked them up. End them at the next monthly anniversary
+-- of their start; from there renewal charges them or drops them to FREE.
+UPDATE "public"."User" AS u
+SET "subscription_end" = legacy."anchor"
+  + make_interval(months => legacy."elapsed_months" + 1)
+FROM (
+  SELECT
+    "user_id",
+    COALESCE("subscription_start", CURRENT_TIMESTAMP) AS "anchor",
+    GREATEST(
+      0,
+      (
+        EXTRACT(YEAR FROM age(CURRENT_TIMESTAMP, "subscription_start")) * 12
+        + EXTRACT(MONTH FROM age(CURRENT_TIMESTAMP, "subscription_start"))
+      )::int
+    ) AS "elapsed_months"
+  FROM "public"."User"
+  WHERE "subscription_type" <> 'FREE' AND "subscription_end" IS NULL
+) AS legacy
+WHERE u."user_id" = legacy."user_id";
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."CorrectionStatus" ADD VALUE 'SUPERSEDED';
@@ -21,7 +21,15 @@ import { healthRoutes } from "./routes/health";
 import { CronJobService } from "./services/cronJobs";
 import "./services/cron";
 import { dailyGoalsRoutes } from "./routes/dailyGoal";
+import { bodyMetricsRoutes } from "./routes/bodyMetrics";
+import { checkInsRoutes } from "./routes/checkIns";
+import { foodSafetyRoutes } from "./routes/foodSafety";
+import { foodsRoutes } from "./routes/foods";
+import { recipesRoutes } from "./routes/recipes";
+import { shoppingListsRoutes } from "./routes/shoppingLists";
 import achievementsRouter from "./routes/achievements";
+import { imageRoutes } from "./routes/images";
+import { billingRoutes } from "./routes/billing";
 
 // Load environment variables
 dotenv.config();
@@ -89,7 +97,7 @@ const corsOptions = {
   ].filter(Boolean) as string[],
   credentials: true,
   methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization", "Cookie"],
+  allowedHeaders: ["Content-Type", "Authorization", "Cookie", "X-Time-Zone"],
 };
 
 app.use(cors(corsOptions));
@@ -99,6 +107,13 @@ app.use(
   express.json({
     limit: "10mb",
     type: ["application/json", "text/plain"],
+    // Billing webhooks are signed over the exact bytes the provider sent.
+    // body-parser types req as the bare IncomingMessage it extends
+    verify: (req: express.Request, _res, buf) => {
+      if (req.url?.startsWith("/api/billing/webhooks/")) {
+        req.rawBody = Buffer.from(buf);
+      }
+    },
   })
 );
 app.use(
@@ -146,6 +161,15 @@ apiRouter.use("/calendar", calendarRoutes);
 apiRouter.use("/meal-plans", mealPlansRoutes);
 apiRouter.use("/chat", chatRoutes);
 apiRouter.use("/food-scanner", foodScannerRoutes);
+// Mounted before the "/" routers, which authenticate every request they see
+apiRouter.use("/images", imageRoutes);
+apiRouter.use("/billing", billingRoutes);
+apiRouter.use("/body-metrics", bodyMetricsRoutes);
+apiRouter.use("/check-ins", checkInsRoutes);
+apiRouter.use("/food-safety", foodSafetyRoutes);
+apiRouter.use("/foods", foodsRoutes);
+apiRouter.use("/recipes", recipesRoutes);
+apiRouter.use("/shopping-lists", shoppingListsRoutes);
 apiRouter.use("/", statisticsRoutes);
 apiRouter.use("/daily-goals", dailyGoalsRoutes);
 apiRouter.use("/", achievementsRouter);
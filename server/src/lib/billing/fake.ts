@@ -0,0 +1,109 @@
+import crypto from "crypto";
+import { IncomingHttpHeaders } from "http";
+import {
+  BillingEvent,
+  BillingProvider,
+  ChargeRequest,
+  ChargeResult,
+  RefundRequest,
+} from "./types";
+
+const SIGNATURE_HEADER = "x-fake-billing-signature";
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export type WebhookDelivery = (
+  rawBody: Buffer,
+  headers: IncomingHttpHeaders
+) => Promise<unknown>;
+
+/**
+ * Local stand-in for a real payment provider. It never moves money: every
+ * charge succeeds except payment method tokens ending in "0002" (the usual
+ * test-card decline number), and the outcome is delivered as a signed
+ * webhook after a short delay, exactly like a real provider would.
+ */
+export class FakeBillingProvider implements BillingProvider {
+  readonly name = "fake";
+  private deliver?: WebhookDelivery;
+
+  constructor(
+    private readonly webhookSecret: string,
+    private readonly deliveryDelayMs: number = 500
+  ) {}
+
+  setWebhookDelivery(deliver: WebhookDelivery) {
+    this.deliver = deliver;
+  }
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    const providerPaymentId = `fake_pay_${crypto.randomUUID()}`;
+    const declined = request.paymentMethodToken.endsWith("0002");
+
+    const event: BillingEvent = {
+      id: `fake_evt_${crypto.randomUUID()}`,
+      type: declined ? "payment.failed" : "payment.succeeded",
+      providerPaymentId,
+      paymentId: request.paymentId,
+      failureReason: declined ? "card_declined" : undefined,
+    };
+
+    setTimeout(() => {
+      const rawBody = Buffer.from(JSON.stringify(event));
+      this.deliver?.(rawBody, {
+        [SIGNATURE_HEADER]: this.sign(rawBody),
+      })?.catch((error) =>
+        console.error("💥 Fake billing webhook delivery failed:", error)
+      );
+    }, this.deliveryDelayMs);
+
+    console.log(
+      `💳 Fake charge ${providerPaymentId}: ${request.amount} ${request.currency} (${event.type})`
+    );
+    return { providerPaymentId };
+  }
+
+  async refund(request: RefundRequest): Promise<void> {
+    console.log(
+      `↩️ Fake refund ${request.providerPaymentId}: ${request.amount} ${request.currency} (${request.reason})`
+    );
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): BillingEvent {
+    const header = headers[SIGNATURE_HEADER];
+    const match =
+      typeof header === "string" && header.match(/^t=(\d+),v1=([a-f0-9]+)$/);
+    if (!match) {
+      throw new Error("Missing webhook signature");
+    }
+
+    const [, timestamp, signature] = match;
+    if (
+      Math.abs(Date.now() / 1000 - Number(timestamp)) >
+      SIGNATURE_TOLERANCE_SECONDS
+    ) {
+      throw new Error("Webhook signature has expired");
+    }
+
+    const expected = this.hmac(timestamp, rawBody);
+    if (
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    return JSON.parse(rawBody.toString("utf8")) as BillingEvent;
+  }
+
+  sign(rawBody: Buffer, timestamp: number = Math.floor(Date.now() / 1000)) {
+    return `t=${timestamp},v1=${this.hmac(String(timestamp), rawBody)}`;
+  }
+
+  private hmac(timestamp: string, rawBody: Buffer): string {
+    return crypto
+      .createHmac("sha256", this.webhookSecret)
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest("hex");
+  }
+}
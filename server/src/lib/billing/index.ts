@@ -0,0 +1,55 @@
+import { FakeBillingProvider } from "./fake";
+import { BillingProvider } from "./types";
+
+export { FakeBillingProvider } from "./fake";
+export type {
+  BillingEvent,
+  BillingProvider,
+  ChargeRequest,
+  ChargeResult,
+  RefundRequest,
+} from "./types";
+
+let provider: BillingProvider | undefined;
+
+// Provider is picked once from BILLING_PROVIDER ("fake" is the only one
+// bundled; real providers implement BillingProvider the same way)
+export function getBillingProvider(): BillingProvider {
+  if (provider) return provider;
+
+  const providerName = (process.env.BILLING_PROVIDER || "fake").toLowerCase();
+
+  switch (providerName) {
+    case "fake": {
+      // The fake provider approves any card, so it must never take real
+      // traffic by accident
+      if (
+        process.env.NODE_ENV === "production" &&
+        process.env.BILLING_ALLOW_FAKE_PROVIDER !== "true"
+      ) {
+        throw new Error(
+          "The fake billing provider is disabled in production; set BILLING_PROVIDER"
+        );
+      }
+
+      const webhookSecret =
+        process.env.BILLING_WEBHOOK_SECRET || process.env.JWT_SECRET;
+      if (!webhookSecret) {
+        throw new Error(
+          "BILLING_WEBHOOK_SECRET (or JWT_SECRET) must be set for the fake billing provider"
+        );
+      }
+
+      provider = new FakeBillingProvider(
+        webhookSecret,
+        Number(process.env.FAKE_BILLING_DELAY_MS) || 500
+      );
+      break;
+    }
+    default:
+      throw new Error(`Unknown BILLING_PROVIDER: ${providerName}`);
+  }
+
+  console.log(`💳 Billing provider: ${provider.name}`);
+  return provider;
+}
@@ -0,0 +1,46 @@
+import { IncomingHttpHeaders } from "http";
+
+export interface ChargeRequest {
+  // Our SubscriptionPayment id, echoed back in webhook events
+  paymentId: number;
+  userId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  paymentMethodToken: string;
+}
+
+export interface ChargeResult {
+  providerPaymentId: string;
+}
+
+export interface RefundRequest {
+  paymentId: number;
+  providerPaymentId: string;
+  amount: number;
+  currency: string;
+  reason: string;
+}
+
+export type BillingEventType = "payment.succeeded" | "payment.failed";
+
+export interface BillingEvent {
+  id: string;
+  type: BillingEventType;
+  providerPaymentId: string;
+  paymentId?: number;
+  failureReason?: string;
+}
+
+/**
+ * A payment provider. Charges are asynchronous: charge() only submits the
+ * payment, and its outcome arrives later as a signed webhook.
+ */
+export interface BillingProvider {
+  readonly name: string;
+  charge(request: ChargeRequest): Promise<ChargeResult>;
+  // Gives a settled charge back; refunding the same payment twice is a no-op
+  refund(request: RefundRequest): Promise<void>;
+  // Throws when the signature doesn't match the payload
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): BillingEvent;
+}
@@ -0,0 +1,1520 @@
+import { FoodRecord, NutrientsPer100g } from "./types";
+
+/**
+ * Bundled food composition table. Values are per 100 g of the food as it is
+ * eaten (cooked grains and meat, drained canned fish), rounded from USDA
+ * FoodData Central, or from typical Israeli label values for local staples
+ * it doesn't list.
+ */
+
+function per100(
+  calories: number,
+  protein_g: number,
+  carbs_g: number,
+  fats_g: number,
+  fiber_g: number,
+  sugar_g: number,
+  sodium_mg: number
+): NutrientsPer100g {
+  return { calories, protein_g, carbs_g, fats_g, fiber_g, sugar_g, sodium_mg };
+}
+
+export const FOODS: FoodRecord[] = [
+  // Meat, fish and eggs
+  {
+    id: "chicken_breast",
+    name: "Chicken breast, cooked",
+    name_he: "חזה עוף מבושל",
+    category: "protein",
+    aliases: ["chicken breast", "chicken", "חזה עוף", "עוף"],
+    per_100g: per100(165, 31, 0, 3.6, 0, 0, 74),
+    serving_g: 120,
+    units: { piece: 120 },
+  },
+  {
+    id: "chicken_thigh",
+    name: "Chicken thigh, cooked, skinless",
+    name_he: "פרגית",
+    category: "protein",
+    aliases: [
+      "chicken thigh",
+      "boneless chicken thigh",
+      "פרגית",
+      "פרגיות",
+      "ירך עוף",
+      "שוק עוף",
+    ],
+    per_100g: per100(209, 26, 0, 10.9, 0, 0, 88),
+    serving_g: 110,
+    units: { piece: 100 },
+  },
+  {
+    id: "turkey_breast",
+    name: "Turkey breast, roasted",
+    name_he: "חזה הודו צלוי",
+    category: "protein",
+    aliases: ["turkey breast", "turkey", "חזה הודו", "הודו"],
+    per_100g: per100(135, 30, 0, 1.5, 0, 0, 55),
+    serving_g: 120,
+    units: { slice: 20 },
+  },
+  {
+    id: "schnitzel",
+    name: "Chicken schnitzel, breaded and fried",
+    name_he: "שניצל עוף",
+    category: "protein",
+    aliases: [
+      "schnitzel",
+      "chicken schnitzel",
+      "breaded chicken",
+      "שניצל",
+      "שניצל עוף",
+    ],
+    per_100g: per100(260, 18, 12, 15, 0.7, 0.5, 450),
+    serving_g: 150,
+    units: { piece: 130 },
+  },
+  {
+    id: "ground_beef",
+    name: "Ground beef 85% lean, cooked",
+    name_he: "בשר בקר טחון מבושל",
+    category: "protein",
+    aliases: [
+      "ground beef",
+      "minced beef",
+      "beef mince",
+      "בשר טחון",
+      "בקר טחון",
+    ],
+    per_100g: per100(250, 26, 0, 15, 0, 0, 72),
+    serving_g: 100,
+  },
+  {
+    id: "beef_steak",
+    name: "Beef steak, cooked",
+    name_he: "סטייק בקר",
+    category: "protein",
+    aliases: [
+      "steak",
+      "beef steak",
+      "sirloin",
+      "entrecote",
+      "beef",
+      "סטייק",
+      "אנטריקוט",
+      "בשר בקר",
+    ],
+    per_100g: per100(200, 28, 0, 9, 0, 0, 60),
+    serving_g: 200,
+  },
+  {
+    id: "salmon",
+    name: "Salmon, cooked",
+    name_he: "סלמון מבושל",
+    category: "protein",
+    aliases: ["salmon", "salmon fillet", "סלמון", "פילה סלמון"],
+    per_100g: per100(206, 22, 0, 12, 0, 0, 61),
+    serving_g: 150,
+  },
+  {
+    id: "tuna_water",
+    name: "Tuna, canned in water",
+    name_he: "טונה במים",
+    category: "protein",
+    aliases: ["tuna", "canned tuna", "tuna in water", "טונה", "טונה במים"],
+    per_100g: per100(116, 26, 0, 0.8, 0, 0, 338),
+    serving_g: 100,
+  },
+  {
+    id: "tuna_oil",
+    name: "Tuna, canned in oil, drained",
+    name_he: "טונה בשמן",
+    category: "protein",
+    aliases: ["tuna in oil", "טונה בשמן"],
+    per_100g: per100(198, 29, 0, 8.2, 0, 0, 354),
+    serving_g: 100,
+  },
+  {
+    id: "white_fish",
+    name: "White fish (tilapia), cooked",
+    name_he: "דג אמנון מבושל",
+    category: "protein",
+    aliases: [
+      "white fish",
+      "tilapia",
+      "fish",
+      "fish fillet",
+      "אמנון",
+      "דג",
+      "דג לבן",
+      "פילה דג",
+    ],
+    per_100g: per100(128, 26, 0, 2.7, 0, 0, 56),
+    serving_g: 150,
+  },
+  {
+    id: "shrimp",
+    name: "Shrimp, cooked",
+    name_he: "שרימפס",
+    category: "protein",
+    aliases: ["shrimp", "prawns", "שרימפס"],
+    per_100g: per100(99, 24, 0.2, 0.3, 0, 0, 111),
+    serving_g: 100,
+  },
+  {
+    id: "egg",
+    name: "Egg, whole, boiled",
+    name_he: "ביצה",
+    category: "protein",
+    aliases: [
+      "egg",
+      "eggs",
+      "boiled egg",
+      "hard boiled egg",
+      "ביצה",
+      "ביצים",
+      "ביצה קשה",
+    ],
+    per_100g: per100(155, 13, 1.1, 11, 0, 1.1, 124),
+    serving_g: 50,
+    units: { piece: 50 },
+  },
+  {
+    id: "egg_white",
+    name: "Egg white",
+    name_he: "חלבון ביצה",
+    category: "protein",
+    aliases: ["egg white", "egg whites", "חלבון ביצה", "חלבונים"],
+    per_100g: per100(52, 11, 0.7, 0.2, 0, 0.7, 166),
+    serving_g: 66,
+    units: { piece: 33 },
+  },
+  {
+    id: "omelette",
+    name: "Omelette",
+    name_he: "חביתה",
+    category: "protein",
+    aliases: [
+      "omelette",
+      "omelet",
+      "scrambled eggs",
+      "fried egg",
+      "חביתה",
+      "אומלט",
+      "ביצה מקושקשת",
+      "ביצת עין",
+    ],
+    per_100g: per100(154, 11, 0.6, 12, 0, 0.6, 155),
+    serving_g: 120,
+  },
+  {
+    id: "tofu",
+    name: "Tofu, firm",
+    name_he: "טופו",
+    category: "protein",
+    aliases: ["tofu", "firm tofu", "טופו"],
+    per_100g: per100(144, 17, 2.8, 8.7, 2.3, 0.6, 14),
+    serving_g: 100,
+  },
+  {
+    id: "shawarma",
+    name: "Chicken shawarma, meat only",
+    name_he: "שווארמה עוף",
+    category: "protein",
+    aliases: ["shawarma", "chicken shawarma", "שווארמה", "שווארמה עוף"],
+    per_100g: per100(220, 24, 3, 12, 0.5, 1, 550),
+    serving_g: 150,
+  },
+  {
+    id: "kebab",
+    name: "Kebab, grilled",
+    name_he: "קבב",
+    category: "protein",
+    aliases: ["kebab", "kabab", "kofta", "קבב"],
+    per_100g: per100(250, 17, 4, 18, 0.5, 1, 450),
+    serving_g: 120,
+    units: { piece: 40 },
+  },
+  {
+    id: "sausage",
+    name: "Sausage / hot dog",
+    name_he: "נקניקייה",
+    category: "protein",
+    aliases: [
+      "sausage",
+      "hot dog",
+      "frankfurter",
+      "נקניקייה",
+      "נקניקיה",
+      "נקניקיות",
+    ],
+    per_100g: per100(290, 11, 4, 26, 0, 2, 1000),
+    serving_g: 50,
+    units: { piece: 50 },
+  },
+
+  // Dairy
+  {
+    id: "milk_3",
+    name: "Milk 3%",
+    name_he: "חלב 3%",
+    category: "dairy",
+    aliases: ["milk", "whole milk", "חלב", "חלב 3%"],
+    per_100g: per100(60, 3.2, 4.7, 3, 0, 4.7, 44),
+    serving_g: 240,
+    units: { cup: 244 },
+  },
+  {
+    id: "milk_1",
+    name: "Milk 1%",
+    name_he: "חלב 1%",
+    category: "dairy",
+    aliases: ["low fat milk", "skim milk", "חלב 1%", "חלב דל שומן"],
+    per_100g: per100(42, 3.4, 5, 1, 0, 5, 44),
+    serving_g: 240,
+    units: { cup: 244 },
+  },
+  {
+    id: "yogurt",
+    name: "Yogurt, plain 3%",
+    name_he: "יוגורט 3%",
+    category: "dairy",
+    aliases: ["yogurt", "plain yogurt", "יוגורט", "יוגורט טבעי"],
+    per_100g: per100(61, 3.5, 4.7, 3.3, 0, 4.7, 46),
+    serving_g: 150,
+    units: { cup: 245 },
+  },
+  {
+    id: "greek_yogurt",
+    name: "Greek yogurt 0%",
+    name_he: "יוגורט יווני 0%",
+    category: "dairy",
+    aliases: ["greek yogurt", "יוגורט יווני"],
+    per_100g: per100(59, 10, 3.6, 0.4, 0, 3.2, 36),
+    serving_g: 150,
+    units: { cup: 245 },
+  },
+  {
+    id: "cottage_cheese",
+    name: "Cottage cheese 5%",
+    name_he: "קוטג' 5%",
+    category: "dairy",
+    aliases: ["cottage", "cottage cheese", "קוטג'", "קוטג"],
+    per_100g: per100(97, 11, 2, 5, 0, 2, 350),
+    serving_g: 100,
+    units: { cup: 250, tbsp: 20 },
+  },
+  {
+    id: "white_cheese",
+    name: "White cheese 5%",
+    name_he: "גבינה לבנה 5%",
+    category: "dairy",
+    aliases: ["white cheese", "quark", "soft white cheese", "גבינה לבנה"],
+    per_100g: per100(96, 9, 3.5, 5, 0, 3.5, 40),
+    serving_g: 100,
+    units: { tbsp: 20 },
+  },
+  {
+    id: "labneh",
+    name: "Labneh",
+    name_he: "לבנה",
+    category: "dairy",
+    aliases: ["labneh", "labane", "לבנה", "לאבנה"],
+    per_100g: per100(160, 6, 4, 13.5, 0, 4, 450),
+    serving_g: 50,
+    units: { tbsp: 20 },
+  },
+  {
+    id: "yellow_cheese",
+    name: "Yellow cheese (gouda type)",
+    name_he: "גבינה צהובה",
+    category: "dairy",
+    aliases: [
+      "yellow cheese",
+      "gouda",
+      "cheddar",
+      "cheese",
+      "גבינה צהובה",
+      "גבינה",
+    ],
+    per_100g: per100(356, 25, 2.2, 27, 0, 2.2, 819),
+    serving_g: 30,
+    units: { slice: 20 },
+  },
+  {
+    id: "mozzarella",
+    name: "Mozzarella",
+    name_he: "מוצרלה",
+    category: "dairy",
+    aliases: ["mozzarella", "מוצרלה"],
+    per_100g: per100(300, 22, 2.2, 22, 0, 1, 627),
+    serving_g: 30,
+  },
+  {
+    id: "feta",
+    name: "Feta / Bulgarian cheese",
+    name_he: "גבינה בולגרית",
+    category: "dairy",
+    aliases: [
+      "feta",
+      "bulgarian cheese",
+      "פטה",
+      "גבינה בולגרית",
+      "בולגרית",
+      "גבינת פטה",
+    ],
+    per_100g: per100(264, 14, 4.1, 21, 0, 4.1, 1116),
+    serving_g: 30,
+  },
+  {
+    id: "parmesan",
+    name: "Parmesan",
+    name_he: "פרמזן",
+    category: "dairy",
+    aliases: ["parmesan", "parmigiano", "פרמזן"],
+    per_100g: per100(392, 36, 3.2, 26, 0, 0.8, 1602),
+    serving_g: 10,
+    units: { tbsp: 5 },
+  },
+  {
+    id: "cream_cheese",
+    name: "Cream cheese",
+    name_he: "גבינת שמנת",
+    category: "dairy",
+    aliases: ["cream cheese", "גבינת שמנת"],
+    per_100g: per100(342, 6, 4, 34, 0, 3.2, 321),
+    serving_g: 30,
+    units: { tbsp: 15 },
+  },
+  {
+    id: "butter",
+    name: "Butter",
+    name_he: "חמאה",
+    category: "dairy",
+    aliases: ["butter", "חמאה"],
+    per_100g: per100(717, 0.9, 0.1, 81, 0, 0.1, 11),
+    serving_g: 10,
+    units: { tbsp: 14, tsp: 5 },
+  },
+
+  // Grains, bread and starches
+  {
+    id: "white_rice",
+    name: "White rice, cooked",
+    name_he: "אורז לבן מבושל",
+    category: "grains",
+    aliases: ["rice", "white rice", "cooked rice", "אורז", "אורז לבן"],
+    per_100g: per100(130, 2.7, 28, 0.3, 0.4, 0.1, 1),
+    serving_g: 160,
+    units: { cup: 158 },
+  },
+  {
+    id: "brown_rice",
+    name: "Brown rice, cooked",
+    name_he: "אורז מלא מבושל",
+    category: "grains",
+    aliases: ["brown rice", "whole grain rice", "אורז מלא"],
+    per_100g: per100(123, 2.7, 25.6, 1, 1.6, 0.2, 4),
+    serving_g: 160,
+    units: { cup: 195 },
+  },
+  {
+    id: "pasta",
+    name: "Pasta, cooked",
+    name_he: "פסטה מבושלת",
+    category: "grains",
+    aliases: [
+      "pasta",
+      "spaghetti",
+      "penne",
+      "macaroni",
+      "noodles",
+      "פסטה",
+      "ספגטי",
+      "מקרוני",
+      "אטריות",
+    ],
+    per_100g: per100(158, 5.8, 31, 0.9, 1.8, 0.6, 1),
+    serving_g: 200,
+    units: { cup: 140 },
+  },
+  {
+    id: "whole_wheat_pasta",
+    name: "Whole wheat pasta, cooked",
+    name_he: "פסטה מלאה מבושלת",
+    category: "grains",
+    aliases: ["whole wheat pasta", "whole grain pasta", "פסטה מלאה"],
+    per_100g: per100(149, 6, 30, 1.7, 3.9, 0.8, 4),
+    serving_g: 200,
+    units: { cup: 140 },
+  },
+  {
+    id: "ptitim",
+    name: "Ptitim (Israeli couscous), cooked",
+    name_he: "פתיתים מבושלים",
+    category: "grains",
+    aliases: ["ptitim", "israeli couscous", "pearl couscous", "פתיתים"],
+    per_100g: per100(155, 5, 31, 1.2, 1.5, 0.5, 5),
+    serving_g: 160,
+    units: { cup: 160 },
+  },
+  {
+    id: "couscous",
+    name: "Couscous, cooked",
+    name_he: "קוסקוס מבושל",
+    category: "grains",
+    aliases: ["couscous", "קוסקוס"],
+    per_100g: per100(112, 3.8, 23, 0.2, 1.4, 0.1, 5),
+    serving_g: 160,
+    units: { cup: 157 },
+  },
+  {
+    id: "quinoa",
+    name: "Quinoa, cooked",
+    name_he: "קינואה מבושלת",
+    category: "grains",
+    aliases: ["quinoa", "קינואה"],
+    per_100g: per100(120, 4.4, 21, 1.9, 2.8, 0.9, 7),
+    serving_g: 160,
+    units: { cup: 185 },
+  },
+  {
+    id: "bulgur",
+    name: "Bulgur, cooked",
+    name_he: "בורגול מבושל",
+    category: "grains",
+    aliases: ["bulgur", "burghul", "בורגול"],
+    per_100g: per100(83, 3.1, 19, 0.2, 4.5, 0.1, 5),
+    serving_g: 160,
+    units: { cup: 182 },
+  },
+  {
+    id: "oats",
+    name: "Rolled oats, dry",
+    name_he: "שיבולת שועל",
+    category: "grains",
+    aliases: ["oats", "rolled oats", "oat flakes", "שיבולת שועל", "קוואקר"],
+    per_100g: per100(379, 13, 68, 6.5, 10.1, 1, 6),
+    serving_g: 40,
+    units: { cup: 80, tbsp: 5 },
+  },
+  {
+    id: "oatmeal",
+    name: "Oatmeal porridge, cooked with water",
+    name_he: "דייסת שיבולת שועל",
+    category: "grains",
+    aliases: [
+      "oatmeal",
+      "porridge",
+      "דייסה",
+      "דייסת שיבולת שועל",
+      "דייסת קוואקר",
+    ],
+    per_100g: per100(71, 2.5, 12, 1.5, 1.7, 0.3, 4),
+    serving_g: 234,
+    units: { cup: 234 },
+  },
+  {
+    id: "white_bread",
+    name: "White bread",
+    name_he: "לחם לבן",
+    category: "grains",
+    aliases: ["bread", "white bread", "toast", "לחם", "לחם לבן", "טוסט"],
+    per_100g: per100(265, 9, 49, 3.2, 2.7, 5, 491),
+    serving_g: 60,
+    units: { slice: 30 },
+  },
+  {
+    id: "whole_wheat_bread",
+    name: "Whole wheat bread",
+    name_he: "לחם מלא",
+    category: "grains",
+    aliases: [
+      "whole wheat bread",
+      "whole grain bread",
+      "brown bread",
+      "לחם מלא",
+      "לחם חיטה מלאה",
+    ],
+    per_100g: per100(252, 12.5, 43, 3.5, 6, 4.4, 450),
+    serving_g: 66,
+    units: { slice: 33 },
+  },
+  {
+    id: "pita",
+    name: "Pita",
+    name_he: "פיתה",
+    category: "grains",
+    aliases: ["pita", "pita bread", "פיתה", "פיתות"],
+    per_100g: per100(275, 9, 56, 1.2, 2.2, 1.3, 536),
+    serving_g: 70,
+    units: { piece: 70 },
+  },
+  {
+    id: "laffa",
+    name: "Laffa",
+    name_he: "לאפה",
+    category: "grains",
+    aliases: ["laffa", "lafa", "לאפה"],
+    per_100g: per100(275, 9, 56, 1.2, 2.2, 1.3, 536),
+    serving_g: 120,
+    units: { piece: 120 },
+  },
+  {
+    id: "challah",
+    name: "Challah",
+    name_he: "חלה",
+    category: "grains",
+    aliases: ["challah", "חלה"],
+    per_100g: per100(290, 8, 50, 6, 2, 7, 450),
+    serving_g: 40,
+    units: { slice: 40 },
+  },
+  {
+    id: "bagel",
+    name: "Bagel",
+    name_he: "בייגל",
+    category: "grains",
+    aliases: ["bagel", "בייגל"],
+    per_100g: per100(250, 10, 49, 1.5, 2.1, 6, 439),
+    serving_g: 100,
+    units: { piece: 100 },
+  },
+  {
+    id: "tortilla",
+    name: "Flour tortilla",
+    name_he: "טורטייה",
+    category: "grains",
+    aliases: ["tortilla", "wrap", "טורטייה", "טורטיה", "ראפ"],
+    per_100g: per100(306, 8, 50, 8, 3.5, 2.5, 700),
+    serving_g: 45,
+    units: { piece: 45 },
+  },
+  {
+    id: "rice_cake",
+    name: "Rice cake",
+    name_he: "פריכית אורז",
+    category: "grains",
+    aliases: ["rice cake", "rice cakes", "פריכית", "פריכיות", "פריכיות אורז"],
+    per_100g: per100(387, 8.2, 82, 2.8, 4.2, 0.9, 29),
+    serving_g: 18,
+    units: { piece: 9 },
+  },
+  {
+    id: "cornflakes",
+    name: "Corn flakes",
+    name_he: "קורנפלקס",
+    category: "grains",
+    aliases: ["cornflakes", "corn flakes", "cereal", "קורנפלקס", "דגני בוקר"],
+    per_100g: per100(357, 7.5, 84, 0.4, 3.3, 9.5, 729),
+    serving_g: 30,
+    units: { cup: 28 },
+  },
+  {
+    id: "granola",
+    name: "Granola",
+    name_he: "גרנולה",
+    category: "grains",
+    aliases: ["granola", "muesli", "גרנולה", "מוזלי"],
+    per_100g: per100(471, 10, 64, 20, 5, 20, 26),
+    serving_g: 50,
+    units: { cup: 120, tbsp: 10 },
+  },
+  {
+    id: "potato",
+    name: "Potato, boiled",
+    name_he: "תפוח אדמה מבושל",
+    category: "grains",
+    aliases: [
+      "potato",
+      "boiled potato",
+      "baked potato",
+      "mashed potato",
+      "תפוח אדמה",
+      "תפוחי אדמה",
+      "פירה",
+    ],
+    per_100g: per100(87, 1.9, 20, 0.1, 1.8, 0.9, 4),
+    serving_g: 150,
+    units: { piece: 150, cup: 210 },
+  },
+  {
+    id: "french_fries",
+    name: "French fries",
+    name_he: "צ'יפס",
+    category: "grains",
+    aliases: ["fries", "french fries", "chips", "צ'יפס", "ציפס"],
+    per_100g: per100(312, 3.4, 41, 15, 3.8, 0.3, 210),
+    serving_g: 120,
+  },
+  {
+    id: "sweet_potato",
+    name: "Sweet potato, baked",
+    name_he: "בטטה אפויה",
+    category: "grains",
+    aliases: ["sweet potato", "yam", "בטטה"],
+    per_100g: per100(90, 2, 21, 0.2, 3.3, 6.5, 36),
+    serving_g: 150,
+    units: { piece: 150 },
+  },
+  {
+    id: "corn",
+    name: "Corn kernels, cooked",
+    name_he: "תירס",
+    category: "grains",
+    aliases: ["corn", "sweet corn", "corn on the cob", "תירס"],
+    per_100g: per100(96, 3.4, 21, 1.5, 2.4, 4.5, 1),
+    serving_g: 100,
+    units: { cup: 164, piece: 100 },
+  },
+
+  // Legumes and Middle Eastern dishes
+  {
+    id: "hummus",
+    name: "Hummus",
+    name_he: "חומוס",
+    category: "legumes",
+    aliases: ["hummus", "houmous", "חומוס", "ממרח חומוס"],
+    per_100g: per100(166, 7.9, 14, 9.6, 6, 0.3, 379),
+    serving_g: 100,
+    units: { tbsp: 15 },
+  },
+  {
+    id: "tahini_raw",
+    name: "Tahini paste, raw",
+    name_he: "טחינה גולמית",
+    category: "legumes",
+    aliases: ["tahini paste", "raw tahini", "sesame paste", "טחינה גולמית"],
+    per_100g: per100(595, 17, 21, 54, 9.3, 0.5, 115),
+    serving_g: 15,
+    units: { tbsp: 15, tsp: 5 },
+  },
+  {
+    id: "tahini",
+    name: "Tahini sauce, prepared",
+    name_he: "טחינה",
+    category: "legumes",
+    aliases: ["tahini", "tahini sauce", "tahina", "טחינה", "רוטב טחינה"],
+    per_100g: per100(300, 8.5, 10.5, 27, 4.6, 0.3, 250),
+    serving_g: 30,
+    units: { tbsp: 15 },
+  },
+  {
+    id: "falafel",
+    name: "Falafel",
+    name_he: "פלאפל",
+    category: "legumes",
+    aliases: ["falafel", "falafel balls", "פלאפל", "כדורי פלאפל"],
+    per_100g: per100(333, 13.3, 31.8, 17.8, 4.9, 0, 294),
+    serving_g: 100,
+    units: { piece: 17 },
+  },
+  {
+    id: "chickpeas",
+    name: "Chickpeas, cooked",
+    name_he: "גרגרי חומוס מבושלים",
+    category: "legumes",
+    aliases: ["chickpeas", "garbanzo beans", "גרגרי חומוס", "חומוס מבושל"],
+    per_100g: per100(164, 8.9, 27, 2.6, 7.6, 4.8, 7),
+    serving_g: 160,
+    units: { cup: 164 },
+  },
+  {
+    id: "lentils",
+    name: "Lentils, cooked",
+    name_he: "עדשים מבושלות",
+    category: "legumes",
+    aliases: ["lentils", "עדשים", "עדשים מבושלות"],
+    per_100g: per100(116, 9, 20, 0.4, 7.9, 1.8, 2),
+    serving_g: 200,
+    units: { cup: 198 },
+  },
+  {
+    id: "beans",
+    name: "Beans, cooked",
+    name_he: "שעועית מבושלת",
+    category: "legumes",
+    aliases: [
+      "beans",
+      "kidney beans",
+      "black beans",
+      "white beans",
+      "שעועית",
+      "שעועית לבנה",
+      "שעועית אדומה",
+    ],
+    per_100g: per100(127, 8.7, 23, 0.5, 6.4, 0.3, 2),
+    serving_g: 170,
+    units: { cup: 177 },
+  },
+  {
+    id: "shakshuka",
+    name: "Shakshuka",
+    name_he: "שקשוקה",
+    category: "dishes",
+    aliases: ["shakshuka", "shakshouka", "שקשוקה"],
+    per_100g: per100(110, 6, 5, 7.5, 1.3, 3, 300),
+    serving_g: 250,
+  },
+  {
+    id: "bourekas",
+    name: "Bourekas, cheese",
+    name_he: "בורקס גבינה",
+    category: "dishes",
+    aliases: [
+      "bourekas",
+      "burekas",
+      "borekas",
+      "cheese bourekas",
+      "בורקס",
+      "בורקס גבינה",
+    ],
+    per_100g: per100(350, 8, 30, 22, 1, 2, 450),
+    serving_g: 90,
+    units: { piece: 90 },
+  },
+
+  // Vegetables
+  {
+    id: "vegetable_salad",
+    name: "Vegetable salad, no dressing",
+    name_he: "סלט ירקות",
+    category: "vegetables",
+    aliases: [
+      "salad",
+      "vegetable salad",
+      "israeli salad",
+      "chopped salad",
+      "green salad",
+      "סלט",
+      "סלט ירקות",
+      "סלט ישראלי",
+      "סלט קצוץ",
+    ],
+    per_100g: per100(20, 1, 4, 0.2, 1.5, 2.5, 10),
+    serving_g: 150,
+    units: { cup: 150 },
+  },
+  {
+    id: "tomato",
+    name: "Tomato",
+    name_he: "עגבנייה",
+    category: "vegetables",
+    aliases: [
+      "tomato",
+      "tomatoes",
+      "cherry tomatoes",
+      "עגבנייה",
+      "עגבניה",
+      "עגבניות",
+      "עגבניות שרי",
+    ],
+    per_100g: per100(18, 0.9, 3.9, 0.2, 1.2, 2.6, 5),
+    serving_g: 120,
+    units: { piece: 120, cup: 180 },
+  },
+  {
+    id: "cucumber",
+    name: "Cucumber",
+    name_he: "מלפפון",
+    category: "vegetables",
+    aliases: ["cucumber", "cucumbers", "מלפפון", "מלפפונים"],
+    per_100g: per100(15, 0.7, 3.6, 0.1, 0.5, 1.7, 2),
+    serving_g: 100,
+    units: { piece: 100, cup: 120 },
+  },
+  {
+    id: "lettuce",
+    name: "Lettuce",
+    name_he: "חסה",
+    category: "vegetables",
+    aliases: ["lettuce", "romaine", "חסה"],
+    per_100g: per100(15, 1.4, 2.9, 0.2, 1.3, 0.8, 28),
+    serving_g: 50,
+    units: { cup: 47 },
+  },
+  {
+    id: "carrot",
+    name: "Carrot",
+    name_he: "גזר",
+    category: "vegetables",
+    aliases: ["carrot", "carrots", "גזר"],
+    per_100g: per100(41, 0.9, 9.6, 0.2, 2.8, 4.7, 69),
+    serving_g: 60,
+    units: { piece: 60, cup: 128 },
+  },
+  {
+    id: "bell_pepper",
+    name: "Bell pepper",
+    name_he: "פלפל",
+    category: "vegetables",
+    aliases: [
+      "bell pepper",
+      "pepper",
+      "red pepper",
+      "capsicum",
+      "פלפל",
+      "פלפל אדום",
+      "גמבה",
+    ],
+    per_100g: per100(31, 1, 6, 0.3, 2.1, 4.2, 4),
+    serving_g: 120,
+    units: { piece: 120, cup: 150 },
+  },
+  {
+    id: "onion",
+    name: "Onion",
+    name_he: "בצל",
+    category: "vegetables",
+    aliases: ["onion", "onions", "בצל"],
+    per_100g: per100(40, 1.1, 9.3, 0.1, 1.7, 4.2, 4),
+    serving_g: 110,
+    units: { piece: 110, cup: 160 },
+  },
+  {
+    id: "broccoli",
+    name: "Broccoli, cooked",
+    name_he: "ברוקולי",
+    category: "vegetables",
+    aliases: ["broccoli", "ברוקולי"],
+    per_100g: per100(35, 2.4, 7.2, 0.4, 3.3, 1.4, 41),
+    serving_g: 150,
+    units: { cup: 156 },
+  },
+  {
+    id: "cauliflower",
+    name: "Cauliflower",
+    name_he: "כרובית",
+    category: "vegetables",
+    aliases: ["cauliflower", "כרובית"],
+    per_100g: per100(25, 1.9, 5, 0.3, 2, 1.9, 30),
+    serving_g: 100,
+    units: { cup: 107 },
+  },
+  {
+    id: "spinach",
+    name: "Spinach",
+    name_he: "תרד",
+    category: "vegetables",
+    aliases: ["spinach", "תרד"],
+    per_100g: per100(23, 2.9, 3.6, 0.4, 2.2, 0.4, 79),
+    serving_g: 60,
+    units: { cup: 30 },
+  },
+  {
+    id: "zucchini",
+    name: "Zucchini",
+    name_he: "קישוא",
+    category: "vegetables",
+    aliases: ["zucchini", "courgette", "קישוא", "קישואים"],
+    per_100g: per100(17, 1.2, 3.1, 0.3, 1, 2.5, 8),
+    serving_g: 200,
+    units: { piece: 200, cup: 124 },
+  },
+  {
+    id: "eggplant",
+    name: "Eggplant",
+    name_he: "חציל",
+    category: "vegetables",
+    aliases: ["eggplant", "aubergine", "חציל", "חצילים"],
+    per_100g: per100(25, 1, 6, 0.2, 3, 3.5, 2),
+    serving_g: 150,
+    units: { piece: 450, cup: 82 },
+  },
+  {
+    id: "mushrooms",
+    name: "Mushrooms",
+    name_he: "פטריות",
+    category: "vegetables",
+    aliases: ["mushrooms", "mushroom", "champignon", "פטריות", "פטריה"],
+    per_100g: per100(22, 3.1, 3.3, 0.3, 1, 2, 5),
+    serving_g: 70,
+    units: { cup: 70 },
+  },
+  {
+    id: "green_beans",
+    name: "Green beans",
+    name_he: "שעועית ירוקה",
+    category: "vegetables",
+    aliases: ["green beans", "string beans", "שעועית ירוקה"],
+    per_100g: per100(31, 1.8, 7, 0.2, 2.7, 3.3, 6),
+    serving_g: 100,
+    units: { cup: 100 },
+  },
+  {
+    id: "cabbage",
+    name: "Cabbage",
+    name_he: "כרוב",
+    category: "vegetables",
+    aliases: ["cabbage", "coleslaw", "כרוב"],
+    per_100g: per100(25, 1.3, 5.8, 0.1, 2.5, 3.2, 18),
+    serving_g: 90,
+    units: { cup: 89 },
+  },
+  {
+    id: "beet",
+    name: "Beet",
+    name_he: "סלק",
+    category: "vegetables",
+    aliases: ["beet", "beets", "beetroot", "סלק"],
+    per_100g: per100(43, 1.6, 9.6, 0.2, 2.8, 6.8, 78),
+    serving_g: 80,
+    units: { piece: 80, cup: 136 },
+  },
+  {
+    id: "peas",
+    name: "Green peas",
+    name_he: "אפונה",
+    category: "vegetables",
+    aliases: ["peas", "green peas", "אפונה"],
+    per_100g: per100(81, 5.4, 14.5, 0.4, 5.1, 5.7, 5),
+    serving_g: 80,
+    units: { cup: 145 },
+  },
+
+  // Fruit
+  {
+    id: "apple",
+    name: "Apple",
+    name_he: "תפוח עץ",
+    category: "fruits",
+    aliases: ["apple", "apples", "תפוח", "תפוח עץ", "תפוחים"],
+    per_100g: per100(52, 0.3, 14, 0.2, 2.4, 10.4, 1),
+    serving_g: 180,
+    units: { piece: 180 },
+  },
+  {
+    id: "banana",
+    name: "Banana",
+    name_he: "בננה",
+    category: "fruits",
+    aliases: ["banana", "bananas", "בננה", "בננות"],
+    per_100g: per100(89, 1.1, 23, 0.3, 2.6, 12.2, 1),
+    serving_g: 118,
+    units: { piece: 118 },
+  },
+  {
+    id: "orange",
+    name: "Orange",
+    name_he: "תפוז",
+    category: "fruits",
+    aliases: ["orange", "oranges", "תפוז", "תפוזים"],
+    per_100g: per100(47, 0.9, 11.8, 0.1, 2.4, 9.4, 0),
+    serving_g: 130,
+    units: { piece: 130 },
+  },
+  {
+    id: "clementine",
+    name: "Clementine",
+    name_he: "קלמנטינה",
+    category: "fruits",
+    aliases: ["clementine", "mandarin", "tangerine", "קלמנטינה", "מנדרינה"],
+    per_100g: per100(53, 0.8, 13.3, 0.3, 1.8, 10.6, 2),
+    serving_g: 75,
+    units: { piece: 75 },
+  },
+  {
+    id: "grapes",
+    name: "Grapes",
+    name_he: "ענבים",
+    category: "fruits",
+    aliases: ["grapes", "ענבים"],
+    per_100g: per100(69, 0.7, 18, 0.2, 0.9, 15.5, 2),
+    serving_g: 150,
+    units: { cup: 151 },
+  },
+  {
+    id: "strawberries",
+    name: "Strawberries",
+    name_he: "תותים",
+    category: "fruits",
+    aliases: ["strawberries", "strawberry", "תותים", "תות"],
+    per_100g: per100(32, 0.7, 7.7, 0.3, 2, 4.9, 1),
+    serving_g: 150,
+    units: { cup: 152, piece: 12 },
+  },
+  {
+    id: "blueberries",
+    name: "Blueberries",
+    name_he: "אוכמניות",
+    category: "fruits",
+    aliases: ["blueberries", "אוכמניות"],
+    per_100g: per100(57, 0.7, 14.5, 0.3, 2.4, 10, 1),
+    serving_g: 100,
+    units: { cup: 148 },
+  },
+  {
+    id: "watermelon",
+    name: "Watermelon",
+    name_he: "אבטיח",
+    category: "fruits",
+    aliases: ["watermelon", "אבטיח"],
+    per_100g: per100(30, 0.6, 7.6, 0.2, 0.4, 6.2, 1),
+    serving_g: 280,
+    units: { cup: 152, slice: 280 },
+  },
+  {
+    id: "melon",
+    name: "Melon",
+    name_he: "מלון",
+    category: "fruits",
+    aliases: ["melon", "cantaloupe", "מלון"],
+    per_100g: per100(34, 0.8, 8.2, 0.2, 0.9, 7.9, 16),
+    serving_g: 160,
+    units: { cup: 160, slice: 100 },
+  },
+  {
+    id: "mango",
+    name: "Mango",
+    name_he: "מנגו",
+    category: "fruits",
+    aliases: ["mango", "מנגו"],
+    per_100g: per100(60, 0.8, 15, 0.4, 1.6, 13.7, 1),
+    serving_g: 200,
+    units: { piece: 200, cup: 165 },
+  },
+  {
+    id: "pear",
+    name: "Pear",
+    name_he: "אגס",
+    category: "fruits",
+    aliases: ["pear", "אגס", "אגסים"],
+    per_100g: per100(57, 0.4, 15, 0.1, 3.1, 9.8, 1),
+    serving_g: 178,
+    units: { piece: 178 },
+  },
+  {
+    id: "peach",
+    name: "Peach",
+    name_he: "אפרסק",
+    category: "fruits",
+    aliases: ["peach", "nectarine", "אפרסק", "נקטרינה"],
+    per_100g: per100(39, 0.9, 9.5, 0.3, 1.5, 8.4, 0),
+    serving_g: 150,
+    units: { piece: 150 },
+  },
+  {
+    id: "kiwi",
+    name: "Kiwi",
+    name_he: "קיווי",
+    category: "fruits",
+    aliases: ["kiwi", "kiwifruit", "קיווי"],
+    per_100g: per100(61, 1.1, 14.7, 0.5, 3, 9, 3),
+    serving_g: 70,
+    units: { piece: 70 },
+  },
+  {
+    id: "pomegranate",
+    name: "Pomegranate seeds",
+    name_he: "גרעיני רימון",
+    category: "fruits",
+    aliases: ["pomegranate", "pomegranate seeds", "רימון", "גרעיני רימון"],
+    per_100g: per100(83, 1.7, 18.7, 1.2, 4, 13.7, 3),
+    serving_g: 90,
+    units: { cup: 174 },
+  },
+  {
+    id: "dates",
+    name: "Dates (Medjool)",
+    name_he: "תמרים",
+    category: "fruits",
+    aliases: ["dates", "date", "medjool", "תמר", "תמרים", "מג'הול"],
+    per_100g: per100(277, 1.8, 75, 0.2, 6.7, 66, 1),
+    serving_g: 48,
+    units: { piece: 24 },
+  },
+
+  // Fats, nuts and seeds
+  {
+    id: "olive_oil",
+    name: "Olive oil",
+    name_he: "שמן זית",
+    category: "fats",
+    aliases: ["olive oil", "שמן זית"],
+    per_100g: per100(884, 0, 0, 100, 0, 0, 2),
+    serving_g: 14,
+    units: { tbsp: 13.5, tsp: 4.5 },
+  },
+  {
+    id: "vegetable_oil",
+    name: "Vegetable oil",
+    name_he: "שמן צמחי",
+    category: "fats",
+    aliases: [
+      "oil",
+      "vegetable oil",
+      "canola oil",
+      "sunflower oil",
+      "שמן",
+      "שמן קנולה",
+      "שמן צמחי",
+      "שמן חמניות",
+    ],
+    per_100g: per100(884, 0, 0, 100, 0, 0, 0),
+    serving_g: 14,
+    units: { tbsp: 14, tsp: 4.5 },
+  },
+  {
+    id: "avocado",
+    name: "Avocado",
+    name_he: "אבוקדו",
+    category: "fats",
+    aliases: ["avocado", "guacamole", "אבוקדו", "גוואקמולי"],
+    per_100g: per100(160, 2, 8.5, 14.7, 6.7, 0.7, 7),
+    serving_g: 70,
+    units: { piece: 150, tbsp: 15 },
+  },
+  {
+    id: "green_olives",
+    name: "Green olives",
+    name_he: "זיתים ירוקים",
+    category: "fats",
+    aliases: ["olives", "green olives", "זיתים", "זיתים ירוקים"],
+    per_100g: per100(145, 1, 3.8, 15, 3.3, 0.5, 1556),
+    serving_g: 30,
+    units: { piece: 4 },
+  },
+  {
+    id: "black_olives",
+    name: "Black olives",
+    name_he: "זיתים שחורים",
+    category: "fats",
+    aliases: ["black olives", "kalamata", "זיתים שחורים", "קלמטה"],
+    per_100g: per100(115, 0.8, 6, 10.7, 3.2, 0, 735),
+    serving_g: 30,
+    units: { piece: 4 },
+  },
+  {
+    id: "almonds",
+    name: "Almonds",
+    name_he: "שקדים",
+    category: "nuts",
+    aliases: ["almonds", "almond", "שקדים", "שקד"],
+    per_100g: per100(579, 21, 22, 50, 12.5, 4.4, 1),
+    serving_g: 30,
+    units: { cup: 143, piece: 1.2 },
+  },
+  {
+    id: "walnuts",
+    name: "Walnuts",
+    name_he: "אגוזי מלך",
+    category: "nuts",
+    aliases: ["walnuts", "walnut", "אגוזי מלך", "אגוז מלך"],
+    per_100g: per100(654, 15, 14, 65, 6.7, 2.6, 2),
+    serving_g: 30,
+    units: { cup: 100, piece: 4 },
+  },
+  {
+    id: "peanuts",
+    name: "Peanuts",
+    name_he: "בוטנים",
+    category: "nuts",
+    aliases: ["peanuts", "בוטנים"],
+    per_100g: per100(567, 26, 16, 49, 8.5, 4, 18),
+    serving_g: 30,
+    units: { cup: 146 },
+  },
+  {
+    id: "cashews",
+    name: "Cashews",
+    name_he: "קשיו",
+    category: "nuts",
+    aliases: ["cashews", "cashew", "קשיו", "אגוזי קשיו"],
+    per_100g: per100(553, 18, 30, 44, 3.3, 5.9, 12),
+    serving_g: 30,
+    units: { cup: 137 },
+  },
+  {
+    id: "sunflower_seeds",
+    name: "Sunflower seeds, shelled",
+    name_he: "גרעיני חמנייה",
+    category: "nuts",
+    aliases: [
+      "sunflower seeds",
+      "seeds",
+      "גרעינים",
+      "גרעיני חמנייה",
+      "גרעיני חמניה",
+    ],
+    per_100g: per100(584, 21, 20, 51, 8.6, 2.6, 9),
+    serving_g: 30,
+    units: { tbsp: 9 },
+  },
+  {
+    id: "peanut_butter",
+    name: "Peanut butter",
+    name_he: "חמאת בוטנים",
+    category: "nuts",
+    aliases: ["peanut butter", "חמאת בוטנים"],
+    per_100g: per100(588, 25, 20, 50, 6, 9, 17),
+    serving_g: 32,
+    units: { tbsp: 16, tsp: 5 },
+  },
+
+  // Sweets and snacks
+  {
+    id: "bamba",
+    name: "Bamba (peanut puffs)",
+    name_he: "במבה",
+    category: "sweets",
+    aliases: ["bamba", "peanut puffs", "במבה"],
+    per_100g: per100(540, 15, 37, 35, 3, 2.5, 400),
+    serving_g: 25,
+  },
+  {
+    id: "milk_chocolate",
+    name: "Milk chocolate",
+    name_he: "שוקולד חלב",
+    category: "sweets",
+    aliases: ["chocolate", "milk chocolate", "שוקולד", "שוקולד חלב"],
+    per_100g: per100(535, 7.7, 59, 30, 3.4, 52, 79),
+    serving_g: 25,
+    units: { piece: 5 },
+  },
+  {
+    id: "dark_chocolate",
+    name: "Dark chocolate 70-85%",
+    name_he: "שוקולד מריר",
+    category: "sweets",
+    aliases: ["dark chocolate", "bittersweet chocolate", "שוקולד מריר"],
+    per_100g: per100(598, 7.8, 46, 43, 11, 24, 20),
+    serving_g: 25,
+    units: { piece: 5 },
+  },
+  {
+    id: "cookie",
+    name: "Chocolate chip cookie",
+    name_he: "עוגייה",
+    category: "sweets",
+    aliases: ["cookie", "cookies", "biscuit", "עוגייה", "עוגיה", "עוגיות"],
+    per_100g: per100(488, 5.4, 64, 24, 2.4, 35, 350),
+    serving_g: 30,
+    units: { piece: 15 },
+  },
+  {
+    id: "ice_cream",
+    name: "Ice cream, vanilla",
+    name_he: "גלידה",
+    category: "sweets",
+    aliases: ["ice cream", "גלידה"],
+    per_100g: per100(207, 3.5, 24, 11, 0.7, 21, 80),
+    serving_g: 66,
+    units: { cup: 132, piece: 66 },
+  },
+  {
+    id: "honey",
+    name: "Honey",
+    name_he: "דבש",
+    category: "sweets",
+    aliases: ["honey", "דבש"],
+    per_100g: per100(304, 0.3, 82, 0, 0.2, 82, 4),
+    serving_g: 21,
+    units: { tbsp: 21, tsp: 7 },
+  },
+  {
+    id: "sugar",
+    name: "Sugar",
+    name_he: "סוכר",
+    category: "sweets",
+    aliases: ["sugar", "סוכר"],
+    per_100g: per100(387, 0, 100, 0, 0, 100, 1),
+    serving_g: 4,
+    units: { tsp: 4, tbsp: 12.5 },
+  },
+  {
+    id: "jam",
+    name: "Jam",
+    name_he: "ריבה",
+    category: "sweets",
+    aliases: ["jam", "jelly", "preserves", "ריבה"],
+    per_100g: per100(278, 0.4, 69, 0.1, 1.1, 49, 32),
+    serving_g: 20,
+    units: { tbsp: 20, tsp: 7 },
+  },
+
+  // Drinks
+  {
+    id: "orange_juice",
+    name: "Orange juice",
+    name_he: "מיץ תפוזים",
+    category: "drinks",
+    aliases: ["orange juice", "juice", "מיץ תפוזים", "מיץ"],
+    per_100g: per100(45, 0.7, 10.4, 0.2, 0.2, 8.4, 1),
+    serving_g: 240,
+    units: { cup: 248 },
+  },
+  {
+    id: "cola",
+    name: "Cola",
+    name_he: "קולה",
+    category: "drinks",
+    aliases: [
+      "cola",
+      "coke",
+      "coca cola",
+      "soda",
+      "soft drink",
+      "קולה",
+      "קוקה קולה",
+    ],
+    per_100g: per100(42, 0, 10.6, 0, 0, 10.6, 4),
+    serving_g: 330,
+    units: { cup: 240, piece: 330 },
+  },
+  {
+    id: "coffee",
+    name: "Coffee, black",
+    name_he: "קפה שחור",
+    category: "drinks",
+    aliases: [
+      "coffee",
+      "black coffee",
+      "espresso",
+      "americano",
+      "קפה",
+      "קפה שחור",
+      "אספרסו",
+    ],
+    per_100g: per100(1, 0.1, 0, 0, 0, 0, 2),
+    serving_g: 240,
+    units: { cup: 240 },
+  },
+  {
+    id: "latte",
+    name: "Latte / cappuccino",
+    name_he: "קפה הפוך",
+    category: "drinks",
+    aliases: [
+      "latte",
+      "cappuccino",
+      "flat white",
+      "קפה הפוך",
+      "הפוך",
+      "לאטה",
+      "קפוצ'ינו",
+    ],
+    per_100g: per100(45, 2.5, 3.6, 2.3, 0, 3.6, 35),
+    serving_g: 240,
+    units: { cup: 240 },
+  },
+  {
+    id: "tea",
+    name: "Tea, unsweetened",
+    name_he: "תה",
+    category: "drinks",
+    aliases: ["tea", "green tea", "תה", "תה ירוק"],
+    per_100g: per100(1, 0, 0.3, 0, 0, 0, 3),
+    serving_g: 240,
+    units: { cup: 240 },
+  },
+  {
+    id: "beer",
+    name: "Beer",
+    name_he: "בירה",
+    category: "drinks",
+    aliases: ["beer", "lager", "בירה"],
+    per_100g: per100(43, 0.5, 3.6, 0, 0, 0, 4),
+    serving_g: 330,
+    units: { cup: 240, piece: 330 },
+  },
+  {
+    id: "wine",
+    name: "Wine",
+    name_he: "יין",
+    category: "drinks",
+    aliases: ["wine", "red wine", "white wine", "יין", "יין אדום", "יין לבן"],
+    per_100g: per100(85, 0.1, 2.6, 0, 0, 0.6, 4),
+    serving_g: 150,
+    units: { cup: 150 },
+  },
+
+  // Sauces
+  {
+    id: "ketchup",
+    name: "Ketchup",
+    name_he: "קטשופ",
+    category: "sauces",
+    aliases: ["ketchup", "catsup", "קטשופ"],
+    per_100g: per100(101, 1, 27, 0.1, 0.3, 22, 907),
+    serving_g: 17,
+    units: { tbsp: 17, tsp: 6 },
+  },
+  {
+    id: "mayonnaise",
+    name: "Mayonnaise",
+    name_he: "מיונז",
+    category: "sauces",
+    aliases: ["mayonnaise", "mayo", "aioli", "מיונז", "איולי"],
+    per_100g: per100(680, 1, 0.6, 75, 0, 0.6, 635),
+    serving_g: 14,
+    units: { tbsp: 14, tsp: 5 },
+  },
+  {
+    id: "soy_sauce",
+    name: "Soy sauce",
+    name_he: "רוטב סויה",
+    category: "sauces",
+    aliases: ["soy sauce", "soya sauce", "רוטב סויה", "סויה"],
+    per_100g: per100(53, 8, 4.9, 0.6, 0.8, 0.4, 5493),
+    serving_g: 16,
+    units: { tbsp: 16, tsp: 5 },
+  },
+  {
+    id: "tomato_sauce",
+    name: "Tomato pasta sauce",
+    name_he: "רוטב עגבניות",
+    category: "sauces",
+    aliases: [
+      "tomato sauce",
+      "marinara",
+      "pasta sauce",
+      "רוטב עגבניות",
+      "רוטב פסטה",
+    ],
+    per_100g: per100(50, 1.4, 8, 1.5, 1.9, 5.5, 400),
+    serving_g: 125,
+    units: { cup: 250, tbsp: 16 },
+  },
+
+  // Prepared dishes
+  {
+    id: "pizza",
+    name: "Pizza, cheese",
+    name_he: "פיצה",
+    category: "dishes",
+    aliases: ["pizza", "cheese pizza", "margherita", "פיצה", "פיצה מרגריטה"],
+    per_100g: per100(266, 11, 33, 10, 2.3, 3.6, 598),
+    serving_g: 214,
+    units: { slice: 107 },
+  },
+  {
+    id: "hamburger",
+    name: "Hamburger in a bun",
+    name_he: "המבורגר בלחמנייה",
+    category: "dishes",
+    aliases: ["hamburger", "burger", "cheeseburger", "המבורגר", "צ'יזבורגר"],
+    per_100g: per100(250, 13, 24, 11, 1.5, 5, 500),
+    serving_g: 200,
+    units: { piece: 200 },
+  },
+  {
+    id: "sushi",
+    name: "Sushi roll",
+    name_he: "סושי",
+    category: "dishes",
+    aliases: ["sushi", "maki", "sushi roll", "סושי"],
+    per_100g: per100(145, 6, 28, 1, 0.9, 4, 400),
+    serving_g: 180,
+    units: { piece: 30 },
+  },
+  {
+    id: "chicken_soup",
+    name: "Chicken soup",
+    name_he: "מרק עוף",
+    category: "dishes",
+    aliases: ["chicken soup", "chicken noodle soup", "מרק עוף"],
+    per_100g: per100(36, 2.5, 4, 1.2, 0.4, 0.5, 350),
+    serving_g: 250,
+    units: { cup: 240 },
+  },
+];
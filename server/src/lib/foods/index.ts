@@ -0,0 +1,7 @@
+export { FOODS } from "./data";
+export type {
+  FoodCategory,
+  FoodRecord,
+  FoodUnit,
+  NutrientsPer100g,
+} from "./types";
@@ -0,0 +1,40 @@
+export type FoodCategory =
+  | "protein"
+  | "dairy"
+  | "grains"
+  | "legumes"
+  | "vegetables"
+  | "fruits"
+  | "fats"
+  | "nuts"
+  | "sweets"
+  | "drinks"
+  | "sauces"
+  | "dishes";
+
+export type FoodUnit = "cup" | "tbsp" | "tsp" | "slice" | "piece";
+
+export interface NutrientsPer100g {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  sugar_g: number;
+  sodium_mg: number;
+}
+
+export interface FoodRecord {
+  id: string;
+  name: string;
+  name_he: string;
+  category: FoodCategory;
+  // Other names the food goes by, in English and Hebrew; matched the same
+  // way as name and name_he
+  aliases: string[];
+  per_100g: NutrientsPer100g;
+  // A typical portion, used when a description gives no amount
+  serving_g: number;
+  // Grams in one household unit, where the generic conversion is off
+  units?: Partial<Record<FoodUnit, number>>;
+}
@@ -0,0 +1,58 @@
+import { LocalDiskStorageDriver } from "./localDisk";
+import { S3StorageDriver } from "./s3";
+import { StorageDriver } from "./types";
+
+export { LocalDiskStorageDriver } from "./localDisk";
+export { S3StorageDriver } from "./s3";
+export type { StorageDriver, StoredObject } from "./types";
+
+let driver: StorageDriver | undefined;
+
+// Driver is picked once from STORAGE_DRIVER ("local" by default, or "s3")
+export function getStorageDriver(): StorageDriver {
+  if (driver) return driver;
+
+  const driverName = (process.env.STORAGE_DRIVER || "local").toLowerCase();
+
+  switch (driverName) {
+    case "local": {
+      const signingSecret =
+        process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+      if (!signingSecret) {
+        throw new Error(
+          "STORAGE_SIGNING_SECRET (or JWT_SECRET) must be set for local image storage"
+        );
+      }
+
+      driver = new LocalDiskStorageDriver(
+        process.env.STORAGE_LOCAL_DIR || "./uploads",
+        process.env.API_BASE_URL || "http://localhost:5000/api",
+        signingSecret
+      );
+      break;
+    }
+    case "s3": {
+      const bucket = process.env.S3_BUCKET;
+      if (!bucket) {
+        throw new Error("S3_BUCKET must be set when STORAGE_DRIVER=s3");
+      }
+
+      driver = new S3StorageDriver({
+        bucket,
+        region: process.env.S3_REGION || "us-east-1",
+        endpoint: process.env.S3_ENDPOINT,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle:
+          process.env.S3_FORCE_PATH_STYLE === "true" ||
+          !!process.env.S3_ENDPOINT,
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driverName}`);
+  }
+
+  console.log(`🗄️ Image storage driver: ${driver.name}`);
+  return driver;
+}
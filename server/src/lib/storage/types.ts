@@ -0,0 +1,12 @@
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface StorageDriver {
+  readonly name: "local" | "s3";
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
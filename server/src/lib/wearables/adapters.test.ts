@@ -0,0 +1,278 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AxiosError, AxiosInstance } from "axios";
+import { FitbitAdapter } from "./fitbit";
+import { GoogleFitAdapter } from "./googleFit";
+import { PolarAdapter } from "./polar";
+import { WhoopAdapter } from "./whoop";
+import { OAuth2ProviderConfig } from "./oauth2";
+import { ProviderAuthError, WearableAdapter } from "./types";
+import fitbitActivities from "./__fixtures__/fitbitActivities.json";
+import googleFitAggregate from "./__fixtures__/googleFitAggregate.json";
+import googleFitEmpty from "./__fixtures__/googleFitEmpty.json";
+import polarActivity from "./__fixtures__/polarActivity.json";
+import whoopCycles from "./__fixtures__/whoopCycles.json";
+import whoopSleep from "./__fixtures__/whoopSleep.json";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const config: OAuth2ProviderConfig = {
+  clientId: "client-id",
+  clientSecret: "client-secret",
+  authUrl: "https://provider.test/authorize",
+  tokenUrl: "https://provider.test/token",
+  scopes: ["activity"],
+  clientAuth: "basic",
+};
+
+interface RecordedCall {
+  method: "get" | "post";
+  url: string;
+  body?: any;
+  config?: any;
+}
+
+function httpError(status: number, data: unknown = {}) {
+  return new AxiosError("Request failed", "ERR_BAD_REQUEST", undefined, {}, {
+    status,
+    statusText: "",
+    data,
+    headers: {},
+    config: {} as any,
+  });
+}
+
+// Replays recorded responses for the first route the URL contains
+function fakeHttp(routes: Record<string, unknown>) {
+  const calls: RecordedCall[] = [];
+  const respond = async (url: string) => {
+    const route = Object.keys(routes).find((key) => url.includes(key));
+    if (!route) throw new Error(`No fixture for ${url}`);
+    const response = routes[route];
+    if (response instanceof Error) throw response;
+    return { data: response };
+  };
+
+  const http = {
+    get: (url: string, config?: any) => {
+      calls.push({ method: "get", url, config });
+      return respond(url);
+    },
+    post: (url: string, body?: any, config?: any) => {
+      calls.push({ method: "post", url, body, config });
+      return respond(url);
+    },
+  } as unknown as AxiosInstance;
+
+  return { http, calls };
+}
+
+describe("GoogleFitAdapter", () => {
+  it("sums the aggregate buckets", async () => {
+    const { http } = fakeHttp({ "dataset:aggregate": googleFitAggregate });
+    const adapter = new GoogleFitAdapter(config, http);
+
+    const activity = await adapter.fetchDailyActivity(
+      "token",
+      "2025-07-01",
+      "Asia/Jerusalem"
+    );
+
+    assert.deepEqual(activity, {
+      steps: 8330,
+      caloriesBurned: 2185,
+      activeMinutes: 47,
+      bmr: 0,
+      distance: 6.35,
+      heartRate: 73,
+      weight: undefined,
+    });
+  });
+
+  it("asks for the user's local day, not the UTC one", async () => {
+    const { http, calls } = fakeHttp({ "dataset:aggregate": googleFitEmpty });
+    const adapter = new GoogleFitAdapter(config, http);
+
+    await adapter.fetchDailyActivity("token", "2025-07-01", "Asia/Jerusalem");
+
+    const body = calls[0].body;
+    assert.equal(body.startTimeMillis, Date.parse("2025-06-30T21:00:00Z"));
+    assert.equal(body.endTimeMillis, Date.parse("2025-07-01T21:00:00Z"));
+    assert.equal(body.bucketByTime.durationMillis, 24 * HOUR_MS);
+    assert.equal(calls[0].config.headers.Authorization, "Bearer token");
+  });
+
+  it("keeps DST days in a single 23 or 25 hour bucket", async () => {
+    const { http, calls } = fakeHttp({ "dataset:aggregate": googleFitEmpty });
+    const adapter = new GoogleFitAdapter(config, http);
+
+    await adapter.fetchDailyActivity("token", "2025-03-09", "America/New_York");
+    await adapter.fetchDailyActivity("token", "2025-11-02", "America/New_York");
+
+    assert.equal(calls[0].body.startTimeMillis, Date.parse("2025-03-09T05:00Z"));
+    assert.equal(calls[0].body.bucketByTime.durationMillis, 23 * HOUR_MS);
+    assert.equal(calls[1].body.startTimeMillis, Date.parse("2025-11-02T04:00Z"));
+    assert.equal(calls[1].body.bucketByTime.durationMillis, 25 * HOUR_MS);
+  });
+
+  it("returns null for a day without data", async () => {
+    const { http } = fakeHttp({ "dataset:aggregate": googleFitEmpty });
+    const adapter = new GoogleFitAdapter(config, http);
+
+    assert.equal(
+      await adapter.fetchDailyActivity("token", "2025-07-01", "UTC"),
+      null
+    );
+  });
+});
+
+describe("FitbitAdapter", () => {
+  it("keeps activity calories and BMR apart", async () => {
+    const { http, calls } = fakeHttp({ "/activities/date/": fitbitActivities });
+    const adapter: WearableAdapter = new FitbitAdapter(config, http);
+
+    const activity = await adapter.fetchDailyActivity(
+      "token",
+      "2025-07-01",
+      "Asia/Jerusalem"
+    );
+
+    assert.match(calls[0].url, /\/activities\/date\/2025-07-01\.json$/);
+    assert.deepEqual(activity, {
+      steps: 8044,
+      caloriesBurned: 1012,
+      bmr: 1650,
+      activeMinutes: 44,
+      distance: 6.12,
+      heartRate: 61,
+    });
+  });
+});
+
+describe("WhoopAdapter", () => {
+  it("reads the scored cycle and the main sleep", async () => {
+    const { http, calls } = fakeHttp({
+      "/cycle": whoopCycles,
+      "/activity/sleep": whoopSleep,
+    });
+    const adapter = new WhoopAdapter(config, http);
+
+    const activity = await adapter.fetchDailyActivity(
+      "token",
+      "2025-07-01",
+      "Asia/Jerusalem"
+    );
+
+    assert.deepEqual(calls[0].config.params, {
+      start: "2025-06-30T21:00:00.000Z",
+      end: "2025-07-01T21:00:00.000Z",
+    });
+    assert.deepEqual(activity, {
+      steps: 0,
+      caloriesBurned: 2202,
+      bmr: 0,
+      activeMinutes: 0,
+      heartRate: 68,
+      sleepHours: 7.2,
+    });
+  });
+
+  it("returns null until a cycle is scored", async () => {
+    const { http } = fakeHttp({
+      "/cycle": { records: [whoopCycles.records[0]] },
+      "/activity/sleep": { records: [] },
+    });
+    const adapter = new WhoopAdapter(config, http);
+
+    assert.equal(
+      await adapter.fetchDailyActivity("token", "2025-07-01", "UTC"),
+      null
+    );
+  });
+});
+
+describe("PolarAdapter", () => {
+  it("splits total calories into active and BMR", async () => {
+    const { http } = fakeHttp({ "/users/activities/": polarActivity });
+    const adapter: WearableAdapter = new PolarAdapter(config, http);
+
+    const activity = await adapter.fetchDailyActivity(
+      "token",
+      "2025-07-01",
+      "Asia/Jerusalem"
+    );
+
+    assert.deepEqual(activity, {
+      steps: 9342,
+      caloriesBurned: 688,
+      bmr: 1641,
+      activeMinutes: 165,
+      distance: 7.01,
+    });
+  });
+
+  it("treats 404 as a day without data", async () => {
+    const { http } = fakeHttp({ "/users/activities/": httpError(404) });
+    const adapter: WearableAdapter = new PolarAdapter(config, http);
+
+    assert.equal(
+      await adapter.fetchDailyActivity("token", "2025-07-01", "UTC"),
+      null
+    );
+  });
+});
+
+describe("OAuth2WearableAdapter token requests", () => {
+  it("exchanges a code with Basic client auth", async () => {
+    const { http, calls } = fakeHttp({
+      "/token": {
+        access_token: "access",
+        refresh_token: "refresh",
+        expires_in: "28800",
+        user_id: "ABC123",
+      },
+    });
+    const adapter = new FitbitAdapter(config, http);
+
+    const tokens = await adapter.exchangeCode("code", "https://app.test/cb");
+
+    assert.deepEqual(tokens, {
+      accessToken: "access",
+      refreshToken: "refresh",
+      expiresIn: 28800,
+      providerUserId: "ABC123",
+    });
+    assert.equal(
+      calls[0].config.headers.Authorization,
+      `Basic ${Buffer.from("client-id:client-secret").toString("base64")}`
+    );
+    assert.match(calls[0].body, /grant_type=authorization_code/);
+  });
+
+  it("keeps the old refresh token when none is rotated in", async () => {
+    const { http } = fakeHttp({ "/token": { access_token: "next" } });
+    const adapter = new GoogleFitAdapter({ ...config, clientAuth: "body" }, http);
+
+    const tokens = await adapter.refreshTokens("original");
+
+    assert.equal(tokens.accessToken, "next");
+    assert.equal(tokens.refreshToken, "original");
+  });
+
+  it("reports a rejected grant as ProviderAuthError", async () => {
+    const { http } = fakeHttp({
+      "/token": httpError(400, {
+        error: "invalid_grant",
+        error_description: "Refresh token revoked",
+      }),
+    });
+    const adapter = new WhoopAdapter(config, http);
+
+    await assert.rejects(
+      adapter.refreshTokens("revoked"),
+      (error: unknown) =>
+        error instanceof ProviderAuthError &&
+        error.message === "WHOOP: Refresh token revoked"
+    );
+  });
+});
@@ -0,0 +1,37 @@
+import { ActivityData } from "../../types/devices";
+import { OAuth2WearableAdapter } from "./oauth2";
+
+const API_URL = "https://api.fitbit.com/1";
+
+export class FitbitAdapter extends OAuth2WearableAdapter {
+  readonly provider = "FITBIT" as const;
+  readonly displayName = "Fitbit";
+
+  async fetchDailyActivity(
+    accessToken: string,
+    date: string
+  ): Promise<ActivityData | null> {
+    const { data } = await this.http.get(
+      `${API_URL}/user/-/activities/date/${date}.json`,
+      { headers: this.authHeaders(accessToken) }
+    );
+
+    const summary = data.summary;
+    if (!summary) return null;
+
+    const totalDistance = summary.distances?.find(
+      (distance: any) => distance.activity === "total"
+    );
+
+    return {
+      steps: summary.steps || 0,
+      // caloriesOut includes BMR; keep the two apart like the balance expects
+      caloriesBurned: summary.activityCalories || 0,
+      bmr: summary.caloriesBMR || 0,
+      activeMinutes:
+        (summary.veryActiveMinutes || 0) + (summary.fairlyActiveMinutes || 0),
+      distance: totalDistance?.distance,
+      heartRate: summary.restingHeartRate,
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import { ActivityData } from "../../types/devices";
+import { getDayRange } from "../../utils/dayBoundary";
+import { OAuth2WearableAdapter } from "./oauth2";
+
+const API_URL = "https://www.googleapis.com/fitness/v1";
+
+// Order matters: the aggregate response returns one dataset per entry
+const AGGREGATED_TYPES = [
+  "com.google.step_count.delta",
+  "com.google.calories.expended",
+  "com.google.active_minutes",
+  "com.google.distance.delta",
+  "com.google.heart_rate.bpm",
+  "com.google.weight",
+] as const;
+
+export class GoogleFitAdapter extends OAuth2WearableAdapter {
+  readonly provider = "GOOGLE_FIT" as const;
+  readonly displayName = "Google Fit";
+
+  async fetchDailyActivity(
+    accessToken: string,
+    date: string,
+    timeZone: string
+  ): Promise<ActivityData | null> {
+    const { start, end } = getDayRange(date, timeZone);
+    const startTimeMillis = start.getTime();
+    const endTimeMillis = end.getTime();
+
+    const { data } = await this.http.post(
+      `${API_URL}/users/me/dataset:aggregate`,
+      {
+        aggregateBy: AGGREGATED_TYPES.map((dataTypeName) => ({
+          dataTypeName,
+        })),
+        // One bucket for the whole local day, 23 or 25 hours across DST
+        bucketByTime: { durationMillis: endTimeMillis - startTimeMillis },
+        startTimeMillis,
+        endTimeMillis,
+      },
+      { headers: this.authHeaders(accessToken) }
+    );
+
+    const datasets: any[] = data.bucket?.[0]?.dataset || [];
+    if (datasets.every((dataset) => !dataset.point?.length)) {
+      return null;
+    }
+
+    const sum = (index: number, field: "intVal" | "fpVal") =>
+      (datasets[index]?.point || []).reduce(
+        (total: number, point: any) => total + (point.value?.[0]?.[field] || 0),
+        0
+      );
+    // Summary aggregates (heart rate, weight) report [average, max, min]
+    const average = (index: number) =>
+      datasets[index]?.point?.[0]?.value?.[0]?.fpVal as number | undefined;
+
+    const heartRate = average(4);
+
+    return {
+      steps: sum(0, "intVal"),
+      // Google reports total expenditure, BMR included
+      caloriesBurned: Math.round(sum(1, "fpVal")),
+      activeMinutes: sum(2, "intVal"),
+      bmr: 0,
+      distance: Math.round(sum(3, "fpVal") / 10) / 100,
+      heartRate: heartRate ? Math.round(heartRate) : undefined,
+      weight: average(5),
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { FitbitAdapter } from "./fitbit";
+import { GoogleFitAdapter } from "./googleFit";
+import { PolarAdapter } from "./polar";
+import { WhoopAdapter } from "./whoop";
+import { WearableAdapter, WearableProvider } from "./types";
+
+export { ProviderAuthError } from "./types";
+export type { ProviderTokens, WearableAdapter, WearableProvider } from "./types";
+
+export const WEARABLE_PROVIDERS: WearableProvider[] = [
+  "GOOGLE_FIT",
+  "FITBIT",
+  "WHOOP",
+  "POLAR",
+];
+
+let adapters: Map<WearableProvider, WearableAdapter> | undefined;
+
+// Credentials come from <PROVIDER>_CLIENT_ID / <PROVIDER>_CLIENT_SECRET
+function createAdapters(): Map<WearableProvider, WearableAdapter> {
+  const env = process.env;
+
+  return new Map<WearableProvider, WearableAdapter>([
+    [
+      "GOOGLE_FIT",
+      new GoogleFitAdapter({
+        clientId: env.GOOGLE_FIT_CLIENT_ID,
+        clientSecret: env.GOOGLE_FIT_CLIENT_SECRET,
+        authUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+        tokenUrl: "https://oauth2.googleapis.com/token",
+        scopes: [
+          "https://www.googleapis.com/auth/fitness.activity.read",
+          "https://www.googleapis.com/auth/fitness.body.read",
+          "https://www.googleapis.com/auth/fitness.heart_rate.read",
+          "https://www.googleapis.com/auth/fitness.location.read",
+        ],
+        clientAuth: "body",
+        // offline + consent is what makes Google issue a refresh token
+        extraAuthParams: { access_type: "offline", prompt: "consent" },
+      }),
+    ],
+    [
+      "FITBIT",
+      new FitbitAdapter({
+        clientId: env.FITBIT_CLIENT_ID,
+        clientSecret: env.FITBIT_CLIENT_SECRET,
+        authUrl: "https://www.fitbit.com/oauth2/authorize",
+        tokenUrl: "https://api.fitbit.com/oauth2/token",
+        scopes: ["activity", "heartrate", "profile", "sleep", "weight"],
+        clientAuth: "basic",
+      }),
+    ],
+    [
+      "WHOOP",
+      new WhoopAdapter({
+        clientId: env.WHOOP_CLIENT_ID,
+        clientSecret: env.WHOOP_CLIENT_SECRET,
+        authUrl: "https://api.prod.whoop.com/oauth/oauth2/auth",
+        tokenUrl: "https://api.prod.whoop.com/oauth/oauth2/token",
+        scopes: ["offline", "read:cycles", "read:recovery", "read:sleep"],
+        clientAuth: "body",
+      }),
+    ],
+    [
+      "POLAR",
+      new PolarAdapter({
+        clientId: env.POLAR_CLIENT_ID,
+        clientSecret: env.POLAR_CLIENT_SECRET,
+        authUrl: "https://flow.polar.com/oauth2/authorization",
+        tokenUrl: "https://polarremote.com/v2/oauth2/token",
+        scopes: ["accesslink.read_all"],
+        clientAuth: "basic",
+      }),
+    ],
+  ]);
+}
+
+export function isWearableProvider(value: string): value is WearableProvider {
+  return (WEARABLE_PROVIDERS as string[]).includes(value);
+}
+
+export function getWearableAdapter(provider: WearableProvider): WearableAdapter {
+  if (!adapters) adapters = createAdapters();
+  return adapters.get(provider)!;
+}
@@ -0,0 +1,135 @@
+import axios, { AxiosInstance, isAxiosError } from "axios";
+import { ActivityData } from "../../types/devices";
+import {
+  ProviderAuthError,
+  ProviderTokens,
+  WearableAdapter,
+  WearableProvider,
+} from "./types";
+
+export interface OAuth2ProviderConfig {
+  clientId?: string;
+  clientSecret?: string;
+  authUrl: string;
+  tokenUrl: string;
+  scopes: string[];
+  // Whether client credentials go in a Basic auth header or the form body
+  clientAuth: "basic" | "body";
+  extraAuthParams?: Record<string, string>;
+}
+
+/**
+ * Shared authorization-code flow for the providers that follow plain OAuth 2.
+ * The HTTP client is injectable so adapters can be exercised against
+ * recorded responses.
+ */
+export abstract class OAuth2WearableAdapter implements WearableAdapter {
+  abstract readonly provider: WearableProvider;
+  abstract readonly displayName: string;
+  readonly supportsRefresh: boolean = true;
+
+  constructor(
+    protected readonly config: OAuth2ProviderConfig,
+    protected readonly http: AxiosInstance = axios.create({ timeout: 15000 })
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.config.clientId && !!this.config.clientSecret;
+  }
+
+  getAuthorizationUrl(state: string, redirectUri: string): string {
+    const params = new URLSearchParams({
+      client_id: this.config.clientId!,
+      redirect_uri: redirectUri,
+      response_type: "code",
+      scope: this.config.scopes.join(" "),
+      state,
+      ...this.config.extraAuthParams,
+    });
+    return `${this.config.authUrl}?${params.toString()}`;
+  }
+
+  exchangeCode(code: string, redirectUri: string): Promise<ProviderTokens> {
+    return this.requestToken({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+    });
+  }
+
+  async refreshTokens(refreshToken: string): Promise<ProviderTokens> {
+    const tokens = await this.requestToken({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    });
+    // Some providers only rotate the refresh token occasionally
+    return { ...tokens, refreshToken: tokens.refreshToken || refreshToken };
+  }
+
+  abstract fetchDailyActivity(
+    accessToken: string,
+    date: string,
+    timeZone: string
+  ): Promise<ActivityData | null>;
+
+  protected async requestToken(
+    params: Record<string, string>
+  ): Promise<ProviderTokens> {
+    const body = new URLSearchParams(params);
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    };
+
+    if (this.config.clientAuth === "basic") {
+      headers.Authorization = `Basic ${Buffer.from(
+        `${this.config.clientId}:${this.config.clientSecret}`
+      ).toString("base64")}`;
+    } else {
+      body.set("client_id", this.config.clientId!);
+      body.set("client_secret", this.config.clientSecret!);
+    }
+
+    try {
+      const { data } = await this.http.post(
+        this.config.tokenUrl,
+        body.toString(),
+        { headers }
+      );
+
+      if (!data?.access_token) {
+        throw new ProviderAuthError(this.provider, "No access token returned");
+      }
+
+      return {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token,
+        expiresIn: data.expires_in ? Number(data.expires_in) : undefined,
+        providerUserId:
+          data.user_id?.toString() || data.x_user_id?.toString() || undefined,
+      };
+    } catch (error) {
+      // 400/401 from a token endpoint means the grant is no longer valid
+      // (revoked, expired code, reused refresh token)
+      if (
+        isAxiosError(error) &&
+        (error.response?.status === 400 || error.response?.status === 401)
+      ) {
+        throw new ProviderAuthError(
+          this.provider,
+          error.response.data?.error_description ||
+            error.response.data?.error ||
+            "Token request rejected"
+        );
+      }
+      throw error;
+    }
+  }
+
+  protected authHeaders(accessToken: string) {
+    return {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: "application/json",
+    };
+  }
+}
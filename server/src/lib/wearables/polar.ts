@@ -0,0 +1,83 @@
+import { isAxiosError } from "axios";
+import { ActivityData } from "../../types/devices";
+import { OAuth2WearableAdapter } from "./oauth2";
+import { ProviderAuthError, ProviderTokens } from "./types";
+
+const API_URL = "https://www.polaraccesslink.com/v3";
+
+// Parses the ISO 8601 durations AccessLink uses, e.g. "PT2H44M45S"
+function durationToMinutes(duration?: string): number {
+  const match = duration?.match(/^PT(?:(\d+)H)?(?:(\d+)M)?(?:([\d.]+)S)?$/);
+  if (!match) return 0;
+  const [, hours, minutes, seconds] = match;
+  return Math.round(
+    Number(hours || 0) * 60 + Number(minutes || 0) + Number(seconds || 0) / 60
+  );
+}
+
+export class PolarAdapter extends OAuth2WearableAdapter {
+  readonly provider = "POLAR" as const;
+  readonly displayName = "Polar";
+  // AccessLink tokens don't expire and no refresh token is issued
+  readonly supportsRefresh = false;
+
+  async exchangeCode(
+    code: string,
+    redirectUri: string
+  ): Promise<ProviderTokens> {
+    const tokens = await super.exchangeCode(code, redirectUri);
+
+    // A user must be registered with our client before data can be read;
+    // 409 means they already are
+    try {
+      await this.http.post(
+        `${API_URL}/users`,
+        { "member-id": tokens.providerUserId },
+        { headers: this.authHeaders(tokens.accessToken) }
+      );
+    } catch (error) {
+      if (!isAxiosError(error) || error.response?.status !== 409) {
+        throw error;
+      }
+    }
+
+    return tokens;
+  }
+
+  async refreshTokens(): Promise<ProviderTokens> {
+    throw new ProviderAuthError(this.provider, "Token refresh is not supported");
+  }
+
+  async fetchDailyActivity(
+    accessToken: string,
+    date: string
+  ): Promise<ActivityData | null> {
+    try {
+      const { data } = await this.http.get(
+        `${API_URL}/users/activities/${date}`,
+        { headers: this.authHeaders(accessToken) }
+      );
+
+      if (!data) return null;
+
+      const totalCalories = data.calories || 0;
+      const activeCalories = data.active_calories || 0;
+
+      return {
+        steps: data.steps || 0,
+        caloriesBurned: activeCalories,
+        bmr: Math.max(0, totalCalories - activeCalories),
+        activeMinutes: durationToMinutes(data.active_duration),
+        distance: data.distance_from_steps
+          ? Math.round(data.distance_from_steps / 10) / 100
+          : undefined,
+      };
+    } catch (error) {
+      // No activity recorded for that day
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
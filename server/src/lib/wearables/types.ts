@@ -0,0 +1,39 @@
+import { ActivityData } from "../../types/devices";
+
+export type WearableProvider = "GOOGLE_FIT" | "FITBIT" | "WHOOP" | "POLAR";
+
+export interface ProviderTokens {
+  accessToken: string;
+  refreshToken?: string;
+  // Seconds until the access token expires; undefined for non-expiring tokens
+  expiresIn?: number;
+  providerUserId?: string;
+}
+
+export interface WearableAdapter {
+  readonly provider: WearableProvider;
+  readonly displayName: string;
+  readonly supportsRefresh: boolean;
+  isConfigured(): boolean;
+  getAuthorizationUrl(state: string, redirectUri: string): string;
+  exchangeCode(code: string, redirectUri: string): Promise<ProviderTokens>;
+  refreshTokens(refreshToken: string): Promise<ProviderTokens>;
+  /**
+   * Daily totals for a calendar date (YYYY-MM-DD) in the user's time zone.
+   * Providers that already bucket by the account's local day ignore the
+   * zone; those queried by time range use it to find the day's instants.
+   * Returns null when the provider has no data for that day.
+   */
+  fetchDailyActivity(
+    accessToken: string,
+    date: string,
+    timeZone: string
+  ): Promise<ActivityData | null>;
+}
+
+export class ProviderAuthError extends Error {
+  constructor(provider: WearableProvider, message: string) {
+    super(`${provider}: ${message}`);
+    this.name = "ProviderAuthError";
+  }
+}
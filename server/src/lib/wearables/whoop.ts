@@ -0,0 +1,59 @@
+import { ActivityData } from "../../types/devices";
+import { getDayRange } from "../../utils/dayBoundary";
+import { OAuth2WearableAdapter } from "./oauth2";
+
+const API_URL = "https://api.prod.whoop.com/developer/v1";
+const KJ_PER_KCAL = 4.184;
+
+export class WhoopAdapter extends OAuth2WearableAdapter {
+  readonly provider = "WHOOP" as const;
+  readonly displayName = "Whoop";
+
+  async fetchDailyActivity(
+    accessToken: string,
+    date: string,
+    timeZone: string
+  ): Promise<ActivityData | null> {
+    const { start, end } = getDayRange(date, timeZone);
+
+    const headers = this.authHeaders(accessToken);
+    const [cycles, sleeps] = await Promise.all([
+      this.http.get(`${API_URL}/cycle`, {
+        headers,
+        params: { start: start.toISOString(), end: end.toISOString() },
+      }),
+      this.http.get(`${API_URL}/activity/sleep`, {
+        headers,
+        params: { start: start.toISOString(), end: end.toISOString() },
+      }),
+    ]);
+
+    const cycle = cycles.data.records?.find(
+      (record: any) => record.score_state === "SCORED"
+    );
+    if (!cycle) return null;
+
+    const sleep = sleeps.data.records?.find(
+      (record: any) => record.score_state === "SCORED" && !record.nap
+    );
+    const sleepStages = sleep?.score?.stage_summary;
+    const sleepMilli = sleepStages
+      ? (sleepStages.total_light_sleep_time_milli || 0) +
+        (sleepStages.total_slow_wave_sleep_time_milli || 0) +
+        (sleepStages.total_rem_sleep_time_milli || 0)
+      : 0;
+
+    return {
+      // Whoop doesn't count steps
+      steps: 0,
+      // Cycle energy is total expenditure, reported in kilojoules
+      caloriesBurned: Math.round((cycle.score?.kilojoule || 0) / KJ_PER_KCAL),
+      bmr: 0,
+      activeMinutes: 0,
+      heartRate: cycle.score?.average_heart_rate,
+      sleepHours: sleepMilli
+        ? Math.round((sleepMilli / 3600000) * 10) / 10
+        : undefined,
+    };
+  }
+}
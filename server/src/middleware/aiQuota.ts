@@ -0,0 +1,80 @@
+import { Response, NextFunction } from "express";
+import { AiFeature } from "@prisma/client";
+import { AuthRequest } from "./auth";
+import { AiUsageService, QuotaStatus } from "../services/aiUsage";
+
+function setQuotaHeaders(res: Response, quota: QuotaStatus) {
+  if (quota.limit === null) return;
+  res.setHeader("X-RateLimit-Limit", quota.limit);
+  res.setHeader("X-RateLimit-Remaining", quota.remaining ?? 0);
+  res.setHeader(
+    "X-RateLimit-Reset",
+    Math.ceil(quota.resetAt.getTime() / 1000)
+  );
+}
+
+/**
+ * Meters an AI-backed route against the user's daily plan quota. Must run
+ * after authenticateToken. A request is counted when it starts and refunded
+ * if the handler fails or the client disconnects before a response is sent.
+ * Streaming handlers set res.locals.aiOutputSent once the model has produced
+ * output, so cancelling a stream half way still counts.
+ */
+export function meterAiUsage(feature: AiFeature) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const reservation = await AiUsageService.reserve(
+        req.user.user_id,
+        feature,
+        `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`
+      );
+      setQuotaHeaders(res, reservation.quota);
+
+      if (!reservation.allowed) {
+        const { quota } = reservation;
+        res.setHeader(
+          "Retry-After",
+          Math.max(
+            1,
+            Math.ceil((quota.resetAt.getTime() - Date.now()) / 1000)
+          )
+        );
+        return res.status(429).json({
+          success: false,
+          error: "Daily AI request limit reached",
+          code: "AI_QUOTA_EXCEEDED",
+          quota: { feature, ...quota },
+        });
+      }
+
+      const { usageId } = reservation;
+      let settled = false;
+      const settle = (succeeded: boolean) => {
+        if (settled) return;
+        settled = true;
+        const settlement = succeeded
+          ? AiUsageService.complete(usageId)
+          : AiUsageService.refund(usageId);
+        settlement.catch((error) =>
+          console.error("💥 Failed to settle AI usage:", error)
+        );
+      };
+
+      res.on("finish", () => settle(res.statusCode < 400));
+      res.on("close", () =>
+        settle(
+          (res.writableFinished || res.locals.aiOutputSent === true) &&
+            res.statusCode < 400
+        )
+      );
+
+      next();
+    } catch (error) {
+      console.error("💥 AI quota check failed:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to check AI usage quota",
+      });
+    }
+  };
+}
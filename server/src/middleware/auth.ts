@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from "express";
 import { AuthService } from "../services/auth";
+import { isValidTimeZone } from "../utils/dayBoundary";
 
 export interface AuthRequest extends Request {
   user?: any;
@@ -49,6 +50,14 @@ export async function authenticateToken(
     const user = await AuthService.verifyToken(token);
     console.log("✅ Token verified for user:", user.user_id);
 
+    // The app reports the device's zone on every request; keep ours current
+    // so day boundaries follow the user when they travel
+    const timeZone = req.headers["x-time-zone"];
+    if (isValidTimeZone(timeZone) && timeZone !== user.timezone) {
+      await AuthService.updateTimeZone(user.user_id, timeZone);
+      user.timezone = timeZone;
+    }
+
     req.user = user;
     next();
   } catch (error) {
@@ -1,12 +1,96 @@
-import { Router } from "express";
+import { Request, Response, Router } from "express";
 import crypto from "crypto";
-import { AuthService } from "../services/auth";
-import { signUpSchema, signInSchema } from "../types/auth";
+import rateLimit from "express-rate-limit";
+import { ZodError } from "zod";
+import { AuthError, AuthService } from "../services/auth";
+import {
+  signUpSchema,
+  signInSchema,
+  mfaVerifySchema,
+  mfaCodeSchema,
+  mfaDisableSchema,
+  revokeSessionsQuerySchema,
+  refreshSchema,
+  SessionContext,
+} from "../types/auth";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { prisma } from "../lib/database";
 
 const router = Router();
 
+// Six digit codes are guessable given enough tries; the window also outlasts
+// the five minute challenge token
+const mfaVerifyLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: "Too many verification attempts, please try again later.",
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+function getSessionContext(req: Request): SessionContext {
+  return {
+    ip_address: req.ip,
+    user_agent: req.headers["user-agent"],
+  };
+}
+
+// Same lookup order as authenticateToken: cookie (web), then Bearer (mobile)
+function getRequestToken(req: Request): string | undefined {
+  return req.cookies.auth_token || req.headers.authorization?.substring(7);
+}
+
+// Returns whether the request came from a web client
+function setWebAuthCookie(
+  req: Request,
+  res: Response,
+  tokens: { token: string; refresh_token: string }
+) {
+  const isWebClient =
+    req.headers.origin?.includes("localhost:19006") ||
+    req.headers.origin?.includes("localhost:8081") ||
+    req.headers["user-agent"]?.includes("Mozilla");
+
+  if (isWebClient) {
+    res.cookie("auth_token", tokens.token, AuthService.getCookieOptions());
+    res.cookie(
+      "refresh_token",
+      tokens.refresh_token,
+      AuthService.getRefreshCookieOptions()
+    );
+    console.log("🍪 Cookie set for web client");
+  }
+  return !!isWebClient;
+}
+
+function clearAuthCookie(res: Response) {
+  const { maxAge: _, ...options } = AuthService.getCookieOptions();
+  res.clearCookie("auth_token", options);
+  res.clearCookie("refresh_token", { ...options, path: "/api/auth" });
+}
+
+function sendAuthError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: error.errors[0]?.message || "Invalid request",
+      details: error.errors,
+    });
+  }
+  if (error instanceof AuthError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallback,
+  });
+}
+
 router.post("/signup", async (req, res, next) => {
   try {
     console.log("🔄 Processing signup request...");
@@ -61,19 +145,14 @@ router.post("/verify-email", async (req, res) => {
       });
     }
 
-    const result = await AuthService.verifyEmail(email, code);
+    const result = await AuthService.verifyEmail(
+      email,
+      code,
+      getSessionContext(req)
+    );
 
     // Set secure HTTP-only cookie for web clients
-    const isWebClient =
-      req.headers.origin?.includes("localhost:19006") ||
-      req.headers.origin?.includes("localhost:8081") ||
-      req.headers["user-agent"]?.includes("Mozilla");
-
-    if (isWebClient) {
-      const cookieOptions = AuthService.getCookieOptions();
-      res.cookie("auth_token", result.token, cookieOptions);
-      console.log("🍪 Cookie set for web client");
-    }
+    setWebAuthCookie(req, res, result);
 
     console.log("✅ Email verification successful");
 
@@ -81,6 +160,8 @@ router.post("/verify-email", async (req, res) => {
       success: true,
       user: result.user,
       token: result.token,
+      refresh_token: result.refresh_token,
+      expires_in: result.expires_in,
       message: "Email verified successfully",
     });
   } catch (error) {
@@ -172,19 +253,22 @@ router.post("/signin", async (req, res, next) => {
     console.log("🔍 User-Agent:", req.headers["user-agent"]);
 
     const validatedData = signInSchema.parse(req.body);
-    const result = await AuthService.signIn(validatedData);
+    const result = await AuthService.signIn(
+      validatedData,
+      getSessionContext(req)
+    );
+
+    if (result.mfa_required) {
+      console.log("🔐 Password accepted, waiting for MFA code");
+      return res.json({
+        success: true,
+        mfa_required: true,
+        mfa_token: result.mfa_token,
+      });
+    }
 
     // Set secure HTTP-only cookie for web clients
-    const isWebClient =
-      req.headers.origin?.includes("localhost:19006") ||
-      req.headers.origin?.includes("localhost:8081") ||
-      req.headers["user-agent"]?.includes("Mozilla");
-
-    if (isWebClient) {
-      const cookieOptions = AuthService.getCookieOptions();
-      res.cookie("auth_token", result.token, cookieOptions);
-      console.log("🍪 Cookie set for web client");
-    } else {
+    if (!setWebAuthCookie(req, res, result)) {
       console.log(
         "📱 Mobile client detected - token will be stored in secure-store"
       );
@@ -196,6 +280,8 @@ router.post("/signin", async (req, res, next) => {
       success: true,
       user: result.user,
       token: result.token, // Always send token for mobile compatibility
+      refresh_token: result.refresh_token,
+      expires_in: result.expires_in,
     });
   } catch (error) {
     console.error("💥 Signin error:", error);
@@ -210,6 +296,66 @@ router.post("/signin", async (req, res, next) => {
   }
 });
 
+// POST /api/auth/mfa/verify - Finish signing in with an authenticator or
+// recovery code
+router.post("/mfa/verify", mfaVerifyLimiter, async (req, res) => {
+  try {
+    const input = mfaVerifySchema.parse(req.body);
+    const result = await AuthService.verifyMfaSignIn(
+      input,
+      getSessionContext(req)
+    );
+
+    setWebAuthCookie(req, res, result);
+    console.log("✅ MFA signin successful");
+
+    res.json({
+      success: true,
+      user: result.user,
+      token: result.token,
+      refresh_token: result.refresh_token,
+      expires_in: result.expires_in,
+      used_recovery_code: result.used_recovery_code,
+      recovery_codes_remaining: result.recovery_codes_remaining,
+    });
+  } catch (error) {
+    sendAuthError(res, error, "Failed to verify code");
+  }
+});
+
+// POST /api/auth/refresh - Trade a refresh token for a new token pair.
+// Mobile sends it in the body; web relies on the refresh_token cookie
+router.post("/refresh", async (req, res) => {
+  try {
+    const input = refreshSchema.parse(req.body ?? {});
+    const refreshToken = input.refresh_token || req.cookies.refresh_token;
+    if (!refreshToken) {
+      return res.status(401).json({
+        success: false,
+        error: "Refresh token is required",
+      });
+    }
+
+    const result = await AuthService.refreshSession(
+      refreshToken,
+      getSessionContext(req)
+    );
+    setWebAuthCookie(req, res, result);
+
+    res.json({
+      success: true,
+      token: result.token,
+      refresh_token: result.refresh_token,
+      expires_in: result.expires_in,
+    });
+  } catch (error) {
+    if (error instanceof AuthError && error.statusCode === 401) {
+      clearAuthCookie(res);
+    }
+    sendAuthError(res, error, "Failed to refresh session");
+  }
+});
+
 router.get("/me", authenticateToken, async (req: AuthRequest, res) => {
   res.json({
     success: true,
@@ -223,20 +369,14 @@ router.post(
   async (req: AuthRequest, res, next) => {
     try {
       // Get token from cookie or header
-      const token =
-        req.cookies.auth_token || req.headers.authorization?.substring(7);
+      const token = getRequestToken(req);
 
       if (token) {
         await AuthService.signOut(token);
       }
 
       // Clear the cookie
-      res.clearCookie("auth_token", {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "lax",
-        path: "/",
-      });
+      clearAuthCookie(res);
 
       console.log("✅ Signout successful, cookie cleared");
 
@@ -250,6 +390,125 @@ router.post(
   }
 );
 
+// GET /api/auth/mfa - Whether MFA is on and how many recovery codes are left
+router.get("/mfa", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const status = await AuthService.getMfaStatus(req.user.user_id);
+    res.json({ success: true, data: status });
+  } catch (error) {
+    sendAuthError(res, error, "Failed to fetch two-factor status");
+  }
+});
+
+// POST /api/auth/mfa/setup - New secret for the authenticator app
+router.post("/mfa/setup", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const setup = await AuthService.setupMfa(req.user.user_id);
+    res.json({ success: true, data: setup });
+  } catch (error) {
+    sendAuthError(res, error, "Failed to start two-factor setup");
+  }
+});
+
+// POST /api/auth/mfa/enable - Confirm setup with a code; returns recovery codes
+router.post(
+  "/mfa/enable",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const { code } = mfaCodeSchema.parse(req.body);
+      const result = await AuthService.enableMfa(req.user.user_id, code);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      sendAuthError(res, error, "Failed to enable two-factor authentication");
+    }
+  }
+);
+
+// POST /api/auth/mfa/disable - Needs the password and a current code
+router.post(
+  "/mfa/disable",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const input = mfaDisableSchema.parse(req.body);
+      await AuthService.disableMfa(req.user.user_id, input);
+      res.json({ success: true });
+    } catch (error) {
+      sendAuthError(res, error, "Failed to disable two-factor authentication");
+    }
+  }
+);
+
+// POST /api/auth/mfa/recovery-codes - Replace all recovery codes
+router.post(
+  "/mfa/recovery-codes",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const { code } = mfaCodeSchema.parse(req.body);
+      const result = await AuthService.regenerateRecoveryCodes(
+        req.user.user_id,
+        code
+      );
+      res.json({ success: true, data: result });
+    } catch (error) {
+      sendAuthError(res, error, "Failed to regenerate recovery codes");
+    }
+  }
+);
+
+// GET /api/auth/sessions - Signed-in devices, most recently active first
+router.get("/sessions", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const sessions = await AuthService.getSessions(
+      req.user.user_id,
+      getRequestToken(req)
+    );
+    res.json({ success: true, data: sessions });
+  } catch (error) {
+    sendAuthError(res, error, "Failed to fetch sessions");
+  }
+});
+
+// DELETE /api/auth/sessions - Sign out every other device
+// (?include_current=true signs out this one too)
+router.delete("/sessions", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { include_current } = revokeSessionsQuerySchema.parse(req.query);
+    const result = await AuthService.revokeSessions(
+      req.user.user_id,
+      getRequestToken(req),
+      include_current
+    );
+
+    if (include_current) clearAuthCookie(res);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    sendAuthError(res, error, "Failed to revoke sessions");
+  }
+});
+
+// DELETE /api/auth/sessions/:sessionId
+router.delete(
+  "/sessions/:sessionId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const result = await AuthService.revokeSession(
+        req.user.user_id,
+        req.params.sessionId,
+        getRequestToken(req)
+      );
+
+      if (result.current) clearAuthCookie(res);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      sendAuthError(res, error, "Failed to revoke session");
+    }
+  }
+);
+
 // Forgot password endpoint
 router.post("/forgot-password", async (req, res) => {
   try {
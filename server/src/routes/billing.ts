@@ -0,0 +1,152 @@
+import { Response, Router } from "express";
+import { ZodError } from "zod";
+import { BillingError, BillingService } from "../services/billing";
+import {
+  checkoutSchema,
+  invoicesQuerySchema,
+  subscriptionPlanSchema,
+} from "../types/billing";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+
+const router = Router();
+
+function sendBillingError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: error.errors[0]?.message || "Invalid request",
+      details: error.errors,
+    });
+  }
+  if (error instanceof BillingError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback,
+  });
+}
+
+// Provider webhooks - signed by the provider instead of carrying our auth
+// token. Needs the unparsed body (captured in index.ts) to check the signature
+router.post("/webhooks/:provider", async (req, res) => {
+  try {
+    const { rawBody } = req;
+    if (!rawBody) {
+      return res.status(400).json({ success: false, error: "Missing body" });
+    }
+
+    const result = await BillingService.handleWebhook(
+      req.params.provider,
+      rawBody,
+      req.headers
+    );
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    sendBillingError(res, error, "Billing webhook error");
+  }
+});
+
+// Apply auth middleware to all routes below
+router.use(authenticateToken);
+
+router.get("/plans", async (req: AuthRequest, res) => {
+  try {
+    const plans = await BillingService.getPlans();
+    res.json({ success: true, data: plans });
+  } catch (error) {
+    sendBillingError(res, error, "Failed to fetch plans");
+  }
+});
+
+router.get("/subscription", async (req: AuthRequest, res) => {
+  try {
+    const subscription = await BillingService.getSubscription(
+      req.user.user_id
+    );
+    res.json({ success: true, data: subscription });
+  } catch (error) {
+    sendBillingError(res, error, "Failed to fetch subscription");
+  }
+});
+
+// Preview what a plan change costs before checking out
+router.get("/quote", async (req: AuthRequest, res) => {
+  try {
+    const plan = subscriptionPlanSchema.parse(req.query.plan);
+    const quote = await BillingService.quote(req.user.user_id, plan);
+    res.json({ success: true, data: quote });
+  } catch (error) {
+    sendBillingError(res, error, "Failed to quote plan change");
+  }
+});
+
+router.post("/checkout", async (req: AuthRequest, res) => {
+  try {
+    const input = checkoutSchema.parse(req.body);
+
+    console.log("💳 Checkout request:", req.user.user_id, input.plan);
+
+    const result = await BillingService.checkout(req.user.user_id, input);
+
+    // 202: the charge is confirmed later by the provider's webhook
+    res.status(result.status === "pending" ? 202 : 200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    sendBillingError(res, error, "Checkout failed");
+  }
+});
+
+router.get("/payments/:paymentId", async (req: AuthRequest, res) => {
+  try {
+    const paymentId = Number(req.params.paymentId);
+    if (!Number.isInteger(paymentId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid payment id",
+      });
+    }
+
+    const payment = await BillingService.getPayment(
+      req.user.user_id,
+      paymentId
+    );
+    res.json({ success: true, data: payment });
+  } catch (error) {
+    sendBillingError(res, error, "Failed to fetch payment");
+  }
+});
+
+// Turn off renewal; the plan stays active until the paid period ends
+router.post("/cancel", async (req: AuthRequest, res) => {
+  try {
+    const subscription = await BillingService.cancel(req.user.user_id);
+    res.json({ success: true, data: subscription });
+  } catch (error) {
+    sendBillingError(res, error, "Failed to cancel subscription");
+  }
+});
+
+router.get("/invoices", async (req: AuthRequest, res) => {
+  try {
+    const { page, limit } = invoicesQuerySchema.parse(req.query);
+    const invoices = await BillingService.getInvoices(
+      req.user.user_id,
+      page,
+      limit
+    );
+    res.json({ success: true, data: invoices });
+  } catch (error) {
+    sendBillingError(res, error, "Failed to fetch invoices");
+  }
+});
+
+export { router as billingRoutes };
@@ -0,0 +1,113 @@
+import { Response, Router } from "express";
+import { ZodError } from "zod";
+import {
+  BodyMetricsError,
+  BodyMetricsService,
+} from "../services/bodyMetrics";
+import {
+  bodyMeasurementSchema,
+  bodyMeasurementsQuerySchema,
+  bodyMeasurementUpdateSchema,
+  bodyTrendQuerySchema,
+} from "../types/bodyMetrics";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+
+const router = Router();
+
+function sendBodyMetricsError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: error.errors[0]?.message || "Invalid request",
+      details: error.errors,
+    });
+  }
+  if (error instanceof BodyMetricsError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallback,
+  });
+}
+
+// Apply auth middleware to all routes
+router.use(authenticateToken);
+
+// GET /api/body-metrics - Logged measurements, newest first
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    const { from, to } = bodyMeasurementsQuerySchema.parse(req.query);
+    const measurements = await BodyMetricsService.getMeasurements(
+      req.user.user_id,
+      from,
+      to
+    );
+    res.json({ success: true, data: measurements });
+  } catch (error) {
+    sendBodyMetricsError(res, error, "Failed to fetch measurements");
+  }
+});
+
+// GET /api/body-metrics/trend - Smoothed weight trend and projected goal date
+router.get("/trend", async (req: AuthRequest, res) => {
+  try {
+    const { days } = bodyTrendQuerySchema.parse(req.query);
+    const trend = await BodyMetricsService.getWeightTrend(
+      req.user.user_id,
+      days
+    );
+    res.json({ success: true, data: trend });
+  } catch (error) {
+    sendBodyMetricsError(res, error, "Failed to fetch weight trend");
+  }
+});
+
+// POST /api/body-metrics - Log measurements for a day
+router.post("/", async (req: AuthRequest, res) => {
+  try {
+    const input = bodyMeasurementSchema.parse(req.body);
+    const measurement = await BodyMetricsService.recordMeasurement(
+      req.user.user_id,
+      input
+    );
+    res.json({ success: true, data: measurement });
+  } catch (error) {
+    sendBodyMetricsError(res, error, "Failed to save measurement");
+  }
+});
+
+// PUT /api/body-metrics/:measurementId
+router.put("/:measurementId", async (req: AuthRequest, res) => {
+  try {
+    const input = bodyMeasurementUpdateSchema.parse(req.body);
+    const measurement = await BodyMetricsService.updateMeasurement(
+      req.user.user_id,
+      req.params.measurementId,
+      input
+    );
+    res.json({ success: true, data: measurement });
+  } catch (error) {
+    sendBodyMetricsError(res, error, "Failed to update measurement");
+  }
+});
+
+// DELETE /api/body-metrics/:measurementId
+router.delete("/:measurementId", async (req: AuthRequest, res) => {
+  try {
+    await BodyMetricsService.deleteMeasurement(
+      req.user.user_id,
+      req.params.measurementId
+    );
+    res.json({ success: true });
+  } catch (error) {
+    sendBodyMetricsError(res, error, "Failed to delete measurement");
+  }
+});
+
+export { router as bodyMetricsRoutes };
@@ -1,6 +1,8 @@
 import { Router, Request, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { meterAiUsage } from "../middleware/aiQuota";
 import { ChatService } from "../services/chat";
+import { ChatActionError, ChatToolService } from "../services/chatTools";
 import { z } from "zod";
 import { prisma } from "../lib/database";
 
@@ -27,6 +29,7 @@ const healthBasedRecommendationSchema = z.object({
 router.post(
   "/message",
   authenticateToken,
+  meterAiUsage("CHAT"),
   async (req: AuthRequest, res: Response) => {
     const userId = req.user?.user_id;
 
@@ -62,6 +65,7 @@ router.post(
         response: {
           response: response.response,
           messageId: response.messageId,
+          actions: response.actions,
         },
         timestamp: new Date().toISOString(),
       });
@@ -76,6 +80,86 @@ router.post(
   }
 );
 
+// Stream a chat reply as Server-Sent Events: "delta" events carry text as it
+// is generated, then one "done" event ends the stream. Closing the connection
+// cancels generation; whatever was generated so far is still saved.
+router.post(
+  "/message/stream",
+  authenticateToken,
+  meterAiUsage("CHAT"),
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user.user_id;
+    const parsed = chatSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Message is required and must be 1-1000 characters",
+      });
+    }
+
+    const { message } = parsed.data;
+    const language =
+      typeof req.body.language === "string" ? req.body.language : "hebrew";
+
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    // Headers go out with the first event, so a failure before any output
+    // can still be answered with a normal error status
+    const sendEvent = (event: string, data: unknown) => {
+      if (res.writableEnded || res.destroyed) return;
+      if (!res.headersSent) {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          // no-transform keeps the compression middleware from buffering
+          "Cache-Control": "no-cache, no-transform",
+          Connection: "keep-alive",
+          "X-Accel-Buffering": "no",
+        });
+      }
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      console.log("🔄 Streaming chat reply for user:", userId);
+
+      const result = await ChatService.streamMessage(
+        userId,
+        message,
+        language,
+        (text) => {
+          res.locals.aiOutputSent = true;
+          sendEvent("delta", { text });
+        },
+        controller.signal
+      );
+
+      sendEvent("done", {
+        messageId: result.messageId,
+        response: result.response,
+        interrupted: result.interrupted,
+        actions: result.actions,
+        timestamp: new Date().toISOString(),
+      });
+      res.end();
+    } catch (error) {
+      console.error("💥 Chat stream error:", error);
+      if (!res.headersSent) {
+        return res.status(500).json({
+          success: false,
+          error: "Failed to process message",
+          timestamp: new Date().toISOString(),
+        });
+      }
+      sendEvent("error", { error: "Failed to process message" });
+      res.end();
+    }
+  }
+);
+
 router.get(
   "/history",
   authenticateToken,
@@ -94,6 +178,9 @@ router.get(
         where: { user_id: userId },
         orderBy: { created_at: "desc" },
         take: limit,
+        include: {
+          actions: { orderBy: { created_at: "asc" } },
+        },
       });
 
       console.log("✅ Found", messages.length, "chat messages");
@@ -112,6 +199,59 @@ router.get(
   }
 );
 
+// Run an action the assistant proposed, once the user has confirmed it
+router.post(
+  "/actions/:actionId/confirm",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const action = await ChatToolService.confirm(
+        req.user.user_id,
+        req.params.actionId
+      );
+      res.json({ success: true, data: action });
+    } catch (error) {
+      if (error instanceof ChatActionError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      console.error("💥 Confirm chat action error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to confirm action",
+      });
+    }
+  }
+);
+
+router.post(
+  "/actions/:actionId/reject",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const action = await ChatToolService.reject(
+        req.user.user_id,
+        req.params.actionId
+      );
+      res.json({ success: true, data: action });
+    } catch (error) {
+      if (error instanceof ChatActionError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      console.error("💥 Reject chat action error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to reject action",
+      });
+    }
+  }
+);
+
 // Clear chat history
 router.delete(
   "/history",
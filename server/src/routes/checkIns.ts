@@ -0,0 +1,104 @@
+import { Response, Router } from "express";
+import { ZodError } from "zod";
+import { CheckInError, CheckInService } from "../services/checkIns";
+import {
+  checkInSchema,
+  checkInsQuerySchema,
+  checkInUpdateSchema,
+  wellbeingInsightsQuerySchema,
+} from "../types/checkIns";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+
+const router = Router();
+
+function sendCheckInError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: error.errors[0]?.message || "Invalid request",
+      details: error.errors,
+    });
+  }
+  if (error instanceof CheckInError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallback,
+  });
+}
+
+// Apply auth middleware to all routes
+router.use(authenticateToken);
+
+// GET /api/check-ins - Check-ins, newest first
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    const { from, to } = checkInsQuerySchema.parse(req.query);
+    const checkIns = await CheckInService.getCheckIns(
+      req.user.user_id,
+      from,
+      to
+    );
+    res.json({ success: true, data: checkIns });
+  } catch (error) {
+    sendCheckInError(res, error, "Failed to fetch check-ins");
+  }
+});
+
+// GET /api/check-ins/insights - How check-ins track macros, meal timing and activity
+router.get("/insights", async (req: AuthRequest, res) => {
+  try {
+    const { days } = wellbeingInsightsQuerySchema.parse(req.query);
+    const insights = await CheckInService.getWellbeingInsights(
+      req.user.user_id,
+      days
+    );
+    res.json({ success: true, data: insights });
+  } catch (error) {
+    sendCheckInError(res, error, "Failed to fetch wellbeing insights");
+  }
+});
+
+// POST /api/check-ins - Check in for now, or an earlier part of a day
+router.post("/", async (req: AuthRequest, res) => {
+  try {
+    const input = checkInSchema.parse(req.body);
+    const checkIn = await CheckInService.recordCheckIn(req.user.user_id, input);
+    res.json({ success: true, data: checkIn });
+  } catch (error) {
+    sendCheckInError(res, error, "Failed to save check-in");
+  }
+});
+
+// PUT /api/check-ins/:checkInId
+router.put("/:checkInId", async (req: AuthRequest, res) => {
+  try {
+    const input = checkInUpdateSchema.parse(req.body);
+    const checkIn = await CheckInService.updateCheckIn(
+      req.user.user_id,
+      req.params.checkInId,
+      input
+    );
+    res.json({ success: true, data: checkIn });
+  } catch (error) {
+    sendCheckInError(res, error, "Failed to update check-in");
+  }
+});
+
+// DELETE /api/check-ins/:checkInId
+router.delete("/:checkInId", async (req: AuthRequest, res) => {
+  try {
+    await CheckInService.deleteCheckIn(req.user.user_id, req.params.checkInId);
+    res.json({ success: true });
+  } catch (error) {
+    sendCheckInError(res, error, "Failed to delete check-in");
+  }
+});
+
+export { router as checkInsRoutes };
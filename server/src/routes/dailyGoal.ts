@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { DailyGoalsService } from "../services/dailyGoal";
+import { GoalTargetService } from "../services/goalTargets";
 
 const router = Router();
 
@@ -42,4 +43,26 @@ router.put("/", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// GET /api/daily-goals/history - Past target changes and why they happened
+router.get("/history", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+    const adjustments = await GoalTargetService.getAdjustments(
+      req.user.user_id,
+      limit
+    );
+
+    res.json({
+      success: true,
+      data: adjustments,
+    });
+  } catch (error) {
+    console.error("Error fetching goal history:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch goal history",
+    });
+  }
+});
+
 export { router as dailyGoalsRoutes };
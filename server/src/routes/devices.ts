@@ -1,12 +1,159 @@
-import { Router } from "express";
+import { Response, Router } from "express";
+import { ZodError } from "zod";
 import { DeviceService } from "../services/devices";
+import {
+  OAUTH_NONCE_COOKIE,
+  WearableSyncService,
+} from "../services/wearableSync";
+import { isWearableProvider } from "../lib/wearables";
+import { deviceSyncSchema } from "../types/devices";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { getTodayKey } from "../utils/dayBoundary";
 
 const router = Router();
 
-// Apply auth middleware to all routes
+function redirectWithResult(
+  res: Response,
+  returnUrl: string | undefined,
+  params: Record<string, string>
+) {
+  if (!returnUrl) {
+    const message =
+      params.status === "success"
+        ? "Device connected. You can return to the app."
+        : `Device connection failed: ${params.error}`;
+    return res.status(params.status === "success" ? 200 : 400).send(message);
+  }
+
+  const url = new URL(returnUrl);
+  Object.entries(params).forEach(([key, value]) =>
+    url.searchParams.set(key, value)
+  );
+  res.redirect(url.toString());
+}
+
+// OAuth start - the browser opens this first; it keeps the state's nonce in
+// a cookie and moves on to the provider's consent page
+router.get("/oauth/:provider/start", (req, res) => {
+  const provider = req.params.provider.toUpperCase();
+  const { state } = req.query as Record<string, string>;
+
+  if (!isWearableProvider(provider) || !state) {
+    return res.status(400).send("Invalid authorization request");
+  }
+
+  try {
+    const { authorizationUrl, nonce } = WearableSyncService.startAuthorization(
+      state,
+      provider
+    );
+    res.cookie(
+      OAUTH_NONCE_COOKIE,
+      nonce,
+      WearableSyncService.getNonceCookieOptions(provider)
+    );
+    res.redirect(authorizationUrl);
+  } catch (stateError) {
+    console.error("💥 Invalid OAuth state:", stateError);
+    res.status(400).send("Authorization request expired, please try again");
+  }
+});
+
+// OAuth callback - the provider redirects the browser here, so it can't
+// carry our auth token; the signed state identifies the user, and the nonce
+// cookie ties it to the browser that started the flow
+router.get("/oauth/:provider/callback", async (req, res) => {
+  const provider = req.params.provider.toUpperCase();
+  const { code, state, error } = req.query as Record<string, string>;
+
+  if (!isWearableProvider(provider) || !state) {
+    return res.status(400).send("Invalid authorization callback");
+  }
+
+  let oauthState;
+  try {
+    oauthState = WearableSyncService.verifyState(
+      state,
+      provider,
+      req.cookies?.[OAUTH_NONCE_COOKIE]
+    );
+  } catch (stateError) {
+    console.error("💥 Invalid OAuth state:", stateError);
+    return res.status(400).send("Authorization request expired, please try again");
+  } finally {
+    const { path } = WearableSyncService.getNonceCookieOptions(provider);
+    res.clearCookie(OAUTH_NONCE_COOKIE, { path });
+  }
+
+  if (error || !code) {
+    console.log("❌ Provider authorization denied:", provider, error);
+    return redirectWithResult(res, oauthState.returnUrl, {
+      status: "error",
+      deviceType: provider,
+      error: error || "Authorization was cancelled",
+    });
+  }
+
+  try {
+    const device = await WearableSyncService.completeAuthorization(
+      provider,
+      code,
+      oauthState
+    );
+
+    redirectWithResult(res, oauthState.returnUrl, {
+      status: "success",
+      deviceType: provider,
+      deviceId: device.connected_device_id,
+    });
+  } catch (callbackError) {
+    console.error("💥 OAuth callback error:", callbackError);
+    redirectWithResult(res, oauthState.returnUrl, {
+      status: "error",
+      deviceType: provider,
+      error: "Failed to connect device",
+    });
+  }
+});
+
+// Apply auth middleware to all routes below
 router.use(authenticateToken);
 
+// Start the OAuth flow for a wearable provider
+router.get("/oauth/:provider/authorize", async (req: AuthRequest, res) => {
+  try {
+    const provider = req.params.provider.toUpperCase();
+    const returnUrl =
+      typeof req.query.returnUrl === "string" ? req.query.returnUrl : undefined;
+
+    if (!isWearableProvider(provider)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unsupported provider: ${req.params.provider}`,
+      });
+    }
+
+    const authorizationUrl = WearableSyncService.createAuthorizationUrl(
+      req.user.user_id,
+      provider,
+      returnUrl
+    );
+
+    res.json({
+      success: true,
+      data: { authorizationUrl },
+    });
+  } catch (error) {
+    console.error("💥 Authorize device error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to start authorization";
+    res.status(400).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
 // Get user's connected devices
 router.get("/", async (req: AuthRequest, res) => {
   try {
@@ -94,14 +241,33 @@ router.delete("/:deviceId", async (req: AuthRequest, res) => {
 router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
   try {
     const { deviceId } = req.params;
-    const { activityData } = req.body;
+    const { records, activityData } = req.body;
 
     console.log("🔄 Sync device data request:", deviceId);
 
-    const result = await DeviceService.syncDeviceData(
+    // Without a payload the server pulls the data from the provider itself
+    if (!records && !activityData) {
+      const result = await WearableSyncService.syncDevice(
+        req.user.user_id,
+        deviceId
+      );
+      return res.json({ success: true, data: result });
+    }
+
+    // Older clients post a single undated activityData object for today
+    const payload = deviceSyncSchema.parse({
+      records: records ?? [
+        {
+          date: getTodayKey(req.user.timezone),
+          ...activityData,
+        },
+      ],
+    });
+
+    const result = await DeviceService.syncActivityRecords(
       req.user.user_id,
       deviceId,
-      activityData
+      payload.records
     );
 
     res.json({
@@ -109,6 +275,14 @@ router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
       data: result,
     });
   } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0]?.message || "Invalid activity records",
+        details: error.errors,
+      });
+    }
+
     console.error("💥 Sync device error:", error);
     const message =
       error instanceof Error ? error.message : "Failed to sync device";
@@ -0,0 +1,45 @@
+import { Response, Router } from "express";
+import { ZodError } from "zod";
+import { FoodSafetyError, FoodSafetyService } from "../services/foodSafety";
+import { foodSafetyFlagsQuerySchema } from "../types/foodSafety";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+
+const router = Router();
+
+function sendFoodSafetyError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: error.errors[0]?.message || "Invalid request",
+      details: error.errors,
+    });
+  }
+  if (error instanceof FoodSafetyError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallback,
+  });
+}
+
+// Apply auth middleware to all routes
+router.use(authenticateToken);
+
+// GET /api/food-safety/flags - Food that was regenerated, removed or flagged, newest first
+router.get("/flags", async (req: AuthRequest, res) => {
+  try {
+    const query = foodSafetyFlagsQuerySchema.parse(req.query);
+    const flags = await FoodSafetyService.getFlags(req.user.user_id, query);
+    res.json({ success: true, data: flags });
+  } catch (error) {
+    sendFoodSafetyError(res, error, "Failed to fetch food safety flags");
+  }
+});
+
+export { router as foodSafetyRoutes };
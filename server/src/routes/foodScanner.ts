@@ -1,7 +1,19 @@
 import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { meterAiUsage } from "../middleware/aiQuota";
 import { FoodScannerService } from "../services/foodScanner";
-import { z } from "zod";
+import {
+  ProductCatalogError,
+  ProductCatalogService,
+} from "../services/productCatalog";
+import {
+  correctionsQuerySchema,
+  correctionVoteSchema,
+  productBarcodeSchema,
+  productCorrectionSchema,
+  productSubmissionSchema,
+} from "../types/productCatalog";
+import { z, ZodError } from "zod";
 
 const router = Router();
 
@@ -43,6 +55,28 @@ const addToMealSchema = z.object({
   mealTiming: z.string().optional().default("SNACK"),
 });
 
+function sendCatalogError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: error.errors[0]?.message || "Invalid request",
+      details: error.errors,
+    });
+  }
+  if (error instanceof ProductCatalogError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallback,
+  });
+}
+
 // Scan barcode endpoint
 router.post(
   "/barcode",
@@ -78,6 +112,13 @@ router.post(
       });
     } catch (error) {
       console.error("❌ Barcode scan error:", error);
+      if (error instanceof ProductCatalogError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: "Failed to scan barcode",
+          message: error.message,
+        });
+      }
       res.status(500).json({
         success: false,
         error: "Failed to scan barcode",
@@ -91,6 +132,7 @@ router.post(
 router.post(
   "/image",
   authenticateToken,
+  meterAiUsage("PRODUCT_SCAN"),
   async (req: AuthRequest, res: Response) => {
     try {
       const userId = req.user?.user_id;
@@ -214,4 +256,128 @@ router.get(
   }
 );
 
+// Add a product missing from the catalog, typed in from its label
+router.post(
+  "/products",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const input = productSubmissionSchema.parse(req.body);
+      const product = await ProductCatalogService.submitProduct(
+        req.user.user_id,
+        input
+      );
+      res.json({ success: true, data: product });
+    } catch (error) {
+      sendCatalogError(res, error, "Failed to add product");
+    }
+  }
+);
+
+// Get a catalog product with its provenance and open corrections
+router.get(
+  "/products/:barcode",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const barcode = productBarcodeSchema.parse(req.params.barcode);
+      const product = await ProductCatalogService.getProduct(barcode);
+      res.json({ success: true, data: product });
+    } catch (error) {
+      sendCatalogError(res, error, "Failed to get product");
+    }
+  }
+);
+
+// Every nutrition version the product has had, newest first
+router.get(
+  "/products/:barcode/versions",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const barcode = productBarcodeSchema.parse(req.params.barcode);
+      const versions = await ProductCatalogService.getVersions(barcode);
+      res.json({ success: true, data: versions });
+    } catch (error) {
+      sendCatalogError(res, error, "Failed to get product versions");
+    }
+  }
+);
+
+// Corrections for a product, pending ones by default
+router.get(
+  "/products/:barcode/corrections",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const barcode = productBarcodeSchema.parse(req.params.barcode);
+      const { status } = correctionsQuerySchema.parse(req.query);
+      const corrections = await ProductCatalogService.getCorrections(
+        req.user.user_id,
+        barcode,
+        status
+      );
+      res.json({ success: true, data: corrections });
+    } catch (error) {
+      sendCatalogError(res, error, "Failed to get corrections");
+    }
+  }
+);
+
+// Suggest corrected nutrition for a product
+router.post(
+  "/products/:barcode/corrections",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const barcode = productBarcodeSchema.parse(req.params.barcode);
+      const input = productCorrectionSchema.parse(req.body);
+      const correction = await ProductCatalogService.submitCorrection(
+        req.user.user_id,
+        barcode,
+        input
+      );
+      res.json({ success: true, data: correction });
+    } catch (error) {
+      sendCatalogError(res, error, "Failed to submit correction");
+    }
+  }
+);
+
+// Vote for or against another user's correction
+router.post(
+  "/corrections/:correctionId/vote",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { approve } = correctionVoteSchema.parse(req.body);
+      const correction = await ProductCatalogService.voteOnCorrection(
+        req.user.user_id,
+        req.params.correctionId,
+        approve
+      );
+      res.json({ success: true, data: correction });
+    } catch (error) {
+      sendCatalogError(res, error, "Failed to record vote");
+    }
+  }
+);
+
+// Withdraw your own pending correction
+router.delete(
+  "/corrections/:correctionId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await ProductCatalogService.withdrawCorrection(
+        req.user.user_id,
+        req.params.correctionId
+      );
+      res.json({ success: true });
+    } catch (error) {
+      sendCatalogError(res, error, "Failed to withdraw correction");
+    }
+  }
+);
+
 export default router;
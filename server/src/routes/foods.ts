@@ -0,0 +1,60 @@
+import { Response, Router } from "express";
+import { ZodError } from "zod";
+import { FoodDatabaseService } from "../services/foodDatabase";
+import { foodPortionQuerySchema, foodSearchQuerySchema } from "../types/foods";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+
+const router = Router();
+
+function sendFoodsError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: error.errors[0]?.message || "Invalid request",
+      details: error.errors,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallback,
+  });
+}
+
+// Apply auth middleware to all routes
+router.use(authenticateToken);
+
+// GET /api/foods/search?q= - Foods whose English or Hebrew names match
+router.get("/search", (req: AuthRequest, res) => {
+  try {
+    const { q, category, limit } = foodSearchQuerySchema.parse(req.query);
+    const foods = FoodDatabaseService.search(q, category, limit);
+    res.json({ success: true, data: foods });
+  } catch (error) {
+    sendFoodsError(res, error, "Failed to search foods");
+  }
+});
+
+// GET /api/foods/:foodId?grams= - One food with its nutrients for a portion
+router.get("/:foodId", (req: AuthRequest, res) => {
+  try {
+    const { grams } = foodPortionQuerySchema.parse(req.query);
+    const food = FoodDatabaseService.getFood(req.params.foodId);
+    if (!food) {
+      return res.status(404).json({ success: false, error: "Food not found" });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...food,
+        portion: { grams, ...FoodDatabaseService.priceFood(food, grams) },
+      },
+    });
+  } catch (error) {
+    sendFoodsError(res, error, "Failed to fetch food");
+  }
+});
+
+export { router as foodsRoutes };
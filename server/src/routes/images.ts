@@ -0,0 +1,43 @@
+import { Router } from "express";
+import { getStorageDriver, LocalDiskStorageDriver } from "../lib/storage";
+
+const router = Router();
+
+// GET /api/images/* - Serve locally stored images behind a signed URL.
+// No auth middleware: the signature and expiry are the authorization.
+router.get("/*", async (req, res) => {
+  try {
+    const driver = getStorageDriver();
+
+    // S3-compatible drivers hand out presigned bucket URLs instead
+    if (!(driver instanceof LocalDiskStorageDriver)) {
+      return res.status(404).json({ success: false, error: "Not found" });
+    }
+
+    const key = (req.params as Record<string, string>)[0];
+    const expires = Number(req.query.expires);
+    const signature = String(req.query.signature || "");
+
+    if (!key || !driver.verifySignature(key, expires, signature)) {
+      return res.status(403).json({
+        success: false,
+        error: "Invalid or expired image link",
+      });
+    }
+
+    const image = await driver.get(key);
+    if (!image) {
+      return res.status(404).json({ success: false, error: "Image not found" });
+    }
+
+    res.setHeader("Content-Type", image.contentType);
+    res.setHeader("Cache-Control", "private, max-age=3600");
+    res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
+    res.send(image.body);
+  } catch (error) {
+    console.error("Error serving image:", error);
+    res.status(500).json({ success: false, error: "Failed to load image" });
+  }
+});
+
+export { router as imageRoutes };
@@ -1,6 +1,10 @@
 import { Router } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { meterAiUsage } from "../middleware/aiQuota";
 import { MealPlanService } from "../services/mealPlans";
+import { ShoppingListError } from "../services/shoppingLists";
+import { FoodSafetyError } from "../services/foodSafety";
+import { planShoppingListSchema } from "../types/shoppingLists";
 import { prisma } from "../lib/database";
 import { MealTiming } from "@prisma/client";
 
@@ -115,6 +119,7 @@ router.get(
 router.post(
   "/recommended/generate",
   authenticateToken,
+  meterAiUsage("MENU_GENERATION"),
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user.user_id;
@@ -718,7 +723,7 @@ router.get("/current", authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // Create comprehensive menu
-router.post("/create-comprehensive", authenticateToken, async (req, res) => {
+router.post("/create-comprehensive", authenticateToken, meterAiUsage("MENU_GENERATION"), async (req, res) => {
   try {
     console.log("🎨 Creating comprehensive menu for user:", req.user?.user_id);
     console.log("📝 Config:", req.body);
@@ -788,6 +793,12 @@ router.post("/create-comprehensive", authenticateToken, async (req, res) => {
     });
   } catch (error) {
     console.error("💥 Error creating comprehensive menu:", error);
+    if (error instanceof FoodSafetyError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    }
     res.status(500).json({
       success: false,
       error:
@@ -899,7 +910,7 @@ router.get("/active-status", authenticateToken, async (req, res) => {
 });
 
 // Create new meal plan
-router.post("/create", authenticateToken, async (req, res) => {
+router.post("/create", authenticateToken, meterAiUsage("MENU_GENERATION"), async (req, res) => {
   try {
     console.log("🤖 Creating meal plan for user:", req.user?.user_id);
     console.log("📝 Config:", req.body);
@@ -932,6 +943,12 @@ router.post("/create", authenticateToken, async (req, res) => {
     });
   } catch (error) {
     console.error("💥 Error creating meal plan:", error);
+    if (error instanceof FoodSafetyError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    }
     res.status(500).json({
       success: false,
       error:
@@ -940,7 +957,7 @@ router.post("/create", authenticateToken, async (req, res) => {
   }
 });
 // Replace meal in plan
-router.put("/:planId/replace", authenticateToken, async (req, res) => {
+router.put("/:planId/replace", authenticateToken, meterAiUsage("MEAL_REPLACEMENT"), async (req, res) => {
   try {
     console.log("🔄 Replacing meal in plan:", req.params.planId);
 
@@ -993,6 +1010,12 @@ router.put("/:planId/replace", authenticateToken, async (req, res) => {
     });
   } catch (error) {
     console.error("💥 Error replacing meal:", error);
+    if (error instanceof FoodSafetyError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    }
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : "Failed to replace meal",
@@ -1014,14 +1037,17 @@ router.post("/:planId/shopping-list", authenticateToken, async (req, res) => {
     }
 
     const { planId } = req.params;
-    const { week_start_date } = req.body;
+    const parsed = planShoppingListSchema.safeParse(req.body ?? {});
 
-    if (!week_start_date) {
+    if (!parsed.success) {
       return res.status(400).json({
         success: false,
-        error: "Missing required field: week_start_date",
+        error:
+          parsed.error.errors[0]?.message ||
+          "Missing required field: week_start_date",
       });
     }
+    const { week_start_date } = parsed.data;
 
     const shoppingList = await MealPlanService.generateShoppingList(
       user_id,
@@ -1036,6 +1062,12 @@ router.post("/:planId/shopping-list", authenticateToken, async (req, res) => {
       message: "Shopping list generated successfully",
     });
   } catch (error) {
+    if (error instanceof ShoppingListError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    }
     console.error("💥 Error generating shopping list:", error);
     res.status(500).json({
       success: false,
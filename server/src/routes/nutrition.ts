@@ -1,19 +1,66 @@
 import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { meterAiUsage } from "../middleware/aiQuota";
 import { prisma } from "../lib/database";
 import { z } from "zod";
-import { mealAnalysisSchema, mealUpdateSchema } from "../types/nutrition";
-import { NutritionService } from "../services/nutrition";
+import {
+  favoriteMealsQuerySchema,
+  mealAnalysisSchema,
+  mealFeedbackSchema,
+  mealIngredientCreateSchema,
+  mealIngredientUpdateSchema,
+  mealScaleSchema,
+  mealTextAnalysisSchema,
+  mealTimingSchema,
+  mealUpdateSchema,
+} from "../types/nutrition";
+import { MealEditError, NutritionService } from "../services/nutrition";
 import { StatisticsService } from "../services/statistics";
 import { AchievementService } from "../services/achievements";
+import { ImageStorageService } from "../services/imageStorage";
+import {
+  getDayRange,
+  getTodayKey,
+  isDateKey,
+  toDbDate,
+} from "../utils/dayBoundary";
 
 const router = Router();
 
 const waterIntakeSchema = z.object({
   cups_consumed: z.number().min(0).max(25),
-  date: z.string().optional(),
+  // The user's local day; defaults to today in their time zone
+  date: z.string().refine(isDateKey, "Date must be YYYY-MM-DD").optional(),
 });
 
+// Position of an ingredient in the meal's ingredient list
+const ingredientIndexSchema = z.coerce
+  .number()
+  .int()
+  .min(0, "Invalid ingredient index");
+
+function sendMealEditError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: error.errors[0]?.message || "Invalid request",
+      details: error.errors,
+    });
+  }
+  if (error instanceof MealEditError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallback,
+  });
+}
+
 // Track water intake
 router.post(
   "/water-intake",
@@ -42,56 +89,13 @@ router.post(
       }
 
       const { cups_consumed, date } = validationResult.data;
-      const trackingDate = date ? new Date(date) : new Date();
-
-      // Limit water intake to maximum goal (10 cups/2500ml)
-      const maxCups = 10;
-      const limitedCups = Math.min(cups_consumed, maxCups);
-      const limitedMilliliters = limitedCups * 250;
-
-      // Set date to start of day for consistent comparison
-      const startOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate()
-      );
-      const endOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate() + 1
-      );
 
-      // Check if water intake record exists for today
-      const existingRecord = await prisma.waterIntake.findFirst({
-        where: {
-          user_id: userId,
-          date: {
-            gte: startOfDay,
-            lt: endOfDay,
-          },
-        },
-      });
-
-      // Use upsert to handle potential race conditions
-      const waterRecord = await prisma.waterIntake.upsert({
-        where: {
-          user_id_date: {
-            user_id: userId,
-            date: startOfDay,
-          },
-        },
-        update: {
-          cups_consumed: limitedCups,
-          milliliters_consumed: limitedMilliliters,
-          updated_at: new Date(),
-        },
-        create: {
-          user_id: userId,
-          date: startOfDay,
-          cups_consumed: limitedCups,
-          milliliters_consumed: limitedMilliliters,
-        },
-      });
+      const waterRecord = await NutritionService.setWaterIntake(
+        userId,
+        cups_consumed,
+        date
+      );
+      const limitedCups = waterRecord.cups_consumed;
 
       // Cap XP at 25 for water intake challenge
       let xpAwarded = 0;
@@ -124,27 +128,17 @@ router.post(
 
         // Check for complete day
         if (waterGoalComplete) {
-          const today = new Date();
-          const startOfDayToday = new Date(
-            today.getFullYear(),
-            today.getMonth(),
-            today.getDate()
-          );
-          const endOfDayToday = new Date(
-            today.getFullYear(),
-            today.getMonth(),
-            today.getDate(),
-            23,
-            59,
-            59
+          const { start, end } = getDayRange(
+            getTodayKey(req.user.timezone),
+            req.user.timezone
           );
 
           const todayMeals = await prisma.meal.findMany({
             where: {
               user_id: userId,
-              created_at: {
-                gte: startOfDayToday,
-                lte: endOfDayToday,
+              eaten_at: {
+                gte: start,
+                lt: end,
               },
             },
           });
@@ -221,26 +215,17 @@ router.get(
       return res.status(401).json({ error: "User not authenticated" });
     }
 
-    try {
-      const trackingDate = new Date(date);
-      const startOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate()
-      );
-      const endOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate() + 1
-      );
+    if (!isDateKey(date)) {
+      return res.status(400).json({
+        success: false,
+        error: "Date must be in YYYY-MM-DD format",
+      });
+    }
 
-      const waterRecord = await prisma.waterIntake.findFirst({
+    try {
+      const waterRecord = await prisma.waterIntake.findUnique({
         where: {
-          user_id: userId,
-          date: {
-            gte: startOfDay,
-            lt: endOfDay,
-          },
+          user_id_date: { user_id: userId, date: toDbDate(date) },
         },
       });
 
@@ -259,7 +244,7 @@ router.get(
 // router.use(authenticateToken); //commented to apply auth each route
 
 // Analyze meal endpoint
-router.post("/analyze", authenticateToken, async (req: AuthRequest, res) => {
+router.post("/analyze", authenticateToken, meterAiUsage("MEAL_ANALYSIS"), async (req: AuthRequest, res) => {
   try {
     console.log("Analyze meal request received");
     console.log("Request body keys:", Object.keys(req.body));
@@ -290,6 +275,8 @@ router.post("/analyze", authenticateToken, async (req: AuthRequest, res) => {
       date,
       updateText,
       editedIngredients = [],
+      meal_type,
+      eaten_at,
     } = validationResult.data;
 
     if (!imageBase64 || imageBase64.trim() === "") {
@@ -349,9 +336,11 @@ router.post("/analyze", authenticateToken, async (req: AuthRequest, res) => {
     const result = await NutritionService.analyzeMeal(req.user.user_id, {
       imageBase64: validatedData.imageBase64,
       language: validatedData.language,
-      date: validatedData.date || new Date().toISOString().split("T")[0],
+      date: validatedData.date || getTodayKey(req.user.timezone),
       updateText: validatedData.updateText,
       editedIngredients: validatedData.editedIngredients,
+      meal_type,
+      eaten_at,
     });
 
     console.log("✅ Analysis completed successfully");
@@ -375,8 +364,44 @@ router.post("/analyze", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// Analyze a meal from a typed description or a voice transcript
+router.post(
+  "/analyze-text",
+  authenticateToken,
+  meterAiUsage("MEAL_ANALYSIS"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = mealTextAnalysisSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: validationResult.error.errors[0].message,
+          details: validationResult.error.errors,
+        });
+      }
+
+      const data = validationResult.data;
+      const result = await NutritionService.analyzeMealText(req.user.user_id, {
+        ...data,
+        date: data.date || getTodayKey(req.user.timezone),
+      });
+
+      res.json(result);
+    } catch (error) {
+      console.error("💥 Analyze meal text error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to analyze meal";
+      res.status(500).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
 // Update meal endpoint
-router.put("/update", authenticateToken, async (req: AuthRequest, res) => {
+router.put("/update", authenticateToken, meterAiUsage("MEAL_ANALYSIS"), async (req: AuthRequest, res) => {
   try {
     console.log("Update meal request received");
 
@@ -531,11 +556,25 @@ router.post("/save", authenticateToken, async (req: AuthRequest, res) => {
       });
     }
 
+    // The analysis result carries eaten_at / meal_type for back-dated meals
+    const timingResult = mealTimingSchema.safeParse({
+      date: mealData.date ?? undefined,
+      meal_type: mealData.meal_type ?? undefined,
+      eaten_at: mealData.eaten_at ?? undefined,
+    });
+    if (!timingResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: timingResult.error.errors[0].message,
+        details: timingResult.error.errors,
+      });
+    }
+
     console.log("Saving meal for user:", req.user.user_id);
 
     const meal = await NutritionService.saveMeal(
       req.user.user_id,
-      mealData,
+      { ...mealData, ...timingResult.data },
       imageBase64
     );
 
@@ -691,6 +730,46 @@ router.get("/stats/range", authenticateToken, async (req: AuthRequest, res) => {
 });
 // NEW ENDPOINTS FOR HISTORY FEATURES
 
+// Get favorite meals, paginated and optionally sorted by rating
+router.get(
+  "/meals/favorites",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const validationResult = favoriteMealsQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error:
+            "Invalid query: " +
+            validationResult.error.errors.map((e) => e.message).join(", "),
+        });
+      }
+
+      console.log("❤️ Favorite meals request for user:", req.user.user_id);
+
+      const result = await NutritionService.getFavoriteMeals(
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: result.meals,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      console.error("💥 Get favorite meals error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to fetch favorites";
+      res.status(500).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
 // Save meal feedback (ratings)
 router.post(
   "/meals/:mealId/feedback",
@@ -698,7 +777,17 @@ router.post(
   async (req: AuthRequest, res) => {
     try {
       const { mealId } = req.params;
-      const feedback = req.body;
+
+      const validationResult = mealFeedbackSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error:
+            "Invalid feedback data: " +
+            validationResult.error.errors.map((e) => e.message).join(", "),
+        });
+      }
+      const feedback = validationResult.data;
 
       console.log("💬 Save feedback request for meal:", mealId);
       console.log("📊 Feedback data:", feedback);
@@ -799,6 +888,99 @@ router.post(
   }
 );
 
+// Ingredient-level editing of a saved meal. Each change recomputes the
+// meal totals without another AI request
+router.get(
+  "/meals/:mealId/ingredients",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const ingredients = await NutritionService.getMealIngredients(
+        req.user.user_id,
+        req.params.mealId
+      );
+      res.json({ success: true, data: ingredients });
+    } catch (error) {
+      sendMealEditError(res, error, "Failed to fetch meal ingredients");
+    }
+  }
+);
+
+router.post(
+  "/meals/:mealId/ingredients",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const input = mealIngredientCreateSchema.parse(req.body);
+      const meal = await NutritionService.addMealIngredient(
+        req.user.user_id,
+        req.params.mealId,
+        input
+      );
+      res.status(201).json({ success: true, data: meal });
+    } catch (error) {
+      sendMealEditError(res, error, "Failed to add ingredient");
+    }
+  }
+);
+
+router.put(
+  "/meals/:mealId/ingredients/:index",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const index = ingredientIndexSchema.parse(req.params.index);
+      const input = mealIngredientUpdateSchema.parse(req.body);
+      const meal = await NutritionService.updateMealIngredient(
+        req.user.user_id,
+        req.params.mealId,
+        index,
+        input
+      );
+      res.json({ success: true, data: meal });
+    } catch (error) {
+      sendMealEditError(res, error, "Failed to update ingredient");
+    }
+  }
+);
+
+router.delete(
+  "/meals/:mealId/ingredients/:index",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const index = ingredientIndexSchema.parse(req.params.index);
+      const meal = await NutritionService.removeMealIngredient(
+        req.user.user_id,
+        req.params.mealId,
+        index
+      );
+      res.json({ success: true, data: meal });
+    } catch (error) {
+      sendMealEditError(res, error, "Failed to remove ingredient");
+    }
+  }
+);
+
+// Scale the whole meal's portion, e.g. { multiplier: 0.5 } for half
+router.post(
+  "/meals/:mealId/scale",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { multiplier } = mealScaleSchema.parse(req.body);
+      const meal = await NutritionService.scaleMeal(
+        req.user.user_id,
+        req.params.mealId,
+        multiplier
+      );
+      res.json({ success: true, data: meal });
+    } catch (error) {
+      sendMealEditError(res, error, "Failed to scale meal");
+    }
+  }
+);
+
 // Get meal details with full nutrition info
 router.get(
   "/meals/:meal_id/details",
@@ -826,7 +1008,7 @@ router.get(
 
       // Format the complete meal data with all nutrition fields from schema
       const fullMealData = {
-        ...meal,
+        ...(await ImageStorageService.withSignedImageUrls(meal)),
         // Include all nutrition fields from your Prisma schema
         protein_g: meal.protein_g,
         carbs_g: meal.carbs_g,
@@ -903,7 +1085,7 @@ router.get(
 
       res.json({
         success: true,
-        data: meal,
+        data: await ImageStorageService.withSignedImageUrls(meal),
       });
     } catch (error) {
       console.error("💥 Get meal error:", error);
@@ -937,11 +1119,26 @@ router.put("/meals/:id", authenticateToken, async (req: AuthRequest, res) => {
       });
     }
 
+    // Moving a meal to another time goes through the same back-dating limits
+    // as logging it
+    const timingResult = mealTimingSchema.omit({ date: true }).safeParse({
+      meal_type: updates.meal_type ?? undefined,
+      eaten_at: updates.eaten_at ?? undefined,
+    });
+    if (!timingResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: timingResult.error.errors[0].message,
+        details: timingResult.error.errors,
+      });
+    }
+
     // Update meal
     const updatedMeal = await prisma.meal.update({
       where: { meal_id: mealId },
       data: {
         ...updates,
+        ...timingResult.data,
         updated_at: new Date(),
       },
     });
@@ -991,6 +1188,16 @@ router.delete(
         where: { meal_id: mealId },
       });
 
+      // Duplicated meals share the stored image, so only remove it once unused
+      if (ImageStorageService.isStoredImage(existingMeal.image_url)) {
+        const remainingReferences = await prisma.meal.count({
+          where: { image_url: existingMeal.image_url },
+        });
+        if (remainingReferences === 0) {
+          await ImageStorageService.deleteMealImage(existingMeal.image_url);
+        }
+      }
+
       console.log("✅ Meal deleted successfully:", mealId);
 
       res.json({
@@ -1056,7 +1263,10 @@ router.get(
 
       switch (period) {
         case "today":
-          startDate.setHours(0, 0, 0, 0);
+          startDate = getDayRange(
+            getTodayKey(req.user.timezone),
+            req.user.timezone
+          ).start;
           break;
         case "week":
           startDate.setDate(now.getDate() - 7);
@@ -1074,20 +1284,22 @@ router.get(
       const meals = await prisma.meal.findMany({
         where: {
           user_id: req.user.user_id,
-          created_at: {
+          eaten_at: {
             gte: startDate,
             lte: now,
           },
         },
         orderBy: {
-          created_at: "desc",
+          eaten_at: "desc",
         },
       });
 
       console.log("✅ Retrieved", meals.length, "meal history items");
       res.json({
         success: true,
-        data: meals,
+        data: await Promise.all(
+          meals.map((meal) => ImageStorageService.withSignedImageUrls(meal))
+        ),
       });
     } catch (error) {
       console.error("💥 Get meal history error:", error);
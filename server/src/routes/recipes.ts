@@ -0,0 +1,177 @@
+import { Response, Router } from "express";
+import { ZodError } from "zod";
+import { RecipeError, RecipeService } from "../services/recipes";
+import {
+  recipeCreateSchema,
+  recipeFromMealSchema,
+  recipeLogSchema,
+  recipeUpdateSchema,
+  shareTokenSchema,
+} from "../types/recipes";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+
+const router = Router();
+
+function sendRecipeError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: error.errors[0]?.message || "Invalid request",
+      details: error.errors,
+    });
+  }
+  if (error instanceof RecipeError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallback,
+  });
+}
+
+// Apply auth middleware to all routes
+router.use(authenticateToken);
+
+// GET /api/recipes - The user's recipes, most recently edited first
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    const recipes = await RecipeService.getRecipes(req.user.user_id);
+    res.json({ success: true, data: recipes });
+  } catch (error) {
+    sendRecipeError(res, error, "Failed to fetch recipes");
+  }
+});
+
+// POST /api/recipes - Create a recipe from ingredients
+router.post("/", async (req: AuthRequest, res) => {
+  try {
+    const input = recipeCreateSchema.parse(req.body);
+    const recipe = await RecipeService.createRecipe(req.user.user_id, input);
+    res.json({ success: true, data: recipe });
+  } catch (error) {
+    sendRecipeError(res, error, "Failed to create recipe");
+  }
+});
+
+// POST /api/recipes/from-meal/:mealId - Save an analyzed meal as a recipe
+router.post("/from-meal/:mealId", async (req: AuthRequest, res) => {
+  try {
+    const input = recipeFromMealSchema.parse(req.body ?? {});
+    const recipe = await RecipeService.createRecipeFromMeal(
+      req.user.user_id,
+      req.params.mealId,
+      input
+    );
+    res.json({ success: true, data: recipe });
+  } catch (error) {
+    sendRecipeError(res, error, "Failed to save meal as recipe");
+  }
+});
+
+// GET /api/recipes/shared/:token - Preview a recipe shared by link
+router.get("/shared/:token", async (req: AuthRequest, res) => {
+  try {
+    const token = shareTokenSchema.parse(req.params.token);
+    const recipe = await RecipeService.getSharedRecipe(token);
+    res.json({ success: true, data: recipe });
+  } catch (error) {
+    sendRecipeError(res, error, "Failed to fetch shared recipe");
+  }
+});
+
+// POST /api/recipes/shared/:token - Save a copy of a shared recipe
+router.post("/shared/:token", async (req: AuthRequest, res) => {
+  try {
+    const token = shareTokenSchema.parse(req.params.token);
+    const recipe = await RecipeService.copySharedRecipe(
+      req.user.user_id,
+      token
+    );
+    res.json({ success: true, data: recipe });
+  } catch (error) {
+    sendRecipeError(res, error, "Failed to save shared recipe");
+  }
+});
+
+// GET /api/recipes/:id - One recipe with per-serving nutrition
+router.get("/:id", async (req: AuthRequest, res) => {
+  try {
+    const recipe = await RecipeService.getRecipe(
+      req.user.user_id,
+      req.params.id
+    );
+    res.json({ success: true, data: recipe });
+  } catch (error) {
+    sendRecipeError(res, error, "Failed to fetch recipe");
+  }
+});
+
+// PUT /api/recipes/:id - Rename, re-portion or replace the ingredients
+router.put("/:id", async (req: AuthRequest, res) => {
+  try {
+    const input = recipeUpdateSchema.parse(req.body);
+    const recipe = await RecipeService.updateRecipe(
+      req.user.user_id,
+      req.params.id,
+      input
+    );
+    res.json({ success: true, data: recipe });
+  } catch (error) {
+    sendRecipeError(res, error, "Failed to update recipe");
+  }
+});
+
+// DELETE /api/recipes/:id
+router.delete("/:id", async (req: AuthRequest, res) => {
+  try {
+    await RecipeService.deleteRecipe(req.user.user_id, req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    sendRecipeError(res, error, "Failed to delete recipe");
+  }
+});
+
+// POST /api/recipes/:id/log - Log servings of the recipe as a meal
+router.post("/:id/log", async (req: AuthRequest, res) => {
+  try {
+    const input = recipeLogSchema.parse(req.body ?? {});
+    const meal = await RecipeService.logServings(
+      req.user.user_id,
+      req.params.id,
+      input
+    );
+    res.json({ success: true, data: meal });
+  } catch (error) {
+    sendRecipeError(res, error, "Failed to log recipe");
+  }
+});
+
+// POST /api/recipes/:id/share - Turn on the recipe's share link
+router.post("/:id/share", async (req: AuthRequest, res) => {
+  try {
+    const share = await RecipeService.shareRecipe(
+      req.user.user_id,
+      req.params.id
+    );
+    res.json({ success: true, data: share });
+  } catch (error) {
+    sendRecipeError(res, error, "Failed to share recipe");
+  }
+});
+
+// DELETE /api/recipes/:id/share - Revoke the share link
+router.delete("/:id/share", async (req: AuthRequest, res) => {
+  try {
+    await RecipeService.unshareRecipe(req.user.user_id, req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    sendRecipeError(res, error, "Failed to stop sharing recipe");
+  }
+});
+
+export { router as recipesRoutes };
@@ -1,6 +1,9 @@
 import { Router } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { meterAiUsage } from "../middleware/aiQuota";
 import { RecommendedMenuService } from "../services/recommendedMenu";
+import { ShoppingListError } from "../services/shoppingLists";
+import { FoodSafetyError } from "../services/foodSafety";
 import { prisma } from "../lib/database";
 import { Response } from "express";
 
@@ -172,6 +175,7 @@ router.get("/debug", authenticateToken, async (req: AuthRequest, res) => {
 router.post(
   "/generate-custom",
   authenticateToken,
+  meterAiUsage("MENU_GENERATION"),
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user.user_id;
@@ -256,7 +260,10 @@ router.post(
       let errorMessage = "Failed to generate custom menu";
       let statusCode = 500;
 
-      if (error instanceof Error) {
+      if (error instanceof FoodSafetyError) {
+        errorMessage = error.message;
+        statusCode = error.statusCode;
+      } else if (error instanceof Error) {
         if (error.message.includes("questionnaire not found")) {
           errorMessage =
             "Please complete your questionnaire first before generating a custom menu";
@@ -276,7 +283,7 @@ router.post(
 );
 
 // POST /api/recommended-menus/generate - Generate new menu with preferences
-router.post("/generate", authenticateToken, async (req: AuthRequest, res) => {
+router.post("/generate", authenticateToken, meterAiUsage("MENU_GENERATION"), async (req: AuthRequest, res) => {
   try {
     const userId = req.user.user_id;
     console.log("🎯 Generating menu for user:", userId);
@@ -367,7 +374,10 @@ router.post("/generate", authenticateToken, async (req: AuthRequest, res) => {
     let errorMessage = "Failed to generate menu";
     let statusCode = 500;
 
-    if (error instanceof Error) {
+    if (error instanceof FoodSafetyError) {
+      errorMessage = error.message;
+      statusCode = error.statusCode;
+    } else if (error instanceof Error) {
       if (error.message.includes("questionnaire not found")) {
         errorMessage =
           "Please complete your questionnaire first before generating a menu";
@@ -392,6 +402,7 @@ router.post("/generate", authenticateToken, async (req: AuthRequest, res) => {
 router.post(
   "/:menuId/replace-meal",
   authenticateToken,
+  meterAiUsage("MEAL_REPLACEMENT"),
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user.user_id;
@@ -410,6 +421,12 @@ router.post(
         data: updatedMeal,
       });
     } catch (error) {
+      if (error instanceof FoodSafetyError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      }
       console.error("💥 Error replacing meal:", error);
       res.status(500).json({
         success: false,
@@ -505,6 +522,12 @@ router.get(
         data: shoppingList,
       });
     } catch (error) {
+      if (error instanceof ShoppingListError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      }
       console.error("💥 Error generating shopping list:", error);
       res.status(500).json({
         success: false,
@@ -519,6 +542,7 @@ router.get(
 router.post(
   "/generate-comprehensive",
   authenticateToken,
+  meterAiUsage("MENU_GENERATION"),
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user.user_id;
@@ -618,7 +642,10 @@ router.post(
       let errorMessage = "Failed to generate comprehensive menu";
       let statusCode = 500;
 
-      if (error instanceof Error) {
+      if (error instanceof FoodSafetyError) {
+        errorMessage = error.message;
+        statusCode = error.statusCode;
+      } else if (error instanceof Error) {
         if (error.message.includes("questionnaire not found")) {
           errorMessage =
             "Please complete your questionnaire first before generating a comprehensive menu";
@@ -0,0 +1,232 @@
+import { Response, Router } from "express";
+import { ZodError } from "zod";
+import {
+  ShoppingListError,
+  ShoppingListService,
+} from "../services/shoppingLists";
+import {
+  pantryItemSchema,
+  shoppingListItemSchema,
+  shoppingListItemUpdateSchema,
+  shoppingListMemberSchema,
+  shoppingListUpdateSchema,
+} from "../types/shoppingLists";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+
+const router = Router();
+
+function sendShoppingListError(
+  res: Response,
+  error: unknown,
+  fallback: string
+) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: error.errors[0]?.message || "Invalid request",
+      details: error.errors,
+    });
+  }
+  if (error instanceof ShoppingListError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallback,
+  });
+}
+
+// Apply auth middleware to all routes
+router.use(authenticateToken);
+
+// GET /api/shopping-lists - Lists the user owns or was invited to
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    const lists = await ShoppingListService.getLists(req.user.user_id);
+    res.json({ success: true, data: lists });
+  } catch (error) {
+    sendShoppingListError(res, error, "Failed to fetch shopping lists");
+  }
+});
+
+// GET /api/shopping-lists/pantry - What the user already has at home
+router.get("/pantry", async (req: AuthRequest, res) => {
+  try {
+    const pantry = await ShoppingListService.getPantry(req.user.user_id);
+    res.json({ success: true, data: pantry });
+  } catch (error) {
+    sendShoppingListError(res, error, "Failed to fetch pantry");
+  }
+});
+
+// PUT /api/shopping-lists/pantry - Set how much of an item is at home
+router.put("/pantry", async (req: AuthRequest, res) => {
+  try {
+    const input = pantryItemSchema.parse(req.body);
+    const item = await ShoppingListService.savePantryItem(
+      req.user.user_id,
+      input
+    );
+    res.json({ success: true, data: item });
+  } catch (error) {
+    sendShoppingListError(res, error, "Failed to save pantry item");
+  }
+});
+
+// DELETE /api/shopping-lists/pantry/:itemId
+router.delete("/pantry/:itemId", async (req: AuthRequest, res) => {
+  try {
+    await ShoppingListService.removePantryItem(
+      req.user.user_id,
+      req.params.itemId
+    );
+    res.json({ success: true });
+  } catch (error) {
+    sendShoppingListError(res, error, "Failed to remove pantry item");
+  }
+});
+
+// POST /api/shopping-lists/from-menu/:menuId - Generate from a recommended menu
+router.post("/from-menu/:menuId", async (req: AuthRequest, res) => {
+  try {
+    const list = await ShoppingListService.generateFromMenu(
+      req.user.user_id,
+      req.params.menuId
+    );
+    res.json({ success: true, data: list });
+  } catch (error) {
+    sendShoppingListError(res, error, "Failed to generate shopping list");
+  }
+});
+
+// GET /api/shopping-lists/:id
+router.get("/:id", async (req: AuthRequest, res) => {
+  try {
+    const list = await ShoppingListService.getList(
+      req.user.user_id,
+      req.params.id
+    );
+    res.json({ success: true, data: list });
+  } catch (error) {
+    sendShoppingListError(res, error, "Failed to fetch shopping list");
+  }
+});
+
+// PUT /api/shopping-lists/:id - Rename the list
+router.put("/:id", async (req: AuthRequest, res) => {
+  try {
+    const { name } = shoppingListUpdateSchema.parse(req.body);
+    const list = await ShoppingListService.renameList(
+      req.user.user_id,
+      req.params.id,
+      name
+    );
+    res.json({ success: true, data: list });
+  } catch (error) {
+    sendShoppingListError(res, error, "Failed to update shopping list");
+  }
+});
+
+// DELETE /api/shopping-lists/:id
+router.delete("/:id", async (req: AuthRequest, res) => {
+  try {
+    await ShoppingListService.deleteList(req.user.user_id, req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    sendShoppingListError(res, error, "Failed to delete shopping list");
+  }
+});
+
+// POST /api/shopping-lists/:id/complete - Done shopping
+router.post("/:id/complete", async (req: AuthRequest, res) => {
+  try {
+    const list = await ShoppingListService.completeList(
+      req.user.user_id,
+      req.params.id
+    );
+    res.json({ success: true, data: list });
+  } catch (error) {
+    sendShoppingListError(res, error, "Failed to complete shopping list");
+  }
+});
+
+// POST /api/shopping-lists/:id/items - Add an item by hand
+router.post("/:id/items", async (req: AuthRequest, res) => {
+  try {
+    const input = shoppingListItemSchema.parse(req.body);
+    const list = await ShoppingListService.addItem(
+      req.user.user_id,
+      req.params.id,
+      input
+    );
+    res.json({ success: true, data: list });
+  } catch (error) {
+    sendShoppingListError(res, error, "Failed to add item");
+  }
+});
+
+// PUT /api/shopping-lists/:id/items/:itemId - Check off or edit an item
+router.put("/:id/items/:itemId", async (req: AuthRequest, res) => {
+  try {
+    const update = shoppingListItemUpdateSchema.parse(req.body);
+    const list = await ShoppingListService.updateItem(
+      req.user.user_id,
+      req.params.id,
+      req.params.itemId,
+      update
+    );
+    res.json({ success: true, data: list });
+  } catch (error) {
+    sendShoppingListError(res, error, "Failed to update item");
+  }
+});
+
+// DELETE /api/shopping-lists/:id/items/:itemId
+router.delete("/:id/items/:itemId", async (req: AuthRequest, res) => {
+  try {
+    const list = await ShoppingListService.removeItem(
+      req.user.user_id,
+      req.params.id,
+      req.params.itemId
+    );
+    res.json({ success: true, data: list });
+  } catch (error) {
+    sendShoppingListError(res, error, "Failed to remove item");
+  }
+});
+
+// POST /api/shopping-lists/:id/members - Share the list with a household member
+router.post("/:id/members", async (req: AuthRequest, res) => {
+  try {
+    const { email } = shoppingListMemberSchema.parse(req.body);
+    const list = await ShoppingListService.addMember(
+      req.user.user_id,
+      req.params.id,
+      email
+    );
+    res.json({ success: true, data: list });
+  } catch (error) {
+    sendShoppingListError(res, error, "Failed to share shopping list");
+  }
+});
+
+// DELETE /api/shopping-lists/:id/members/:userId - Remove a member, or leave
+router.delete("/:id/members/:userId", async (req: AuthRequest, res) => {
+  try {
+    await ShoppingListService.removeMember(
+      req.user.user_id,
+      req.params.id,
+      req.params.userId
+    );
+    res.json({ success: true });
+  } catch (error) {
+    sendShoppingListError(res, error, "Failed to remove member");
+  }
+});
+
+export { router as shoppingListsRoutes };
@@ -3,6 +3,7 @@ import { authenticateToken, AuthRequest } from "../middleware/auth"; // Import y
 import { StatisticsService } from "../services/statistics";
 import { z } from "zod";
 import { AchievementService } from "../services/achievements";
+import { diffDays, getTodayKey, isDateKey } from "../utils/dayBoundary";
 
 const router = Router();
 
@@ -118,7 +119,40 @@ router.post(
   }
 );
 
+// The report walks the range a day at a time; a year is plenty for a PDF
+const MAX_REPORT_DAYS = 366;
+
 // Export report as PDF
+const reportQuerySchema = z
+  .object({
+    period: z.enum(["week", "month", "custom"]).default("week"),
+    startDate: z
+      .string()
+      .refine(isDateKey, "Expected YYYY-MM-DD")
+      .optional(),
+    endDate: z
+      .string()
+      .refine(isDateKey, "Expected YYYY-MM-DD")
+      .optional(),
+  })
+  .refine(
+    (query) =>
+      query.period !== "custom" || (!!query.startDate && !!query.endDate),
+    { message: "startDate and endDate are required for a custom period" }
+  )
+  .refine(
+    (query) =>
+      !query.startDate || !query.endDate || query.startDate <= query.endDate,
+    { message: "startDate must not be after endDate" }
+  )
+  .refine(
+    (query) =>
+      !query.startDate ||
+      !query.endDate ||
+      diffDays(query.startDate, query.endDate) < MAX_REPORT_DAYS,
+    { message: `Report range can't exceed ${MAX_REPORT_DAYS} days` }
+  );
+
 router.get(
   "/export-report",
   authenticateToken,
@@ -130,15 +164,34 @@ router.get(
     }
 
     try {
-      const pdfBuffer = await StatisticsService.generatePDFReport(userId);
+      const query = reportQuerySchema.parse(req.query);
+      const customRange =
+        query.period === "custom"
+          ? { startDate: query.startDate!, endDate: query.endDate! }
+          : undefined;
+
+      const pdfBuffer = await StatisticsService.generatePDFReport(
+        userId,
+        query.period,
+        customRange
+      );
 
+      const today = getTodayKey(req.user.timezone);
       res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Length", pdfBuffer.length);
       res.setHeader(
         "Content-Disposition",
-        "attachment; filename=nutrition-report.pdf"
+        `attachment; filename=nutrition-report-${query.period}-${today}.pdf`
       );
       res.send(pdfBuffer);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid report parameters",
+          details: error.errors,
+        });
+      }
+
       console.error("Error generating PDF report:", error);
       res.status(500).json({ error: "Failed to generate report" });
     }
@@ -3,6 +3,7 @@ import { prisma } from "../lib/database";
 import { updateProfileSchema } from "../types/auth";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { StatisticsService } from "../services/statistics";
+import { AiUsageService } from "../services/aiUsage";
 
 const router = Router();
 
@@ -43,35 +44,6 @@ router.put(
     }
   }
 );
-// src/routes/user.ts
-router.put(
-  "/subscription",
-  authenticateToken,
-  async (req: AuthRequest, res) => {
-    try {
-      const userId = req.user.user_id;
-      const { subscription_type } = req.body;
-
-      if (!["FREE", "PREMIUM", "GOLD"].includes(subscription_type)) {
-        return res
-          .status(400)
-          .json({ success: false, error: "Invalid subscription type" });
-      }
-
-      await prisma.user.update({
-        where: { user_id: userId },
-        data: { subscription_type },
-      });
-
-      return res.json({ success: true, message: "Subscription updated" });
-    } catch (error) {
-      console.error("Subscription update error:", error);
-      return res
-        .status(500)
-        .json({ success: false, error: "Failed to update subscription" });
-    }
-  }
-);
 
 router.get(
   "/subscription-info",
@@ -99,6 +71,32 @@ router.get(
   }
 );
 
+// Get today's AI quota and per-feature usage history
+router.get("/usage", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const days = Number(req.query.days ?? 30);
+    if (!Number.isInteger(days) || days < 1 || days > 90) {
+      return res.status(400).json({
+        success: false,
+        error: "days must be a whole number between 1 and 90",
+      });
+    }
+
+    const usage = await AiUsageService.getUsage(req.user.user_id, days);
+
+    res.json({
+      success: true,
+      data: usage,
+    });
+  } catch (error) {
+    console.error("💥 Get AI usage error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch AI usage",
+    });
+  }
+});
+
 // NEW ENDPOINT: Get global nutritional statistics
 router.get(
   "/global-statistics",
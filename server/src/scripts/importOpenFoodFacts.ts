@@ -0,0 +1,38 @@
+import dotenv from "dotenv";
+import { prisma } from "../lib/database";
+import { ProductCatalogService } from "../services/productCatalog";
+
+dotenv.config();
+
+/**
+ * Loads an OpenFoodFacts JSONL export (openfoodfacts-products.jsonl.gz from
+ * https://world.openfoodfacts.org/data) into the product catalog, so barcode
+ * scans work without network access. Products whose nutrition users have
+ * corrected are left alone. Safe to re-run with a newer dump.
+ *
+ * Usage: npm run catalog:import-off -- <dump.jsonl[.gz]> [--country=israel]
+ *        [--batch-size=500] [--dry-run]
+ */
+
+const args = process.argv.slice(2);
+const filePath = args.find((arg) => !arg.startsWith("--"));
+const dryRun = args.includes("--dry-run");
+const countryArg = args.find((arg) => arg.startsWith("--country="));
+const batchSizeArg = args.find((arg) => arg.startsWith("--batch-size="));
+const batchSize = Math.max(1, Number(batchSizeArg?.split("=")[1]) || 500);
+
+if (!filePath) {
+  console.error("💥 Pass the path of an OpenFoodFacts JSONL dump");
+  process.exit(1);
+}
+
+ProductCatalogService.importOpenFoodFacts(filePath, {
+  country: countryArg?.split("=")[1],
+  batchSize,
+  dryRun,
+})
+  .catch((error) => {
+    console.error("💥 OpenFoodFacts import aborted:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,93 @@
+import dotenv from "dotenv";
+import { prisma } from "../lib/database";
+import { ImageStorageService } from "../services/imageStorage";
+
+dotenv.config();
+
+/**
+ * Moves base64 images stored inline in Meal.image_url into the configured
+ * object store and rewrites each row to point at the stored copy.
+ *
+ * Usage: npm run storage:migrate-images -- [--dry-run] [--batch-size=20]
+ */
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const batchSizeArg = args.find((arg) => arg.startsWith("--batch-size="));
+// Each row carries a full image, so keep batches small
+const batchSize = Math.max(1, Number(batchSizeArg?.split("=")[1]) || 20);
+
+async function migrateMealImages() {
+  console.log(
+    `🚚 Migrating inline meal images (batch size ${batchSize}${
+      dryRun ? ", dry run" : ""
+    })`
+  );
+
+  let lastMealId = 0;
+  let migrated = 0;
+  let failed = 0;
+
+  while (true) {
+    const meals = await prisma.meal.findMany({
+      where: {
+        meal_id: { gt: lastMealId },
+        image_url: { startsWith: "data:image/" },
+      },
+      select: { meal_id: true, user_id: true, image_url: true },
+      orderBy: { meal_id: "asc" },
+      take: batchSize,
+    });
+
+    if (meals.length === 0) break;
+
+    for (const meal of meals) {
+      lastMealId = meal.meal_id;
+
+      if (dryRun) {
+        console.log(
+          `🔎 Would migrate meal ${meal.meal_id} (${Math.round(
+            meal.image_url.length / 1024
+          )} KB inline)`
+        );
+        migrated++;
+        continue;
+      }
+
+      try {
+        const imageUrl = await ImageStorageService.storeMealImage(
+          meal.user_id,
+          meal.image_url
+        );
+
+        // Duplicated meals carry the same inline image; point them all at
+        // the single stored copy
+        const { count } = await prisma.meal.updateMany({
+          where: { user_id: meal.user_id, image_url: meal.image_url },
+          data: { image_url: imageUrl },
+        });
+
+        migrated += count;
+        console.log(`✅ Meal ${meal.meal_id} -> ${imageUrl} (${count} rows)`);
+      } catch (error) {
+        failed++;
+        console.error(`❌ Failed to migrate meal ${meal.meal_id}:`, error);
+      }
+    }
+  }
+
+  console.log(
+    `🏁 Done: ${migrated} meal(s) ${dryRun ? "to migrate" : "migrated"}, ${failed} failed`
+  );
+  return failed;
+}
+
+migrateMealImages()
+  .then((failed) => {
+    process.exitCode = failed > 0 ? 1 : 0;
+  })
+  .catch((error) => {
+    console.error("💥 Image migration aborted:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
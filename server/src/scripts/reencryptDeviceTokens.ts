@@ -0,0 +1,34 @@
+import dotenv from "dotenv";
+import { prisma } from "../lib/database";
+import { AuthService } from "../services/auth";
+import { DeviceService } from "../services/devices";
+
+dotenv.config();
+
+/**
+ * Re-encrypts stored device OAuth tokens and users' MFA secrets with the
+ * active key from TOKEN_ENCRYPTION_ACTIVE_KEY_ID. Run after adding a new key
+ * (or once after upgrading from base64 storage); retire the old key only
+ * after a clean run.
+ *
+ * Usage: npm run devices:reencrypt-tokens -- [--dry-run] [--batch-size=100]
+ */
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const batchSizeArg = args.find((arg) => arg.startsWith("--batch-size="));
+const batchSize = Math.max(1, Number(batchSizeArg?.split("=")[1]) || 100);
+
+Promise.all([
+  DeviceService.reencryptDeviceTokens({ batchSize, dryRun }),
+  AuthService.reencryptMfaSecrets({ batchSize, dryRun }),
+])
+  .then((results) => {
+    const failed = results.reduce((sum, result) => sum + result.failed, 0);
+    process.exitCode = failed > 0 ? 1 : 0;
+  })
+  .catch((error) => {
+    console.error("💥 Token re-encryption aborted:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -1,4 +1,18 @@
+import { Prisma } from "@prisma/client";
 import { prisma } from "../lib/database";
+import {
+  addDays,
+  getDayRange,
+  getTodayKey,
+  resolveTimeZone,
+  toDbDate,
+} from "../utils/dayBoundary";
+
+// Local hours for the time-of-day achievements ("before 8 AM", "after
+// 10 PM"). Meals before NIGHT_ENDS_HOUR belong to the night before
+const EARLY_BIRD_BEFORE_HOUR = 8;
+const NIGHT_OWL_FROM_HOUR = 22;
+const NIGHT_ENDS_HOUR = 4;
 
 export interface UserStats {
   currentStreak: number;
@@ -9,6 +23,8 @@ export interface UserStats {
   totalCalorieGoals: number;
   totalXP: number;
   aiRequestsCount: number;
+  earlyBirdMeals: number;
+  nightOwlMeals: number;
 }
 
 export interface Achievement {
@@ -161,6 +177,10 @@ export class AchievementService {
         return Math.min(userStats.level, 25);
       case "level_50":
         return Math.min(userStats.level, 50);
+      case "early_bird":
+        return Math.min(userStats.earlyBirdMeals, 1);
+      case "night_owl":
+        return Math.min(userStats.nightOwlMeals, 1);
       default:
         return 0;
     }
@@ -186,6 +206,7 @@ export class AchievementService {
           current_xp: true,
           total_points: true,
           ai_requests_count: true,
+          timezone: true,
         },
       });
 
@@ -201,25 +222,15 @@ export class AchievementService {
         },
       });
 
-      // Get calorie goal completions
-      const mealDays = await prisma.meal.groupBy({
-        by: ["upload_time"],
-        where: { user_id: userId },
-        _sum: { calories: true },
-        having: {
-          calories: { _sum: { gte: 1800 } },
-        },
-      });
-
       const userStats: UserStats = {
         currentStreak: user.current_streak || 0,
         bestStreak: user.best_streak || 0,
         totalCompleteDays: user.total_complete_days || 0,
         level: user.level || 1,
         totalWaterGoals: waterIntakeCount,
-        totalCalorieGoals: mealDays.length,
         totalXP: user.total_points || 0,
         aiRequestsCount: user.ai_requests_count || 0,
+        ...(await this.countMealStats(userId, resolveTimeZone(user.timezone))),
       };
 
       // Get existing achievements
@@ -361,6 +372,7 @@ export class AchievementService {
           best_streak: true,
           total_complete_days: true,
           ai_requests_count: true,
+          timezone: true,
         },
       });
 
@@ -376,24 +388,15 @@ export class AchievementService {
         },
       });
 
-      const mealDays = await prisma.meal.groupBy({
-        by: ["created_at"],
-        where: { user_id: userId },
-        _sum: { calories: true },
-        having: {
-          calories: { _sum: { gte: 1800 } },
-        },
-      });
-
       const userStats: UserStats = {
         currentStreak: user.current_streak || 0,
         bestStreak: user.best_streak || 0,
         totalCompleteDays: user.total_complete_days || 0,
         level: user.level || 1,
         totalWaterGoals: waterIntakeCount,
-        totalCalorieGoals: mealDays.length,
         totalXP: user.total_points || 0,
         aiRequestsCount: user.ai_requests_count || 0,
+        ...(await this.countMealStats(userId, resolveTimeZone(user.timezone))),
       };
 
       const userAchievements = await prisma.userAchievement.findMany({
@@ -510,20 +513,71 @@ export class AchievementService {
     }
   }
 
+  // Local days with 1800+ calories, and meals eaten early or late on the
+  // user's local clock. Goes by eaten_at, so a dinner logged the next
+  // morning still counts as late. Counted in the database so a check
+  // doesn't load every meal the user ever logged
+  private static async countMealStats(
+    userId: string,
+    timeZone: string
+  ): Promise<
+    Pick<UserStats, "totalCalorieGoals" | "earlyBirdMeals" | "nightOwlMeals">
+  > {
+    // eaten_at is stored as UTC without a zone
+    const [counts] = await prisma.$queryRaw<
+      {
+        calorie_goal_days: bigint;
+        early_bird_meals: bigint;
+        night_owl_meals: bigint;
+      }[]
+    >(Prisma.sql`
+      WITH meals AS (
+        SELECT
+          ("eaten_at" AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone}
+            AS local_time,
+          "calories"
+        FROM "public"."Meal"
+        WHERE "user_id" = ${userId}
+      ), goal_days AS (
+        SELECT local_time::date
+        FROM meals
+        GROUP BY local_time::date
+        HAVING SUM("calories") >= 1800
+      )
+      SELECT
+        (SELECT COUNT(*) FROM goal_days) AS calorie_goal_days,
+        COUNT(*) FILTER (
+          WHERE EXTRACT(HOUR FROM local_time) >= ${NIGHT_ENDS_HOUR}
+            AND EXTRACT(HOUR FROM local_time) < ${EARLY_BIRD_BEFORE_HOUR}
+        ) AS early_bird_meals,
+        COUNT(*) FILTER (
+          WHERE EXTRACT(HOUR FROM local_time) >= ${NIGHT_OWL_FROM_HOUR}
+            OR EXTRACT(HOUR FROM local_time) < ${NIGHT_ENDS_HOUR}
+        ) AS night_owl_meals
+      FROM meals
+    `);
+
+    return {
+      totalCalorieGoals: Number(counts.calorie_goal_days),
+      earlyBirdMeals: Number(counts.early_bird_meals),
+      nightOwlMeals: Number(counts.night_owl_meals),
+    };
+  }
+
   // Helper function to check if yesterday was a completed day
   private static async wasYesterDayComplete(
     userId: string,
-    date: Date
+    yesterday: string,
+    timeZone: string
   ): Promise<boolean> {
-    const yesterday = new Date(date);
-    yesterday.setHours(0, 0, 0, 0);
+    const { start, end } = getDayRange(yesterday, timeZone);
 
     const completedMeals = await prisma.meal.count({
       where: {
         user_id: userId,
-        upload_time: {
-          gte: yesterday,
-          lt: new Date(yesterday.getTime() + 24 * 60 * 60 * 1000),
+        eaten_at: {
+          gte: start,
+          lt: end,
         },
         calories: { gte: 1800 },
       },
@@ -532,10 +586,7 @@ export class AchievementService {
     const completedWaterIntake = await prisma.waterIntake.count({
       where: {
         user_id: userId,
-        date: {
-          gte: yesterday,
-          lt: new Date(yesterday.getTime() + 24 * 60 * 60 * 1000),
-        },
+        date: toDbDate(yesterday),
         cups_consumed: { gte: 8 },
       },
     });
@@ -564,17 +615,16 @@ export class AchievementService {
             current_streak: true,
             best_streak: true,
             total_complete_days: true,
+            timezone: true,
           },
         });
 
         if (user) {
-          const today = new Date();
-          const yesterday = new Date(today);
-          yesterday.setDate(yesterday.getDate() - 1);
-
+          const timeZone = resolveTimeZone(user.timezone);
           const yesterdayComplete = await this.wasYesterDayComplete(
             userId,
-            yesterday
+            addDays(getTodayKey(timeZone), -1),
+            timeZone
           );
           const newStreak = yesterdayComplete
             ? (user.current_streak || 0) + 1
@@ -0,0 +1,197 @@
+import { AiFeature } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { AuthService } from "./auth";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface QuotaStatus {
+  plan: string;
+  // null means the plan has no daily ceiling
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetAt: Date;
+}
+
+export type QuotaReservation =
+  | { allowed: true; usageId: string; quota: QuotaStatus }
+  | { allowed: false; quota: QuotaStatus };
+
+export class AiUsageService {
+  // Quotas reset at midnight UTC
+  static getWindowStart(now: Date = new Date()): Date {
+    const start = new Date(now);
+    start.setUTCHours(0, 0, 0, 0);
+    return start;
+  }
+
+  static getResetTime(now: Date = new Date()): Date {
+    return new Date(this.getWindowStart(now).getTime() + DAY_MS);
+  }
+
+  private static async getDailyLimit(plan: string): Promise<number | null> {
+    const { dailyRequests } = await AuthService.getRolePermissions(plan);
+    return dailyRequests < 0 ? null : dailyRequests;
+  }
+
+  private static buildStatus(
+    plan: string,
+    limit: number | null,
+    used: number
+  ): QuotaStatus {
+    return {
+      plan,
+      limit,
+      used,
+      remaining: limit === null ? null : Math.max(0, limit - used),
+      resetAt: this.getResetTime(),
+    };
+  }
+
+  /**
+   * Reserves one AI request for the user. The counter is only incremented
+   * by a conditional UPDATE, so concurrent requests can't push a user past
+   * their limit.
+   */
+  static async reserve(
+    user_id: string,
+    feature: AiFeature,
+    endpoint?: string
+  ): Promise<QuotaReservation> {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { subscription_type: true },
+    });
+    if (!user) throw new Error("User not found");
+
+    const plan = user.subscription_type;
+    const limit = await this.getDailyLimit(plan);
+
+    // Start a fresh window if the counter is from a previous day. The
+    // condition makes this a no-op for everyone but the first request.
+    await prisma.user.updateMany({
+      where: { user_id, ai_requests_reset_at: { lt: this.getWindowStart() } },
+      data: { ai_requests_count: 0, ai_requests_reset_at: new Date() },
+    });
+
+    const { count } = await prisma.user.updateMany({
+      where: {
+        user_id,
+        ...(limit !== null && { ai_requests_count: { lt: limit } }),
+      },
+      data: { ai_requests_count: { increment: 1 } },
+    });
+
+    const { ai_requests_count: used } = await prisma.user.findUniqueOrThrow({
+      where: { user_id },
+      select: { ai_requests_count: true },
+    });
+    const quota = this.buildStatus(plan, limit, used);
+
+    if (count === 0) {
+      console.log(`🚫 AI quota exhausted for user ${user_id} (${feature})`);
+      return { allowed: false, quota };
+    }
+
+    const event = await prisma.aiUsageEvent.create({
+      data: { user_id, feature, endpoint },
+    });
+
+    return { allowed: true, usageId: event.usage_id, quota };
+  }
+
+  static async complete(usageId: string) {
+    await prisma.aiUsageEvent.updateMany({
+      where: { usage_id: usageId, status: "RESERVED" },
+      data: { status: "COMPLETED", completed_at: new Date() },
+    });
+  }
+
+  /**
+   * Gives a reserved request back when the AI call failed, so users aren't
+   * charged for our errors.
+   */
+  static async refund(usageId: string) {
+    await prisma.$transaction(async (tx) => {
+      const event = await tx.aiUsageEvent.findUnique({
+        where: { usage_id: usageId },
+      });
+      if (!event || event.status !== "RESERVED") return;
+
+      await tx.aiUsageEvent.update({
+        where: { usage_id: usageId },
+        data: { status: "REFUNDED", completed_at: new Date() },
+      });
+
+      // Only decrement within the window the request was counted in
+      await tx.user.updateMany({
+        where: {
+          user_id: event.user_id,
+          ai_requests_count: { gt: 0 },
+          ai_requests_reset_at: { lte: event.created_at },
+        },
+        data: { ai_requests_count: { decrement: 1 } },
+      });
+    });
+  }
+
+  static async getQuotaStatus(user_id: string): Promise<QuotaStatus> {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: {
+        subscription_type: true,
+        ai_requests_count: true,
+        ai_requests_reset_at: true,
+      },
+    });
+    if (!user) throw new Error("User not found");
+
+    const used =
+      user.ai_requests_reset_at < this.getWindowStart()
+        ? 0
+        : user.ai_requests_count;
+
+    return this.buildStatus(
+      user.subscription_type,
+      await this.getDailyLimit(user.subscription_type),
+      used
+    );
+  }
+
+  static async getUsage(user_id: string, days: number) {
+    const quota = await this.getQuotaStatus(user_id);
+    const since = new Date(
+      this.getWindowStart().getTime() - (days - 1) * DAY_MS
+    );
+
+    const events = await prisma.aiUsageEvent.findMany({
+      where: {
+        user_id,
+        created_at: { gte: since },
+        status: { not: "REFUNDED" },
+      },
+      select: { feature: true, created_at: true },
+      orderBy: { created_at: "asc" },
+    });
+
+    const historyByDate = new Map<
+      string,
+      { date: string; total: number; byFeature: Partial<Record<AiFeature, number>> }
+    >();
+    for (const event of events) {
+      const date = event.created_at.toISOString().split("T")[0];
+      const day = historyByDate.get(date) || { date, total: 0, byFeature: {} };
+      day.total++;
+      day.byFeature[event.feature] = (day.byFeature[event.feature] || 0) + 1;
+      historyByDate.set(date, day);
+    }
+
+    const today = this.getWindowStart().toISOString().split("T")[0];
+
+    return {
+      ...quota,
+      today: historyByDate.get(today)?.byFeature || {},
+      history: [...historyByDate.values()].reverse(),
+    };
+  }
+}
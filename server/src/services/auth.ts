@@ -2,12 +2,39 @@ import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import crypto from "crypto";
 import { prisma } from "../lib/database";
-import { SignUpInput, SignInInput } from "../types/auth";
+import {
+  SignUpInput,
+  SignInInput,
+  MfaVerifyInput,
+  MfaDisableInput,
+  SessionContext,
+} from "../types/auth";
+import {
+  buildOtpAuthUrl,
+  generateTotpSecret,
+  verifyTotpCode,
+} from "../utils/totp";
+import {
+  decryptToken,
+  encryptToken,
+  isEncryptedWithActiveKey,
+} from "../utils/tokenEncryption";
+import { describeDevice } from "../utils/userAgent";
 
 const JWT_SECRET = process.env.JWT_SECRET!;
-const JWT_EXPIRES_IN = "7d";
+// Access tokens are short-lived; clients swap their refresh token for a new
+// pair through /auth/refresh
+const ACCESS_TOKEN_EXPIRES_SECONDS = 15 * 60;
+// Idle window: a session ends after this long without a refresh
 const SESSION_EXPIRES_DAYS = 7;
+// However active, a session ends this long after sign-in
+const SESSION_MAX_DAYS = 90;
 const PASSWORD_RESET_EXPIRES = "15m";
+const MFA_CHALLENGE_EXPIRES = "5m";
+const MFA_ISSUER = "Calo";
+const RECOVERY_CODE_COUNT = 10;
+// last_seen_at is only written when it is at least this stale
+const LAST_SEEN_UPDATE_MS = 5 * 60 * 1000;
 
 const userSelectFields = {
   user_id: true,
@@ -15,13 +42,32 @@ const userSelectFields = {
   name: true,
   subscription_type: true,
   birth_date: true,
+  timezone: true,
   ai_requests_count: true,
   ai_requests_reset_at: true,
   created_at: true,
   email_verified: true,
   is_questionnaire_completed: true,
+  mfa_enabled: true,
 };
 
+const sessionSelectFields = {
+  session_id: true,
+  device: true,
+  ip_address: true,
+  user_agent: true,
+  created_at: true,
+  last_seen_at: true,
+  expiresAt: true,
+};
+
+export class AuthError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
 function generatePasswordResetToken(email: string) {
   return jwt.sign(
     {
@@ -53,13 +99,86 @@ function verifyPasswordResetToken(token: string) {
 }
 
 function generateToken(payload: object) {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
+  // jti keeps two tokens issued in the same second distinct
+  return jwt.sign({ ...payload, jti: crypto.randomUUID() }, JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_EXPIRES_SECONDS,
+  });
 }
 
-function getSessionExpiryDate() {
+function getSessionExpiryDate(createdAt: Date = new Date()) {
   const date = new Date();
   date.setDate(date.getDate() + SESSION_EXPIRES_DAYS);
-  return date;
+
+  const maxDate = new Date(createdAt);
+  maxDate.setDate(maxDate.getDate() + SESSION_MAX_DAYS);
+
+  return date < maxDate ? date : maxDate;
+}
+
+function generateRefreshToken(session_id: string) {
+  return jwt.sign(
+    { session_id, type: "refresh", jti: crypto.randomUUID() },
+    JWT_SECRET,
+    { expiresIn: `${SESSION_EXPIRES_DAYS}d` }
+  );
+}
+
+function verifyRefreshToken(token: string) {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as {
+      session_id: string;
+      type: string;
+    };
+
+    if (decoded.type !== "refresh") {
+      throw new Error("Invalid token type");
+    }
+
+    return decoded;
+  } catch (error) {
+    throw new AuthError("Session expired, please sign in again", 401);
+  }
+}
+
+function hashRefreshToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Proves the password step passed; only good for finishing an MFA sign-in
+function generateMfaChallengeToken(user_id: string) {
+  return jwt.sign({ user_id, type: "mfa_challenge" }, JWT_SECRET, {
+    expiresIn: MFA_CHALLENGE_EXPIRES,
+  });
+}
+
+function verifyMfaChallengeToken(token: string) {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as {
+      user_id: string;
+      type: string;
+    };
+
+    if (decoded.type !== "mfa_challenge") {
+      throw new Error("Invalid token type");
+    }
+
+    return decoded;
+  } catch (error) {
+    throw new AuthError("Sign-in attempt expired, please sign in again", 401);
+  }
+}
+
+// Shown to the user as "abcde-fghij"; matched case and dash insensitively
+function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+function hashRecoveryCode(code: string) {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return crypto.createHash("sha256").update(normalized).digest("hex");
 }
 
 export class AuthService {
@@ -342,7 +461,11 @@ export class AuthService {
     }
   }
 
-  static async verifyEmail(email: string, code: string) {
+  static async verifyEmail(
+    email: string,
+    code: string,
+    context: SessionContext = {}
+  ) {
     const user = await prisma.user.findUnique({
       where: { email },
       select: {
@@ -382,23 +505,13 @@ export class AuthService {
       select: userSelectFields,
     });
 
-    const token = generateToken({
-      user_id: updatedUser.user_id,
-      email: updatedUser.email,
-    });
-
-    await prisma.session.create({
-      data: {
-        user_id: updatedUser.user_id,
-        token,
-        expiresAt: getSessionExpiryDate(),
-      },
-    });
+    // The account was created moments ago, so there's nothing to warn about
+    const tokens = await this.startSession(updatedUser, context, false);
 
-    return { user: updatedUser, token };
+    return { user: updatedUser, ...tokens };
   }
 
-  static async signIn(data: SignInInput) {
+  static async signIn(data: SignInInput, context: SessionContext = {}) {
     const { email, password } = data;
 
     const user = await prisma.user.findUnique({ where: { email } });
@@ -407,18 +520,478 @@ export class AuthService {
     const isValid = await bcrypt.compare(password, user.password_hash);
     if (!isValid) throw new Error("Invalid email or password");
 
+    // The session waits for a code from the authenticator app
+    if (user.mfa_enabled) {
+      return {
+        mfa_required: true as const,
+        mfa_token: generateMfaChallengeToken(user.user_id),
+      };
+    }
+
+    const tokens = await this.startSession(user, context);
+
+    const {
+      password_hash: _,
+      mfa_secret: __,
+      mfa_last_used_step: ___,
+      ...userWithoutPassword
+    } = user;
+    return {
+      mfa_required: false as const,
+      user: userWithoutPassword,
+      ...tokens,
+    };
+  }
+
+  // Second sign-in step for accounts with MFA on
+  static async verifyMfaSignIn(
+    data: MfaVerifyInput,
+    context: SessionContext = {}
+  ) {
+    const { user_id } = verifyMfaChallengeToken(data.mfa_token);
+
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { ...userSelectFields, mfa_secret: true },
+    });
+    if (!user || !user.mfa_enabled || !user.mfa_secret) {
+      throw new AuthError("Sign-in attempt expired, please sign in again", 401);
+    }
+
+    const method = await this.checkMfaCode(user_id, user.mfa_secret, data.code);
+    if (!method) throw new AuthError("Invalid verification code", 401);
+
+    const tokens = await this.startSession(user, context);
+    const { mfa_secret: _, ...userResponse } = user;
+
+    if (method === "recovery") {
+      console.log("🔑 Recovery code used to sign in:", user_id);
+    }
+
+    return {
+      user: userResponse,
+      ...tokens,
+      used_recovery_code: method === "recovery",
+      recovery_codes_remaining: await this.countRecoveryCodes(user_id),
+    };
+  }
+
+  /**
+   * Creates the session row and its first access/refresh token pair. Unless
+   * told otherwise, emails the user when the sign-in comes from a browser or
+   * network we haven't seen.
+   */
+  static async startSession(
+    user: { user_id: string; email: string; name: string | null },
+    context: SessionContext,
+    notify: boolean = true
+  ) {
     const token = generateToken({ user_id: user.user_id, email: user.email });
 
-    await prisma.session.create({
+    const knownDevice =
+      !!context.user_agent &&
+      !!context.ip_address &&
+      (await prisma.session.count({
+        where: {
+          user_id: user.user_id,
+          user_agent: context.user_agent,
+          ip_address: context.ip_address,
+        },
+      })) > 0;
+
+    const session = await prisma.session.create({
       data: {
         user_id: user.user_id,
         token,
         expiresAt: getSessionExpiryDate(),
+        device: describeDevice(context.user_agent),
+        ip_address: context.ip_address ?? null,
+        user_agent: context.user_agent ?? null,
       },
+      select: sessionSelectFields,
     });
 
-    const { password_hash: _, ...userWithoutPassword } = user;
-    return { user: userWithoutPassword, token };
+    // The refresh token names its session, so it's signed once the row exists
+    const refresh_token = generateRefreshToken(session.session_id);
+    await prisma.session.update({
+      where: { session_id: session.session_id },
+      data: { refresh_token_hash: hashRefreshToken(refresh_token) },
+    });
+
+    if (notify && !knownDevice) {
+      // Never throws; don't hold the sign-in up on SMTP
+      void this.sendNewLoginEmail(user.email, user.name || "User", session);
+    }
+
+    return {
+      token,
+      refresh_token,
+      expires_in: ACCESS_TOKEN_EXPIRES_SECONDS,
+    };
+  }
+
+  /**
+   * Swaps a refresh token for a new access/refresh pair and slides the
+   * session's expiry forward. Each refresh token works once: seeing one that
+   * was already rotated out means someone else holds a copy, so the session
+   * is revoked for both parties.
+   */
+  static async refreshSession(
+    refreshToken: string,
+    context: SessionContext = {}
+  ) {
+    const { session_id } = verifyRefreshToken(refreshToken);
+
+    const session = await prisma.session.findUnique({
+      where: { session_id },
+      select: {
+        user_id: true,
+        refresh_token_hash: true,
+        expiresAt: true,
+        created_at: true,
+        user: { select: { email: true } },
+      },
+    });
+    if (!session || session.expiresAt < new Date()) {
+      throw new AuthError("Session expired, please sign in again", 401);
+    }
+
+    const presentedHash = hashRefreshToken(refreshToken);
+    if (session.refresh_token_hash !== presentedHash) {
+      await this.revokeReusedSession(session_id, session.user_id);
+    }
+
+    const token = generateToken({
+      user_id: session.user_id,
+      email: session.user.email,
+    });
+    const refresh_token = generateRefreshToken(session_id);
+    const now = new Date();
+
+    // Conditional on the old hash so two racing refreshes can't both win
+    const { count } = await prisma.session.updateMany({
+      where: { session_id, refresh_token_hash: presentedHash },
+      data: {
+        token,
+        refresh_token_hash: hashRefreshToken(refresh_token),
+        refreshed_at: now,
+        last_seen_at: now,
+        expiresAt: getSessionExpiryDate(session.created_at),
+        ...(context.ip_address ? { ip_address: context.ip_address } : {}),
+      },
+    });
+    if (count === 0) {
+      await this.revokeReusedSession(session_id, session.user_id);
+    }
+
+    return {
+      token,
+      refresh_token,
+      expires_in: ACCESS_TOKEN_EXPIRES_SECONDS,
+    };
+  }
+
+  private static async revokeReusedSession(
+    session_id: string,
+    user_id: string
+  ): Promise<never> {
+    console.warn(
+      `🚨 Refresh token reuse detected, revoking session ${session_id}`,
+      { user_id }
+    );
+    await prisma.session.deleteMany({ where: { session_id } });
+    throw new AuthError("Session expired, please sign in again", 401);
+  }
+
+  // Accepts a current TOTP code, or burns a recovery code. Recovery codes
+  // are hashed, not encrypted, so they keep working when the secret can't
+  // be decrypted (a retired key, say)
+  private static async checkMfaCode(
+    user_id: string,
+    encryptedSecret: string,
+    code: string
+  ): Promise<"totp" | "recovery" | null> {
+    let step: number | null = null;
+    try {
+      step = verifyTotpCode(decryptToken(encryptedSecret), code);
+    } catch (error) {
+      console.error(
+        `❌ Failed to decrypt MFA secret for ${user_id}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+    if (step !== null) {
+      // Conditional update so two requests can't both spend the same code
+      const { count } = await prisma.user.updateMany({
+        where: {
+          user_id,
+          OR: [
+            { mfa_last_used_step: null },
+            { mfa_last_used_step: { lt: step } },
+          ],
+        },
+        data: { mfa_last_used_step: step },
+      });
+      return count > 0 ? "totp" : null;
+    }
+
+    const { count } = await prisma.mfaRecoveryCode.updateMany({
+      where: { user_id, code_hash: hashRecoveryCode(code), used_at: null },
+      data: { used_at: new Date() },
+    });
+    return count > 0 ? "recovery" : null;
+  }
+
+  private static async countRecoveryCodes(user_id: string) {
+    return prisma.mfaRecoveryCode.count({
+      where: { user_id, used_at: null },
+    });
+  }
+
+  private static async replaceRecoveryCodes(user_id: string) {
+    const codes = generateRecoveryCodes();
+    await prisma.$transaction([
+      prisma.mfaRecoveryCode.deleteMany({ where: { user_id } }),
+      prisma.mfaRecoveryCode.createMany({
+        data: codes.map((code) => ({
+          user_id,
+          code_hash: hashRecoveryCode(code),
+        })),
+      }),
+    ]);
+    return codes;
+  }
+
+  static async getMfaStatus(user_id: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { mfa_enabled: true },
+    });
+    if (!user) throw new AuthError("User not found", 404);
+
+    return {
+      enabled: user.mfa_enabled,
+      recovery_codes_remaining: user.mfa_enabled
+        ? await this.countRecoveryCodes(user_id)
+        : 0,
+    };
+  }
+
+  /**
+   * Starts enrolment with a fresh secret for the authenticator app. MFA only
+   * turns on once enableMfa sees a code made from it.
+   */
+  /**
+   * Rewrites every MFA secret not encrypted with the active key, the same
+   * way DeviceService.reencryptDeviceTokens does for device tokens. Both
+   * have to finish cleanly before an old key is retired.
+   */
+  static async reencryptMfaSecrets(
+    options: { batchSize?: number; dryRun?: boolean } = {}
+  ): Promise<{ scanned: number; reencrypted: number; failed: number }> {
+    const batchSize = Math.max(1, options.batchSize || 100);
+    const stats = { scanned: 0, reencrypted: 0, failed: 0 };
+    let lastUserId: string | undefined;
+
+    console.log(
+      `🔐 Re-encrypting MFA secrets (batch size ${batchSize}${
+        options.dryRun ? ", dry run" : ""
+      })`
+    );
+
+    while (true) {
+      const users = await prisma.user.findMany({
+        where: {
+          mfa_secret: { not: null },
+          ...(lastUserId && { user_id: { gt: lastUserId } }),
+        },
+        select: { user_id: true, mfa_secret: true },
+        orderBy: { user_id: "asc" },
+        take: batchSize,
+      });
+
+      if (users.length === 0) break;
+
+      for (const user of users) {
+        lastUserId = user.user_id;
+        stats.scanned++;
+        if (isEncryptedWithActiveKey(user.mfa_secret!)) continue;
+
+        try {
+          const mfa_secret = encryptToken(decryptToken(user.mfa_secret!));
+
+          if (!options.dryRun) {
+            // Skip the row if the user set up MFA again meanwhile
+            const { count } = await prisma.user.updateMany({
+              where: { user_id: user.user_id, mfa_secret: user.mfa_secret },
+              data: { mfa_secret },
+            });
+            if (count === 0) continue;
+          }
+
+          stats.reencrypted++;
+        } catch (error) {
+          stats.failed++;
+          console.error(
+            `❌ Failed to re-encrypt MFA secret for user ${user.user_id}:`,
+            error instanceof Error ? error.message : error
+          );
+        }
+      }
+    }
+
+    console.log(
+      `✅ MFA secret re-encryption done: ${stats.reencrypted}/${stats.scanned} ${
+        options.dryRun ? "to rotate" : "rotated"
+      }, ${stats.failed} failed`
+    );
+    return stats;
+  }
+
+  static async setupMfa(user_id: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { email: true, mfa_enabled: true },
+    });
+    if (!user) throw new AuthError("User not found", 404);
+    if (user.mfa_enabled) {
+      throw new AuthError("Two-factor authentication is already enabled", 409);
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { user_id },
+      data: { mfa_secret: encryptToken(secret), mfa_last_used_step: null },
+    });
+
+    return {
+      secret,
+      otpauth_url: buildOtpAuthUrl(secret, user.email, MFA_ISSUER),
+    };
+  }
+
+  static async enableMfa(user_id: string, code: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { mfa_enabled: true, mfa_secret: true },
+    });
+    if (!user) throw new AuthError("User not found", 404);
+    if (user.mfa_enabled) {
+      throw new AuthError("Two-factor authentication is already enabled", 409);
+    }
+    if (!user.mfa_secret) {
+      throw new AuthError("Start two-factor setup first");
+    }
+
+    const step = verifyTotpCode(decryptToken(user.mfa_secret), code);
+    if (step === null) throw new AuthError("Invalid verification code");
+
+    await prisma.user.update({
+      where: { user_id },
+      data: { mfa_enabled: true, mfa_last_used_step: step },
+    });
+    const recoveryCodes = await this.replaceRecoveryCodes(user_id);
+
+    console.log("🔐 MFA enabled for user:", user_id);
+    return { recovery_codes: recoveryCodes };
+  }
+
+  static async disableMfa(user_id: string, data: MfaDisableInput) {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { password_hash: true, mfa_enabled: true, mfa_secret: true },
+    });
+    if (!user) throw new AuthError("User not found", 404);
+    if (!user.mfa_enabled || !user.mfa_secret) {
+      throw new AuthError("Two-factor authentication is not enabled");
+    }
+
+    const isValid = await bcrypt.compare(data.password, user.password_hash);
+    if (!isValid) throw new AuthError("Incorrect password", 401);
+
+    const method = await this.checkMfaCode(user_id, user.mfa_secret, data.code);
+    if (!method) throw new AuthError("Invalid verification code", 401);
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { user_id },
+        data: {
+          mfa_enabled: false,
+          mfa_secret: null,
+          mfa_last_used_step: null,
+        },
+      }),
+      prisma.mfaRecoveryCode.deleteMany({ where: { user_id } }),
+    ]);
+
+    console.log("🔓 MFA disabled for user:", user_id);
+  }
+
+  // Replaces every recovery code, used or not
+  static async regenerateRecoveryCodes(user_id: string, code: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { mfa_enabled: true, mfa_secret: true },
+    });
+    if (!user) throw new AuthError("User not found", 404);
+    if (!user.mfa_enabled || !user.mfa_secret) {
+      throw new AuthError("Two-factor authentication is not enabled");
+    }
+
+    const method = await this.checkMfaCode(user_id, user.mfa_secret, code);
+    if (!method) throw new AuthError("Invalid verification code", 401);
+
+    return { recovery_codes: await this.replaceRecoveryCodes(user_id) };
+  }
+
+  static async getSessions(user_id: string, currentToken?: string) {
+    const sessions = await prisma.session.findMany({
+      where: { user_id, expiresAt: { gt: new Date() } },
+      select: { ...sessionSelectFields, token: true },
+      orderBy: { last_seen_at: "desc" },
+    });
+
+    return sessions.map(({ token, ...session }) => ({
+      ...session,
+      current: token === currentToken,
+    }));
+  }
+
+  // Returns whether the revoked session was the one making the request
+  static async revokeSession(
+    user_id: string,
+    session_id: string,
+    currentToken?: string
+  ) {
+    const session = await prisma.session.findFirst({
+      where: { session_id, user_id },
+      select: { token: true },
+    });
+    if (!session) throw new AuthError("Session not found", 404);
+
+    await prisma.session.delete({ where: { session_id } });
+    console.log("🚪 Session revoked:", session_id);
+
+    return { current: session.token === currentToken };
+  }
+
+  // Signs out every other device, and this one too if asked
+  static async revokeSessions(
+    user_id: string,
+    currentToken: string | undefined,
+    includeCurrent: boolean
+  ) {
+    const { count } = await prisma.session.deleteMany({
+      where: {
+        user_id,
+        ...(includeCurrent || !currentToken
+          ? {}
+          : { token: { not: currentToken } }),
+      },
+    });
+    console.log(`🚪 Revoked ${count} sessions for user:`, user_id);
+
+    return { revoked: count };
   }
 
   static async verifyToken(token: string) {
@@ -448,12 +1021,27 @@ export class AuthService {
         throw new Error("Session expired");
       }
 
+      if (Date.now() - session.last_seen_at.getTime() > LAST_SEEN_UPDATE_MS) {
+        await prisma.session.update({
+          where: { session_id: session.session_id },
+          data: { last_seen_at: new Date() },
+        });
+      }
+
       return session.user;
     } catch {
       throw new Error("Invalid token");
     }
   }
 
+  static async updateTimeZone(user_id: string, timezone: string) {
+    await prisma.user.update({
+      where: { user_id },
+      data: { timezone },
+    });
+    console.log("🌍 Time zone updated for user:", user_id, timezone);
+  }
+
   static async signOut(token: string) {
     await prisma.session.deleteMany({ where: { token } });
   }
@@ -724,6 +1312,156 @@ export class AuthService {
     }
   }
 
+  static async sendNewLoginEmail(
+    email: string,
+    name: string,
+    session: {
+      device: string | null;
+      ip_address: string | null;
+      created_at: Date;
+    }
+  ) {
+    const device = session.device || "Unknown device";
+    const ipAddress = session.ip_address || "Unknown";
+    const signedInAt = session.created_at.toUTCString();
+
+    try {
+      const nodemailer = require("nodemailer");
+
+      const transporter = nodemailer.createTransport({
+        host: "smtp.gmail.com",
+        port: 587,
+        secure: false,
+        auth: {
+          user: process.env.EMAIL_USER,
+          pass: process.env.EMAIL_PASSWORD,
+        },
+      });
+
+      // Test the connection
+      console.log("🔍 Testing email connection...");
+      await transporter.verify();
+      console.log("✅ Email connection verified");
+
+      const mailOptions = {
+        from: `"Calo Fitness & Diet" <${process.env.EMAIL_USER}>`,
+        to: email,
+        subject: "New Sign-in to Your Account - Calo",
+        html: `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>New Sign-in - Calo</title>
+    </head>
+    <body style="margin: 0; padding: 0; background-color: #f8f9fa; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;">
+      <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="background-color: #f8f9fa;">
+        <tr>
+          <td align="center" style="padding: 40px 20px;">
+
+            <!-- Main Container -->
+            <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="600" style="max-width: 600px; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 20px rgba(0, 0, 0, 0.08); overflow: hidden;">
+
+              <!-- Header Section -->
+              <tr>
+                <td style="background: linear-gradient(135deg, #4ECDC4 0%, #44A08D 100%); padding: 40px 32px; text-align: center;">
+                  <h1 style="color: #ffffff; font-size: 28px; font-weight: 700; margin: 0; letter-spacing: -0.5px;">Calo</h1>
+                  <p style="color: rgba(255, 255, 255, 0.9); font-size: 16px; margin: 8px 0 0 0; font-weight: 400;">Account Security</p>
+                </td>
+              </tr>
+
+              <!-- Content Section -->
+              <tr>
+                <td style="padding: 48px 32px 32px;">
+
+                  <h2 style="color: #1a1a1a; font-size: 24px; font-weight: 600; margin: 0 0 24px 0; line-height: 1.3;">
+                    Hi ${name}, there's a new sign-in to your account 🔐
+                  </h2>
+
+                  <p style="color: #4a5568; font-size: 16px; line-height: 1.6; margin: 0 0 32px 0;">
+                    Your Calo account was just signed in to from a device or network we haven't seen before.
+                  </p>
+
+                  <!-- Sign-in Details -->
+                  <div style="background: linear-gradient(135deg, #f7fafc 0%, #edf2f7 100%); border: 1px solid #e2e8f0; border-radius: 12px; padding: 24px 32px; margin: 32px 0;">
+                    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="font-size: 15px; color: #2d3748;">
+                      <tr>
+                        <td style="padding: 8px 0; color: #718096; width: 120px;">Device</td>
+                        <td style="padding: 8px 0; font-weight: 600;">${device}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding: 8px 0; color: #718096;">IP address</td>
+                        <td style="padding: 8px 0; font-weight: 600;">${ipAddress}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding: 8px 0; color: #718096;">Time</td>
+                        <td style="padding: 8px 0; font-weight: 600;">${signedInAt}</td>
+                      </tr>
+                    </table>
+                  </div>
+
+                  <p style="color: #4a5568; font-size: 16px; line-height: 1.6; margin: 0 0 32px 0;">
+                    If this was you, there's nothing else to do.
+                  </p>
+
+                  <!-- Security Notice -->
+                  <div style="background-color: #fef2f2; border-left: 4px solid #ef4444; padding: 20px; margin: 32px 0; border-radius: 0 8px 8px 0;">
+                    <h3 style="color: #dc2626; font-size: 16px; font-weight: 600; margin: 0 0 8px 0;">
+                      🔒 Wasn't you?
+                    </h3>
+                    <p style="color: #dc2626; font-size: 14px; line-height: 1.5; margin: 0;">
+                      Reset your password right away, then sign out the sessions you don't recognize from the security settings in the Calo app. Turning on two-factor authentication keeps your health data safe even if your password leaks.
+                    </p>
+                  </div>
+
+                </td>
+              </tr>
+
+              <!-- Footer Section -->
+              <tr>
+                <td style="background-color: #f8f9fa; padding: 32px; text-align: center; border-top: 1px solid #e2e8f0;">
+                  <p style="color: #1a1a1a; font-size: 16px; font-weight: 600; margin: 0 0 8px 0;">
+                    Calo - Fitness & Diet
+                  </p>
+                  <p style="color: #718096; font-size: 14px; margin: 0 0 16px 0; line-height: 1.5;">
+                    You're receiving this email to keep your account secure.
+                  </p>
+                  <p style="color: #a0aec0; font-size: 12px; margin: 20px 0 0 0;">
+                    © 2025 Calo. All rights reserved.
+                  </p>
+                </td>
+              </tr>
+
+            </table>
+
+          </td>
+        </tr>
+      </table>
+    </body>
+    </html>
+  `,
+      };
+
+      const result = await transporter.sendMail(mailOptions);
+      console.log(`✅ New sign-in email sent to ${email}`);
+      console.log("📧 Message ID:", result.messageId);
+
+      return true;
+    } catch (error: any) {
+      console.error("❌ Failed to send new sign-in email:", error);
+
+      // Fallback to console logging if email fails
+      console.log(`📧 FALLBACK - New sign-in for ${email}`);
+      console.log(`📱 Device: ${device}`);
+      console.log(`📍 IP: ${ipAddress}`);
+      console.log(`⏰ Time: ${signedInAt}`);
+
+      // Don't throw error - the sign-in already succeeded
+      return true;
+    }
+  }
+
   static async verifyResetCode(email: string, code: string): Promise<string> {
     console.log("🔒 Verifying reset code for:", email);
 
@@ -846,4 +1584,12 @@ export class AuthService {
       path: "/",
     };
   }
+
+  // Only the auth routes ever need to see the refresh token
+  static getRefreshCookieOptions() {
+    return {
+      ...this.getCookieOptions(),
+      path: "/api/auth",
+    };
+  }
 }
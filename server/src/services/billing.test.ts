@@ -0,0 +1,390 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  BillingEvent,
+  ChargeRequest,
+  FakeBillingProvider,
+  getBillingProvider,
+  RefundRequest,
+} from "../lib/billing";
+import { BillingService } from "./billing";
+
+process.env.BILLING_WEBHOOK_SECRET = "test-webhook-secret";
+process.env.FAKE_BILLING_DELAY_MS = "1";
+
+type Row = Record<string, any>;
+
+function same(a: unknown, b: unknown) {
+  return a instanceof Date && b instanceof Date
+    ? a.getTime() === b.getTime()
+    : a === b;
+}
+
+// Just the filters BillingService uses
+function matches(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === "OR") {
+      return (condition as Row[]).some((branch) => matches(row, branch));
+    }
+    const value = row[key];
+    if (
+      condition === null ||
+      condition instanceof Date ||
+      typeof condition !== "object"
+    ) {
+      return same(value, condition);
+    }
+    return Object.entries(condition as Row).every(([op, operand]) => {
+      switch (op) {
+        case "not":
+          return !same(value, operand);
+        case "in":
+          return operand.some((option: unknown) => same(value, option));
+        case "gt":
+          return value != null && value > operand;
+        case "gte":
+          return value != null && value >= operand;
+        case "lt":
+          return value != null && value < operand;
+        case "lte":
+          return value != null && value <= operand;
+        default:
+          throw new Error(`Unsupported filter: ${op}`);
+      }
+    });
+  });
+}
+
+// In-memory stand-in for the prisma calls made by BillingService
+function createFakeDb() {
+  const users = new Map<string, Row>();
+  const payments: Row[] = [];
+  const events: Row[] = [];
+  // What created_at gets for new rows; tests move it with the renewal run
+  const clock = { now: new Date() };
+
+  const newest = (rows: Row[]) =>
+    [...rows].sort((a, b) => b.created_at - a.created_at);
+
+  const db = {
+    user: {
+      findUnique: async ({ where }: Row) => users.get(where.user_id) ?? null,
+      findMany: async ({ where }: Row) =>
+        [...users.values()].filter((user) => matches(user, where)),
+      update: async ({ where, data }: Row) =>
+        Object.assign(users.get(where.user_id)!, data),
+    },
+    subscriptionPayment: {
+      findFirst: async ({ where }: Row) =>
+        newest(payments.filter((payment) => matches(payment, where)))[0] ??
+        null,
+      create: async ({ data }: Row) => {
+        const payment = {
+          payment_id: payments.length + 1,
+          status: "PENDING",
+          provider_payment_id: null,
+          failure_reason: null,
+          created_at: clock.now,
+          ...data,
+        };
+        payments.push(payment);
+        return payment;
+      },
+      update: async ({ where, data }: Row) =>
+        Object.assign(
+          payments.find((payment) => payment.payment_id === where.payment_id)!,
+          data
+        ),
+      updateMany: async ({ where, data }: Row) => {
+        const rows = payments.filter((payment) => matches(payment, where));
+        rows.forEach((row) => Object.assign(row, data));
+        return { count: rows.length };
+      },
+    },
+    billingWebhookEvent: {
+      create: async ({ data }: Row) => {
+        if (events.some((event) => matches(event, data))) {
+          throw new Prisma.PrismaClientKnownRequestError(
+            "Unique constraint failed",
+            { code: "P2002", clientVersion: "test" }
+          );
+        }
+        events.push(data);
+        return data;
+      },
+    },
+    $transaction: async (fn: (tx: unknown) => unknown) => fn(db),
+  };
+
+  return { db, users, payments, events, clock };
+}
+
+const PERIOD_START = new Date("2025-06-01T00:00:00Z");
+const PERIOD_END = new Date("2025-07-01T00:00:00Z");
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function at(offsetMs: number) {
+  return new Date(PERIOD_START.getTime() + offsetMs);
+}
+
+function renewal(payment_id: number, overrides: Row = {}): Row {
+  return {
+    payment_id,
+    user_id: "user-1",
+    plan_type: "PREMIUM",
+    amount: 49,
+    currency: "ILS",
+    kind: "RENEWAL",
+    provider: "fake",
+    provider_payment_id: `fake_pay_${payment_id}`,
+    period_start: PERIOD_START,
+    period_end: PERIOD_END,
+    failure_reason: null,
+    ...overrides,
+  };
+}
+
+const timedOut = {
+  status: "FAILED",
+  failure_reason: "No response from the payment provider",
+  created_at: at(HOUR_MS),
+};
+
+const provider = getBillingProvider() as FakeBillingProvider;
+let fake: ReturnType<typeof createFakeDb>;
+let charges: ChargeRequest[];
+let refunds: RefundRequest[];
+
+beforeEach(() => {
+  fake = createFakeDb();
+  Object.assign(prisma, fake.db);
+  charges = [];
+  refunds = [];
+  // Recorded instead of sent; tests deliver the webhooks themselves
+  provider.charge = async (request) => {
+    charges.push(request);
+    return { providerPaymentId: `fake_pay_${request.paymentId}` };
+  };
+  provider.refund = async (request) => {
+    refunds.push(request);
+  };
+  fake.users.set("user-1", {
+    user_id: "user-1",
+    subscription_type: "PREMIUM",
+    subscription_start: new Date("2025-05-01T00:00:00Z"),
+    subscription_end: PERIOD_START,
+    subscription_auto_renew: true,
+    subscription_pending_type: null,
+    billing_payment_method: { token: "tok_4242", brand: "visa", last4: "4242" },
+  });
+});
+
+function deliver(event: BillingEvent) {
+  const rawBody = Buffer.from(JSON.stringify(event));
+  return BillingService.handleWebhook("fake", rawBody, {
+    "x-fake-billing-signature": provider.sign(rawBody),
+  });
+}
+
+function succeeded(payment_id: number, id = `evt_${payment_id}`) {
+  return deliver({
+    id,
+    type: "payment.succeeded",
+    providerPaymentId: `fake_pay_${payment_id}`,
+    paymentId: payment_id,
+  });
+}
+
+describe("BillingService.handleWebhook", () => {
+  it("rejects bodies that don't match the signature", async () => {
+    fake.payments.push(renewal(1, { status: "PENDING", created_at: at(0) }));
+    const rawBody = Buffer.from(
+      JSON.stringify({ id: "evt_1", type: "payment.succeeded", paymentId: 1 })
+    );
+    const tampered = Buffer.from(rawBody.toString().replace("evt_1", "evt_2"));
+    const stale = Math.floor(Date.now() / 1000) - 10 * 60;
+
+    for (const headers of [
+      {},
+      { "x-fake-billing-signature": provider.sign(tampered) },
+      { "x-fake-billing-signature": provider.sign(rawBody, stale) },
+      {
+        "x-fake-billing-signature": new FakeBillingProvider("other").sign(
+          rawBody
+        ),
+      },
+    ]) {
+      await assert.rejects(
+        BillingService.handleWebhook("fake", rawBody, headers),
+        { name: "BillingError", statusCode: 400 }
+      );
+    }
+    assert.equal(fake.payments[0].status, "PENDING");
+    assert.equal(fake.events.length, 0);
+  });
+
+  it("applies a redelivered event only once", async () => {
+    fake.payments.push(renewal(1, { status: "PENDING", created_at: at(0) }));
+
+    assert.equal((await succeeded(1)).applied, true);
+    const user = fake.users.get("user-1")!;
+    user.subscription_type = "GOLD";
+
+    assert.deepEqual(await succeeded(1), { applied: false, duplicate: true });
+    assert.equal(user.subscription_type, "GOLD");
+    assert.equal(fake.events.length, 1);
+  });
+
+  it("ignores a different event for a settled payment", async () => {
+    fake.payments.push(renewal(1, { status: "PENDING", created_at: at(0) }));
+    await succeeded(1);
+
+    const result = await deliver({
+      id: "evt_1_failed",
+      type: "payment.failed",
+      providerPaymentId: "fake_pay_1",
+      paymentId: 1,
+      failureReason: "card_declined",
+    });
+
+    assert.equal(result.applied, false);
+    assert.equal(fake.payments[0].status, "SUCCEEDED");
+  });
+
+  it("applies a late success when the renewal wasn't retried", async () => {
+    fake.payments.push(renewal(1, timedOut));
+
+    const result = await succeeded(1);
+
+    assert.equal(result.applied, true);
+    assert.equal(fake.payments[0].status, "SUCCEEDED");
+    assert.deepEqual(fake.users.get("user-1")!.subscription_end, PERIOD_END);
+    assert.equal(refunds.length, 0);
+  });
+
+  it("refunds a late success after a successful retry", async () => {
+    fake.payments.push(
+      renewal(1, timedOut),
+      renewal(2, { status: "SUCCEEDED", created_at: at(7 * HOUR_MS) })
+    );
+    const user = fake.users.get("user-1")!;
+    user.subscription_start = PERIOD_START;
+    user.subscription_end = PERIOD_END;
+    const before = { ...user };
+
+    const result = await succeeded(1);
+
+    assert.equal(result.applied, false);
+    assert.equal(fake.payments[0].status, "REFUNDED");
+    assert.equal(fake.payments[0].failure_reason, "Duplicate of payment 2");
+    assert.deepEqual(refunds.map((refund) => refund.paymentId), [1]);
+    assert.deepEqual(fake.users.get("user-1"), before);
+  });
+
+  it("refunds a late success while a newer retry is in flight", async () => {
+    fake.payments.push(
+      renewal(1, timedOut),
+      renewal(2, { status: "PENDING", created_at: at(7 * HOUR_MS) })
+    );
+
+    await succeeded(1);
+
+    assert.equal(fake.payments[0].status, "REFUNDED");
+    assert.equal(fake.payments[0].failure_reason, "Superseded by payment 2");
+    assert.deepEqual(fake.users.get("user-1")!.subscription_end, PERIOD_START);
+  });
+});
+
+describe("BillingService.processRenewals", () => {
+  function runAt(offsetMs: number) {
+    fake.clock.now = at(offsetMs);
+    return BillingService.processRenewals(fake.clock.now);
+  }
+
+  it("charges a due subscription once and waits for the webhook", async () => {
+    assert.deepEqual(await runAt(HOUR_MS), {
+      charged: 1,
+      downgraded: 0,
+      failed: 0,
+    });
+    assert.equal(charges.length, 1);
+    assert.equal(charges[0].amount, 49);
+    assert.equal(fake.payments[0].kind, "RENEWAL");
+    assert.deepEqual(fake.payments[0].period_end, PERIOD_END);
+
+    await runAt(2 * HOUR_MS);
+    assert.equal(charges.length, 1);
+
+    await succeeded(1);
+    const user = fake.users.get("user-1")!;
+    assert.deepEqual(user.subscription_start, PERIOD_START);
+    assert.deepEqual(user.subscription_end, PERIOD_END);
+  });
+
+  it("renews onto a scheduled downgrade", async () => {
+    fake.users.get("user-1")!.subscription_type = "GOLD";
+    fake.users.get("user-1")!.subscription_pending_type = "PREMIUM";
+
+    await runAt(HOUR_MS);
+
+    assert.equal(charges[0].amount, 49);
+    assert.equal(fake.payments[0].plan_type, "PREMIUM");
+  });
+
+  it("retries a declined renewal a day later", async () => {
+    fake.payments.push(
+      renewal(1, { status: "FAILED", created_at: at(HOUR_MS) })
+    );
+
+    await runAt(12 * HOUR_MS);
+    assert.equal(charges.length, 0);
+
+    await runAt(DAY_MS + 2 * HOUR_MS);
+    assert.equal(charges.length, 1);
+    assert.equal(fake.users.get("user-1")!.subscription_type, "PREMIUM");
+  });
+
+  it("downgrades to FREE once the grace period is over", async () => {
+    fake.payments.push(
+      renewal(1, { status: "FAILED", created_at: at(2 * DAY_MS) })
+    );
+
+    assert.deepEqual(await runAt(3 * DAY_MS), {
+      charged: 0,
+      downgraded: 1,
+      failed: 0,
+    });
+    assert.equal(fake.users.get("user-1")!.subscription_type, "FREE");
+    assert.equal(charges.length, 0);
+  });
+
+  it("downgrades a canceled subscription without charging", async () => {
+    fake.users.get("user-1")!.subscription_auto_renew = false;
+
+    assert.equal((await runAt(HOUR_MS)).downgraded, 1);
+    assert.equal(fake.users.get("user-1")!.subscription_type, "FREE");
+    assert.equal(charges.length, 0);
+  });
+
+  it("fails a renewal whose webhook never arrives, then retries", async () => {
+    fake.payments.push(renewal(1, { status: "PENDING", created_at: at(0) }));
+
+    await runAt(5 * HOUR_MS);
+    assert.equal(fake.payments[0].status, "PENDING");
+
+    await runAt(7 * HOUR_MS);
+    assert.equal(fake.payments[0].status, "FAILED");
+    assert.equal(
+      fake.payments[0].failure_reason,
+      "No response from the payment provider"
+    );
+    assert.equal(charges.length, 0);
+
+    await runAt(DAY_MS + HOUR_MS);
+    assert.equal(charges.length, 1);
+    assert.equal(fake.payments[1].status, "PENDING");
+  });
+});
@@ -0,0 +1,777 @@
+import { IncomingHttpHeaders } from "http";
+import {
+  PaymentKind,
+  Prisma,
+  SubscriptionPayment,
+  SubscriptionType,
+} from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  BillingEvent,
+  BillingProvider,
+  FakeBillingProvider,
+  getBillingProvider,
+} from "../lib/billing";
+import {
+  CheckoutInput,
+  PlanQuote,
+  RenewalRunResult,
+  StoredPaymentMethod,
+  SubscriptionPlan,
+} from "../types/billing";
+import { AuthService } from "./auth";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Monthly prices, in CURRENCY
+const PLAN_PRICES: Record<SubscriptionType, number> = {
+  FREE: 0,
+  PREMIUM: 49,
+  GOLD: 99,
+};
+const PLAN_RANK: Record<SubscriptionType, number> = {
+  FREE: 0,
+  PREMIUM: 1,
+  GOLD: 2,
+};
+const CURRENCY = process.env.BILLING_CURRENCY || "ILS";
+
+// A failed renewal is retried once a day until the grace period runs out
+const RENEWAL_RETRY_INTERVAL_MS = DAY_MS;
+const GRACE_PERIOD_DAYS = Number(process.env.BILLING_GRACE_PERIOD_DAYS) || 3;
+// Blocks double checkouts while the provider's webhook is still in flight
+const PENDING_CHECKOUT_WINDOW_MS = 10 * 60 * 1000;
+// A renewal whose webhook never arrived is failed after this and retried
+const PENDING_RENEWAL_TIMEOUT_MS = 6 * 60 * 60 * 1000;
+const PENDING_TIMEOUT_REASON = "No response from the payment provider";
+
+const paymentSelect = {
+  payment_id: true,
+  plan_type: true,
+  amount: true,
+  currency: true,
+  status: true,
+  kind: true,
+  invoice_number: true,
+  period_start: true,
+  period_end: true,
+  proration_credit: true,
+  failure_reason: true,
+  payment_method: true,
+  payment_date: true,
+  created_at: true,
+} satisfies Prisma.SubscriptionPaymentSelect;
+
+export class BillingError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "BillingError";
+  }
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  // Clamp Jan 31 + 1 month to Feb 28/29 instead of rolling into March
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function describePaymentMethod(method: StoredPaymentMethod): string {
+  return method.last4
+    ? `${method.brand || "card"} •••• ${method.last4}`
+    : method.brand || "card";
+}
+
+export class BillingService {
+  private static provider?: BillingProvider;
+
+  private static getProvider(): BillingProvider {
+    if (!this.provider) {
+      const provider = getBillingProvider();
+      // The fake provider posts its webhooks straight back in-process, so
+      // local payments go through the same signature check as real ones
+      if (provider instanceof FakeBillingProvider) {
+        provider.setWebhookDelivery((rawBody, headers) =>
+          this.handleWebhook(provider.name, rawBody, headers)
+        );
+      }
+      this.provider = provider;
+    }
+    return this.provider;
+  }
+
+  static async getPlans() {
+    return Promise.all(
+      (Object.keys(PLAN_PRICES) as SubscriptionType[]).map(async (plan) => {
+        const { dailyRequests } = await AuthService.getRolePermissions(plan);
+        return {
+          plan,
+          price: PLAN_PRICES[plan],
+          currency: CURRENCY,
+          interval: "month" as const,
+          dailyAiRequests: dailyRequests < 0 ? null : dailyRequests,
+        };
+      })
+    );
+  }
+
+  private static async getBillingUser(user_id: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: {
+        subscription_type: true,
+        subscription_start: true,
+        subscription_end: true,
+        subscription_auto_renew: true,
+        subscription_pending_type: true,
+        billing_payment_method: true,
+      },
+    });
+    if (!user) throw new BillingError("User not found", 404);
+    return user;
+  }
+
+  static async getSubscription(user_id: string) {
+    const user = await this.getBillingUser(user_id);
+    const paymentMethod =
+      user.billing_payment_method as StoredPaymentMethod | null;
+    const now = new Date();
+
+    const lastPayment = await prisma.subscriptionPayment.findFirst({
+      where: { user_id },
+      orderBy: { created_at: "desc" },
+      select: paymentSelect,
+    });
+
+    let status: "free" | "active" | "canceled" | "past_due";
+    if (user.subscription_type === "FREE") {
+      status = "free";
+    } else if (user.subscription_end && user.subscription_end <= now) {
+      status = "past_due";
+    } else {
+      status = user.subscription_auto_renew ? "active" : "canceled";
+    }
+
+    return {
+      plan: user.subscription_type,
+      status,
+      currentPeriodStart: user.subscription_start,
+      currentPeriodEnd: user.subscription_end,
+      autoRenew: user.subscription_auto_renew,
+      pendingPlan: user.subscription_pending_type,
+      paymentMethod: paymentMethod
+        ? { brand: paymentMethod.brand, last4: paymentMethod.last4 }
+        : null,
+      lastPayment,
+    };
+  }
+
+  /**
+   * Works out what switching to `plan` costs right now. Upgrades from
+   * PREMIUM to GOLD are charged the price difference for the rest of the
+   * current period; downgrades take effect when the period ends.
+   */
+  static async quote(
+    user_id: string,
+    plan: SubscriptionPlan,
+    now: Date = new Date()
+  ): Promise<PlanQuote> {
+    const user = await this.getBillingUser(user_id);
+    const currentPlan = user.subscription_type;
+    const periodEnd = user.subscription_end;
+    const isActive =
+      currentPlan !== "FREE" && !!periodEnd && periodEnd > now;
+
+    const base = {
+      plan,
+      currentPlan,
+      currency: CURRENCY,
+      amount: 0,
+      prorationCredit: 0,
+    };
+
+    if (plan === currentPlan && isActive) {
+      return {
+        ...base,
+        action: "none",
+        periodStart: user.subscription_start ?? now,
+        periodEnd: periodEnd ?? now,
+      };
+    }
+
+    if (plan === "FREE") {
+      return {
+        ...base,
+        action: isActive ? "scheduled" : "none",
+        periodStart: (isActive && periodEnd) || now,
+        periodEnd: (isActive && periodEnd) || now,
+      };
+    }
+
+    if (isActive && periodEnd && PLAN_RANK[plan] < PLAN_RANK[currentPlan]) {
+      return {
+        ...base,
+        action: "scheduled",
+        periodStart: periodEnd,
+        periodEnd: addMonths(periodEnd, 1),
+      };
+    }
+
+    if (isActive && periodEnd && PLAN_RANK[plan] > PLAN_RANK[currentPlan]) {
+      const periodStart =
+        user.subscription_start ?? addMonths(periodEnd, -1);
+      const remaining =
+        (periodEnd.getTime() - now.getTime()) /
+        (periodEnd.getTime() - periodStart.getTime());
+      const fraction = Math.min(1, Math.max(0, remaining));
+      const prorationCredit = roundMoney(PLAN_PRICES[currentPlan] * fraction);
+
+      return {
+        ...base,
+        action: "charge",
+        kind: "UPGRADE",
+        amount: roundMoney(PLAN_PRICES[plan] * fraction - prorationCredit),
+        prorationCredit,
+        periodStart: now,
+        periodEnd,
+      };
+    }
+
+    return {
+      ...base,
+      action: "charge",
+      kind: "NEW_SUBSCRIPTION",
+      amount: PLAN_PRICES[plan],
+      periodStart: now,
+      periodEnd: addMonths(now, 1),
+    };
+  }
+
+  static async checkout(user_id: string, input: CheckoutInput) {
+    const quote = await this.quote(user_id, input.plan);
+
+    if (quote.action === "none") {
+      // Re-selecting the current plan undoes a pending cancel or downgrade
+      if (quote.plan === quote.currentPlan) {
+        await prisma.user.update({
+          where: { user_id },
+          data: {
+            subscription_auto_renew: true,
+            subscription_pending_type: null,
+          },
+        });
+      }
+      return { status: "unchanged" as const, quote };
+    }
+
+    if (quote.action === "scheduled") {
+      if (quote.plan === "FREE") {
+        await this.cancel(user_id);
+      } else {
+        await prisma.user.update({
+          where: { user_id },
+          data: {
+            subscription_auto_renew: true,
+            subscription_pending_type: quote.plan,
+          },
+        });
+      }
+      console.log(
+        `📅 ${quote.currentPlan} → ${quote.plan} scheduled for ${quote.periodStart.toISOString()}`
+      );
+      return { status: "scheduled" as const, quote };
+    }
+
+    const user = await this.getBillingUser(user_id);
+    const paymentMethod =
+      input.paymentMethod ??
+      (user.billing_payment_method as StoredPaymentMethod | null);
+    if (!paymentMethod) {
+      throw new BillingError("A payment method is required", 400);
+    }
+
+    const inFlight = await prisma.subscriptionPayment.findFirst({
+      where: {
+        user_id,
+        status: "PENDING",
+        created_at: { gte: new Date(Date.now() - PENDING_CHECKOUT_WINDOW_MS) },
+      },
+      select: { payment_id: true },
+    });
+    if (inFlight) {
+      throw new BillingError(
+        "A payment is already being processed, please wait",
+        409
+      );
+    }
+
+    if (input.paymentMethod) {
+      await prisma.user.update({
+        where: { user_id },
+        data: { billing_payment_method: input.paymentMethod },
+      });
+    }
+
+    const payment = await this.charge(
+      user_id,
+      quote.plan,
+      quote.kind!,
+      quote.amount,
+      quote.periodStart,
+      quote.periodEnd,
+      paymentMethod,
+      quote.prorationCredit
+    );
+
+    if (payment.status === "FAILED") {
+      throw new BillingError(
+        payment.failure_reason || "Payment could not be processed",
+        402
+      );
+    }
+
+    return { status: "pending" as const, quote, payment };
+  }
+
+  /**
+   * Records a PENDING payment and submits it to the provider. The outcome
+   * is applied later by handleWebhook.
+   */
+  private static async charge(
+    user_id: string,
+    plan: SubscriptionType,
+    kind: PaymentKind,
+    amount: number,
+    periodStart: Date,
+    periodEnd: Date,
+    paymentMethod: StoredPaymentMethod,
+    prorationCredit: number = 0
+  ) {
+    const provider = this.getProvider();
+
+    const payment = await prisma.subscriptionPayment.create({
+      data: {
+        user_id,
+        plan_type: plan,
+        amount,
+        currency: CURRENCY,
+        kind,
+        provider: provider.name,
+        period_start: periodStart,
+        period_end: periodEnd,
+        proration_credit: prorationCredit,
+        payment_method: describePaymentMethod(paymentMethod),
+      },
+    });
+
+    try {
+      const { providerPaymentId } = await provider.charge({
+        paymentId: payment.payment_id,
+        userId: user_id,
+        amount,
+        currency: CURRENCY,
+        description: `${plan} subscription (${kind.toLowerCase()})`,
+        paymentMethodToken: paymentMethod.token,
+      });
+
+      // The webhook may already have settled the payment by now
+      return await prisma.subscriptionPayment.update({
+        where: { payment_id: payment.payment_id },
+        data: { provider_payment_id: providerPaymentId },
+        select: paymentSelect,
+      });
+    } catch (error) {
+      console.error("💥 Billing provider charge error:", error);
+      return prisma.subscriptionPayment.update({
+        where: { payment_id: payment.payment_id },
+        data: {
+          status: "FAILED",
+          failure_reason:
+            error instanceof Error ? error.message : "Charge request failed",
+        },
+        select: paymentSelect,
+      });
+    }
+  }
+
+  /**
+   * Verifies and applies a provider webhook. Each event id is stored in the
+   * same transaction that applies it, so redeliveries are no-ops.
+   */
+  static async handleWebhook(
+    providerName: string,
+    rawBody: Buffer,
+    headers: IncomingHttpHeaders
+  ) {
+    const provider = this.getProvider();
+    if (provider.name !== providerName) {
+      throw new BillingError(`Unknown billing provider: ${providerName}`, 404);
+    }
+
+    let event: BillingEvent;
+    try {
+      event = provider.parseWebhook(rawBody, headers);
+    } catch (error) {
+      throw new BillingError(
+        error instanceof Error ? error.message : "Invalid webhook",
+        400
+      );
+    }
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        await tx.billingWebhookEvent.create({
+          data: { provider: provider.name, event_id: event.id, type: event.type },
+        });
+        return this.applyEvent(tx, provider.name, event);
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        console.log("⏭️ Duplicate billing webhook ignored:", event.id);
+        return { applied: false, duplicate: true };
+      }
+      throw error;
+    }
+  }
+
+  private static async applyEvent(
+    tx: Prisma.TransactionClient,
+    providerName: string,
+    event: BillingEvent
+  ) {
+    const payment = await tx.subscriptionPayment.findFirst({
+      where: {
+        provider: providerName,
+        OR: [
+          { provider_payment_id: event.providerPaymentId },
+          ...(event.paymentId ? [{ payment_id: event.paymentId }] : []),
+        ],
+      },
+    });
+
+    if (!payment) {
+      console.warn("⚠️ Billing webhook for unknown payment:", event.id);
+      return { applied: false, duplicate: false };
+    }
+    // The money was taken after all, so a late success still counts unless
+    // the period was settled by a retry in the meantime
+    const timedOut =
+      payment.status === "FAILED" &&
+      payment.failure_reason === PENDING_TIMEOUT_REASON &&
+      event.type === "payment.succeeded";
+    if (timedOut) {
+      console.warn(
+        `⚠️ Payment ${payment.payment_id} succeeded after timing out`
+      );
+    } else if (payment.status !== "PENDING") {
+      console.log(
+        `⏭️ Payment ${payment.payment_id} already ${payment.status}, ignoring ${event.type}`
+      );
+      return { applied: false, duplicate: false };
+    }
+
+    if (event.type === "payment.failed") {
+      await tx.subscriptionPayment.update({
+        where: { payment_id: payment.payment_id },
+        data: {
+          status: "FAILED",
+          provider_payment_id: event.providerPaymentId,
+          failure_reason: event.failureReason || "Payment failed",
+        },
+      });
+      console.log(`❌ Payment ${payment.payment_id} failed:`, event.failureReason);
+      return { applied: true, duplicate: false };
+    }
+
+    if (timedOut) {
+      const laterAttempt = await tx.subscriptionPayment.findFirst({
+        where: {
+          user_id: payment.user_id,
+          period_start: payment.period_start,
+          payment_id: { not: payment.payment_id },
+          OR: [
+            { status: "SUCCEEDED" },
+            { created_at: { gt: payment.created_at } },
+          ],
+        },
+        orderBy: { created_at: "desc" },
+        select: { payment_id: true, status: true },
+      });
+      if (laterAttempt) {
+        return this.refundLateSuccess(tx, payment, event, laterAttempt);
+      }
+    }
+
+    const paidAt = new Date();
+    await tx.subscriptionPayment.update({
+      where: { payment_id: payment.payment_id },
+      data: {
+        status: "SUCCEEDED",
+        provider_payment_id: event.providerPaymentId,
+        payment_date: paidAt,
+        invoice_number: this.invoiceNumber(payment, paidAt),
+      },
+    });
+
+    await tx.user.update({
+      where: { user_id: payment.user_id },
+      data: {
+        subscription_type: payment.plan_type,
+        subscription_end: payment.period_end,
+        // An upgrade keeps the period it was prorated against
+        ...(payment.kind !== "UPGRADE" && {
+          subscription_start: payment.period_start,
+        }),
+        subscription_pending_type: null,
+        ...(payment.kind !== "RENEWAL" && { subscription_auto_renew: true }),
+      },
+    });
+
+    console.log(
+      `✅ Payment ${payment.payment_id} succeeded: ${payment.user_id} now ${payment.plan_type}`
+    );
+    return { applied: true, duplicate: false };
+  }
+
+  /**
+   * Gives back a timed-out renewal that succeeded after another attempt for
+   * the same period was made. The refund runs inside the webhook's
+   * transaction, so if it fails the event is left for redelivery.
+   */
+  private static async refundLateSuccess(
+    tx: Prisma.TransactionClient,
+    payment: SubscriptionPayment,
+    event: BillingEvent,
+    laterAttempt: Pick<SubscriptionPayment, "payment_id" | "status">
+  ) {
+    const reason =
+      laterAttempt.status === "SUCCEEDED"
+        ? `Duplicate of payment ${laterAttempt.payment_id}`
+        : `Superseded by payment ${laterAttempt.payment_id}`;
+
+    await this.getProvider().refund({
+      paymentId: payment.payment_id,
+      providerPaymentId: event.providerPaymentId,
+      amount: payment.amount,
+      currency: payment.currency,
+      reason,
+    });
+
+    await tx.subscriptionPayment.update({
+      where: { payment_id: payment.payment_id },
+      data: {
+        status: "REFUNDED",
+        provider_payment_id: event.providerPaymentId,
+        payment_date: new Date(),
+        failure_reason: reason,
+      },
+    });
+
+    console.warn(`↩️ Payment ${payment.payment_id} refunded: ${reason}`);
+    return { applied: false, duplicate: false, refunded: true };
+  }
+
+  private static invoiceNumber(payment: SubscriptionPayment, paidAt: Date) {
+    const month = `${paidAt.getUTCFullYear()}${String(
+      paidAt.getUTCMonth() + 1
+    ).padStart(2, "0")}`;
+    return `INV-${month}-${String(payment.payment_id).padStart(6, "0")}`;
+  }
+
+  static async getPayment(user_id: string, payment_id: number) {
+    const payment = await prisma.subscriptionPayment.findFirst({
+      where: { user_id, payment_id },
+      select: paymentSelect,
+    });
+    if (!payment) throw new BillingError("Payment not found", 404);
+    return payment;
+  }
+
+  static async getInvoices(user_id: string, page: number, limit: number) {
+    const where: Prisma.SubscriptionPaymentWhereInput = {
+      user_id,
+      status: { in: ["SUCCEEDED", "REFUNDED"] },
+    };
+
+    const [invoices, total] = await Promise.all([
+      prisma.subscriptionPayment.findMany({
+        where,
+        orderBy: [{ payment_date: "desc" }, { payment_id: "desc" }],
+        skip: (page - 1) * limit,
+        take: limit,
+        select: paymentSelect,
+      }),
+      prisma.subscriptionPayment.count({ where }),
+    ]);
+
+    return {
+      invoices,
+      pagination: {
+        page,
+        limit,
+        total,
+        hasMore: page * limit < total,
+      },
+    };
+  }
+
+  // Stops renewal; the plan stays active until the paid period ends
+  static async cancel(user_id: string) {
+    const user = await this.getBillingUser(user_id);
+    if (user.subscription_type === "FREE") {
+      throw new BillingError("No active subscription to cancel", 400);
+    }
+
+    // Without a paid period there's nothing to run out, so it ends now
+    if (!user.subscription_end) {
+      await this.downgradeToFree(user_id, "canceled");
+      return this.getSubscription(user_id);
+    }
+
+    await prisma.user.update({
+      where: { user_id },
+      data: {
+        subscription_auto_renew: false,
+        subscription_pending_type: null,
+      },
+    });
+
+    console.log(`🛑 Subscription canceled for ${user_id}`);
+    return this.getSubscription(user_id);
+  }
+
+  private static async downgradeToFree(user_id: string, reason: string) {
+    await prisma.user.update({
+      where: { user_id },
+      data: {
+        subscription_type: "FREE",
+        subscription_pending_type: null,
+        subscription_auto_renew: true,
+      },
+    });
+    console.log(`⬇️ Downgraded ${user_id} to FREE (${reason})`);
+  }
+
+  /**
+   * Renews every paid subscription whose period has ended. Failed renewals
+   * are retried daily; once the grace period is over, or when renewal was
+   * turned off, the user drops to FREE.
+   */
+  static async processRenewals(now: Date = new Date()): Promise<RenewalRunResult> {
+    const result: RenewalRunResult = { charged: 0, downgraded: 0, failed: 0 };
+
+    const dueUsers = await prisma.user.findMany({
+      where: {
+        subscription_type: { not: "FREE" },
+        subscription_end: { lte: now },
+      },
+      select: {
+        user_id: true,
+        subscription_type: true,
+        subscription_end: true,
+        subscription_auto_renew: true,
+        subscription_pending_type: true,
+        billing_payment_method: true,
+      },
+    });
+
+    for (const user of dueUsers) {
+      try {
+        const periodStart = user.subscription_end!;
+        const paymentMethod =
+          user.billing_payment_method as StoredPaymentMethod | null;
+
+        if (!user.subscription_auto_renew || !paymentMethod) {
+          await this.downgradeToFree(
+            user.user_id,
+            user.subscription_auto_renew ? "no payment method" : "canceled"
+          );
+          result.downgraded++;
+          continue;
+        }
+
+        const lastAttempt = await prisma.subscriptionPayment.findFirst({
+          where: {
+            user_id: user.user_id,
+            kind: "RENEWAL",
+            period_start: periodStart,
+          },
+          orderBy: { created_at: "desc" },
+          select: { payment_id: true, status: true, created_at: true },
+        });
+
+        // Wait for the provider to settle the in-flight renewal, but not
+        // forever: a lost webhook would otherwise keep the plan active
+        if (lastAttempt?.status === "PENDING") {
+          if (
+            now.getTime() - lastAttempt.created_at.getTime() <
+            PENDING_RENEWAL_TIMEOUT_MS
+          ) {
+            continue;
+          }
+          const expired = await prisma.subscriptionPayment.updateMany({
+            where: { payment_id: lastAttempt.payment_id, status: "PENDING" },
+            data: { status: "FAILED", failure_reason: PENDING_TIMEOUT_REASON },
+          });
+          // The webhook settled it in the meantime
+          if (expired.count === 0) continue;
+          console.warn(
+            `⌛ Renewal payment ${lastAttempt.payment_id} timed out for ${user.user_id}`
+          );
+        }
+
+        if (
+          lastAttempt &&
+          now.getTime() - periodStart.getTime() >= GRACE_PERIOD_DAYS * DAY_MS
+        ) {
+          await this.downgradeToFree(user.user_id, "renewal payment failed");
+          result.downgraded++;
+          continue;
+        }
+
+        if (
+          lastAttempt &&
+          now.getTime() - lastAttempt.created_at.getTime() <
+            RENEWAL_RETRY_INTERVAL_MS
+        ) {
+          continue;
+        }
+
+        const plan = user.subscription_pending_type ?? user.subscription_type;
+        const payment = await this.charge(
+          user.user_id,
+          plan,
+          "RENEWAL",
+          PLAN_PRICES[plan],
+          periodStart,
+          addMonths(periodStart, 1),
+          paymentMethod
+        );
+
+        if (payment.status === "FAILED") {
+          result.failed++;
+        } else {
+          result.charged++;
+        }
+      } catch (error) {
+        console.error(`💥 Renewal failed for user ${user.user_id}:`, error);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+}
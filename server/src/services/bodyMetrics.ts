@@ -0,0 +1,244 @@
+import { BodyMeasurement, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  BODY_METRIC_FIELDS,
+  BodyMeasurementInput,
+  BodyMeasurementUpdate,
+} from "../types/bodyMetrics";
+import {
+  addDays,
+  diffDays,
+  fromDbDate,
+  getTodayKey,
+  getUserTimeZone,
+  toDbDate,
+} from "../utils/dayBoundary";
+import { exponentialTrend, linearSlope } from "../utils/trend";
+
+// Each day's weigh-in moves the trend a tenth of the way toward it, which
+// irons out water and food weight without lagging real change by much
+const TREND_ALPHA = 0.1;
+
+// The goal date projection follows the trend over the last four weeks
+const PROJECTION_WINDOW_DAYS = 28;
+const MIN_PROJECTION_SPAN_DAYS = 7;
+const MAX_PROJECTION_DAYS = 730;
+
+export class BodyMetricsError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "BodyMetricsError";
+  }
+}
+
+function serialize(measurement: BodyMeasurement) {
+  return { ...measurement, date: fromDbDate(measurement.date) };
+}
+
+export class BodyMetricsService {
+  static async getMeasurements(userId: string, fromKey?: string, toKey?: string) {
+    const measurements = await prisma.bodyMeasurement.findMany({
+      where: {
+        user_id: userId,
+        date: {
+          ...(fromKey && { gte: toDbDate(fromKey) }),
+          ...(toKey && { lte: toDbDate(toKey) }),
+        },
+      },
+      orderBy: { date: "desc" },
+    });
+
+    return measurements.map(serialize);
+  }
+
+  private static async assertNotInFuture(userId: string, dateKey: string) {
+    const today = getTodayKey(await getUserTimeZone(userId));
+    if (dateKey > today) {
+      throw new BodyMetricsError("Measurements can't be logged for future days");
+    }
+  }
+
+  // Logging a day that already has a row fills in or overwrites its fields
+  static async recordMeasurement(userId: string, input: BodyMeasurementInput) {
+    const { date: dateKey, ...fields } = input;
+    await this.assertNotInFuture(userId, dateKey);
+
+    const date = toDbDate(dateKey);
+    const measurement = await prisma.bodyMeasurement.upsert({
+      where: { user_id_date: { user_id: userId, date } },
+      update: fields,
+      create: { user_id: userId, date, ...fields },
+    });
+
+    console.log("⚖️ Body measurement saved for", dateKey);
+    return serialize(measurement);
+  }
+
+  static async updateMeasurement(
+    userId: string,
+    measurementId: string,
+    input: BodyMeasurementUpdate
+  ) {
+    const existing = await prisma.bodyMeasurement.findFirst({
+      where: { measurement_id: measurementId, user_id: userId },
+    });
+    if (!existing) {
+      throw new BodyMetricsError("Measurement not found", 404);
+    }
+
+    const { date: dateKey, ...fields } = input;
+    if (dateKey) await this.assertNotInFuture(userId, dateKey);
+
+    const merged = { ...existing, ...fields };
+    if (!BODY_METRIC_FIELDS.some((field) => merged[field] != null)) {
+      throw new BodyMetricsError("Enter at least one measurement");
+    }
+
+    try {
+      const measurement = await prisma.bodyMeasurement.update({
+        where: { measurement_id: measurementId },
+        data: { ...fields, ...(dateKey && { date: toDbDate(dateKey) }) },
+      });
+      return serialize(measurement);
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        throw new BodyMetricsError(
+          "There is already a measurement for that day",
+          409
+        );
+      }
+      throw error;
+    }
+  }
+
+  static async deleteMeasurement(userId: string, measurementId: string) {
+    const { count } = await prisma.bodyMeasurement.deleteMany({
+      where: { measurement_id: measurementId, user_id: userId },
+    });
+    if (count === 0) {
+      throw new BodyMetricsError("Measurement not found", 404);
+    }
+  }
+
+  /**
+   * One weight per day from fromKey to toKey, sorted by day. A manual entry
+   * wins; otherwise wearable readings for the day are averaged.
+   */
+  static async getDailyWeights(
+    userId: string,
+    fromKey: string,
+    toKey: string
+  ): Promise<Array<{ date: string; weight_kg: number }>> {
+    const range = { gte: toDbDate(fromKey), lte: toDbDate(toKey) };
+    const [manual, wearable] = await Promise.all([
+      prisma.bodyMeasurement.findMany({
+        where: { user_id: userId, date: range, weight_kg: { not: null } },
+        select: { date: true, weight_kg: true },
+      }),
+      prisma.dailyActivitySummary.findMany({
+        where: { user_id: userId, date: range, weight_kg: { not: null } },
+        select: { date: true, weight_kg: true },
+      }),
+    ]);
+
+    const wearableByDay = new Map<string, number[]>();
+    for (const summary of wearable) {
+      const day = fromDbDate(summary.date);
+      wearableByDay.set(day, [
+        ...(wearableByDay.get(day) || []),
+        summary.weight_kg!,
+      ]);
+    }
+
+    const byDay = new Map<string, number>();
+    for (const [day, weights] of wearableByDay) {
+      byDay.set(day, weights.reduce((sum, w) => sum + w, 0) / weights.length);
+    }
+    for (const entry of manual) {
+      byDay.set(fromDbDate(entry.date), entry.weight_kg!);
+    }
+
+    return [...byDay.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, weight_kg]) => ({ date, weight_kg }));
+  }
+
+  /**
+   * Daily weights with their smoothed trend, the weekly rate of change and,
+   * when the trend is heading toward the questionnaire's target weight, the
+   * day it should get there.
+   */
+  static async getWeightTrend(userId: string, days: number = 90) {
+    const today = getTodayKey(await getUserTimeZone(userId));
+    const fromKey = addDays(today, -(days - 1));
+
+    const [weights, questionnaire] = await Promise.all([
+      this.getDailyWeights(userId, fromKey, today),
+      prisma.userQuestionnaire.findFirst({
+        where: { user_id: userId },
+        orderBy: { date_completed: "desc" },
+        select: { target_weight_kg: true },
+      }),
+    ]);
+
+    const series = weights.map((w) => ({
+      x: diffDays(fromKey, w.date),
+      y: w.weight_kg,
+    }));
+    const trend = exponentialTrend(series, TREND_ALPHA);
+    const points = weights.map((w, i) => ({
+      date: w.date,
+      weight_kg: Math.round(w.weight_kg * 10) / 10,
+      trend_kg: Math.round(trend[i] * 100) / 100,
+    }));
+
+    const windowStart = diffDays(fromKey, addDays(today, -PROJECTION_WINDOW_DAYS));
+    const recent = series
+      .map((point, i) => ({ x: point.x, y: trend[i] }))
+      .filter((point) => point.x >= windowStart);
+    const hasProjectionData =
+      recent.length >= 2 &&
+      recent[recent.length - 1].x - recent[0].x >= MIN_PROJECTION_SPAN_DAYS;
+    const weeklyChange = hasProjectionData ? linearSlope(recent) * 7 : null;
+
+    const latestTrend = trend.length ? trend[trend.length - 1] : null;
+    const targetWeight = questionnaire?.target_weight_kg ?? null;
+
+    return {
+      points,
+      latest_weight_kg: points.length ? points[points.length - 1].weight_kg : null,
+      trend_weight_kg: latestTrend !== null ? Math.round(latestTrend * 10) / 10 : null,
+      weekly_change_kg:
+        weeklyChange !== null ? Math.round(weeklyChange * 100) / 100 : null,
+      target_weight_kg: targetWeight,
+      projected_goal_date: this.projectGoalDate(
+        today,
+        latestTrend,
+        weeklyChange,
+        targetWeight
+      ),
+    };
+  }
+
+  private static projectGoalDate(
+    today: string,
+    latestTrend: number | null,
+    weeklyChange: number | null,
+    targetWeight: number | null
+  ): string | null {
+    if (latestTrend === null || targetWeight === null) return null;
+
+    const remaining = targetWeight - latestTrend;
+    if (Math.abs(remaining) < 0.1) return today;
+    if (weeklyChange === null || Math.abs(weeklyChange) < 0.05) return null;
+
+    // Moving away from the target never gets there
+    if (Math.sign(remaining) !== Math.sign(weeklyChange)) return null;
+
+    const daysNeeded = Math.ceil(remaining / (weeklyChange / 7));
+    return daysNeeded <= MAX_PROJECTION_DAYS ? addDays(today, daysNeeded) : null;
+  }
+}
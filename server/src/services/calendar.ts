@@ -6,9 +6,19 @@ import {
   CalendarEvent,
   GamificationBadge,
 } from "../types/calendar";
+import {
+  eachDateKey,
+  fromDbDate,
+  getDateKey,
+  getDateKeyRange,
+  getTodayKey,
+  getUserTimeZone,
+  toDbDate,
+} from "../utils/dayBoundary";
+import { DailyGoalsService } from "./dailyGoal";
 
 export class CalendarService {
-  // Default nutritional goals (can be customized per user later)
+  // Used only for users who have no DailyGoal rows yet
   private static getDefaultGoals() {
     return {
       calories: 2000,
@@ -27,23 +37,35 @@ export class CalendarService {
     try {
       console.log("📅 Fetching calendar data for user:", user_id, year, month);
 
-      // Get start and end dates for the month
-      const startDate = new Date(year, month - 1, 1);
-      const endDate = new Date(year, month, 0); // Last day of the month
+      // Days of the month as the user sees them in their own time zone
+      const timeZone = await getUserTimeZone(user_id);
+      const monthPrefix = `${year}-${String(month).padStart(2, "0")}`;
+      const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      const days = eachDateKey(
+        `${monthPrefix}-01`,
+        `${monthPrefix}-${String(lastDay).padStart(2, "0")}`
+      );
+      const startDate = toDbDate(days[0]);
+      const endDate = toDbDate(days[days.length - 1]);
+      const mealRange = getDateKeyRange(
+        days[0],
+        days[days.length - 1],
+        timeZone
+      );
 
-      console.log("📊 Date range:", startDate, "to", endDate);
+      console.log("📊 Date range:", days[0], "to", days[days.length - 1]);
 
       // Fetch meals for the month
       const meals = await prisma.meal.findMany({
         where: {
           user_id: user_id,
-          created_at: {
-            gte: startDate,
-            lte: new Date(endDate.getTime() + 24 * 60 * 60 * 1000),
+          eaten_at: {
+            gte: mealRange.start,
+            lt: mealRange.end,
           },
         },
         orderBy: {
-          created_at: "asc",
+          eaten_at: "asc",
         },
       });
 
@@ -75,13 +97,18 @@ export class CalendarService {
       console.log("🍽️ Found", meals.length, "meals for the month");
       console.log("📅 Found", events.length, "events for the month");
 
-      // Get user goals (for now using defaults)
-      const goals = this.getDefaultGoals();
+      // Each day is judged against the goals the user had on that day
+      const goalsByDate = await DailyGoalsService.getGoalsInEffect(
+        user_id,
+        days[0],
+        days[days.length - 1]
+      );
+      const defaultGoals = this.getDefaultGoals();
 
       // Group meals by date
       const mealsByDate: Record<string, any[]> = {};
       meals.forEach((meal) => {
-        const dateStr = meal.created_at.toISOString().split("T")[0];
+        const dateStr = getDateKey(meal.eaten_at, timeZone);
         if (!mealsByDate[dateStr]) {
           mealsByDate[dateStr] = [];
         }
@@ -91,7 +118,7 @@ export class CalendarService {
       // Group events by date
       const eventsByDate: Record<string, any[]> = {};
       events.forEach((event) => {
-        const dateStr = event.date.toISOString().split("T")[0];
+        const dateStr = fromDbDate(event.date);
         if (!eventsByDate[dateStr]) {
           eventsByDate[dateStr] = [];
         }
@@ -101,20 +128,26 @@ export class CalendarService {
       // Group activities by date
       const activitiesByDate: Record<string, any> = {};
       activities.forEach((activity) => {
-        const dateStr = activity.date.toISOString().split("T")[0];
+        const dateStr = fromDbDate(activity.date);
         activitiesByDate[dateStr] = activity;
       });
 
       // Generate calendar data for each day of the month
       const calendarData: Record<string, DayData> = {};
-      const daysInMonth = endDate.getDate();
-
-      for (let day = 1; day <= daysInMonth; day++) {
-        const date = new Date(year, month - 1, day);
-        const dateStr = date.toISOString().split("T")[0];
+      for (const dateStr of days) {
         const dayMeals = mealsByDate[dateStr] || [];
         const dayEvents = eventsByDate[dateStr] || [];
         const dayActivity = activitiesByDate[dateStr];
+        const dayGoal = goalsByDate.get(dateStr);
+        const goals = dayGoal
+          ? {
+              calories: dayGoal.calories,
+              protein: dayGoal.protein_g,
+              carbs: dayGoal.carbs_g,
+              fat: dayGoal.fats_g,
+              water: dayGoal.water_ml,
+            }
+          : defaultGoals;
 
         // Calculate totals for the day
         const totals = dayMeals.reduce(
@@ -197,7 +230,6 @@ export class CalendarService {
         prevMonth
       );
 
-      const goals = this.getDefaultGoals();
       const currentDays = Object.values(currentMonthData);
       const prevDays = Object.values(prevMonthData);
 
@@ -210,7 +242,10 @@ export class CalendarService {
       const monthlyProgress = totalDays > 0 ? (goalDays / totalDays) * 100 : 0;
 
       // Calculate streak days
-      const streakDays = this.calculateStreakDays(currentDays);
+      const streakDays = this.calculateStreakDays(
+        currentDays,
+        getTodayKey(await getUserTimeZone(user_id))
+      );
 
       // Calculate averages
       const totalCalories = currentDays.reduce(
@@ -407,14 +442,16 @@ export class CalendarService {
     return Math.round(finalScore);
   }
 
-  private static calculateStreakDays(days: DayData[]): number {
+  private static calculateStreakDays(
+    days: DayData[],
+    todayKey: string
+  ): number {
     let streak = 0;
-    const today = new Date();
 
     // Sort days by date (most recent first)
     const sortedDays = days
-      .filter((day) => new Date(day.date) <= today) // Only count days up to today
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+      .filter((day) => day.date <= todayKey) // Only count days up to today
+      .sort((a, b) => b.date.localeCompare(a.date));
 
     for (const day of sortedDays) {
       const progress = day.calories_actual / day.calories_goal;
@@ -1,5 +1,8 @@
 import OpenAI from "openai";
 import { prisma } from "../lib/database";
+import { ChatToolService } from "./chatTools";
+import { ChatToolCall } from "../types/chatTools";
+import { getDayRange, getTodayKey, getUserTimeZone } from "../utils/dayBoundary";
 
 const openai = process.env.OPENAI_API_KEY
   ? new OpenAI({
@@ -7,6 +10,10 @@ const openai = process.env.OPENAI_API_KEY
     })
   : null;
 
+type ChatProposedActions = Awaited<
+  ReturnType<typeof ChatToolService.propose>
+>;
+
 export class ChatService {
   static async processMessage(
     userId: string,
@@ -15,30 +22,20 @@ export class ChatService {
   ): Promise<{
     response: string;
     messageId: string;
+    actions: ChatProposedActions;
   }> {
     try {
       console.log("🤖 Processing chat message:", message);
       console.log("🌐 Language:", language);
 
-      // Get user context for personalized advice
-      const userContext = await this.getUserNutritionContext(userId);
-
-      // Get recent chat history for context
-      const recentHistory = await this.getChatHistory(userId, 10);
-
-      // Create system prompt
-      const systemPrompt = this.createNutritionSystemPrompt(
-        language,
-        userContext
-      );
-
-      // Build conversation context
-      const conversationHistory = this.buildConversationHistory(
-        recentHistory,
-        message
+      const chatMessages = await this.buildChatMessages(
+        userId,
+        message,
+        language
       );
 
       let aiResponse: string;
+      let toolCalls: ChatToolCall[] = [];
 
       if (!openai || !process.env.OPENAI_API_KEY) {
         console.log("⚠️ No OpenAI API key, using fallback response");
@@ -50,17 +47,23 @@ export class ChatService {
           // Call OpenAI with improved error handling
           const response = await openai.chat.completions.create({
             model: "gpt-5",
-            messages: [
-              { role: "system", content: systemPrompt },
-              ...conversationHistory,
-            ],
+            messages: chatMessages,
+            tools: ChatToolService.definitions,
             max_tokens: 1000,
             temperature: 0.7,
           });
 
           const aiContent = response.choices[0]?.message?.content;
-
-          if (!aiContent || aiContent.trim() === "") {
+          toolCalls = (response.choices[0]?.message?.tool_calls || []).map(
+            (call) => ({
+              name: call.function.name,
+              arguments: call.function.arguments,
+            })
+          );
+
+          if (toolCalls.length > 0 && (!aiContent || aiContent.trim() === "")) {
+            aiResponse = this.getActionPrompt(language);
+          } else if (!aiContent || aiContent.trim() === "") {
             console.log("⚠️ Empty response from OpenAI, using fallback");
             aiResponse = this.getFallbackResponse(message, language);
           } else {
@@ -86,12 +89,19 @@ export class ChatService {
 
       // Save conversation to database
       const messageId = await this.saveChatMessage(userId, message, aiResponse);
+      const actions = await this.proposeActions(
+        userId,
+        messageId,
+        toolCalls,
+        language
+      );
 
       console.log("✅ Chat processing completed successfully");
 
       return {
         response: aiResponse,
         messageId: messageId,
+        actions,
       };
     } catch (error) {
       console.error("💥 Chat service error:", error);
@@ -101,10 +111,202 @@ export class ChatService {
       return {
         response: fallbackResponse,
         messageId: "",
+        actions: [],
       };
     }
   }
 
+  /**
+   * Streams the reply, passing each text delta to onDelta as it arrives.
+   * The exchange is saved once the stream ends, including when the client
+   * aborts part way through, so history matches what the user saw.
+   */
+  static async streamMessage(
+    userId: string,
+    message: string,
+    language: string = "hebrew",
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<{
+    response: string;
+    messageId: string;
+    interrupted: boolean;
+    actions: ChatProposedActions;
+  }> {
+    console.log("🤖 Streaming chat message:", message);
+
+    const chatMessages = await this.buildChatMessages(
+      userId,
+      message,
+      language
+    );
+
+    let aiResponse = "";
+    let interrupted = false;
+    // Tool call fragments arrive spread over many chunks, keyed by index
+    const toolCallParts: ChatToolCall[] = [];
+
+    if (!openai || !process.env.OPENAI_API_KEY) {
+      console.log("⚠️ No OpenAI API key, using fallback response");
+      aiResponse = this.getFallbackResponse(message, language);
+      onDelta(aiResponse);
+    } else {
+      try {
+        const stream = await openai.chat.completions.create(
+          {
+            model: "gpt-5",
+            messages: chatMessages,
+            tools: ChatToolService.definitions,
+            max_tokens: 1000,
+            temperature: 0.7,
+            stream: true,
+          },
+          { signal }
+        );
+
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) {
+            aiResponse += delta;
+            onDelta(delta);
+          }
+
+          for (const part of chunk.choices[0]?.delta?.tool_calls || []) {
+            const call = (toolCallParts[part.index] ??= {
+              name: "",
+              arguments: "",
+            });
+            call.name += part.function?.name || "";
+            call.arguments += part.function?.arguments || "";
+          }
+        }
+
+        if (toolCallParts.length > 0 && !aiResponse.trim()) {
+          aiResponse = this.getActionPrompt(language);
+          onDelta(aiResponse);
+        }
+      } catch (openaiError) {
+        if (signal?.aborted) {
+          console.log("⏹️ Chat stream cancelled by client");
+          interrupted = true;
+        } else if (aiResponse) {
+          console.error("💥 OpenAI stream broke off:", openaiError);
+          interrupted = true;
+        } else {
+          console.error("💥 OpenAI API error:", openaiError);
+          aiResponse = this.getFallbackResponse(message, language);
+          onDelta(aiResponse);
+        }
+      }
+    }
+
+    // Nothing was shown to the user, so there is nothing to keep
+    if (!aiResponse.trim()) {
+      return { response: "", messageId: "", interrupted, actions: [] };
+    }
+
+    const messageId = await this.saveChatMessage(
+      userId,
+      message,
+      aiResponse,
+      interrupted
+    );
+
+    // A cut-off stream may have left a tool call half written
+    const actions = interrupted
+      ? []
+      : await this.proposeActions(
+          userId,
+          messageId,
+          toolCallParts.filter(Boolean),
+          language
+        );
+
+    console.log(
+      interrupted
+        ? "✅ Partial chat reply saved"
+        : "✅ Chat stream completed successfully"
+    );
+
+    return { response: aiResponse, messageId, interrupted, actions };
+  }
+
+  private static async proposeActions(
+    userId: string,
+    messageId: string,
+    toolCalls: ChatToolCall[],
+    language: string
+  ): Promise<ChatProposedActions> {
+    if (toolCalls.length === 0) return [];
+
+    try {
+      return await ChatToolService.propose(
+        userId,
+        messageId ? Number(messageId) : null,
+        toolCalls,
+        language
+      );
+    } catch (error) {
+      console.error("Error proposing chat actions:", error);
+      return [];
+    }
+  }
+
+  // Shown when the model only answered with tool calls
+  private static getActionPrompt(language: string): string {
+    return language === "hebrew"
+      ? "אני יכול לעשות את זה בשבילך - אנא אשר:"
+      : "I can do this for you - please confirm:";
+  }
+
+  private static async buildChatMessages(
+    userId: string,
+    message: string,
+    language: string
+  ): Promise<OpenAI.ChatCompletionMessageParam[]> {
+    // Get user context for personalized advice
+    const userContext = await this.getUserNutritionContext(userId);
+
+    // Get recent chat history for context
+    const recentHistory = await this.getChatHistory(userId, 10);
+
+    // Menu meal ids the model needs for replace_menu_meal
+    const menuContext = await ChatToolService.getMenuContext(userId);
+
+    // Create system prompt
+    const systemPrompt =
+      this.createNutritionSystemPrompt(language, userContext) +
+      this.createToolsPrompt(language, menuContext);
+
+    // Build conversation context
+    const conversationHistory = this.buildConversationHistory(
+      recentHistory,
+      message
+    );
+
+    return [{ role: "system", content: systemPrompt }, ...conversationHistory];
+  }
+
+  private static createToolsPrompt(
+    language: string,
+    menuContext: string | null
+  ): string {
+    const instructions =
+      language === "hebrew"
+        ? `
+
+🛠️ פעולות:
+- השתמש בכלים רק כשהמשתמש מבקש במפורש לרשום או לשנות משהו (ארוחה, מים, אירוע בלוח השנה, החלפת ארוחה בתפריט)
+- המשתמש יאשר כל פעולה לפני שהיא מתבצעת, לכן אל תכתוב שהפעולה כבר בוצעה`
+        : `
+
+🛠️ Actions:
+- Only use tools when the user explicitly asks to log or change something (a meal, water, a calendar event, swapping a menu meal)
+- The user confirms every action before it runs, so never say it has already been done`;
+
+    return menuContext ? `${instructions}\n\n${menuContext}` : instructions;
+  }
+
   private static createNutritionSystemPrompt(
     language: string,
     userContext: any
@@ -199,13 +401,14 @@ For cooking questions: give suggestions for nutritional improvement of the recip
       });
 
       // Get today's intake
-      const today = new Date().toISOString().split("T")[0];
+      const timeZone = await getUserTimeZone(userId);
+      const { start, end } = getDayRange(getTodayKey(timeZone), timeZone);
       const todayMeals = await prisma.meal.findMany({
         where: {
           user_id: userId,
-          created_at: {
-            gte: new Date(today),
-            lt: new Date(new Date(today).getTime() + 24 * 60 * 60 * 1000),
+          eaten_at: {
+            gte: start,
+            lt: end,
           },
         },
       });
@@ -301,7 +504,8 @@ For cooking questions: give suggestions for nutritional improvement of the recip
   static async saveChatMessage(
     userId: string,
     userMessage: string,
-    aiResponse: string
+    aiResponse: string,
+    interrupted: boolean = false
   ): Promise<string> {
     try {
       const chatMessage = await prisma.chatMessage.create({
@@ -309,6 +513,7 @@ For cooking questions: give suggestions for nutritional improvement of the recip
           user_id: userId,
           user_message: userMessage,
           ai_response: aiResponse,
+          interrupted,
           created_at: new Date(),
         },
       });
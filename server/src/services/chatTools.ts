@@ -0,0 +1,456 @@
+import OpenAI from "openai";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  addWaterArgsSchema,
+  chatToolArgsSchemas,
+  ChatToolCall,
+  ChatToolName,
+  createCalendarEventArgsSchema,
+  logMealArgsSchema,
+  replaceMenuMealArgsSchema,
+} from "../types/chatTools";
+import { NutritionService } from "./nutrition";
+import { CalendarService } from "./calendar";
+import { RecommendedMenuService } from "./recommendedMenu";
+import { AiUsageService } from "./aiUsage";
+
+// Proposals the user never answers stop being confirmable after a day
+const ACTION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const actionSelect = {
+  action_id: true,
+  message_id: true,
+  tool: true,
+  arguments: true,
+  summary: true,
+  status: true,
+  result: true,
+  error: true,
+  created_at: true,
+  resolved_at: true,
+} satisfies Prisma.ChatActionSelect;
+
+export class ChatActionError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "ChatActionError";
+  }
+}
+
+function isChatTool(name: string): name is ChatToolName {
+  return name in chatToolArgsSchemas;
+}
+
+/**
+ * Tools the chat assistant can call to change the user's data. Tool calls
+ * are never executed directly: each one is stored as a PENDING ChatAction
+ * and only runs once the user confirms it in the app.
+ */
+export class ChatToolService {
+  static readonly definitions: OpenAI.ChatCompletionTool[] = [
+    {
+      type: "function",
+      function: {
+        name: "log_meal",
+        description:
+          "Log a meal the user says they ate. Estimate the nutrition values from the description.",
+        parameters: {
+          type: "object",
+          properties: {
+            meal_name: { type: "string" },
+            calories: { type: "number" },
+            protein_g: { type: "number" },
+            carbs_g: { type: "number" },
+            fats_g: { type: "number" },
+            fiber_g: { type: "number" },
+            sugar_g: { type: "number" },
+            ingredients: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  amount: { type: "string" },
+                },
+                required: ["name"],
+              },
+            },
+          },
+          required: ["meal_name", "calories", "protein_g", "carbs_g", "fats_g"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "add_water",
+        description:
+          "Add cups of water (250ml each) the user drank today to their water intake.",
+        parameters: {
+          type: "object",
+          properties: {
+            cups: { type: "integer", minimum: 1, maximum: 10 },
+          },
+          required: ["cups"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "create_calendar_event",
+        description: "Add an event to the user's nutrition calendar.",
+        parameters: {
+          type: "object",
+          properties: {
+            date: { type: "string", description: "YYYY-MM-DD" },
+            title: { type: "string" },
+            type: {
+              type: "string",
+              enum: ["general", "workout", "social", "health", "travel", "work"],
+            },
+            description: { type: "string" },
+          },
+          required: ["date", "title"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "replace_menu_meal",
+        description:
+          "Swap a meal in the user's recommended menu for a different one. Only use ids listed in the menu context.",
+        parameters: {
+          type: "object",
+          properties: {
+            menu_id: { type: "string" },
+            meal_id: { type: "string" },
+            reason: { type: "string" },
+            dietary_style: { type: "string" },
+          },
+          required: ["menu_id", "meal_id"],
+        },
+      },
+    },
+  ];
+
+  // Lists the meals of the user's active menu so the model can refer to
+  // them by id when it wants to swap one
+  static async getMenuContext(user_id: string): Promise<string | null> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { user_id },
+        select: { active_menu_id: true },
+      });
+
+      const menu = await prisma.recommendedMenu.findFirst({
+        where: user?.active_menu_id
+          ? { menu_id: user.active_menu_id, user_id }
+          : { user_id },
+        orderBy: { created_at: "desc" },
+        select: {
+          menu_id: true,
+          title: true,
+          meals: {
+            select: {
+              meal_id: true,
+              name: true,
+              meal_type: true,
+              day_number: true,
+            },
+            orderBy: [{ day_number: "asc" }, { meal_type: "asc" }],
+            take: 40,
+          },
+        },
+      });
+
+      if (!menu || menu.meals.length === 0) return null;
+
+      return [
+        `Menu "${menu.title}" (menu_id: ${menu.menu_id}):`,
+        ...menu.meals.map(
+          (meal) =>
+            `- day ${meal.day_number} ${meal.meal_type}: ${meal.name} (meal_id: ${meal.meal_id})`
+        ),
+      ].join("\n");
+    } catch (error) {
+      console.error("Error getting menu context:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Validates the model's tool calls and stores them as pending actions.
+   * Calls with unknown tools or invalid arguments are dropped.
+   */
+  static async propose(
+    user_id: string,
+    message_id: number | null,
+    toolCalls: ChatToolCall[],
+    language: string
+  ) {
+    const actions = [];
+
+    for (const call of toolCalls) {
+      if (!isChatTool(call.name)) {
+        console.warn("⚠️ Model called unknown chat tool:", call.name);
+        continue;
+      }
+
+      let rawArgs: unknown;
+      try {
+        rawArgs = JSON.parse(call.arguments || "{}");
+      } catch {
+        console.warn("⚠️ Invalid JSON arguments for chat tool:", call.name);
+        continue;
+      }
+
+      const parsed = chatToolArgsSchemas[call.name].safeParse(rawArgs);
+      if (!parsed.success) {
+        console.warn(
+          `⚠️ Invalid arguments for chat tool ${call.name}:`,
+          parsed.error.errors
+        );
+        continue;
+      }
+
+      const summary = await this.describe(
+        user_id,
+        call.name,
+        parsed.data,
+        language
+      );
+      if (!summary) continue;
+
+      actions.push(
+        await prisma.chatAction.create({
+          data: {
+            user_id,
+            message_id,
+            tool: call.name,
+            arguments: parsed.data,
+            summary,
+          },
+          select: actionSelect,
+        })
+      );
+    }
+
+    console.log(`🛠️ Proposed ${actions.length} chat action(s)`);
+    return actions;
+  }
+
+  // A one-line description of the action for the confirmation prompt.
+  // Returns null when the action refers to something the user doesn't own.
+  private static async describe(
+    user_id: string,
+    tool: ChatToolName,
+    args: unknown,
+    language: string
+  ): Promise<string | null> {
+    const isHebrew = language === "hebrew";
+
+    switch (tool) {
+      case "log_meal": {
+        const meal = logMealArgsSchema.parse(args);
+        const calories = Math.round(meal.calories);
+        return isHebrew
+          ? `לרשום ארוחה: ${meal.meal_name} (${calories} קלוריות)`
+          : `Log meal: ${meal.meal_name} (${calories} kcal)`;
+      }
+      case "add_water": {
+        const { cups } = addWaterArgsSchema.parse(args);
+        return isHebrew
+          ? `להוסיף ${cups} כוסות מים להיום`
+          : `Add ${cups} cup${cups === 1 ? "" : "s"} of water to today`;
+      }
+      case "create_calendar_event": {
+        const event = createCalendarEventArgsSchema.parse(args);
+        return isHebrew
+          ? `להוסיף ללוח השנה: ${event.title} (${event.date})`
+          : `Add "${event.title}" to your calendar on ${event.date}`;
+      }
+      case "replace_menu_meal": {
+        const { menu_id, meal_id } = replaceMenuMealArgsSchema.parse(args);
+        const meal = await prisma.recommendedMeal.findFirst({
+          where: { meal_id, menu: { menu_id, user_id } },
+          select: { name: true },
+        });
+        if (!meal) {
+          console.warn("⚠️ Model referenced a meal outside the user's menu");
+          return null;
+        }
+        return isHebrew
+          ? `להחליף את "${meal.name}" בתפריט`
+          : `Swap "${meal.name}" in your menu`;
+      }
+    }
+  }
+
+  private static async getAction(user_id: string, action_id: string) {
+    const action = await prisma.chatAction.findFirst({
+      where: { action_id, user_id },
+      select: actionSelect,
+    });
+    if (!action) throw new ChatActionError("Action not found", 404);
+    return action;
+  }
+
+  static async confirm(user_id: string, action_id: string) {
+    const action = await this.getAction(user_id, action_id);
+
+    if (action.status !== "PENDING") {
+      throw new ChatActionError(
+        `Action was already ${action.status.toLowerCase()}`,
+        409
+      );
+    }
+
+    if (Date.now() - action.created_at.getTime() > ACTION_TTL_MS) {
+      await prisma.chatAction.update({
+        where: { action_id },
+        data: { status: "EXPIRED", resolved_at: new Date() },
+      });
+      throw new ChatActionError("This suggestion has expired", 410);
+    }
+
+    // Claim the action first so a double tap can't run it twice
+    const { count } = await prisma.chatAction.updateMany({
+      where: { action_id, status: "PENDING" },
+      data: { status: "CONFIRMED", resolved_at: new Date() },
+    });
+    if (count === 0) {
+      throw new ChatActionError("Action is already being processed", 409);
+    }
+
+    try {
+      const result = await this.execute(
+        user_id,
+        action.tool as ChatToolName,
+        action.arguments
+      );
+
+      console.log(`✅ Chat action ${action.tool} executed:`, action_id);
+      return prisma.chatAction.update({
+        where: { action_id },
+        data: { result: result as Prisma.InputJsonValue },
+        select: actionSelect,
+      });
+    } catch (error) {
+      if (error instanceof ChatActionError && error.statusCode === 429) {
+        // Out of AI quota; leave the action answerable for later
+        await prisma.chatAction.update({
+          where: { action_id },
+          data: { status: "PENDING", resolved_at: null },
+        });
+        throw error;
+      }
+
+      console.error(`💥 Chat action ${action.tool} failed:`, error);
+      await prisma.chatAction.update({
+        where: { action_id },
+        data: {
+          status: "FAILED",
+          error: error instanceof Error ? error.message : "Action failed",
+        },
+      });
+      throw new ChatActionError("Failed to complete the action", 500);
+    }
+  }
+
+  static async reject(user_id: string, action_id: string) {
+    const action = await this.getAction(user_id, action_id);
+
+    const { count } = await prisma.chatAction.updateMany({
+      where: { action_id, status: "PENDING" },
+      data: { status: "REJECTED", resolved_at: new Date() },
+    });
+    if (count === 0) {
+      throw new ChatActionError(
+        `Action was already ${action.status.toLowerCase()}`,
+        409
+      );
+    }
+
+    return this.getAction(user_id, action_id);
+  }
+
+  private static async execute(
+    user_id: string,
+    tool: ChatToolName,
+    args: unknown
+  ) {
+    switch (tool) {
+      case "log_meal": {
+        const meal = logMealArgsSchema.parse(args);
+        const saved = await NutritionService.saveMeal(user_id, {
+          ...meal,
+          // Estimated from a text description, not an analyzed photo
+          confidence: 60,
+        });
+        return {
+          meal_id: saved.meal_id,
+          meal_name: saved.meal_name,
+          calories: saved.calories,
+        };
+      }
+      case "add_water": {
+        const { cups } = addWaterArgsSchema.parse(args);
+        const record = await NutritionService.addWaterCups(user_id, cups);
+        return {
+          cups_consumed: record.cups_consumed,
+          milliliters_consumed: record.milliliters_consumed,
+        };
+      }
+      case "create_calendar_event": {
+        const event = createCalendarEventArgsSchema.parse(args);
+        const created = await CalendarService.addEvent(
+          user_id,
+          event.date,
+          event.title,
+          event.type,
+          event.description
+        );
+        return {
+          event_id: created.event_id,
+          date: created.date,
+          title: created.title,
+        };
+      }
+      case "replace_menu_meal": {
+        const { menu_id, meal_id, reason, dietary_style } =
+          replaceMenuMealArgsSchema.parse(args);
+
+        // Swapping a meal is an AI request of its own
+        const reservation = await AiUsageService.reserve(
+          user_id,
+          "MEAL_REPLACEMENT",
+          "chat action replace_menu_meal"
+        );
+        if (!reservation.allowed) {
+          throw new ChatActionError("Daily AI request limit reached", 429);
+        }
+
+        try {
+          const meal = await RecommendedMenuService.replaceMeal(
+            user_id,
+            menu_id,
+            meal_id,
+            { reason, dietary_style }
+          );
+          await AiUsageService.complete(reservation.usageId);
+          return {
+            meal_id: meal.meal_id,
+            name: meal.name,
+            calories: meal.calories,
+          };
+        } catch (error) {
+          await AiUsageService.refund(reservation.usageId);
+          throw error;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,543 @@
+import { CheckInPeriod, DailyCheckIn, MealTiming } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { CheckInInput, CheckInUpdate } from "../types/checkIns";
+import {
+  addDays,
+  fromDbDate,
+  getDateKey,
+  getDateKeyRange,
+  getLocalHour,
+  getLocalTime,
+  getTodayKey,
+  getUserTimeZone,
+  toDbDate,
+} from "../utils/dayBoundary";
+import { correlation, correlationPValue } from "../utils/trend";
+
+// Parts of the day in order, with the local hour each starts at and the
+// hour a back-dated check-in is placed at
+const PERIODS: Array<{ period: CheckInPeriod; from: number; typical: number }> =
+  [
+    { period: CheckInPeriod.MORNING, from: 0, typical: 9 },
+    { period: CheckInPeriod.AFTERNOON, from: 12, typical: 15 },
+    { period: CheckInPeriod.EVENING, from: 18, typical: 20 },
+  ];
+
+// Fewer paired days than this say more about chance than about the user
+const MIN_PAIRED_DAYS = 14;
+// Share of the reported links allowed to be chance, across every outcome
+// and factor pair tested (Benjamini-Hochberg)
+const FALSE_DISCOVERY_RATE = 0.1;
+const MIN_COMPARISON_DAYS = 3;
+
+const HIGH_PROTEIN_BREAKFAST_G = 25;
+const BREAKFAST_BEFORE_HOUR = 11;
+
+// A day counts as happy or high-energy at this average rating, and as
+// satisfied when average hunger is at or below SATISFIED_MAX_HUNGER
+const GOOD_RATING = 4;
+const SATISFIED_MAX_HUNGER = 2;
+
+export interface DayRatings {
+  mood: number;
+  energy: number;
+  hunger: number;
+  afternoon_energy?: number;
+  digestion?: number;
+  sleep_quality?: number;
+}
+
+export interface DayFactors {
+  calories?: number;
+  protein_g?: number;
+  carbs_g?: number;
+  fats_g?: number;
+  fiber_g?: number;
+  sugar_g?: number;
+  meal_count?: number;
+  breakfast_protein_g?: number;
+  first_meal_hour?: number;
+  last_meal_hour?: number;
+  steps?: number;
+  active_minutes?: number;
+  sleep_hours?: number;
+}
+
+type Outcome = keyof DayRatings;
+type Factor = keyof DayFactors;
+type RatingField = "mood" | "energy" | "hunger" | "digestion" | "sleep_quality";
+type ReadingSource = "last" | "afternoon";
+
+const FACTOR_LABELS: Record<Factor, string> = {
+  calories: "Calories",
+  protein_g: "Protein",
+  carbs_g: "Carbs",
+  fats_g: "Fat",
+  fiber_g: "Fiber",
+  sugar_g: "Sugar",
+  meal_count: "Meals logged",
+  breakfast_protein_g: "Breakfast protein",
+  first_meal_hour: "First meal time",
+  last_meal_hour: "Last meal time",
+  steps: "Steps",
+  active_minutes: "Active minutes",
+  sleep_hours: "Hours slept",
+};
+
+// Same-day outcomes are read from one check-in - the day's last, or the
+// afternoon one - and set against what was eaten before it. Sleep quality
+// is rated in the morning, about the night before, so it is set against
+// the whole previous day's meals and activity
+const OUTCOMES: Record<
+  Outcome,
+  { label: string; field: RatingField; from: ReadingSource | "previous_day" }
+> = {
+  mood: { label: "Mood", field: "mood", from: "last" },
+  energy: { label: "Energy", field: "energy", from: "last" },
+  afternoon_energy: {
+    label: "Afternoon energy",
+    field: "energy",
+    from: "afternoon",
+  },
+  hunger: { label: "Hunger", field: "hunger", from: "last" },
+  digestion: { label: "Digestion", field: "digestion", from: "last" },
+  sleep_quality: {
+    label: "Sleep quality",
+    field: "sleep_quality",
+    from: "previous_day",
+  },
+};
+
+export class CheckInError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "CheckInError";
+  }
+}
+
+function serialize(checkIn: DailyCheckIn) {
+  return { ...checkIn, date: fromDbDate(checkIn.date) };
+}
+
+function average(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round(value: number, places: number = 1): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+// Benjamini-Hochberg: the largest set, smallest p-values first, in which
+// no more than FALSE_DISCOVERY_RATE of the links are expected to be chance
+function discoveries<T extends { p: number }>(tests: T[]): T[] {
+  const sorted = [...tests].sort((a, b) => a.p - b.p);
+  let kept = 0;
+  sorted.forEach((test, index) => {
+    if (test.p <= ((index + 1) / sorted.length) * FALSE_DISCOVERY_RATE) {
+      kept = index + 1;
+    }
+  });
+  return sorted.slice(0, kept);
+}
+
+function describeStrength(r: number): "weak" | "moderate" | "strong" {
+  const size = Math.abs(r);
+  if (size >= 0.5) return "strong";
+  if (size >= 0.3) return "moderate";
+  return "weak";
+}
+
+/** The part of the day the user's wall clock shows at this instant. */
+export function periodAt(instant: Date, timeZone: string): CheckInPeriod {
+  const hour = getLocalHour(instant, timeZone);
+  return [...PERIODS].reverse().find((p) => hour >= p.from)!.period;
+}
+
+export class CheckInService {
+  static async getCheckIns(userId: string, fromKey?: string, toKey?: string) {
+    const checkIns = await prisma.dailyCheckIn.findMany({
+      where: {
+        user_id: userId,
+        date: {
+          ...(fromKey && { gte: toDbDate(fromKey) }),
+          ...(toKey && { lte: toDbDate(toKey) }),
+        },
+      },
+      orderBy: [{ date: "desc" }, { checked_in_at: "desc" }],
+    });
+
+    return checkIns.map(serialize);
+  }
+
+  /**
+   * Saves how the user feels now, or for an earlier part of the day or an
+   * earlier day. Checking in again for the same part of the day replaces
+   * the earlier ratings.
+   */
+  static async recordCheckIn(userId: string, input: CheckInInput) {
+    const timeZone = await getUserTimeZone(userId);
+    const now = new Date();
+    const today = getTodayKey(timeZone, now);
+    const { date: dateKey = today, period: requested, ...ratings } = input;
+
+    if (dateKey > today) {
+      throw new CheckInError("Check-ins can't be logged for future days");
+    }
+    if (!requested && dateKey !== today) {
+      throw new CheckInError("Choose which part of that day to check in for");
+    }
+
+    const current = periodAt(now, timeZone);
+    const period = requested ?? current;
+    const order = (p: CheckInPeriod) => PERIODS.findIndex((e) => e.period === p);
+    if (dateKey === today && order(period) > order(current)) {
+      throw new CheckInError("That part of the day hasn't started yet");
+    }
+
+    const checkedInAt =
+      dateKey === today && period === current
+        ? now
+        : getLocalTime(
+            dateKey,
+            PERIODS[order(period)].typical,
+            timeZone
+          );
+
+    const date = toDbDate(dateKey);
+    const checkIn = await prisma.dailyCheckIn.upsert({
+      where: { user_id_date_period: { user_id: userId, date, period } },
+      update: { ...ratings, checked_in_at: checkedInAt },
+      create: {
+        user_id: userId,
+        date,
+        period,
+        checked_in_at: checkedInAt,
+        ...ratings,
+      },
+    });
+
+    console.log(`🙂 Check-in saved for ${dateKey} ${period.toLowerCase()}`);
+    return serialize(checkIn);
+  }
+
+  static async updateCheckIn(
+    userId: string,
+    checkInId: string,
+    input: CheckInUpdate
+  ) {
+    const { count } = await prisma.dailyCheckIn.updateMany({
+      where: { checkin_id: checkInId, user_id: userId },
+      data: input,
+    });
+    if (count === 0) throw new CheckInError("Check-in not found", 404);
+
+    const checkIn = await prisma.dailyCheckIn.findUniqueOrThrow({
+      where: { checkin_id: checkInId },
+    });
+    return serialize(checkIn);
+  }
+
+  static async deleteCheckIn(userId: string, checkInId: string) {
+    const { count } = await prisma.dailyCheckIn.deleteMany({
+      where: { checkin_id: checkInId, user_id: userId },
+    });
+    if (count === 0) throw new CheckInError("Check-in not found", 404);
+  }
+
+  /**
+   * Each checked-in day's ratings, averaged over its check-ins. Sleep
+   * quality comes from the morning check-in when there is one.
+   */
+  static async getDailyRatings(
+    userId: string,
+    fromKey: string,
+    toKey: string
+  ): Promise<Map<string, DayRatings>> {
+    const checkIns = await prisma.dailyCheckIn.findMany({
+      where: {
+        user_id: userId,
+        date: { gte: toDbDate(fromKey), lte: toDbDate(toKey) },
+      },
+    });
+
+    const byDay = new Map<string, DailyCheckIn[]>();
+    checkIns.forEach((checkIn) => {
+      const date = fromDbDate(checkIn.date);
+      byDay.set(date, [...(byDay.get(date) || []), checkIn]);
+    });
+
+    const ratings = new Map<string, DayRatings>();
+    byDay.forEach((day, date) => {
+      const ratingsOf = (field: "digestion" | "sleep_quality") =>
+        day.map((c) => c[field]).filter((v): v is number => v !== null);
+      const morningSleep = day.find(
+        (c) => c.period === CheckInPeriod.MORNING && c.sleep_quality !== null
+      )?.sleep_quality;
+
+      ratings.set(date, {
+        mood: average(day.map((c) => c.mood))!,
+        energy: average(day.map((c) => c.energy))!,
+        hunger: average(day.map((c) => c.hunger))!,
+        afternoon_energy: day.find(
+          (c) => c.period === CheckInPeriod.AFTERNOON
+        )?.energy,
+        digestion: average(ratingsOf("digestion")),
+        sleep_quality: morningSleep ?? average(ratingsOf("sleep_quality")),
+      });
+    });
+
+    return ratings;
+  }
+
+  // Happy, high-energy and satisfied days among the checked-in days
+  static summarizeRatings(ratings: Map<string, DayRatings>) {
+    const days = [...ratings.values()];
+    return {
+      checkInDays: days.length,
+      happyDays: days.filter((d) => d.mood >= GOOD_RATING).length,
+      highEnergyDays: days.filter((d) => d.energy >= GOOD_RATING).length,
+      satisfiedDays: days.filter((d) => d.hunger <= SATISFIED_MAX_HUNGER)
+        .length,
+    };
+  }
+
+  /**
+   * What each day looked like going in: macros and meal timing from logged
+   * meals, activity and sleep from connected devices. Days without meals
+   * leave the meal factors out rather than counting them as zero. With
+   * `cutoffs`, a day only counts the meals eaten before its cutoff.
+   */
+  static async getDailyFactors(
+    userId: string,
+    fromKey: string,
+    toKey: string,
+    timeZone: string,
+    cutoffs?: Map<string, Date>
+  ): Promise<Map<string, DayFactors>> {
+    const range = getDateKeyRange(fromKey, toKey, timeZone);
+    const [meals, activity] = await Promise.all([
+      prisma.meal.findMany({
+        where: {
+          user_id: userId,
+          eaten_at: { gte: range.start, lt: range.end },
+        },
+        select: {
+          eaten_at: true,
+          meal_type: true,
+          calories: true,
+          protein_g: true,
+          carbs_g: true,
+          fats_g: true,
+          fiber_g: true,
+          sugar_g: true,
+        },
+      }),
+      prisma.dailyActivitySummary.findMany({
+        where: {
+          user_id: userId,
+          date: { gte: toDbDate(fromKey), lte: toDbDate(toKey) },
+        },
+        select: {
+          date: true,
+          steps: true,
+          active_minutes: true,
+          sleep_hours: true,
+        },
+      }),
+    ]);
+
+    const factors = new Map<string, DayFactors>();
+    const dayOf = (date: string) => {
+      if (!factors.has(date)) factors.set(date, {});
+      return factors.get(date)!;
+    };
+
+    meals.forEach((meal) => {
+      const date = getDateKey(meal.eaten_at, timeZone);
+      const cutoff = cutoffs?.get(date);
+      if (cutoff && meal.eaten_at >= cutoff) return;
+
+      const day = dayOf(date);
+      const hour = getLocalHour(meal.eaten_at, timeZone);
+      const isBreakfast = meal.meal_type
+        ? meal.meal_type === MealTiming.BREAKFAST
+        : hour < BREAKFAST_BEFORE_HOUR;
+
+      day.calories = (day.calories || 0) + (meal.calories || 0);
+      day.protein_g = (day.protein_g || 0) + (meal.protein_g || 0);
+      day.carbs_g = (day.carbs_g || 0) + (meal.carbs_g || 0);
+      day.fats_g = (day.fats_g || 0) + (meal.fats_g || 0);
+      day.fiber_g = (day.fiber_g || 0) + (meal.fiber_g || 0);
+      day.sugar_g = (day.sugar_g || 0) + (meal.sugar_g || 0);
+      day.meal_count = (day.meal_count || 0) + 1;
+      day.breakfast_protein_g =
+        (day.breakfast_protein_g || 0) +
+        (isBreakfast ? meal.protein_g || 0 : 0);
+      day.first_meal_hour = Math.min(day.first_meal_hour ?? hour, hour);
+      day.last_meal_hour = Math.max(day.last_meal_hour ?? hour, hour);
+    });
+
+    // Several devices can report the same day; take the fullest reading
+    activity.forEach((summary) => {
+      const day = dayOf(fromDbDate(summary.date));
+      if (summary.steps) day.steps = Math.max(day.steps || 0, summary.steps);
+      if (summary.active_minutes) {
+        day.active_minutes = Math.max(
+          day.active_minutes || 0,
+          summary.active_minutes
+        );
+      }
+      if (summary.sleep_hours) {
+        day.sleep_hours = Math.max(day.sleep_hours || 0, summary.sleep_hours);
+      }
+    });
+
+    return factors;
+  }
+
+  /**
+   * How the user's check-ins move with what they ate, when they ate and how
+   * active they were over the last `days` days, strongest links first, plus
+   * a direct comparison of afternoon energy after high- and low-protein
+   * breakfasts. Only links unlikely to be chance among all the pairs tested
+   * are reported. Correlation only; it doesn't show what caused what.
+   */
+  static async getWellbeingInsights(userId: string, days: number) {
+    const timeZone = await getUserTimeZone(userId);
+    const endKey = getTodayKey(timeZone);
+    const startKey = addDays(endKey, -(days - 1));
+
+    const [ratings, checkIns] = await Promise.all([
+      this.getDailyRatings(userId, startKey, endKey),
+      prisma.dailyCheckIn.findMany({
+        where: {
+          user_id: userId,
+          date: { gte: toDbDate(startKey), lte: toDbDate(endKey) },
+        },
+        orderBy: { checked_in_at: "asc" },
+      }),
+    ]);
+
+    const readFrom: Record<ReadingSource, Map<string, DailyCheckIn>> = {
+      last: new Map(),
+      afternoon: new Map(),
+    };
+    checkIns.forEach((checkIn) => {
+      const date = fromDbDate(checkIn.date);
+      readFrom.last.set(date, checkIn);
+      if (checkIn.period === CheckInPeriod.AFTERNOON) {
+        readFrom.afternoon.set(date, checkIn);
+      }
+    });
+    const cutoffs = (source: Map<string, DailyCheckIn>) =>
+      new Map([...source].map(([date, c]) => [date, c.checked_in_at]));
+
+    const [wholeDays, beforeLast, beforeAfternoon] = await Promise.all([
+      this.getDailyFactors(userId, addDays(startKey, -1), endKey, timeZone),
+      this.getDailyFactors(
+        userId,
+        startKey,
+        endKey,
+        timeZone,
+        cutoffs(readFrom.last)
+      ),
+      this.getDailyFactors(
+        userId,
+        startKey,
+        endKey,
+        timeZone,
+        cutoffs(readFrom.afternoon)
+      ),
+    ]);
+    const factorsFrom = { last: beforeLast, afternoon: beforeAfternoon };
+
+    const tests = [];
+    for (const [outcome, { label, field, from }] of Object.entries(
+      OUTCOMES
+    ) as [Outcome, (typeof OUTCOMES)[Outcome]][]) {
+      for (const factor of Object.keys(FACTOR_LABELS) as Factor[]) {
+        const points = [];
+        for (const date of ratings.keys()) {
+          const y =
+            from === "previous_day"
+              ? ratings.get(date)![outcome]
+              : readFrom[from].get(date)?.[field] ?? undefined;
+          const x =
+            from === "previous_day"
+              ? wholeDays.get(addDays(date, -1))?.[factor]
+              : factorsFrom[from].get(date)?.[factor];
+          if (y !== undefined && x !== undefined) points.push({ x, y });
+        }
+        if (points.length < MIN_PAIRED_DAYS) continue;
+
+        const r = correlation(points);
+        if (r === null) continue;
+        tests.push({
+          outcome,
+          outcome_label: label,
+          factor,
+          factor_label: FACTOR_LABELS[factor],
+          r,
+          p: correlationPValue(r, points.length),
+          days: points.length,
+          previous_day: from === "previous_day",
+        });
+      }
+    }
+
+    const correlations = discoveries(tests)
+      .sort((a, b) => Math.abs(b.r) - Math.abs(a.r))
+      .map(({ r, p, ...test }) => ({
+        ...test,
+        r: round(r, 2),
+        p_value: round(p, 4),
+        strength: describeStrength(r),
+      }));
+
+    return {
+      start_date: startKey,
+      end_date: endKey,
+      check_in_days: ratings.size,
+      ...this.summarizeRatings(ratings),
+      correlations,
+      high_protein_breakfast: this.compareBreakfasts(
+        ratings,
+        beforeAfternoon
+      ),
+    };
+  }
+
+  private static compareBreakfasts(
+    ratings: Map<string, DayRatings>,
+    factors: Map<string, DayFactors>
+  ) {
+    const high: number[] = [];
+    const lower: number[] = [];
+    ratings.forEach((day, date) => {
+      const protein = factors.get(date)?.breakfast_protein_g;
+      if (day.afternoon_energy === undefined || protein === undefined) return;
+      (protein >= HIGH_PROTEIN_BREAKFAST_G ? high : lower).push(
+        day.afternoon_energy
+      );
+    });
+
+    const group = (values: number[]) => {
+      const mean = average(values);
+      return {
+        days: values.length,
+        average_afternoon_energy: mean === undefined ? null : round(mean),
+      };
+    };
+    const enough =
+      high.length >= MIN_COMPARISON_DAYS && lower.length >= MIN_COMPARISON_DAYS;
+
+    return {
+      threshold_g: HIGH_PROTEIN_BREAKFAST_G,
+      high_protein: group(high),
+      lower_protein: group(lower),
+      difference: enough ? round(average(high)! - average(lower)!) : null,
+    };
+  }
+}
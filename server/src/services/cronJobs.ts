@@ -1,5 +1,9 @@
 import cron from "node-cron";
 import { prisma } from "../lib/database";
+import { WearableSyncService } from "./wearableSync";
+import { BillingService } from "./billing";
+import { GoalTargetService } from "./goalTargets";
+import { getTodayKey, resolveTimeZone, toDbDate } from "../utils/dayBoundary";
 
 export class CronJobService {
   static initializeCronJobs() {
@@ -9,6 +13,63 @@ export class CronJobService {
       await this.resetDailyBadges();
     });
 
+    // Days start at a different hour in each user's time zone, so look for
+    // users whose new day has no goals row yet every hour
+    cron.schedule("5 * * * *", async () => {
+      await this.createDailyGoalsForAllUsers();
+    });
+
+    // Pull wearable data hourly; each device is only synced once its own
+    // sync_frequency_hours has elapsed
+    let wearableSyncRunning = false;
+    cron.schedule("15 * * * *", async () => {
+      if (wearableSyncRunning) {
+        console.log("⏭️ Previous wearable sync still running, skipping");
+        return;
+      }
+
+      wearableSyncRunning = true;
+      try {
+        const { due, synced, failed } =
+          await WearableSyncService.syncDueDevices();
+        console.log(
+          `⌚ Wearable sync finished: ${synced}/${due} synced, ${failed} failed`
+        );
+      } catch (error) {
+        console.error("❌ Error running wearable sync:", error);
+      } finally {
+        wearableSyncRunning = false;
+      }
+    });
+
+    // Renew subscriptions whose period has ended and downgrade lapsed ones
+    let renewalsRunning = false;
+    cron.schedule("30 * * * *", async () => {
+      if (renewalsRunning) {
+        console.log("⏭️ Previous subscription renewal run still going, skipping");
+        return;
+      }
+
+      renewalsRunning = true;
+      try {
+        const { charged, downgraded, failed } =
+          await BillingService.processRenewals();
+        console.log(
+          `💳 Subscription renewals: ${charged} charged, ${downgraded} downgraded, ${failed} failed`
+        );
+      } catch (error) {
+        console.error("❌ Error processing subscription renewals:", error);
+      } finally {
+        renewalsRunning = false;
+      }
+    });
+
+    // Re-estimate energy needs from the past weeks' logs and weigh-ins and
+    // adapt each user's calorie and macro targets
+    cron.schedule("0 3 * * 1", async () => {
+      await GoalTargetService.reviewTargetsForAllUsers();
+    });
+
     console.log("📅 Cron jobs initialized");
   }
 
@@ -34,51 +95,38 @@ export class CronJobService {
 
   static async createDailyGoalsForAllUsers() {
     try {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      // Get all users who don't have today's daily goal
-      const usersWithoutTodayGoal = await prisma.user.findMany({
-        where: {
+      // "Today" differs per user, so check each user's latest goal date
+      // against their own local day
+      const users = await prisma.user.findMany({
+        select: {
+          user_id: true,
+          timezone: true,
           dailyGoals: {
-            none: {
-              date: today,
-            },
-          },
-        },
-        include: {
-          questionnaires: {
-            orderBy: { date_completed: "desc" },
+            orderBy: { date: "desc" },
             take: 1,
+            select: { date: true },
           },
         },
       });
 
+      const usersWithoutTodayGoal = users
+        .map((user) => ({
+          ...user,
+          today: getTodayKey(resolveTimeZone(user.timezone)),
+        }))
+        .filter((user) => {
+          const latest = user.dailyGoals[0]?.date;
+          return !latest || latest < toDbDate(user.today);
+        });
+
       console.log(
         `📊 Creating daily goals for ${usersWithoutTodayGoal.length} users`
       );
 
+      // Yesterday's targets carry forward; they only change through the
+      // questionnaire or the weekly review
       for (const user of usersWithoutTodayGoal) {
-        const questionnaire = user.questionnaires[0];
-        const defaultCalories = this.calculateDailyCalories(
-          questionnaire,
-          user
-        );
-
-        await prisma.dailyGoal.create({
-          data: {
-            user_id: user.user_id,
-            date: today,
-            calories: defaultCalories,
-            protein_g: (defaultCalories * 0.25) / 4,
-            carbs_g: (defaultCalories * 0.45) / 4,
-            fats_g: (defaultCalories * 0.3) / 9,
-            fiber_g: 25,
-            sodium_mg: 2300,
-            sugar_g: 50,
-            water_ml: 2500,
-          },
-        });
+        await GoalTargetService.ensureTargets(user.user_id, user.today);
       }
 
       console.log("✅ Daily goals created for all users");
@@ -86,41 +134,4 @@ export class CronJobService {
       console.error("❌ Error creating daily goals:", error);
     }
   }
-
-  private static calculateDailyCalories(questionnaire: any, user: any): number {
-    if (!questionnaire) return 2000;
-
-    const weight = questionnaire.weight_kg || 70;
-    const height = questionnaire.height_cm || 170;
-    const age = questionnaire.age || 30;
-    const gender = questionnaire.gender || "male";
-
-    let bmr;
-    if (gender.toLowerCase() === "male") {
-      bmr = 10 * weight + 6.25 * height - 5 * age + 5;
-    } else {
-      bmr = 10 * weight + 6.25 * height - 5 * age - 161;
-    }
-
-    const activityMultipliers = {
-      NONE: 1.2,
-      LIGHT: 1.375,
-      MODERATE: 1.55,
-      HIGH: 1.725,
-    };
-
-    const activityLevel = questionnaire.physical_activity_level || "LIGHT";
-    const multiplier = activityMultipliers[activityLevel] || 1.375;
-
-    let tdee = bmr * multiplier;
-
-    const mainGoal = questionnaire.main_goal;
-    if (mainGoal === "WEIGHT_LOSS") {
-      tdee -= 500;
-    } else if (mainGoal === "WEIGHT_GAIN") {
-      tdee += 500;
-    }
-
-    return Math.round(Math.max(1200, Math.min(4000, tdee)));
-  }
 }
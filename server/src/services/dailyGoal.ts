@@ -1,44 +1,17 @@
+import { DailyGoal } from "@prisma/client";
 import { prisma } from "../lib/database";
+import { eachDateKey, fromDbDate, toDbDate } from "../utils/dayBoundary";
+import { GoalTargetService } from "./goalTargets";
 
 export class DailyGoalsService {
+  // Recalculates targets from the latest questionnaire
   static async createOrUpdateDailyGoals(userId: string) {
     try {
       console.log(`📊 Creating/updating daily goals for user: ${userId}`);
 
-      // Get user questionnaire data
-      const questionnaire = await prisma.userQuestionnaire.findFirst({
-        where: { user_id: userId },
-        orderBy: { date_completed: "desc" },
-      });
-
-      if (!questionnaire) {
-        console.log("No questionnaire found, using default goals");
-      }
-
-      // Calculate daily goals based on questionnaire
-      const dailyGoals = this.calculateDailyGoals(questionnaire);
-
-      // Check if daily goals already exist
-      const existingGoals = await prisma.dailyGoal.findFirst({
-        where: { user_id: userId },
-      });
-
-      let savedGoals;
-      if (existingGoals) {
-        // Update existing goals
-        savedGoals = await prisma.dailyGoal.update({
-          where: { id: existingGoals.id },
-          data: dailyGoals,
-        });
-      } else {
-        // Create new goals
-        savedGoals = await prisma.dailyGoal.create({
-          data: {
-            user_id: userId,
-            ...dailyGoals,
-          },
-        });
-      }
+      const savedGoals = await GoalTargetService.applyQuestionnaireTargets(
+        userId
+      );
 
       console.log("✅ Daily goals saved successfully");
       return savedGoals;
@@ -48,87 +21,55 @@ export class DailyGoalsService {
     }
   }
 
-  private static calculateDailyGoals(questionnaire: any) {
-    // Default values
-    let baseCalories = 2000;
-    let baseProtein = 120;
-    let baseCarbs = 250;
-    let baseFats = 70;
-    let baseWaterMl = 2500;
-
-    if (questionnaire) {
-      // Calculate BMR using Harris-Benedict equation
-      const weight = questionnaire.weight_kg || 70;
-      const height = questionnaire.height_cm || 170;
-      const age = questionnaire.age || 25;
-      const gender = questionnaire.gender || "MALE";
-
-      let bmr;
-      if (gender === "MALE") {
-        bmr = 88.362 + 13.397 * weight + 4.799 * height - 5.677 * age;
-      } else {
-        bmr = 447.593 + 9.247 * weight + 3.098 * height - 4.33 * age;
-      }
-
-      // Apply activity level multiplier
-      const activityMultipliers = {
-        NONE: 1.2,
-        LIGHT: 1.375,
-        MODERATE: 1.55,
-        HIGH: 1.725,
-      };
-
-      const activityLevel = questionnaire.physical_activity_level || "MODERATE";
-      const tdee = bmr * (activityMultipliers[activityLevel] || 1.55);
-
-      // Adjust based on goal
-      switch (questionnaire.main_goal) {
-        case "WEIGHT_LOSS":
-          baseCalories = Math.round(tdee - 500); // 500 calorie deficit
-          break;
-        case "WEIGHT_GAIN":
-          baseCalories = Math.round(tdee + 300); // 300 calorie surplus
-          break;
-        case "WEIGHT_MAINTENANCE":
-        default:
-          baseCalories = Math.round(tdee);
-          break;
+  /**
+   * The goal row in effect on each day from fromKey to toKey. A row applies
+   * from its date until the next row, so past days keep the targets the
+   * user had then even after the questionnaire changes them. Days before
+   * the user's first row use that first row; null only if there are none.
+   */
+  static async getGoalsInEffect(
+    userId: string,
+    fromKey: string,
+    toKey: string
+  ): Promise<Map<string, DailyGoal | null>> {
+    const [inRange, previous] = await Promise.all([
+      prisma.dailyGoal.findMany({
+        where: {
+          user_id: userId,
+          date: { gte: toDbDate(fromKey), lte: toDbDate(toKey) },
+        },
+        orderBy: { date: "asc" },
+      }),
+      prisma.dailyGoal.findFirst({
+        where: { user_id: userId, date: { lt: toDbDate(fromKey) } },
+        orderBy: { date: "desc" },
+      }),
+    ]);
+
+    // With no earlier row, fall back to the first row that exists at all
+    let current =
+      previous ??
+      inRange[0] ??
+      (await prisma.dailyGoal.findFirst({
+        where: { user_id: userId },
+        orderBy: { date: "asc" },
+      }));
+
+    const goals = new Map<string, DailyGoal | null>();
+    let next = 0;
+    for (const day of eachDateKey(fromKey, toKey)) {
+      while (next < inRange.length && fromDbDate(inRange[next].date) <= day) {
+        current = inRange[next++];
       }
-
-      // Calculate macros (protein: 1.6g/kg, carbs: 45-65% of calories, fats: 20-35%)
-      baseProtein = Math.round(weight * 1.6);
-      baseCarbs = Math.round((baseCalories * 0.5) / 4); // 50% of calories from carbs
-      baseFats = Math.round((baseCalories * 0.25) / 9); // 25% of calories from fats
-
-      // Water based on weight (35ml per kg)
-      baseWaterMl = Math.round(weight * 35);
+      goals.set(day, current);
     }
-
-    return {
-      goal_calories: baseCalories,
-      goal_protein_g: baseProtein,
-      goal_carbs_g: baseCarbs,
-      goal_fats_g: baseFats,
-      goal_fiber_g: 25,
-      goal_water_ml: baseWaterMl,
-      goal_sodium_mg: 2300,
-      goal_sugar_g: 50,
-      updated_at: new Date(),
-    };
+    return goals;
   }
 
   static async getDailyGoals(userId: string) {
     try {
-      const goals = await prisma.dailyGoal.findFirst({
-        where: { user_id: userId },
-      });
-
-      if (!goals) {
-        // Create default goals if none exist
-        return await this.createOrUpdateDailyGoals(userId);
-      }
-
-      return goals;
+      // Carries the latest targets forward if today has no row yet
+      return await GoalTargetService.ensureTargets(userId);
     } catch (error) {
       console.error("Error fetching daily goals:", error);
       throw error;
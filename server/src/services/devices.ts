@@ -1,5 +1,46 @@
+import { ConnectedDevice, DailyActivitySummary } from "@prisma/client";
 import { prisma } from "../lib/database";
-import { ActivityData, DailyBalance } from "../types/devices";
+import {
+  ActivityConflict,
+  ActivityMergeStrategy,
+  ActivityMetric,
+  ActivityRecord,
+  DailyBalance,
+  DaySyncResult,
+  MergedDailyActivity,
+} from "../types/devices";
+import {
+  decryptToken,
+  encryptToken,
+  isEncryptedToken,
+  isEncryptedWithActiveKey,
+} from "../utils/tokenEncryption";
+import { getDayRange, getUserTimeZone } from "../utils/dayBoundary";
+
+const ACTIVITY_METRICS: ActivityMetric[] = [
+  "steps",
+  "calories_burned",
+  "active_minutes",
+  "bmr_estimate",
+  "distance_km",
+  "heart_rate_avg",
+  "sleep_hours",
+  "weight_kg",
+  "body_fat_percentage",
+];
+
+// Columns that default to 0 when a device didn't report them
+const COUNTER_METRICS = new Set<ActivityMetric>([
+  "steps",
+  "calories_burned",
+  "active_minutes",
+  "bmr_estimate",
+  "distance_km",
+]);
+
+// Sources further apart than this (relative to the chosen value) are
+// reported as a conflict for the day
+const CONFLICT_TOLERANCE = 0.1;
 
 export class DeviceService {
   static async getUserDevices(user_id: string) {
@@ -9,6 +50,8 @@ export class DeviceService {
       const devices = await prisma.connectedDevice.findMany({
         where: { user_id },
         orderBy: { created_at: "desc" },
+        // Encrypted tokens never leave the server
+        omit: { access_token_encrypted: true, refresh_token_encrypted: true },
       });
 
       console.log("✅ Found", devices.length, "devices");
@@ -24,7 +67,8 @@ export class DeviceService {
     deviceType: string,
     deviceName: string,
     accessToken?: string,
-    refreshToken?: string
+    refreshToken?: string,
+    expiresIn?: number
   ) {
     try {
       console.log("🔗 Connecting device for user:", user_id, {
@@ -75,8 +119,8 @@ export class DeviceService {
               ? this.encryptToken(refreshToken)
               : null,
             token_expires_at: accessToken
-              ? new Date(Date.now() + 3600000)
-              : null, // 1 hour default
+              ? this.tokenExpiry(expiresIn)
+              : null,
             updated_at: new Date(),
           },
         });
@@ -100,8 +144,8 @@ export class DeviceService {
               ? this.encryptToken(refreshToken)
               : null,
             token_expires_at: accessToken
-              ? new Date(Date.now() + 3600000)
-              : null, // 1 hour default
+              ? this.tokenExpiry(expiresIn)
+              : null
           },
         });
 
@@ -148,13 +192,24 @@ export class DeviceService {
     }
   }
 
-  static async syncDeviceData(
+  /**
+   * Stores a batch of dated activity records for one device. Each day is
+   * upserted on its own row, so back-filled history never lands on today;
+   * metrics missing from a record keep whatever was stored before. Returns
+   * the merged view of every touched day across all the user's devices.
+   */
+  static async syncActivityRecords(
     user_id: string,
     deviceId: string,
-    activityData: ActivityData
-  ) {
+    records: ActivityRecord[]
+  ): Promise<{ deviceId: string; days: DaySyncResult[]; conflictCount: number }> {
     try {
-      console.log("🔄 Syncing device data:", deviceId, activityData);
+      console.log(
+        "🔄 Syncing",
+        records.length,
+        "activity record(s) for device:",
+        deviceId
+      );
 
       const device = await prisma.connectedDevice.findFirst({
         where: {
@@ -167,62 +222,94 @@ export class DeviceService {
         throw new Error("Device not found");
       }
 
-      const today = new Date().toISOString().split("T")[0];
+      // Later records for the same day win, field by field
+      const recordsByDate = new Map<string, ActivityRecord>();
+      for (const record of records) {
+        recordsByDate.set(record.date, {
+          ...recordsByDate.get(record.date),
+          ...this.definedFields(record),
+        } as ActivityRecord);
+      }
+      const dates = [...recordsByDate.keys()].sort();
 
-      // Upsert daily activity summary
-      const activitySummary = await prisma.dailyActivitySummary.upsert({
+      const existing = await prisma.dailyActivitySummary.findMany({
         where: {
-          user_id_device_id_date: {
-            user_id,
-            device_id: deviceId,
-            date: new Date(today),
-          },
-        },
-        update: {
-          steps: activityData.steps || 0,
-          calories_burned: activityData.caloriesBurned || 0,
-          active_minutes: activityData.activeMinutes || 0,
-          bmr_estimate: activityData.bmr || 0,
-          heart_rate_avg: activityData.heartRate,
-          weight_kg: activityData.weight,
-          body_fat_percentage: activityData.bodyFat,
-          sleep_hours: activityData.sleepHours,
-          distance_km: activityData.distance,
-          sync_timestamp: new Date(),
-          updated_at: new Date(),
-          raw_data: activityData as any,
-        },
-        create: {
-          user_id,
           device_id: deviceId,
-          date: new Date(today),
-          steps: activityData.steps || 0,
-          calories_burned: activityData.caloriesBurned || 0,
-          active_minutes: activityData.activeMinutes || 0,
-          bmr_estimate: activityData.bmr || 0,
-          heart_rate_avg: activityData.heartRate,
-          weight_kg: activityData.weight,
-          body_fat_percentage: activityData.bodyFat,
-          sleep_hours: activityData.sleepHours,
-          distance_km: activityData.distance,
-          source_device: device.device_name,
-          sync_timestamp: new Date(),
-          raw_data: activityData as any,
+          date: { in: dates.map((date) => new Date(date)) },
         },
+        select: { date: true },
       });
+      const existingDates = new Set(
+        existing.map((row) => row.date.toISOString().split("T")[0])
+      );
+
+      const syncedAt = new Date();
+      await prisma.$transaction(
+        dates.map((date) => {
+          const record = recordsByDate.get(date)!;
+          const metrics = this.recordToMetrics(record);
+
+          return prisma.dailyActivitySummary.upsert({
+            where: {
+              user_id_device_id_date: {
+                user_id,
+                device_id: deviceId,
+                date: new Date(date),
+              },
+            },
+            update: {
+              ...metrics,
+              sync_timestamp: syncedAt,
+              raw_data: record as any,
+            },
+            create: {
+              user_id,
+              device_id: deviceId,
+              date: new Date(date),
+              ...metrics,
+              source_device: device.device_name,
+              sync_timestamp: syncedAt,
+              raw_data: record as any,
+            },
+          });
+        })
+      );
 
       // Update device last sync time
       await prisma.connectedDevice.update({
         where: { connected_device_id: deviceId },
         data: {
-          last_sync_time: new Date(),
+          last_sync_time: syncedAt,
           connection_status: "CONNECTED",
-          updated_at: new Date(),
+          updated_at: syncedAt,
         },
       });
 
-      console.log("✅ Device data synced successfully");
-      return activitySummary;
+      const merged = await this.getMergedActivity(
+        user_id,
+        dates[0],
+        dates[dates.length - 1]
+      );
+      const mergedByDate = new Map(merged.map((day) => [day.date, day]));
+
+      const days: DaySyncResult[] = dates.map((date) => {
+        const day = mergedByDate.get(date)!;
+        return {
+          date,
+          status: existingDates.has(date) ? "updated" : "created",
+          merged: day,
+          conflicts: day.conflicts,
+        };
+      });
+      const conflictCount = days.reduce(
+        (sum, day) => sum + day.conflicts.length,
+        0
+      );
+
+      console.log(
+        `✅ Synced ${days.length} day(s) for device ${deviceId}, ${conflictCount} conflict(s)`
+      );
+      return { deviceId, days, conflictCount };
     } catch (error) {
       console.error("💥 Error syncing device data:", error);
       throw new Error("Failed to sync device data");
@@ -240,30 +327,180 @@ export class DeviceService {
         endDate,
       });
 
-      const activityData = await prisma.dailyActivitySummary.findMany({
-        where: {
-          user_id,
-          date: {
-            gte: new Date(startDate),
-            lte: new Date(endDate),
-          },
-        },
-        include: {
-          device: true,
-        },
-        orderBy: {
-          date: "desc",
-        },
-      });
+      const activityData = await this.getMergedActivity(
+        user_id,
+        startDate,
+        endDate
+      );
 
-      console.log("✅ Found", activityData.length, "activity records");
-      return activityData;
+      console.log("✅ Found", activityData.length, "days of activity");
+      return activityData.reverse();
     } catch (error) {
       console.error("💥 Error getting activity data:", error);
       throw new Error("Failed to fetch activity data");
     }
   }
 
+  /**
+   * One merged summary per day (ascending) combining every device that
+   * reported that day, following ACTIVITY_MERGE_STRATEGY.
+   */
+  private static async getMergedActivity(
+    user_id: string,
+    startDate: string,
+    endDate: string
+  ): Promise<MergedDailyActivity[]> {
+    const rows = await prisma.dailyActivitySummary.findMany({
+      where: {
+        user_id,
+        date: {
+          gte: new Date(startDate),
+          lte: new Date(endDate),
+        },
+      },
+      include: {
+        device: {
+          select: {
+            connected_device_id: true,
+            device_name: true,
+            device_type: true,
+            is_primary_device: true,
+          },
+        },
+      },
+      orderBy: { date: "asc" },
+    });
+
+    const rowsByDate = new Map<string, typeof rows>();
+    for (const row of rows) {
+      const date = row.date.toISOString().split("T")[0];
+      rowsByDate.set(date, [...(rowsByDate.get(date) || []), row]);
+    }
+
+    return [...rowsByDate.entries()].map(([date, dayRows]) =>
+      this.mergeDay(date, dayRows)
+    );
+  }
+
+  private static mergeDay(
+    date: string,
+    rows: (DailyActivitySummary & {
+      device: Pick<
+        ConnectedDevice,
+        "connected_device_id" | "device_name" | "device_type" | "is_primary_device"
+      >;
+    })[]
+  ): MergedDailyActivity {
+    const strategy = this.getMergeStrategy();
+    const typePriority = (process.env.ACTIVITY_SOURCE_PRIORITY || "")
+      .split(",")
+      .map((type) => type.trim())
+      .filter(Boolean);
+    const typeRank = (type: string) => {
+      const index = typePriority.indexOf(type);
+      return index === -1 ? typePriority.length : index;
+    };
+
+    const ordered = [...rows].sort((a, b) => {
+      if (strategy === "primary_first") {
+        if (a.device.is_primary_device !== b.device.is_primary_device) {
+          return a.device.is_primary_device ? -1 : 1;
+        }
+        const rankDiff =
+          typeRank(a.device.device_type) - typeRank(b.device.device_type);
+        if (rankDiff !== 0) return rankDiff;
+      }
+      return b.sync_timestamp.getTime() - a.sync_timestamp.getTime();
+    });
+
+    const merged = {
+      date,
+      sources: ordered.map((row) => ({
+        deviceId: row.device.connected_device_id,
+        deviceName: row.device.device_name,
+        isPrimary: row.device.is_primary_device,
+      })),
+      conflicts: [] as ActivityConflict[],
+    } as MergedDailyActivity;
+
+    for (const metric of ACTIVITY_METRICS) {
+      const candidates = ordered
+        .map((row) => ({ row, value: row[metric] as number | null }))
+        // Counters default to 0, which means "not reported" rather than zero
+        .filter(
+          ({ value }) =>
+            value !== null && (value !== 0 || !COUNTER_METRICS.has(metric))
+        ) as { row: (typeof ordered)[number]; value: number }[];
+
+      if (candidates.length === 0) {
+        merged[metric] = null;
+        continue;
+      }
+
+      const chosen =
+        strategy === "highest"
+          ? candidates.reduce((best, candidate) =>
+              candidate.value > best.value ? candidate : best
+            )
+          : candidates[0];
+      merged[metric] = chosen.value;
+
+      const disagrees = candidates.some(
+        ({ value }) =>
+          Math.abs(value - chosen.value) >
+          Math.max(Math.abs(chosen.value), 1) * CONFLICT_TOLERANCE
+      );
+      if (disagrees) {
+        merged.conflicts.push({
+          metric,
+          chosen: {
+            deviceId: chosen.row.device.connected_device_id,
+            value: chosen.value,
+          },
+          values: candidates.map(({ row, value }) => ({
+            deviceId: row.device.connected_device_id,
+            deviceName: row.device.device_name,
+            value,
+          })),
+        });
+      }
+    }
+
+    return merged;
+  }
+
+  private static getMergeStrategy(): ActivityMergeStrategy {
+    const strategy = process.env.ACTIVITY_MERGE_STRATEGY;
+    return strategy === "most_recent" || strategy === "highest"
+      ? strategy
+      : "primary_first";
+  }
+
+  private static definedFields(record: ActivityRecord): Partial<ActivityRecord> {
+    return Object.fromEntries(
+      Object.entries(record).filter(([, value]) => value !== undefined)
+    );
+  }
+
+  private static recordToMetrics(
+    record: ActivityRecord
+  ): Partial<Record<ActivityMetric, number>> {
+    const metrics: Partial<Record<ActivityMetric, number | undefined>> = {
+      steps: record.steps,
+      calories_burned: record.caloriesBurned,
+      active_minutes: record.activeMinutes,
+      bmr_estimate: record.bmr,
+      distance_km: record.distance,
+      heart_rate_avg: record.heartRate,
+      sleep_hours: record.sleepHours,
+      weight_kg: record.weight,
+      body_fat_percentage: record.bodyFat,
+    };
+    return Object.fromEntries(
+      Object.entries(metrics).filter(([, value]) => value !== undefined)
+    );
+  }
+
   static async getDailyBalance(
     user_id: string,
     date: string
@@ -276,17 +513,18 @@ export class DeviceService {
         date
       );
 
-      // Get calories consumed from meals
-      const startDate = new Date(date);
-      const endDate = new Date(date);
-      endDate.setDate(endDate.getDate() + 1);
+      // Get calories consumed from meals eaten on that day locally
+      const { start, end } = getDayRange(
+        date,
+        await getUserTimeZone(user_id)
+      );
 
       const meals = await prisma.meal.findMany({
         where: {
           user_id,
-          created_at: {
-            gte: startDate,
-            lt: endDate,
+          eaten_at: {
+            gte: start,
+            lt: end,
           },
         },
       });
@@ -296,16 +534,8 @@ export class DeviceService {
         0
       );
 
-      // Get calories burned from activity data
-      const activityData = await prisma.dailyActivitySummary.findFirst({
-        where: {
-          user_id,
-          date: new Date(date),
-        },
-        orderBy: {
-          sync_timestamp: "desc",
-        },
-      });
+      // Get calories burned from activity data, merged across devices
+      const [activityData] = await this.getMergedActivity(user_id, date, date);
 
       if (!activityData) {
         console.log("⚠️ No activity data found for date");
@@ -345,19 +575,121 @@ export class DeviceService {
     }
   }
 
-  // TOKEN ENCRYPTION/DECRYPTION (Basic implementation - use proper encryption in production)
+  // Providers report lifetimes in seconds; assume 1 hour when they don't
+  private static tokenExpiry(expiresIn?: number): Date {
+    return new Date(Date.now() + (expiresIn ?? 3600) * 1000);
+  }
+
+  // TOKEN ENCRYPTION/DECRYPTION
   private static encryptToken(token: string): string {
-    // In production, use proper encryption like AES
-    // For now, just base64 encode (NOT SECURE - for demo only)
-    return Buffer.from(token).toString("base64");
+    return encryptToken(token);
   }
 
   private static decryptToken(encryptedToken: string): string {
-    // In production, use proper decryption
-    // For now, just base64 decode (NOT SECURE - for demo only)
+    if (isEncryptedToken(encryptedToken)) {
+      return decryptToken(encryptedToken);
+    }
+
+    // Rows written before AES-GCM was introduced hold plain base64; they are
+    // readable until reencryptDeviceTokens() has rewritten them
+    console.warn("⚠️ Reading legacy base64 device token, re-encryption pending");
     return Buffer.from(encryptedToken, "base64").toString();
   }
 
+  /**
+   * Rewrites every stored device token that is not encrypted with the active
+   * key (legacy base64 values and values under a rotated-out key). Rows are
+   * processed in batches; a row that fails to decrypt is reported and left
+   * untouched so the rest of the job can finish.
+   */
+  static async reencryptDeviceTokens(
+    options: { batchSize?: number; dryRun?: boolean } = {}
+  ): Promise<{ scanned: number; reencrypted: number; failed: number }> {
+    const batchSize = Math.max(1, options.batchSize || 100);
+    const stats = { scanned: 0, reencrypted: 0, failed: 0 };
+    let lastDeviceId: string | undefined;
+
+    console.log(
+      `🔐 Re-encrypting device tokens (batch size ${batchSize}${
+        options.dryRun ? ", dry run" : ""
+      })`
+    );
+
+    while (true) {
+      const devices = await prisma.connectedDevice.findMany({
+        where: {
+          OR: [
+            { access_token_encrypted: { not: null } },
+            { refresh_token_encrypted: { not: null } },
+          ],
+          ...(lastDeviceId && { connected_device_id: { gt: lastDeviceId } }),
+        },
+        select: {
+          connected_device_id: true,
+          access_token_encrypted: true,
+          refresh_token_encrypted: true,
+        },
+        orderBy: { connected_device_id: "asc" },
+        take: batchSize,
+      });
+
+      if (devices.length === 0) break;
+
+      for (const device of devices) {
+        lastDeviceId = device.connected_device_id;
+        stats.scanned++;
+
+        const needsRotation = [
+          device.access_token_encrypted,
+          device.refresh_token_encrypted,
+        ].some((token) => token && !isEncryptedWithActiveKey(token));
+
+        if (!needsRotation) continue;
+
+        try {
+          const rotate = (token: string | null) =>
+            token && !isEncryptedWithActiveKey(token)
+              ? this.encryptToken(this.decryptToken(token))
+              : token;
+
+          const data = {
+            access_token_encrypted: rotate(device.access_token_encrypted),
+            refresh_token_encrypted: rotate(device.refresh_token_encrypted),
+          };
+
+          if (!options.dryRun) {
+            // Guard against a concurrent token refresh overwriting the row
+            // between our read and write
+            const { count } = await prisma.connectedDevice.updateMany({
+              where: {
+                connected_device_id: device.connected_device_id,
+                access_token_encrypted: device.access_token_encrypted,
+                refresh_token_encrypted: device.refresh_token_encrypted,
+              },
+              data,
+            });
+            if (count === 0) continue;
+          }
+
+          stats.reencrypted++;
+        } catch (error) {
+          stats.failed++;
+          console.error(
+            `❌ Failed to re-encrypt tokens for device ${device.connected_device_id}:`,
+            error instanceof Error ? error.message : error
+          );
+        }
+      }
+    }
+
+    console.log(
+      `✅ Device token re-encryption done: ${stats.reencrypted}/${stats.scanned} ${
+        options.dryRun ? "to rotate" : "rotated"
+      }, ${stats.failed} failed`
+    );
+    return stats;
+  }
+
   static async getDeviceTokens(
     user_id: string,
     deviceId: string
@@ -395,7 +727,8 @@ export class DeviceService {
     user_id: string,
     deviceId: string,
     accessToken?: string,
-    refreshToken?: string
+    refreshToken?: string,
+    expiresIn?: number
   ) {
     try {
       await prisma.connectedDevice.updateMany({
@@ -410,9 +743,7 @@ export class DeviceService {
           refresh_token_encrypted: refreshToken
             ? this.encryptToken(refreshToken)
             : undefined,
-          token_expires_at: accessToken
-            ? new Date(Date.now() + 3600000)
-            : undefined,
+          token_expires_at: accessToken ? this.tokenExpiry(expiresIn) : undefined,
           updated_at: new Date(),
         },
       });
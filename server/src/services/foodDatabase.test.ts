@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { FoodDatabaseService } from "./foodDatabase";
+
+function matchId(name: string) {
+  return FoodDatabaseService.findBestMatch(name)?.food.id ?? null;
+}
+
+describe("FoodDatabaseService.findBestMatch", () => {
+  it("matches exact names, aliases and plurals", () => {
+    assert.equal(matchId("peanut butter"), "peanut_butter");
+    assert.equal(matchId("milk chocolate"), "milk_chocolate");
+    assert.equal(matchId("sweet potatoes"), "sweet_potato");
+    assert.equal(matchId("salmon fillet"), "salmon");
+    assert.equal(matchId("טונה במים"), "tuna_water");
+  });
+
+  it("accepts modifiers in front of the food's name", () => {
+    assert.equal(matchId("grilled chicken breast"), "chicken_breast");
+    assert.equal(matchId("boneless chicken breast"), "chicken_breast");
+    assert.equal(matchId("חזה עוף בגריל"), "chicken_breast");
+  });
+
+  it("rejects names with the words in another order", () => {
+    assert.equal(matchId("chocolate milk"), null);
+  });
+
+  it("rejects dishes whose head noun isn't the food", () => {
+    assert.equal(matchId("peanut butter cookie"), null);
+    assert.equal(matchId("chicken breast salad"), null);
+    assert.equal(matchId("sweet potato fries"), null);
+    assert.equal(matchId("olive oil spray"), null);
+    assert.equal(matchId("סלט חזה עוף"), null);
+  });
+});
@@ -0,0 +1,513 @@
+import {
+  FOODS,
+  FoodCategory,
+  FoodRecord,
+  FoodUnit,
+  NutrientsPer100g,
+} from "../lib/foods";
+
+// How closely an ingredient name has to fit a food's name before the
+// database numbers replace the AI estimate (see scoreIngredientName)
+const MATCH_THRESHOLD = 0.8;
+
+// Preparation and size words that don't change which food it is
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "the",
+  "of",
+  "with",
+  "and",
+  "some",
+  "fresh",
+  "raw",
+  "plain",
+  "cooked",
+  "grilled",
+  "roasted",
+  "baked",
+  "boiled",
+  "steamed",
+  "sliced",
+  "chopped",
+  "diced",
+  "homemade",
+  "small",
+  "medium",
+  "large",
+  "של",
+  "עם",
+  "טרי",
+  "טרייה",
+  "מבושל",
+  "מבושלת",
+  "צלוי",
+  "צלויה",
+  "אפוי",
+  "אפויה",
+  "קצוץ",
+  "קצוצה",
+  "פרוס",
+  "קטן",
+  "קטנה",
+  "גדול",
+  "גדולה",
+  "בינוני",
+  "בינונית",
+]);
+
+// One-letter Hebrew prefixes ("ו" and, "ה" the, "ב" in, "ל" to) that are
+// written attached to the next word
+const HEBREW_PREFIXES = ["ו", "ה", "ב", "ל"];
+
+const MASS_UNITS: Record<string, number> = {
+  g: 1,
+  gr: 1,
+  gram: 1,
+  grams: 1,
+  גרם: 1,
+  ג: 1,
+  ml: 1,
+  מל: 1,
+  kg: 1000,
+  קג: 1000,
+  קילו: 1000,
+};
+
+const HOUSEHOLD_UNITS: Record<string, FoodUnit | "serving"> = {
+  cup: "cup",
+  cups: "cup",
+  glass: "cup",
+  כוס: "cup",
+  כוסות: "cup",
+  tbsp: "tbsp",
+  tablespoon: "tbsp",
+  tablespoons: "tbsp",
+  spoon: "tbsp",
+  כף: "tbsp",
+  כפות: "tbsp",
+  tsp: "tsp",
+  teaspoon: "tsp",
+  teaspoons: "tsp",
+  כפית: "tsp",
+  כפיות: "tsp",
+  slice: "slice",
+  slices: "slice",
+  פרוסה: "slice",
+  פרוסות: "slice",
+  piece: "piece",
+  pieces: "piece",
+  unit: "piece",
+  units: "piece",
+  יחידה: "piece",
+  יחידות: "piece",
+  serving: "serving",
+  servings: "serving",
+  portion: "serving",
+  bowl: "serving",
+  plate: "serving",
+  מנה: "serving",
+  צלחת: "serving",
+  קערה: "serving",
+};
+
+// Used when a food has no weight of its own for the unit
+const GENERIC_UNIT_GRAMS: Record<Exclude<FoodUnit, "piece">, number> = {
+  cup: 240,
+  tbsp: 15,
+  tsp: 5,
+  slice: 30,
+};
+
+const COUNT_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  half: 0.5,
+  אחד: 1,
+  אחת: 1,
+  שני: 2,
+  שתי: 2,
+  שניים: 2,
+  שתיים: 2,
+  שלוש: 3,
+  שלושה: 3,
+  ארבע: 4,
+  ארבעה: 4,
+  חצי: 0.5,
+};
+
+export interface FoodMatch {
+  food: FoodRecord;
+  score: number;
+}
+
+export interface NutrientTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sugar: number;
+  sodium_mg: number;
+}
+
+// The per-ingredient fields reconciliation reads and re-prices
+export interface PricedIngredient extends NutrientTotals {
+  name: string;
+  serving_size_g: number;
+}
+
+export interface IngredientSource {
+  source: "database" | "ai";
+  food_id?: string;
+  match_score?: number;
+}
+
+export interface DescriptionEstimate {
+  ingredients: (PricedIngredient & IngredientSource)[];
+  totals: NutrientTotals;
+  unmatched: string[];
+}
+
+interface IndexedName {
+  food: FoodRecord;
+  key: string;
+  tokens: string[];
+}
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[\u0591-\u05C7]/g, "") // Hebrew vowel points and cantillation
+    .replace(/[-/]/g, " ")
+    .replace(/(\d),(\d)/g, "$1.$2")
+    .replace(/(\d)([a-zא-ת])/g, "$1 $2")
+    .replace(/[^a-z0-9א-ת.%\s]/g, "")
+    .replace(/\.(?!\d)|(?<!\d)\./g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// English plurals only; Hebrew plural forms are listed as aliases
+function singular(token: string): string {
+  if (!/^[a-z]+$/.test(token) || token.length <= 3) return token;
+  if (token.endsWith("ies")) return token.slice(0, -3) + "y";
+  if (token.endsWith("oes")) return token.slice(0, -2);
+  if (token.endsWith("s") && !token.endsWith("ss")) return token.slice(0, -1);
+  return token;
+}
+
+function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(" ")
+    .filter((token) => token && !STOP_WORDS.has(token))
+    .map(singular);
+}
+
+function tokensMatch(queryToken: string, nameToken: string): boolean {
+  if (queryToken === nameToken) return true;
+  return HEBREW_PREFIXES.some(
+    (prefix) =>
+      queryToken.length > 2 &&
+      queryToken.startsWith(prefix) &&
+      queryToken.slice(1) === nameToken
+  );
+}
+
+let nameIndex: IndexedName[] | null = null;
+
+function getNameIndex(): IndexedName[] {
+  if (!nameIndex) {
+    nameIndex = FOODS.flatMap((food) =>
+      [food.name, food.name_he, ...food.aliases].map((name) => {
+        const tokens = tokenize(name);
+        return { food, key: tokens.join(" "), tokens };
+      })
+    ).filter((entry) => entry.tokens.length > 0);
+  }
+  return nameIndex;
+}
+
+const HEBREW_TOKEN = /^[א-ת]/;
+
+// How well a name the AI (or the user) wrote identifies a food. The food's
+// name has to appear word for word and in order, ending on the head noun -
+// the last word in English, the first in Hebrew - so "peanut butter cookie"
+// isn't peanut butter and "chocolate milk" isn't milk chocolate. Extra
+// words in front of the name lower the score.
+function scoreIngredientName(
+  queryTokens: string[],
+  entry: IndexedName
+): number {
+  const nameTokens = entry.tokens;
+  if (nameTokens.length > queryTokens.length) return 0;
+
+  const offset = HEBREW_TOKEN.test(queryTokens[0])
+    ? 0
+    : queryTokens.length - nameTokens.length;
+  const matches = nameTokens.every((nameToken, index) =>
+    tokensMatch(queryTokens[offset + index], nameToken)
+  );
+  if (!matches) return 0;
+  return 0.5 + (0.5 * nameTokens.length) / queryTokens.length;
+}
+
+// Search-as-you-type: every typed word has to start some word of the name
+function scoreSearch(
+  query: string,
+  queryTokens: string[],
+  entry: IndexedName
+): number {
+  if (entry.key === query) return 1;
+  if (entry.key.startsWith(query)) return 0.9;
+
+  const covered = queryTokens.every((queryToken) =>
+    entry.tokens.some((nameToken) => nameToken.startsWith(queryToken))
+  );
+  if (!covered) return 0;
+  return 0.6 + (0.3 * queryTokens.length) / Math.max(entry.tokens.length, 1);
+}
+
+function round(value: number, digits: number = 1): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function bestPerFood(scored: FoodMatch[]): FoodMatch[] {
+  const best = new Map<string, FoodMatch>();
+  for (const match of scored) {
+    const current = best.get(match.food.id);
+    if (!current || match.score > current.score) {
+      best.set(match.food.id, match);
+    }
+  }
+  return [...best.values()].sort((a, b) => b.score - a.score);
+}
+
+const emptyTotals = (): NutrientTotals => ({
+  calories: 0,
+  protein: 0,
+  carbs: 0,
+  fat: 0,
+  fiber: 0,
+  sugar: 0,
+  sodium_mg: 0,
+});
+
+export class FoodDatabaseService {
+  static search(query: string, category?: FoodCategory, limit: number = 10) {
+    const normalized = tokenize(query).join(" ");
+    if (!normalized) return [];
+
+    const queryTokens = normalized.split(" ");
+    const scored = getNameIndex()
+      .filter((entry) => !category || entry.food.category === category)
+      .map((entry) => ({
+        food: entry.food,
+        score: scoreSearch(normalized, queryTokens, entry),
+      }))
+      .filter((match) => match.score > 0);
+
+    return bestPerFood(scored)
+      .slice(0, limit)
+      .map((match) => ({ ...match.food, match_score: round(match.score, 2) }));
+  }
+
+  static getFood(foodId: string): FoodRecord | null {
+    return FOODS.find((food) => food.id === foodId) || null;
+  }
+
+  /**
+   * The food an ingredient name refers to, when the match is confident.
+   * Ties go to the longer (more specific) name.
+   */
+  static findBestMatch(name: string): FoodMatch | null {
+    const queryTokens = tokenize(name);
+    if (queryTokens.length === 0) return null;
+
+    let best: (FoodMatch & { length: number }) | null = null;
+    for (const entry of getNameIndex()) {
+      const score = scoreIngredientName(queryTokens, entry);
+      if (
+        score >= MATCH_THRESHOLD &&
+        (!best ||
+          score > best.score ||
+          (score === best.score && entry.tokens.length > best.length))
+      ) {
+        best = { food: entry.food, score, length: entry.tokens.length };
+      }
+    }
+
+    return best ? { food: best.food, score: best.score } : null;
+  }
+
+  static priceFood(food: FoodRecord, grams: number): NutrientTotals {
+    const factor = grams / 100;
+    const n: NutrientsPer100g = food.per_100g;
+    return {
+      calories: Math.round(n.calories * factor),
+      protein: round(n.protein_g * factor),
+      carbs: round(n.carbs_g * factor),
+      fat: round(n.fats_g * factor),
+      fiber: round(n.fiber_g * factor),
+      sugar: round(n.sugar_g * factor),
+      sodium_mg: Math.round(n.sodium_mg * factor),
+    };
+  }
+
+  /**
+   * Re-prices ingredients that name a known food and carry a gram weight.
+   * The rest keep the AI numbers. `adjustment` is how much the meal totals
+   * move as a result.
+   */
+  static reconcileIngredients<T extends PricedIngredient>(ingredients: T[]) {
+    const adjustment = emptyTotals();
+
+    const reconciled = ingredients.map(
+      (ingredient): T & IngredientSource => {
+        const grams = Number(ingredient.serving_size_g) || 0;
+        const match = grams > 0 ? this.findBestMatch(ingredient.name) : null;
+        if (!match) return { ...ingredient, source: "ai" };
+
+        const priced = this.priceFood(match.food, grams);
+        for (const key of Object.keys(adjustment) as (keyof NutrientTotals)[]) {
+          adjustment[key] += priced[key] - (Number(ingredient[key]) || 0);
+        }
+
+        return {
+          ...ingredient,
+          ...priced,
+          source: "database",
+          food_id: match.food.id,
+          match_score: round(match.score, 2),
+        };
+      }
+    );
+
+    const matched = reconciled.filter((i) => i.source === "database").length;
+    if (matched > 0) {
+      console.log(
+        `🥗 Re-priced ${matched}/${ingredients.length} ingredients from the food database`
+      );
+    }
+
+    return { ingredients: reconciled, adjustment };
+  }
+
+  /**
+   * Turns a free-text description ("200g chicken breast, a cup of rice,
+   * salad") into priced ingredients without calling the AI. Parts that don't
+   * name a known food are returned in `unmatched`.
+   */
+  static estimateFromDescription(description: string): DescriptionEstimate {
+    const parts = description
+      .split(/[,;\n+]|\s+(?:and|with|עם)\s+|\s+ו(?=[א-ת\d])/i)
+      .map((part) => part.trim())
+      .filter(Boolean);
+
+    const ingredients: DescriptionEstimate["ingredients"] = [];
+    const unmatched: string[] = [];
+    const totals = emptyTotals();
+
+    for (const part of parts) {
+      const { name, grams, count, unit } = parseQuantity(part);
+      const match = this.findBestMatch(name);
+      if (!match) {
+        unmatched.push(part);
+        continue;
+      }
+
+      const weight = round(grams ?? portionGrams(match.food, count, unit), 0);
+      const priced = this.priceFood(match.food, weight);
+      for (const key of Object.keys(totals) as (keyof NutrientTotals)[]) {
+        totals[key] += priced[key];
+      }
+
+      ingredients.push({
+        name: part,
+        serving_size_g: weight,
+        ...priced,
+        source: "database",
+        food_id: match.food.id,
+        match_score: round(match.score, 2),
+      });
+    }
+
+    return {
+      ingredients,
+      totals: {
+        calories: Math.round(totals.calories),
+        protein: round(totals.protein),
+        carbs: round(totals.carbs),
+        fat: round(totals.fat),
+        fiber: round(totals.fiber),
+        sugar: round(totals.sugar),
+        sodium_mg: Math.round(totals.sodium_mg),
+      },
+      unmatched,
+    };
+  }
+}
+
+function parseQuantity(part: string): {
+  name: string;
+  grams: number | null;
+  count: number | null;
+  unit: FoodUnit | "serving" | null;
+} {
+  const tokens = normalizeText(part).split(" ");
+  const rest: string[] = [];
+  let grams: number | null = null;
+  let count: number | null = null;
+  let unit: FoodUnit | "serving" | null = null;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const number = /^\d+(\.\d+)?$/.test(token)
+      ? Number(token)
+      : COUNT_WORDS[token];
+
+    if (number !== undefined && count === null && grams === null) {
+      const next = tokens[i + 1];
+      if (next && MASS_UNITS[next]) {
+        grams = number * MASS_UNITS[next];
+        i++;
+      } else {
+        count = number;
+      }
+      continue;
+    }
+
+    // "half a cup": the article after a count adds nothing
+    if ((token === "a" || token === "an") && count !== null) continue;
+
+    if (HOUSEHOLD_UNITS[token] && unit === null && grams === null) {
+      unit = HOUSEHOLD_UNITS[token];
+      continue;
+    }
+
+    rest.push(token);
+  }
+
+  return { name: rest.join(" "), grams, count, unit };
+}
+
+function portionGrams(
+  food: FoodRecord,
+  count: number | null,
+  unit: FoodUnit | "serving" | null
+): number {
+  const quantity = count ?? 1;
+  if (!unit) {
+    return count === null
+      ? food.serving_g
+      : quantity * (food.units?.piece ?? food.serving_g);
+  }
+  if (unit === "serving") return quantity * food.serving_g;
+  if (unit === "piece") return quantity * (food.units?.piece ?? food.serving_g);
+  return quantity * (food.units?.[unit] ?? GENERIC_UNIT_GRAMS[unit]);
+}
@@ -0,0 +1,194 @@
+import { FoodSafetyAction, FoodSafetySource, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  FoodSafetyFlagsQuery,
+  FoodSafetyProfile,
+  FoodSafetyViolation,
+  FoodToCheck,
+} from "../types/foodSafety";
+import {
+  buildFoodSafetyProfile,
+  checkFood,
+  hasFoodSafetyRules,
+  isBlocked,
+  summarizeViolations,
+} from "../utils/foodSafety";
+
+// How many replacements are tried for one item before it is dropped
+const MAX_REGENERATION_ATTEMPTS = 2;
+
+export class FoodSafetyError extends Error {
+  constructor(message: string, public readonly statusCode: number = 422) {
+    super(message);
+    this.name = "FoodSafetyError";
+  }
+}
+
+export interface ScreenedItem<T> {
+  item: T;
+  // WARN violations the item was kept with
+  warnings: FoodSafetyViolation[];
+}
+
+export interface FoodSafetyFinding {
+  item_name: string;
+  action: FoodSafetyAction;
+  violations: FoodSafetyViolation[];
+}
+
+export interface ScreenOptions<T> {
+  describe: (item: T) => FoodToCheck;
+  // A replacement for an item that broke a rule, or null if none came up.
+  // Gets every violation seen so far so a prompt can steer clear of them
+  regenerate?: (
+    item: T,
+    violations: FoodSafetyViolation[]
+  ) => Promise<T | null>;
+}
+
+export class FoodSafetyService {
+  static async getProfile(userId: string): Promise<FoodSafetyProfile> {
+    const questionnaire = await prisma.userQuestionnaire.findFirst({
+      where: { user_id: userId },
+      orderBy: { date_completed: "desc" },
+      select: {
+        allergies: true,
+        allergies_text: true,
+        disliked_foods: true,
+        dietary_style: true,
+        kosher: true,
+      },
+    });
+    return buildFoodSafetyProfile(questionnaire);
+  }
+
+  /**
+   * Checks each item against the profile. Items that break a hard rule are
+   * regenerated and, failing that, dropped; items with only soft violations
+   * are kept along with them. The findings say what happened and why.
+   */
+  static async screen<T>(
+    profile: FoodSafetyProfile,
+    items: T[],
+    options: ScreenOptions<T>
+  ): Promise<{ items: ScreenedItem<T>[]; findings: FoodSafetyFinding[] }> {
+    if (!hasFoodSafetyRules(profile)) {
+      return {
+        items: items.map((item) => ({ item, warnings: [] })),
+        findings: [],
+      };
+    }
+
+    const screened: ScreenedItem<T>[] = [];
+    const findings: FoodSafetyFinding[] = [];
+
+    for (const item of items) {
+      const food = options.describe(item);
+      const violations = checkFood(profile, food);
+
+      if (!isBlocked(violations)) {
+        screened.push({ item, warnings: violations });
+        if (violations.length > 0) {
+          findings.push({
+            item_name: food.name,
+            action: "FLAGGED",
+            violations,
+          });
+        }
+        continue;
+      }
+
+      console.warn(
+        `🚫 "${food.name}" breaks food rules: ${summarizeViolations(violations)}`
+      );
+
+      const seen = [...violations];
+      let replacement: ScreenedItem<T> | null = null;
+      let attempts = 0;
+      while (
+        options.regenerate &&
+        !replacement &&
+        attempts < MAX_REGENERATION_ATTEMPTS
+      ) {
+        attempts++;
+        const candidate = await options.regenerate(item, seen);
+        if (!candidate) break;
+
+        const candidateViolations = checkFood(
+          profile,
+          options.describe(candidate)
+        );
+        if (isBlocked(candidateViolations)) {
+          seen.push(...candidateViolations);
+        } else {
+          replacement = { item: candidate, warnings: candidateViolations };
+        }
+      }
+
+      if (replacement) {
+        const name = options.describe(replacement.item).name;
+        console.log(`🔁 Replaced "${food.name}" with "${name}"`);
+        screened.push(replacement);
+        findings.push({
+          item_name: food.name,
+          action: "REGENERATED",
+          violations,
+        });
+      } else {
+        console.warn(`🗑️ Removed "${food.name}", no safe replacement found`);
+        findings.push({
+          item_name: food.name,
+          action: "REMOVED",
+          violations: seen,
+        });
+      }
+    }
+
+    return { items: screened, findings };
+  }
+
+  static async recordFindings(
+    userId: string,
+    source: FoodSafetySource,
+    referenceId: string | null,
+    findings: FoodSafetyFinding[]
+  ) {
+    if (findings.length === 0) return;
+
+    try {
+      await prisma.foodSafetyFlag.createMany({
+        data: findings.map((finding) => ({
+          user_id: userId,
+          source,
+          reference_id: referenceId,
+          item_name: finding.item_name,
+          action: finding.action,
+          violations: violationsJson(finding.violations),
+        })),
+      });
+    } catch (error) {
+      // The food has already been screened; losing the record shouldn't
+      // fail the request
+      console.error("💥 Error recording food safety flags:", error);
+    }
+  }
+
+  static async getFlags(userId: string, query: FoodSafetyFlagsQuery) {
+    return prisma.foodSafetyFlag.findMany({
+      where: { user_id: userId, source: query.source },
+      orderBy: { created_at: "desc" },
+      take: query.limit,
+    });
+  }
+}
+
+export function violationsJson(
+  violations: FoodSafetyViolation[]
+): Prisma.InputJsonValue {
+  return violations as unknown as Prisma.InputJsonValue;
+}
+
+// For the nullable safety_flags columns on generated meals
+export function warningsJson(warnings: FoodSafetyViolation[]) {
+  return warnings.length > 0 ? violationsJson(warnings) : Prisma.DbNull;
+}
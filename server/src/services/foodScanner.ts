@@ -1,37 +1,18 @@
 import { prisma } from "../lib/database";
 import { openai } from "./openai";
 import axios from "axios";
-
-interface ProductData {
-  barcode?: string;
-  name: string;
-  brand?: string;
-  category: string;
-  nutrition_per_100g: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-    fiber?: number;
-    sugar?: number;
-    sodium?: number;
-    saturated_fat?: number;
-    trans_fat?: number;
-    cholesterol?: number;
-    potassium?: number;
-    calcium?: number;
-    iron?: number;
-    vitamin_c?: number;
-    vitamin_d?: number;
-  };
-  ingredients: string[];
-  allergens: string[];
-  labels: string[];
-  health_score?: number;
-  image_url?: string;
-  serving_size?: string;
-  servings_per_container?: number;
-}
+import { getUserTimeZone } from "../utils/dayBoundary";
+import { resolveMealTiming } from "../utils/mealTiming";
+import { mapOpenFoodFactsProduct } from "../utils/openFoodFacts";
+import { ProductData } from "../types/productCatalog";
+import {
+  ProductCatalogError,
+  ProductCatalogService,
+  toProductData,
+} from "./productCatalog";
+import { FoodSafetyService } from "./foodSafety";
+import { FoodSafetyRule, FoodSafetyViolation } from "../types/foodSafety";
+import { buildFoodSafetyProfile, checkFood } from "../utils/foodSafety";
 
 interface UserAnalysis {
   compatibility_score: number;
@@ -46,6 +27,29 @@ interface UserAnalysis {
   health_assessment: string;
 }
 
+// How much each kind of food-rule violation lowers a product's score
+const VIOLATION_PENALTIES: Record<FoodSafetyRule, number> = {
+  ALLERGY: 30,
+  DIET: 20,
+  KOSHER: 15,
+  DISLIKED: 10,
+};
+
+function productAlert(violation: FoodSafetyViolation): string {
+  switch (violation.rule) {
+    case "ALLERGY":
+      return `⚠️ אלרגן: המוצר מכיל ${violation.term}`;
+    case "DIET":
+      return `🌱 המוצר אינו מתאים לתזונה שלך (${violation.term})`;
+    case "KOSHER":
+      return violation.severity === "WARN"
+        ? "✡️ לא נמצא סימון כשרות על המוצר"
+        : `✡️ המוצר אינו כשר (${violation.term})`;
+    case "DISLIKED":
+      return `👎 המוצר מכיל ${violation.term}, שסימנת שאינך אוהב/ת`;
+  }
+}
+
 export class FoodScannerService {
   static async scanBarcode(
     barcode: string,
@@ -57,27 +61,32 @@ export class FoodScannerService {
     try {
       console.log("🔍 Scanning barcode:", barcode);
 
-      // Try to get product from our database first
-      let productData = await this.getProductFromDatabase(barcode);
+      // Try the shared catalog first
+      let product = await ProductCatalogService.findByBarcode(barcode);
 
-      if (!productData) {
+      if (!product) {
         // Try external food database APIs
-        productData = await this.getProductFromExternalAPI(barcode);
+        const externalProduct = await this.getProductFromExternalAPI(barcode);
 
-        if (!productData) {
-          throw new Error("Product not found in any database");
+        if (!externalProduct) {
+          throw new ProductCatalogError(
+            "Product not found in any database",
+            404
+          );
         }
 
-        // Save to our database for future use
-        await this.saveProductToDatabase(productData, barcode, userId);
-      } else {
-        // Update the access time for existing products
-        await prisma.foodProduct.update({
-          where: { barcode },
-          data: { updated_at: new Date() },
-        });
+        // Save to the catalog for future use
+        product = await ProductCatalogService.recordProduct(
+          externalProduct,
+          barcode,
+          "OPEN_FOOD_FACTS",
+          userId
+        );
       }
 
+      await ProductCatalogService.recordScan(userId, product.product_id);
+      const productData = toProductData(product);
+
       // Get user-specific analysis
       const userAnalysis = await this.analyzeProductForUser(
         productData,
@@ -176,13 +185,21 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
         throw new Error("No response from AI");
       }
 
-      const productData = JSON.parse(content) as ProductData;
+      const scannedData = JSON.parse(content) as ProductData;
 
-      // Save to database if barcode was detected, or create a unique identifier for image scans
+      // Save to the catalog if barcode was detected, or create a unique identifier for image scans
       const productId =
-        productData.barcode ||
+        scannedData.barcode ||
         `img_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      await this.saveProductToDatabase(productData, productId, userId);
+      const product = await ProductCatalogService.recordProduct(
+        scannedData,
+        productId,
+        "AI_IMAGE_SCAN",
+        userId
+      );
+      await ProductCatalogService.recordScan(userId, product.product_id);
+      // A product already in the catalog keeps its better-sourced nutrition
+      const productData = toProductData(product);
 
       // Get user-specific analysis
       const userAnalysis = await this.analyzeProductForUser(
@@ -274,6 +291,7 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
           user_id: userId,
           analysis_status: "COMPLETED",
           ...mealData,
+          ...resolveMealTiming({}, await getUserTimeZone(userId)),
           upload_time: new Date(),
           created_at: new Date(),
         },
@@ -292,12 +310,8 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
   static async getScanHistory(userId: string): Promise<any[]> {
     try {
       // Get both scanned food products and meals created from scanned items
-      const [products, meals] = await Promise.all([
-        prisma.foodProduct.findMany({
-          where: { user_id: userId },
-          orderBy: { created_at: "desc" },
-          take: 25,
-        }),
+      const [scans, meals] = await Promise.all([
+        ProductCatalogService.getRecentScans(userId, 25),
         prisma.meal.findMany({
           where: {
             user_id: userId,
@@ -310,14 +324,14 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
 
       // Combine and format the results
       const history = [
-        ...products.map((product) => ({
+        ...scans.map(({ product, scanned_at }) => ({
           id: product.product_id,
           product_name: product.product_name,
           name: product.product_name,
           brand: product.brand,
           category: product.category,
           barcode: product.barcode,
-          created_at: product.created_at,
+          created_at: scanned_at,
           type: "product",
         })),
         ...meals.map((meal) => ({
@@ -340,34 +354,6 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
     }
   }
 
-  private static async getProductFromDatabase(
-    barcode: string
-  ): Promise<ProductData | null> {
-    try {
-      const product = await prisma.foodProduct.findUnique({
-        where: { barcode },
-      });
-
-      if (!product) return null;
-
-      return {
-        barcode: product.barcode,
-        name: product.product_name,
-        brand: product.brand || undefined,
-        category: product.category,
-        nutrition_per_100g: product.nutrition_per_100g as any,
-        ingredients: product.ingredients as string[],
-        allergens: product.allergens as string[],
-        labels: product.labels as string[],
-        health_score: product.health_score || undefined,
-        image_url: product.image_url || undefined,
-      };
-    } catch (error) {
-      console.error("Error getting product from database:", error);
-      return null;
-    }
-  }
-
   private static async getProductFromExternalAPI(
     barcode: string
   ): Promise<ProductData | null> {
@@ -379,51 +365,7 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
       );
 
       if (response.data.status === 1 && response.data.product) {
-        const product = response.data.product;
-        const nutriments = product.nutriments || {};
-
-        return {
-          barcode,
-          name: product.product_name || "Unknown Product",
-          brand: product.brands || undefined,
-          category: product.categories?.split(",")[0] || "Unknown",
-          nutrition_per_100g: {
-            calories:
-              nutriments.energy_kcal_100g ||
-              nutriments["energy-kcal_100g"] ||
-              nutriments.energy_100g ||
-              0,
-            protein: nutriments.proteins_100g || 0,
-            carbs: nutriments.carbohydrates_100g || 0,
-            fat: nutriments.fat_100g || 0,
-            fiber: nutriments.fiber_100g || undefined,
-            sugar: nutriments.sugars_100g || undefined,
-            sodium: nutriments.sodium_100g
-              ? nutriments.sodium_100g * 1000
-              : undefined,
-            saturated_fat: nutriments.saturated_fat_100g || undefined,
-            trans_fat: nutriments.trans_fat_100g || undefined,
-            cholesterol: nutriments.cholesterol_100g || undefined,
-            potassium: nutriments.potassium_100g || undefined,
-            calcium: nutriments.calcium_100g || undefined,
-            iron: nutriments.iron_100g || undefined,
-            vitamin_c: nutriments.vitamin_c_100g || undefined,
-            vitamin_d: nutriments.vitamin_d_100g || undefined,
-          },
-          ingredients:
-            product.ingredients_text_en
-              ?.split(",")
-              .map((i: string) => i.trim()) || [],
-          allergens:
-            product.allergens_tags?.map((a: string) => a.replace("en:", "")) ||
-            [],
-          labels:
-            product.labels_tags?.map((l: string) => l.replace("en:", "")) || [],
-          health_score: product.nutriscore_score || undefined,
-          image_url: product.image_url || undefined,
-          serving_size: product.serving_size || undefined,
-          servings_per_container: product.servings_per_container || undefined,
-        };
+        return mapOpenFoodFactsProduct(response.data.product, barcode);
       }
 
       return null;
@@ -433,46 +375,6 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
     }
   }
 
-  private static async saveProductToDatabase(
-    productData: ProductData,
-    barcode: string,
-    user_id: string
-  ): Promise<void> {
-    try {
-      await prisma.foodProduct.upsert({
-        where: { barcode },
-        update: {
-          product_name: productData.name,
-          brand: productData.brand,
-          category: productData.category,
-          nutrition_per_100g: productData.nutrition_per_100g,
-          ingredients: productData.ingredients,
-          allergens: productData.allergens,
-          labels: productData.labels,
-          health_score: productData.health_score,
-          image_url: productData.image_url,
-          updated_at: new Date(),
-        },
-        create: {
-          barcode,
-          product_name: productData.name,
-          brand: productData.brand,
-          category: productData.category,
-          nutrition_per_100g: productData.nutrition_per_100g,
-          ingredients: productData.ingredients,
-          allergens: productData.allergens,
-          labels: productData.labels,
-          health_score: productData.health_score,
-          image_url: productData.image_url,
-          user_id,
-          created_at: new Date(),
-        },
-      });
-    } catch (error) {
-      console.error("Error saving product to database:", error);
-    }
-  }
-
   private static async analyzeProductForUser(
     productData: ProductData,
     userId: string
@@ -516,41 +418,27 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
         };
       }
 
-      // Check for dietary restrictions
+      // Check against the user's allergies, diet, kashrut and dislikes
       if (questionnaire) {
-        const userAllergies =
-          (questionnaire.allergies as string[] | null | undefined) || [];
-        const productAllergens = productData.allergens || [];
-        const allergenMatches = userAllergies.filter((allergy: string) =>
-          productAllergens.some((allergen) =>
-            allergen.toLowerCase().includes(allergy.toLowerCase())
-          )
-        );
-
-        if (allergenMatches.length > 0) {
-          analysis.alerts.push(
-            `⚠️ אלרגן: המוצר מכיל ${allergenMatches.join(", ")}`
-          );
-          analysis.compatibility_score -= 30;
-        }
-
-        // Check dietary style compatibility
-        const dietaryStyle = questionnaire.dietary_style?.toLowerCase();
-        const productLabels = productData.labels.map((l) => l.toLowerCase());
-
-        if (dietaryStyle === "vegan" && !productLabels.includes("vegan")) {
-          analysis.alerts.push("🌱 המוצר אינו מתאים לתזונה טבגנית");
-          analysis.compatibility_score -= 20;
-        }
+        const violations = checkFood(buildFoodSafetyProfile(questionnaire), {
+          name: productData.name,
+          parts: productData.ingredients,
+          declared_allergens: productData.allergens,
+          labels: productData.labels,
+        });
 
-        if (dietaryStyle === "vegetarian" && productLabels.includes("meat")) {
-          analysis.alerts.push("🥬 המוצר מכיל בשר ואינו מתאים לצמחונים");
-          analysis.compatibility_score -= 20;
+        for (const violation of violations) {
+          analysis.alerts.push(productAlert(violation));
+          analysis.compatibility_score -= VIOLATION_PENALTIES[violation.rule];
         }
 
-        if (questionnaire.kosher && !productLabels.includes("kosher")) {
-          analysis.alerts.push("✡️ המוצר אינו כשר");
-          analysis.compatibility_score -= 15;
+        if (violations.length > 0) {
+          await FoodSafetyService.recordFindings(
+            userId,
+            "PRODUCT_SCAN",
+            productData.barcode || null,
+            [{ item_name: productData.name, action: "FLAGGED", violations }]
+          );
         }
       }
 
@@ -0,0 +1,563 @@
+import {
+  DailyGoal,
+  GoalAdjustment,
+  GoalAdjustmentReason,
+  UserQuestionnaire,
+} from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  addDays,
+  diffDays,
+  fromDbDate,
+  getDateKey,
+  getDateKeyRange,
+  getTodayKey,
+  getUserTimeZone,
+  toDbDate,
+} from "../utils/dayBoundary";
+import { linearSlope } from "../utils/trend";
+import { BodyMetricsService } from "./bodyMetrics";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KCAL_PER_KG = 7700;
+
+// Each weekly review looks at the last three weeks of logs and weigh-ins,
+// and skips users without enough of either to say anything reliable
+const REVIEW_WINDOW_DAYS = 21;
+const MIN_LOGGED_DAYS = 10;
+const MIN_WEIGH_INS = 4;
+const MIN_WEIGH_IN_SPAN_DAYS = 10;
+
+// Move halfway toward what the data suggests, and change the calorie
+// target by at most this much per review so targets never jump
+const TDEE_SMOOTHING = 0.5;
+const MAX_WEEKLY_CHANGE_KCAL = 150;
+const MIN_CHANGE_KCAL = 50;
+
+// Fastest pace we plan for, as a share of body weight per week
+const MAX_WEEKLY_LOSS_RATE = 0.01;
+const MAX_WEEKLY_GAIN_RATE = 0.005;
+
+const MAX_CALORIES = 4000;
+const MIN_CALORIES = { male: 1500, female: 1200, other: 1350 };
+
+const ACTIVITY_MULTIPLIERS: Record<string, number> = {
+  NONE: 1.2,
+  LIGHT: 1.375,
+  MODERATE: 1.55,
+  HIGH: 1.725,
+};
+
+const DEFAULT_TARGETS: NutritionTargets = {
+  calories: 2000,
+  protein_g: 120,
+  carbs_g: 250,
+  fats_g: 70,
+  fiber_g: 25,
+  water_ml: 2500,
+  sodium_mg: 2300,
+  sugar_g: 50,
+};
+
+type Sex = keyof typeof MIN_CALORIES;
+
+export interface NutritionTargets {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  water_ml: number;
+  sodium_mg: number;
+  sugar_g: number;
+}
+
+interface AdjustmentDetails {
+  reason: GoalAdjustmentReason;
+  previous_calories: number | null;
+  estimated_tdee: number;
+  avg_intake_calories?: number;
+  weight_trend_kg_week?: number;
+  explanation: string;
+  explanation_he: string;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number, digits = 0): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * The one place daily targets are calculated. Targets start from the
+ * questionnaire (Mifflin-St Jeor TDEE plus a goal-driven surplus or deficit)
+ * and are re-estimated weekly from logged intake against the weight trend.
+ * Every change is stored on GoalAdjustment with an explanation for the user.
+ */
+export class GoalTargetService {
+  static getSex(gender?: string | null): Sex {
+    const value = (gender || "").trim().toLowerCase();
+    if (value === "male" || value === "זכר") return "male";
+    if (value === "female" || value === "נקבה") return "female";
+    return "other";
+  }
+
+  static estimateFormulaTdee(
+    questionnaire: UserQuestionnaire,
+    weightKg: number
+  ): number {
+    const sexOffset = { male: 5, female: -161, other: -78 }[
+      this.getSex(questionnaire.gender)
+    ];
+    const bmr =
+      10 * weightKg +
+      6.25 * (questionnaire.height_cm || 170) -
+      5 * (questionnaire.age || 30) +
+      sexOffset;
+
+    return (
+      bmr * (ACTIVITY_MULTIPLIERS[questionnaire.physical_activity_level] ?? 1.375)
+    );
+  }
+
+  /**
+   * Daily surplus (positive) or deficit (negative) for the user's goal. With
+   * a target weight and timeframe it is the pace that gets there on time,
+   * capped at a safe weekly rate; otherwise it follows main_goal.
+   */
+  static getGoalDelta(
+    questionnaire: UserQuestionnaire,
+    weightKg: number,
+    now: Date = new Date()
+  ): number {
+    const { target_weight_kg, goal_timeframe_days } = questionnaire;
+
+    if (target_weight_kg && goal_timeframe_days) {
+      const remainingKg = target_weight_kg - weightKg;
+      if (Math.abs(remainingKg) < 0.5) return 0;
+
+      const elapsedDays = Math.floor(
+        (now.getTime() - questionnaire.date_completed.getTime()) / DAY_MS
+      );
+      const daysLeft = Math.max(goal_timeframe_days - elapsedDays, 7);
+      const weeklyKg = clamp(
+        remainingKg / (daysLeft / 7),
+        -MAX_WEEKLY_LOSS_RATE * weightKg,
+        MAX_WEEKLY_GAIN_RATE * weightKg
+      );
+      return (weeklyKg * KCAL_PER_KG) / 7;
+    }
+
+    switch (questionnaire.main_goal) {
+      case "WEIGHT_LOSS":
+        return -500;
+      case "WEIGHT_GAIN":
+        return 300;
+      default:
+        return 0;
+    }
+  }
+
+  static clampCalories(calories: number, sex: Sex): number {
+    return Math.round(clamp(calories, MIN_CALORIES[sex], MAX_CALORIES));
+  }
+
+  // Protein by body weight, a quarter of calories from fat, carbs the rest
+  static buildTargets(calories: number, weightKg: number): NutritionTargets {
+    const protein_g = Math.round(weightKg * 1.6);
+    const fats_g = Math.round((calories * 0.25) / 9);
+    const carbs_g = Math.max(
+      0,
+      Math.round((calories - protein_g * 4 - fats_g * 9) / 4)
+    );
+
+    return {
+      ...DEFAULT_TARGETS,
+      calories,
+      protein_g,
+      carbs_g,
+      fats_g,
+      water_ml: Math.round(weightKg * 35),
+    };
+  }
+
+  static pickTargets(goal: DailyGoal): NutritionTargets {
+    return {
+      calories: goal.calories,
+      protein_g: goal.protein_g,
+      carbs_g: goal.carbs_g,
+      fats_g: goal.fats_g,
+      fiber_g: goal.fiber_g,
+      water_ml: goal.water_ml,
+      sodium_mg: goal.sodium_mg,
+      sugar_g: goal.sugar_g,
+    };
+  }
+
+  private static getLatestQuestionnaire(userId: string) {
+    return prisma.userQuestionnaire.findFirst({
+      where: { user_id: userId },
+      orderBy: { date_completed: "desc" },
+    });
+  }
+
+  private static getGoalOnOrBefore(userId: string, dateKey: string) {
+    return prisma.dailyGoal.findFirst({
+      where: { user_id: userId, date: { lte: toDbDate(dateKey) } },
+      orderBy: { date: "desc" },
+    });
+  }
+
+  // Saves the day's targets and, when they changed for a reason the user
+  // should hear about, the adjustment that explains it
+  private static async saveTargets(
+    userId: string,
+    dateKey: string,
+    targets: NutritionTargets,
+    adjustment?: AdjustmentDetails
+  ): Promise<{ goal: DailyGoal; adjustment: GoalAdjustment | null }> {
+    const date = toDbDate(dateKey);
+
+    return prisma.$transaction(async (tx) => {
+      const goal = await tx.dailyGoal.upsert({
+        where: { user_id_date: { user_id: userId, date } },
+        update: targets,
+        create: { user_id: userId, date, ...targets },
+      });
+
+      if (!adjustment) return { goal, adjustment: null };
+
+      return {
+        goal,
+        adjustment: await tx.goalAdjustment.create({
+          data: {
+            user_id: userId,
+            effective_date: date,
+            calories: targets.calories,
+            protein_g: targets.protein_g,
+            carbs_g: targets.carbs_g,
+            fats_g: targets.fats_g,
+            ...adjustment,
+          },
+        }),
+      };
+    });
+  }
+
+  /**
+   * Recalculates targets from the latest questionnaire, starting over from
+   * the formula estimate. Used when the questionnaire is (re)submitted.
+   */
+  static async applyQuestionnaireTargets(userId: string): Promise<DailyGoal> {
+    const today = getTodayKey(await getUserTimeZone(userId));
+    const questionnaire = await this.getLatestQuestionnaire(userId);
+
+    if (!questionnaire) {
+      console.log("No questionnaire found, using default goals");
+      const { goal } = await this.saveTargets(userId, today, DEFAULT_TARGETS);
+      return goal;
+    }
+
+    const weightKg = questionnaire.weight_kg || 70;
+    const tdee = this.estimateFormulaTdee(questionnaire, weightKg);
+    const calories = this.clampCalories(
+      tdee + this.getGoalDelta(questionnaire, weightKg),
+      this.getSex(questionnaire.gender)
+    );
+    const previous = await this.getGoalOnOrBefore(userId, today);
+
+    const { goal } = await this.saveTargets(
+      userId,
+      today,
+      this.buildTargets(calories, weightKg),
+      {
+        reason: "QUESTIONNAIRE",
+        previous_calories: previous?.calories ?? null,
+        estimated_tdee: round(tdee),
+        ...this.explainQuestionnaire(
+          Math.round(tdee),
+          calories,
+          questionnaire.target_weight_kg
+        ),
+      }
+    );
+    return goal;
+  }
+
+  /**
+   * Today's targets, carrying the most recent ones forward if today has no
+   * row yet. Users with no targets at all start from the questionnaire.
+   */
+  static async ensureTargets(
+    userId: string,
+    dateKey?: string
+  ): Promise<DailyGoal> {
+    const day = dateKey ?? getTodayKey(await getUserTimeZone(userId));
+    const latest = await this.getGoalOnOrBefore(userId, day);
+
+    if (!latest) return this.applyQuestionnaireTargets(userId);
+    if (fromDbDate(latest.date) === day) return latest;
+
+    const date = toDbDate(day);
+    return prisma.dailyGoal.upsert({
+      where: { user_id_date: { user_id: userId, date } },
+      update: {},
+      create: { user_id: userId, date, ...this.pickTargets(latest) },
+    });
+  }
+
+  // Average calories over the days that have any meals logged
+  private static async getIntake(
+    userId: string,
+    fromKey: string,
+    toKey: string,
+    timeZone: string
+  ): Promise<{ avgCalories: number; loggedDays: number } | null> {
+    const { start, end } = getDateKeyRange(fromKey, toKey, timeZone);
+    const meals = await prisma.meal.findMany({
+      where: { user_id: userId, eaten_at: { gte: start, lt: end } },
+      select: { eaten_at: true, calories: true },
+    });
+
+    const byDay = new Map<string, number>();
+    for (const meal of meals) {
+      const day = getDateKey(meal.eaten_at, timeZone);
+      byDay.set(day, (byDay.get(day) || 0) + (meal.calories || 0));
+    }
+
+    const totals = [...byDay.values()].filter((calories) => calories > 0);
+    if (totals.length < MIN_LOGGED_DAYS) return null;
+
+    return {
+      avgCalories: totals.reduce((sum, c) => sum + c, 0) / totals.length,
+      loggedDays: totals.length,
+    };
+  }
+
+  // Least-squares slope of the daily weigh-ins, in kg per day. Manual
+  // entries and wearable readings both count
+  private static async getWeightTrend(
+    userId: string,
+    fromKey: string,
+    toKey: string
+  ): Promise<{ kgPerDay: number; latestKg: number } | null> {
+    const weights = await BodyMetricsService.getDailyWeights(
+      userId,
+      fromKey,
+      toKey
+    );
+
+    const points = weights.map((w) => ({
+      x: diffDays(fromKey, w.date),
+      y: w.weight_kg,
+    }));
+    if (
+      points.length < MIN_WEIGH_INS ||
+      points[points.length - 1].x - points[0].x < MIN_WEIGH_IN_SPAN_DAYS
+    ) {
+      return null;
+    }
+
+    const kgPerDay = linearSlope(points);
+    const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const lastX = points[points.length - 1].x;
+    return { kgPerDay, latestKg: meanY + kgPerDay * (lastX - meanX) };
+  }
+
+  /**
+   * Weekly review: energy burned = average intake minus the energy the
+   * weight trend says was stored or lost. The calorie target then moves
+   * toward that estimate plus the goal's surplus or deficit. Returns the
+   * adjustment, or null when data is missing or the change is too small.
+   */
+  static async reviewTargets(userId: string) {
+    const questionnaire = await this.getLatestQuestionnaire(userId);
+    if (!questionnaire) return null;
+
+    const timeZone = await getUserTimeZone(userId);
+    const today = getTodayKey(timeZone);
+    const fromKey = addDays(today, -REVIEW_WINDOW_DAYS);
+    const toKey = addDays(today, -1);
+
+    const [current, lastAdjustment, intake, trend] = await Promise.all([
+      this.getGoalOnOrBefore(userId, today),
+      prisma.goalAdjustment.findFirst({
+        where: { user_id: userId },
+        orderBy: { created_at: "desc" },
+      }),
+      this.getIntake(userId, fromKey, toKey, timeZone),
+      this.getWeightTrend(userId, fromKey, toKey),
+    ]);
+
+    if (!current || !intake || !trend) {
+      console.log(`⏭️ Not enough data to review targets for user ${userId}`);
+      return null;
+    }
+
+    const formulaTdee = this.estimateFormulaTdee(questionnaire, trend.latestKg);
+    const previousTdee = lastAdjustment?.estimated_tdee ?? formulaTdee;
+
+    // Food logs run low and scales are noisy, so keep the observed value
+    // within a plausible band around the formula estimate
+    const observedTdee = clamp(
+      intake.avgCalories - trend.kgPerDay * KCAL_PER_KG,
+      formulaTdee * 0.7,
+      formulaTdee * 1.3
+    );
+    const estimatedTdee =
+      previousTdee + TDEE_SMOOTHING * (observedTdee - previousTdee);
+
+    const desired = this.clampCalories(
+      estimatedTdee + this.getGoalDelta(questionnaire, trend.latestKg),
+      this.getSex(questionnaire.gender)
+    );
+    const calories = Math.round(
+      current.calories +
+        clamp(
+          desired - current.calories,
+          -MAX_WEEKLY_CHANGE_KCAL,
+          MAX_WEEKLY_CHANGE_KCAL
+        )
+    );
+
+    if (Math.abs(calories - current.calories) < MIN_CHANGE_KCAL) {
+      console.log(`✅ Targets for user ${userId} are on track`);
+      return null;
+    }
+
+    const weightTrendKgWeek = round(trend.kgPerDay * 7, 2);
+    const { adjustment } = await this.saveTargets(
+      userId,
+      today,
+      this.buildTargets(calories, trend.latestKg),
+      {
+        reason: "WEEKLY_REVIEW",
+        previous_calories: current.calories,
+        estimated_tdee: round(estimatedTdee),
+        avg_intake_calories: round(intake.avgCalories),
+        weight_trend_kg_week: weightTrendKgWeek,
+        ...this.explainReview({
+          avgIntake: Math.round(intake.avgCalories),
+          weightTrendKgWeek,
+          estimatedTdee: Math.round(estimatedTdee),
+          previousCalories: Math.round(current.calories),
+          calories,
+          targetWeightKg: questionnaire.target_weight_kg,
+        }),
+      }
+    );
+    return adjustment;
+  }
+
+  static async reviewTargetsForAllUsers() {
+    try {
+      const users = await prisma.user.findMany({
+        where: { is_questionnaire_completed: true },
+        select: { user_id: true },
+      });
+
+      console.log(`🎯 Reviewing targets for ${users.length} users`);
+
+      let adjusted = 0;
+      for (const user of users) {
+        try {
+          if (await this.reviewTargets(user.user_id)) adjusted++;
+        } catch (error) {
+          console.error(
+            `❌ Error reviewing targets for user ${user.user_id}:`,
+            error
+          );
+        }
+      }
+
+      console.log(`✅ Target review complete, ${adjusted} users adjusted`);
+    } catch (error) {
+      console.error("❌ Error reviewing targets:", error);
+    }
+  }
+
+  static async getAdjustments(userId: string, limit = 20) {
+    return prisma.goalAdjustment.findMany({
+      where: { user_id: userId },
+      orderBy: { created_at: "desc" },
+      take: limit,
+    });
+  }
+
+  private static explainQuestionnaire(
+    tdee: number,
+    calories: number,
+    targetWeightKg: number | null
+  ) {
+    const delta = calories - tdee;
+    let en = `Based on your questionnaire, you burn about ${tdee} kcal a day. `;
+    let he = `לפי השאלון, הוצאת האנרגיה היומית שלך מוערכת בכ-${tdee} קק"ל. `;
+
+    if (Math.abs(delta) < MIN_CHANGE_KCAL) {
+      en += `Eating at that level maintains your weight`;
+      he += `אכילה ברמה זו שומרת על המשקל שלך`;
+    } else {
+      const amount = Math.abs(delta);
+      en += `A daily ${delta < 0 ? "deficit" : "surplus"} of ${amount} kcal `;
+      he += `${delta < 0 ? "גירעון" : "עודף"} יומי של ${amount} קק"ל `;
+      if (targetWeightKg) {
+        en += `moves you toward ${targetWeightKg} kg at a safe pace`;
+        he += `יקרב אותך ליעד של ${targetWeightKg} ק"ג בקצב בטוח`;
+      } else {
+        en += `supports your goal`;
+        he += `תומך ביעד שלך`;
+      }
+    }
+
+    return {
+      explanation: `${en}, so your daily target is ${calories} kcal.`,
+      explanation_he: `${he}, ולכן יעד הקלוריות היומי שלך הוא ${calories} קק"ל.`,
+    };
+  }
+
+  private static explainReview(details: {
+    avgIntake: number;
+    weightTrendKgWeek: number;
+    estimatedTdee: number;
+    previousCalories: number;
+    calories: number;
+    targetWeightKg: number | null;
+  }) {
+    const weeks = REVIEW_WINDOW_DAYS / 7;
+    const change = Math.abs(details.weightTrendKgWeek);
+    const steady = change < 0.05;
+
+    const trendEn = steady
+      ? "your weight held steady"
+      : `your weight ${
+          details.weightTrendKgWeek < 0 ? "went down" : "went up"
+        } ${change} kg per week`;
+    const trendHe = steady
+      ? "המשקל שלך נשאר יציב"
+      : `המשקל שלך ${
+          details.weightTrendKgWeek < 0 ? "ירד" : "עלה"
+        } ב-${change} ק"ג בשבוע`;
+
+    const goalEn = details.targetWeightKg
+      ? `to keep you on track toward ${details.targetWeightKg} kg`
+      : "to keep you on track with your goal";
+    const goalHe = details.targetWeightKg
+      ? `כדי להמשיך להתקדם אל היעד של ${details.targetWeightKg} ק"ג`
+      : "כדי להמשיך להתקדם אל היעד שלך";
+
+    return {
+      explanation:
+        `Over the last ${weeks} weeks you ate about ${details.avgIntake} kcal a day and ${trendEn}, ` +
+        `so you burn about ${details.estimatedTdee} kcal a day. ` +
+        `Your daily target moves from ${details.previousCalories} to ${details.calories} kcal ${goalEn}.`,
+      explanation_he:
+        `ב-${weeks} השבועות האחרונים אכלת בממוצע כ-${details.avgIntake} קק"ל ביום ו${trendHe}, ` +
+        `כך שהוצאת האנרגיה היומית שלך מוערכת בכ-${details.estimatedTdee} קק"ל. ` +
+        `יעד הקלוריות היומי שלך עודכן מ-${details.previousCalories} ל-${details.calories} קק"ל ${goalHe}.`,
+    };
+  }
+}
@@ -0,0 +1,152 @@
+import crypto from "crypto";
+import path from "path";
+import sharp from "sharp";
+import { getStorageDriver } from "../lib/storage";
+
+// Stored images are referenced from the database as storage://<key>, so the
+// bucket, host or signing scheme can change without rewriting rows
+const STORAGE_URL_PREFIX = "storage://";
+
+const THUMBNAIL_SIZES = {
+  small: 160,
+  medium: 480,
+} as const;
+
+export type ImageVariant = "original" | keyof typeof THUMBNAIL_SIZES;
+
+const SIGNED_URL_TTL_SECONDS =
+  Number(process.env.STORAGE_SIGNED_URL_TTL_SECONDS) || 60 * 60;
+
+const FORMAT_EXTENSIONS: Record<string, { ext: string; contentType: string }> =
+  {
+    jpeg: { ext: "jpg", contentType: "image/jpeg" },
+    png: { ext: "png", contentType: "image/png" },
+    webp: { ext: "webp", contentType: "image/webp" },
+    gif: { ext: "gif", contentType: "image/gif" },
+    heif: { ext: "heic", contentType: "image/heic" },
+  };
+
+export class ImageStorageService {
+  static isStoredImage(imageUrl?: string | null): imageUrl is string {
+    return !!imageUrl && imageUrl.startsWith(STORAGE_URL_PREFIX);
+  }
+
+  static isInlineImage(imageUrl?: string | null): imageUrl is string {
+    return !!imageUrl && imageUrl.startsWith("data:image/");
+  }
+
+  /**
+   * Stores the original upload plus resized thumbnails and returns the
+   * storage URL to persist in Meal.image_url.
+   */
+  static async storeMealImage(
+    userId: string,
+    imageBase64: string
+  ): Promise<string> {
+    const cleanBase64 = imageBase64.trim().replace(/^data:.*base64,/, "");
+    const buffer = Buffer.from(cleanBase64, "base64");
+    if (buffer.length === 0) {
+      throw new Error("Image data is empty");
+    }
+
+    const metadata = await sharp(buffer).metadata();
+    const format = FORMAT_EXTENSIONS[metadata.format || ""] || {
+      ext: "jpg",
+      contentType: "image/jpeg",
+    };
+
+    const baseKey = `meals/${userId}/${crypto.randomUUID()}`;
+    const originalKey = `${baseKey}/original.${format.ext}`;
+    const driver = getStorageDriver();
+
+    await driver.put(originalKey, buffer, format.contentType);
+
+    await Promise.all(
+      Object.values(THUMBNAIL_SIZES).map(async (size) => {
+        const thumbnail = await sharp(buffer)
+          .rotate() // respect EXIF orientation from phone cameras
+          .resize(size, size, { fit: "cover" })
+          .jpeg({ quality: 75 })
+          .toBuffer();
+        await driver.put(
+          this.thumbnailKey(originalKey, size),
+          thumbnail,
+          "image/jpeg"
+        );
+      })
+    );
+
+    console.log(`🖼️ Stored meal image ${originalKey}`);
+    return `${STORAGE_URL_PREFIX}${originalKey}`;
+  }
+
+  /**
+   * Turns a stored image reference into a short-lived signed URL. Legacy
+   * inline (base64) and external URLs are returned unchanged.
+   */
+  static async getSignedImageUrl(
+    imageUrl: string | null | undefined,
+    variant: ImageVariant = "original"
+  ): Promise<string | null> {
+    if (!imageUrl) return null;
+    if (!this.isStoredImage(imageUrl)) return imageUrl;
+
+    const originalKey = imageUrl.slice(STORAGE_URL_PREFIX.length);
+    const key =
+      variant === "original"
+        ? originalKey
+        : this.thumbnailKey(originalKey, THUMBNAIL_SIZES[variant]);
+
+    try {
+      return await getStorageDriver().getSignedUrl(key, SIGNED_URL_TTL_SECONDS);
+    } catch (error) {
+      console.error("Failed to sign image URL:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Replaces a meal's stored image reference with signed URLs for the
+   * original and the list thumbnail.
+   */
+  static async withSignedImageUrls<T extends { image_url?: string | null }>(
+    meal: T
+  ): Promise<T & { thumbnail_url: string | null }> {
+    if (!this.isStoredImage(meal.image_url)) {
+      return { ...meal, thumbnail_url: meal.image_url || null };
+    }
+
+    const [imageUrl, thumbnailUrl] = await Promise.all([
+      this.getSignedImageUrl(meal.image_url, "original"),
+      this.getSignedImageUrl(meal.image_url, "medium"),
+    ]);
+
+    return {
+      ...meal,
+      image_url: imageUrl ?? "",
+      thumbnail_url: thumbnailUrl,
+    };
+  }
+
+  static async deleteMealImage(imageUrl: string | null | undefined) {
+    if (!this.isStoredImage(imageUrl)) return;
+
+    const originalKey = imageUrl.slice(STORAGE_URL_PREFIX.length);
+    const driver = getStorageDriver();
+
+    try {
+      await Promise.all([
+        driver.delete(originalKey),
+        ...Object.values(THUMBNAIL_SIZES).map((size) =>
+          driver.delete(this.thumbnailKey(originalKey, size))
+        ),
+      ]);
+    } catch (error) {
+      console.warn(`⚠️ Failed to delete stored image ${originalKey}:`, error);
+    }
+  }
+
+  private static thumbnailKey(originalKey: string, size: number): string {
+    return `${path.posix.dirname(originalKey)}/thumb_${size}.jpg`;
+  }
+}
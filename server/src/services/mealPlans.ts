@@ -6,6 +6,25 @@ import {
   WeeklyMealPlan,
 } from "../types/mealPlans";
 import { OpenAIService } from "./openai";
+import { ShoppingListService } from "./shoppingLists";
+import {
+  FoodSafetyError,
+  FoodSafetyFinding,
+  FoodSafetyService,
+  warningsJson,
+} from "./foodSafety";
+import {
+  FoodSafetyProfile,
+  FoodSafetyViolation,
+  FoodToCheck,
+} from "../types/foodSafety";
+import {
+  buildFoodSafetyProfile,
+  checkFood,
+  describeFoodSafetyRules,
+  isBlocked,
+  summarizeViolations,
+} from "../utils/foodSafety";
 
 // Helper function to sanitize strings
 function sanitizeString(input: string): string {
@@ -27,6 +46,32 @@ function validateEnum<T>(value: any, validValues: T[], fallback: T): T {
   return validValues.includes(value) ? value : fallback;
 }
 
+type PlanMeal = AIMealPlanResponse["weekly_plan"][number]["meals"][number];
+type ReplacementMeal = Awaited<
+  ReturnType<typeof MealPlanService.generateAIReplacementMeal>
+>;
+
+// Plan meals list ingredients as strings or { name } objects and declare
+// their allergens; templates keep the same in their *_json columns
+function describePlanMeal(meal: any): FoodToCheck {
+  const ingredients = meal.ingredients ?? meal.ingredients_json;
+  const allergens = meal.allergens ?? meal.allergens_json;
+  const isText = (value: unknown): value is string =>
+    typeof value === "string";
+
+  return {
+    name: meal.name || "Meal",
+    parts: [
+      meal.description,
+      ...validateArray<any>(ingredients).map((ingredient) =>
+        typeof ingredient === "string" ? ingredient : ingredient?.name
+      ),
+    ].filter(isText),
+    declared_allergens: validateArray<unknown>(allergens).filter(isText),
+    carbs_g: typeof meal.carbs_g === "number" ? meal.carbs_g : null,
+  };
+}
+
 export class MealPlanService {
   // Valid enum values (should match your Prisma schema)
   private static readonly VALID_MEAL_TIMINGS = [
@@ -101,6 +146,13 @@ export class MealPlanService {
         throw new Error("Invalid AI meal plan response structure");
       }
 
+      // Swap or drop meals that break the user's allergies and food rules
+      const findings = await this.screenMealPlan(
+        user_id,
+        aiMealPlan,
+        questionnaire
+      );
+
       // Create the meal plan using transaction (now much faster)
       const result = await prisma.$transaction(
         async (tx) => {
@@ -140,10 +192,18 @@ export class MealPlanService {
         }
       );
 
+      await FoodSafetyService.recordFindings(
+        user_id,
+        "MEAL_PLAN",
+        result.plan_id,
+        findings
+      );
+
       console.log("✅ AI meal plan created successfully");
       return result;
     } catch (error) {
       console.error("💥 Error creating AI meal plan:", error);
+      if (error instanceof FoodSafetyError) throw error;
       throw new Error(
         `Failed to create meal plan: ${
           error instanceof Error ? error.message : "Unknown error"
@@ -152,6 +212,96 @@ export class MealPlanService {
     }
   }
 
+  // Screens each day's meals in place. Replacements come from the same
+  // generator as single-meal swaps, turned back into plan meals
+  private static async screenMealPlan(
+    user_id: string,
+    aiMealPlan: AIMealPlanResponse,
+    questionnaire: any
+  ) {
+    const profile = buildFoodSafetyProfile(questionnaire);
+    const findings: FoodSafetyFinding[] = [];
+
+    // The same meal usually repeats across the week, so each one is
+    // replaced once per attempt rather than once per day
+    const replacements = new Map<string, Promise<ReplacementMeal>>();
+    const replace = (meal: PlanMeal, violations: FoodSafetyViolation[]) => {
+      const key = [
+        meal.meal_timing,
+        summarizeViolations(violations),
+        ...(describePlanMeal(meal).parts || []),
+      ].join("|");
+      if (!replacements.has(key)) {
+        replacements.set(
+          key,
+          this.generateAIReplacementMeal(
+            meal,
+            {},
+            questionnaire,
+            user_id,
+            violations
+          )
+        );
+      }
+      return replacements.get(key)!;
+    };
+
+    for (const dayPlan of aiMealPlan.weekly_plan) {
+      const screened = await FoodSafetyService.screen(profile, dayPlan.meals, {
+        describe: describePlanMeal,
+        regenerate: async (meal, violations) =>
+          this.replacementToPlanMeal(meal, await replace(meal, violations)),
+      });
+      dayPlan.meals = screened.items.map(({ item, warnings }) => ({
+        ...item,
+        safety_flags: warnings,
+      }));
+      findings.push(...screened.findings);
+    }
+
+    const hasMeals = aiMealPlan.weekly_plan.some(
+      (dayPlan) => dayPlan.meals.length > 0
+    );
+    if (!hasMeals) {
+      await FoodSafetyService.recordFindings(
+        user_id,
+        "MEAL_PLAN",
+        null,
+        findings
+      );
+      throw new FoodSafetyError(
+        "Couldn't put together meals that fit your allergies and dietary rules. Please try again."
+      );
+    }
+    return findings;
+  }
+
+  private static replacementToPlanMeal(
+    meal: PlanMeal,
+    replacement: ReplacementMeal
+  ): PlanMeal {
+    return {
+      name: replacement.name,
+      description: replacement.description,
+      meal_timing: meal.meal_timing,
+      dietary_category: replacement.dietary_category,
+      prep_time_minutes: replacement.prep_time_minutes,
+      difficulty_level: replacement.difficulty_level,
+      calories: replacement.calories,
+      protein_g: replacement.protein_g,
+      carbs_g: replacement.carbs_g,
+      fats_g: replacement.fats_g,
+      fiber_g: replacement.fiber_g,
+      sugar_g: replacement.sugar_g,
+      sodium_mg: replacement.sodium_mg,
+      ingredients: replacement.ingredients_json,
+      instructions: replacement.instructions_json,
+      allergens: replacement.allergens_json,
+      portion_multiplier: meal.portion_multiplier,
+      is_optional: meal.is_optional,
+    };
+  }
+
   private static sanitizeConfig(
     config: UserMealPlanConfig
   ): UserMealPlanConfig {
@@ -476,6 +626,12 @@ export class MealPlanService {
       dietary_preferences: config.dietary_preferences || [],
       excluded_ingredients: config.excluded_ingredients || [],
       allergies: validateArray(questionnaire?.allergies),
+      disliked_foods: validateArray(questionnaire?.disliked_foods),
+      dietary_style: questionnaire?.dietary_style || null,
+      kosher: Boolean(questionnaire?.kosher),
+      food_rules: describeFoodSafetyRules(
+        buildFoodSafetyProfile(questionnaire)
+      ),
 
       // Lifestyle factors
       physical_activity_level:
@@ -571,6 +727,7 @@ export class MealPlanService {
                   ingredients_json: meal.ingredients,
                   instructions_json: meal.instructions,
                   allergens_json: meal.allergens,
+                  safety_flags: warningsJson(meal.safety_flags || []),
                   image_url: meal.image_url,
                 },
               });
@@ -916,17 +1073,46 @@ export class MealPlanService {
         orderBy: { date_completed: "desc" },
       });
 
-      // Generate a new meal template using OpenAI
-      const newTemplate = await this.generateAIReplacementMeal(
-        currentSchedule.template,
-        preferences,
-        userQuestionnaire,
-        userId
+      // Generate a new meal template the user can eat
+      const currentTemplate = currentSchedule.template;
+      const generate = (violations: FoodSafetyViolation[] = []) =>
+        this.generateAIReplacementMeal(
+          currentTemplate,
+          preferences,
+          userQuestionnaire,
+          userId,
+          violations
+        );
+      const {
+        items: [replacement],
+        findings,
+      } = await FoodSafetyService.screen(
+        buildFoodSafetyProfile(userQuestionnaire),
+        [await generate()],
+        {
+          describe: describePlanMeal,
+          regenerate: (_meal, violations) => generate(violations),
+        }
       );
+      await FoodSafetyService.recordFindings(
+        userId,
+        "PLAN_MEAL_REPLACEMENT",
+        planId,
+        findings
+      );
+
+      if (!replacement) {
+        throw new FoodSafetyError(
+          "None of the replacement meals fit your allergies and dietary rules"
+        );
+      }
 
       // Create new meal template
       const createdTemplate = await prisma.mealTemplate.create({
-        data: newTemplate,
+        data: {
+          ...replacement.item,
+          safety_flags: warningsJson(replacement.warnings),
+        },
       });
 
       // Update the schedule to use the new template
@@ -967,12 +1153,17 @@ export class MealPlanService {
     }
   }
 
+  // `previousViolations` are why earlier candidates were rejected, so the
+  // prompt can steer clear of them
   static async generateAIReplacementMeal(
     currentMeal: any,
     preferences: any,
     userQuestionnaire: any,
-    userId: string
+    userId: string,
+    previousViolations: FoodSafetyViolation[] = []
   ) {
+    const profile = buildFoodSafetyProfile(userQuestionnaire);
+
     try {
       console.log("🤖 Generating AI replacement meal...");
 
@@ -997,6 +1188,11 @@ CURRENT MEAL TO REPLACE:
 - Carbs: ${currentMealContext.carbs_g}g
 - Fats: ${currentMealContext.fats_g}g
 - Meal timing: ${currentMeal.meal_timing}
+${
+  previousViolations.length > 0
+    ? `- Rejected because: ${summarizeViolations(previousViolations)}`
+    : ""
+}
 
 USER PREFERENCES:
 ${
@@ -1039,6 +1235,8 @@ ${
     : ""
 }
 
+${describeFoodSafetyRules(profile)}
+
 REQUIREMENTS:
 1. Create a completely different meal that matches the user's preferences
 2. Maintain similar nutritional profile unless specifically requested otherwise
@@ -1136,11 +1334,22 @@ Please return a JSON object with the following structure:
         is_active: true,
       };
 
+      const violations = checkFood(profile, describePlanMeal(sanitizedMeal));
+      if (isBlocked(violations)) {
+        throw new Error(
+          `AI meal breaks food rules: ${summarizeViolations(violations)}`
+        );
+      }
+
       console.log("✅ AI replacement meal generated:", sanitizedMeal.name);
       return sanitizedMeal;
     } catch (error) {
       console.log("⚠️ AI meal generation failed, using fallback");
-      return this.generateFallbackReplacementMeal(currentMeal, preferences);
+      return this.generateFallbackReplacementMeal(
+        currentMeal,
+        preferences,
+        profile
+      );
     }
   }
 
@@ -1156,7 +1365,11 @@ Please return a JSON object with the following structure:
     return validCategories.includes(category) ? category : "BALANCED";
   }
 
-  static generateFallbackReplacementMeal(currentMeal: any, preferences: any) {
+  static generateFallbackReplacementMeal(
+    currentMeal: any,
+    preferences: any,
+    profile?: FoodSafetyProfile
+  ) {
     const fallbackOptions = [
       {
         name: "Grilled Chicken with Vegetables",
@@ -1210,8 +1423,14 @@ Please return a JSON object with the following structure:
       },
     ];
 
-    const selected =
-      fallbackOptions[Math.floor(Math.random() * fallbackOptions.length)];
+    // Prefer options the user can eat; callers still screen the pick
+    const suitable = profile
+      ? fallbackOptions.filter(
+          (option) => !isBlocked(checkFood(profile, describePlanMeal(option)))
+        )
+      : [];
+    const options = suitable.length > 0 ? suitable : fallbackOptions;
+    const selected = options[Math.floor(Math.random() * options.length)];
 
     return {
       name: selected.name,
@@ -1571,4 +1790,17 @@ Please return a JSON object with the following structure:
       throw error;
     }
   }
+
+  // One week's groceries for the plan, saved as an editable shopping list
+  static async generateShoppingList(
+    user_id: string,
+    plan_id: string,
+    week_start_date: string
+  ) {
+    return ShoppingListService.generateFromPlan(
+      user_id,
+      plan_id,
+      week_start_date
+    );
+  }
 }
@@ -1,17 +1,48 @@
+import { Prisma } from "@prisma/client";
 import { OpenAIService } from "./openai";
+import { FoodDatabaseService } from "./foodDatabase";
+import { MealAnalysisResult } from "../types/openai";
 import { prisma } from "../lib/database";
-import { MealAnalysisInput, MealUpdateInput } from "../types/nutrition";
+import {
+  FavoriteMealsQuery,
+  MealAnalysisInput,
+  MealFeedbackInput,
+  MealIngredientCreateInput,
+  MealIngredientUpdateInput,
+  MealTextAnalysisInput,
+  MealUpdateInput,
+} from "../types/nutrition";
+import { FoodRecord } from "../lib/foods";
 import { AuthService } from "./auth";
-import { asJsonObject, mapExistingMealToPrismaInput } from "../utils/nutrition";
+import {
+  INGREDIENT_TOTAL_FIELDS,
+  MealIngredient,
+  mapExistingMealToPrismaInput,
+  mapIngredientEditToPrismaInput,
+  normalizeMealIngredient,
+  parseMealIngredients,
+  scaleMealIngredient,
+} from "../utils/nutrition";
+import { ImageStorageService } from "./imageStorage";
+import {
+  getDateKey,
+  getDateKeyRange,
+  getDayRange,
+  getTodayKey,
+  getUserTimeZone,
+  resolveTimeZone,
+  toDbDate,
+} from "../utils/dayBoundary";
+import { MealTimingFields, resolveMealTiming } from "../utils/mealTiming";
+
+const MAX_WATER_CUPS = 10;
+const ML_PER_CUP = 250;
 
 // Cache for frequently accessed data
 const userStatsCache = new Map<string, { data: any; timestamp: number }>();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
 function transformMealForClient(meal: any) {
-  const additives = meal.additives_json || {};
-  const feedback = additives.feedback || {};
-
   // Safely parse ingredients
   let ingredients = [];
   if (meal.ingredients) {
@@ -30,7 +61,10 @@ function transformMealForClient(meal: any) {
     meal_id: meal.meal_id,
     user_id: meal.user_id,
     image_url: meal.image_url,
+    thumbnail_url: meal.thumbnail_url ?? null,
     upload_time: meal.upload_time,
+    eaten_at: meal.eaten_at,
+    meal_type: meal.meal_type ?? null,
     analysis_status: meal.analysis_status,
     meal_name: meal.meal_name,
     calories: meal.calories,
@@ -53,20 +87,83 @@ function transformMealForClient(meal: any) {
     sodium: meal.sodium_mg || 0,
     userId: meal.user_id,
     ingredients: ingredients, // Include ingredients in response
-    isFavorite: additives.isFavorite || false,
-    is_favorite: additives.isFavorite || false, // Both formats for compatibility
-    tasteRating: feedback.tasteRating || 0,
-    satietyRating: feedback.satietyRating || 0,
-    energyRating: feedback.energyRating || 0,
-    heavinessRating: feedback.heavinessRating || 0,
-    taste_rating: feedback.tasteRating || 0, // Dual format
-    satiety_rating: feedback.satietyRating || 0,
-    energy_rating: feedback.energyRating || 0,
-    heaviness_rating: feedback.heavinessRating || 0,
+    isFavorite: meal.is_favorite || false,
+    is_favorite: meal.is_favorite || false, // Both formats for compatibility
+    favorited_at: meal.favorited_at ?? null,
+    tasteRating: meal.taste_rating || 0,
+    satietyRating: meal.satiety_rating || 0,
+    energyRating: meal.energy_rating || 0,
+    heavinessRating: meal.heaviness_rating || 0,
+    taste_rating: meal.taste_rating || 0, // Dual format
+    satiety_rating: meal.satiety_rating || 0,
+    energy_rating: meal.energy_rating || 0,
+    heaviness_rating: meal.heaviness_rating || 0,
+  };
+}
+
+function applyAdjustment(value: number | undefined, delta: number): number {
+  return Math.max(0, Math.round(((value || 0) + delta) * 10) / 10);
+}
+
+export class MealEditError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "MealEditError";
+  }
+}
+
+const INGREDIENT_NUTRIENT_INPUTS = [
+  "calories",
+  "protein",
+  "carbs",
+  "fat",
+  "fiber",
+  "sugar",
+  "sodium_mg",
+] as const;
+
+function priceIngredientFromDatabase(
+  ingredient: MealIngredient,
+  food: FoodRecord,
+  grams: number
+): MealIngredient {
+  return {
+    ...ingredient,
+    ...FoodDatabaseService.priceFood(food, grams),
+    serving_size_g: grams,
+    source: "database",
+    food_id: food.id,
+    match_score: 1,
   };
 }
 
-// QUOTA CHECKS REMOVED - NO LIMITS ENFORCED
+// A new ingredient: priced for its weight when it is a food database pick,
+// otherwise the name and numbers the user typed in
+export function buildMealIngredient(
+  input: MealIngredientCreateInput,
+  index: number,
+  food?: FoodRecord
+): MealIngredient {
+  if (!food) return normalizeMealIngredient(input, index);
+  return priceIngredientFromDatabase(
+    normalizeMealIngredient({ name: input.name ?? food.name }, index),
+    food,
+    input.serving_size_g ?? food.serving_g
+  );
+}
+
+// Numbers the user typed in replace whatever the AI or the food database
+// said, so the ingredient no longer claims either as its source
+function withoutIngredientSource({
+  source,
+  food_id,
+  match_score,
+  ...ingredient
+}: MealIngredient): MealIngredient {
+  return ingredient as MealIngredient;
+}
+
+// AI quota is enforced by the meterAiUsage middleware on the calling routes
 
 export class NutritionService {
   static async analyzeMeal(user_id: string, data: MealAnalysisInput) {
@@ -80,6 +177,7 @@ export class NutritionService {
 
     const user = await prisma.user.findUnique({ where: { user_id } });
     if (!user) throw new Error("User not found");
+    const timing = resolveMealTiming(data, resolveTimeZone(user.timezone));
 
     console.log("🚀 Starting meal analysis for user:", user_id);
     console.log("🔑 OpenAI API Key available:", !!process.env.OPENAI_API_KEY);
@@ -110,20 +208,64 @@ export class NutritionService {
       ingredients_count: analysis.ingredients?.length || 0,
     });
 
-    // Update request count asynchronously to not block response
-    setImmediate(async () => {
-      try {
-        await prisma.user.update({
-          where: { user_id },
-          data: { ai_requests_count: user.ai_requests_count + 1 },
-        });
-      } catch (error) {
-        console.warn("Failed to update request count:", error);
-      }
+    return this.buildAnalysisResult(
+      analysis,
+      user_id,
+      timing,
+      "Analysis failed to identify any nutritional content. Please try a clearer image."
+    );
+  }
+
+  static async analyzeMealText(user_id: string, data: MealTextAnalysisInput) {
+    const { description, language, source } = data;
+
+    const user = await prisma.user.findUnique({ where: { user_id } });
+    if (!user) throw new Error("User not found");
+    const timing = resolveMealTiming(data, resolveTimeZone(user.timezone));
+
+    console.log("📝 Starting text meal analysis for user:", user_id, {
+      source,
+      length: description.length,
+    });
+
+    const analysis = await Promise.race([
+      OpenAIService.analyzeMealText(
+        description,
+        language,
+        source,
+        data.updateText,
+        data.editedIngredients
+      ),
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error("Analysis timeout after 60 seconds")), 60000)
+      ),
+    ]);
+
+    console.log("✅ Text analysis completed:", {
+      name: analysis.name,
+      calories: analysis.calories,
+      ingredients_count: analysis.ingredients?.length || 0,
     });
 
+    return this.buildAnalysisResult(
+      analysis,
+      user_id,
+      timing,
+      "Couldn't identify any food in the description. Try naming the foods and amounts."
+    );
+  }
+
+  // Shapes an AI analysis (from a photo or a description) into the meal
+  // fields the client shows for review before saving. The timing rides
+  // along so the save keeps the back-dated time
+  private static buildAnalysisResult(
+    analysis: MealAnalysisResult,
+    user_id: string,
+    timing: MealTimingFields,
+    emptyMessage: string
+  ) {
     // Enhanced ingredient mapping with better error handling
-    const ingredients = (analysis.ingredients || []).map(
+    const analyzedIngredients = (analysis.ingredients || []).map(
       (ingredient, index) => {
         // Ensure ingredient is an object with proper structure
         if (typeof ingredient === "string") {
@@ -136,6 +278,7 @@ export class NutritionService {
             fiber: 0,
             sugar: 0,
             sodium_mg: 0,
+            serving_size_g: 0,
           };
         }
 
@@ -172,22 +315,35 @@ export class NutritionService {
       }
     );
 
-    const mappedMeal = mapMealDataToPrismaFields(
-      analysis,
-      user_id,
-      cleanBase64
-    );
+    // Ingredients that name a known food are re-priced from the food
+    // database so the same meal always gets the same numbers
+    const { ingredients, adjustment } =
+      FoodDatabaseService.reconcileIngredients(analyzedIngredients);
+
+    // The image is only persisted once the meal is saved, so don't echo the
+    // base64 payload back in the analysis result
+    const mappedMeal = mapMealDataToPrismaFields(analysis, user_id);
 
     // Validate that we have meaningful data
     if (!mappedMeal.meal_name || mappedMeal.meal_name.trim() === "") {
       mappedMeal.meal_name = analysis.name || "Analyzed Meal";
     }
 
+    // Move the meal totals by what re-pricing changed, keeping them in step
+    // with the ingredient list
+    if (ingredients.some((ingredient) => ingredient.source === "database")) {
+      mappedMeal.calories = applyAdjustment(mappedMeal.calories, adjustment.calories);
+      mappedMeal.protein_g = applyAdjustment(mappedMeal.protein_g, adjustment.protein);
+      mappedMeal.carbs_g = applyAdjustment(mappedMeal.carbs_g, adjustment.carbs);
+      mappedMeal.fats_g = applyAdjustment(mappedMeal.fats_g, adjustment.fat);
+      mappedMeal.fiber_g = applyAdjustment(mappedMeal.fiber_g, adjustment.fiber);
+      mappedMeal.sugar_g = applyAdjustment(mappedMeal.sugar_g, adjustment.sugar);
+      mappedMeal.sodium_mg = applyAdjustment(mappedMeal.sodium_mg, adjustment.sodium_mg);
+    }
+
     // Ensure minimum nutritional data
     if (mappedMeal.calories === 0 && ingredients.length === 0) {
-      throw new Error(
-        "Analysis failed to identify any nutritional content. Please try a clearer image."
-      );
+      throw new Error(emptyMessage);
     }
 
     console.log("✅ Meal analysis completed successfully!");
@@ -196,6 +352,7 @@ export class NutritionService {
       success: true,
       data: {
         ...mappedMeal,
+        ...timing,
         ingredients,
         healthScore: (analysis.confidence || 75).toString(),
         recommendations:
@@ -363,14 +520,29 @@ export class NutritionService {
 
   static async saveMeal(user_id: string, mealData: any, imageBase64?: string) {
     try {
+      const imageUrl = imageBase64
+        ? await ImageStorageService.storeMealImage(user_id, imageBase64)
+        : undefined;
+      const timing = resolveMealTiming(
+        mealData,
+        await getUserTimeZone(user_id)
+      );
+
       // Use transaction for better performance and consistency
       const meal = await prisma.$transaction(async (tx) => {
         return await tx.meal.create({
-          data: mapMealDataToPrismaFields(mealData, user_id, imageBase64),
+          data: {
+            ...mapMealDataToPrismaFields(mealData, user_id, imageUrl),
+            ...timing,
+          },
         });
       });
-      
-      return transformMealForClient(meal);
+
+      this.clearUserCaches(user_id);
+
+      return transformMealForClient(
+        await ImageStorageService.withSignedImageUrls(meal)
+      );
     } catch (error) {
       console.error("💥 Error saving meal:", error);
       throw new Error("Failed to save meal");
@@ -390,12 +562,18 @@ export class NutritionService {
 
       const meals = await prisma.meal.findMany({
         where: { user_id },
-        orderBy: { created_at: "desc" },
+        orderBy: [{ eaten_at: "desc" }, { meal_id: "desc" }],
         skip: offset,
         take: limit,
       });
       
-      const transformedMeals = meals.map(transformMealForClient);
+      const transformedMeals = await Promise.all(
+        meals.map(async (meal) =>
+          transformMealForClient(
+            await ImageStorageService.withSignedImageUrls(meal)
+          )
+        )
+      );
       
       // Cache the result
       userStatsCache.set(cacheKey, {
@@ -428,19 +606,19 @@ export class NutritionService {
         return cached.data;
       }
 
-      const startDateTime = new Date(startDate + "T00:00:00.000Z");
-      const endDateTime = new Date(endDate + "T23:59:59.999Z");
+      const timeZone = await getUserTimeZone(userId);
+      const range = getDateKeyRange(startDate, endDate, timeZone);
 
       const meals = await prisma.meal.findMany({
         where: {
           user_id: userId,
-          created_at: {
-            gte: startDateTime,
-            lte: endDateTime,
+          eaten_at: {
+            gte: range.start,
+            lt: range.end,
           },
         },
         orderBy: {
-          created_at: "asc",
+          eaten_at: "asc",
         },
         // Add select to only fetch needed fields for better performance
         select: {
@@ -471,6 +649,8 @@ export class NutritionService {
           confidence: true,
           created_at: true,
           upload_time: true,
+          eaten_at: true,
+          meal_type: true,
         },
       });
 
@@ -556,7 +736,7 @@ export class NutritionService {
       }
 
       const uniqueDates = new Set(
-        meals.map((meal) => meal.created_at.toISOString().split("T")[0])
+        meals.map((meal) => getDateKey(meal.eaten_at, timeZone))
       );
       const totalDays = uniqueDates.size;
 
@@ -569,7 +749,7 @@ export class NutritionService {
 
       // Group meals by day
       const dailyData = meals.reduce((acc, meal) => {
-        const date = meal.created_at.toISOString().split("T")[0];
+        const date = getDateKey(meal.eaten_at, timeZone);
         if (!acc[date]) {
           acc[date] = {
             date,
@@ -582,6 +762,8 @@ export class NutritionService {
           user_id: meal.user_id,
           image_url: meal.image_url,
           upload_time: meal.upload_time,
+          eaten_at: meal.eaten_at,
+          meal_type: meal.meal_type,
           analysis_status: meal.analysis_status,
           meal_name: meal.meal_name,
           calories: meal.calories,
@@ -670,14 +852,12 @@ export class NutritionService {
         return cached.data;
       }
 
-      const startDate = new Date(date);
-      const endDate = new Date(date);
-      endDate.setDate(endDate.getDate() + 1);
+      const { start, end } = getDayRange(date, await getUserTimeZone(user_id));
 
       const meals = await prisma.meal.findMany({
         where: {
           user_id,
-          created_at: { gte: startDate, lt: endDate },
+          eaten_at: { gte: start, lt: end },
         },
         select: {
           calories: true,
@@ -727,35 +907,38 @@ export class NutritionService {
   static async saveMealFeedback(
     user_id: string,
     meal_id: string,
-    feedback: any
+    feedback: MealFeedbackInput
   ) {
     try {
-    const meal = await prisma.meal.findFirst({
-      where: { meal_id: parseInt(meal_id), user_id },
-    });
-    if (!meal) throw new Error("Meal not found");
-
-    const additives = asJsonObject(meal.additives_json);
-    const existingFeedback = asJsonObject(additives.feedback);
-
-    const updatedAdditives = {
-      ...additives,
-      feedback: {
-        ...existingFeedback,
-        ...feedback,
-        updatedAt: new Date().toISOString(),
-      },
-    };
+      const meal = await prisma.meal.findFirst({
+        where: { meal_id: parseInt(meal_id), user_id },
+      });
+      if (!meal) throw new Error("Meal not found");
 
-    await prisma.meal.update({
-      where: { meal_id: meal.meal_id },
-      data: { additives_json: updatedAdditives },
-    });
+      const updatedMeal = await prisma.meal.update({
+        where: { meal_id: meal.meal_id },
+        data: {
+          taste_rating: feedback.tasteRating,
+          satiety_rating: feedback.satietyRating,
+          energy_rating: feedback.energyRating,
+          heaviness_rating: feedback.heavinessRating,
+          feedback_updated_at: new Date(),
+        },
+      });
 
       // Clear related caches
       this.clearUserCaches(user_id);
 
-    return { meal_id, feedback };
+      return {
+        meal_id,
+        feedback: {
+          tasteRating: updatedMeal.taste_rating || 0,
+          satietyRating: updatedMeal.satiety_rating || 0,
+          energyRating: updatedMeal.energy_rating || 0,
+          heavinessRating: updatedMeal.heaviness_rating || 0,
+          updatedAt: updatedMeal.feedback_updated_at,
+        },
+      };
     } catch (error) {
       console.error("💥 Error saving meal feedback:", error);
       throw error;
@@ -764,35 +947,92 @@ export class NutritionService {
 
   static async toggleMealFavorite(user_id: string, meal_id: string) {
     try {
-    const meal = await prisma.meal.findFirst({
-      where: { meal_id: parseInt(meal_id), user_id },
-    });
-    if (!meal) throw new Error("Meal not found");
-
-    const additives = asJsonObject(meal.additives_json);
-    const current = Boolean(additives.isFavorite);
+      const meal = await prisma.meal.findFirst({
+        where: { meal_id: parseInt(meal_id), user_id },
+      });
+      if (!meal) throw new Error("Meal not found");
 
-    const updatedAdditives = {
-      ...additives,
-      isFavorite: !current,
-      favoriteUpdatedAt: new Date().toISOString(),
-    };
+      const isFavorite = !meal.is_favorite;
 
-    await prisma.meal.update({
-      where: { meal_id: meal.meal_id },
-      data: { additives_json: updatedAdditives },
-    });
+      await prisma.meal.update({
+        where: { meal_id: meal.meal_id },
+        data: {
+          is_favorite: isFavorite,
+          favorited_at: isFavorite ? new Date() : null,
+        },
+      });
 
       // Clear related caches
       this.clearUserCaches(user_id);
 
-    return { meal_id, isFavorite: !current };
+      return { meal_id, isFavorite };
     } catch (error) {
       console.error("💥 Error toggling meal favorite:", error);
       throw error;
     }
   }
 
+  static async getFavoriteMeals(user_id: string, query: FavoriteMealsQuery) {
+    try {
+      const { page, limit, sortBy } = query;
+
+      const ratingOrder = (
+        field:
+          | "taste_rating"
+          | "satiety_rating"
+          | "energy_rating"
+          | "heaviness_rating"
+      ): Prisma.MealOrderByWithRelationInput[] => [
+        { [field]: { sort: "desc", nulls: "last" } },
+        { favorited_at: "desc" },
+      ];
+
+      const orderBy: Prisma.MealOrderByWithRelationInput[] =
+        sortBy === "taste"
+          ? ratingOrder("taste_rating")
+          : sortBy === "satiety"
+          ? ratingOrder("satiety_rating")
+          : sortBy === "energy"
+          ? ratingOrder("energy_rating")
+          : sortBy === "heaviness"
+          ? ratingOrder("heaviness_rating")
+          : [{ favorited_at: { sort: "desc", nulls: "last" } }];
+
+      const where = { user_id, is_favorite: true };
+
+      const [meals, total] = await Promise.all([
+        prisma.meal.findMany({
+          where,
+          orderBy: [...orderBy, { meal_id: "desc" }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.meal.count({ where }),
+      ]);
+
+      const transformedMeals = await Promise.all(
+        meals.map(async (meal) =>
+          transformMealForClient(
+            await ImageStorageService.withSignedImageUrls(meal)
+          )
+        )
+      );
+
+      return {
+        meals: transformedMeals,
+        pagination: {
+          page,
+          limit,
+          total,
+          hasMore: page * limit < total,
+        },
+      };
+    } catch (error) {
+      console.error("💥 Error fetching favorite meals:", error);
+      throw error;
+    }
+  }
+
   static async duplicateMeal(
     user_id: string,
     meal_id: string,
@@ -812,13 +1052,251 @@ export class NutritionService {
       // Clear related caches
       this.clearUserCaches(user_id);
 
-    return transformMealForClient(duplicatedMeal);
+    return transformMealForClient(
+      await ImageStorageService.withSignedImageUrls(duplicatedMeal)
+    );
     } catch (error) {
       console.error("💥 Error duplicating meal:", error);
       throw error;
     }
   }
 
+  static async getMealIngredients(user_id: string, meal_id: string) {
+    const meal = await this.findMealForEdit(user_id, meal_id);
+    return parseMealIngredients(meal.ingredients);
+  }
+
+  static async addMealIngredient(
+    user_id: string,
+    meal_id: string,
+    input: MealIngredientCreateInput
+  ) {
+    const meal = await this.findMealForEdit(user_id, meal_id);
+    const ingredients = parseMealIngredients(meal.ingredients);
+
+    const ingredient = buildMealIngredient(
+      input,
+      ingredients.length,
+      input.food_id ? this.getFoodOrThrow(input.food_id) : undefined
+    );
+
+    console.log(`➕ Adding "${ingredient.name}" to meal ${meal.meal_id}`);
+    return this.saveIngredientEdit(user_id, meal, [...ingredients, ingredient]);
+  }
+
+  /**
+   * Edits one ingredient of a saved meal. A new weight or portion_multiplier
+   * scales the ingredient's nutrients (re-priced from the food database when
+   * it is a known food); nutrient values in the input override the result.
+   */
+  static async updateMealIngredient(
+    user_id: string,
+    meal_id: string,
+    index: number,
+    input: MealIngredientUpdateInput
+  ) {
+    const meal = await this.findMealForEdit(user_id, meal_id);
+    const ingredients = parseMealIngredients(meal.ingredients);
+    const current = ingredients[index];
+    if (!current) throw new MealEditError("Ingredient not found", 404);
+
+    let next: MealIngredient = { ...current };
+    let foodId = current.food_id;
+    if (input.food_id) {
+      foodId = input.food_id;
+      next.name = input.name ?? this.getFoodOrThrow(input.food_id).name;
+    } else if (input.name && input.name !== current.name) {
+      // A renamed ingredient is no longer the food it was matched to
+      next.name = input.name;
+      foodId = undefined;
+    }
+    const food = foodId ? FoodDatabaseService.getFood(foodId) : null;
+
+    const baseGrams =
+      input.serving_size_g ?? (current.serving_size_g || food?.serving_g || 0);
+    const grams =
+      Math.round(baseGrams * (input.portion_multiplier ?? 1) * 10) / 10;
+    const factor =
+      current.serving_size_g > 0
+        ? grams / current.serving_size_g
+        : input.portion_multiplier ?? 1;
+
+    next = scaleMealIngredient(next, factor);
+    next.serving_size_g = grams;
+    next =
+      food && grams > 0
+        ? priceIngredientFromDatabase(next, food, grams)
+        : foodId
+        ? next
+        : withoutIngredientSource(next);
+
+    const overrides = INGREDIENT_NUTRIENT_INPUTS.filter(
+      (field) => input[field] !== undefined
+    );
+    if (overrides.length > 0) {
+      for (const field of overrides) next[field] = input[field] as number;
+      next = withoutIngredientSource(next);
+    }
+
+    console.log(`✏️ Updating ingredient ${index} of meal ${meal.meal_id}`);
+    return this.saveIngredientEdit(
+      user_id,
+      meal,
+      ingredients.map((ingredient, i) => (i === index ? next : ingredient))
+    );
+  }
+
+  static async removeMealIngredient(
+    user_id: string,
+    meal_id: string,
+    index: number
+  ) {
+    const meal = await this.findMealForEdit(user_id, meal_id);
+    const ingredients = parseMealIngredients(meal.ingredients);
+    if (!ingredients[index]) {
+      throw new MealEditError("Ingredient not found", 404);
+    }
+
+    console.log(`➖ Removing ingredient ${index} from meal ${meal.meal_id}`);
+    return this.saveIngredientEdit(
+      user_id,
+      meal,
+      ingredients.filter((_, i) => i !== index)
+    );
+  }
+
+  // Scales the whole meal, e.g. 0.5 when only half the plate was eaten.
+  // Totals are multiplied directly so fields without an ingredient
+  // breakdown scale too
+  static async scaleMeal(user_id: string, meal_id: string, multiplier: number) {
+    const meal = await this.findMealForEdit(user_id, meal_id);
+    const ingredients = parseMealIngredients(meal.ingredients).map(
+      (ingredient) => scaleMealIngredient(ingredient, multiplier)
+    );
+
+    const totals: Record<string, number | null> = {};
+    for (const column of [
+      ...Object.values(INGREDIENT_TOTAL_FIELDS),
+      "liquids_ml" as const,
+    ]) {
+      const value = meal[column];
+      totals[column] =
+        value === null ? null : Math.round(value * multiplier * 10) / 10;
+    }
+
+    console.log(`⚖️ Scaling meal ${meal.meal_id} by ${multiplier}`);
+    return this.saveMealEdit(user_id, meal, {
+      ...totals,
+      ingredients: ingredients as unknown as Prisma.InputJsonValue,
+      updated_at: new Date(),
+    });
+  }
+
+  private static async findMealForEdit(user_id: string, meal_id: string) {
+    const mealId = Number(meal_id);
+    const meal = Number.isInteger(mealId)
+      ? await prisma.meal.findFirst({ where: { meal_id: mealId, user_id } })
+      : null;
+    if (!meal) throw new MealEditError("Meal not found", 404);
+    return meal;
+  }
+
+  private static getFoodOrThrow(foodId: string) {
+    const food = FoodDatabaseService.getFood(foodId);
+    if (!food) throw new MealEditError("Food not found", 404);
+    return food;
+  }
+
+  private static async saveIngredientEdit(
+    user_id: string,
+    meal: Prisma.MealGetPayload<{}>,
+    ingredients: MealIngredient[]
+  ) {
+    return this.saveMealEdit(
+      user_id,
+      meal,
+      mapIngredientEditToPrismaInput(
+        meal,
+        parseMealIngredients(meal.ingredients),
+        ingredients
+      )
+    );
+  }
+
+  // Writes an edit computed from `meal`. It only lands if nobody saved the
+  // meal in between, since ingredients are addressed by their position and
+  // totals are adjusted from the values that were read
+  private static async saveMealEdit(
+    user_id: string,
+    meal: Prisma.MealGetPayload<{}>,
+    data: Prisma.MealUpdateManyMutationInput
+  ) {
+    const { count } = await prisma.meal.updateMany({
+      where: { meal_id: meal.meal_id, updated_at: meal.updated_at },
+      data,
+    });
+    if (count === 0) {
+      throw new MealEditError(
+        "The meal was changed by someone else; please try again",
+        409
+      );
+    }
+
+    const updatedMeal = await prisma.meal.findUniqueOrThrow({
+      where: { meal_id: meal.meal_id },
+    });
+    this.clearUserCaches(user_id);
+
+    return transformMealForClient(
+      await ImageStorageService.withSignedImageUrls(updatedMeal)
+    );
+  }
+
+  // Sets the day's water intake, capped at the 10 cup (2500ml) goal.
+  // dateKey is the user's local day and defaults to today
+  static async setWaterIntake(user_id: string, cups: number, dateKey?: string) {
+    const cups_consumed = Math.min(Math.max(0, cups), MAX_WATER_CUPS);
+    const milliliters_consumed = cups_consumed * ML_PER_CUP;
+    const day = toDbDate(
+      dateKey ?? getTodayKey(await getUserTimeZone(user_id))
+    );
+
+    // Use upsert to handle potential race conditions
+    return prisma.waterIntake.upsert({
+      where: {
+        user_id_date: {
+          user_id,
+          date: day,
+        },
+      },
+      update: {
+        cups_consumed,
+        milliliters_consumed,
+        updated_at: new Date(),
+      },
+      create: {
+        user_id,
+        date: day,
+        cups_consumed,
+        milliliters_consumed,
+      },
+    });
+  }
+
+  static async addWaterCups(user_id: string, cups: number, dateKey?: string) {
+    const day = dateKey ?? getTodayKey(await getUserTimeZone(user_id));
+    const existing = await prisma.waterIntake.findUnique({
+      where: { user_id_date: { user_id, date: toDbDate(day) } },
+      select: { cups_consumed: true },
+    });
+
+    return this.setWaterIntake(
+      user_id,
+      (existing?.cups_consumed ?? 0) + cups,
+      day
+    );
+  }
+
   // Helper method to clear user-specific caches
   private static clearUserCaches(user_id: string) {
     const keysToDelete: string[] = [];
@@ -843,7 +1321,7 @@ export class NutritionService {
 function mapMealDataToPrismaFields(
   mealData: any,
   user_id: string,
-  imageBase64?: string
+  imageUrl?: string
 ) {
   const ingredients = Array.isArray(mealData.ingredients)
     ? mealData.ingredients
@@ -851,7 +1329,7 @@ function mapMealDataToPrismaFields(
 
   return {
     user_id,
-    image_url: imageBase64 ? `data:image/jpeg;base64,${imageBase64}` : null,
+    image_url: imageUrl || "",
     upload_time: new Date(),
     analysis_status: "COMPLETED",
     meal_name: mealData.meal_name || mealData.name || "Unknown Meal",
@@ -1,6 +1,7 @@
 import OpenAI from "openai";
 import { extractCleanJSON, parsePartialJSON } from "../utils/openai";
 import { MealAnalysisResult, MealPlanRequest, MealPlanResponse } from "../types/openai";
+import { FoodDatabaseService } from "./foodDatabase";
 
 // Initialize OpenAI with better error handling
 const openai = process.env.OPENAI_API_KEY
@@ -159,6 +160,212 @@ export class OpenAIService {
     }
   }
 
+  // Same caching and de-duplication as image analysis, keyed on the text
+  static async analyzeMealText(
+    description: string,
+    language: string = "english",
+    source: "text" | "voice" = "text",
+    updateText?: string,
+    editedIngredients: any[] = []
+  ): Promise<MealAnalysisResult> {
+    const requestKey = this.createRequestKey(
+      `${description}_${updateText || ''}_${JSON.stringify(editedIngredients)}_${language}`,
+      'analyze_text'
+    );
+
+    const cached = this.getCachedResponse(requestKey);
+    if (cached) {
+      return cached;
+    }
+
+    if (requestQueue.has(requestKey)) {
+      console.log("🔄 Waiting for existing text analysis request");
+      return requestQueue.get(requestKey);
+    }
+
+    const requestPromise = this._performTextAnalysis(
+      description,
+      language,
+      source,
+      updateText,
+      editedIngredients
+    );
+
+    requestQueue.set(requestKey, requestPromise);
+
+    try {
+      const result = await requestPromise;
+      this.setCachedResponse(requestKey, result);
+      return result;
+    } finally {
+      setTimeout(() => {
+        requestQueue.delete(requestKey);
+      }, 1000);
+    }
+  }
+
+  private static async _performTextAnalysis(
+    description: string,
+    language: string,
+    source: "text" | "voice",
+    updateText?: string,
+    editedIngredients: any[] = []
+  ): Promise<MealAnalysisResult> {
+    const isHebrew = language === "hebrew";
+
+    if (!openai) {
+      console.log("⚠️ OpenAI not available, using enhanced fallback");
+      return this.generateTextFallbackAnalysis(
+        description,
+        language,
+        updateText
+      );
+    }
+
+    try {
+      console.log("🤖 Calling OpenAI API for text meal analysis...");
+
+      const response = await openai.chat.completions.create({
+        model: "gpt-4o",
+        messages: [
+          {
+            role: "system",
+            content: this.createTextSystemPrompt(
+              isHebrew,
+              source,
+              updateText,
+              editedIngredients
+            ),
+          },
+          { role: "user", content: description },
+        ],
+        max_tokens: 1500,
+        temperature: 0.1,
+        top_p: 0.9,
+      });
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error("No content in OpenAI response");
+      }
+
+      console.log("✅ OpenAI response received, parsing...");
+      return this.parseAnalysisResponse(content, language);
+    } catch (error: any) {
+      console.error("💥 OpenAI text analysis error:", error);
+
+      if (error.code === 'rate_limit_exceeded') {
+        throw new Error("AI service is busy. Please try again in a moment.");
+      } else if (error.code === 'insufficient_quota') {
+        throw new Error("AI analysis quota exceeded. Please try again later.");
+      } else if (error.message?.includes('timeout')) {
+        throw new Error("Analysis is taking too long. Please try again.");
+      }
+
+      return this.generateTextFallbackAnalysis(
+        description,
+        language,
+        updateText
+      );
+    }
+  }
+
+  // Without the AI, descriptions are priced from the food database; a
+  // generic estimate is only used when nothing in the text is a known food
+  private static generateTextFallbackAnalysis(
+    description: string,
+    language: string,
+    updateText?: string
+  ): MealAnalysisResult {
+    const isHebrew = language === "hebrew";
+    const estimate = FoodDatabaseService.estimateFromDescription(description);
+
+    if (estimate.ingredients.length === 0) {
+      return {
+        ...this.generateEnhancedFallbackAnalysis(language, updateText),
+        name: description.substring(0, 40),
+      };
+    }
+
+    const { totals, unmatched } = estimate;
+    const grams = estimate.ingredients.reduce(
+      (sum, ingredient) => sum + ingredient.serving_size_g,
+      0
+    );
+    const matchedShare =
+      estimate.ingredients.length /
+      (estimate.ingredients.length + unmatched.length);
+
+    let healthNotes = isHebrew
+      ? "הערכים חושבו ממאגר המזון ללא ניתוח AI."
+      : "Values were calculated from the food database without AI analysis.";
+    if (unmatched.length > 0) {
+      healthNotes += isHebrew
+        ? ` לא זוהו ולא נכללו: ${unmatched.join(", ")}.`
+        : ` Not recognized and not counted: ${unmatched.join(", ")}.`;
+    }
+
+    return {
+      name: description.substring(0, 40),
+      calories: totals.calories,
+      protein: totals.protein,
+      carbs: totals.carbs,
+      fat: totals.fat,
+      fiber: totals.fiber,
+      sugar: totals.sugar,
+      sodium: totals.sodium_mg,
+      serving_size_g: grams,
+      confidence: Math.round(80 * matchedShare),
+      ingredients: estimate.ingredients as any[],
+      servingSize: `${grams} g`,
+      cookingMethod: "",
+      healthNotes,
+    };
+  }
+
+  private static createTextSystemPrompt(
+    isHebrew: boolean,
+    source: "text" | "voice",
+    updateText?: string,
+    editedIngredients: any[] = []
+  ): string {
+    const basePrompt = isHebrew
+      ? `אתה מנתח תזונה מומחה. המשתמש מתאר ארוחה במילים, בעברית או באנגלית. פרק את התיאור למרכיבים, השתמש בכמויות שצוינו (גרמים, כוסות, כפות, יחידות) והנח מנה טיפוסית כשלא צוינה כמות. השב בעברית.`
+      : `You are an expert nutrition analyst. The user describes a meal in words, in English or Hebrew. Break the description into ingredients, use any stated quantities (grams, cups, spoons, pieces) and assume a typical portion when none is given. Answer in English.`;
+
+    const transcriptNote =
+      source === "voice"
+        ? isHebrew
+          ? `התיאור הוא תמלול של הקלטה קולית ועשוי לכלול מילות מילוי, מספרים במילים ומילים שתומללו לא נכון.`
+          : `The description is a speech transcript and may contain filler words, numbers spelled out and misheard words.`
+        : '';
+
+    const jsonStructure = `
+{
+  "name": "${isHebrew ? 'שם הארוחה' : 'meal name'}",
+  "calories": ${isHebrew ? 'מספר קלוריות' : 'number'},
+  "protein": ${isHebrew ? 'חלבון בגרמים' : 'protein in grams'},
+  "carbs": ${isHebrew ? 'פחמימות בגרמים' : 'carbs in grams'},
+  "fat": ${isHebrew ? 'שומן בגרמים' : 'fat in grams'},
+  "fiber": ${isHebrew ? 'סיבים בגרמים' : 'fiber in grams'},
+  "sugar": ${isHebrew ? 'סוכר בגרמים' : 'sugar in grams'},
+  "sodium": ${isHebrew ? 'נתרן במילגרם' : 'sodium in mg'},
+  "ingredients": [{"name": "${isHebrew ? 'שם מרכיב' : 'ingredient name'}", "serving_size_g": ${isHebrew ? 'משקל בגרמים' : 'grams'}, "calories": ${isHebrew ? 'קלוריות' : 'calories'}, "protein": 0, "carbs": 0, "fat": 0, "fiber": 0, "sugar": 0, "sodium_mg": 0}],
+  "confidence": ${isHebrew ? 'רמת ביטחון 1-100' : 'confidence 1-100'},
+  "servingSize": "${isHebrew ? 'גודל מנה' : 'serving size'}",
+  "cookingMethod": "${isHebrew ? 'שיטת הכנה' : 'cooking method'}",
+  "healthNotes": "${isHebrew ? 'הערות בריאות' : 'health notes'}"
+}`;
+
+    return `${basePrompt}
+${transcriptNote}
+
+${updateText ? (isHebrew ? 'עדכן את הניתוח לפי:' : 'Update analysis based on:') + updateText : ''}
+${editedIngredients.length > 0 ? (isHebrew ? 'מרכיבים ערוכים:' : 'Edited ingredients:') + JSON.stringify(editedIngredients) : ''}
+
+${isHebrew ? 'החזר JSON בלבד:' : 'Return only JSON:'} ${jsonStructure}`;
+  }
+
   private static createOptimizedSystemPrompt(
     isHebrew: boolean,
     updateText?: string,
@@ -178,7 +385,7 @@ export class OpenAIService {
   "fiber": ${isHebrew ? 'סיבים בגרמים' : 'fiber in grams'},
   "sugar": ${isHebrew ? 'סוכר בגרמים' : 'sugar in grams'},
   "sodium": ${isHebrew ? 'נתרן במילגרם' : 'sodium in mg'},
-  "ingredients": [{"name": "${isHebrew ? 'שם מרכיב' : 'ingredient name'}", "calories": ${isHebrew ? 'קלוריות' : 'calories'}}],
+  "ingredients": [{"name": "${isHebrew ? 'שם מרכיב' : 'ingredient name'}", "serving_size_g": ${isHebrew ? 'משקל משוער בגרמים' : 'estimated grams'}, "calories": ${isHebrew ? 'קלוריות' : 'calories'}, "protein": 0, "carbs": 0, "fat": 0}],
   "confidence": ${isHebrew ? 'רמת ביטחון 1-100' : 'confidence 1-100'},
   "servingSize": "${isHebrew ? 'גודל מנה' : 'serving size'}",
   "cookingMethod": "${isHebrew ? 'שיטת הכנה' : 'cooking method'}",
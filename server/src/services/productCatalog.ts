@@ -0,0 +1,587 @@
+import fs from "fs";
+import readline from "readline";
+import zlib from "zlib";
+import {
+  CorrectionStatus,
+  FoodProduct,
+  Prisma,
+  ProductSource,
+} from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  ProductCorrectionInput,
+  ProductData,
+  ProductNutrition,
+  ProductSubmissionInput,
+} from "../types/productCatalog";
+import {
+  hasNutritionFacts,
+  mapOpenFoodFactsProduct,
+} from "../utils/openFoodFacts";
+
+// A product's nutrition is only replaced from a source at least as
+// trustworthy as the one it came from; accepted user corrections outrank
+// OpenFoodFacts, which is often wrong for Israeli products
+const SOURCE_TRUST: Record<ProductSource, number> = {
+  AI_IMAGE_SCAN: 0,
+  OPEN_FOOD_FACTS: 1,
+  USER_SUBMISSION: 2,
+};
+
+// Net votes (approvals minus rejections) that accept or reject a correction
+const CORRECTION_VOTE_THRESHOLD = 3;
+
+const BARCODE_PATTERN = /^\d{8,14}$/;
+
+export class ProductCatalogError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "ProductCatalogError";
+  }
+}
+
+export interface OpenFoodFactsImportOptions {
+  // Only import products sold in this country, e.g. "israel"
+  country?: string;
+  batchSize: number;
+  dryRun: boolean;
+}
+
+interface ImportSummary {
+  read: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  invalid: number;
+}
+
+function sameNutrition(a: unknown, b: unknown): boolean {
+  const left = (a || {}) as Record<string, unknown>;
+  const right = (b || {}) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return [...keys].every(
+    (key) => Number(left[key] ?? 0) === Number(right[key] ?? 0)
+  );
+}
+
+function asStringList(value: Prisma.JsonValue): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+function productFields(data: ProductData) {
+  return {
+    product_name: data.name,
+    brand: data.brand,
+    category: data.category,
+    ingredients: data.ingredients || [],
+    allergens: data.allergens || [],
+    labels: data.labels || [],
+    health_score: data.health_score,
+    image_url: data.image_url,
+  };
+}
+
+export function toProductData(product: FoodProduct): ProductData {
+  return {
+    barcode: product.barcode,
+    name: product.product_name,
+    brand: product.brand || undefined,
+    category: product.category,
+    nutrition_per_100g: product.nutrition_per_100g as ProductNutrition,
+    ingredients: asStringList(product.ingredients),
+    allergens: asStringList(product.allergens),
+    labels: asStringList(product.labels),
+    health_score: product.health_score || undefined,
+    image_url: product.image_url || undefined,
+    source: product.source,
+    nutrition_version: product.nutrition_version,
+  };
+}
+
+export class ProductCatalogService {
+  static async findByBarcode(barcode: string) {
+    return prisma.foodProduct.findUnique({ where: { barcode } });
+  }
+
+  /**
+   * Adds a product to the catalog, or refreshes an existing one when the new
+   * data comes from a source at least as trusted as the current one. A
+   * nutrition change is saved as a new version.
+   */
+  static async recordProduct(
+    data: ProductData,
+    barcode: string,
+    source: ProductSource,
+    userId?: string
+  ): Promise<FoodProduct> {
+    const existing = await this.findByBarcode(barcode);
+
+    if (!existing) {
+      return prisma.foodProduct.create({
+        data: {
+          barcode,
+          user_id: userId,
+          source,
+          ...productFields(data),
+          nutrition_per_100g: data.nutrition_per_100g,
+          versions: {
+            create: {
+              version: 1,
+              nutrition_per_100g: data.nutrition_per_100g,
+              source,
+              created_by: userId,
+            },
+          },
+        },
+      });
+    }
+
+    if (SOURCE_TRUST[source] < SOURCE_TRUST[existing.source]) {
+      return existing;
+    }
+
+    return prisma.$transaction((tx) =>
+      this.updateProduct(tx, existing, data.nutrition_per_100g, source, {
+        data: productFields(data),
+        created_by: userId,
+      })
+    );
+  }
+
+  static async recordScan(userId: string, productId: number) {
+    await prisma.productScan.create({
+      data: { user_id: userId, product_id: productId },
+    });
+  }
+
+  // The user's most recently scanned products, each listed once
+  static async getRecentScans(userId: string, take: number) {
+    return prisma.productScan.findMany({
+      where: { user_id: userId },
+      orderBy: { scanned_at: "desc" },
+      distinct: ["product_id"],
+      take,
+      include: { product: true },
+    });
+  }
+
+  static async getProduct(barcode: string) {
+    const product = await this.getProductOrThrow(barcode);
+    const pendingCorrections = await prisma.productCorrection.count({
+      where: { product_id: product.product_id, status: "PENDING" },
+    });
+    return { ...toProductData(product), pending_corrections: pendingCorrections };
+  }
+
+  // Adds a product OpenFoodFacts doesn't have, typed in from its label
+  static async submitProduct(userId: string, input: ProductSubmissionInput) {
+    if (await this.findByBarcode(input.barcode)) {
+      throw new ProductCatalogError(
+        "This product is already in the catalog; suggest a correction instead",
+        409
+      );
+    }
+
+    const product = await this.recordProduct(
+      { ...input, brand: input.brand || undefined },
+      input.barcode,
+      "USER_SUBMISSION",
+      userId
+    );
+    await this.recordScan(userId, product.product_id);
+
+    console.log(`🏷️ User ${userId} added product ${input.barcode}`);
+    return toProductData(product);
+  }
+
+  static async getVersions(barcode: string) {
+    const product = await this.getProductOrThrow(barcode);
+    return prisma.foodProductVersion.findMany({
+      where: { product_id: product.product_id },
+      orderBy: { version: "desc" },
+    });
+  }
+
+  static async getCorrections(
+    userId: string,
+    barcode: string,
+    status: CorrectionStatus
+  ) {
+    const product = await this.getProductOrThrow(barcode);
+    const corrections = await prisma.productCorrection.findMany({
+      where: { product_id: product.product_id, status },
+      orderBy: { created_at: "desc" },
+      include: { votes: { where: { user_id: userId } } },
+    });
+
+    return corrections.map(({ votes, ...correction }) => ({
+      ...correction,
+      is_mine: correction.user_id === userId,
+      my_vote: votes[0] ? votes[0].approve : null,
+    }));
+  }
+
+  static async submitCorrection(
+    userId: string,
+    barcode: string,
+    input: ProductCorrectionInput
+  ) {
+    const product = await this.getProductOrThrow(barcode);
+
+    const pending = await prisma.productCorrection.findFirst({
+      where: {
+        product_id: product.product_id,
+        user_id: userId,
+        status: "PENDING",
+      },
+    });
+    if (pending) {
+      throw new ProductCatalogError(
+        "You already have a correction waiting for votes on this product",
+        409
+      );
+    }
+    const renames =
+      (input.product_name && input.product_name !== product.product_name) ||
+      (input.brand && input.brand !== product.brand);
+    if (
+      !renames &&
+      sameNutrition(input.nutrition_per_100g, product.nutrition_per_100g)
+    ) {
+      throw new ProductCatalogError("The correction doesn't change anything");
+    }
+
+    const correction = await prisma.productCorrection.create({
+      data: {
+        product_id: product.product_id,
+        user_id: userId,
+        nutrition_per_100g: input.nutrition_per_100g,
+        product_name: input.product_name,
+        brand: input.brand,
+        note: input.note,
+        base_version: product.nutrition_version,
+      },
+    });
+
+    console.log(`✏️ Correction ${correction.correction_id} for ${barcode}`);
+    return correction;
+  }
+
+  /**
+   * Records a user's vote. Once approvals lead rejections by
+   * CORRECTION_VOTE_THRESHOLD the correction becomes the product's next
+   * nutrition version; trailing by as much rejects it. A correction written
+   * against an older version than the product's current one is superseded
+   * instead, so it can't overwrite values it never saw.
+   */
+  static async voteOnCorrection(
+    userId: string,
+    correctionId: string,
+    approve: boolean
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const correction = await tx.productCorrection.findUnique({
+        where: { correction_id: correctionId },
+        include: { product: true },
+      });
+      if (!correction) {
+        throw new ProductCatalogError("Correction not found", 404);
+      }
+      if (correction.status !== "PENDING") {
+        throw new ProductCatalogError("Voting on this correction has closed", 409);
+      }
+      if (correction.user_id === userId) {
+        throw new ProductCatalogError("You can't vote on your own correction", 403);
+      }
+      if (correction.base_version !== correction.product.nutrition_version) {
+        console.log(`⏭️ Correction ${correctionId} superseded`);
+        return tx.productCorrection.update({
+          where: { correction_id: correctionId },
+          data: { status: "SUPERSEDED", resolved_at: new Date() },
+        });
+      }
+
+      await tx.productCorrectionVote.upsert({
+        where: {
+          correction_id_user_id: { correction_id: correctionId, user_id: userId },
+        },
+        update: { approve },
+        create: { correction_id: correctionId, user_id: userId, approve },
+      });
+
+      const [approvals, rejections] = await Promise.all([
+        tx.productCorrectionVote.count({
+          where: { correction_id: correctionId, approve: true },
+        }),
+        tx.productCorrectionVote.count({
+          where: { correction_id: correctionId, approve: false },
+        }),
+      ]);
+
+      let status: CorrectionStatus = "PENDING";
+      if (approvals - rejections >= CORRECTION_VOTE_THRESHOLD) {
+        // Locks the product row: a concurrent accept waits here, then finds
+        // the version already moved on
+        const claimed = await tx.foodProduct.updateMany({
+          where: {
+            product_id: correction.product_id,
+            nutrition_version: correction.base_version,
+          },
+          data: { updated_at: new Date() },
+        });
+
+        if (claimed.count === 0) {
+          status = "SUPERSEDED";
+          console.log(`⏭️ Correction ${correctionId} superseded`);
+        } else {
+          status = "ACCEPTED";
+          const product = await this.updateProduct(
+            tx,
+            correction.product,
+            correction.nutrition_per_100g,
+            "USER_SUBMISSION",
+            {
+              data: {
+                ...(correction.product_name && {
+                  product_name: correction.product_name,
+                }),
+                ...(correction.brand && { brand: correction.brand }),
+              },
+              correction_id: correction.correction_id,
+              created_by: correction.user_id,
+            }
+          );
+
+          // Other pending corrections were written against the old values
+          if (product.nutrition_version !== correction.base_version) {
+            await tx.productCorrection.updateMany({
+              where: {
+                product_id: correction.product_id,
+                status: "PENDING",
+                correction_id: { not: correctionId },
+              },
+              data: { status: "SUPERSEDED", resolved_at: new Date() },
+            });
+          }
+          console.log(
+            `✅ Correction ${correctionId} accepted for ${correction.product.barcode}`
+          );
+        }
+      } else if (rejections - approvals >= CORRECTION_VOTE_THRESHOLD) {
+        status = "REJECTED";
+        console.log(`🚫 Correction ${correctionId} rejected`);
+      }
+
+      return tx.productCorrection.update({
+        where: { correction_id: correctionId },
+        data: {
+          approvals,
+          rejections,
+          status,
+          resolved_at: status === "PENDING" ? null : new Date(),
+        },
+      });
+    });
+  }
+
+  static async withdrawCorrection(userId: string, correctionId: string) {
+    const correction = await prisma.productCorrection.findFirst({
+      where: { correction_id: correctionId, user_id: userId },
+    });
+    if (!correction) throw new ProductCatalogError("Correction not found", 404);
+    if (correction.status !== "PENDING") {
+      throw new ProductCatalogError("Voting on this correction has closed", 409);
+    }
+
+    await prisma.productCorrection.update({
+      where: { correction_id: correctionId },
+      data: { status: "WITHDRAWN", resolved_at: new Date() },
+    });
+  }
+
+  /**
+   * Loads an OpenFoodFacts JSONL dump (optionally gzipped) into the catalog,
+   * so scans work without reaching the OFF API. Existing products follow the
+   * same rules as a live lookup: user-corrected nutrition is never replaced.
+   */
+  static async importOpenFoodFacts(
+    filePath: string,
+    options: OpenFoodFactsImportOptions
+  ): Promise<ImportSummary> {
+    const summary: ImportSummary = {
+      read: 0,
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      invalid: 0,
+    };
+    const countryTag = options.country
+      ? `en:${options.country.toLowerCase()}`
+      : null;
+
+    let input: NodeJS.ReadableStream = fs.createReadStream(filePath);
+    if (filePath.endsWith(".gz")) input = input.pipe(zlib.createGunzip());
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    console.log(
+      `📦 Importing OpenFoodFacts dump ${filePath}${
+        countryTag ? ` (${countryTag})` : ""
+      }${options.dryRun ? " [dry run]" : ""}`
+    );
+
+    let batch = new Map<string, ProductData>();
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      summary.read++;
+
+      let raw: Record<string, any>;
+      try {
+        raw = JSON.parse(line);
+      } catch {
+        summary.invalid++;
+        continue;
+      }
+      if (countryTag && !raw.countries_tags?.includes(countryTag)) {
+        summary.skipped++;
+        continue;
+      }
+
+      const product = mapOpenFoodFactsProduct(raw);
+      if (!BARCODE_PATTERN.test(product.barcode!) || !hasNutritionFacts(product)) {
+        summary.invalid++;
+        continue;
+      }
+
+      batch.set(product.barcode!, product);
+      if (batch.size >= options.batchSize) {
+        await this.importBatch(batch, options.dryRun, summary);
+        batch = new Map();
+      }
+    }
+    if (batch.size > 0) {
+      await this.importBatch(batch, options.dryRun, summary);
+    }
+
+    console.log("✅ OpenFoodFacts import finished:", summary);
+    return summary;
+  }
+
+  private static async importBatch(
+    batch: Map<string, ProductData>,
+    dryRun: boolean,
+    summary: ImportSummary
+  ) {
+    const existing = await prisma.foodProduct.findMany({
+      where: { barcode: { in: [...batch.keys()] } },
+    });
+    const existingByBarcode = new Map(existing.map((p) => [p.barcode, p]));
+
+    const toCreate: ProductData[] = [];
+    const toUpdate: [FoodProduct, ProductData][] = [];
+    for (const [barcode, product] of batch) {
+      const current = existingByBarcode.get(barcode);
+      if (!current) {
+        toCreate.push(product);
+      } else if (
+        SOURCE_TRUST[current.source] <= SOURCE_TRUST.OPEN_FOOD_FACTS &&
+        !sameNutrition(current.nutrition_per_100g, product.nutrition_per_100g)
+      ) {
+        toUpdate.push([current, product]);
+      } else {
+        summary.skipped++;
+      }
+    }
+
+    // In a dry run every new barcode counts as created
+    let createdCount = toCreate.length;
+    if (!dryRun) {
+      const created = await prisma.foodProduct.createManyAndReturn({
+        data: toCreate.map((product) => ({
+          barcode: product.barcode!,
+          source: "OPEN_FOOD_FACTS" as const,
+          ...productFields(product),
+          nutrition_per_100g: product.nutrition_per_100g,
+        })),
+        skipDuplicates: true,
+      });
+      await prisma.foodProductVersion.createMany({
+        data: created.map((product) => ({
+          product_id: product.product_id,
+          version: 1,
+          nutrition_per_100g: product.nutrition_per_100g as Prisma.InputJsonValue,
+          source: "OPEN_FOOD_FACTS" as const,
+        })),
+      });
+      // Barcodes added by a scan since the batch was looked up
+      summary.skipped += toCreate.length - created.length;
+      createdCount = created.length;
+
+      for (const [current, product] of toUpdate) {
+        await prisma.$transaction((tx) =>
+          this.updateProduct(
+            tx,
+            current,
+            product.nutrition_per_100g,
+            "OPEN_FOOD_FACTS",
+            { data: productFields(product) }
+          )
+        );
+      }
+    }
+
+    summary.created += createdCount;
+    summary.updated += toUpdate.length;
+    console.log(
+      `📦 ${summary.read} read, ${summary.created} created, ${summary.updated} updated`
+    );
+  }
+
+  // Saves product changes, writing a new nutrition version when the values
+  // differ from the current ones
+  private static async updateProduct(
+    tx: Prisma.TransactionClient,
+    product: FoodProduct,
+    nutrition: Prisma.JsonValue,
+    source: ProductSource,
+    change: {
+      data?: Prisma.FoodProductUpdateInput;
+      correction_id?: string;
+      created_by?: string;
+    }
+  ) {
+    if (sameNutrition(product.nutrition_per_100g, nutrition)) {
+      return tx.foodProduct.update({
+        where: { product_id: product.product_id },
+        data: change.data ?? {},
+      });
+    }
+
+    const version = product.nutrition_version + 1;
+    await tx.foodProductVersion.create({
+      data: {
+        product_id: product.product_id,
+        version,
+        nutrition_per_100g: nutrition as Prisma.InputJsonValue,
+        source,
+        correction_id: change.correction_id,
+        created_by: change.created_by,
+      },
+    });
+
+    return tx.foodProduct.update({
+      where: { product_id: product.product_id },
+      data: {
+        ...change.data,
+        nutrition_per_100g: nutrition as Prisma.InputJsonValue,
+        nutrition_version: version,
+        source,
+      },
+    });
+  }
+
+  private static async getProductOrThrow(barcode: string) {
+    const product = await this.findByBarcode(barcode);
+    if (!product) throw new ProductCatalogError("Product not found", 404);
+    return product;
+  }
+}
@@ -0,0 +1,299 @@
+import crypto from "crypto";
+import { Prisma, Recipe } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { FoodRecord } from "../lib/foods";
+import { FoodDatabaseService } from "./foodDatabase";
+import { buildMealIngredient, NutritionService } from "./nutrition";
+import { MealIngredientCreateInput } from "../types/nutrition";
+import {
+  RecipeCreateInput,
+  RecipeFromMealInput,
+  RecipeLogInput,
+  RecipeUpdateInput,
+} from "../types/recipes";
+import {
+  INGREDIENT_TOTAL_FIELDS,
+  MealIngredient,
+  parseMealIngredients,
+  scaleMealIngredient,
+} from "../utils/nutrition";
+
+// Ingredient nutrients a recipe keeps totals for
+const RECIPE_NUTRIENTS = [
+  "calories",
+  "protein",
+  "carbs",
+  "fat",
+  "fiber",
+  "sugar",
+  "sodium_mg",
+] as const;
+
+type RecipeTotalColumn =
+  (typeof INGREDIENT_TOTAL_FIELDS)[(typeof RECIPE_NUTRIENTS)[number]];
+
+const RECIPE_TOTAL_COLUMNS = RECIPE_NUTRIENTS.map(
+  (nutrient) => INGREDIENT_TOTAL_FIELDS[nutrient]
+);
+
+export class RecipeError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "RecipeError";
+  }
+}
+
+function roundAmount(value: number, column: string): number {
+  return column === "calories" || column === "sodium_mg"
+    ? Math.round(value)
+    : Math.round(value * 10) / 10;
+}
+
+// Multiplies every nutrient column by factor: the batch divided by its
+// servings for one portion, or scaled up for "1.5 servings"
+function scaleTotals(recipe: Recipe, factor: number) {
+  const totals = {} as Record<RecipeTotalColumn, number>;
+  for (const column of RECIPE_TOTAL_COLUMNS) {
+    totals[column] = roundAmount(recipe[column] * factor, column);
+  }
+  return totals;
+}
+
+function sumIngredients(ingredients: MealIngredient[]) {
+  const totals = {} as Record<RecipeTotalColumn, number>;
+  for (const nutrient of RECIPE_NUTRIENTS) {
+    const column = INGREDIENT_TOTAL_FIELDS[nutrient];
+    totals[column] = roundAmount(
+      ingredients.reduce((total, ingredient) => total + ingredient[nutrient], 0),
+      column
+    );
+  }
+  const weight = ingredients.reduce(
+    (total, ingredient) => total + ingredient.serving_size_g,
+    0
+  );
+  return { ...totals, total_weight_g: weight > 0 ? Math.round(weight) : null };
+}
+
+function serialize(recipe: Recipe) {
+  const factor = 1 / recipe.servings;
+  return {
+    ...recipe,
+    ingredients: parseMealIngredients(recipe.ingredients),
+    per_serving: {
+      ...scaleTotals(recipe, factor),
+      weight_g: recipe.total_weight_g
+        ? Math.round(recipe.total_weight_g * factor)
+        : null,
+    },
+  };
+}
+
+// What someone opening a share link sees: the recipe, not who owns it
+function serializeShared(recipe: Recipe) {
+  const { user_id, share_token, source_meal_id, ...shared } =
+    serialize(recipe);
+  return shared;
+}
+
+export class RecipeService {
+  static async getRecipes(userId: string) {
+    const recipes = await prisma.recipe.findMany({
+      where: { user_id: userId },
+      orderBy: { updated_at: "desc" },
+    });
+    return recipes.map(serialize);
+  }
+
+  static async getRecipe(userId: string, recipeId: string) {
+    return serialize(await this.findOwnedRecipe(userId, recipeId));
+  }
+
+  static async createRecipe(userId: string, input: RecipeCreateInput) {
+    const ingredients = this.buildIngredients(input.ingredients);
+
+    const recipe = await prisma.recipe.create({
+      data: {
+        user_id: userId,
+        name: input.name,
+        description: input.description ?? null,
+        servings: input.servings,
+        ingredients: ingredients as unknown as Prisma.InputJsonValue,
+        ...sumIngredients(ingredients),
+      },
+    });
+
+    console.log(`📖 Created recipe "${recipe.name}" for user ${userId}`);
+    return serialize(recipe);
+  }
+
+  /**
+   * Saves an analyzed meal as a recipe. The meal is taken as the whole
+   * batch, so its totals are kept as they are rather than re-summed from
+   * ingredients that may not add up to them.
+   */
+  static async createRecipeFromMeal(
+    userId: string,
+    mealId: string,
+    input: RecipeFromMealInput
+  ) {
+    const id = Number(mealId);
+    const meal = Number.isInteger(id)
+      ? await prisma.meal.findFirst({ where: { meal_id: id, user_id: userId } })
+      : null;
+    if (!meal) throw new RecipeError("Meal not found", 404);
+
+    const ingredients = parseMealIngredients(meal.ingredients);
+    const totals = {} as Record<RecipeTotalColumn, number>;
+    for (const column of RECIPE_TOTAL_COLUMNS) {
+      totals[column] = meal[column] ?? 0;
+    }
+
+    const recipe = await prisma.recipe.create({
+      data: {
+        user_id: userId,
+        name: input.name ?? meal.meal_name ?? "My recipe",
+        description: input.description ?? null,
+        servings: input.servings,
+        ingredients: ingredients as unknown as Prisma.InputJsonValue,
+        ...totals,
+        total_weight_g:
+          meal.serving_size_g || sumIngredients(ingredients).total_weight_g,
+        source_meal_id: meal.meal_id,
+      },
+    });
+
+    console.log(`📖 Saved meal ${meal.meal_id} as recipe ${recipe.recipe_id}`);
+    return serialize(recipe);
+  }
+
+  static async updateRecipe(
+    userId: string,
+    recipeId: string,
+    input: RecipeUpdateInput
+  ) {
+    await this.findOwnedRecipe(userId, recipeId);
+    const { ingredients: ingredientInputs, ...details } = input;
+
+    let ingredientData: Prisma.RecipeUpdateInput = {};
+    if (ingredientInputs) {
+      const ingredients = this.buildIngredients(ingredientInputs);
+      ingredientData = {
+        ingredients: ingredients as unknown as Prisma.InputJsonValue,
+        ...sumIngredients(ingredients),
+      };
+    }
+
+    const recipe = await prisma.recipe.update({
+      where: { recipe_id: recipeId },
+      data: { ...details, ...ingredientData },
+    });
+    return serialize(recipe);
+  }
+
+  static async deleteRecipe(userId: string, recipeId: string) {
+    await this.findOwnedRecipe(userId, recipeId);
+    await prisma.recipe.delete({ where: { recipe_id: recipeId } });
+    console.log(`🗑️ Deleted recipe ${recipeId}`);
+  }
+
+  // Logs a number of servings as a meal, with every nutrient and ingredient
+  // scaled to that share of the batch
+  static async logServings(
+    userId: string,
+    recipeId: string,
+    input: RecipeLogInput
+  ) {
+    const recipe = await this.findOwnedRecipe(userId, recipeId);
+    const { servings, ...timing } = input;
+    const factor = servings / recipe.servings;
+
+    console.log(`🍽️ Logging ${servings} serving(s) of recipe ${recipeId}`);
+    return NutritionService.saveMeal(userId, {
+      meal_name:
+        servings === 1 ? recipe.name : `${recipe.name} (${servings} servings)`,
+      ...scaleTotals(recipe, factor),
+      serving_size_g: recipe.total_weight_g
+        ? Math.round(recipe.total_weight_g * factor)
+        : 0,
+      ingredients: parseMealIngredients(recipe.ingredients).map((ingredient) =>
+        scaleMealIngredient(ingredient, factor)
+      ),
+      cooking_method: "Home recipe",
+      ...timing,
+    });
+  }
+
+  // Turns on the share link, keeping the existing one if already shared
+  static async shareRecipe(userId: string, recipeId: string) {
+    const recipe = await this.findOwnedRecipe(userId, recipeId);
+    if (recipe.share_token) return { share_token: recipe.share_token };
+
+    const updated = await prisma.recipe.update({
+      where: { recipe_id: recipeId },
+      data: { share_token: crypto.randomBytes(18).toString("base64url") },
+    });
+    return { share_token: updated.share_token! };
+  }
+
+  // Revokes the share link; copies already saved by others are theirs
+  static async unshareRecipe(userId: string, recipeId: string) {
+    await this.findOwnedRecipe(userId, recipeId);
+    await prisma.recipe.update({
+      where: { recipe_id: recipeId },
+      data: { share_token: null },
+    });
+  }
+
+  static async getSharedRecipe(shareToken: string) {
+    return serializeShared(await this.findSharedRecipe(shareToken));
+  }
+
+  // Saves a copy of a shared recipe to the caller's own recipes
+  static async copySharedRecipe(userId: string, shareToken: string) {
+    const shared = await this.findSharedRecipe(shareToken);
+    if (shared.user_id === userId) return serialize(shared);
+
+    const recipe = await prisma.recipe.create({
+      data: {
+        user_id: userId,
+        name: shared.name,
+        description: shared.description,
+        servings: shared.servings,
+        ingredients: shared.ingredients as Prisma.InputJsonValue,
+        total_weight_g: shared.total_weight_g,
+        ...scaleTotals(shared, 1),
+      },
+    });
+
+    console.log(`📖 Copied shared recipe ${shared.recipe_id} for user ${userId}`);
+    return serialize(recipe);
+  }
+
+  private static buildIngredients(inputs: MealIngredientCreateInput[]) {
+    return inputs.map((input, index) => {
+      let food: FoodRecord | undefined;
+      if (input.food_id) {
+        food = FoodDatabaseService.getFood(input.food_id) ?? undefined;
+        if (!food) throw new RecipeError("Food not found", 404);
+      }
+      return buildMealIngredient(input, index, food);
+    });
+  }
+
+  private static async findOwnedRecipe(userId: string, recipeId: string) {
+    const recipe = await prisma.recipe.findFirst({
+      where: { recipe_id: recipeId, user_id: userId },
+    });
+    if (!recipe) throw new RecipeError("Recipe not found", 404);
+    return recipe;
+  }
+
+  private static async findSharedRecipe(shareToken: string) {
+    const recipe = await prisma.recipe.findUnique({
+      where: { share_token: shareToken },
+    });
+    if (!recipe) throw new RecipeError("This recipe is no longer shared", 404);
+    return recipe;
+  }
+}
@@ -1,5 +1,23 @@
 import { OpenAIService } from "./openai";
 import { prisma } from "../lib/database";
+import { ShoppingListService } from "./shoppingLists";
+import {
+  FoodSafetyError,
+  FoodSafetyService,
+  warningsJson,
+} from "./foodSafety";
+import {
+  FoodSafetyProfile,
+  FoodSafetyViolation,
+  FoodToCheck,
+} from "../types/foodSafety";
+import {
+  buildFoodSafetyProfile,
+  checkFood,
+  describeFoodSafetyRules,
+  isBlocked,
+  summarizeViolations,
+} from "../utils/foodSafety";
 
 export interface MenuGenerationRequest {
   userId: string;
@@ -18,6 +36,28 @@ export interface CustomMenuGenerationRequest extends MenuGenerationRequest {
   customRequest: string;
 }
 
+// Menu meals from the AI carry Hebrew and English names for the dish and
+// each ingredient; saved meals only the Hebrew ones
+function describeMenuMeal(meal: any): FoodToCheck {
+  const ingredients: any[] = Array.isArray(meal.ingredients)
+    ? meal.ingredients
+    : [];
+  const parts = [
+    meal.name_english,
+    ...ingredients.flatMap((ingredient) =>
+      typeof ingredient === "string"
+        ? [ingredient]
+        : [ingredient?.name, ingredient?.name_english]
+    ),
+  ].filter((part): part is string => typeof part === "string");
+
+  return {
+    name: meal.name || meal.name_english || "ארוחה",
+    parts,
+    carbs_g: typeof meal.carbs === "number" ? meal.carbs : null,
+  };
+}
+
 export class RecommendedMenuService {
   static async generateCustomMenu(request: CustomMenuGenerationRequest) {
     const {
@@ -76,12 +116,25 @@ export class RecommendedMenuService {
         totalCalories: menuData.total_calories,
       });
 
+      // Swap or drop meals that break the user's allergies and food rules
+      const findings = await this.screenMenuMeals(
+        userId,
+        questionnaire,
+        menuData
+      );
+
       // Save complete menu to database
       const savedMenu = await this.saveCompleteMenuToDatabase(userId, menuData);
       console.log(
         "💾 Custom menu saved successfully with ID:",
         savedMenu.menu_id
       );
+      await FoodSafetyService.recordFindings(
+        userId,
+        "RECOMMENDED_MENU",
+        savedMenu.menu_id,
+        findings
+      );
 
       return savedMenu;
     } catch (error) {
@@ -138,9 +191,22 @@ export class RecommendedMenuService {
         totalCalories: menuData.total_calories,
       });
 
+      // Swap or drop meals that break the user's allergies and food rules
+      const findings = await this.screenMenuMeals(
+        userId,
+        questionnaire,
+        menuData
+      );
+
       // Save complete menu to database
       const savedMenu = await this.saveCompleteMenuToDatabase(userId, menuData);
       console.log("💾 Menu saved successfully with ID:", savedMenu.menu_id);
+      await FoodSafetyService.recordFindings(
+        userId,
+        "RECOMMENDED_MENU",
+        savedMenu.menu_id,
+        findings
+      );
 
       return savedMenu;
     } catch (error) {
@@ -149,6 +215,115 @@ export class RecommendedMenuService {
     }
   }
 
+  // Replaces the menu's meals with the ones that passed screening, soft
+  // warnings attached, and returns what was found for the record
+  private static async screenMenuMeals(
+    userId: string,
+    questionnaire: any,
+    menuData: any
+  ) {
+    if (!Array.isArray(menuData.meals) || menuData.meals.length === 0) {
+      return [];
+    }
+
+    const profile = buildFoodSafetyProfile(questionnaire);
+    const { items, findings } = await FoodSafetyService.screen(
+      profile,
+      menuData.meals,
+      {
+        describe: describeMenuMeal,
+        regenerate: (meal, violations) =>
+          this.regenerateMenuMeal(profile, meal, violations),
+      }
+    );
+
+    if (items.length === 0) {
+      await FoodSafetyService.recordFindings(
+        userId,
+        "RECOMMENDED_MENU",
+        null,
+        findings
+      );
+      throw new FoodSafetyError(
+        "Couldn't put together meals that fit your allergies and dietary rules. Please try again."
+      );
+    }
+
+    menuData.meals = items.map(({ item, warnings }) => ({
+      ...item,
+      safety_flags: warnings,
+    }));
+    return findings;
+  }
+
+  // A meal in place of one the user can't eat: from the AI when it answers
+  // with usable JSON, otherwise from the fixed replacement options
+  private static async regenerateMenuMeal(
+    profile: FoodSafetyProfile,
+    meal: any,
+    violations: FoodSafetyViolation[]
+  ) {
+    const prompt = `Replace this meal, which the user can't eat: "${
+      meal.name_english || meal.name
+    }" (${meal.meal_type}, day ${meal.day_number})
+Rejected because: ${summarizeViolations(violations)}
+
+${describeFoodSafetyRules(profile)}
+
+Keep it near ${meal.calories}cal, ${meal.protein}g protein, ${
+      meal.carbs
+    }g carbs, ${meal.fat}g fat.
+
+Return ONLY JSON:
+{
+  "name": "שם ארוחה",
+  "name_english": "Meal Name",
+  "calories": ${meal.calories || 0},
+  "protein": ${meal.protein || 0},
+  "carbs": ${meal.carbs || 0},
+  "fat": ${meal.fat || 0},
+  "fiber": ${meal.fiber || 0},
+  "prep_time_minutes": 20,
+  "cooking_method": "בישול",
+  "instructions": ["הכנה"],
+  "ingredients": [
+    {
+      "name": "מרכיב",
+      "name_english": "Ingredient",
+      "quantity": 100,
+      "unit": "גרם",
+      "category": "protein",
+      "estimated_cost": 10
+    }
+  ]
+}`;
+
+    try {
+      const response = await OpenAIService.generateText(prompt, 800);
+      const parsed = JSON.parse(response);
+      if (
+        parsed?.name &&
+        Array.isArray(parsed.ingredients) &&
+        parsed.ingredients.length > 0
+      ) {
+        return {
+          ...parsed,
+          meal_type: meal.meal_type,
+          day_number: meal.day_number,
+        };
+      }
+    } catch (error) {
+      console.log("⚠️ AI replacement meal unusable, using fixed options");
+    }
+
+    const fallback = await this.generateReplacementMeal(meal, {}, profile);
+    return {
+      ...fallback,
+      meal_type: meal.meal_type,
+      day_number: meal.day_number,
+    };
+  }
+
   private static calculateNutritionalNeeds(questionnaire: any) {
     const {
       age,
@@ -407,6 +582,9 @@ export class RecommendedMenuService {
     const likedFoodsText = Array.isArray(liked_foods)
       ? liked_foods.join(", ")
       : "";
+    const foodRules = describeFoodSafetyRules(
+      buildFoodSafetyProfile(questionnaire)
+    );
 
     return `Create custom menu for: "${customRequest}"
 
@@ -414,6 +592,7 @@ User: Goal=${main_goal}, Diet=${dietary_style}, Kosher=${kosher}, Budget=₪${bu
 Allergies: ${allergiesText}
 Avoid: ${dislikedFoodsText}
 Likes: ${likedFoodsText}
+${foodRules}
 
 Nutrition/day: ${nutritionalNeeds.calories}cal, ${
       nutritionalNeeds.protein
@@ -493,10 +672,14 @@ Create exactly ${totalMeals} varied meals matching "${customRequest}". Hebrew+En
     const totalBudget = budget * days;
     const goal = main_goal;
     const activityLevel = questionnaire.physical_activity_level;
+    const foodRules = describeFoodSafetyRules(
+      buildFoodSafetyProfile(questionnaire)
+    );
 
     const prompt = `Create a Hebrew daily menu for:
 Goal: ${goal}, Activity: ${activityLevel}, Diet: ${dietary_style}
 Allergies: ${allergies?.join(", ") || "None"}
+${foodRules}
 Calories: ${nutritionalNeeds.calories}, Protein: ${nutritionalNeeds.protein}g
 
 Return ONLY JSON:
@@ -1294,6 +1477,7 @@ Return ONLY JSON:
                 instructions: Array.isArray(mealData.instructions)
                   ? mealData.instructions.join(". ")
                   : mealData.instructions || "הוראות הכנה",
+                safety_flags: warningsJson(mealData.safety_flags || []),
               },
             });
 
@@ -1525,12 +1709,34 @@ Return ONLY JSON:
       throw new Error("Meal not found");
     }
 
-    // Generate a replacement meal using AI or fallback
-    const replacementMeal = await this.generateReplacementMeal(
-      currentMeal,
-      preferences
+    // Generate a replacement meal the user can eat
+    const profile = await FoodSafetyService.getProfile(userId);
+    const {
+      items: [replacement],
+      findings,
+    } = await FoodSafetyService.screen(
+      profile,
+      [await this.generateReplacementMeal(currentMeal, preferences, profile)],
+      {
+        describe: describeMenuMeal,
+        regenerate: () =>
+          this.generateReplacementMeal(currentMeal, preferences, profile),
+      }
+    );
+    await FoodSafetyService.recordFindings(
+      userId,
+      "MENU_MEAL_REPLACEMENT",
+      menuId,
+      findings
     );
 
+    if (!replacement) {
+      throw new FoodSafetyError(
+        "None of the replacement meals fit your allergies and dietary rules"
+      );
+    }
+    const replacementMeal = replacement.item;
+
     // Update the meal in database
     const updatedMeal = await prisma.recommendedMeal.update({
       where: { meal_id: mealId },
@@ -1544,6 +1750,7 @@ Return ONLY JSON:
         prep_time_minutes: replacementMeal.prep_time_minutes,
         cooking_method: replacementMeal.cooking_method,
         instructions: replacementMeal.instructions,
+        safety_flags: warningsJson(replacement.warnings),
         ingredients: {
           deleteMany: {},
           create: replacementMeal.ingredients.map((ingredient: any) => ({
@@ -1565,7 +1772,8 @@ Return ONLY JSON:
 
   private static async generateReplacementMeal(
     currentMeal: any,
-    preferences: any
+    preferences: any,
+    profile?: FoodSafetyProfile
   ) {
     // Enhanced replacement logic with multiple options
     const replacementOptions = [
@@ -1637,11 +1845,51 @@ Return ONLY JSON:
           },
         ],
       },
+      {
+        name: "קערת עדשים וירקות קלויים",
+        calories: currentMeal.calories,
+        protein: currentMeal.protein,
+        carbs: currentMeal.carbs,
+        fat: currentMeal.fat,
+        fiber: currentMeal.fiber,
+        prep_time_minutes: 25,
+        cooking_method: "בישול וצלייה",
+        instructions: "מבשלים עדשים, צולים ירקות ומערבבים עם שמן זית ולימון",
+        ingredients: [
+          {
+            name: "עדשים",
+            quantity: 80,
+            unit: "גרם",
+            category: "protein",
+            estimated_cost: 2.5,
+          },
+          {
+            name: "ירקות קלויים",
+            quantity: 150,
+            unit: "גרם",
+            category: "vegetables",
+            estimated_cost: 4.0,
+          },
+          {
+            name: "שמן זית",
+            quantity: 10,
+            unit: "מ״ל",
+            category: "fats",
+            estimated_cost: 1.5,
+          },
+        ],
+      },
     ];
 
-    return replacementOptions[
-      Math.floor(Math.random() * replacementOptions.length)
-    ];
+    // Prefer options the user can eat; callers still screen the pick
+    const suitable = profile
+      ? replacementOptions.filter(
+          (option) => !isBlocked(checkFood(profile, describeMenuMeal(option)))
+        )
+      : [];
+    const options = suitable.length > 0 ? suitable : replacementOptions;
+
+    return options[Math.floor(Math.random() * options.length)];
   }
 
   static async markMealAsFavorite(
@@ -1668,41 +1916,15 @@ Return ONLY JSON:
     console.log(`Meal ${mealId} feedback: ${liked ? "liked" : "disliked"}`);
   }
 
+  // Saves the menu's groceries as an editable shopping list, grouped by
+  // category for the menu screen
   static async generateShoppingList(userId: string, menuId: string) {
     console.log("🛒 Generating shopping list for menu:", menuId);
 
-    const menu = await this.getMenuById(userId, menuId);
-    if (!menu) {
-      throw new Error("Menu not found");
-    }
-
-    // Aggregate ingredients by category
-    const shoppingList = new Map();
-    let totalCost = 0;
-
-    menu.meals.forEach((meal: any) => {
-      meal.ingredients.forEach((ingredient: any) => {
-        const key = `${ingredient.name}_${ingredient.unit}`;
-        if (shoppingList.has(key)) {
-          const existing = shoppingList.get(key);
-          existing.quantity += ingredient.quantity;
-          existing.estimated_cost += ingredient.estimated_cost || 0;
-        } else {
-          shoppingList.set(key, {
-            name: ingredient.name,
-            quantity: ingredient.quantity,
-            unit: ingredient.unit,
-            category: ingredient.category,
-            estimated_cost: ingredient.estimated_cost || 0,
-          });
-        }
-        totalCost += ingredient.estimated_cost || 0;
-      });
-    });
+    const list = await ShoppingListService.generateFromMenu(userId, menuId);
 
-    // Group by category
     const categorizedList: { [key: string]: any[] } = {};
-    Array.from(shoppingList.values()).forEach((item: any) => {
+    list.items.forEach((item) => {
       if (!categorizedList[item.category]) {
         categorizedList[item.category] = [];
       }
@@ -1710,10 +1932,9 @@ Return ONLY JSON:
     });
 
     return {
-      menu_id: menuId,
-      total_estimated_cost: totalCost,
+      ...list,
       categories: categorizedList,
-      generated_at: new Date().toISOString(),
+      generated_at: list.updated_at.toISOString(),
     };
   }
 
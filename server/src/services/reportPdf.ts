@@ -0,0 +1,526 @@
+import PDFDocument from "pdfkit";
+import { DailyBreakdown, NutritionReportData } from "../types/statistics";
+
+type PDFDoc = PDFKit.PDFDocument;
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: "left" | "right" | "center";
+}
+
+const MARGIN = 50;
+const FOOTER_HEIGHT = 30;
+const ROW_HEIGHT = 18;
+
+const COLORS = {
+  primary: "#10b981",
+  text: "#1f2937",
+  muted: "#6b7280",
+  border: "#e5e7eb",
+  rowAlt: "#f9fafb",
+  onTarget: "#10b981",
+  under: "#f59e0b",
+  over: "#ef4444",
+};
+
+// A day counts as "on target" when intake lands within this band of the goal
+const ADHERENCE_LOW = 90;
+const ADHERENCE_HIGH = 110;
+
+export class ReportPDFService {
+  static render(report: NutritionReportData): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({
+          size: "A4",
+          margin: MARGIN,
+          bufferPages: true,
+          info: {
+            Title: "Nutrition Report",
+            Author: "Calo",
+            Subject: `Nutrition report ${this.formatDate(
+              report.startDate
+            )} - ${this.formatDate(report.endDate)}`,
+          },
+        });
+
+        const chunks: Buffer[] = [];
+        doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+        doc.on("end", () => resolve(Buffer.concat(chunks)));
+        doc.on("error", reject);
+
+        this.renderSummaryPage(doc, report);
+
+        doc.addPage();
+        this.renderDailyTable(doc, report.dailyBreakdown);
+
+        doc.addPage();
+        this.renderAdherencePage(doc, report.dailyBreakdown);
+
+        doc.addPage();
+        this.renderAchievementsPage(doc, report);
+
+        this.renderFooters(doc, report);
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  private static renderSummaryPage(doc: PDFDoc, report: NutritionReportData) {
+    doc
+      .fillColor(COLORS.primary)
+      .font("Helvetica-Bold")
+      .fontSize(24)
+      .text("Nutrition Report");
+
+    doc
+      .moveDown(0.3)
+      .fillColor(COLORS.text)
+      .font("Helvetica")
+      .fontSize(11)
+      .text(`Patient: ${report.user.name || report.user.email}`)
+      .text(
+        `Period: ${this.formatDate(report.startDate)} - ${this.formatDate(
+          report.endDate
+        )} (${report.period})`
+      )
+      .fillColor(COLORS.muted)
+      .text(`Generated: ${report.generatedAt.toISOString().split("T")[0]}`);
+
+    const { summary, streaks, wellbeing, gamification } = report;
+
+    this.renderSectionTitle(doc, "Daily averages (logged days)");
+    this.renderKeyValueRows(doc, [
+      ["Calories", `${summary.averageCalories} kcal`],
+      ["Protein", `${summary.averageProtein} g`],
+      ["Carbohydrates", `${summary.averageCarbs} g`],
+      ["Fats", `${summary.averageFats} g`],
+      ["Fiber", `${summary.averageFiber} g`],
+      ["Sugar", `${summary.averageSugar} g`],
+      ["Sodium", `${summary.averageSodium} mg`],
+      ["Fluids", `${summary.averageFluids} ml`],
+    ]);
+
+    this.renderSectionTitle(doc, "Consistency");
+    this.renderKeyValueRows(doc, [
+      ["Days with logged meals", `${summary.loggedDays} / ${summary.totalDays}`],
+      ["Successful days", `${summary.successfulDays}`],
+      ["Perfect days", `${summary.perfectDays}`],
+      ["Average goal completion", `${summary.averageCompletion}%`],
+      ["Current streak", `${streaks.currentStreak} days`],
+      ["Best streak", `${streaks.bestStreak} days`],
+      ["Weekly streak", `${streaks.weeklyStreak} weeks`],
+    ]);
+
+    this.renderSectionTitle(doc, "Wellbeing");
+    this.renderKeyValueRows(doc, [
+      ["Days checked in", `${wellbeing.checkInDays}`],
+      ["Happy days", `${wellbeing.happyDays}`],
+      ["High energy days", `${wellbeing.highEnergyDays}`],
+      ["Satisfied days", `${wellbeing.satisfiedDays}`],
+      ["Average meal quality", `${summary.averageMealQuality.toFixed(1)} / 5`],
+    ]);
+
+    this.renderSectionTitle(doc, "Progress");
+    this.renderKeyValueRows(doc, [
+      ["Level", `${gamification.level}`],
+      ["Current XP", `${gamification.currentXP}`],
+      ["Total points", `${gamification.totalPoints}`],
+    ]);
+  }
+
+  private static renderDailyTable(doc: PDFDoc, days: DailyBreakdown[]) {
+    this.renderPageTitle(doc, "Daily macros");
+
+    const columns: TableColumn[] = [
+      { header: "Date", width: 75 },
+      { header: "Calories", width: 65, align: "right" },
+      { header: "Goal", width: 55, align: "right" },
+      { header: "Protein g", width: 60, align: "right" },
+      { header: "Carbs g", width: 55, align: "right" },
+      { header: "Fats g", width: 50, align: "right" },
+      { header: "Fiber g", width: 50, align: "right" },
+      { header: "Water ml", width: 85, align: "right" },
+    ];
+
+    const rows = days.map((day) => [
+      day.date,
+      this.formatNumber(day.calories),
+      this.formatNumber(day.calories_goal),
+      this.formatNumber(day.protein_g),
+      this.formatNumber(day.carbs_g),
+      this.formatNumber(day.fats_g),
+      this.formatNumber(day.fiber_g),
+      this.formatNumber(day.liquids_ml),
+    ]);
+
+    this.renderTable(doc, columns, rows);
+  }
+
+  private static renderAdherencePage(doc: PDFDoc, days: DailyBreakdown[]) {
+    this.renderPageTitle(doc, "Goal adherence");
+
+    doc
+      .font("Helvetica")
+      .fontSize(9)
+      .fillColor(COLORS.muted)
+      .text(
+        `Bars show daily intake as a percentage of that day's goal. ` +
+          `Green is within ${ADHERENCE_LOW}-${ADHERENCE_HIGH}%, ` +
+          `orange is under and red is over.`
+      )
+      .moveDown(0.5);
+
+    const metrics: Array<{
+      label: string;
+      actual: (day: DailyBreakdown) => number;
+      goal: (day: DailyBreakdown) => number | undefined;
+    }> = [
+      {
+        label: "Calories",
+        actual: (day) => day.calories,
+        goal: (day) => day.calories_goal,
+      },
+      {
+        label: "Protein",
+        actual: (day) => day.protein_g,
+        goal: (day) => day.protein_goal,
+      },
+      {
+        label: "Carbohydrates",
+        actual: (day) => day.carbs_g,
+        goal: (day) => day.carbs_goal,
+      },
+      {
+        label: "Fats",
+        actual: (day) => day.fats_g,
+        goal: (day) => day.fats_goal,
+      },
+    ];
+
+    for (const metric of metrics) {
+      const percentages = days.map((day) => {
+        const goal = metric.goal(day) || 0;
+        return goal > 0 ? (metric.actual(day) / goal) * 100 : 0;
+      });
+
+      const loggedDays = days.filter((day) => day.calories > 0).length;
+      const onTargetDays = percentages.filter(
+        (pct, index) =>
+          days[index].calories > 0 &&
+          pct >= ADHERENCE_LOW &&
+          pct <= ADHERENCE_HIGH
+      ).length;
+
+      this.renderBarChart(
+        doc,
+        `${metric.label} - on target ${onTargetDays} of ${loggedDays} logged days`,
+        days.map((day) => day.date),
+        percentages
+      );
+    }
+  }
+
+  private static renderAchievementsPage(
+    doc: PDFDoc,
+    report: NutritionReportData
+  ) {
+    this.renderPageTitle(doc, "Achievements");
+
+    const unlocked = report.achievements
+      .filter((achievement) => achievement.unlocked)
+      .sort((a, b) =>
+        (b.unlockedDate || "").localeCompare(a.unlockedDate || "")
+      );
+    const inProgress = report.achievements.filter(
+      (achievement) => !achievement.unlocked && achievement.progress > 0
+    );
+
+    this.renderSectionTitle(doc, `Unlocked (${unlocked.length})`);
+    if (unlocked.length === 0) {
+      this.renderMutedLine(doc, "No achievements unlocked yet.");
+    } else {
+      this.renderTable(
+        doc,
+        [
+          { header: "Achievement", width: 190 },
+          { header: "Category", width: 90 },
+          { header: "XP", width: 60, align: "right" },
+          { header: "Unlocked", width: 155, align: "right" },
+        ],
+        unlocked.map((achievement) => [
+          achievement.title,
+          achievement.category,
+          `${achievement.xpReward}`,
+          achievement.unlockedDate
+            ? achievement.unlockedDate.split("T")[0]
+            : "-",
+        ])
+      );
+    }
+
+    this.renderSectionTitle(doc, `In progress (${inProgress.length})`);
+    if (inProgress.length === 0) {
+      this.renderMutedLine(doc, "No achievements in progress.");
+    } else {
+      this.renderTable(
+        doc,
+        [
+          { header: "Achievement", width: 190 },
+          { header: "Category", width: 90 },
+          { header: "XP", width: 60, align: "right" },
+          { header: "Progress", width: 155, align: "right" },
+        ],
+        inProgress.map((achievement) => [
+          achievement.title,
+          achievement.category,
+          `${achievement.xpReward}`,
+          `${achievement.progress} / ${achievement.maxProgress}`,
+        ])
+      );
+    }
+  }
+
+  private static renderBarChart(
+    doc: PDFDoc,
+    title: string,
+    labels: string[],
+    percentages: number[]
+  ) {
+    const chartHeight = 90;
+    const labelHeight = 14;
+    const axisWidth = 30;
+    const blockHeight = 16 + chartHeight + labelHeight + 16;
+
+    if (doc.y + blockHeight > this.contentBottom(doc)) {
+      doc.addPage();
+    }
+
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(10)
+      .fillColor(COLORS.text)
+      .text(title, MARGIN, doc.y);
+
+    const top = doc.y + 6;
+    const left = MARGIN + axisWidth;
+    const width = doc.page.width - MARGIN * 2 - axisWidth;
+    const maxPercent = 150;
+    const yFor = (pct: number) =>
+      top + chartHeight - (Math.min(pct, maxPercent) / maxPercent) * chartHeight;
+
+    // Axis and gridlines
+    doc.font("Helvetica").fontSize(7).fillColor(COLORS.muted);
+    for (const tick of [0, 50, 100, 150]) {
+      const y = yFor(tick);
+      doc
+        .moveTo(left, y)
+        .lineTo(left + width, y)
+        .lineWidth(0.5)
+        .strokeColor(COLORS.border)
+        .stroke();
+      doc.text(`${tick}%`, MARGIN, y - 3, {
+        width: axisWidth - 4,
+        align: "right",
+      });
+    }
+
+    // Goal line
+    doc
+      .moveTo(left, yFor(100))
+      .lineTo(left + width, yFor(100))
+      .lineWidth(1)
+      .dash(3, { space: 2 })
+      .strokeColor(COLORS.muted)
+      .stroke()
+      .undash();
+
+    const slot = labels.length > 0 ? width / labels.length : width;
+    const barWidth = Math.max(1, slot * 0.7);
+
+    percentages.forEach((pct, index) => {
+      if (pct <= 0) return;
+      const x = left + index * slot + (slot - barWidth) / 2;
+      const y = yFor(pct);
+      doc
+        .rect(x, y, barWidth, top + chartHeight - y)
+        .fillColor(this.adherenceColor(pct))
+        .fill();
+    });
+
+    // Keep at most ~10 date labels so they stay readable on long ranges
+    const labelEvery = Math.max(1, Math.ceil(labels.length / 10));
+    doc.font("Helvetica").fontSize(7).fillColor(COLORS.muted);
+    labels.forEach((label, index) => {
+      if (index % labelEvery !== 0) return;
+      doc.text(label.slice(5), left + index * slot - 10, top + chartHeight + 3, {
+        width: slot + 20,
+        align: "center",
+        lineBreak: false,
+      });
+    });
+
+    doc.x = MARGIN;
+    doc.y = top + chartHeight + labelHeight + 16;
+  }
+
+  private static renderTable(
+    doc: PDFDoc,
+    columns: TableColumn[],
+    rows: string[][]
+  ) {
+    const renderHeader = () => {
+      const y = doc.y;
+      doc
+        .rect(MARGIN, y, this.tableWidth(columns), ROW_HEIGHT)
+        .fillColor(COLORS.primary)
+        .fill();
+      this.renderRowCells(doc, columns, columns.map((c) => c.header), y, {
+        bold: true,
+        color: "#ffffff",
+      });
+      doc.y = y + ROW_HEIGHT;
+    };
+
+    renderHeader();
+
+    rows.forEach((row, index) => {
+      if (doc.y + ROW_HEIGHT > this.contentBottom(doc)) {
+        doc.addPage();
+        renderHeader();
+      }
+
+      const y = doc.y;
+      if (index % 2 === 1) {
+        doc
+          .rect(MARGIN, y, this.tableWidth(columns), ROW_HEIGHT)
+          .fillColor(COLORS.rowAlt)
+          .fill();
+      }
+      this.renderRowCells(doc, columns, row, y, {
+        bold: false,
+        color: COLORS.text,
+      });
+      doc.y = y + ROW_HEIGHT;
+    });
+
+    doc.x = MARGIN;
+    doc.moveDown(0.5);
+  }
+
+  private static renderRowCells(
+    doc: PDFDoc,
+    columns: TableColumn[],
+    cells: string[],
+    y: number,
+    style: { bold: boolean; color: string }
+  ) {
+    let x = MARGIN;
+    doc
+      .font(style.bold ? "Helvetica-Bold" : "Helvetica")
+      .fontSize(9)
+      .fillColor(style.color);
+
+    columns.forEach((column, index) => {
+      doc.text(cells[index] ?? "", x + 4, y + 5, {
+        width: column.width - 8,
+        align: column.align || "left",
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += column.width;
+    });
+  }
+
+  private static renderKeyValueRows(doc: PDFDoc, rows: Array<[string, string]>) {
+    this.renderTable(
+      doc,
+      [
+        { header: "Metric", width: 300 },
+        { header: "Value", width: 195, align: "right" },
+      ],
+      rows
+    );
+  }
+
+  private static renderPageTitle(doc: PDFDoc, title: string) {
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(18)
+      .fillColor(COLORS.primary)
+      .text(title, MARGIN, MARGIN)
+      .moveDown(0.5);
+  }
+
+  private static renderSectionTitle(doc: PDFDoc, title: string) {
+    if (doc.y + ROW_HEIGHT * 3 > this.contentBottom(doc)) {
+      doc.addPage();
+    }
+    doc
+      .moveDown(0.8)
+      .font("Helvetica-Bold")
+      .fontSize(13)
+      .fillColor(COLORS.text)
+      .text(title, MARGIN)
+      .moveDown(0.3);
+  }
+
+  private static renderMutedLine(doc: PDFDoc, text: string) {
+    doc.font("Helvetica").fontSize(10).fillColor(COLORS.muted).text(text);
+  }
+
+  private static renderFooters(doc: PDFDoc, report: NutritionReportData) {
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      // Writing below the bottom margin would otherwise trigger a page break
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc
+        .font("Helvetica")
+        .fontSize(8)
+        .fillColor(COLORS.muted)
+        .text(
+          `Nutrition report ${this.formatDate(
+            report.startDate
+          )} - ${this.formatDate(report.endDate)}  |  Page ${
+            i - range.start + 1
+          } of ${range.count}`,
+          MARGIN,
+          doc.page.height - MARGIN + 10,
+          {
+            width: doc.page.width - MARGIN * 2,
+            align: "center",
+            lineBreak: false,
+          }
+        );
+      doc.page.margins.bottom = bottomMargin;
+    }
+  }
+
+  private static adherenceColor(pct: number): string {
+    if (pct < ADHERENCE_LOW) return COLORS.under;
+    if (pct > ADHERENCE_HIGH) return COLORS.over;
+    return COLORS.onTarget;
+  }
+
+  private static contentBottom(doc: PDFDoc): number {
+    return doc.page.height - MARGIN - FOOTER_HEIGHT;
+  }
+
+  private static tableWidth(columns: TableColumn[]): number {
+    return columns.reduce((sum, column) => sum + column.width, 0);
+  }
+
+  private static formatNumber(value?: number): string {
+    if (value === undefined || value === null || isNaN(value)) return "-";
+    return Math.round(value).toLocaleString("en-US");
+  }
+
+  private static formatDate(date: Date): string {
+    return date.toISOString().split("T")[0];
+  }
+}
@@ -0,0 +1,612 @@
+import crypto from "crypto";
+import { PantryItem, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  PantryItemInput,
+  ShoppingListItemInput,
+  ShoppingListItemUpdate,
+} from "../types/shoppingLists";
+import { fromDbDate, toDbDate } from "../utils/dayBoundary";
+import {
+  formatAmount,
+  ingredientKey,
+  normalizeAmount,
+  ParsedIngredient,
+  parseIngredient,
+} from "../utils/units";
+
+export type ShoppingItemSource = "plan" | "menu" | "manual";
+
+export interface ShoppingListItem {
+  item_id: string;
+  // Name plus unit dimension; items with the same key are one line
+  key: string;
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  category: string;
+  checked: boolean;
+  source: ShoppingItemSource;
+  // What the pantry already covered, taken off quantity
+  in_pantry?: { quantity: number | null; unit: string };
+  estimated_cost?: number;
+}
+
+interface NeededItem {
+  key: string;
+  name: string;
+  // In the dimension's base unit (g, ml, piece) or the item's own unit
+  amount: number | null;
+  unit: string;
+  dimension: string;
+  category: string;
+  estimated_cost: number;
+  pantry: number;
+}
+
+const OTHER_CATEGORY = "Other";
+
+// Household members edit the same list; a save that loses the race is
+// re-applied to the fresh list this many times before giving up
+const MAX_SAVE_ATTEMPTS = 3;
+
+const LIST_INCLUDE = {
+  user: { select: { name: true, email: true } },
+  members: {
+    include: { user: { select: { user_id: true, name: true, email: true } } },
+  },
+} satisfies Prisma.ShoppingListInclude;
+
+type ListWithMembers = Prisma.ShoppingListGetPayload<{
+  include: typeof LIST_INCLUDE;
+}>;
+
+export class ShoppingListError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "ShoppingListError";
+  }
+}
+
+function itemKey(name: string, dimension: string): string {
+  return `${ingredientKey(name)}|${dimension}`;
+}
+
+function parseItems(value: Prisma.JsonValue): ShoppingListItem[] {
+  return Array.isArray(value) ? (value as unknown as ShoppingListItem[]) : [];
+}
+
+function itemsJson(items: ShoppingListItem[]): Prisma.InputJsonValue {
+  return items as unknown as Prisma.InputJsonValue;
+}
+
+function totalCost(items: ShoppingListItem[]): number | null {
+  const total = items.reduce((sum, item) => sum + (item.estimated_cost || 0), 0);
+  return total > 0 ? Math.round(total * 100) / 100 : null;
+}
+
+function sortItems(items: ShoppingListItem[]): ShoppingListItem[] {
+  return items.sort(
+    (a, b) =>
+      a.category.localeCompare(b.category) || a.name.localeCompare(b.name)
+  );
+}
+
+function addAmounts(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return a + b;
+}
+
+// Sums ingredients that share a name and a unit dimension, so 1 cup and
+// 200ml of milk become one line
+function aggregateIngredients(
+  entries: { ingredient: ParsedIngredient; multiplier: number }[]
+): Map<string, NeededItem> {
+  const needed = new Map<string, NeededItem>();
+
+  for (const { ingredient, multiplier } of entries) {
+    if (!ingredientKey(ingredient.name)) continue;
+    const normalized = normalizeAmount(ingredient.amount, ingredient.unit);
+    const key = itemKey(ingredient.name, normalized.dimension);
+    const amount =
+      normalized.amount === null ? null : normalized.amount * multiplier;
+    const cost = (ingredient.estimated_cost || 0) * multiplier;
+
+    const existing = needed.get(key);
+    if (existing) {
+      existing.amount = addAmounts(existing.amount, amount);
+      existing.estimated_cost += cost;
+      if (existing.category === OTHER_CATEGORY && ingredient.category) {
+        existing.category = ingredient.category;
+      }
+    } else {
+      needed.set(key, {
+        key,
+        name: ingredient.name.trim(),
+        amount,
+        unit: normalized.unit,
+        dimension: normalized.dimension,
+        category: ingredient.category || OTHER_CATEGORY,
+        estimated_cost: cost,
+        pantry: 0,
+      });
+    }
+  }
+
+  return needed;
+}
+
+// Takes what's already at home off each item. An item the pantry fully
+// covers, or that the pantry has without a quantity, drops off the list
+function subtractPantry(needed: Map<string, NeededItem>, pantry: PantryItem[]) {
+  for (const stock of pantry) {
+    const have = normalizeAmount(stock.quantity, stock.unit);
+
+    for (const item of needed.values()) {
+      if (!item.key.startsWith(`${stock.name_key}|`)) continue;
+      if (have.amount === null || item.amount === null) {
+        needed.delete(item.key);
+        continue;
+      }
+      if (item.dimension !== have.dimension) continue;
+
+      const remaining = item.amount - have.amount;
+      if (remaining <= 0) {
+        needed.delete(item.key);
+      } else {
+        item.estimated_cost *= remaining / item.amount;
+        item.pantry = have.amount;
+        item.amount = remaining;
+      }
+    }
+  }
+}
+
+function toListItem(
+  item: NeededItem,
+  source: ShoppingItemSource
+): ShoppingListItem {
+  const { quantity, unit } = formatAmount(item.amount, item.unit);
+  return {
+    item_id: crypto.randomUUID(),
+    key: item.key,
+    name: item.name,
+    quantity,
+    unit: quantity === null ? null : unit,
+    category: item.category,
+    checked: false,
+    source,
+    ...(item.pantry > 0 && { in_pantry: formatAmount(item.pantry, item.unit) }),
+    ...(item.estimated_cost > 0 && {
+      estimated_cost: Math.round(item.estimated_cost * 100) / 100,
+    }),
+  };
+}
+
+// Builds a hand-added item, or re-prices an edited one, in the same units
+// generated items use
+function buildItem(
+  input: ShoppingListItemInput,
+  base: Partial<ShoppingListItem> = {}
+): ShoppingListItem {
+  const normalized = normalizeAmount(input.quantity ?? null, input.unit ?? null);
+  const { quantity, unit } = formatAmount(normalized.amount, normalized.unit);
+  return {
+    item_id: crypto.randomUUID(),
+    checked: false,
+    source: "manual",
+    ...base,
+    key: itemKey(input.name, normalized.dimension),
+    name: input.name,
+    quantity,
+    unit: quantity === null ? null : unit,
+    category: input.category || base.category || OTHER_CATEGORY,
+  };
+}
+
+// A regenerated list keeps what was already ticked off and every item added
+// by hand
+function mergeRegenerated(
+  previous: ShoppingListItem[],
+  generated: ShoppingListItem[]
+): ShoppingListItem[] {
+  const checkedKeys = new Set(
+    previous
+      .filter((item) => item.checked && item.source !== "manual")
+      .map((item) => item.key)
+  );
+  return [
+    ...generated.map((item) => ({ ...item, checked: checkedKeys.has(item.key) })),
+    ...previous.filter((item) => item.source === "manual"),
+  ];
+}
+
+function serialize(list: ListWithMembers, userId: string) {
+  const { items_json, user, members, ...rest } = list;
+  return {
+    ...rest,
+    week_start_date: list.week_start_date
+      ? fromDbDate(list.week_start_date)
+      : null,
+    items: parseItems(items_json),
+    is_owner: list.user_id === userId,
+    owner: user,
+    members: members.map((member) => member.user),
+  };
+}
+
+function serializePantryItem({ name_key, ...item }: PantryItem) {
+  return item;
+}
+
+export class ShoppingListService {
+  static async getLists(userId: string) {
+    const lists = await prisma.shoppingList.findMany({
+      where: {
+        OR: [{ user_id: userId }, { members: { some: { user_id: userId } } }],
+      },
+      include: LIST_INCLUDE,
+      orderBy: { updated_at: "desc" },
+    });
+    return lists.map((list) => serialize(list, userId));
+  }
+
+  static async getList(userId: string, listId: string) {
+    const list = await prisma.shoppingList.findFirst({
+      where: {
+        list_id: listId,
+        OR: [{ user_id: userId }, { members: { some: { user_id: userId } } }],
+      },
+      include: LIST_INCLUDE,
+    });
+    if (!list) throw new ShoppingListError("Shopping list not found", 404);
+    return serialize(list, userId);
+  }
+
+  /**
+   * Builds the list for one week of a meal plan. A plan shorter than a week
+   * repeats to fill it, and each meal counts at its portion multiplier.
+   * Generating the same week again updates that week's list.
+   */
+  static async generateFromPlan(
+    userId: string,
+    planId: string,
+    weekStartKey: string
+  ) {
+    const plan = await prisma.userMealPlan.findFirst({
+      where: { plan_id: planId, user_id: userId },
+      include: { schedules: { include: { template: true } } },
+    });
+    if (!plan) throw new ShoppingListError("Meal plan not found", 404);
+    if (plan.schedules.length === 0) {
+      throw new ShoppingListError("This meal plan has no meals yet");
+    }
+
+    const planDays = new Set(plan.schedules.map((s) => s.day_of_week)).size;
+    const repeats = 7 / planDays;
+
+    const entries = plan.schedules.flatMap((schedule) => {
+      const ingredients = schedule.template.ingredients_json;
+      return (Array.isArray(ingredients) ? ingredients : [])
+        .map(parseIngredient)
+        .filter((ingredient): ingredient is ParsedIngredient => !!ingredient)
+        .map((ingredient) => ({
+          ingredient,
+          multiplier: schedule.portion_multiplier * repeats,
+        }));
+    });
+
+    return this.saveGeneratedList(
+      userId,
+      { plan_id: planId, week_start_date: toDbDate(weekStartKey) },
+      `${plan.name} · week of ${weekStartKey}`,
+      entries,
+      "plan"
+    );
+  }
+
+  // Builds the list for every day of a recommended menu
+  static async generateFromMenu(userId: string, menuId: string) {
+    const menu = await prisma.recommendedMenu.findFirst({
+      where: { menu_id: menuId, user_id: userId },
+      include: { meals: { include: { ingredients: true } } },
+    });
+    if (!menu) throw new ShoppingListError("Menu not found", 404);
+
+    const entries = menu.meals.flatMap((meal) =>
+      meal.ingredients
+        .map(parseIngredient)
+        .filter((ingredient): ingredient is ParsedIngredient => !!ingredient)
+        .map((ingredient) => ({ ingredient, multiplier: 1 }))
+    );
+
+    return this.saveGeneratedList(
+      userId,
+      { menu_id: menuId },
+      menu.title,
+      entries,
+      "menu"
+    );
+  }
+
+  static async renameList(userId: string, listId: string, name: string) {
+    await this.findOwnedList(userId, listId);
+    await prisma.shoppingList.update({
+      where: { list_id: listId },
+      data: { name },
+    });
+    return this.getList(userId, listId);
+  }
+
+  static async deleteList(userId: string, listId: string) {
+    await this.findOwnedList(userId, listId);
+    await prisma.shoppingList.delete({ where: { list_id: listId } });
+    console.log(`🗑️ Deleted shopping list ${listId}`);
+  }
+
+  // Adds an item by hand, merging it into an unticked line for the same thing
+  static async addItem(
+    userId: string,
+    listId: string,
+    input: ShoppingListItemInput
+  ) {
+    return this.updateItems(userId, listId, (items) => {
+      const item = buildItem(input);
+      const existing = items.find((i) => !i.checked && i.key === item.key);
+      if (!existing) return [...items, item];
+
+      const dimensionUnit = normalizeAmount(item.quantity, item.unit).unit;
+      const total = addAmounts(
+        normalizeAmount(existing.quantity, existing.unit).amount,
+        normalizeAmount(item.quantity, item.unit).amount
+      );
+      const { quantity, unit } = formatAmount(total, dimensionUnit);
+      return items.map((i) =>
+        i === existing
+          ? { ...i, quantity, unit: quantity === null ? null : unit }
+          : i
+      );
+    });
+  }
+
+  static async updateItem(
+    userId: string,
+    listId: string,
+    itemId: string,
+    update: ShoppingListItemUpdate
+  ) {
+    return this.updateItems(userId, listId, (items) => {
+      const current = items.find((item) => item.item_id === itemId);
+      if (!current) throw new ShoppingListError("Item not found", 404);
+
+      const { checked, ...fields } = update;
+      let next: ShoppingListItem = { ...current };
+      if (Object.values(fields).some((v) => v !== undefined)) {
+        next = buildItem(
+          {
+            name: fields.name ?? current.name,
+            quantity:
+              fields.quantity !== undefined ? fields.quantity : current.quantity,
+            unit: fields.unit !== undefined ? fields.unit : current.unit,
+            category: fields.category ?? current.category,
+          },
+          current
+        );
+        // The pantry note no longer matches a quantity the user typed
+        delete next.in_pantry;
+      }
+      if (checked !== undefined) next.checked = checked;
+
+      return items.map((item) => (item.item_id === itemId ? next : item));
+    });
+  }
+
+  static async removeItem(userId: string, listId: string, itemId: string) {
+    return this.updateItems(userId, listId, (items) => {
+      if (!items.some((item) => item.item_id === itemId)) {
+        throw new ShoppingListError("Item not found", 404);
+      }
+      return items.filter((item) => item.item_id !== itemId);
+    });
+  }
+
+  /**
+   * Marks the shopping done. Bought items aren't added to the pantry: the
+   * week's meals use them up, and nothing would take them out again, so
+   * they'd keep later lists short. The pantry holds only what users enter.
+   */
+  static async completeList(userId: string, listId: string) {
+    await this.findListForMember(userId, listId);
+
+    const { count } = await prisma.shoppingList.updateMany({
+      where: { list_id: listId, is_completed: false },
+      data: { is_completed: true },
+    });
+    if (count === 0) {
+      throw new ShoppingListError("The list is already completed", 409);
+    }
+
+    console.log(`✅ Shopping list ${listId} done`);
+    return this.getList(userId, listId);
+  }
+
+  // Shares the list with another account, found by its email
+  static async addMember(userId: string, listId: string, email: string) {
+    await this.findOwnedList(userId, listId);
+
+    const member = await prisma.user.findFirst({
+      where: { email: { equals: email, mode: "insensitive" } },
+      select: { user_id: true },
+    });
+    if (!member) {
+      throw new ShoppingListError("No account uses that email", 404);
+    }
+    if (member.user_id === userId) {
+      throw new ShoppingListError("You already own this list");
+    }
+
+    await prisma.shoppingListMember.upsert({
+      where: { list_id_user_id: { list_id: listId, user_id: member.user_id } },
+      update: {},
+      create: { list_id: listId, user_id: member.user_id },
+    });
+
+    console.log(`👥 Shared shopping list ${listId} with ${member.user_id}`);
+    return this.getList(userId, listId);
+  }
+
+  // The owner can remove anyone; a member can only leave
+  static async removeMember(
+    userId: string,
+    listId: string,
+    memberUserId: string
+  ) {
+    const list = await this.findListForMember(userId, listId);
+    if (list.user_id !== userId && memberUserId !== userId) {
+      throw new ShoppingListError("Only the list's owner can remove members", 403);
+    }
+
+    await prisma.shoppingListMember.deleteMany({
+      where: { list_id: listId, user_id: memberUserId },
+    });
+  }
+
+  static async getPantry(userId: string) {
+    const items = await prisma.pantryItem.findMany({
+      where: { user_id: userId },
+      orderBy: { name: "asc" },
+    });
+    return items.map(serializePantryItem);
+  }
+
+  // Sets how much of something is at home, replacing any earlier amount
+  static async savePantryItem(userId: string, input: PantryItemInput) {
+    const name_key = ingredientKey(input.name);
+    const data = {
+      name: input.name,
+      quantity: input.quantity ?? null,
+      unit: input.unit ?? null,
+      category: input.category ?? null,
+    };
+
+    const item = await prisma.pantryItem.upsert({
+      where: { user_id_name_key: { user_id: userId, name_key } },
+      update: data,
+      create: { user_id: userId, name_key, ...data },
+    });
+    return serializePantryItem(item);
+  }
+
+  static async removePantryItem(userId: string, itemId: string) {
+    const { count } = await prisma.pantryItem.deleteMany({
+      where: { item_id: itemId, user_id: userId },
+    });
+    if (count === 0) throw new ShoppingListError("Pantry item not found", 404);
+  }
+
+  private static async saveGeneratedList(
+    userId: string,
+    source:
+      | { plan_id: string; week_start_date: Date }
+      | { menu_id: string },
+    name: string,
+    entries: { ingredient: ParsedIngredient; multiplier: number }[],
+    sourceType: ShoppingItemSource
+  ) {
+    const needed = aggregateIngredients(entries);
+    const neededCount = needed.size;
+    const pantry = await prisma.pantryItem.findMany({
+      where: { user_id: userId },
+    });
+    subtractPantry(needed, pantry);
+
+    const generated = sortItems(
+      [...needed.values()].map((item) => toListItem(item, sourceType))
+    );
+
+    const existing = await prisma.shoppingList.findFirst({
+      where: { user_id: userId, ...source },
+      orderBy: { created_at: "desc" },
+    });
+
+    let listId: string;
+    if (existing) {
+      const items = mergeRegenerated(parseItems(existing.items_json), generated);
+      await prisma.shoppingList.update({
+        where: { list_id: existing.list_id },
+        data: {
+          items_json: itemsJson(items),
+          total_estimated_cost: totalCost(items),
+          is_completed: false,
+        },
+      });
+      listId = existing.list_id;
+    } else {
+      const list = await prisma.shoppingList.create({
+        data: {
+          user_id: userId,
+          ...source,
+          name,
+          items_json: itemsJson(generated),
+          total_estimated_cost: totalCost(generated),
+        },
+      });
+      listId = list.list_id;
+    }
+
+    console.log(
+      `🛒 ${generated.length} items for "${name}", ${
+        neededCount - needed.size
+      } covered by the pantry`
+    );
+    return this.getList(userId, listId);
+  }
+
+  // Applies an edit to the list's items. The write only lands if nobody
+  // saved the list in between; otherwise the edit is re-applied
+  private static async updateItems(
+    userId: string,
+    listId: string,
+    edit: (items: ShoppingListItem[]) => ShoppingListItem[]
+  ) {
+    for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+      const list = await this.findListForMember(userId, listId);
+      const items = edit(parseItems(list.items_json));
+
+      const { count } = await prisma.shoppingList.updateMany({
+        where: { list_id: listId, updated_at: list.updated_at },
+        data: {
+          items_json: itemsJson(items),
+          total_estimated_cost: totalCost(items),
+          updated_at: new Date(),
+        },
+      });
+      if (count === 1) return this.getList(userId, listId);
+    }
+
+    throw new ShoppingListError(
+      "The list was changed by someone else; please try again",
+      409
+    );
+  }
+
+  private static async findListForMember(userId: string, listId: string) {
+    const list = await prisma.shoppingList.findFirst({
+      where: {
+        list_id: listId,
+        OR: [{ user_id: userId }, { members: { some: { user_id: userId } } }],
+      },
+    });
+    if (!list) throw new ShoppingListError("Shopping list not found", 404);
+    return list;
+  }
+
+  private static async findOwnedList(userId: string, listId: string) {
+    const list = await this.findListForMember(userId, listId);
+    if (list.user_id !== userId) {
+      throw new ShoppingListError("Only the list's owner can do that", 403);
+    }
+    return list;
+  }
+}
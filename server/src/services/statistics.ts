@@ -1,5 +1,18 @@
 import { prisma } from "../lib/database";
 import { AchievementService } from "./achievements";
+import { CheckInService, DayRatings } from "./checkIns";
+import { ReportPDFService } from "./reportPdf";
+import { DailyBreakdown, ReportPeriod } from "../types/statistics";
+import {
+  addDays,
+  eachDateKey,
+  fromDbDate,
+  getDateKey,
+  getDateKeyRange,
+  getTodayKey,
+  getUserTimeZone,
+  toDbDate,
+} from "../utils/dayBoundary";
 
 export interface Achievement {
   id: string;
@@ -39,12 +52,22 @@ export interface StatisticsData {
   successfulDays: number;
   averageCompletion: number;
   bestStreak: number;
+  // From the user's check-ins; zero when they haven't checked in
+  checkInDays: number;
   happyDays: number;
   highEnergyDays: number;
   satisfiedDays: number;
   averageMealQuality: number;
 }
 
+export type StatisticsPeriod = "today" | "week" | "month" | "custom";
+
+// Inclusive range of the user's local days, as YYYY-MM-DD
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
 interface UserStats {
   currentStreak: number;
   bestStreak: number;
@@ -59,43 +82,33 @@ interface UserStats {
 export class StatisticsService {
   static async getNutritionStatistics(
     userId: string,
-    period: "today" | "week" | "month" = "week"
+    period: StatisticsPeriod = "week",
+    customRange?: DateRange
   ): Promise<{ success: boolean; data: StatisticsData }> {
     try {
       console.log(
         `📊 Getting statistics for user: ${userId}, period: ${period}`
       );
 
-      const now = new Date();
-      let startDate: Date;
-
-      switch (period) {
-        case "today":
-          startDate = new Date(
-            now.getFullYear(),
-            now.getMonth(),
-            now.getDate()
-          );
-          break;
-        case "week":
-          startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-          break;
-        case "month":
-          startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-          break;
-      }
+      const timeZone = await getUserTimeZone(userId);
+      const { startDate, endDate } = this.resolvePeriodRange(
+        period,
+        timeZone,
+        customRange
+      );
+      const range = getDateKeyRange(startDate, endDate, timeZone);
 
       // Get user's meals for the period
       const meals = await prisma.meal.findMany({
         where: {
           user_id: userId,
-          created_at: {
-            gte: startDate,
-            lte: now,
+          eaten_at: {
+            gte: range.start,
+            lt: range.end,
           },
         },
         orderBy: {
-          created_at: "desc",
+          eaten_at: "desc",
         },
       });
 
@@ -118,8 +131,8 @@ export class StatisticsService {
         where: {
           user_id: userId,
           date: {
-            gte: startDate,
-            lte: now,
+            gte: toDbDate(startDate),
+            lte: toDbDate(endDate),
           },
         },
         orderBy: {
@@ -132,8 +145,8 @@ export class StatisticsService {
         where: {
           user_id: userId,
           date: {
-            gte: startDate,
-            lte: now,
+            gte: toDbDate(startDate),
+            lte: toDbDate(endDate),
           },
         },
         orderBy: {
@@ -141,17 +154,24 @@ export class StatisticsService {
         },
       });
 
+      const dailyRatings = await CheckInService.getDailyRatings(
+        userId,
+        startDate,
+        endDate
+      );
+
       // Calculate daily breakdown
       const dailyBreakdown = await this.calculateDailyBreakdown(
         meals,
         dailyGoals,
         waterIntakes,
-        startDate,
-        now
+        dailyRatings,
+        eachDateKey(startDate, endDate),
+        timeZone
       );
 
       // Calculate averages
-      const averages = this.calculateAverages(meals);
+      const averages = this.calculateAverages(meals, timeZone);
 
       // Get water intake count for achievements
       const waterIntakeCount = await prisma.waterIntake.count({
@@ -161,15 +181,22 @@ export class StatisticsService {
         },
       });
 
-      // Get calorie goal completions
-      const mealDays = await prisma.meal.groupBy({
-        by: ["created_at"],
+      // Get calorie goal completions: local days with 1800+ calories
+      const allMealCalories = await prisma.meal.findMany({
         where: { user_id: userId },
-        _sum: { calories: true },
-        having: {
-          calories: { _sum: { gte: 1800 } },
-        },
+        select: { eaten_at: true, calories: true },
+      });
+      const caloriesByDay = new Map<string, number>();
+      allMealCalories.forEach((meal) => {
+        const date = getDateKey(meal.eaten_at, timeZone);
+        caloriesByDay.set(
+          date,
+          (caloriesByDay.get(date) || 0) + (meal.calories || 0)
+        );
       });
+      const calorieGoalDays = [...caloriesByDay.values()].filter(
+        (calories) => calories >= 1800
+      ).length;
 
       const userStats: UserStats = {
         currentStreak: user?.current_streak || 0,
@@ -177,13 +204,17 @@ export class StatisticsService {
         totalCompleteDays: user?.total_complete_days || 0,
         level: user?.level || 1,
         totalWaterGoals: waterIntakeCount,
-        totalCalorieGoals: mealDays.length,
+        totalCalorieGoals: calorieGoalDays,
         totalXP: user?.total_points || 0,
         aiRequestsCount: user?.ai_requests_count || 0,
       };
 
       // Calculate streaks and achievements
-      const streaks = await this.calculateStreaks(userId, userStats);
+      const streaks = await this.calculateStreaks(
+        userId,
+        userStats,
+        timeZone
+      );
 
       // Get achievements and badges
       const achievementData = await this.getDetailedAchievements(
@@ -195,7 +226,9 @@ export class StatisticsService {
       const wellbeingMetrics = await this.calculateWellbeingMetrics(
         userId,
         startDate,
-        now
+        endDate,
+        dailyRatings,
+        timeZone
       );
 
       const statisticsData: StatisticsData = {
@@ -206,9 +239,7 @@ export class StatisticsService {
         weeklyStreak: Math.floor(userStats.currentStreak / 7),
         perfectDays: wellbeingMetrics.perfectDays,
         dailyGoalDays: dailyGoals.length,
-        totalDays: Math.ceil(
-          (now.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
-        ),
+        totalDays: dailyBreakdown.length,
         averageCalories: averages.calories,
         averageProtein: averages.protein,
         averageCarbs: averages.carbs,
@@ -222,6 +253,7 @@ export class StatisticsService {
         successfulDays: streaks.successfulDays,
         averageCompletion: streaks.averageCompletion,
         bestStreak: userStats.bestStreak,
+        checkInDays: wellbeingMetrics.checkInDays,
         happyDays: wellbeingMetrics.happyDays,
         highEnergyDays: wellbeingMetrics.highEnergyDays,
         satisfiedDays: wellbeingMetrics.satisfiedDays,
@@ -236,6 +268,34 @@ export class StatisticsService {
     }
   }
 
+  // Periods are whole local days ending today in the user's time zone
+  private static resolvePeriodRange(
+    period: StatisticsPeriod,
+    timeZone: string,
+    customRange?: DateRange
+  ): DateRange {
+    const today = getTodayKey(timeZone);
+
+    switch (period) {
+      case "today":
+        return { startDate: today, endDate: today };
+      case "week":
+        return { startDate: addDays(today, -6), endDate: today };
+      case "month":
+        return { startDate: addDays(today, -29), endDate: today };
+      case "custom": {
+        if (!customRange) {
+          throw new Error("Custom period requires a start and end date");
+        }
+        return {
+          startDate: customRange.startDate,
+          endDate:
+            customRange.endDate < today ? customRange.endDate : today,
+        };
+      }
+    }
+  }
+
   private static async getDetailedAchievements(
     userId: string,
     userStats: UserStats
@@ -340,26 +400,27 @@ export class StatisticsService {
     meals: any[],
     dailyGoals: any[],
     waterIntakes: any[],
-    startDate: Date,
-    endDate: Date
+    dailyRatings: Map<string, DayRatings>,
+    days: string[],
+    timeZone: string
   ): Promise<any[]> {
     const dailyBreakdown: any[] = [];
-    const currentDate = new Date(startDate);
 
-    while (currentDate <= endDate) {
-      const dateStr = currentDate.toISOString().split("T")[0];
+    for (const dateStr of days) {
       const dayMeals = meals.filter(
-        (meal) => meal.created_at.toISOString().split("T")[0] === dateStr
+        (meal) => getDateKey(meal.eaten_at, timeZone) === dateStr
       );
 
       const dayGoal = dailyGoals.find(
-        (goal) => goal.date.toISOString().split("T")[0] === dateStr
+        (goal) => fromDbDate(goal.date) === dateStr
       );
 
       const dayWater = waterIntakes.find(
-        (water) => water.date.toISOString().split("T")[0] === dateStr
+        (water) => fromDbDate(water.date) === dateStr
       );
 
+      const ratings = dailyRatings.get(dateStr);
+
       const dayTotals = dayMeals.reduce(
         (acc, meal) => ({
           calories: acc.calories + (meal.calories || 0),
@@ -387,19 +448,38 @@ export class StatisticsService {
         date: dateStr,
         ...dayTotals,
         water_cups: dayWater?.cups_consumed || 0,
-        mood: "neutral",
-        energy: "medium",
-        satiety: "satisfied",
+        calories_goal: dayGoal?.calories ?? 2000,
+        protein_goal: dayGoal?.protein_g ?? 120,
+        carbs_goal: dayGoal?.carbs_g ?? 250,
+        fats_goal: dayGoal?.fats_g ?? 67,
+        water_goal_ml: dayGoal?.water_ml ?? 2500,
+        ...(ratings && this.describeRatings(ratings)),
         meal_quality: 3,
       });
-
-      currentDate.setDate(currentDate.getDate() + 1);
     }
 
     return dailyBreakdown;
   }
 
-  private static calculateAverages(meals: any[]): {
+  // The labels the daily breakdown has always used, now from check-ins
+  private static describeRatings(ratings: DayRatings) {
+    return {
+      mood: ratings.mood >= 4 ? "happy" : ratings.mood <= 2 ? "sad" : "neutral",
+      energy:
+        ratings.energy >= 4 ? "high" : ratings.energy <= 2 ? "low" : "medium",
+      satiety:
+        ratings.hunger >= 4
+          ? "hungry"
+          : ratings.hunger <= 1.5
+          ? "very_full"
+          : "satisfied",
+    };
+  }
+
+  private static calculateAverages(
+    meals: any[],
+    timeZone: string
+  ): {
     calories: number;
     protein: number;
     carbs: number;
@@ -425,7 +505,7 @@ export class StatisticsService {
     // Group by date to get daily averages
     const dailyTotals = new Map<string, any>();
     meals.forEach((meal) => {
-      const date = meal.upload_time.toISOString().split("T")[0];
+      const date = getDateKey(meal.eaten_at, timeZone);
       if (!dailyTotals.has(date)) {
         dailyTotals.set(date, {
           calories: 0,
@@ -488,7 +568,8 @@ export class StatisticsService {
 
   private static async calculateStreaks(
     userId: string,
-    userStats: UserStats
+    userStats: UserStats,
+    timeZone: string
   ): Promise<{
     currentStreak: number;
     weeklyStreak: number;
@@ -506,14 +587,13 @@ export class StatisticsService {
 
       const allMeals = await prisma.meal.findMany({
         where: { user_id: userId },
-        orderBy: { upload_time: "desc" },
-        orderBy: { created_at: "desc" },
+        orderBy: { eaten_at: "desc" },
       });
 
       // Group meals by date
       const mealsByDate = new Map<string, any[]>();
       allMeals.forEach((meal) => {
-        const date = meal.created_at.toISOString().split("T")[0];
+        const date = getDateKey(meal.eaten_at, timeZone);
         if (!mealsByDate.has(date)) {
           mealsByDate.set(date, []);
         }
@@ -526,7 +606,7 @@ export class StatisticsService {
 
       // Calculate completion metrics based on both water and nutrition
       for (const waterRecord of allWaterIntakes) {
-        const date = waterRecord.date.toISOString().split("T")[0];
+        const date = fromDbDate(waterRecord.date);
         const dayMeals = mealsByDate.get(date) || [];
 
         const cups = waterRecord.cups_consumed || 0;
@@ -585,9 +665,12 @@ export class StatisticsService {
 
   private static async calculateWellbeingMetrics(
     userId: string,
-    startDate: Date,
-    endDate: Date
+    startDate: string,
+    endDate: string,
+    dailyRatings: Map<string, DayRatings>,
+    timeZone: string
   ): Promise<{
+    checkInDays: number;
     happyDays: number;
     highEnergyDays: number;
     satisfiedDays: number;
@@ -595,18 +678,20 @@ export class StatisticsService {
     perfectDays: number;
   }> {
     try {
-      // Calculate wellbeing based on nutrition completion
+      // How the user felt comes from their check-ins; meal quality and
+      // perfect days still come from what they logged
+      const range = getDateKeyRange(startDate, endDate, timeZone);
       const meals = await prisma.meal.findMany({
         where: {
           user_id: userId,
-          created_at: { gte: startDate, lte: endDate },
+          eaten_at: { gte: range.start, lt: range.end },
         },
       });
 
       const waterIntakes = await prisma.waterIntake.findMany({
         where: {
           user_id: userId,
-          date: { gte: startDate, lte: endDate },
+          date: { gte: toDbDate(startDate), lte: toDbDate(endDate) },
         },
       });
 
@@ -623,7 +708,7 @@ export class StatisticsService {
 
       // Process meals
       meals.forEach((meal) => {
-        const date = meal.created_at.toISOString().split("T")[0];
+        const date = getDateKey(meal.eaten_at, timeZone);
         if (!dailyData.has(date)) {
           dailyData.set(date, {
             calories: 0,
@@ -649,7 +734,7 @@ export class StatisticsService {
 
       // Process water intake
       waterIntakes.forEach((water) => {
-        const date = water.date.toISOString().split("T")[0];
+        const date = fromDbDate(water.date);
         if (!dailyData.has(date)) {
           dailyData.set(date, {
             calories: 0,
@@ -661,30 +746,12 @@ export class StatisticsService {
         dailyData.get(date)!.water = water.cups_consumed || 0;
       });
 
-      let happyDays = 0;
-      let highEnergyDays = 0;
-      let satisfiedDays = 0;
       let totalQuality = 0;
       let qualityDays = 0;
       let perfectDays = 0;
 
       // Analyze each day
       dailyData.forEach((day) => {
-        // Happy days: good calorie intake + adequate water
-        if (day.calories >= 1500 && day.calories <= 2200 && day.water >= 6) {
-          happyDays++;
-        }
-
-        // High energy days: balanced nutrition + good hydration
-        if (day.calories >= 1600 && day.water >= 8 && day.mealCount >= 3) {
-          highEnergyDays++;
-        }
-
-        // Satisfied days: met calorie goals + reasonable meal frequency
-        if (day.calories >= 1400 && day.mealCount >= 2) {
-          satisfiedDays++;
-        }
-
         // Perfect days: excellent nutrition + hydration + meal frequency
         if (
           day.calories >= 1600 &&
@@ -703,15 +770,14 @@ export class StatisticsService {
       });
 
       return {
-        happyDays,
-        highEnergyDays,
-        satisfiedDays,
+        ...CheckInService.summarizeRatings(dailyRatings),
         averageMealQuality: qualityDays > 0 ? totalQuality / qualityDays : 3,
         perfectDays,
       };
     } catch (error) {
       console.error("Error calculating wellbeing metrics:", error);
       return {
+        checkInDays: 0,
         happyDays: 0,
         highEnergyDays: 0,
         satisfiedDays: 0,
@@ -721,9 +787,87 @@ export class StatisticsService {
     }
   }
 
-  static async generatePDFReport(userId: string): Promise<Buffer> {
-    // This would generate a PDF report - placeholder for now
-    return Buffer.from("PDF Report");
+  static async generatePDFReport(
+    userId: string,
+    period: ReportPeriod = "week",
+    customRange?: DateRange
+  ): Promise<Buffer> {
+    console.log(`📄 Generating PDF report for user: ${userId}, period: ${period}`);
+
+    const timeZone = await getUserTimeZone(userId);
+    const { startDate, endDate } = this.resolvePeriodRange(
+      period,
+      timeZone,
+      customRange
+    );
+
+    const [statistics, user] = await Promise.all([
+      this.getNutritionStatistics(userId, period, customRange),
+      prisma.user.findUnique({
+        where: { user_id: userId },
+        select: { name: true, email: true },
+      }),
+    ]);
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const stats = statistics.data;
+    const dailyBreakdown: DailyBreakdown[] = stats.dailyBreakdown;
+
+    return ReportPDFService.render({
+      user,
+      period,
+      startDate: toDbDate(startDate),
+      endDate: toDbDate(endDate),
+      generatedAt: new Date(),
+      summary: {
+        averageCalories: stats.averageCalories,
+        averageProtein: stats.averageProtein,
+        averageCarbs: stats.averageCarbs,
+        averageFats: stats.averageFats,
+        averageFiber: stats.averageFiber,
+        averageSugar: stats.averageSugar,
+        averageSodium: stats.averageSodium,
+        averageFluids: stats.averageFluids,
+        loggedDays: dailyBreakdown.filter((day) => day.calories > 0).length,
+        totalDays: dailyBreakdown.length,
+        successfulDays: stats.successfulDays,
+        perfectDays: stats.perfectDays,
+        averageCompletion: stats.averageCompletion,
+        averageMealQuality: stats.averageMealQuality,
+      },
+      streaks: {
+        currentStreak: stats.currentStreak,
+        bestStreak: stats.bestStreak,
+        weeklyStreak: stats.weeklyStreak,
+      },
+      wellbeing: {
+        checkInDays: stats.checkInDays,
+        happyDays: stats.happyDays,
+        highEnergyDays: stats.highEnergyDays,
+        satisfiedDays: stats.satisfiedDays,
+      },
+      gamification: {
+        level: stats.level,
+        currentXP: stats.currentXP,
+        totalPoints: stats.totalPoints,
+      },
+      dailyBreakdown,
+      achievements: (stats.achievements as Achievement[]).map(
+        (achievement) => ({
+          title: achievement.title,
+          description: achievement.description,
+          category: achievement.category,
+          xpReward: achievement.xpReward,
+          progress: achievement.progress,
+          maxProgress: achievement.maxProgress,
+          unlocked: achievement.unlocked,
+          unlockedDate: achievement.unlockedDate,
+        })
+      ),
+    });
   }
 
   static async generateInsights(userId: string): Promise<any> {
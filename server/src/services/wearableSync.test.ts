@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+
+type Service = typeof import("./wearableSync").WearableSyncService;
+let WearableSyncService: Service;
+
+// The service reads its secrets when it loads
+before(async () => {
+  process.env.JWT_SECRET ||= "test-jwt-secret";
+  process.env.FITBIT_CLIENT_ID = "client-id";
+  process.env.FITBIT_CLIENT_SECRET = "client-secret";
+  ({ WearableSyncService } = await import("./wearableSync"));
+});
+
+describe("WearableSyncService.isAllowedReturnUrl", () => {
+  it("accepts the app's deep links", () => {
+    assert.ok(WearableSyncService.isAllowedReturnUrl("myapp://devices/oauth"));
+    assert.ok(
+      WearableSyncService.isAllowedReturnUrl("exp://192.168.1.5:8081/--/oauth")
+    );
+  });
+
+  it("rejects other schemes", () => {
+    for (const url of [
+      "javascript:alert(document.cookie)",
+      "data:text/html,<script>alert(1)</script>",
+      "intent://evil#Intent;scheme=https;end",
+      "otherapp://callback",
+    ]) {
+      assert.equal(WearableSyncService.isAllowedReturnUrl(url), false, url);
+    }
+  });
+
+  it("rejects web origins other than the client's", () => {
+    assert.equal(
+      WearableSyncService.isAllowedReturnUrl("https://evil.example/oauth"),
+      false
+    );
+  });
+});
+
+describe("WearableSyncService OAuth state", () => {
+  function startFlow() {
+    const startUrl = new URL(
+      WearableSyncService.createAuthorizationUrl("user-1", "FITBIT")
+    );
+    const state = startUrl.searchParams.get("state")!;
+    const started = WearableSyncService.startAuthorization(state, "FITBIT");
+    return { startUrl, state, ...started };
+  }
+
+  it("sends the browser through the start route to the provider", () => {
+    const { startUrl, state, authorizationUrl } = startFlow();
+    assert.ok(startUrl.pathname.endsWith("/devices/oauth/fitbit/start"));
+    assert.equal(new URL(authorizationUrl).searchParams.get("state"), state);
+  });
+
+  it("accepts the callback with the nonce cookie from the start route", () => {
+    const { state, nonce } = startFlow();
+    const verified = WearableSyncService.verifyState(state, "FITBIT", nonce);
+    assert.equal(verified.userId, "user-1");
+  });
+
+  it("rejects the callback in a browser without the nonce", () => {
+    const { state } = startFlow();
+    const other = startFlow();
+    assert.throws(() =>
+      WearableSyncService.verifyState(state, "FITBIT", undefined)
+    );
+    assert.throws(() =>
+      WearableSyncService.verifyState(state, "FITBIT", other.nonce)
+    );
+  });
+
+  it("rejects a state made for another provider", () => {
+    const { state, nonce } = startFlow();
+    assert.throws(() => WearableSyncService.verifyState(state, "POLAR", nonce));
+  });
+});
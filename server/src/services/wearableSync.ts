@@ -0,0 +1,399 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { ConnectedDevice } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  getWearableAdapter,
+  isWearableProvider,
+  ProviderAuthError,
+  WEARABLE_PROVIDERS,
+  WearableProvider,
+} from "../lib/wearables";
+import { DeviceService } from "./devices";
+import { ActivityRecord } from "../types/devices";
+import {
+  getDateKey,
+  getTodayKey,
+  getUserTimeZone,
+} from "../utils/dayBoundary";
+
+const JWT_SECRET = process.env.JWT_SECRET!;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Refresh a little early so a token doesn't expire mid-sync
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// How far back a sync reaches when the app hasn't synced for a while
+const MAX_BACKFILL_DAYS = Number(process.env.WEARABLE_SYNC_BACKFILL_DAYS) || 14;
+const INITIAL_SYNC_DAYS = 7;
+// Deep link schemes the app registers (client/app.json), plus Expo Go's
+// exp: outside production
+const APP_URL_SCHEMES = [
+  ...(process.env.APP_URL_SCHEMES || "myapp").split(","),
+  ...(process.env.NODE_ENV === "production" ? [] : ["exp"]),
+].map((scheme) => `${scheme.trim().toLowerCase()}:`);
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+// Holds the state's nonce in the browser that started the flow
+export const OAUTH_NONCE_COOKIE = "device_oauth_nonce";
+
+interface OAuthState {
+  type: "device_oauth";
+  userId: string;
+  provider: WearableProvider;
+  returnUrl?: string;
+  nonce: string;
+}
+
+export interface WearableSyncResult {
+  deviceId: string;
+  provider: WearableProvider;
+  daysSynced: string[];
+  daysWithoutData: string[];
+  conflictCount: number;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export class WearableSyncService {
+  private static getOAuthUrl(provider: WearableProvider): string {
+    const apiBaseUrl = process.env.API_BASE_URL || "http://localhost:5000/api";
+    return `${apiBaseUrl}/devices/oauth/${provider.toLowerCase()}`;
+  }
+
+  static getCallbackUrl(provider: WearableProvider): string {
+    return `${this.getOAuthUrl(provider)}/callback`;
+  }
+
+  // Scoped to the provider's OAuth routes, and gone once the state expires
+  static getNonceCookieOptions(provider: WearableProvider) {
+    return {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax" as const,
+      maxAge: OAUTH_STATE_TTL_MS,
+      path: new URL(this.getOAuthUrl(provider)).pathname,
+    };
+  }
+
+  /**
+   * Only the app's own deep links or the web client's origin may receive
+   * the callback redirect, so the flow can't be turned into an open
+   * redirect or a javascript:/data: URL.
+   */
+  static isAllowedReturnUrl(returnUrl: string): boolean {
+    try {
+      const url = new URL(returnUrl);
+      if (APP_URL_SCHEMES.includes(url.protocol)) {
+        return true;
+      }
+      return (
+        !!process.env.CLIENT_URL &&
+        url.origin === new URL(process.env.CLIENT_URL).origin
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Signs the flow's state and returns the URL for the browser to open. It
+   * goes through the start route first, which puts the state's nonce in a
+   * cookie so the callback only completes in that same browser.
+   */
+  static createAuthorizationUrl(
+    user_id: string,
+    provider: WearableProvider,
+    returnUrl?: string
+  ): string {
+    const adapter = getWearableAdapter(provider);
+    if (!adapter.isConfigured()) {
+      throw new Error(`${adapter.displayName} integration is not configured`);
+    }
+    if (returnUrl && !this.isAllowedReturnUrl(returnUrl)) {
+      throw new Error("Return URL is not allowed");
+    }
+
+    const state: OAuthState = {
+      type: "device_oauth",
+      userId: user_id,
+      provider,
+      returnUrl,
+      nonce: crypto.randomBytes(16).toString("base64url"),
+    };
+    const signedState = jwt.sign(state, JWT_SECRET, {
+      expiresIn: OAUTH_STATE_TTL_MS / 1000,
+    });
+
+    console.log("🔗 Starting OAuth for", provider, "user:", user_id);
+    const startUrl = new URL(`${this.getOAuthUrl(provider)}/start`);
+    startUrl.searchParams.set("state", signedState);
+    return startUrl.toString();
+  }
+
+  // The provider's consent page for a state, and the nonce to set first
+  static startAuthorization(state: string, provider: WearableProvider) {
+    const { nonce } = this.decodeState(state, provider);
+    const authorizationUrl = getWearableAdapter(provider).getAuthorizationUrl(
+      state,
+      this.getCallbackUrl(provider)
+    );
+    return { authorizationUrl, nonce };
+  }
+
+  static verifyState(
+    state: string,
+    provider: WearableProvider,
+    nonce: string | undefined
+  ): OAuthState {
+    const decoded = this.decodeState(state, provider);
+
+    const expected = Buffer.from(decoded.nonce);
+    const actual = Buffer.from(nonce ?? "");
+    if (
+      actual.length !== expected.length ||
+      !crypto.timingSafeEqual(actual, expected)
+    ) {
+      throw new Error("Authorization was started in another browser");
+    }
+    return decoded;
+  }
+
+  private static decodeState(
+    state: string,
+    provider: WearableProvider
+  ): OAuthState {
+    let decoded: OAuthState;
+    try {
+      decoded = jwt.verify(state, JWT_SECRET) as OAuthState;
+    } catch {
+      throw new Error("Authorization request expired, please try again");
+    }
+
+    if (
+      decoded.type !== "device_oauth" ||
+      decoded.provider !== provider ||
+      !decoded.nonce
+    ) {
+      throw new Error("Invalid authorization state");
+    }
+    return decoded;
+  }
+
+  static async completeAuthorization(
+    provider: WearableProvider,
+    code: string,
+    state: OAuthState
+  ): Promise<ConnectedDevice> {
+    const adapter = getWearableAdapter(provider);
+    const tokens = await adapter.exchangeCode(
+      code,
+      this.getCallbackUrl(provider)
+    );
+
+    const device = await DeviceService.connectDevice(
+      state.userId,
+      provider,
+      adapter.displayName,
+      tokens.accessToken,
+      tokens.refreshToken,
+      tokens.expiresIn
+    );
+
+    // Pull the last week right away so the app has data on first open
+    this.syncDevice(state.userId, device.connected_device_id, {
+      initial: true,
+    }).catch((error) =>
+      console.error("💥 Initial sync failed for", provider, error)
+    );
+
+    return device;
+  }
+
+  /**
+   * Returns a usable access token for the device, refreshing and persisting
+   * new tokens when the current one is (about to be) expired.
+   */
+  static async getValidAccessToken(device: ConnectedDevice): Promise<string> {
+    const provider = device.device_type as WearableProvider;
+    const adapter = getWearableAdapter(provider);
+    const { accessToken, refreshToken } = await DeviceService.getDeviceTokens(
+      device.user_id,
+      device.connected_device_id
+    );
+
+    if (!accessToken) {
+      throw new ProviderAuthError(provider, "Device has no access token");
+    }
+
+    const expiresAt = device.token_expires_at?.getTime();
+    const needsRefresh =
+      adapter.supportsRefresh &&
+      expiresAt !== undefined &&
+      expiresAt - Date.now() < TOKEN_REFRESH_MARGIN_MS;
+
+    if (!needsRefresh) return accessToken;
+
+    if (!refreshToken) {
+      throw new ProviderAuthError(provider, "Access token expired");
+    }
+
+    console.log("🔄 Refreshing", provider, "token for device:", device.connected_device_id);
+    const tokens = await adapter.refreshTokens(refreshToken);
+    await DeviceService.updateDeviceTokens(
+      device.user_id,
+      device.connected_device_id,
+      tokens.accessToken,
+      tokens.refreshToken,
+      tokens.expiresIn
+    );
+
+    return tokens.accessToken;
+  }
+
+  /**
+   * Fetches every day since the device's last sync (bounded by
+   * MAX_BACKFILL_DAYS) and stores one activity summary per day. The day of
+   * the last sync is fetched again since it was likely still in progress.
+   */
+  static async syncDevice(
+    user_id: string,
+    deviceId: string,
+    options: { initial?: boolean } = {}
+  ): Promise<WearableSyncResult> {
+    const device = await prisma.connectedDevice.findFirst({
+      where: { connected_device_id: deviceId, user_id },
+    });
+
+    if (!device) {
+      throw new Error("Device not found");
+    }
+    if (!isWearableProvider(device.device_type)) {
+      throw new Error(`${device.device_name} does not support server sync`);
+    }
+
+    const provider = device.device_type;
+    const adapter = getWearableAdapter(provider);
+    // Providers report activity per local day, so count days in the user's zone
+    const timeZone = await getUserTimeZone(user_id);
+    const today = new Date(`${getTodayKey(timeZone)}T00:00:00Z`);
+    const earliest = new Date(today.getTime() - (MAX_BACKFILL_DAYS - 1) * DAY_MS);
+
+    let start =
+      options.initial || !device.last_sync_time
+        ? new Date(today.getTime() - (INITIAL_SYNC_DAYS - 1) * DAY_MS)
+        : new Date(
+            `${getDateKey(device.last_sync_time, timeZone)}T00:00:00Z`
+          );
+    if (start < earliest) start = earliest;
+
+    const result: WearableSyncResult = {
+      deviceId,
+      provider,
+      daysSynced: [],
+      daysWithoutData: [],
+      conflictCount: 0,
+    };
+
+    try {
+      const accessToken = await this.getValidAccessToken(device);
+
+      const records: ActivityRecord[] = [];
+      for (let day = start; day <= today; day = new Date(day.getTime() + DAY_MS)) {
+        const date = toDateString(day);
+        const activity = await adapter.fetchDailyActivity(
+          accessToken,
+          date,
+          timeZone
+        );
+
+        if (activity) {
+          records.push({ date, ...activity });
+        } else {
+          result.daysWithoutData.push(date);
+        }
+      }
+
+      if (records.length > 0) {
+        const { days, conflictCount } = await DeviceService.syncActivityRecords(
+          user_id,
+          deviceId,
+          records
+        );
+        result.daysSynced = days.map((day) => day.date);
+        result.conflictCount = conflictCount;
+      }
+
+      // Record the attempt even when the provider had nothing new
+      await prisma.connectedDevice.update({
+        where: { connected_device_id: deviceId },
+        data: { last_sync_time: new Date(), connection_status: "CONNECTED" },
+      });
+
+      console.log(
+        `✅ Synced ${provider} device ${deviceId}: ${result.daysSynced.length} day(s)`
+      );
+      return result;
+    } catch (error) {
+      if (error instanceof ProviderAuthError) {
+        // The user revoked access or the grant expired; stop retrying until
+        // they reconnect
+        await prisma.connectedDevice.update({
+          where: { connected_device_id: deviceId },
+          data: { connection_status: "ERROR" },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Syncs every provider-backed device whose sync_frequency_hours has
+   * elapsed since its last sync. Devices are processed one at a time to stay
+   * well inside provider rate limits.
+   */
+  static async syncDueDevices() {
+    const devices = await prisma.connectedDevice.findMany({
+      where: {
+        device_type: { in: WEARABLE_PROVIDERS },
+        connection_status: "CONNECTED",
+        access_token_encrypted: { not: null },
+      },
+      select: {
+        connected_device_id: true,
+        user_id: true,
+        last_sync_time: true,
+        sync_frequency_hours: true,
+      },
+    });
+
+    const now = Date.now();
+    const due = devices.filter((device) => {
+      if (!device.last_sync_time) return true;
+      const frequencyMs = (device.sync_frequency_hours ?? 24) * 60 * 60 * 1000;
+      return device.last_sync_time.getTime() + frequencyMs <= now;
+    });
+
+    console.log(
+      `⌚ ${due.length} of ${devices.length} wearable device(s) due for sync`
+    );
+
+    let synced = 0;
+    let failed = 0;
+    for (const device of due) {
+      try {
+        await this.syncDevice(device.user_id, device.connected_device_id);
+        synced++;
+      } catch (error) {
+        failed++;
+        console.error(
+          `❌ Scheduled sync failed for device ${device.connected_device_id}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+
+    return { due: due.length, synced, failed };
+  }
+}
@@ -30,10 +30,47 @@ export const updateProfileSchema = z.object({
   }, z.date()),
 });
 
-export const updateSubscriptionSchema = z.object({
-  subscription_type: z.enum(["FREE", "PREMIUM", "GOLD"]),
+// A TOTP code from the authenticator app, or one of the recovery codes
+const mfaCodeField = z
+  .string()
+  .trim()
+  .min(6, "Code is required")
+  .max(20, "Invalid code");
+
+export const mfaVerifySchema = z.object({
+  mfa_token: z.string().min(1, "MFA token is required"),
+  code: mfaCodeField,
+});
+
+export const mfaCodeSchema = z.object({
+  code: mfaCodeField,
+});
+
+export const mfaDisableSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+  code: mfaCodeField,
 });
 
+export const revokeSessionsQuerySchema = z.object({
+  // Sign out this device too, not just every other one
+  include_current: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+export const refreshSchema = z.object({
+  refresh_token: z.string().min(1).optional(),
+});
+
+// Where a sign-in came from, recorded on the session it creates
+export interface SessionContext {
+  ip_address?: string;
+  user_agent?: string;
+}
+
 export type SignUpInput = z.infer<typeof signUpSchema>;
 export type SignInInput = z.infer<typeof signInSchema>;
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+export type MfaVerifyInput = z.infer<typeof mfaVerifySchema>;
+export type MfaDisableInput = z.infer<typeof mfaDisableSchema>;
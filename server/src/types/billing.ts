@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+export const subscriptionPlanSchema = z.enum(["FREE", "PREMIUM", "GOLD"]);
+
+export const checkoutSchema = z.object({
+  plan: subscriptionPlanSchema,
+  // Tokenized by the provider's client SDK; card numbers never reach us
+  paymentMethod: z
+    .object({
+      token: z.string().min(1).max(255),
+      brand: z.string().max(30).optional(),
+      last4: z
+        .string()
+        .regex(/^\d{4}$/, "last4 must be 4 digits")
+        .optional(),
+    })
+    .optional(),
+});
+
+export const invoicesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type SubscriptionPlan = z.infer<typeof subscriptionPlanSchema>;
+export type CheckoutInput = z.infer<typeof checkoutSchema>;
+
+export interface StoredPaymentMethod {
+  token: string;
+  brand?: string;
+  last4?: string;
+}
+
+export interface PlanQuote {
+  plan: SubscriptionPlan;
+  currentPlan: SubscriptionPlan;
+  // What happens on checkout: a charge now, a change at period end, or nothing
+  action: "charge" | "scheduled" | "none";
+  kind?: "NEW_SUBSCRIPTION" | "RENEWAL" | "UPGRADE";
+  amount: number;
+  currency: string;
+  prorationCredit: number;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+export interface RenewalRunResult {
+  charged: number;
+  downgraded: number;
+  failed: number;
+}
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { isDateKey } from "../utils/dayBoundary";
+
+const dateKey = z
+  .string()
+  .refine(isDateKey, "Date must be a valid YYYY-MM-DD date");
+
+const circumference = z.number().min(10).max(300).nullable().optional();
+
+const measurementFields = {
+  weight_kg: z.number().min(20).max(400).nullable().optional(),
+  body_fat_percentage: z.number().min(2).max(75).nullable().optional(),
+  waist_cm: circumference,
+  hips_cm: circumference,
+  chest_cm: circumference,
+  neck_cm: circumference,
+  arm_cm: circumference,
+  thigh_cm: circumference,
+  notes: z.string().max(500).nullable().optional(),
+};
+
+export const BODY_METRIC_FIELDS = [
+  "weight_kg",
+  "body_fat_percentage",
+  "waist_cm",
+  "hips_cm",
+  "chest_cm",
+  "neck_cm",
+  "arm_cm",
+  "thigh_cm",
+] as const;
+
+export const bodyMeasurementSchema = z
+  .object({ date: dateKey, ...measurementFields })
+  .refine(
+    (input) => BODY_METRIC_FIELDS.some((field) => input[field] != null),
+    "Enter at least one measurement"
+  );
+
+export const bodyMeasurementUpdateSchema = z.object({
+  date: dateKey.optional(),
+  ...measurementFields,
+});
+
+export const bodyMeasurementsQuerySchema = z.object({
+  from: dateKey.optional(),
+  to: dateKey.optional(),
+});
+
+export const bodyTrendQuerySchema = z.object({
+  days: z.coerce.number().int().min(7).max(730).default(90),
+});
+
+export type BodyMeasurementInput = z.infer<typeof bodyMeasurementSchema>;
+export type BodyMeasurementUpdate = z.infer<typeof bodyMeasurementUpdateSchema>;
@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Argument schemas for the tools the chat assistant may call. The model's
+// JSON is validated against these before anything is proposed to the user.
+export const logMealArgsSchema = z.object({
+  meal_name: z.string().min(1).max(200),
+  calories: z.number().min(0).max(5000),
+  protein_g: z.number().min(0).max(500),
+  carbs_g: z.number().min(0).max(1000),
+  fats_g: z.number().min(0).max(500),
+  fiber_g: z.number().min(0).max(200).optional(),
+  sugar_g: z.number().min(0).max(500).optional(),
+  ingredients: z
+    .array(
+      z.object({
+        name: z.string().min(1).max(100),
+        amount: z.string().max(50).optional(),
+      })
+    )
+    .max(30)
+    .optional(),
+});
+
+export const addWaterArgsSchema = z.object({
+  cups: z.number().int().min(1).max(10),
+});
+
+export const createCalendarEventArgsSchema = z.object({
+  date: dateString,
+  title: z.string().min(1).max(100),
+  type: z
+    .enum(["general", "workout", "social", "health", "travel", "work"])
+    .default("general"),
+  description: z.string().max(500).optional(),
+});
+
+export const replaceMenuMealArgsSchema = z.object({
+  menu_id: z.string().min(1),
+  meal_id: z.string().min(1),
+  reason: z.string().max(200).optional(),
+  dietary_style: z.string().max(50).optional(),
+});
+
+export const chatToolArgsSchemas = {
+  log_meal: logMealArgsSchema,
+  add_water: addWaterArgsSchema,
+  create_calendar_event: createCalendarEventArgsSchema,
+  replace_menu_meal: replaceMenuMealArgsSchema,
+};
+
+export type ChatToolName = keyof typeof chatToolArgsSchemas;
+
+export interface ChatToolCall {
+  name: string;
+  arguments: string;
+}
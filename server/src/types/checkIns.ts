@@ -0,0 +1,50 @@
+import { CheckInPeriod } from "@prisma/client";
+import { z } from "zod";
+import { isDateKey } from "../utils/dayBoundary";
+
+const dateKey = z
+  .string()
+  .refine(isDateKey, "Date must be a valid YYYY-MM-DD date");
+
+const rating = z.number().int().min(1).max(5);
+
+const ratingFields = {
+  mood: rating,
+  energy: rating,
+  hunger: rating,
+  digestion: rating.nullable().optional(),
+  sleep_quality: rating.nullable().optional(),
+  note: z.string().trim().max(500).nullable().optional(),
+};
+
+// Without a date and period the check-in is for right now
+export const checkInSchema = z.object({
+  date: dateKey.optional(),
+  period: z.nativeEnum(CheckInPeriod).optional(),
+  ...ratingFields,
+});
+
+export const checkInUpdateSchema = z
+  .object({
+    mood: rating.optional(),
+    energy: rating.optional(),
+    hunger: rating.optional(),
+    digestion: ratingFields.digestion,
+    sleep_quality: ratingFields.sleep_quality,
+    note: ratingFields.note,
+  })
+  .refine((data) => Object.values(data).some((v) => v !== undefined), {
+    message: "Nothing to update",
+  });
+
+export const checkInsQuerySchema = z.object({
+  from: dateKey.optional(),
+  to: dateKey.optional(),
+});
+
+export const wellbeingInsightsQuerySchema = z.object({
+  days: z.coerce.number().int().min(14).max(180).default(60),
+});
+
+export type CheckInInput = z.infer<typeof checkInSchema>;
+export type CheckInUpdate = z.infer<typeof checkInUpdateSchema>;
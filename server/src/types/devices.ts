@@ -1,3 +1,5 @@
+import { z } from "zod";
+
 export interface ActivityData {
   steps: number;
   caloriesBurned: number;
@@ -16,3 +18,69 @@ export interface DailyBalance {
   balance: number;
   balanceStatus: "balanced" | "slight_imbalance" | "significant_imbalance";
 }
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// A sample that fails validation is dropped on its own: one bad sensor
+// reading (a 0 kg weight, say) shouldn't reject the rest of the batch
+function sample<T extends z.ZodTypeAny>(schema: T) {
+  return schema.optional().catch(undefined);
+}
+
+// HealthKit reports counts and heart rate as averages, e.g. 72.4 bpm
+const count = z.number().min(0).transform(Math.round);
+
+// Every metric is optional so a partial record never zeroes out values
+// another sync already stored for that day
+export const activityRecordSchema = z.object({
+  date: dateString,
+  steps: sample(count),
+  caloriesBurned: sample(z.number().min(0)),
+  activeMinutes: sample(count),
+  bmr: sample(z.number().min(0)),
+  heartRate: sample(count),
+  weight: sample(z.number().positive()),
+  bodyFat: sample(z.number().min(0).max(100)),
+  sleepHours: sample(z.number().min(0).max(24)),
+  distance: sample(z.number().min(0)),
+});
+
+export const deviceSyncSchema = z.object({
+  records: z.array(activityRecordSchema).min(1).max(366),
+});
+
+export type ActivityRecord = z.infer<typeof activityRecordSchema>;
+
+export type ActivityMetric =
+  | "steps"
+  | "calories_burned"
+  | "active_minutes"
+  | "bmr_estimate"
+  | "distance_km"
+  | "heart_rate_avg"
+  | "sleep_hours"
+  | "weight_kg"
+  | "body_fat_percentage";
+
+export type ActivityMergeStrategy = "primary_first" | "most_recent" | "highest";
+
+export interface ActivityConflict {
+  metric: ActivityMetric;
+  chosen: { deviceId: string; value: number };
+  values: { deviceId: string; deviceName: string; value: number }[];
+}
+
+export type MergedDailyActivity = Record<ActivityMetric, number | null> & {
+  date: string;
+  sources: { deviceId: string; deviceName: string; isPrimary: boolean }[];
+  conflicts: ActivityConflict[];
+};
+
+export interface DaySyncResult {
+  date: string;
+  status: "created" | "updated";
+  merged: MergedDailyActivity;
+  conflicts: ActivityConflict[];
+}
@@ -12,6 +12,8 @@ declare global {
   namespace Express {
     interface Request {
       user?: AuthenticatedUser; // Make it optional in case middleware hasn't run or authentication fails
+      // Unparsed body of billing webhooks, kept for signature checks
+      rawBody?: Buffer;
     }
   }
 }
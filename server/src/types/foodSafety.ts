@@ -0,0 +1,43 @@
+import { FoodSafetySource } from "@prisma/client";
+import { z } from "zod";
+
+export type FoodSafetyRule = "ALLERGY" | "DIET" | "KOSHER" | "DISLIKED";
+
+// BLOCK rules keep food off the user's plate; WARN ones are shown but kept
+export type FoodSafetySeverity = "BLOCK" | "WARN";
+
+export interface FoodSafetyViolation {
+  rule: FoodSafetyRule;
+  severity: FoodSafetySeverity;
+  group: string | null;
+  term: string;
+  found_in: string;
+  reason: string;
+}
+
+export type DietRuleKey = "vegan" | "vegetarian" | "keto" | "low_carb";
+
+// What a user's questionnaire rules out, in terms the engine can match
+export interface FoodSafetyProfile {
+  allergen_groups: string[];
+  custom_allergens: string[];
+  disliked_foods: string[];
+  diet: DietRuleKey | null;
+  kosher: boolean;
+}
+
+// A meal, template or product reduced to the text the rules look at
+export interface FoodToCheck {
+  name: string;
+  parts?: string[];
+  declared_allergens?: string[];
+  labels?: string[];
+  carbs_g?: number | null;
+}
+
+export const foodSafetyFlagsQuerySchema = z.object({
+  source: z.nativeEnum(FoodSafetySource).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type FoodSafetyFlagsQuery = z.infer<typeof foodSafetyFlagsQuerySchema>;
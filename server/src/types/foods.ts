@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { FoodCategory } from "../lib/foods";
+
+export const FOOD_CATEGORIES: [FoodCategory, ...FoodCategory[]] = [
+  "protein",
+  "dairy",
+  "grains",
+  "legumes",
+  "vegetables",
+  "fruits",
+  "fats",
+  "nuts",
+  "sweets",
+  "drinks",
+  "sauces",
+  "dishes",
+];
+
+export const foodSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search text is required").max(100),
+  category: z.enum(FOOD_CATEGORIES).optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export const foodPortionQuerySchema = z.object({
+  grams: z.coerce.number().positive().max(5000).default(100),
+});
+
+export type FoodSearchQuery = z.infer<typeof foodSearchQuerySchema>;
@@ -1,3 +1,5 @@
+import { FoodSafetyViolation } from "./foodSafety";
+
 export interface MealPlanTemplate {
   template_id: string;
   name: string;
@@ -61,6 +63,7 @@ export interface AIMealPlanResponse {
       image_url?: string;
       portion_multiplier?: number;
       is_optional?: boolean;
+      safety_flags?: FoodSafetyViolation[];
     }[];
   }[];
 }
@@ -1,14 +1,69 @@
 import { z } from "zod";
+import { MealTiming } from "@prisma/client";
+
+// How far back a meal can be logged
+export const MAX_BACKDATE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Allows for a phone clock running a little ahead of the server's
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// The user's local day a meal was eaten on. Checked against UTC with a
+// day of slack either side, since the user's zone isn't known here
+const mealDateKey = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine((key) => {
+    const day = new Date(`${key}T00:00:00.000Z`).getTime();
+    return (
+      day <= Date.now() + DAY_MS &&
+      day >= Date.now() - (MAX_BACKDATE_DAYS + 1) * DAY_MS
+    );
+  }, `Meals can be back-dated up to ${MAX_BACKDATE_DAYS} days`);
+
+const mealTimingFields = {
+  meal_type: z.nativeEnum(MealTiming).optional(),
+  eaten_at: z.coerce
+    .date()
+    .refine(
+      (date) => date.getTime() <= Date.now() + CLOCK_SKEW_MS,
+      "A meal can't be logged in the future"
+    )
+    .refine(
+      (date) => date.getTime() >= Date.now() - MAX_BACKDATE_DAYS * DAY_MS,
+      `Meals can be back-dated up to ${MAX_BACKDATE_DAYS} days`
+    )
+    .optional(),
+};
+
+// When a meal being saved was eaten; see resolveMealTiming
+export const mealTimingSchema = z.object({
+  ...mealTimingFields,
+  date: mealDateKey.optional(),
+});
 
 export const mealAnalysisSchema = z.object({
   imageBase64: z.string().min(1, "Image is required"),
   language: z.enum(["english", "hebrew"]).default("english"),
-  date: z
-    .string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
-    .optional(),
+  date: mealDateKey.optional(),
   updateText: z.string().optional(), // For meal updates
   editedIngredients: z.array(z.any()).default([]), // For user-edited ingredients
+  ...mealTimingFields,
+});
+
+// A meal described in words instead of photographed. Voice input arrives as
+// a speech transcript, which the analysis prompt treats more loosely
+export const mealTextAnalysisSchema = z.object({
+  description: z
+    .string()
+    .trim()
+    .min(3, "Describe the meal in a few words")
+    .max(1000, "Description is too long"),
+  source: z.enum(["text", "voice"]).default("text"),
+  language: z.enum(["english", "hebrew"]).default("english"),
+  date: mealDateKey.optional(),
+  updateText: z.string().optional(),
+  editedIngredients: z.array(z.any()).default([]),
+  ...mealTimingFields,
 });
 
 export const mealUpdateSchema = z.object({
@@ -33,9 +88,77 @@ export const mealSchema = z.object({
   created_at: z.date(),
 });
 
+const ratingSchema = z.coerce.number().int().min(0).max(5);
+
+export const mealFeedbackSchema = z.object({
+  tasteRating: ratingSchema.optional(),
+  satietyRating: ratingSchema.optional(),
+  energyRating: ratingSchema.optional(),
+  heavinessRating: ratingSchema.optional(),
+});
+
+export const favoriteMealsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  sortBy: z
+    .enum(["recent", "taste", "satiety", "energy", "heaviness"])
+    .default("recent"),
+});
+
+const ingredientAmount = z.coerce.number().min(0).max(10000);
+
+// Nutrients a user may type in for an ingredient; anything left out keeps
+// its current value
+const ingredientNutrientsSchema = z.object({
+  calories: ingredientAmount.optional(),
+  protein: ingredientAmount.optional(),
+  carbs: ingredientAmount.optional(),
+  fat: ingredientAmount.optional(),
+  fiber: ingredientAmount.optional(),
+  sugar: ingredientAmount.optional(),
+  sodium_mg: ingredientAmount.optional(),
+});
+
+// A new ingredient is either a food database pick (priced from food_id) or
+// a named item with the user's own numbers
+export const mealIngredientCreateSchema = ingredientNutrientsSchema
+  .extend({
+    name: z.string().trim().min(1).max(100).optional(),
+    food_id: z.string().min(1).optional(),
+    serving_size_g: z.coerce.number().positive().max(5000).optional(),
+  })
+  .refine((data) => data.name || data.food_id, {
+    message: "Give the ingredient a name or pick a food",
+  });
+
+export const mealIngredientUpdateSchema = ingredientNutrientsSchema
+  .extend({
+    name: z.string().trim().min(1).max(100).optional(),
+    food_id: z.string().min(1).optional(),
+    serving_size_g: z.coerce.number().positive().max(5000).optional(),
+    // 0.5 for "half the rice"; scales the grams and every nutrient
+    portion_multiplier: z.coerce.number().min(0.05).max(20).optional(),
+  })
+  .refine((data) => Object.values(data).some((v) => v !== undefined), {
+    message: "Nothing to update",
+  });
+
+export const mealScaleSchema = z.object({
+  multiplier: z.coerce.number().min(0.05).max(20),
+});
+
 export type MealAnalysisInput = z.infer<typeof mealAnalysisSchema>;
+export type MealTextAnalysisInput = z.infer<typeof mealTextAnalysisSchema>;
 export type MealUpdateInput = z.infer<typeof mealUpdateSchema>;
 export type Meal = z.infer<typeof mealSchema>;
+export type MealFeedbackInput = z.infer<typeof mealFeedbackSchema>;
+export type FavoriteMealsQuery = z.infer<typeof favoriteMealsQuerySchema>;
+export type MealIngredientCreateInput = z.infer<
+  typeof mealIngredientCreateSchema
+>;
+export type MealIngredientUpdateInput = z.infer<
+  typeof mealIngredientUpdateSchema
+>;
 
 export const directMealUpdateSchema = z.object({
   meal_name: z.string().optional(),
@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { CorrectionStatus, ProductSource } from "@prisma/client";
+
+const per100g = z.coerce.number().min(0).max(100);
+const milligrams = z.coerce.number().min(0).max(50000);
+
+// Label values per 100g. Sodium and the minerals are in mg
+export const productNutritionSchema = z
+  .object({
+    calories: z.coerce.number().min(0).max(900),
+    protein: per100g,
+    carbs: per100g,
+    fat: per100g,
+    fiber: per100g.optional(),
+    sugar: per100g.optional(),
+    sodium: milligrams.optional(),
+    saturated_fat: per100g.optional(),
+    trans_fat: per100g.optional(),
+    cholesterol: milligrams.optional(),
+    potassium: milligrams.optional(),
+    calcium: milligrams.optional(),
+    iron: milligrams.optional(),
+    vitamin_c: milligrams.optional(),
+    vitamin_d: milligrams.optional(),
+  })
+  .refine((n) => n.sugar === undefined || n.sugar <= n.carbs, {
+    message: "Sugar can't be more than total carbs",
+  })
+  .refine((n) => n.protein + n.carbs + n.fat <= 100, {
+    message: "Protein, carbs and fat can't add up to more than 100g",
+  });
+
+export type ProductNutrition = z.infer<typeof productNutritionSchema>;
+
+export interface ProductData {
+  barcode?: string;
+  name: string;
+  brand?: string;
+  category: string;
+  nutrition_per_100g: ProductNutrition;
+  ingredients: string[];
+  allergens: string[];
+  labels: string[];
+  health_score?: number;
+  image_url?: string;
+  serving_size?: string;
+  servings_per_container?: number;
+  source?: ProductSource;
+  nutrition_version?: number;
+}
+
+// Catalog products are looked up by barcode; products read from a photo
+// without a visible barcode have a generated img_ one
+export const productBarcodeSchema = z
+  .string()
+  .trim()
+  .regex(/^(\d{8,14}|img_[a-z0-9_]+)$/, "Invalid barcode");
+
+// A product that isn't in the catalog at all, entered from its label
+export const productSubmissionSchema = z.object({
+  barcode: z.string().trim().regex(/^\d{8,14}$/, "Invalid barcode"),
+  name: z.string().trim().min(1, "Product name is required").max(200),
+  brand: z.string().trim().max(100).optional(),
+  category: z.string().trim().min(1).max(100).default("Unknown"),
+  nutrition_per_100g: productNutritionSchema,
+  ingredients: z.array(z.string().trim().min(1).max(200)).max(100).default([]),
+  allergens: z.array(z.string().trim().min(1).max(50)).max(30).default([]),
+  labels: z.array(z.string().trim().min(1).max(50)).max(30).default([]),
+});
+
+export const productCorrectionSchema = z.object({
+  nutrition_per_100g: productNutritionSchema,
+  product_name: z.string().trim().min(1).max(200).optional(),
+  brand: z.string().trim().max(100).optional(),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const correctionVoteSchema = z.object({
+  approve: z.boolean(),
+});
+
+export const correctionsQuerySchema = z.object({
+  status: z.nativeEnum(CorrectionStatus).default(CorrectionStatus.PENDING),
+});
+
+export type ProductSubmissionInput = z.infer<typeof productSubmissionSchema>;
+export type ProductCorrectionInput = z.infer<typeof productCorrectionSchema>;
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { mealIngredientCreateSchema, mealTimingSchema } from "./nutrition";
+
+const recipeServings = z.coerce.number().min(0.5).max(100);
+
+const recipeDetailsFields = {
+  name: z.string().trim().min(1, "Give the recipe a name").max(100),
+  description: z.string().trim().max(1000).nullable().optional(),
+  servings: recipeServings,
+};
+
+export const recipeCreateSchema = z.object({
+  ...recipeDetailsFields,
+  ingredients: z
+    .array(mealIngredientCreateSchema)
+    .min(1, "Add at least one ingredient")
+    .max(60),
+});
+
+// Saving an analyzed meal as a recipe keeps its ingredients and totals; the
+// name defaults to the meal's
+export const recipeFromMealSchema = z.object({
+  ...recipeDetailsFields,
+  name: recipeDetailsFields.name.optional(),
+  servings: recipeServings.default(1),
+});
+
+// Replacing ingredients re-computes the totals; changing servings alone
+// only changes how the batch is divided
+export const recipeUpdateSchema = z
+  .object({
+    ...recipeDetailsFields,
+    ingredients: recipeCreateSchema.shape.ingredients,
+  })
+  .partial()
+  .refine((data) => Object.values(data).some((v) => v !== undefined), {
+    message: "Nothing to update",
+  });
+
+// "1.5 servings" of a recipe, logged as a meal
+export const recipeLogSchema = mealTimingSchema.extend({
+  servings: z.coerce.number().min(0.1).max(50).default(1),
+});
+
+export const shareTokenSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{16,64}$/, "Invalid share link");
+
+export type RecipeCreateInput = z.infer<typeof recipeCreateSchema>;
+export type RecipeFromMealInput = z.infer<typeof recipeFromMealSchema>;
+export type RecipeUpdateInput = z.infer<typeof recipeUpdateSchema>;
+export type RecipeLogInput = z.infer<typeof recipeLogSchema>;
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { isDateKey } from "../utils/dayBoundary";
+
+const dateKey = z
+  .string()
+  .refine(isDateKey, "Date must be a valid YYYY-MM-DD date");
+
+const itemName = z.string().trim().min(1, "Item name is required").max(100);
+const itemQuantity = z.coerce.number().positive().max(100000);
+const itemUnit = z.string().trim().min(1).max(20);
+
+export const planShoppingListSchema = z.object({
+  week_start_date: dateKey,
+});
+
+export const shoppingListUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+export const shoppingListItemSchema = z.object({
+  name: itemName,
+  quantity: itemQuantity.nullable().optional(),
+  unit: itemUnit.nullable().optional(),
+  category: z.string().trim().min(1).max(50).optional(),
+});
+
+export const shoppingListItemUpdateSchema = shoppingListItemSchema
+  .partial()
+  .extend({ checked: z.boolean().optional() })
+  .refine((data) => Object.values(data).some((v) => v !== undefined), {
+    message: "Nothing to update",
+  });
+
+export const shoppingListMemberSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address"),
+});
+
+export const pantryItemSchema = shoppingListItemSchema;
+
+export type ShoppingListItemInput = z.infer<typeof shoppingListItemSchema>;
+export type ShoppingListItemUpdate = z.infer<
+  typeof shoppingListItemUpdateSchema
+>;
+export type PantryItemInput = z.infer<typeof pantryItemSchema>;
@@ -58,9 +58,73 @@ export interface DailyBreakdown {
   carbs_g: number;
   fats_g: number;
   liquids_ml: number;
+  fiber_g?: number;
+  sugar_g?: number;
+  sodium_mg?: number;
+  water_cups?: number;
+  calories_goal?: number;
+  protein_goal?: number;
+  carbs_goal?: number;
+  fats_goal?: number;
+  water_goal_ml?: number;
   weight_kg?: number;
   mood?: string;
   energy?: string;
   satiety?: string;
   meal_quality?: number;
 }
+
+export type ReportPeriod = "week" | "month" | "custom";
+
+export interface ReportAchievement {
+  title: string;
+  description: string;
+  category: string;
+  xpReward: number;
+  progress: number;
+  maxProgress: number;
+  unlocked: boolean;
+  unlockedDate?: string;
+}
+
+export interface NutritionReportData {
+  user: { name: string | null; email: string };
+  period: ReportPeriod;
+  startDate: Date;
+  endDate: Date;
+  generatedAt: Date;
+  summary: {
+    averageCalories: number;
+    averageProtein: number;
+    averageCarbs: number;
+    averageFats: number;
+    averageFiber: number;
+    averageSugar: number;
+    averageSodium: number;
+    averageFluids: number;
+    loggedDays: number;
+    totalDays: number;
+    successfulDays: number;
+    perfectDays: number;
+    averageCompletion: number;
+    averageMealQuality: number;
+  };
+  streaks: {
+    currentStreak: number;
+    bestStreak: number;
+    weeklyStreak: number;
+  };
+  wellbeing: {
+    checkInDays: number;
+    happyDays: number;
+    highEnergyDays: number;
+    satisfiedDays: number;
+  };
+  gamification: {
+    level: number;
+    currentXP: number;
+    totalPoints: number;
+  };
+  dailyBreakdown: DailyBreakdown[];
+  achievements: ReportAchievement[];
+}
@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  addDays,
+  diffDays,
+  eachDateKey,
+  getDateKey,
+  getDayRange,
+  getLocalHour,
+  getLocalTime,
+  getStartOfDay,
+  getTodayKey,
+  isDateKey,
+  resolveTimeZone,
+} from "./dayBoundary";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function dayLengthHours(dateKey: string, timeZone: string) {
+  const { start, end } = getDayRange(dateKey, timeZone);
+  return (end.getTime() - start.getTime()) / HOUR_MS;
+}
+
+function inRange(instant: Date, range: { start: Date; end: Date }) {
+  return instant >= range.start && instant < range.end;
+}
+
+describe("getDayRange across DST changes", () => {
+  it("starts each day at local midnight", () => {
+    assert.deepEqual(getDayRange("2025-07-01", "Asia/Jerusalem"), {
+      start: new Date("2025-06-30T21:00:00Z"),
+      end: new Date("2025-07-01T21:00:00Z"),
+    });
+  });
+
+  it("makes spring-forward days 23 hours long", () => {
+    // Israel moves to summer time on Friday 2025-03-28 at 02:00
+    assert.equal(dayLengthHours("2025-03-28", "Asia/Jerusalem"), 23);
+    assert.equal(dayLengthHours("2025-03-09", "America/New_York"), 23);
+    assert.equal(dayLengthHours("2025-03-30", "Europe/London"), 23);
+  });
+
+  it("makes fall-back days 25 hours long", () => {
+    assert.equal(dayLengthHours("2025-10-26", "Asia/Jerusalem"), 25);
+    assert.equal(dayLengthHours("2025-11-02", "America/New_York"), 25);
+    assert.equal(dayLengthHours("2025-10-26", "Europe/London"), 25);
+  });
+
+  it("keeps the days either side of a change at 24 hours", () => {
+    const neighbours = ["2025-03-27", "2025-03-29", "2025-10-25", "2025-10-27"];
+    for (const key of neighbours) {
+      assert.equal(dayLengthHours(key, "Asia/Jerusalem"), 24, key);
+    }
+  });
+
+  it("leaves no gap or overlap between consecutive days", () => {
+    const keys = eachDateKey("2025-03-25", "2025-04-01");
+    for (const key of keys.slice(0, -1)) {
+      assert.deepEqual(
+        getDayRange(key, "Asia/Jerusalem").end,
+        getDayRange(addDays(key, 1), "Asia/Jerusalem").start,
+        key
+      );
+    }
+  });
+
+  it("starts the day at the first valid time when midnight is skipped", () => {
+    // Chile springs forward at midnight, so 2025-09-07 begins at 01:00
+    const start = getStartOfDay("2025-09-07", "America/Santiago");
+    assert.equal(start.toISOString(), "2025-09-07T04:00:00.000Z");
+    assert.equal(getLocalHour(start, "America/Santiago"), 1);
+    assert.equal(dayLengthHours("2025-09-07", "America/Santiago"), 23);
+  });
+});
+
+describe("sign-ins around a DST change", () => {
+  const zone = "Asia/Jerusalem";
+
+  it("buckets instants either side of the skipped hour on the same day", () => {
+    // 01:59 IST, then one minute later it's 03:00 IDT
+    const beforeChange = new Date("2025-03-27T23:59:00Z");
+    const afterChange = new Date("2025-03-28T00:00:00Z");
+    assert.equal(getDateKey(beforeChange, zone), "2025-03-28");
+    assert.equal(getDateKey(afterChange, zone), "2025-03-28");
+    assert.equal(getLocalHour(beforeChange, zone), 1 + 59 / 60);
+    assert.equal(getLocalHour(afterChange, zone), 3);
+  });
+
+  it("buckets both passes through the repeated hour on the same day", () => {
+    // 01:30 IDT, and an hour later 01:30 IST again
+    const firstPass = new Date("2025-10-25T22:30:00Z");
+    const secondPass = new Date("2025-10-25T23:30:00Z");
+    assert.equal(getDateKey(firstPass, zone), "2025-10-26");
+    assert.equal(getDateKey(secondPass, zone), "2025-10-26");
+    assert.equal(getLocalHour(firstPass, zone), 1.5);
+    assert.equal(getLocalHour(secondPass, zone), 1.5);
+  });
+
+  it("keeps late-night sign-ins on their local day", () => {
+    // 23:30 local is 21:30 UTC before the change and 20:30 UTC after it
+    const lateNight = (iso: string) => getDateKey(new Date(iso), zone);
+    assert.equal(lateNight("2025-03-27T21:30:00Z"), "2025-03-27");
+    assert.equal(lateNight("2025-03-28T20:30:00Z"), "2025-03-28");
+    assert.equal(lateNight("2025-03-28T21:30:00Z"), "2025-03-29");
+  });
+
+  it("finds yesterday's sign-in across a 23 and a 25 hour day", () => {
+    const cases = [
+      // Noon on each day, so exactly 23 or 25 hours apart
+      [new Date("2025-03-27T10:00:00Z"), new Date("2025-03-28T09:00:00Z")],
+      [new Date("2025-10-25T09:00:00Z"), new Date("2025-10-26T10:00:00Z")],
+    ];
+
+    for (const [previous, now] of cases) {
+      const today = getTodayKey(zone, now);
+      const yesterday = addDays(today, -1);
+      assert.equal(getDateKey(previous, zone), yesterday);
+      assert.ok(inRange(previous, getDayRange(yesterday, zone)));
+      assert.ok(inRange(now, getDayRange(today, zone)));
+    }
+  });
+
+  it("counts whole days between keys regardless of DST", () => {
+    assert.equal(diffDays("2025-03-27", "2025-03-29"), 2);
+    assert.equal(diffDays("2025-10-27", "2025-10-25"), -2);
+    assert.equal(addDays("2025-03-28", 1), "2025-03-29");
+    assert.deepEqual(eachDateKey("2025-10-25", "2025-10-27"), [
+      "2025-10-25",
+      "2025-10-26",
+      "2025-10-27",
+    ]);
+  });
+});
+
+describe("getLocalTime", () => {
+  it("reads the wall clock after the change, not hours since midnight", () => {
+    assert.equal(
+      getLocalTime("2025-03-09", 12, "America/New_York").toISOString(),
+      "2025-03-09T16:00:00.000Z"
+    );
+    assert.equal(
+      getLocalTime("2025-11-02", 12, "America/New_York").toISOString(),
+      "2025-11-02T17:00:00.000Z"
+    );
+  });
+});
+
+describe("date keys and zones", () => {
+  it("rejects impossible dates", () => {
+    assert.ok(isDateKey("2024-02-29"));
+    assert.equal(isDateKey("2025-02-29"), false);
+    assert.equal(isDateKey("2025-1-01"), false);
+  });
+
+  it("falls back to the default zone for unknown values", () => {
+    assert.equal(resolveTimeZone("Not/AZone"), "Asia/Jerusalem");
+    assert.equal(resolveTimeZone(null), "Asia/Jerusalem");
+    assert.equal(resolveTimeZone("Europe/London"), "Europe/London");
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Day boundaries in the user's own time zone.
+ *
+ * A "day" is identified by a date key ("YYYY-MM-DD") in the user's zone.
+ * Instants (meal eaten_at and similar) are bucketed with getDateKey, and
+ * queries over timestamp columns use getDayRange / getDateKeyRange, whose
+ * bounds are the real UTC instants of local midnight - so a 23:30 dinner in
+ * Israel stays on its own day, and days are 23 or 25 hours long across DST
+ * changes.
+ *
+ * Columns stored as @db.Date hold the key itself: toDbDate / fromDbDate map
+ * between keys and the UTC-midnight Date values Prisma uses for them.
+ */
+
+import { prisma } from "../lib/database";
+
+export const DEFAULT_TIME_ZONE = "Asia/Jerusalem";
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Falls back to the default for missing or unknown zones so a bad value
+// stored on a user can't break every date calculation
+export function resolveTimeZone(timeZone?: string | null): string {
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+function getLocalParts(instant: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return parts;
+}
+
+// How far the zone's wall clock is ahead of UTC at the given instant
+function getOffsetMs(instant: Date, timeZone: string): number {
+  const p = getLocalParts(instant, timeZone);
+  const wallClock = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second
+  );
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+export function isDateKey(value: unknown): value is string {
+  if (typeof value !== "string" || !DATE_KEY_PATTERN.test(value)) return false;
+  return toDbDate(value).toISOString().startsWith(value);
+}
+
+/** The user's calendar day that the instant falls on. */
+export function getDateKey(
+  instant: Date,
+  timeZone: string = DEFAULT_TIME_ZONE
+): string {
+  const p = getLocalParts(instant, resolveTimeZone(timeZone));
+  return [
+    p.year,
+    String(p.month).padStart(2, "0"),
+    String(p.day).padStart(2, "0"),
+  ].join("-");
+}
+
+export function getTodayKey(
+  timeZone: string = DEFAULT_TIME_ZONE,
+  now: Date = new Date()
+): string {
+  return getDateKey(now, timeZone);
+}
+
+export function addDays(dateKey: string, days: number): string {
+  return new Date(toDbDate(dateKey).getTime() + days * DAY_MS)
+    .toISOString()
+    .split("T")[0];
+}
+
+/** Whole days from one key to another (negative when `to` is earlier). */
+export function diffDays(from: string, to: string): number {
+  return Math.round(
+    (toDbDate(to).getTime() - toDbDate(from).getTime()) / DAY_MS
+  );
+}
+
+/** The instant local midnight starts the given day in the zone. */
+export function getStartOfDay(
+  dateKey: string,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date {
+  const zone = resolveTimeZone(timeZone);
+  const midnightUtc = toDbDate(dateKey).getTime();
+
+  // Guess with the offset at UTC midnight, then correct once in case a DST
+  // change falls between the guess and the real local midnight
+  let start = midnightUtc - getOffsetMs(new Date(midnightUtc), zone);
+  const corrected = midnightUtc - getOffsetMs(new Date(start), zone);
+  if (corrected !== start && getDateKey(new Date(corrected), zone) === dateKey) {
+    start = corrected;
+  }
+
+  // Zones that skip midnight itself start the day at the first valid time
+  for (let hours = 0; hours < 24; hours++) {
+    if (getDateKey(new Date(start), zone) === dateKey) return new Date(start);
+    start += 60 * 60 * 1000;
+  }
+
+  // The zone skipped the whole day (date line moves); treat it as empty
+  return getStartOfDay(addDays(dateKey, 1), zone);
+}
+
+/** Hours since local midnight at the instant, e.g. 19.5 for 19:30. */
+export function getLocalHour(
+  instant: Date,
+  timeZone: string = DEFAULT_TIME_ZONE
+): number {
+  const p = getLocalParts(instant, resolveTimeZone(timeZone));
+  return p.hour + p.minute / 60;
+}
+
+/** The instant the zone's wall clock reads `hour` on the given day. */
+export function getLocalTime(
+  dateKey: string,
+  hour: number,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date {
+  const zone = resolveTimeZone(timeZone);
+  const start = getStartOfDay(dateKey, zone);
+  const guess = start.getTime() + hour * 60 * 60 * 1000;
+
+  // Shift back by any DST change between midnight and the hour
+  return new Date(
+    guess + getOffsetMs(start, zone) - getOffsetMs(new Date(guess), zone)
+  );
+}
+
+/**
+ * The day as a half-open range of instants, for `{ gte: start, lt: end }`
+ * filters on timestamp columns.
+ */
+export function getDayRange(
+  dateKey: string,
+  timeZone: string = DEFAULT_TIME_ZONE
+): { start: Date; end: Date } {
+  return getDateKeyRange(dateKey, dateKey, timeZone);
+}
+
+/** From the start of `fromKey` up to (not including) the day after `toKey`. */
+export function getDateKeyRange(
+  fromKey: string,
+  toKey: string,
+  timeZone: string = DEFAULT_TIME_ZONE
+): { start: Date; end: Date } {
+  return {
+    start: getStartOfDay(fromKey, timeZone),
+    end: getStartOfDay(addDays(toKey, 1), timeZone),
+  };
+}
+
+/** Every key from `fromKey` to `toKey`, inclusive. */
+export function eachDateKey(fromKey: string, toKey: string): string[] {
+  const keys: string[] = [];
+  for (let key = fromKey; key <= toKey; key = addDays(key, 1)) {
+    keys.push(key);
+  }
+  return keys;
+}
+
+/** The value Prisma expects for a @db.Date column holding this day. */
+export function toDbDate(dateKey: string): Date {
+  return new Date(`${dateKey}T00:00:00.000Z`);
+}
+
+/** The day stored in a @db.Date column. */
+export function fromDbDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export async function getUserTimeZone(user_id: string): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { user_id },
+    select: { timezone: true },
+  });
+  return resolveTimeZone(user?.timezone);
+}
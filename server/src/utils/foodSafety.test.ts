@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildFoodSafetyProfile, checkFood } from "./foodSafety";
+
+function groupsFlagged(
+  questionnaire: Parameters<typeof buildFoodSafetyProfile>[0],
+  name: string
+) {
+  const profile = buildFoodSafetyProfile(questionnaire);
+  return checkFood(profile, { name }).map((violation) => violation.group);
+}
+
+describe("checkFood free-of phrases", () => {
+  it("trusts a free-of phrase for the dish it describes", () => {
+    const gluten = { allergies: ["gluten"] };
+    assert.deepEqual(groupsFlagged(gluten, "Gluten free bread"), []);
+    assert.deepEqual(groupsFlagged(gluten, "לחם ללא גלוטן"), []);
+    const dairy = { allergies: ["dairy"] };
+    assert.deepEqual(groupsFlagged(dairy, "Coffee, no milk"), []);
+    assert.deepEqual(
+      groupsFlagged({ dietary_style: "vegetarian" }, "Vegan sausage"),
+      []
+    );
+  });
+
+  it("still checks the rest of the dish", () => {
+    const nuts = { allergies: ["nuts"] };
+    const vegetarian = { dietary_style: "vegetarian" };
+    assert.deepEqual(
+      groupsFlagged(nuts, "Nut-free brownie with walnut topping"),
+      ["nuts"]
+    );
+    assert.deepEqual(
+      groupsFlagged(nuts, "Nut-free brownie, walnut topping"),
+      ["nuts"]
+    );
+    assert.deepEqual(
+      groupsFlagged({ allergies: ["dairy"] }, "Dairy free pancake with butter"),
+      ["dairy"]
+    );
+    assert.deepEqual(
+      groupsFlagged(vegetarian, "Vegan sausage with bacon"),
+      ["meat"]
+    );
+  });
+
+  it("still catches meat with dairy for kosher users", () => {
+    const groups = groupsFlagged(
+      { kosher: true },
+      "Dairy free pancake with butter and beef bacon"
+    );
+    assert.ok(groups.includes("meat_with_dairy"));
+  });
+});
@@ -0,0 +1,887 @@
+import {
+  DietRuleKey,
+  FoodSafetyProfile,
+  FoodSafetyViolation,
+  FoodToCheck,
+} from "../types/foodSafety";
+
+// Food is matched word by word, in English and Hebrew, against the name,
+// ingredients and declared allergens of a meal or product. English words
+// are compared singular to singular; Hebrew words may carry a one- or
+// two-letter prefix (ו, ה, ב, ל, מ, ש, כ), and plural and construct forms
+// are listed explicitly. Whole words matter: חלבון (protein) is not חלב
+// (milk), and peanut is not a tree nut.
+
+interface FoodGroup {
+  // Used in reasons and prompts
+  label: string;
+  // How questionnaires and product labels name the group
+  names: string[];
+  terms: string[];
+  // Phrases that look like the group but aren't, such as almond milk
+  exceptions?: string[];
+  // Words that mark a dish as free of the group, such as "vegan sausage"
+  freeOf?: string[];
+}
+
+const PLANT_BASED = ["vegan", "plant based", "טבעוני", "טבעונית", "מן הצומח"];
+const MEATLESS = [
+  ...PLANT_BASED,
+  "vegetarian",
+  "veggie",
+  "meatless",
+  "צמחוני",
+  "צמחונית",
+  "צמחי",
+];
+
+const PORK_TERMS = [
+  "pork",
+  "bacon",
+  "ham",
+  "prosciutto",
+  "pancetta",
+  "lard",
+  "chorizo",
+  "חזיר",
+  "בייקון",
+  "פרושוטו",
+  "פנצטה",
+];
+
+const FOOD_GROUPS: Record<string, FoodGroup> = {
+  gluten: {
+    label: "gluten",
+    names: ["gluten", "גלוטן"],
+    terms: [
+      "wheat",
+      "flour",
+      "bread",
+      "breadcrumb",
+      "pasta",
+      "spaghetti",
+      "noodle",
+      "macaroni",
+      "lasagna",
+      "couscous",
+      "bulgur",
+      "barley",
+      "rye",
+      "semolina",
+      "spelt",
+      "seitan",
+      "pita",
+      "bagel",
+      "croissant",
+      "cracker",
+      "crouton",
+      "toast",
+      "cake",
+      "cookie",
+      "muffin",
+      "pancake",
+      "waffle",
+      "pizza",
+      "חיטה",
+      "קמח",
+      "לחם",
+      "לחמניה",
+      "לחמניות",
+      "פסטה",
+      "ספגטי",
+      "אטריות",
+      "מקרוני",
+      "לזניה",
+      "קוסקוס",
+      "בורגול",
+      "פתיתים",
+      "שעורה",
+      "שעורים",
+      "שיפון",
+      "סולת",
+      "כוסמין",
+      "פיתה",
+      "פיתות",
+      "בייגל",
+      "קרואסון",
+      "קרקר",
+      "קרקרים",
+      "טוסט",
+      "עוגה",
+      "עוגיות",
+      "פנקייק",
+      "וופל",
+      "פיצה",
+      "בצק",
+    ],
+    exceptions: [
+      "rice flour",
+      "almond flour",
+      "coconut flour",
+      "corn flour",
+      "chickpea flour",
+      "buckwheat flour",
+      "rice noodle",
+      "rice cake",
+      "קמח אורז",
+      "קמח שקדים",
+      "קמח קוקוס",
+      "קמח תירס",
+      "קמח חומוס",
+      "קמח כוסמת",
+      "אטריות אורז",
+    ],
+  },
+  dairy: {
+    label: "dairy",
+    names: ["dairy", "milk", "lactose", "חלב", "מוצרי חלב", "לקטוז"],
+    terms: [
+      "cheese",
+      "butter",
+      "buttermilk",
+      "cream",
+      "yogurt",
+      "yoghurt",
+      "whey",
+      "casein",
+      "ghee",
+      "kefir",
+      "labneh",
+      "feta",
+      "mozzarella",
+      "parmesan",
+      "ricotta",
+      "cheddar",
+      "cottage",
+      "mascarpone",
+      "halloumi",
+      "tzatziki",
+      "milkshake",
+      "גבינה",
+      "גבינת",
+      "גבינות",
+      "יוגורט",
+      "שמנת",
+      "חמאה",
+      "חמאת",
+      "לבנה",
+      "קוטג",
+      "פטה",
+      "מוצרלה",
+      "פרמזן",
+      "ריקוטה",
+      "צפתית",
+      "בולגרית",
+      "חלומי",
+      "קצפת",
+      "חלבי",
+      "חלבית",
+    ],
+    exceptions: [
+      "almond milk",
+      "soy milk",
+      "oat milk",
+      "rice milk",
+      "coconut milk",
+      "coconut cream",
+      "coconut yogurt",
+      "soy yogurt",
+      "peanut butter",
+      "almond butter",
+      "nut butter",
+      "cashew butter",
+      "cocoa butter",
+      "חלב שקדים",
+      "חלב סויה",
+      "חלב שיבולת שועל",
+      "חלב אורז",
+      "חלב קוקוס",
+      "חמאת בוטנים",
+      "חמאת שקדים",
+      "חמאת אגוזים",
+      "חמאת קקאו",
+    ],
+    freeOf: PLANT_BASED,
+  },
+  eggs: {
+    label: "eggs",
+    names: ["egg", "eggs", "ביצים", "ביצה"],
+    terms: [
+      "omelette",
+      "omelet",
+      "frittata",
+      "shakshuka",
+      "mayonnaise",
+      "mayo",
+      "meringue",
+      "quiche",
+      "aioli",
+      "ביצת",
+      "ביצי",
+      "חביתה",
+      "חביתת",
+      "שקשוקה",
+      "מיונז",
+      "פריטטה",
+      "מרנג",
+      "קיש",
+    ],
+    freeOf: PLANT_BASED,
+  },
+  nuts: {
+    label: "tree nuts",
+    names: ["nut", "nuts", "tree nuts", "אגוזים", "אגוז"],
+    terms: [
+      "almond",
+      "walnut",
+      "hazelnut",
+      "pecan",
+      "cashew",
+      "pistachio",
+      "macadamia",
+      "praline",
+      "marzipan",
+      "nutella",
+      "pesto",
+      "אגוזי",
+      "שקד",
+      "שקדים",
+      "שקדי",
+      "פקאן",
+      "קשיו",
+      "פיסטוק",
+      "פיסטוקים",
+      "מקדמיה",
+      "צנובר",
+      "צנוברים",
+      "מרציפן",
+      "נוטלה",
+      "פרלין",
+      "פסטו",
+    ],
+    exceptions: ["אגוז מוסקט"],
+  },
+  peanuts: {
+    label: "peanuts",
+    names: ["peanut", "peanuts", "בוטנים", "בוטן"],
+    terms: ["groundnut", "satay", "במבה"],
+  },
+  sesame: {
+    label: "sesame",
+    names: ["sesame", "שומשום"],
+    terms: ["tahini", "tahina", "halva", "halvah", "טחינה", "חלווה"],
+  },
+  fish: {
+    label: "fish",
+    names: ["fish", "דגים", "דג"],
+    terms: [
+      "salmon",
+      "tuna",
+      "cod",
+      "tilapia",
+      "sardine",
+      "anchovy",
+      "trout",
+      "mackerel",
+      "halibut",
+      "herring",
+      "haddock",
+      "swordfish",
+      "sea bass",
+      "sea bream",
+      "caviar",
+      "דגי",
+      "סלמון",
+      "טונה",
+      "אמנון",
+      "סרדין",
+      "סרדינים",
+      "אנשובי",
+      "פורל",
+      "מקרל",
+      "הרינג",
+      "דניס",
+      "לברק",
+      "בקלה",
+      "מושט",
+      "לוקוס",
+      "בורי",
+      "קוויאר",
+    ],
+  },
+  shellfish: {
+    label: "shellfish",
+    names: ["shellfish", "seafood", "פירות ים", "רכיכות"],
+    terms: [
+      "shrimp",
+      "prawn",
+      "crab",
+      "lobster",
+      "clam",
+      "mussel",
+      "oyster",
+      "scallop",
+      "squid",
+      "calamari",
+      "octopus",
+      "crayfish",
+      "שרימפס",
+      "סרטן",
+      "סרטנים",
+      "לובסטר",
+      "צדפה",
+      "צדפות",
+      "מולים",
+      "קלמרי",
+      "קלמארי",
+      "תמנון",
+      "דיונון",
+    ],
+    exceptions: ["oyster mushroom", "פטריות צדפה"],
+  },
+  soy: {
+    label: "soy",
+    names: ["soy", "soya", "סויה"],
+    terms: [
+      "soybean",
+      "tofu",
+      "edamame",
+      "tempeh",
+      "miso",
+      "טופו",
+      "אדממה",
+      "טמפה",
+      "מיסו",
+    ],
+  },
+  // Poultry counts as meat here, as it does for kashrut
+  meat: {
+    label: "meat",
+    names: ["meat", "בשר"],
+    terms: [
+      "beef",
+      "chicken",
+      "turkey",
+      "lamb",
+      "veal",
+      "duck",
+      "goose",
+      "steak",
+      "sausage",
+      "salami",
+      "pastrami",
+      "pepperoni",
+      "schnitzel",
+      "meatball",
+      "burger",
+      "hamburger",
+      "kebab",
+      "shawarma",
+      "liver",
+      "brisket",
+      ...PORK_TERMS,
+      "בקר",
+      "עוף",
+      "פרגית",
+      "הודו",
+      "כבש",
+      "טלה",
+      "ברווז",
+      "אווז",
+      "סטייק",
+      "אנטריקוט",
+      "נקניק",
+      "נקניקיה",
+      "נקניקיות",
+      "סלמי",
+      "פסטרמה",
+      "שניצל",
+      "קציצה",
+      "קציצות",
+      "המבורגר",
+      "קבב",
+      "שווארמה",
+      "שוארמה",
+    ],
+    freeOf: MEATLESS,
+  },
+  pork: {
+    label: "pork",
+    names: ["pork", "חזיר"],
+    terms: PORK_TERMS,
+    exceptions: ["turkey bacon", "beef bacon", "turkey ham", "בייקון הודו"],
+    freeOf: MEATLESS,
+  },
+  honey: {
+    label: "honey",
+    names: ["honey", "דבש"],
+    terms: [],
+  },
+  gelatin: {
+    label: "gelatin",
+    names: ["gelatin", "gelatine", "גלטין"],
+    terms: ["marshmallow", "מרשמלו"],
+  },
+};
+
+interface DietRule {
+  label: string;
+  names: string[];
+  excludes: string[];
+  // Carb-restricted diets flag meals above this many grams of carbs
+  maxCarbsPerMeal?: number;
+}
+
+const DIET_RULES: Record<DietRuleKey, DietRule> = {
+  vegan: {
+    label: "vegan",
+    names: ["vegan", "טבעוני"],
+    excludes: [
+      "meat",
+      "fish",
+      "shellfish",
+      "dairy",
+      "eggs",
+      "honey",
+      "gelatin",
+    ],
+  },
+  vegetarian: {
+    label: "vegetarian",
+    names: ["vegetarian", "צמחוני"],
+    excludes: ["meat", "fish", "shellfish", "gelatin"],
+  },
+  keto: {
+    label: "keto",
+    names: ["keto", "ketogenic", "קטוגני"],
+    excludes: [],
+    maxCarbsPerMeal: 20,
+  },
+  low_carb: {
+    label: "low carb",
+    names: ["low carb", "דל פחמימה", "דל פחמימות"],
+    excludes: [],
+    maxCarbsPerMeal: 45,
+  },
+};
+
+const KOSHER_EXCLUDES = ["pork", "shellfish"];
+
+// Questionnaire answers that name no food
+const NON_ANSWERS = ["none", "other", "no", "אין", "ללא", "אחר", "לא"];
+
+const HEBREW_PREFIXES = "והבלמשכ";
+
+// Words that start another part of a dish, e.g. "pancake with butter"
+const CONNECTORS = new Set([
+  "with",
+  "and",
+  "plus",
+  "or",
+  "on",
+  "topped",
+  "served",
+  "but",
+  "עם",
+  "ועם",
+  "על",
+  "או",
+  "אבל",
+]);
+
+interface TextChunk {
+  text: string;
+  tokens: string[];
+}
+
+// A phrase marking a dish as free of a group, and which side of it the
+// dish it describes is on: "gluten free bread", "bread without gluten"
+interface FreeOfPhrase {
+  words: string[];
+  describes: "next" | "previous";
+}
+
+interface Match {
+  term: string;
+  found_in: string;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['׳"״`’]/g, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function stem(word: string): string {
+  if (!/^[a-z]+$/.test(word) || word.length <= 3) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.endsWith("oes")) return word.slice(0, -2);
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+// The word itself plus what's left after Hebrew prefixes
+function wordForms(token: string): string[] {
+  const forms = [stem(token)];
+  if (HEBREW_PREFIXES.includes(token[0]) && token.length > 2) {
+    forms.push(token.slice(1));
+    if (HEBREW_PREFIXES.includes(token[1]) && token.length > 3) {
+      forms.push(token.slice(2));
+    }
+  }
+  return forms;
+}
+
+function phraseAt(tokens: string[], phrase: string[], start: number): boolean {
+  return phrase.every((word, i) => {
+    const token = tokens[start + i];
+    if (token === undefined) return false;
+    return i === 0
+      ? wordForms(token).includes(stem(word))
+      : stem(token) === stem(word);
+  });
+}
+
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  if (phrase.length === 0) return false;
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phraseAt(tokens, phrase, i)) return true;
+  }
+  return false;
+}
+
+// Blanks out the words of every occurrence of the phrases
+function withoutPhrases(tokens: string[], phrases: string[]): string[] {
+  const result = [...tokens];
+  for (const phrase of phrases.map(tokenize)) {
+    for (let i = 0; i + phrase.length <= result.length; i++) {
+      if (phraseAt(result, phrase, i)) {
+        result.fill("", i, i + phrase.length);
+      }
+    }
+  }
+  return result;
+}
+
+// Hebrew puts the describing words after the dish, as in "לחם ללא גלוטן"
+function freeOfPhrases(group: FoodGroup): FreeOfPhrase[] {
+  const phrase = (text: string, describes: FreeOfPhrase["describes"]) => ({
+    words: tokenize(text),
+    describes: /[א-ת]/.test(text) ? ("previous" as const) : describes,
+  });
+
+  return [
+    ...group.names.flatMap((name) => [
+      phrase(`${name} free`, "next"),
+      phrase(`without ${name}`, "previous"),
+      phrase(`no ${name}`, "previous"),
+      phrase(`ללא ${name}`, "previous"),
+      phrase(`נטול ${name}`, "previous"),
+      phrase(`נטולת ${name}`, "previous"),
+      phrase(`נטולי ${name}`, "previous"),
+    ]),
+    ...(group.freeOf || []).map((marker) => phrase(marker, "next")),
+  ];
+}
+
+// Blanks out each free-of phrase with the words it describes, up to the
+// nearest connector, so "dairy free pancake with butter" still shows the
+// butter
+function withoutFreeOf(tokens: string[], phrases: FreeOfPhrase[]): string[] {
+  const result = [...tokens];
+  for (const { words, describes } of phrases) {
+    for (let i = 0; i + words.length <= result.length; i++) {
+      if (!phraseAt(result, words, i)) continue;
+
+      let from = i;
+      let to = i + words.length;
+      if (describes === "next") {
+        while (to < result.length && !CONNECTORS.has(result[to])) to++;
+      } else {
+        while (from > 0 && !CONNECTORS.has(result[from - 1])) from--;
+      }
+      result.fill("", from, to);
+    }
+  }
+  return result;
+}
+
+function matchGroup(key: string, chunks: TextChunk[]): Match | null {
+  const group = FOOD_GROUPS[key];
+  const freeOf = freeOfPhrases(group);
+
+  for (const chunk of chunks) {
+    // A free-of phrase doesn't reach past the clause it's in, as in
+    // "nut-free brownie, walnut topping"
+    const clauses = chunk.text
+      .split(/[,;()]/)
+      .flatMap((clause) => [...withoutFreeOf(tokenize(clause), freeOf), ""]);
+    const tokens = withoutPhrases(clauses, group.exceptions || []);
+    const term = [...group.names, ...group.terms].find((t) =>
+      containsPhrase(tokens, tokenize(t))
+    );
+    if (term) return { term, found_in: chunk.text };
+  }
+  return null;
+}
+
+function groupKeyFor(entry: string): string | null {
+  const words = tokenize(entry).map(stem).join(" ");
+  const key = Object.keys(FOOD_GROUPS).find((k) =>
+    FOOD_GROUPS[k].names.some(
+      (name) => tokenize(name).map(stem).join(" ") === words
+    )
+  );
+  return key || null;
+}
+
+// A questionnaire entry, either a food group or a food of its own
+function matchEntry(entry: string, chunks: TextChunk[]): Match | null {
+  const key = groupKeyFor(entry);
+  if (key) return matchGroup(key, chunks);
+
+  const phrase = tokenize(entry);
+  const chunk = chunks.find((c) => containsPhrase(c.tokens, phrase));
+  return chunk ? { term: entry, found_in: chunk.text } : null;
+}
+
+function answerList(values: unknown): string[] {
+  if (!Array.isArray(values)) return [];
+  return values
+    .filter((v): v is string => typeof v === "string")
+    .flatMap((v) => v.split(/[,;\n]/))
+    .map((v) => v.trim())
+    .filter((v) => v !== "" && !NON_ANSWERS.includes(v.toLowerCase()));
+}
+
+function dietFor(dietaryStyle: unknown): DietRuleKey | null {
+  if (typeof dietaryStyle !== "string") return null;
+  const words = tokenize(dietaryStyle).join(" ");
+  const key = (Object.keys(DIET_RULES) as DietRuleKey[]).find(
+    (k) => k === dietaryStyle || DIET_RULES[k].names.includes(words)
+  );
+  return key || null;
+}
+
+interface QuestionnaireRules {
+  allergies?: string[] | null;
+  allergies_text?: string[] | null;
+  disliked_foods?: string[] | null;
+  dietary_style?: string | null;
+  kosher?: boolean | null;
+}
+
+export function buildFoodSafetyProfile(
+  questionnaire: QuestionnaireRules | null | undefined
+): FoodSafetyProfile {
+  const allergies = [
+    ...answerList(questionnaire?.allergies),
+    ...answerList(questionnaire?.allergies_text),
+  ];
+  const allergenGroups = new Set<string>();
+  const customAllergens = new Set<string>();
+  for (const allergy of allergies) {
+    const key = groupKeyFor(allergy);
+    if (key) allergenGroups.add(key);
+    else customAllergens.add(allergy);
+  }
+
+  return {
+    allergen_groups: [...allergenGroups],
+    custom_allergens: [...customAllergens],
+    disliked_foods: answerList(questionnaire?.disliked_foods),
+    diet: dietFor(questionnaire?.dietary_style),
+    kosher: Boolean(questionnaire?.kosher),
+  };
+}
+
+export function hasFoodSafetyRules(profile: FoodSafetyProfile): boolean {
+  return (
+    profile.allergen_groups.length > 0 ||
+    profile.custom_allergens.length > 0 ||
+    profile.disliked_foods.length > 0 ||
+    profile.diet !== null ||
+    profile.kosher
+  );
+}
+
+export function checkFood(
+  profile: FoodSafetyProfile,
+  food: FoodToCheck
+): FoodSafetyViolation[] {
+  const chunks = [
+    food.name,
+    ...(food.parts || []),
+    ...(food.declared_allergens || []),
+  ]
+    .filter((text) => typeof text === "string" && text.trim() !== "")
+    .map((text) => ({ text, tokens: tokenize(text) }));
+  const violations: FoodSafetyViolation[] = [];
+
+  for (const key of profile.allergen_groups) {
+    const match = matchGroup(key, chunks);
+    if (match) {
+      violations.push({
+        rule: "ALLERGY",
+        severity: "BLOCK",
+        group: key,
+        ...match,
+        reason: `Contains ${match.term} (${FOOD_GROUPS[key].label}), which the user is allergic to`,
+      });
+    }
+  }
+
+  for (const allergen of profile.custom_allergens) {
+    const match = matchEntry(allergen, chunks);
+    if (match) {
+      violations.push({
+        rule: "ALLERGY",
+        severity: "BLOCK",
+        group: null,
+        ...match,
+        reason: `Contains ${allergen}, which the user is allergic to`,
+      });
+    }
+  }
+
+  if (profile.diet) {
+    const diet = DIET_RULES[profile.diet];
+    for (const key of diet.excludes) {
+      const match = matchGroup(key, chunks);
+      if (match) {
+        violations.push({
+          rule: "DIET",
+          severity: "BLOCK",
+          group: key,
+          ...match,
+          reason: `Contains ${match.term} (${FOOD_GROUPS[key].label}), which a ${diet.label} diet excludes`,
+        });
+      }
+    }
+    if (
+      diet.maxCarbsPerMeal !== undefined &&
+      typeof food.carbs_g === "number" &&
+      food.carbs_g > diet.maxCarbsPerMeal
+    ) {
+      violations.push({
+        rule: "DIET",
+        severity: "WARN",
+        group: null,
+        term: `${Math.round(food.carbs_g)}g carbs`,
+        found_in: food.name,
+        reason: `Has ${Math.round(food.carbs_g)}g of carbs, over the ${diet.maxCarbsPerMeal}g a ${diet.label} meal should have`,
+      });
+    }
+  }
+
+  if (profile.kosher) {
+    for (const key of KOSHER_EXCLUDES) {
+      const match = matchGroup(key, chunks);
+      if (match) {
+        violations.push({
+          rule: "KOSHER",
+          severity: "BLOCK",
+          group: key,
+          ...match,
+          reason: `Contains ${match.term} (${FOOD_GROUPS[key].label}), which isn't kosher`,
+        });
+      }
+    }
+
+    const meat = matchGroup("meat", chunks);
+    const dairy = meat && matchGroup("dairy", chunks);
+    if (meat && dairy) {
+      violations.push({
+        rule: "KOSHER",
+        severity: "BLOCK",
+        group: "meat_with_dairy",
+        term: `${meat.term} + ${dairy.term}`,
+        found_in: [...new Set([meat.found_in, dairy.found_in])].join(" / "),
+        reason: `Serves meat (${meat.term}) with dairy (${dairy.term}) in one meal, which isn't kosher`,
+      });
+    }
+
+    // Only products carry labels; a missing certification is worth a note
+    if (
+      food.labels &&
+      !food.labels.some((label) => /kosher|כשר/i.test(label))
+    ) {
+      violations.push({
+        rule: "KOSHER",
+        severity: "WARN",
+        group: null,
+        term: "kosher certification",
+        found_in: food.name,
+        reason: "The label shows no kosher certification",
+      });
+    }
+  }
+
+  for (const disliked of profile.disliked_foods) {
+    const match = matchEntry(disliked, chunks);
+    if (match) {
+      violations.push({
+        rule: "DISLIKED",
+        severity: "WARN",
+        group: null,
+        ...match,
+        reason: `Contains ${disliked}, which the user doesn't like`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+export function isBlocked(violations: FoodSafetyViolation[]): boolean {
+  return violations.some((v) => v.severity === "BLOCK");
+}
+
+export function summarizeViolations(violations: FoodSafetyViolation[]): string {
+  return violations.map((v) => v.reason).join("; ");
+}
+
+// Rules for an AI prompt. The engine checks the answer either way; spelling
+// the rules out just makes a usable answer more likely.
+export function describeFoodSafetyRules(profile: FoodSafetyProfile): string {
+  const groupText = (key: string) => {
+    const group = FOOD_GROUPS[key];
+    const examples = group.terms
+      .filter((t) => /^[a-z ]+$/.test(t))
+      .slice(0, 6);
+    return examples.length > 0
+      ? `${group.label} (e.g. ${examples.join(", ")})`
+      : group.label;
+  };
+
+  const lines: string[] = [];
+  const allergies = [
+    ...profile.allergen_groups.map(groupText),
+    ...profile.custom_allergens,
+  ];
+  if (allergies.length > 0) {
+    lines.push(`- Allergies, never include: ${allergies.join("; ")}`);
+  }
+  if (profile.diet) {
+    const diet = DIET_RULES[profile.diet];
+    const rule =
+      diet.excludes.length > 0
+        ? `no ${diet.excludes.map((k) => FOOD_GROUPS[k].label).join(", ")}`
+        : `at most ${diet.maxCarbsPerMeal}g carbs per meal`;
+    lines.push(`- Diet: ${diet.label}, ${rule}`);
+  }
+  if (profile.kosher) {
+    lines.push(
+      "- Kosher: no pork or shellfish, and never meat (including poultry) with dairy in the same meal"
+    );
+  }
+  if (profile.disliked_foods.length > 0) {
+    lines.push(`- Dislikes, avoid: ${profile.disliked_foods.join(", ")}`);
+  }
+
+  return lines.length > 0
+    ? `STRICT FOOD RULES (every meal must follow these):\n${lines.join("\n")}`
+    : "";
+}
@@ -0,0 +1,66 @@
+import { MealTiming } from "@prisma/client";
+import {
+  getLocalHour,
+  getLocalTime,
+  getTodayKey,
+} from "./dayBoundary";
+
+// Local hour a back-dated meal is placed at when only its day is known
+const TYPICAL_HOURS: Record<MealTiming, number> = {
+  BREAKFAST: 8,
+  MORNING_SNACK: 10.5,
+  LUNCH: 13,
+  AFTERNOON_SNACK: 16.5,
+  DINNER: 19.5,
+  SNACK: 16,
+};
+const UNKNOWN_MEAL_HOUR = 12;
+
+export interface MealTimingInput {
+  eaten_at?: Date | string;
+  // The user's local day ("YYYY-MM-DD") when no exact time is given
+  date?: string;
+  meal_type?: MealTiming;
+}
+
+export interface MealTimingFields {
+  eaten_at: Date;
+  meal_type: MealTiming;
+}
+
+/** The meal type a meal eaten at this local time most likely was. */
+export function inferMealType(eatenAt: Date, timeZone: string): MealTiming {
+  const hour = getLocalHour(eatenAt, timeZone);
+  if (hour >= 4 && hour < 11) return MealTiming.BREAKFAST;
+  if (hour >= 11 && hour < 16) return MealTiming.LUNCH;
+  if (hour >= 17 && hour < 23) return MealTiming.DINNER;
+  return MealTiming.SNACK;
+}
+
+/**
+ * When a meal was eaten and what kind of meal it was. An explicit eaten_at
+ * wins; a past `date` without a time gets the typical hour for the meal
+ * type; otherwise the meal is being eaten now. A missing meal_type is
+ * inferred from the local time.
+ */
+export function resolveMealTiming(
+  input: MealTimingInput,
+  timeZone: string,
+  now: Date = new Date()
+): MealTimingFields {
+  let eatenAt = now;
+  if (input.eaten_at) {
+    eatenAt = new Date(input.eaten_at);
+  } else if (input.date && input.date !== getTodayKey(timeZone, now)) {
+    eatenAt = getLocalTime(
+      input.date,
+      input.meal_type ? TYPICAL_HOURS[input.meal_type] : UNKNOWN_MEAL_HOUR,
+      timeZone
+    );
+  }
+
+  return {
+    eaten_at: eatenAt,
+    meal_type: input.meal_type ?? inferMealType(eatenAt, timeZone),
+  };
+}
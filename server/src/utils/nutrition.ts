@@ -1,9 +1,9 @@
-import { AnalysisStatus } from "@prisma/client";
+import { AnalysisStatus, Prisma } from "@prisma/client";
 
 export function mapMealDataToPrismaFields(
   mealData: any,
   user_id: string,
-  imageBase64?: string
+  imageUrl?: string
 ) {
   // Defensive parsing helpers
   const parseNumber = (value: any) =>
@@ -103,7 +103,7 @@ export function mapMealDataToPrismaFields(
 
   return {
     user_id,
-    image_url: imageBase64 ? `data:image/jpeg;base64,${imageBase64}` : "",
+    image_url: imageUrl || "",
     upload_time: new Date(),
     analysis_status: AnalysisStatus.COMPLETED,
     meal_name: mealData.meal_name ?? mealData.name ?? "Unknown meal",
@@ -159,9 +159,12 @@ export function mapExistingMealToPrismaInput(
   date: Date
 ) {
   return {
-    ...mapMealDataToPrismaFields(originalMeal, user_id, undefined),
+    // Copies share the stored image with the original meal
+    ...mapMealDataToPrismaFields(originalMeal, user_id, originalMeal.image_url),
     meal_name: `${originalMeal.meal_name} (Copy)`,
+    meal_type: originalMeal.meal_type,
     upload_time: date,
+    eaten_at: date,
     created_at: date,
     additives_json: {
       duplicatedFrom: originalMeal.meal_id,
@@ -176,3 +179,139 @@ export function asJsonObject(value: unknown): Record<string, any> {
   }
   return {};
 }
+
+// Ingredient nutrient keys and the Meal columns they add up to. Ingredients
+// use the short macro names the analysis returns (protein, carbs, fat...)
+export const INGREDIENT_TOTAL_FIELDS = {
+  calories: "calories",
+  protein: "protein_g",
+  carbs: "carbs_g",
+  fat: "fats_g",
+  fiber: "fiber_g",
+  sugar: "sugar_g",
+  sodium_mg: "sodium_mg",
+  cholesterol_mg: "cholesterol_mg",
+  saturated_fats_g: "saturated_fats_g",
+  polyunsaturated_fats_g: "polyunsaturated_fats_g",
+  monounsaturated_fats_g: "monounsaturated_fats_g",
+  omega_3_g: "omega_3_g",
+  omega_6_g: "omega_6_g",
+  soluble_fiber_g: "soluble_fiber_g",
+  insoluble_fiber_g: "insoluble_fiber_g",
+  alcohol_g: "alcohol_g",
+  caffeine_mg: "caffeine_mg",
+  serving_size_g: "serving_size_g",
+} as const;
+
+export type IngredientTotalField = keyof typeof INGREDIENT_TOTAL_FIELDS;
+
+export type MealIngredient = Record<IngredientTotalField, number> & {
+  name: string;
+  source?: "database" | "ai";
+  food_id?: string;
+  match_score?: number;
+  [key: string]: unknown;
+};
+
+const INGREDIENT_FIELD_ALIASES: Partial<Record<IngredientTotalField, string[]>> =
+  {
+    protein: ["protein_g"],
+    carbs: ["carbs_g"],
+    fat: ["fats_g"],
+    fiber: ["fiber_g"],
+    sugar: ["sugar_g"],
+    sodium_mg: ["sodium"],
+  };
+
+function roundNutrient(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Stored ingredients come from several analysis versions: plain strings,
+// objects with protein_g instead of protein, missing fields. This gives them
+// all the same numeric shape
+export function normalizeMealIngredient(
+  raw: unknown,
+  index: number
+): MealIngredient {
+  if (typeof raw === "string") {
+    return toIngredient({ name: raw }, index);
+  }
+  return toIngredient(asJsonObject(raw), index);
+}
+
+function toIngredient(raw: Record<string, any>, index: number): MealIngredient {
+  const ingredient: Record<string, unknown> = {
+    ...raw,
+    name: raw.name || raw.ingredient_name || `Item ${index + 1}`,
+  };
+  for (const field of Object.keys(INGREDIENT_TOTAL_FIELDS) as IngredientTotalField[]) {
+    const aliases = INGREDIENT_FIELD_ALIASES[field] || [];
+    const value = [field, ...aliases]
+      .map((key) => Number(raw[key]))
+      .find((n) => Number.isFinite(n) && n > 0);
+    ingredient[field] = value ?? 0;
+    // Drop the alias so a later rescale can't leave a stale copy behind
+    aliases.forEach((alias) => delete ingredient[alias]);
+  }
+  return ingredient as MealIngredient;
+}
+
+export function parseMealIngredients(value: unknown): MealIngredient[] {
+  let list: unknown = value;
+  if (typeof value === "string") {
+    try {
+      list = JSON.parse(value);
+    } catch {
+      list = [value];
+    }
+  }
+  return Array.isArray(list) ? list.map(normalizeMealIngredient) : [];
+}
+
+// Multiplies the portion and every nutrient of an ingredient by factor
+export function scaleMealIngredient(
+  ingredient: MealIngredient,
+  factor: number
+): MealIngredient {
+  const scaled: MealIngredient = { ...ingredient };
+  for (const field of Object.keys(INGREDIENT_TOTAL_FIELDS) as IngredientTotalField[]) {
+    scaled[field] =
+      field === "calories" || field === "sodium_mg"
+        ? Math.round(ingredient[field] * factor)
+        : roundNutrient(ingredient[field] * factor);
+  }
+  return scaled;
+}
+
+/**
+ * Meal column updates for an ingredient edit. The totals move by however
+ * much the ingredient list changed, rather than being replaced by its sum,
+ * so meals whose AI totals never matched their ingredients keep the rest of
+ * their numbers.
+ */
+export function mapIngredientEditToPrismaInput(
+  meal: Record<string, any>,
+  before: MealIngredient[],
+  after: MealIngredient[]
+) {
+  const sum = (list: MealIngredient[], field: IngredientTotalField) =>
+    list.reduce((total, ingredient) => total + ingredient[field], 0);
+
+  const totals: Record<string, number> = {};
+  for (const [field, column] of Object.entries(INGREDIENT_TOTAL_FIELDS)) {
+    const key = field as IngredientTotalField;
+    const delta = sum(after, key) - sum(before, key);
+    if (delta === 0) continue;
+    totals[column] = Math.max(
+      0,
+      roundNutrient((Number(meal[column]) || 0) + delta)
+    );
+  }
+
+  return {
+    ...totals,
+    ingredients: after as unknown as Prisma.InputJsonValue,
+    updated_at: new Date(),
+  };
+}
@@ -0,0 +1,96 @@
+import { ProductData } from "../types/productCatalog";
+
+function stripLanguagePrefix(tag: string): string {
+  return tag.replace(/^[a-z]{2}:/, "");
+}
+
+function optionalAmount(value: unknown): number | undefined {
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount > 0 ? amount : undefined;
+}
+
+// OpenFoodFacts gives energy in kcal when the label had it, otherwise only
+// the kJ figure
+function caloriesPer100g(nutriments: Record<string, any>): number {
+  const kcal =
+    optionalAmount(nutriments.energy_kcal_100g) ??
+    optionalAmount(nutriments["energy-kcal_100g"]);
+  if (kcal !== undefined) return kcal;
+
+  const kj = optionalAmount(nutriments.energy_100g);
+  return kj !== undefined ? Math.round(kj / 4.184) : 0;
+}
+
+/**
+ * Maps an OpenFoodFacts product, from the API or a dump line, to our product
+ * shape. Names, ingredients and tags fall back to the Hebrew fields, which is
+ * all many Israeli products have. OFF stores sodium and the minerals in
+ * grams; the catalog uses mg.
+ */
+export function mapOpenFoodFactsProduct(
+  product: Record<string, any>,
+  barcode: string = String(product.code || "")
+): ProductData {
+  const nutriments: Record<string, any> = product.nutriments || {};
+  const toMg = (value: unknown) => {
+    const grams = optionalAmount(value);
+    return grams !== undefined ? Math.round(grams * 100000) / 100 : undefined;
+  };
+  const ingredientsText: string | undefined =
+    product.ingredients_text_en ||
+    product.ingredients_text ||
+    product.ingredients_text_he;
+
+  return {
+    barcode,
+    name:
+      product.product_name ||
+      product.product_name_en ||
+      product.product_name_he ||
+      "Unknown Product",
+    brand: product.brands || undefined,
+    category: product.categories?.split(",")[0]?.trim() || "Unknown",
+    nutrition_per_100g: {
+      calories: caloriesPer100g(nutriments),
+      protein: optionalAmount(nutriments.proteins_100g) ?? 0,
+      carbs: optionalAmount(nutriments.carbohydrates_100g) ?? 0,
+      fat: optionalAmount(nutriments.fat_100g) ?? 0,
+      fiber: optionalAmount(nutriments.fiber_100g),
+      sugar: optionalAmount(nutriments.sugars_100g),
+      sodium: toMg(nutriments.sodium_100g),
+      saturated_fat: optionalAmount(
+        nutriments.saturated_fat_100g ?? nutriments["saturated-fat_100g"]
+      ),
+      trans_fat: optionalAmount(
+        nutriments.trans_fat_100g ?? nutriments["trans-fat_100g"]
+      ),
+      cholesterol: toMg(nutriments.cholesterol_100g),
+      potassium: toMg(nutriments.potassium_100g),
+      calcium: toMg(nutriments.calcium_100g),
+      iron: toMg(nutriments.iron_100g),
+      vitamin_c: toMg(
+        nutriments.vitamin_c_100g ?? nutriments["vitamin-c_100g"]
+      ),
+      vitamin_d: toMg(
+        nutriments.vitamin_d_100g ?? nutriments["vitamin-d_100g"]
+      ),
+    },
+    ingredients:
+      ingredientsText
+        ?.split(",")
+        .map((ingredient) => ingredient.trim())
+        .filter(Boolean) || [],
+    allergens: (product.allergens_tags || []).map(stripLanguagePrefix),
+    labels: (product.labels_tags || []).map(stripLanguagePrefix),
+    health_score: product.nutriscore_score ?? undefined,
+    image_url: product.image_url || undefined,
+    serving_size: product.serving_size || undefined,
+    servings_per_container: product.servings_per_container || undefined,
+  };
+}
+
+// Whether a mapped product has enough of a label to be worth keeping
+export function hasNutritionFacts(product: ProductData): boolean {
+  const { calories, protein, carbs, fat } = product.nutrition_per_100g;
+  return calories > 0 || protein + carbs + fat > 0;
+}
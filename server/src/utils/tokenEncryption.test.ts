@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { describe, it } from "node:test";
+import {
+  decryptToken,
+  encryptToken,
+  isEncryptedWithActiveKey,
+  parseKeyRing,
+} from "./tokenEncryption";
+
+const keyA = crypto.randomBytes(32).toString("base64");
+const keyB = crypto.randomBytes(32).toString("base64");
+const ring = parseKeyRing(`a:${keyA}`);
+
+// Swaps one base64url part of a `v1:<keyId>:<iv>:<authTag>:<data>` payload
+function withPart(payload: string, index: number, part: Buffer | string) {
+  const parts = payload.split(":");
+  parts[index] = Buffer.isBuffer(part) ? part.toString("base64url") : part;
+  return parts.join(":");
+}
+
+function flipFirstByte(part: string) {
+  const bytes = Buffer.from(part, "base64url");
+  bytes[0] ^= 0x01;
+  return bytes;
+}
+
+describe("tokenEncryption", () => {
+  it("round-trips with the active key", () => {
+    const payload = encryptToken("refresh-token-123", ring);
+    assert.equal(decryptToken(payload, ring), "refresh-token-123");
+    assert.ok(isEncryptedWithActiveKey(payload, ring));
+  });
+
+  it("never repeats a ciphertext for the same plaintext", () => {
+    assert.notEqual(encryptToken("same", ring), encryptToken("same", ring));
+  });
+
+  it("rejects a flipped auth tag byte", () => {
+    const payload = encryptToken("secret", ring);
+    const tag = payload.split(":")[3];
+    assert.throws(
+      () => decryptToken(withPart(payload, 3, flipFirstByte(tag)), ring),
+      /failed authentication/
+    );
+  });
+
+  it("rejects tampered ciphertext", () => {
+    const payload = encryptToken("secret", ring);
+    const data = payload.split(":")[4];
+    assert.throws(
+      () => decryptToken(withPart(payload, 4, flipFirstByte(data)), ring),
+      /failed authentication/
+    );
+  });
+
+  it("rejects a tampered IV", () => {
+    const payload = encryptToken("secret", ring);
+    const iv = payload.split(":")[2];
+    assert.throws(
+      () => decryptToken(withPart(payload, 2, flipFirstByte(iv)), ring),
+      /failed authentication/
+    );
+  });
+
+  it("rejects truncated payloads", () => {
+    const payload = encryptToken("secret", ring);
+    const parts = payload.split(":");
+
+    assert.throws(
+      () => decryptToken(parts.slice(0, 4).join(":"), ring),
+      /Unrecognized encrypted token format/
+    );
+
+    const shortTag = Buffer.from(parts[3], "base64url").subarray(0, 8);
+    assert.throws(
+      () => decryptToken(withPart(payload, 3, shortTag), ring),
+      /Malformed encrypted token/
+    );
+
+    const shortData = Buffer.from(parts[4], "base64url").subarray(0, 2);
+    assert.throws(
+      () => decryptToken(withPart(payload, 4, shortData), ring),
+      /failed authentication/
+    );
+  });
+
+  it("rejects ciphertext under the wrong key", () => {
+    const payload = encryptToken("secret", ring);
+    const otherRing = parseKeyRing(`a:${keyB}`);
+    assert.throws(
+      () => decryptToken(payload, otherRing),
+      /failed authentication/
+    );
+  });
+
+  it("rejects a key id swapped in the header", () => {
+    const bothKeys = parseKeyRing(`a:${keyA},b:${keyA}`);
+    const payload = encryptToken("secret", bothKeys);
+    // Same key bytes under id "b": only the authenticated header differs
+    assert.throws(
+      () => decryptToken(withPart(payload, 1, "b"), bothKeys),
+      /failed authentication/
+    );
+  });
+
+  it("rejects unknown key ids", () => {
+    const payload = encryptToken("secret", ring);
+    assert.throws(
+      () => decryptToken(withPart(payload, 1, "zz"), ring),
+      /Unknown token encryption key "zz"/
+    );
+  });
+
+  it("decrypts values written under a rotated-out key", () => {
+    const payload = encryptToken("secret", parseKeyRing(`a:${keyA}`));
+    const rotated = parseKeyRing(`b:${keyB},a:${keyA}`, "b");
+    assert.equal(decryptToken(payload, rotated), "secret");
+    assert.equal(isEncryptedWithActiveKey(payload, rotated), false);
+  });
+
+  it("refuses malformed key configuration", () => {
+    assert.throws(() => parseKeyRing(undefined), /not configured/);
+    assert.throws(
+      () => parseKeyRing(`a:${crypto.randomBytes(16).toString("base64")}`),
+      /must be 32 bytes/
+    );
+    assert.throws(() => parseKeyRing(`a:${keyA},a:${keyB}`), /Duplicate/);
+    assert.throws(() => parseKeyRing(`a:${keyA}`, "b"), /not configured/);
+  });
+});
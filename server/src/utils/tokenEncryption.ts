@@ -0,0 +1,146 @@
+import crypto from "crypto";
+
+/**
+ * Authenticated encryption (AES-256-GCM) for third-party OAuth tokens.
+ *
+ * Ciphertexts look like `v1:<keyId>:<iv>:<authTag>:<data>` (base64url parts).
+ * The key id travels with every value so keys can be rotated: new values are
+ * always written with the active key, while older keys stay configured until
+ * the re-encryption job has moved every row over.
+ *
+ * Keys are configured as TOKEN_ENCRYPTION_KEYS="<id>:<base64 32 bytes>,..."
+ * with TOKEN_ENCRYPTION_ACTIVE_KEY_ID naming the key for new writes
+ * (defaults to the first entry).
+ */
+
+const FORMAT_VERSION = "v1";
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+interface KeyRing {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+let cachedKeyRing: KeyRing | undefined;
+
+export function parseKeyRing(
+  keysConfig: string | undefined,
+  activeKeyId?: string
+): KeyRing {
+  if (!keysConfig?.trim()) {
+    throw new Error("TOKEN_ENCRYPTION_KEYS is not configured");
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of keysConfig.split(",")) {
+    const separator = entry.indexOf(":");
+    const id = entry.slice(0, separator).trim();
+    const key = Buffer.from(entry.slice(separator + 1).trim(), "base64");
+
+    if (separator <= 0 || !KEY_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid token encryption key id in entry "${id}"`);
+    }
+    if (key.length !== 32) {
+      throw new Error(`Token encryption key "${id}" must be 32 bytes`);
+    }
+    if (keys.has(id)) {
+      throw new Error(`Duplicate token encryption key id "${id}"`);
+    }
+    keys.set(id, key);
+  }
+
+  const active = activeKeyId?.trim() || keys.keys().next().value!;
+  if (!keys.has(active)) {
+    throw new Error(`Active token encryption key "${active}" is not configured`);
+  }
+
+  return { activeKeyId: active, keys };
+}
+
+function getKeyRing(): KeyRing {
+  if (!cachedKeyRing) {
+    cachedKeyRing = parseKeyRing(
+      process.env.TOKEN_ENCRYPTION_KEYS,
+      process.env.TOKEN_ENCRYPTION_ACTIVE_KEY_ID
+    );
+  }
+  return cachedKeyRing;
+}
+
+export function encryptToken(
+  plaintext: string,
+  keyRing: KeyRing = getKeyRing()
+): string {
+  const keyId = keyRing.activeKeyId;
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, keyRing.keys.get(keyId)!, iv, {
+    authTagLength: AUTH_TAG_LENGTH,
+  });
+
+  // Bind the header to the ciphertext so the key id can't be swapped
+  cipher.setAAD(Buffer.from(`${FORMAT_VERSION}:${keyId}`));
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return [
+    FORMAT_VERSION,
+    keyId,
+    iv.toString("base64url"),
+    cipher.getAuthTag().toString("base64url"),
+    data.toString("base64url"),
+  ].join(":");
+}
+
+export function decryptToken(
+  payload: string,
+  keyRing: KeyRing = getKeyRing()
+): string {
+  const parts = payload.split(":");
+  if (parts.length !== 5 || parts[0] !== FORMAT_VERSION) {
+    throw new Error("Unrecognized encrypted token format");
+  }
+
+  const [version, keyId, ivPart, tagPart, dataPart] = parts;
+  const key = keyRing.keys.get(keyId);
+  if (!key) {
+    throw new Error(`Unknown token encryption key "${keyId}"`);
+  }
+
+  const iv = Buffer.from(ivPart, "base64url");
+  const authTag = Buffer.from(tagPart, "base64url");
+  if (iv.length !== IV_LENGTH || authTag.length !== AUTH_TAG_LENGTH) {
+    throw new Error("Malformed encrypted token");
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv, {
+      authTagLength: AUTH_TAG_LENGTH,
+    });
+    decipher.setAAD(Buffer.from(`${version}:${keyId}`));
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(dataPart, "base64url")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    // GCM authentication failed: wrong key or tampered ciphertext
+    throw new Error("Encrypted token failed authentication");
+  }
+}
+
+export function isEncryptedToken(value: string): boolean {
+  return value.startsWith(`${FORMAT_VERSION}:`);
+}
+
+export function isEncryptedWithActiveKey(
+  value: string,
+  keyRing: KeyRing = getKeyRing()
+): boolean {
+  return (
+    isEncryptedToken(value) &&
+    value.split(":")[1] === keyRing.activeKeyId
+  );
+}
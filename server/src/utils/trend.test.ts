@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { correlation, correlationPValue } from "./trend";
+
+describe("correlation", () => {
+  it("is null when one side never varies", () => {
+    assert.equal(
+      correlation([
+        { x: 1, y: 3 },
+        { x: 2, y: 3 },
+        { x: 3, y: 3 },
+      ]),
+      null
+    );
+  });
+
+  it("is 1 and -1 for perfectly linear points", () => {
+    const rising = [1, 2, 3, 4].map((x) => ({ x, y: 2 * x + 1 }));
+    const falling = [1, 2, 3, 4].map((x) => ({ x, y: 10 - x }));
+    assert.equal(correlation(rising), 1);
+    assert.equal(correlation(falling), -1);
+  });
+});
+
+describe("correlationPValue", () => {
+  // Two-sided t-test values for the same r and n
+  it("is close to the exact test", () => {
+    assert.ok(Math.abs(correlationPValue(0.5, 14) - 0.069) < 0.005);
+    assert.ok(Math.abs(correlationPValue(0.5, 30) - 0.005) < 0.002);
+    assert.ok(Math.abs(correlationPValue(-0.3, 60) - 0.02) < 0.003);
+  });
+
+  it("doesn't call a week of data significant", () => {
+    assert.ok(correlationPValue(0.5, 7) > 0.2);
+  });
+
+  it("stays within 0 and 1", () => {
+    assert.ok(correlationPValue(0, 20) <= 1);
+    assert.equal(correlationPValue(0.9, 3), 1);
+    assert.ok(correlationPValue(1, 20) >= 0);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Helpers for noisy daily series such as weigh-ins, where x is a day index
+ * (or a second reading for the day) and y the reading for that day.
+ */
+
+export interface SeriesPoint {
+  x: number;
+  y: number;
+}
+
+/** Least-squares slope of the points, in y per unit of x. */
+export function linearSlope(points: SeriesPoint[]): number {
+  if (points.length < 2) return 0;
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  for (const p of points) {
+    covariance += (p.x - meanX) * (p.y - meanY);
+    variance += (p.x - meanX) ** 2;
+  }
+
+  return variance === 0 ? 0 : covariance / variance;
+}
+
+/**
+ * Exponentially smoothed values for points sorted by x. `alpha` is the
+ * weight of one day's reading; after a gap of n days the next reading
+ * counts as much as n daily readings would have, so sparse logs still
+ * follow real change.
+ */
+export function exponentialTrend(points: SeriesPoint[], alpha: number): number[] {
+  const trend: number[] = [];
+  points.forEach((point, i) => {
+    if (i === 0) {
+      trend.push(point.y);
+      return;
+    }
+    const gap = point.x - points[i - 1].x;
+    const weight = 1 - (1 - alpha) ** gap;
+    trend.push(trend[i - 1] + weight * (point.y - trend[i - 1]));
+  });
+  return trend;
+}
+
+/**
+ * Pearson correlation of x and y across the points, from -1 to 1. Null when
+ * either side never varies, since nothing can be said then.
+ */
+export function correlation(points: SeriesPoint[]): number | null {
+  if (points.length < 2) return null;
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (const p of points) {
+    covariance += (p.x - meanX) * (p.y - meanY);
+    varianceX += (p.x - meanX) ** 2;
+    varianceY += (p.y - meanY) ** 2;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Two-sided p-value for a correlation `r` over `n` points: how often one at
+ * least this far from zero turns up by chance when x and y are unrelated.
+ * Uses Fisher's z transform, which is close enough from about 10 points.
+ */
+export function correlationPValue(r: number, n: number): number {
+  if (n <= 3) return 1;
+  const size = Math.min(Math.abs(r), 1 - 1e-12);
+  return 2 * normalTail(Math.atanh(size) * Math.sqrt(n - 3));
+}
+
+// P(Z > z) for a standard normal and z >= 0 (Abramowitz & Stegun 26.2.17)
+function normalTail(z: number): number {
+  const t = 1 / (1 + 0.2316419 * z);
+  const poly =
+    t *
+    (0.31938153 +
+      t *
+        (-0.356563782 +
+          t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return (Math.exp((-z * z) / 2) / Math.sqrt(2 * Math.PI)) * poly;
+}
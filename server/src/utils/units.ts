@@ -0,0 +1,189 @@
+// Shopping quantities are summed in a base unit per dimension: grams,
+// millilitres or pieces. Kitchen measures are taken as volumes (a cup is
+// 240ml), since a cup of flour and a cup of milk weigh different amounts.
+// Units not listed here (slice, clove, can...) are only summed with
+// themselves.
+
+export type UnitDimension = "mass" | "volume" | "count";
+
+const BASE_UNITS: Record<UnitDimension, string> = {
+  mass: "g",
+  volume: "ml",
+  count: "piece",
+};
+
+const UNITS: Record<string, { dimension: UnitDimension; factor: number }> = {
+  mg: { dimension: "mass", factor: 0.001 },
+  g: { dimension: "mass", factor: 1 },
+  gr: { dimension: "mass", factor: 1 },
+  gram: { dimension: "mass", factor: 1 },
+  grams: { dimension: "mass", factor: 1 },
+  גרם: { dimension: "mass", factor: 1 },
+  kg: { dimension: "mass", factor: 1000 },
+  kilo: { dimension: "mass", factor: 1000 },
+  kilogram: { dimension: "mass", factor: 1000 },
+  kilograms: { dimension: "mass", factor: 1000 },
+  קג: { dimension: "mass", factor: 1000 },
+  קילו: { dimension: "mass", factor: 1000 },
+  oz: { dimension: "mass", factor: 28.35 },
+  lb: { dimension: "mass", factor: 453.6 },
+  lbs: { dimension: "mass", factor: 453.6 },
+  ml: { dimension: "volume", factor: 1 },
+  מל: { dimension: "volume", factor: 1 },
+  l: { dimension: "volume", factor: 1000 },
+  liter: { dimension: "volume", factor: 1000 },
+  liters: { dimension: "volume", factor: 1000 },
+  litre: { dimension: "volume", factor: 1000 },
+  litres: { dimension: "volume", factor: 1000 },
+  ליטר: { dimension: "volume", factor: 1000 },
+  cup: { dimension: "volume", factor: 240 },
+  cups: { dimension: "volume", factor: 240 },
+  כוס: { dimension: "volume", factor: 240 },
+  כוסות: { dimension: "volume", factor: 240 },
+  tbsp: { dimension: "volume", factor: 15 },
+  tablespoon: { dimension: "volume", factor: 15 },
+  tablespoons: { dimension: "volume", factor: 15 },
+  כף: { dimension: "volume", factor: 15 },
+  כפות: { dimension: "volume", factor: 15 },
+  tsp: { dimension: "volume", factor: 5 },
+  teaspoon: { dimension: "volume", factor: 5 },
+  teaspoons: { dimension: "volume", factor: 5 },
+  כפית: { dimension: "volume", factor: 5 },
+  כפיות: { dimension: "volume", factor: 5 },
+  piece: { dimension: "count", factor: 1 },
+  pieces: { dimension: "count", factor: 1 },
+  pc: { dimension: "count", factor: 1 },
+  pcs: { dimension: "count", factor: 1 },
+  unit: { dimension: "count", factor: 1 },
+  units: { dimension: "count", factor: 1 },
+  item: { dimension: "count", factor: 1 },
+  items: { dimension: "count", factor: 1 },
+  whole: { dimension: "count", factor: 1 },
+  יחידה: { dimension: "count", factor: 1 },
+  יחידות: { dimension: "count", factor: 1 },
+  dozen: { dimension: "count", factor: 12 },
+};
+
+const FRACTIONS: Record<string, number> = { "½": 0.5, "¼": 0.25, "¾": 0.75 };
+
+export interface NormalizedAmount {
+  // null for "to taste" and other amounts that can't be summed
+  amount: number | null;
+  // g, ml or piece for known units, otherwise the unit as written
+  unit: string;
+  // What the amount can be summed with: a dimension, or the unit itself
+  dimension: string;
+}
+
+export interface ParsedIngredient {
+  name: string;
+  amount: number | null;
+  unit: string | null;
+  category?: string;
+  estimated_cost?: number;
+}
+
+function cleanUnit(unit: string): string {
+  return unit.trim().toLowerCase().replace(/\.$/, "").replace(/["'״׳]/g, "");
+}
+
+export function isKnownUnit(unit: string): boolean {
+  return cleanUnit(unit) in UNITS;
+}
+
+export function normalizeAmount(
+  amount: number | null | undefined,
+  unit: string | null | undefined
+): NormalizedAmount {
+  const cleaned = cleanUnit(unit || "piece");
+  const known = UNITS[cleaned];
+  const value =
+    amount === null || amount === undefined || !Number.isFinite(amount)
+      ? null
+      : amount;
+
+  if (!known) {
+    return { amount: value, unit: cleaned, dimension: cleaned };
+  }
+  return {
+    amount: value === null ? null : value * known.factor,
+    unit: BASE_UNITS[known.dimension],
+    dimension: known.dimension,
+  };
+}
+
+// Turns a summed base amount back into something to read off a shelf:
+// whole grams and millilitres, kg and litres from 1000 up, and whole pieces
+export function formatAmount(
+  amount: number | null,
+  unit: string
+): { quantity: number | null; unit: string } {
+  if (amount === null) return { quantity: null, unit };
+  if ((unit === "g" || unit === "ml") && amount >= 1000) {
+    return {
+      quantity: Math.round(amount / 10) / 100,
+      unit: unit === "g" ? "kg" : "l",
+    };
+  }
+  if (unit === "g" || unit === "ml") {
+    return { quantity: Math.max(1, Math.round(amount)), unit };
+  }
+  // Nobody buys 2.3 eggs
+  return { quantity: Math.ceil(amount - 0.01), unit };
+}
+
+// Lower-cased, punctuation-free name that "Eggs " and "eggs" share
+export function ingredientKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function parseNumber(text: string): number | null {
+  if (FRACTIONS[text] !== undefined) return FRACTIONS[text];
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[1]) / Number(fraction[2]);
+  const value = Number(text.replace(",", "."));
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Reads a meal plan or menu ingredient: either an object with name,
+ * quantity and unit, or free text such as "200g chicken breast",
+ * "1 cup of rice" or "2 eggs". Text without a leading amount ("salt to
+ * taste") gets a null amount.
+ */
+export function parseIngredient(raw: unknown): ParsedIngredient | null {
+  if (raw && typeof raw === "object") {
+    const item = raw as Record<string, any>;
+    const name = String(item.name || item.ingredient_name || "").trim();
+    if (!name) return null;
+    const amount = Number(item.quantity ?? item.amount);
+    return {
+      name,
+      amount: Number.isFinite(amount) && amount > 0 ? amount : null,
+      unit: item.unit ? String(item.unit) : null,
+      category: item.category || undefined,
+      estimated_cost: Number(item.estimated_cost) || undefined,
+    };
+  }
+  if (typeof raw !== "string" || !raw.trim()) return null;
+
+  const match = raw
+    .trim()
+    .match(/^(\d+(?:[.,]\d+)?|\d+\/\d+|[½¼¾])\s*([^\d\s]+)?\s*(.*)$/);
+  if (!match) return { name: raw.trim(), amount: null, unit: null };
+
+  const [, number, unitToken = "", rest] = match;
+  const amount = parseNumber(number);
+  if (unitToken && isKnownUnit(unitToken)) {
+    return {
+      name: rest.replace(/^of\s+/i, "").trim() || unitToken,
+      amount,
+      unit: unitToken,
+    };
+  }
+  return { name: `${unitToken} ${rest}`.trim(), amount, unit: null };
+}
@@ -0,0 +1,35 @@
+// Short, human label for the device behind a User-Agent, e.g.
+// "Chrome on Windows" or "Calo app on Android". Good enough for a user
+// telling their own sessions apart; not meant for analytics.
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPad/i, "iPad"],
+  [/iPhone|iPod/i, "iPhone"],
+  // Native iOS requests only carry the networking stack's name
+  [/CFNetwork/i, "iOS"],
+  [/Android|okhttp/i, "Android"],
+  [/Windows/i, "Windows"],
+  [/Mac OS X|Macintosh/i, "Mac"],
+  [/CrOS/i, "ChromeOS"],
+  [/Linux/i, "Linux"],
+];
+
+// Order matters: Edge and Opera also claim Chrome, Chrome also claims Safari
+const CLIENTS: [RegExp, string][] = [
+  [/Expo|okhttp|CFNetwork/i, "Calo app"],
+  [/Edg\//i, "Edge"],
+  [/OPR\//i, "Opera"],
+  [/Firefox|FxiOS/i, "Firefox"],
+  [/Chrome|CriOS/i, "Chrome"],
+  [/Safari/i, "Safari"],
+];
+
+export function describeDevice(userAgent: string | undefined): string {
+  if (!userAgent) return "Unknown device";
+
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent));
+  const client = CLIENTS.find(([pattern]) => pattern.test(userAgent));
+
+  if (client && platform) return `${client[1]} on ${platform[1]}`;
+  return client?.[1] ?? platform?.[1] ?? "Unknown device";
+}